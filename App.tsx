@@ -7,55 +7,84 @@ import * as SplashScreen from 'expo-splash-screen';
 import { EvaIconsPack } from '@ui-kitten/eva-icons';
 import AppNavigator from './src/navigation/AppNavigator';
 import { AccessibilityProvider } from './src/contexts/AccessibilityContext';
+import { MedicationProvider } from './src/contexts/MedicationContext';
 import { medGuardTheme } from './src/theme/colors';
-import notificationService from './src/services/notificationService';
 import apiService from './src/services/apiService';
+import escalationService from './src/services/escalationService';
+import inboxService from './src/services/inboxService';
+import inventoryService from './src/services/inventoryService';
 import offlineService from './src/services/offlineService';
+import prescriptionService from './src/services/prescriptionService';
+import profileService from './src/services/profileService';
+import reminderActionService from './src/services/reminderActionService';
+import reminderPlannerService from './src/services/reminderPlannerService';
+import travelService from './src/services/travelService';
+import { readCaregiverAlertPatient } from './src/types/profile';
 
 SplashScreen.preventAutoHideAsync();
+reminderActionService.registerBackgroundTask();
+reminderPlannerService.registerBackgroundFetch();
 
 export default function App() {
   useEffect(() => {
-    // Register notification handlers
-    Notifications.addNotificationReceivedListener(notification => {
-      // Handle notification reception
-      console.log('Notification Received:', notification);
-    });
-    Notifications.addNotificationResponseReceivedListener(response => {
-      // Handle notification tap
-      console.log('Notification Response:', response);
-    });
+    // Keep delivered notifications in the inbox
+    const stopInbox = inboxService.listen();
+    // Take / Snooze / Skip pressed on a dose reminder
+    const stopReminderActions = reminderActionService.listen();
+    // Keep the reminder window in step with recorded doses
+    const stopReplenishing = reminderPlannerService.watch();
 
     // Sync offline actions on app start/resume
     const sync = async () => {
       await offlineService.smartSync();
       await apiService.ensureSync();
-      await notificationService.scheduleMedicationReminders(await apiService.getMedicationSchedules());
+      // Fills the schedule cache the reminder window is planned from on first run
+      await apiService.getMedicationSchedules();
+      // Schedules on local time move to a new zone from when it is noticed
+      await travelService.checkTimeZone();
+      await reminderPlannerService.replenish();
+      await escalationService.run();
+      await inventoryService.checkStockAlerts();
+      await prescriptionService.checkPrescriptionAlerts();
+      await inboxService.sync();
       SplashScreen.hideAsync();
     };
 
     sync();
 
     // Sync on resume
-    const subscription = Notifications.addNotificationResponseReceivedListener(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      // A dependant's missed-dose alert opens their profile
+      const patientId = readCaregiverAlertPatient(response.notification.request.content.data);
+      if (patientId !== null) {
+        profileService.switchProfile(patientId).catch(error => console.error('Switch profile error:', error));
+      }
       sync();
     });
 
     // Background sync timer while app is active
     const intervalId = setInterval(() => {
       offlineService.smartSync();
+      escalationService.run();
     }, 15 * 60 * 1000); // every 15 minutes
 
     // Foreground resume trigger
     const appStateHandler = (state: AppStateStatus) => {
       if (state === 'active') {
         offlineService.smartSync();
+        inboxService.collectPresented();
+        travelService.checkTimeZone();
+        reminderPlannerService.replenish();
+        escalationService.run();
       }
     };
     const appStateSub = AppState.addEventListener('change', appStateHandler);
 
     return () => {
       subscription.remove();
+      stopInbox();
+      stopReminderActions();
+      stopReplenishing();
       clearInterval(intervalId);
       appStateSub.remove();
     };
@@ -66,7 +95,9 @@ export default function App() {
       <IconRegistry icons={EvaIconsPack} />
       <ApplicationProvider {...eva} theme={{ ...eva.light, ...medGuardTheme }}>
         <AccessibilityProvider>
-          <AppNavigator />
+          <MedicationProvider>
+            <AppNavigator />
+          </MedicationProvider>
         </AccessibilityProvider>
       </ApplicationProvider>
     </>
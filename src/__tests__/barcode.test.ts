@@ -0,0 +1,55 @@
+import bundledCatalogue from '../data/productCatalogue.json'
+import { parseProductCatalogue, prescriptionTypeFor } from '../types/productCatalogue'
+import { gs1Date, isValidGtin, parseGs1, parsePackBarcode } from '../utils/barcode'
+
+const GS = '\u001d'
+const today = new Date(2026, 9, 18)
+
+describe('parsePackBarcode', () => {
+  test('reads EAN-13 codes as GTINs and rejects bad check digits', () => {
+    expect(isValidGtin('6001234000013')).toBe(true)
+    expect(parsePackBarcode('6001234000013', 'ean13')).toEqual({ format: 'ean13', gtin: '06001234000013' })
+    expect(parsePackBarcode('6001234000014', 'ean13')).toBeNull()
+  })
+
+  test('decodes GTIN, expiry, batch and serial from a GS1 DataMatrix', () => {
+    const data = `]d201060012340000131727033110AB12C${GS}21SN0042`
+    expect(parsePackBarcode(data, 'datamatrix', today)).toEqual({
+      format: 'gs1',
+      gtin: '06001234000013',
+      batchNumber: 'AB12C',
+      expiryDate: '2027-03-31',
+      serialNumber: 'SN0042'
+    })
+  })
+
+  test('reads the human-readable form and a NAPPI code', () => {
+    expect(parsePackBarcode('(01)06001234001010(17)280200(10)L77(714)712045001', undefined, today)).toMatchObject({
+      gtin: '06001234001010',
+      nappiCode: '712045001',
+      batchNumber: 'L77',
+      expiryDate: '2028-02-29'
+    })
+    expect(parseGs1('hello world')).toBeNull()
+    expect(parsePackBarcode('https://example.com', 'qr')).toBeNull()
+  })
+
+  test('puts GS1 years in the right century', () => {
+    expect(gs1Date('991231', today)).toBe('1999-12-31')
+    expect(gs1Date('760101', today)).toBe('2076-01-01')
+    expect(gs1Date('271301', today)).toBeUndefined()
+  })
+})
+
+describe('product catalogue', () => {
+  test('the bundled catalogue parses and maps schedule levels to prescription types', () => {
+    const catalogue = parseProductCatalogue(bundledCatalogue)
+    expect(catalogue.products.length).toBeGreaterThan(0)
+    expect(catalogue.products.every((product) => product.gtins.every(isValidGtin))).toBe(true)
+    expect([0, 4, 8].map((level) => prescriptionTypeFor(level as 0 | 4 | 8))).toEqual([
+      'otc',
+      'schedule_4',
+      'prescription'
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+import { DEFAULT_ROUTINE } from '../types/routine'
+import { MedicationSchedule, buildSchedulePattern } from '../types/schedule'
+import { parseTimingConstraint } from '../types/timingConstraint'
+import { fitsMealConstraint } from '../utils/dailyPlan'
+import { SmartMedicationScheduler } from '../utils/smartScheduler'
+
+const minutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+const schedule = (overrides: Partial<MedicationSchedule> & Pick<MedicationSchedule, 'id' | 'medicationName'>): MedicationSchedule => ({
+  medicationId: `medication_${overrides.id}`,
+  dosage: '1 tablet',
+  frequency: 'daily',
+  timing: 'morning',
+  pattern: buildSchedulePattern('morning', 'daily'),
+  startDate: '2026-01-01',
+  status: 'active',
+  priority: 'normal',
+  ...overrides
+})
+
+const levothyroxine = schedule({
+  id: 'levo',
+  medicationName: 'Eltroxin',
+  pattern: buildSchedulePattern('custom', 'daily', undefined, '08:00'),
+  timingConstraints: [{ type: 'meal', relation: 'empty_stomach', meal: 'breakfast', minutes: 30 }]
+})
+
+const calcium = schedule({
+  id: 'calcium',
+  medicationName: 'Caltrate',
+  frequency: 'twice_daily',
+  pattern: buildSchedulePattern('morning', 'twice_daily'),
+  foodRequirement: 'with_food'
+})
+
+describe('fitsMealConstraint', () => {
+  test('empty stomach 30 min before breakfast means 30 to 60 minutes ahead of it', () => {
+    const rule = { type: 'meal' as const, relation: 'empty_stomach' as const, meal: 'breakfast' as const, minutes: 30 }
+    expect(fitsMealConstraint(minutes('07:30'), rule, DEFAULT_ROUTINE)).toBe(true)
+    expect(fitsMealConstraint(minutes('07:00'), rule, DEFAULT_ROUTINE)).toBe(true)
+    expect(fitsMealConstraint(minutes('07:45'), rule, DEFAULT_ROUTINE)).toBe(false)
+    expect(fitsMealConstraint(minutes('06:00'), rule, DEFAULT_ROUTINE)).toBe(false)
+  })
+
+  test('with a meal accepts any meal unless one is named', () => {
+    expect(fitsMealConstraint(minutes('13:15'), { type: 'meal', relation: 'with_meal' }, DEFAULT_ROUTINE)).toBe(true)
+    expect(
+      fitsMealConstraint(minutes('13:15'), { type: 'meal', relation: 'with_meal', meal: 'dinner' }, DEFAULT_ROUTINE)
+    ).toBe(false)
+  })
+})
+
+describe('parseTimingConstraint', () => {
+  test('parses spacing constraints and rejects a spacing of half a day or more', () => {
+    expect(parseTimingConstraint({ type: 'apart', from: ' antacid ', hours: 2 })).toEqual({
+      type: 'apart',
+      from: 'antacid',
+      hours: 2
+    })
+    expect(() => parseTimingConstraint({ type: 'apart', from: 'iron', hours: 12 })).toThrow(/hours/)
+  })
+})
+
+describe('SmartMedicationScheduler.planDailyTimetable', () => {
+  test('moves levothyroxine before breakfast and keeps calcium 4 hours away', () => {
+    const plan = SmartMedicationScheduler.planDailyTimetable([levothyroxine, calcium])
+
+    expect(plan.feasible).toBe(true)
+    const times = Object.fromEntries(plan.doses.map((dose) => [dose.id, dose.plannedTime]))
+    expect(times['levo@08:00']).toBe('07:30')
+    // Calcium stays with meals, 4h after levothyroxine and 8h between its own doses
+    expect(times['calcium@08:00']).toBe('12:30')
+    expect(times['calcium@20:00']).toBe('20:30')
+    expect(plan.doses.map((dose) => dose.plannedTime)).toEqual(
+      [...plan.doses.map((dose) => dose.plannedTime)].sort()
+    )
+  })
+
+  test('keeps doses where they are when nothing clashes', () => {
+    const plan = SmartMedicationScheduler.planDailyTimetable([
+      schedule({ id: 'a', medicationName: 'Metformin', frequency: 'twice_daily', pattern: buildSchedulePattern('morning', 'twice_daily') }),
+      schedule({ id: 'b', medicationName: 'Amlodipine' })
+    ])
+
+    expect(plan.feasible).toBe(true)
+    expect(plan.doses.every((dose) => dose.shiftMinutes === 0)).toBe(true)
+  })
+
+  test('applies "apart from" constraints by drug or class name', () => {
+    const plan = SmartMedicationScheduler.planDailyTimetable([
+      schedule({
+        id: 'cipro',
+        medicationName: 'Ciprobay',
+        pattern: buildSchedulePattern('custom', 'daily', undefined, '13:00'),
+        timingConstraints: [{ type: 'apart', from: 'antacid', hours: 2 }]
+      }),
+      schedule({ id: 'gaviscon', medicationName: 'Gaviscon', pattern: buildSchedulePattern('noon', 'daily') }),
+      schedule({ id: 'vitamin', medicationName: 'Vitamin C', pattern: buildSchedulePattern('noon', 'daily') })
+    ])
+
+    const times = Object.fromEntries(plan.doses.map((dose) => [dose.scheduleId, minutes(dose.plannedTime)]))
+    expect(plan.feasible).toBe(true)
+    // Ciprofloxacin and antacids also carry a 6h interaction spacing
+    expect(Math.abs((times.cipro as number) - (times.gaviscon as number))).toBeGreaterThanOrEqual(360)
+    expect(times.vitamin).toBe(minutes('13:00'))
+  })
+
+  test('explains why no timetable exists', () => {
+    const impossible = schedule({
+      id: 'levo',
+      medicationName: 'Eltroxin',
+      frequency: 'twice_daily',
+      pattern: buildSchedulePattern('morning', 'twice_daily'),
+      timingConstraints: [
+        { type: 'meal', relation: 'empty_stomach', meal: 'breakfast', minutes: 30 }
+      ]
+    })
+    const plan = SmartMedicationScheduler.planDailyTimetable([impossible, calcium])
+
+    expect(plan.feasible).toBe(false)
+    expect(plan.doses.map((dose) => dose.plannedTime)).toEqual(['08:00', '08:00', '20:00', '20:00'])
+    // Both doses can't sit in the half hour before breakfast and the evening one clashes with calcium
+    expect(plan.conflicts).toContainEqual({
+      type: 'meal',
+      doseId: 'levo@20:00',
+      constraint: { type: 'meal', relation: 'empty_stomach', meal: 'breakfast', minutes: 30 }
+    })
+    expect(plan.conflicts).not.toContainEqual(expect.objectContaining({ doseId: 'levo@08:00' }))
+  })
+
+  test('leaves out as-needed and inactive schedules', () => {
+    const plan = SmartMedicationScheduler.planDailyTimetable([
+      { ...levothyroxine, status: 'paused' },
+      schedule({ id: 'prn', medicationName: 'Panado', frequency: 'as_needed', pattern: buildSchedulePattern('morning', 'as_needed') })
+    ])
+
+    expect(plan).toEqual({ feasible: true, doses: [], conflicts: [] })
+  })
+})
@@ -0,0 +1,121 @@
+import {
+  ApiRequestError,
+  fromApiLog,
+  fromApiMedication,
+  fromApiSchedule,
+  isRetryableError,
+  parseApiErrorBody,
+  toApiError,
+  toApiSchedule
+} from '../types/api'
+import { parseDoseLog } from '../types/medication'
+import { DomainParseError } from '../types/parse'
+import { parseMedicationSchedule } from '../types/schedule'
+
+const apiSchedule = {
+  id: 12,
+  medication: { id: 3, name: 'Metformin', strength: '500mg' },
+  patient: 7,
+  timing: 'morning',
+  dosageAmount: '1 tablet',
+  frequency: 'Twice Daily',
+  monday: true,
+  tuesday: true,
+  wednesday: true,
+  thursday: true,
+  friday: true,
+  saturday: false,
+  sunday: false,
+  startDate: '2024-01-01',
+  status: 'active'
+}
+
+describe('fromApiSchedule', () => {
+  test('maps the wire format to the canonical schedule', () => {
+    const schedule = fromApiSchedule(apiSchedule)
+    expect(schedule.id).toBe('12')
+    expect(schedule.medicationId).toBe('3')
+    expect(schedule.medicationName).toBe('Metformin')
+    expect(schedule.frequency).toBe('twice_daily')
+    expect(schedule.pattern.type).toBe('weekly')
+    expect(schedule.pattern.daysOfWeek).toEqual([false, true, true, true, true, true, false])
+    expect(schedule.pattern.times).toEqual(['08:00', '20:00'])
+  })
+
+  test('round-trips weekdays and ids through toApiSchedule', () => {
+    const wire = toApiSchedule(fromApiSchedule(apiSchedule))
+    expect(wire.id).toBe(12)
+    expect(wire.medication).toBe(3)
+    expect(wire.sunday).toBe(false)
+    expect(wire.monday).toBe(true)
+    expect(wire.frequency).toBe('twice_daily')
+  })
+
+  test('round-trips the priority that picks the escalation chain', () => {
+    expect(fromApiSchedule(apiSchedule).priority).toBe('normal')
+    const critical = fromApiSchedule({ ...apiSchedule, priority: 'critical' })
+    expect(critical.priority).toBe('critical')
+    expect(toApiSchedule(critical).priority).toBe('critical')
+    expect(fromApiSchedule({ ...apiSchedule, ...toApiSchedule(critical) }).priority).toBe('critical')
+  })
+
+  test('uses the custom time for custom timing', () => {
+    const schedule = fromApiSchedule({ ...apiSchedule, frequency: 'daily', timing: 'custom', customTime: '9:30' })
+    expect(schedule.pattern.times).toEqual(['09:30'])
+  })
+})
+
+describe('domain parsers', () => {
+  test('rejects malformed patterns with the offending path', () => {
+    expect(() =>
+      parseMedicationSchedule({
+        id: 'local-1',
+        medicationId: '3',
+        dosage: '1 tablet',
+        startDate: '2024-01-01',
+        pattern: { type: 'weekly', daysOfWeek: [true, false], times: ['08:00'] }
+      })
+    ).toThrow(DomainParseError)
+  })
+
+  test('splits comma separated side effects from the API', () => {
+    const medication = fromApiMedication({ id: 1, name: 'Aspirin', sideEffects: 'nausea, headache' })
+    expect(medication.sideEffects).toEqual(['nausea', 'headache'])
+  })
+
+  test('migrates legacy local logs that used takenAt', () => {
+    const log = parseDoseLog({ id: 'log_1', medicationId: 'med_1', takenAt: '2024-01-01T08:00:00.000Z', dosage: '1' })
+    expect(log.status).toBe('taken')
+    expect(log.actualTime).toBe('2024-01-01T08:00:00.000Z')
+  })
+
+  test('reads nested medication and schedule ids from API logs', () => {
+    const log = fromApiLog({ id: 5, medication: { id: 3 }, schedule: 12, scheduledTime: '2024-01-01T08:00:00Z', status: 'missed' })
+    expect(log.medicationId).toBe('3')
+    expect(log.scheduleId).toBe('12')
+    expect(log.status).toBe('missed')
+  })
+})
+
+describe('API errors', () => {
+  test('classifies responses by status', () => {
+    expect(new ApiRequestError(400, 'bad').kind).toBe('validation')
+    expect(new ApiRequestError(401, 'auth').kind).toBe('unauthorized')
+    expect(new ApiRequestError(404, 'gone').kind).toBe('not_found')
+    expect(new ApiRequestError(503, 'down').kind).toBe('server')
+  })
+
+  test('reads DRF field errors', () => {
+    expect(parseApiErrorBody({ dosageAmount: ['This field is required.'] })).toEqual({
+      fieldErrors: { dosageAmount: ['This field is required.'] }
+    })
+    expect(parseApiErrorBody({ detail: 'Not found.' })).toEqual({ detail: 'Not found.' })
+  })
+
+  test('treats failed requests as offline and retryable', () => {
+    const error = toApiError(new TypeError('Network request failed'))
+    expect(error.kind).toBe('offline')
+    expect(isRetryableError(error)).toBe(true)
+    expect(isRetryableError(toApiError(new ApiRequestError(400, 'bad')))).toBe(false)
+  })
+})
@@ -0,0 +1,111 @@
+import { DoseEvent } from '../types/dose'
+import {
+  DoseTransitionError,
+  calculateAdherence,
+  classifyTakenTime,
+  doseStateFromLog,
+  isPastMissedWindow,
+  toDoseLogStatus,
+  transitionDose,
+} from '../utils/doseLedger'
+import { occurrenceIdFor } from '../utils/scheduleUtils'
+
+const scheduledTime = '2026-03-02T08:00:00.000Z'
+const minutesLater = (minutes: number) => new Date(Date.parse(scheduledTime) + minutes * 60000)
+
+const pendingDose = (): DoseEvent => ({
+  id: 'schedule_1-2026-03-02-08-00',
+  scheduleId: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Metformin',
+  dosage: '1 tablet',
+  scheduledTime,
+  status: 'pending',
+  transitions: [],
+  createdAt: scheduledTime,
+  updatedAt: scheduledTime,
+})
+
+describe('dose state machine', () => {
+  test('records every transition with its timestamp and source', () => {
+    const missed = transitionDose(pendingDose(), 'missed', { at: minutesLater(300), source: 'auto' })
+    const late = transitionDose(missed, 'late', { at: minutesLater(320), actualTime: minutesLater(310) })
+
+    expect(late.status).toBe('late')
+    expect(late.actualTime).toBe(minutesLater(310).toISOString())
+    expect(late.transitions).toEqual([
+      { from: 'pending', to: 'missed', at: minutesLater(300).toISOString(), source: 'auto' },
+      { from: 'missed', to: 'late', at: minutesLater(320).toISOString(), source: 'user' },
+    ])
+  })
+
+  test('keeps the skip reason and clears it on undo', () => {
+    const skipped = transitionDose(pendingDose(), 'skipped', { skipReason: 'side_effects' })
+    expect(skipped.skipReason).toBe('side_effects')
+    expect(skipped.transitions[0]?.reason).toBe('side_effects')
+
+    const undone = transitionDose(skipped, 'pending')
+    expect(undone.skipReason).toBeUndefined()
+  })
+
+  test('rejects transitions the machine does not allow', () => {
+    const taken = transitionDose(pendingDose(), 'taken')
+    expect(() => transitionDose(taken, 'missed')).toThrow(DoseTransitionError)
+  })
+
+  test('derives late and missed from the dose windows', () => {
+    expect(classifyTakenTime(scheduledTime, minutesLater(-30))).toBe('taken')
+    expect(classifyTakenTime(scheduledTime, minutesLater(60))).toBe('taken')
+    expect(classifyTakenTime(scheduledTime, minutesLater(61))).toBe('late')
+    expect(isPastMissedWindow(pendingDose(), minutesLater(240))).toBe(false)
+    expect(isPastMissedWindow(pendingDose(), minutesLater(241))).toBe(true)
+  })
+
+  test('maps between ledger states and server log statuses', () => {
+    expect(toDoseLogStatus('late')).toBe('taken')
+    expect(toDoseLogStatus('pending')).toBeNull()
+    expect(doseStateFromLog({ status: 'taken', actualTime: minutesLater(90).toISOString() }, scheduledTime)).toBe('late')
+    expect(doseStateFromLog({ status: 'partial' }, scheduledTime)).toBe('partial')
+  })
+})
+
+describe('adherence from dose events', () => {
+  test('scores recorded doses and ignores pending and excused ones', () => {
+    const summary = calculateAdherence([
+      { status: 'taken' },
+      { status: 'late' },
+      { status: 'partial' },
+      { status: 'missed' },
+      { status: 'skipped', skipReason: 'doctor_advised' },
+      { status: 'pending' },
+    ])
+
+    expect(summary.total).toBe(4)
+    expect(summary.excused).toBe(1)
+    expect(summary.adherenceRate).toBe(62.5)
+    expect(summary.onTimeRate).toBe(25)
+  })
+
+  test('has no rate before any dose is resolved', () => {
+    expect(calculateAdherence([{ status: 'pending' }]).adherenceRate).toBeNull()
+  })
+})
+
+describe('dose ids', () => {
+  const occurrence = {
+    scheduleId: 'schedule_1',
+    medicationId: 'medication_1',
+    dosage: '1 tablet',
+    scheduledTime,
+  }
+
+  test('names a dose after its wall time in the schedule zone, not the device zone', () => {
+    expect(occurrenceIdFor({ ...occurrence, timeZone: 'Pacific/Auckland' })).toBe('schedule_1-2026-03-02-21-00')
+    expect(occurrenceIdFor({ ...occurrence, timeZone: 'America/Sao_Paulo' })).toBe('schedule_1-2026-03-02-05-00')
+  })
+
+  test('keeps an id the dose already has', () => {
+    expect(occurrenceIdFor({ ...occurrence, id: 'schedule_1-2026-03-02-10-00', timeZone: 'Pacific/Auckland' }))
+      .toBe('schedule_1-2026-03-02-10-00')
+  })
+})
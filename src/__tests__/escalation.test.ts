@@ -0,0 +1,117 @@
+import { fromApiSchedule } from '../types/api'
+import { DoseEvent } from '../types/dose'
+import { DEFAULT_ESCALATION_POLICIES, parseEscalationPolicies } from '../types/escalation'
+import { doseIdFor, getDoseTimesBetween } from '../utils/scheduleUtils'
+import { dueEscalations, escalationChain, escalationState, isStaleEscalation } from '../utils/escalation'
+
+const chain = DEFAULT_ESCALATION_POLICIES.critical
+
+const dose = (extra: Partial<DoseEvent> = {}): DoseEvent => ({
+  id: 'schedule_1-2026-03-02-08-00',
+  scheduleId: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Insulin',
+  dosage: '10 units',
+  scheduledTime: '2026-03-02T08:00:00.000Z',
+  status: 'pending',
+  transitions: [],
+  createdAt: '2026-03-02T00:00:00.000Z',
+  updatedAt: '2026-03-02T00:00:00.000Z',
+  ...extra,
+})
+
+describe('escalation chain', () => {
+  test('steps come due in order after the dose time', () => {
+    const due = dueEscalations(dose(), chain, new Date('2026-03-02T08:40:00Z'))
+    expect(due.map(step => step.type)).toEqual(['remind', 'remind'])
+    expect(due[1]?.dueAt.toISOString()).toBe('2026-03-02T08:30:00.000Z')
+  })
+
+  test('recorded steps are not due again', () => {
+    const event = dose({
+      escalations: [{ step: 0, type: 'remind', at: '2026-03-02T08:15:00.000Z', delivered: true }],
+    })
+    const due = dueEscalations(event, chain, new Date('2026-03-02T09:00:00Z'))
+    expect(due.map(step => step.step)).toEqual([1, 2, 3])
+  })
+
+  test('stops once the dose is recorded', () => {
+    const now = new Date('2026-03-02T09:00:00Z')
+    expect(dueEscalations(dose({ status: 'taken' }), chain, now)).toEqual([])
+    expect(dueEscalations(dose({ status: 'missed' }), chain, now)).toHaveLength(4)
+    expect(escalationState(dose({ status: 'skipped' }), chain).next).toBeUndefined()
+  })
+
+  test('reports progress and the next step', () => {
+    const state = escalationState(dose({
+      escalations: [
+        { step: 1, type: 'remind', at: '2026-03-02T08:30:00.000Z', delivered: true },
+        { step: 0, type: 'remind', at: '2026-03-02T08:15:00.000Z', delivered: true },
+      ],
+    }), chain)
+    expect(state.taken.map(step => step.step)).toEqual([0, 1])
+    expect(state.next?.type).toBe('critical_alert')
+    expect(state.next?.dueAt.toISOString()).toBe('2026-03-02T08:45:00.000Z')
+  })
+
+  test('treats steps from hours ago as stale', () => {
+    const [caregiver] = dueEscalations(dose(), chain.slice(3), new Date('2026-03-02T09:30:00Z'))
+    expect(caregiver && isStaleEscalation(caregiver, new Date('2026-03-02T09:30:00Z'))).toBe(false)
+    expect(caregiver && isStaleEscalation(caregiver, new Date('2026-03-02T22:00:00Z'))).toBe(true)
+  })
+})
+
+describe('parseEscalationPolicies', () => {
+  test('overrides the defaults per priority, in firing order', () => {
+    const policies = parseEscalationPolicies({
+      low: [{ type: 'caregiver', afterMinutes: 90 }, { type: 'remind', afterMinutes: 10 }],
+    })
+    expect(policies.low.map(step => step.type)).toEqual(['remind', 'caregiver'])
+    expect(policies.critical).toEqual(DEFAULT_ESCALATION_POLICIES.critical)
+  })
+})
+
+describe('escalation by schedule priority', () => {
+  const apiSchedule = {
+    id: 21,
+    medication: 4,
+    patient: 7,
+    timing: 'custom',
+    customTime: '08:00',
+    dosageAmount: '10 units',
+    frequency: 'daily',
+    startDate: '2026-03-01',
+    status: 'active',
+    timeZone: 'UTC',
+  }
+
+  const missedDoseOf = (priority: string) => {
+    const schedule = fromApiSchedule({ ...apiSchedule, priority })
+    const [time] = getDoseTimesBetween(schedule, new Date('2026-03-02T00:00:00Z'), new Date('2026-03-02T23:59:00Z'))
+    const event = dose({
+      id: doseIdFor(schedule.id, time!, schedule.timeZone),
+      scheduleId: schedule.id,
+      medicationId: schedule.medicationId,
+      scheduledTime: time!.toISOString(),
+    })
+    return { schedule, event }
+  }
+
+  test('a critical schedule reaches the caregiver an hour after the dose', () => {
+    const { schedule, event } = missedDoseOf('critical')
+    const due = dueEscalations(event, escalationChain(DEFAULT_ESCALATION_POLICIES, schedule), new Date('2026-03-02T09:00:00Z'))
+    expect(due.map(step => step.type)).toEqual(['remind', 'remind', 'critical_alert', 'caregiver'])
+    expect(due[3]?.dueAt.toISOString()).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  test('lower priorities stop short of the caregiver', () => {
+    const now = new Date('2026-03-02T12:00:00Z')
+    const typesFor = (priority: string) => {
+      const { schedule, event } = missedDoseOf(priority)
+      return dueEscalations(event, escalationChain(DEFAULT_ESCALATION_POLICIES, schedule), now).map(step => step.type)
+    }
+    expect(typesFor('high')).toEqual(['remind', 'remind', 'critical_alert'])
+    expect(typesFor('normal')).toEqual(['remind', 'remind'])
+    expect(typesFor('low')).toEqual([])
+  })
+})
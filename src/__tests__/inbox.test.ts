@@ -0,0 +1,181 @@
+import { fromApiInboxItem } from '../types/api'
+import { InboxItem, inboxItemFrom } from '../types/inbox'
+import { filterInbox, isOpenReminder, markRead, mergeInbox, pageInbox, recordAction } from '../utils/inbox'
+
+const item = (id: string, deliveredAt: string, overrides: Partial<InboxItem> = {}): InboxItem => ({
+  id,
+  type: 'general',
+  title: 'Title',
+  body: 'Body',
+  deliveredAt,
+  source: 'local',
+  read: false,
+  ...overrides,
+})
+
+const reminderData = {
+  type: 'medication_reminder',
+  medicationId: '7',
+  medicationName: 'Metformin',
+  scheduleId: '3',
+  dosage: '500mg',
+  doseTime: '2025-03-10T08:00:00.000Z',
+  scheduledTime: '2025-03-10T08:00:00.000Z',
+  snoozeCount: 0,
+  priority: 'high',
+}
+
+describe('inboxItemFrom', () => {
+  it('links dose reminders to their dose and medication', () => {
+    const received = inboxItemFrom(
+      { identifier: 'n1', title: 'Metformin', body: 'Time for your dose', data: reminderData, date: Date.parse('2025-03-10T08:00:05.000Z') },
+      'local'
+    )
+
+    expect(received.type).toBe('medication_reminder')
+    expect(received.deliveredAt).toBe('2025-03-10T08:00:05.000Z')
+    expect(received.medicationId).toBe('7')
+    expect(received.reminder?.scheduleId).toBe('3')
+    expect(received.read).toBe(false)
+  })
+
+  it('files escalated reminders as critical alerts', () => {
+    const received = inboxItemFrom(
+      { identifier: 'n2', title: null, body: null, data: { ...reminderData, escalation: { step: 2, type: 'critical_alert' } }, date: 0 },
+      'local'
+    )
+
+    expect(received.type).toBe('critical_alert')
+    expect(received.title).toBe('')
+  })
+
+  it('reads the type of alerts and falls back to general', () => {
+    const alert = (data: unknown) => inboxItemFrom({ identifier: 'n3', title: 'A', body: 'B', data, date: 0 }, 'push').type
+
+    expect(alert({ type: 'stock_alert', medicationId: '7' })).toBe('stock_alert')
+    expect(alert({ type: 'caregiver_alert', patientId: 12 })).toBe('caregiver_alert')
+    expect(alert({ type: 'promotion' })).toBe('general')
+    expect(alert(undefined)).toBe('general')
+  })
+})
+
+describe('fromApiInboxItem', () => {
+  it('maps backend notifications to push items', () => {
+    expect(
+      fromApiInboxItem({
+        id: 'push-1',
+        type: 'caregiver_alert',
+        title: 'Missed dose',
+        body: 'Anna missed her 08:00 dose',
+        deliveredAt: '2025-03-10T09:00:00.000Z',
+        medication: 7,
+        patient: 12,
+        read: true,
+        readAt: '2025-03-10T09:05:00.000Z',
+      })
+    ).toEqual({
+      id: 'push-1',
+      type: 'caregiver_alert',
+      title: 'Missed dose',
+      body: 'Anna missed her 08:00 dose',
+      deliveredAt: '2025-03-10T09:00:00.000Z',
+      source: 'push',
+      medicationId: '7',
+      patientId: 12,
+      read: true,
+      readAt: '2025-03-10T09:05:00.000Z',
+    })
+  })
+
+  it('treats unknown types as general', () => {
+    const pulled = fromApiInboxItem({ id: 'push-2', type: 'news', title: 'T', body: 'B', deliveredAt: '2025-03-10T09:00:00.000Z', read: false, medication: null })
+
+    expect(pulled.type).toBe('general')
+    expect(pulled.medicationId).toBeUndefined()
+  })
+})
+
+describe('mergeInbox', () => {
+  it('keeps the newest first', () => {
+    const merged = mergeInbox([item('a', '2025-03-10T08:00:00.000Z')], [item('b', '2025-03-10T09:00:00.000Z')])
+
+    expect(merged.map(entry => entry.id)).toEqual(['b', 'a'])
+  })
+
+  it('keeps a notification read once it is read anywhere', () => {
+    const local = item('a', '2025-03-10T08:00:00.000Z', { action: 'take', actedAt: '2025-03-10T08:01:00.000Z', read: true, readAt: '2025-03-10T08:01:00.000Z' })
+    const pulled = item('a', '2025-03-10T08:00:00.000Z', { source: 'push', title: 'Changed', read: false })
+
+    const [merged] = mergeInbox([local], [pulled])
+
+    expect(merged).toEqual(local)
+  })
+
+  it('takes the read state from the server copy', () => {
+    const pulled = item('a', '2025-03-10T08:00:00.000Z', { read: true, readAt: '2025-03-10T08:30:00.000Z' })
+
+    const [merged] = mergeInbox([item('a', '2025-03-10T08:00:00.000Z')], [pulled])
+
+    expect(merged?.read).toBe(true)
+    expect(merged?.readAt).toBe('2025-03-10T08:30:00.000Z')
+  })
+
+  it('trims the oldest beyond the limit', () => {
+    const many = Array.from({ length: 205 }, (_, index) =>
+      item(`n${index}`, new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString())
+    )
+
+    const merged = mergeInbox([], many)
+
+    expect(merged).toHaveLength(200)
+    expect(merged[199]?.id).toBe('n5')
+  })
+})
+
+describe('read state and actions', () => {
+  const at = new Date('2025-03-10T10:00:00.000Z')
+
+  it('marks only unread items read', () => {
+    const items = [item('a', '2025-03-10T08:00:00.000Z'), item('b', '2025-03-10T07:00:00.000Z', { read: true, readAt: '2025-03-10T07:30:00.000Z' })]
+
+    const [a, b] = markRead(items, new Set(['a', 'b']), at)
+
+    expect(a?.readAt).toBe('2025-03-10T10:00:00.000Z')
+    expect(b?.readAt).toBe('2025-03-10T07:30:00.000Z')
+  })
+
+  it('reads a notification when it is acted on', () => {
+    const [acted] = recordAction([item('a', '2025-03-10T08:00:00.000Z')], 'a', 'snooze', at)
+
+    expect(acted).toEqual({ ...item('a', '2025-03-10T08:00:00.000Z'), action: 'snooze', actedAt: at.toISOString(), read: true, readAt: at.toISOString() })
+  })
+
+  it('keeps reminders open until a reminder button is pressed', () => {
+    const reminder = inboxItemFrom({ identifier: 'n1', title: 'T', body: 'B', data: reminderData, date: 0 }, 'local')
+
+    expect(isOpenReminder(reminder)).toBe(true)
+    expect(isOpenReminder({ ...reminder, action: 'opened' })).toBe(true)
+    expect(isOpenReminder({ ...reminder, action: 'take' })).toBe(false)
+    expect(isOpenReminder(item('a', '2025-03-10T08:00:00.000Z'))).toBe(false)
+  })
+})
+
+describe('filterInbox and pageInbox', () => {
+  const items = [
+    item('a', '2025-03-10T08:00:00.000Z', { type: 'stock_alert' }),
+    item('b', '2025-03-10T07:00:00.000Z', { type: 'medication_reminder', read: true }),
+    item('c', '2025-03-10T06:00:00.000Z', { type: 'medication_reminder' }),
+  ]
+
+  it('filters by type and read state', () => {
+    expect(filterInbox(items, { types: ['medication_reminder'] }).map(entry => entry.id)).toEqual(['b', 'c'])
+    expect(filterInbox(items, { unreadOnly: true }).map(entry => entry.id)).toEqual(['a', 'c'])
+    expect(filterInbox(items, { types: [] })).toHaveLength(3)
+  })
+
+  it('returns whole pages from the start', () => {
+    expect(pageInbox(items, 1, 2).map(entry => entry.id)).toEqual(['a', 'b'])
+    expect(pageInbox(items, 2, 2)).toHaveLength(3)
+    expect(pageInbox(items, 0, 2)).toEqual([])
+  })
+})
@@ -0,0 +1,50 @@
+import interactionService from '../services/interactionService'
+import { SmartMedicationScheduler } from '../utils/smartScheduler'
+
+describe('interactionService', () => {
+  test('matches brand names and drug classes from the bundled dataset', () => {
+    const [interaction] = interactionService.checkPair({ name: 'Coumadin 5mg' }, { name: 'Nurofen' })
+    expect(interaction?.ruleId).toBe('warfarin-nsaid')
+    expect(interaction?.severity).toBe('major')
+    expect(interaction?.evidence.source).toBeTruthy()
+    expect(interaction?.source).toMatch(/^bundled@/)
+  })
+
+  test('reads active ingredients and sorts the most severe first', () => {
+    const interactions = interactionService.checkAll([
+      { name: 'Cardiac', activeIngredients: 'Digoxin' },
+      { name: 'Water pill', activeIngredients: 'Furosemide' },
+      { name: 'Cordarone' }
+    ])
+    expect(interactions.map((i) => i.ruleId)).toEqual(['digoxin-amiodarone', 'digoxin-furosemide'])
+  })
+
+  test('falls back to interactions declared on the product', () => {
+    const [interaction] = interactionService.checkPair({ name: 'MedA', interactions: ['MedB'] }, { name: 'MedB' })
+    expect(interaction?.source).toMatch(/^declared@/)
+  })
+
+  test('returns nothing for unrelated medications', () => {
+    expect(interactionService.checkPair({ name: 'Paracetamol' }, { name: 'Metformin' })).toEqual([])
+  })
+})
+
+describe('interaction conflicts in the scheduler', () => {
+  test('spacing doses far enough apart avoids a spacing-sensitive interaction', () => {
+    const levothyroxine = { time: '06:00', medication: { name: 'Eltroxin' } }
+    const lateCalcium = [{ time: '12:00', medication: { name: 'Calcium carbonate' } }]
+    const earlyCalcium = [{ time: '08:00', medication: { name: 'Calcium carbonate' } }]
+    expect(SmartMedicationScheduler.detectScheduleConflicts(levothyroxine, lateCalcium)).toHaveLength(0)
+    expect(SmartMedicationScheduler.detectScheduleConflicts(levothyroxine, earlyCalcium)).toHaveLength(1)
+  })
+
+  test('describes interaction conflicts with the engine result', () => {
+    const [conflict] = SmartMedicationScheduler.describeScheduleConflicts(
+      { time: '08:00', medication: { name: 'Viagra' } },
+      [{ time: '20:00', medication: { name: 'Isosorbide mononitrate' } }]
+    )
+    expect(conflict?.type).toBe('interaction')
+    expect(conflict?.severity).toBe('critical')
+    expect(conflict?.interaction?.ruleId).toBe('pde5-nitrate')
+  })
+})
@@ -0,0 +1,117 @@
+import { StockMovement } from '../types/inventory'
+import { DoseLog, Medication } from '../types/medication'
+import { MedicationSchedule, buildSchedulePattern } from '../types/schedule'
+import { doseUnits, dosageConsumed, owedUnits, projectStock } from '../utils/inventory'
+
+const from = new Date(2026, 2, 10, 12)
+
+const medication = (pillCount: number, extra: Partial<Medication> = {}): Medication => ({
+  id: 'medication_1',
+  name: 'Metformin',
+  strength: '500mg',
+  medicationType: 'tablet',
+  prescriptionType: 'prescription',
+  pillCount,
+  lowStockThreshold: 10,
+  status: 'active',
+  createdAt: from.toISOString(),
+  updatedAt: from.toISOString(),
+  ...extra,
+})
+
+const daily: MedicationSchedule = {
+  id: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Metformin',
+  dosage: '2 tablets',
+  frequency: 'daily',
+  timing: 'morning',
+  pattern: buildSchedulePattern('morning', 'daily'),
+  startDate: new Date(2026, 0, 1).toISOString(),
+  status: 'active',
+  priority: 'normal',
+}
+
+const refill = (at: string, quantity: number, owed?: number): StockMovement => ({
+  id: `refill_${at}`,
+  medicationId: 'medication_1',
+  type: 'refill',
+  quantity,
+  ...(owed !== undefined && { owed }),
+  at,
+})
+
+describe('dose units', () => {
+  test('counts tablets and converts mass and volume dosages', () => {
+    expect(doseUnits('2 tablets', '500mg')).toBe(2)
+    expect(doseUnits('1000mg', '500mg')).toBe(2)
+    expect(doseUnits('10 ml', '120mg/5ml')).toBe(10)
+    expect(doseUnits('10 ml', '500mg')).toBeNull()
+    expect(doseUnits('as directed')).toBeNull()
+  })
+
+  test('uses what a ledger event actually took', () => {
+    expect(dosageConsumed({ status: 'taken', dosage: '2 tablets' })).toBe('2 tablets')
+    expect(dosageConsumed({ status: 'partial', dosage: '2 tablets', dosageTaken: '1 tablet' })).toBe('1 tablet')
+    expect(dosageConsumed({ status: 'skipped', dosage: '2 tablets' })).toBeNull()
+  })
+
+  test('keeps the owed balance from the latest refill', () => {
+    expect(owedUnits([refill('2026-03-01T08:00:00Z', 30, 30), refill('2026-03-05T08:00:00Z', 30, 0)])).toBe(0)
+    expect(owedUnits([refill('2026-03-05T08:00:00Z', 30, 30), refill('2026-03-01T08:00:00Z', 60)])).toBe(30)
+    expect(owedUnits([])).toBe(0)
+  })
+})
+
+describe('stock projection', () => {
+  test('finds the first scheduled dose the stock cannot cover', () => {
+    const projection = projectStock(medication(9), [daily], from)
+
+    expect(projection.dailyUsage).toBe(2)
+    expect(projection.daysRemaining).toBe(5)
+    expect(projection.level).toBe('low')
+    expect(projection.runOutDate && new Date(projection.runOutDate).getDate()).toBe(15)
+  })
+
+  test('is ok when stock outlasts the refill lead time', () => {
+    const projection = projectStock(medication(60), [daily], from)
+
+    expect(projection.daysRemaining).toBe(31)
+    expect(projection.level).toBe('ok')
+  })
+
+  test('ignores paused schedules and falls back to the threshold', () => {
+    const projection = projectStock(medication(8), [{ ...daily, status: 'paused' }], from)
+
+    expect(projection.daysRemaining).toBeNull()
+    expect(projection.level).toBe('low')
+    expect(projectStock(medication(0), [daily], from).level).toBe('out')
+  })
+
+  test('projects as-needed medications from recent use', () => {
+    const logs: DoseLog[] = Array.from({ length: 14 }, (_, index) => {
+      const time = new Date(from.getTime() - (index + 1) * 86400000).toISOString()
+      return {
+        id: `log_${index}`,
+        medicationId: 'medication_1',
+        actualTime: time,
+        status: 'taken',
+        dosage: '2 tablets',
+        prn: true,
+        createdAt: time,
+        updatedAt: time,
+      }
+    })
+    const projection = projectStock(medication(20), [], from, { logs })
+
+    expect(projection.dailyUsage).toBe(1)
+    expect(projection.daysRemaining).toBe(20)
+  })
+
+  test('counts doses whose dosage cannot be read', () => {
+    const projection = projectStock(medication(30), [{ ...daily, dosage: 'as directed' }], from, { horizonDays: 7 })
+
+    expect(projection.unknownDoses).toBe(7)
+    expect(projection.dailyUsage).toBe(0)
+  })
+})
@@ -0,0 +1,165 @@
+import { OCRMedication, PrescriptionOCRResult } from '../types/api'
+import { Medication } from '../types/medication'
+import { Prescription } from '../types/prescription'
+import { parseImportTransaction } from '../types/importTransaction'
+import { medicationInputFor, planImport, proposeSchedule, scheduleInputFor } from '../utils/ocrImport'
+
+const scanned = (overrides: Partial<OCRMedication> & Pick<OCRMedication, 'name' | 'strength'>): OCRMedication => ({
+  dosage: '1 tab',
+  frequency: '',
+  quantity: '30',
+  instructions: '',
+  confidence: 0.9,
+  ...overrides
+})
+
+const medication = (id: string, name: string, strength: string): Medication => ({
+  id,
+  name,
+  strength,
+  medicationType: 'tablet',
+  prescriptionType: 'prescription',
+  pillCount: 4,
+  lowStockThreshold: 5,
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+})
+
+const script: Prescription = {
+  id: 'prescription_1',
+  prescriptionNumber: 'RX-1042',
+  medicationIds: ['med_metformin'],
+  issueDate: '2026-09-01T00:00:00.000Z',
+  expiryDate: '2027-03-01T00:00:00.000Z',
+  repeatsTotal: 5,
+  repeatsRemaining: 4,
+  lastDispensedAt: '2026-09-01T00:00:00.000Z',
+  status: 'active',
+  createdAt: '2026-09-01T00:00:00.000Z',
+  updatedAt: '2026-09-01T00:00:00.000Z'
+}
+
+const result = (medications: OCRMedication[]): PrescriptionOCRResult => ({
+  prescriptionNumber: 'RX-1042',
+  doctorName: 'Dr N. Dlamini',
+  patientName: '',
+  medications,
+  icd10Codes: [],
+  confidence: 0.9,
+  processingTime: 0
+})
+
+describe('proposeSchedule', () => {
+  test('reads "1 bd pc" as twice daily after meals', () => {
+    expect(proposeSchedule(scanned({ name: 'Metformin', strength: '500mg', frequency: 'bd', instructions: '1 tab bd pc' }))).toMatchObject({
+      dosage: '1 tablet',
+      frequency: 'twice_daily',
+      timing: 'morning',
+      pattern: { times: ['08:00', '20:00'] },
+      foodRequirement: 'with_food',
+      timingConstraints: [{ type: 'meal', relation: 'after_meal' }],
+      confidence: 1
+    })
+  })
+
+  test('reads night, as-needed and interval doses and gives up on sigs it cannot read', () => {
+    expect(proposeSchedule(scanned({ name: 'Simvastatin', strength: '20mg', frequency: 'nocte' }))).toMatchObject({
+      frequency: 'daily',
+      timing: 'night'
+    })
+    expect(proposeSchedule(scanned({ name: 'Ventolin', strength: '100mcg', dosage: '2 puffs', frequency: 'prn' }))).toMatchObject({
+      frequency: 'as_needed'
+    })
+    expect(proposeSchedule(scanned({ name: 'Augmentin', strength: '625mg', frequency: 'q6h' }))?.pattern.times).toEqual([
+      '02:00',
+      '08:00',
+      '14:00',
+      '20:00'
+    ])
+    expect(proposeSchedule(scanned({ name: 'Prednisone', strength: '5mg', frequency: 'as directed' }))).toBeNull()
+  })
+})
+
+describe('planImport', () => {
+  const medications = [
+    medication('med_metformin', 'Metformin', '500 mg'),
+    medication('med_amlodipine', 'Amlodipine', '5mg'),
+    medication('med_eltroxin', 'Eltroxin', '0.05mg')
+  ]
+
+  test('matches every medication on the script and suggests what to do with it', () => {
+    const items = planImport(
+      result([
+        scanned({ name: 'Metf0rmin', strength: '500mg', frequency: 'bd', quantity: '60' }),
+        scanned({ name: 'Amlodipine', strength: '5mg', frequency: 'daily' }),
+        scanned({ name: 'Eltroxin', strength: '0.1mg', frequency: 'mane' }),
+        scanned({ name: 'Simvastatin', strength: '20mg', frequency: 'nocte' })
+      ]),
+      medications,
+      [script]
+    )
+
+    expect(items.map((item) => [item.match.kind, item.action])).toEqual([
+      ['repeat', 'refill'],
+      ['duplicate', 'skip'],
+      ['similar', 'create'],
+      ['none', 'create']
+    ])
+    expect(items[0]).toMatchObject({ quantity: 60, match: { medicationId: 'med_metformin', prescriptionId: 'prescription_1' } })
+    expect(items.every((item) => item.addSchedule)).toBe(true)
+  })
+
+  test('ignores medications that are no longer active', () => {
+    const [item] = planImport(
+      result([scanned({ name: 'Amlodipine', strength: '5mg' })]),
+      [{ ...medication('med_amlodipine', 'Amlodipine', '5mg'), status: 'discontinued' }],
+      []
+    )
+    expect(item?.match.kind).toBe('none')
+  })
+})
+
+describe('import inputs', () => {
+  const [item] = planImport(
+    result([scanned({ name: 'Ventolin', strength: '100mcg', dosage: '2 puffs', frequency: 'weekly', quantity: '200' })]),
+    [],
+    []
+  )
+
+  test('builds the medication from the scanned fields', () => {
+    expect(item && medicationInputFor(item, 'Dr N. Dlamini')).toMatchObject({
+      name: 'Ventolin',
+      medicationType: 'inhaler',
+      pillCount: 200,
+      prescribedBy: 'Dr N. Dlamini'
+    })
+  })
+
+  test('puts a weekly schedule on the start date weekday', () => {
+    const schedule = item && scheduleInputFor(item, { id: 'med_1', name: 'Ventolin' }, { startDate: new Date(2026, 9, 14) })
+    expect(schedule?.pattern.type).toBe('weekly')
+    expect(schedule?.pattern.daysOfWeek).toEqual([false, false, false, true, false, false, false])
+  })
+})
+
+describe('parseImportTransaction', () => {
+  test('reads stored steps', () => {
+    const transaction = parseImportTransaction({
+      id: 'import_1',
+      steps: [
+        { type: 'medication_created', id: 'medication_1' },
+        { type: 'stock_refilled', medicationId: 'med_metformin', quantity: 60 },
+        { type: 'prescription_updated', id: 'prescription_1', previous: { medicationIds: ['med_metformin'], repeatsRemaining: 4 } }
+      ],
+      committedAt: '2026-10-18T08:00:00.000Z'
+    })
+    expect(transaction.steps).toHaveLength(3)
+    expect(transaction.steps[2]).toEqual({
+      type: 'prescription_updated',
+      id: 'prescription_1',
+      previous: { medicationIds: ['med_metformin'], repeatsRemaining: 4 }
+    })
+    expect(() => parseImportTransaction({ id: 'import_2', steps: [{ type: 'unknown' }], committedAt: '2026-10-18' })).toThrow()
+  })
+})
@@ -33,11 +33,27 @@ describe('OfflineService conflict resolution', () => {
   })
 })
 
+describe('OfflineService clinical records', () => {
+  test('medications and schedules take the server copy', async () => {
+    const merged = await offlineService.resolveConflicts(
+      { medications: [{ id: 'm1', strength: '500mg' }], schedules: [{ id: 's1', dosage: '1 tablet' }] },
+      { medications: [{ id: 'm1', strength: '850mg' }], schedules: [{ id: 's1', dosage: '2 tablets' }] }
+    )
+    expect(merged.medications[0].strength).toBe('850mg')
+    expect(merged.schedules[0].dosage).toBe('2 tablets')
+  })
+
+  test('keeps the local copy when the server has none', async () => {
+    const merged = await offlineService.resolveConflicts({ schedules: [{ id: 's1' }] }, {})
+    expect(merged.schedules).toEqual([{ id: 's1' }])
+  })
+})
+
 describe('OfflineService queue', () => {
   test('enqueue adds item and optimizeOfflineStorage deduplicates', async () => {
     // Enqueue duplicates
-    await offlineService.enqueue('log_medication', { a: 1 })
-    await offlineService.enqueue('log_medication', { a: 1 })
+    await offlineService.enqueue('log_medication', { scheduleId: '1', status: 'taken' })
+    await offlineService.enqueue('log_medication', { scheduleId: '1', status: 'taken' })
     await (offlineService as any).optimizeOfflineStorage()
 
     // Load queue via private read
@@ -0,0 +1,101 @@
+import { MedicationPhoto, parseMedicationPhoto } from '../types/medicationPhoto'
+import {
+  MATCH_THRESHOLD,
+  comparePillFeatures,
+  extractPillFeatures,
+  normaliseImprint,
+  rankPillMatches
+} from '../utils/pillFeatures'
+
+type Rgb = [number, number, number]
+
+/** RGBA pixels of an ellipse with radii rx, ry on a plain background */
+const pillImage = (colour: Rgb, rx: number, ry: number, background: Rgb = [30, 30, 30], size = 64) => {
+  const pixels = new Uint8Array(size * size * 4)
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = ((x - size / 2) / rx) ** 2 + ((y - size / 2) / ry) ** 2 <= 1
+      pixels.set([...(inside ? colour : background), 255], (y * size + x) * 4)
+    }
+  }
+  return { pixels, size }
+}
+
+const featuresOf = (colour: Rgb, rx: number, ry: number, imprint?: string) => {
+  const { pixels, size } = pillImage(colour, rx, ry)
+  const features = extractPillFeatures(pixels, size, size, imprint)
+  if (!features) throw new Error('no pill found')
+  return features
+}
+
+const photo = (id: string, medicationId: string, features = featuresOf([240, 240, 235], 12, 12)): MedicationPhoto => ({
+  id,
+  medicationId,
+  kind: 'pill',
+  createdAt: '2026-10-18T08:00:00.000Z',
+  features
+})
+
+describe('extractPillFeatures', () => {
+  test('reads colour and shape of a pill against its background', () => {
+    const round = featuresOf([240, 240, 235], 12, 12)
+    expect(round.shape).toBe('round')
+    expect(round.meanColour).toBe('#f0f0eb')
+    expect(round.colourHistogram.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1)
+
+    expect(featuresOf([250, 200, 60], 18, 12).shape).toBe('oval')
+    expect(featuresOf([250, 200, 60], 24, 8).shape).toBe('oblong')
+  })
+
+  test('finds no pill when it blends into the background or fills the photo', () => {
+    const blended = pillImage([35, 35, 35], 12, 12)
+    expect(extractPillFeatures(blended.pixels, blended.size, blended.size)).toBeNull()
+    const filling = pillImage([240, 240, 235], 60, 60)
+    expect(extractPillFeatures(filling.pixels, filling.size, filling.size)).toBeNull()
+  })
+
+  test('keeps short imprints only', () => {
+    expect(normaliseImprint('m 500\n')).toBe('M500')
+    expect(normaliseImprint('Keep out of reach of children')).toBeUndefined()
+    expect(featuresOf([240, 240, 235], 12, 12, 'g 5').imprint).toBe('G5')
+  })
+})
+
+describe('rankPillMatches', () => {
+  test('the same pill scores higher than a pill of another colour or shape', () => {
+    const pill = featuresOf([240, 240, 235], 12, 12)
+    expect(comparePillFeatures(pill, featuresOf([238, 242, 236], 13, 12)).score).toBeGreaterThan(0.9)
+    expect(comparePillFeatures(pill, featuresOf([250, 200, 60], 12, 12)).score).toBeLessThan(MATCH_THRESHOLD)
+    expect(comparePillFeatures(pill, featuresOf([240, 240, 235], 24, 8)).score).toBeLessThan(
+      comparePillFeatures(pill, pill).score
+    )
+  })
+
+  test('imprints tell apart pills that look alike', () => {
+    const library = [
+      photo('p1', 'metformin', featuresOf([240, 240, 235], 12, 12, 'M500')),
+      photo('p2', 'amlodipine', featuresOf([240, 240, 235], 12, 12, 'AML5'))
+    ]
+    const matches = rankPillMatches(featuresOf([240, 240, 235], 12, 12, 'M5OO'), library)
+    expect(matches.map(match => match.medicationId)).toEqual(['metformin', 'amlodipine'])
+    expect(matches[0]?.similarity.imprint).toBeCloseTo(0.5)
+  })
+
+  test('keeps the best photo per medication and drops poor matches', () => {
+    const library: MedicationPhoto[] = [
+      photo('p1', 'metformin', featuresOf([240, 240, 235], 18, 12)),
+      photo('p2', 'metformin'),
+      photo('p3', 'warfarin', featuresOf([250, 200, 60], 12, 12)),
+      { id: 'p4', medicationId: 'paracetamol', kind: 'box', createdAt: '2026-10-18T08:00:00.000Z' }
+    ]
+    const matches = rankPillMatches(featuresOf([240, 240, 235], 12, 12), library)
+    expect(matches).toHaveLength(1)
+    expect(matches[0]?.photo.id).toBe('p2')
+  })
+
+  test('photo records round-trip through the parser', () => {
+    const record = photo('p1', 'metformin', featuresOf([240, 240, 235], 12, 12, 'M500'))
+    expect(parseMedicationPhoto(JSON.parse(JSON.stringify(record)))).toEqual(record)
+    expect(() => parseMedicationPhoto({ ...record, kind: 'bottle' })).toThrow()
+  })
+})
@@ -0,0 +1,90 @@
+import { PrescriptionOCRResult, fromApiPrescription, toApiPrescription } from '../types/api'
+import { Prescription, parsePrescription } from '../types/prescription'
+import {
+  dispenseRepeat,
+  findPrescriptionFor,
+  prescriptionFromOCR,
+  prescriptionWarnings,
+} from '../utils/prescription'
+
+const now = new Date('2026-03-10T08:00:00Z')
+
+const script = (extra: Partial<Prescription> = {}): Prescription => ({
+  id: 'prescription_1',
+  medicationIds: ['medication_1'],
+  issueDate: '2026-01-05T08:00:00.000Z',
+  expiryDate: '2026-07-05T08:00:00.000Z',
+  repeatsTotal: 5,
+  repeatsRemaining: 5,
+  status: 'active',
+  createdAt: '2026-01-05T08:00:00.000Z',
+  updatedAt: '2026-01-05T08:00:00.000Z',
+  ...extra,
+})
+
+const scan: PrescriptionOCRResult = {
+  prescriptionNumber: 'RX-1042',
+  doctorName: 'Dr N. Dlamini',
+  patientName: 'T. Mokoena',
+  medications: [],
+  icd10Codes: ['E11.9'],
+  confidence: 0.92,
+  processingTime: 1.4,
+}
+
+describe('prescriptions', () => {
+  test('builds a six-month script from a scan', () => {
+    const input = prescriptionFromOCR(scan, { medicationIds: ['medication_1'], issueDate: now, repeats: 5 })
+
+    expect(input.prescriptionNumber).toBe('RX-1042')
+    expect(input.prescriberName).toBe('Dr N. Dlamini')
+    expect(input.icd10Codes).toEqual(['E11.9'])
+    expect(input.expiryDate).toBe('2026-09-10T08:00:00.000Z')
+    expect(input.repeatsRemaining).toBe(5)
+  })
+
+  test('keeps remaining repeats within the total', () => {
+    const parsed = parsePrescription({ ...script(), repeatsTotal: 3, repeatsRemaining: 7 })
+
+    expect(parsed.repeatsRemaining).toBe(3)
+    expect(parsePrescription({ ...script(), repeatsRemaining: undefined }).repeatsRemaining).toBe(5)
+  })
+
+  test('counts down repeats after the original dispensing', () => {
+    expect(dispenseRepeat(script(), now)?.repeatsRemaining).toBe(5)
+
+    const dispensed = script({ lastDispensedAt: '2026-02-05T08:00:00.000Z' })
+    expect(dispenseRepeat(dispensed, now)).toEqual({ repeatsRemaining: 4, lastDispensedAt: now.toISOString() })
+    expect(dispenseRepeat({ ...dispensed, repeatsRemaining: 0 }, now)).toBeNull()
+    expect(dispenseRepeat(script({ expiryDate: '2026-03-01T00:00:00.000Z' }), now)).toBeNull()
+  })
+
+  test('warns about expiry and the last repeats', () => {
+    const dispensed = { lastDispensedAt: '2026-02-05T08:00:00.000Z' }
+
+    expect(prescriptionWarnings(script(), now)).toEqual([])
+    expect(prescriptionWarnings(script({ ...dispensed, repeatsRemaining: 1 }), now).map(w => w.type)).toEqual(['last_repeat'])
+    expect(prescriptionWarnings(script({ expiryDate: '2026-03-25T08:00:00.000Z' }), now)).toEqual([
+      { prescriptionId: 'prescription_1', type: 'expiring', days: 15 },
+    ])
+    expect(prescriptionWarnings(script({ expiryDate: '2026-03-09T08:00:00.000Z' }), now).map(w => w.type)).toEqual(['expired'])
+    expect(prescriptionWarnings(script({ ...dispensed, repeatsRemaining: 0, status: 'cancelled' }), now)).toEqual([])
+  })
+
+  test('uses the latest active script for a medication', () => {
+    const older = script()
+    const newer = script({ id: 'prescription_2', issueDate: '2026-03-01T08:00:00.000Z' })
+    const cancelled = script({ id: 'prescription_3', issueDate: '2026-03-05T08:00:00.000Z', status: 'cancelled' })
+
+    expect(findPrescriptionFor([older, newer, cancelled], 'medication_1')?.id).toBe('prescription_2')
+    expect(findPrescriptionFor([older], 'medication_2')).toBeUndefined()
+  })
+
+  test('maps linked medications to and from the API', () => {
+    const parsed = fromApiPrescription({ ...script(), id: 12, medications: [{ id: 3, name: 'Metformin' }, 4] })
+    expect(parsed.medicationIds).toEqual(['3', '4'])
+
+    const wire = toApiPrescription(script({ medicationIds: ['3', 'medication_local'] }))
+    expect(wire.medications).toEqual([3])
+  })
+})
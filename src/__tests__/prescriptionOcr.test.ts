@@ -0,0 +1,82 @@
+import { PrescriptionOCRResult } from '../types/api'
+import { fieldsToReview, mergeOCRResults, parsePrescriptionText } from '../utils/prescriptionOcr'
+
+const script = [
+  'Dr N. Dlamini MBChB',
+  'Pr. No 0123456',
+  'Patient: Thandi Mokoena',
+  'Script No: RX-1042',
+  'Diagnosis: E11.9, I10',
+  '1. Metformin 500mg',
+  '1 tab bd pc',
+  'Mitte 60',
+  '2. Amlodipine 5mg 1 tab daily x30',
+  'Eltroxin 0.1mg',
+  '1 tab mane'
+]
+
+describe('parsePrescriptionText', () => {
+  const result = parsePrescriptionText(script)
+
+  test('reads the prescriber, patient, script number and ICD-10 codes', () => {
+    expect(result.doctorName).toBe('Dr N. Dlamini')
+    expect(result.patientName).toBe('Thandi Mokoena')
+    expect(result.prescriptionNumber).toBe('RX-1042')
+    expect(result.icd10Codes).toEqual(['E11.9', 'I10'])
+    expect(result.source).toBe('device')
+  })
+
+  test('reads each medication with its sig from the lines that follow it', () => {
+    expect(result.medications.map((medication) => [medication.name, medication.strength])).toEqual([
+      ['Metformin', '500mg'],
+      ['Amlodipine', '5mg'],
+      ['Eltroxin', '0.1mg']
+    ])
+    expect(result.medications[0]).toMatchObject({ dosage: '1 tab', frequency: 'bd', quantity: '60', instructions: '1 tab bd pc' })
+    expect(result.medications[1]).toMatchObject({ frequency: 'daily', quantity: '30' })
+    expect(result.medications[2]).toMatchObject({ dosage: '1 tab', frequency: 'mane' })
+  })
+
+  test('flags fields it could not read for review', () => {
+    const unsure = parsePrescriptionText(['Amox1cillin 250mg', 'as directed'])
+    const review = fieldsToReview(unsure)
+
+    expect(review.medications[0]).toEqual(expect.arrayContaining(['name', 'dosage', 'frequency', 'quantity']))
+    expect(review.medications[0]).not.toContain('strength')
+    expect(review.prescription).toContain('doctorName')
+  })
+})
+
+describe('mergeOCRResults', () => {
+  const device = parsePrescriptionText(['Dr P. Naidoo', 'Metf0rmin 850mg', '1 tab'])
+  const server: PrescriptionOCRResult = {
+    prescriptionNumber: 'S-77',
+    doctorName: 'Dr P Naidoo',
+    patientName: '',
+    medications: [
+      { name: 'Metformin', strength: '850mg', dosage: '1 tablet', frequency: 'twice daily', quantity: '56', instructions: '', confidence: 0.95 },
+      { name: 'Simvastatin', strength: '20mg', dosage: '1 tablet', frequency: 'nocte', quantity: '28', instructions: '', confidence: 0.7 }
+    ],
+    icd10Codes: ['E78.0'],
+    confidence: 0.9,
+    processingTime: 1200,
+    source: 'server'
+  }
+
+  test('takes each field from the surer reading and keeps medications only one found', () => {
+    const merged = mergeOCRResults(device, server)
+
+    expect(merged.source).toBe('merged')
+    expect(merged.prescriptionNumber).toBe('S-77')
+    expect(merged.medications.map((medication) => medication.name)).toEqual(['Metformin', 'Simvastatin'])
+    expect(merged.medications[0]).toMatchObject({ frequency: 'twice daily', quantity: '56' })
+    expect(merged.icd10Codes).toEqual(['E78.0'])
+  })
+
+  test('keeps the device reading of a field the server left empty', () => {
+    const merged = mergeOCRResults(device, { ...server, doctorName: '', medications: [] })
+
+    expect(merged.doctorName).toBe('Dr P. Naidoo')
+    expect(merged.medications[0]?.name).toBe('Metf0rmin')
+  })
+})
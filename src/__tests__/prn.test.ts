@@ -0,0 +1,110 @@
+import { DoseLog } from '../types/medication'
+import { DomainParseError } from '../types/parse'
+import { parsePrnLimits } from '../types/prn'
+import { doseAmountMg, parseDosage } from '../utils/dosage'
+import { checkPrnDose, summarizePrnUse } from '../utils/prn'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+const log = (hoursAgo: number, dosage = '2 tablets', extra: Partial<DoseLog> = {}): DoseLog => {
+  const time = new Date(now.getTime() - hoursAgo * 3600000).toISOString()
+  return {
+    id: `log_${hoursAgo}`,
+    medicationId: 'paracetamol',
+    actualTime: time,
+    status: 'taken',
+    dosage,
+    prn: true,
+    createdAt: time,
+    updatedAt: time,
+    ...extra,
+  }
+}
+
+const paracetamol = { dosage: '2 tablets', strength: '500mg' }
+const limits = { minIntervalMinutes: 240, maxDosesPer24h: 4, maxAmountPer24hMg: 4000 }
+
+describe('dosage amounts', () => {
+  test('reads counts, masses and fractions', () => {
+    expect(parseDosage('2 tablets')).toEqual({ amount: 2, unit: 'count' })
+    expect(parseDosage('1 g')).toEqual({ amount: 1000, unit: 'mg' })
+    expect(parseDosage('½ tab')).toEqual({ amount: 0.5, unit: 'count' })
+    expect(parseDosage('1 1/2')).toEqual({ amount: 1.5, unit: null })
+    expect(parseDosage('as directed')).toBeNull()
+  })
+
+  test('works out milligrams from strength and concentration', () => {
+    expect(doseAmountMg('2 tablets', '500mg')).toBe(1000)
+    expect(doseAmountMg('2 x 500mg')).toBe(1000)
+    expect(doseAmountMg('10 ml', '120mg/5ml')).toBe(240)
+    expect(doseAmountMg('250mcg')).toBe(0.25)
+    expect(doseAmountMg('1 tablet')).toBeNull()
+  })
+})
+
+describe('PRN limits', () => {
+  test('rejects non-positive limits and fractional dose counts', () => {
+    expect(() => parsePrnLimits({ minIntervalMinutes: 0 })).toThrow(DomainParseError)
+    expect(() => parsePrnLimits({ maxDosesPer24h: 2.5 })).toThrow(DomainParseError)
+    expect(parsePrnLimits({ maxAmountPer24hMg: '4000' })).toEqual({ maxAmountPer24hMg: 4000 })
+  })
+
+  test('allows a dose when spacing and totals are within limits', () => {
+    const check = checkPrnDose([log(6)], limits, paracetamol, now)
+
+    expect(check.withinLimits).toBe(true)
+    expect(check.dosesIn24h).toBe(1)
+    expect(check.amountIn24hMg).toBe(1000)
+    expect(check.warnings).toEqual([])
+  })
+
+  test('flags doses taken too soon with the time they are allowed', () => {
+    const check = checkPrnDose([log(3)], limits, paracetamol, now)
+
+    expect(check.withinLimits).toBe(false)
+    expect(check.warnings.map(warning => warning.type)).toEqual(['too_soon'])
+    expect(check.nextAllowedAt).toBe('2026-03-10T13:00:00.000Z')
+  })
+
+  test('warns near the daily maximum and blocks past it', () => {
+    const near = checkPrnDose([log(20), log(10)], limits, paracetamol, now)
+    expect(near.withinLimits).toBe(true)
+    expect(near.warnings.map(warning => warning.type)).toEqual(['near_max_doses', 'near_max_amount'])
+
+    const over = checkPrnDose([log(22), log(16), log(10), log(5)], limits, paracetamol, now)
+    expect(over.withinLimits).toBe(false)
+    expect(over.warnings.map(warning => warning.type)).toEqual(['max_doses', 'max_amount'])
+    expect(over.nextAllowedAt).toBe('2026-03-10T14:00:00.000Z')
+  })
+
+  test('counts scheduled doses and ignores doses outside the window', () => {
+    const scheduled = log(8, '1 g', { prn: false, scheduleId: 'schedule_1' })
+    const check = checkPrnDose([log(30), scheduled, log(26, '2 tablets', { status: 'skipped' })], limits, paracetamol, now)
+
+    expect(check.dosesIn24h).toBe(1)
+    expect(check.amountIn24hMg).toBe(1000)
+  })
+
+  test('says so when an amount cannot be worked out', () => {
+    const check = checkPrnDose([log(6, 'a few')], limits, paracetamol, now)
+
+    expect(check.amountIn24hMg).toBeNull()
+    expect(check.warnings.map(warning => warning.type)).toEqual(['amount_unknown'])
+  })
+})
+
+describe('PRN use summary', () => {
+  test('counts as-needed doses by reason', () => {
+    const logs = [
+      log(2, '2 tablets', { prnReason: 'headache' }),
+      log(30, '2 tablets', { prnReason: 'headache' }),
+      log(50, '2 tablets', { prnReason: 'fever' }),
+      log(5, '2 tablets', { prn: false }),
+    ]
+    const summary = summarizePrnUse(logs, new Date('2026-03-01T00:00:00Z'), now)
+
+    expect(summary.total).toBe(3)
+    expect(summary.byReason).toEqual([{ reason: 'headache', count: 2 }, { reason: 'fever', count: 1 }])
+    expect(summary.lastTakenAt).toBe('2026-03-10T10:00:00.000Z')
+  })
+})
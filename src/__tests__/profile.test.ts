@@ -0,0 +1,56 @@
+import { fromApiLinkedAccounts } from '../types/api'
+import { DomainParseError } from '../types/parse'
+import { LinkedProfile, canManageProfile, readCaregiverAlertPatient } from '../types/profile'
+
+describe('fromApiLinkedAccounts', () => {
+  it('reads dependants and caregivers', () => {
+    const accounts = fromApiLinkedAccounts({
+      dependants: [
+        { patient: 12, patientName: 'Anna Botha', role: 'manage', relationship: 'Mother' },
+        { patient: 15, patientName: 'Pieter Botha', role: 'view', relationship: null },
+      ],
+      caregivers: [{ username: 'sbotha', name: 'Sarah Botha', role: 'manage' }],
+    })
+
+    expect(accounts.dependants).toEqual([
+      { patientId: 12, name: 'Anna Botha', role: 'manage', relationship: 'Mother' },
+      { patientId: 15, name: 'Pieter Botha', role: 'view' },
+    ])
+    expect(accounts.caregivers).toEqual([{ username: 'sbotha', name: 'Sarah Botha', role: 'manage' }])
+  })
+
+  it('treats missing lists as no links', () => {
+    expect(fromApiLinkedAccounts({})).toEqual({ dependants: [], caregivers: [] })
+  })
+
+  it('rejects unknown roles', () => {
+    expect(() =>
+      fromApiLinkedAccounts({ dependants: [{ patient: 12, patientName: 'Anna Botha', role: 'owner' }] })
+    ).toThrow(DomainParseError)
+  })
+})
+
+describe('profile permissions', () => {
+  const dependant: LinkedProfile = { patientId: 12, name: 'Anna Botha', role: 'view' }
+
+  it('lets the user manage their own profile', () => {
+    expect(canManageProfile(null)).toBe(true)
+  })
+
+  it('follows the role for dependants', () => {
+    expect(canManageProfile(dependant)).toBe(false)
+    expect(canManageProfile({ ...dependant, role: 'manage' })).toBe(true)
+  })
+})
+
+describe('readCaregiverAlertPatient', () => {
+  it('reads the dependant of a missed-dose alert', () => {
+    expect(readCaregiverAlertPatient({ type: 'caregiver_alert', patientId: 12 })).toBe(12)
+  })
+
+  it('ignores other notifications', () => {
+    expect(readCaregiverAlertPatient({ type: 'medication_reminder', patientId: 12 })).toBeNull()
+    expect(readCaregiverAlertPatient({ type: 'caregiver_alert' })).toBeNull()
+    expect(readCaregiverAlertPatient(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+import { DomainParseError } from '../types/parse'
+import { parseRecurrenceRule } from '../types/recurrence'
+import { MedicationSchedule, applyRecurrencePreset, buildSchedulePattern } from '../types/schedule'
+import { expandRecurrence, toInstant } from '../utils/recurrence'
+import { getDoseTimesBetween, getDoseTimesOn } from '../utils/scheduleUtils'
+
+const defaults = { start: { value: new Date('2026-01-05T09:00:00Z') } }
+
+const expand = (rule: string, from: string, to: string) =>
+  expandRecurrence(parseRecurrenceRule(rule), defaults, new Date(from), new Date(to)).map(time => time.toISOString())
+
+const schedule = (pattern: MedicationSchedule['pattern']): MedicationSchedule => ({
+  id: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Prednisone',
+  dosage: '1 tablet',
+  frequency: 'daily',
+  timing: 'morning',
+  pattern,
+  startDate: new Date(2026, 0, 5).toISOString(),
+  status: 'active',
+  priority: 'normal',
+})
+
+describe('recurrence rule parsing', () => {
+  test('reads DTSTART with a time zone and the rule parts', () => {
+    const parsed = parseRecurrenceRule('DTSTART;TZID=Africa/Johannesburg:20260105T080000\nRRULE:FREQ=MONTHLY;BYDAY=1MO')
+
+    expect(parsed.timeZone).toBe('Africa/Johannesburg')
+    expect(parsed.rule.freq).toBe('MONTHLY')
+    expect(parsed.rule.byDay).toEqual([{ weekday: 1, ordinal: 1 }])
+  })
+
+  test('rejects unknown parts and time zones', () => {
+    expect(() => parseRecurrenceRule('FREQ=DAILY;BYWEEKNO=1')).toThrow(DomainParseError)
+    expect(() => parseRecurrenceRule('DTSTART;TZID=Mars/Olympus:20260105T080000\nRRULE:FREQ=DAILY')).toThrow(
+      DomainParseError
+    )
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20260110')).toThrow(DomainParseError)
+  })
+})
+
+describe('recurrence expansion', () => {
+  test('keeps wall-clock times across DST changes', () => {
+    const spring = expand(
+      'DTSTART;TZID=Europe/London:20260327T080000\nRRULE:FREQ=DAILY',
+      '2026-03-28T00:00:00Z',
+      '2026-03-31T00:00:00Z'
+    )
+    expect(spring).toEqual(['2026-03-28T08:00:00.000Z', '2026-03-29T07:00:00.000Z', '2026-03-30T07:00:00.000Z'])
+  })
+
+  test('steps hourly rules in elapsed time', () => {
+    const doses = expand(
+      'DTSTART;TZID=Europe/London:20261024T060000\nRRULE:FREQ=HOURLY;INTERVAL=8',
+      '2026-10-24T00:00:00Z',
+      '2026-10-25T12:00:00Z'
+    )
+    expect(doses).toEqual([
+      '2026-10-24T05:00:00.000Z',
+      '2026-10-24T13:00:00.000Z',
+      '2026-10-24T21:00:00.000Z',
+      '2026-10-25T05:00:00.000Z',
+    ])
+  })
+
+  test('resolves skipped and repeated local times', () => {
+    expect(toInstant({ value: new Date('2026-03-29T01:30:00Z') }, 'Europe/London').toISOString()).toBe(
+      '2026-03-29T01:30:00.000Z'
+    )
+    expect(toInstant({ value: new Date('2026-10-25T01:30:00Z') }, 'Europe/London').toISOString()).toBe(
+      '2026-10-25T00:30:00.000Z'
+    )
+  })
+
+  test('expands the first Monday of each month', () => {
+    expect(expand('DTSTART:20260105T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=1MO', '2026-01-01T00:00:00Z', '2026-04-01T00:00:00Z')).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-02-02T09:00:00.000Z',
+      '2026-03-02T09:00:00.000Z',
+    ])
+  })
+
+  test('counts occurrences from the start, not the requested range', () => {
+    expect(expand('DTSTART:20260105T090000Z\nRRULE:FREQ=DAILY;INTERVAL=2;COUNT=4', '2026-01-08T00:00:00Z', '2026-02-01T00:00:00Z')).toEqual([
+      '2026-01-09T09:00:00.000Z',
+      '2026-01-11T09:00:00.000Z',
+    ])
+  })
+
+  test('keeps alternate days aligned long after the start', () => {
+    expect(expand('DTSTART:20200105T090000Z\nRRULE:FREQ=DAILY;INTERVAL=2', '2026-01-01T00:00:00Z', '2026-01-05T00:00:00Z')).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-03T09:00:00.000Z',
+    ])
+  })
+
+  test('applies BYSETPOS within each period', () => {
+    expect(
+      expand('DTSTART:20260105T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-01-01T00:00:00Z', '2026-03-01T00:00:00Z')
+    ).toEqual(['2026-01-30T09:00:00.000Z', '2026-02-27T09:00:00.000Z'])
+  })
+})
+
+describe('schedule expansion', () => {
+  test('pauses 21/7 cycles for the off week', () => {
+    const cycle = schedule(applyRecurrencePreset(buildSchedulePattern('morning', 'daily'), 'cycle_21_7'))
+
+    expect(getDoseTimesOn(cycle, new Date(2026, 0, 25))).toHaveLength(1)
+    expect(getDoseTimesOn(cycle, new Date(2026, 0, 26))).toHaveLength(0)
+    expect(getDoseTimesOn(cycle, new Date(2026, 1, 1))).toHaveLength(0)
+    expect(getDoseTimesOn(cycle, new Date(2026, 1, 2))).toHaveLength(1)
+  })
+
+  test('starts rules without DTSTART at the schedule start and times', () => {
+    const alternate = schedule(applyRecurrencePreset(buildSchedulePattern('morning', 'twice_daily'), 'alternate_days'))
+    const times = getDoseTimesBetween(alternate, new Date(2026, 0, 5), new Date(2026, 0, 9))
+
+    expect(times.map(time => `${time.getDate()} ${time.getHours()}`)).toEqual(['5 8', '5 20', '7 8', '7 20'])
+  })
+
+  test('steps down a taper with one rule per phase', () => {
+    const taper = schedule({
+      type: 'rrule',
+      times: ['08:00'],
+      rrules: [
+        'DTSTART:20260105T080000\nRRULE:FREQ=DAILY;COUNT=7',
+        'DTSTART:20260112T080000\nRRULE:FREQ=DAILY;COUNT=7',
+        'DTSTART:20260119T080000\nRRULE:FREQ=DAILY;INTERVAL=2;COUNT=4',
+      ],
+      exdates: ['2026-01-08'],
+    })
+    const times = getDoseTimesBetween(taper, new Date(2026, 0, 1), new Date(2026, 1, 1))
+
+    expect(times).toHaveLength(17)
+    expect(times.some(time => time.getDate() === 8)).toBe(false)
+    expect(times[times.length - 1]?.getDate()).toBe(25)
+  })
+})
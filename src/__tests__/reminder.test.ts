@@ -0,0 +1,42 @@
+import { readReminderData, reminderActionFor } from '../types/reminder'
+
+describe('reminder actions', () => {
+  it('maps action identifiers back to actions', () => {
+    expect(reminderActionFor('take_dose')).toBe('take')
+    expect(reminderActionFor('snooze_dose')).toBe('snooze')
+    expect(reminderActionFor('skip_dose')).toBe('skip')
+    expect(reminderActionFor('expo.modules.notifications.actions.DEFAULT')).toBeNull()
+  })
+})
+
+describe('readReminderData', () => {
+  const data = {
+    type: 'medication_reminder',
+    medicationId: 'medication_1',
+    medicationName: 'Metformin',
+    scheduleId: 'schedule_1',
+    dosage: '500mg',
+    doseTime: '2026-03-10T08:00:00.000Z',
+    scheduledTime: '2026-03-10T08:30:00.000Z',
+    snoozeCount: 2,
+    priority: 'high',
+  }
+
+  it('reads a snoozed reminder', () => {
+    expect(readReminderData(data)).toEqual(data)
+  })
+
+  it('treats the reminder time as the dose time for older reminders', () => {
+    const { doseTime, snoozeCount, ...legacy } = data
+    const reminder = readReminderData(legacy)
+    expect(reminder?.doseTime).toBe('2026-03-10T08:30:00.000Z')
+    expect(reminder?.snoozeCount).toBe(0)
+  })
+
+  it('ignores other notifications', () => {
+    expect(readReminderData({ ...data, type: 'low_stock' })).toBeNull()
+    expect(readReminderData({ ...data, scheduleId: undefined })).toBeNull()
+    expect(readReminderData({ ...data, doseTime: 'soon', scheduledTime: undefined })).toBeNull()
+    expect(readReminderData(null)).toBeNull()
+  })
+})
@@ -0,0 +1,194 @@
+import { DEFAULT_ESCALATION_POLICIES } from '../types/escalation'
+import { REMINDER_WINDOW_SIZE, ReminderData, ReminderSettings, readReminderData } from '../types/reminder'
+import { DEFAULT_REMINDER_PROFILES, ReminderProfiles, parseReminderProfiles, resolveReminderProfile } from '../types/reminderProfile'
+import { MedicationSchedule, SchedulePriority, buildSchedulePattern } from '../types/schedule'
+import {
+  diffReminders,
+  findSkippedDoses,
+  isInQuietHours,
+  planReminders,
+  reminderDoseId,
+  windowCapacity,
+} from '../utils/reminderPlanner'
+
+const now = new Date(2026, 2, 2, 6, 0)
+
+const settings: ReminderSettings = {
+  enabled: true,
+  soundEnabled: true,
+  vibrationEnabled: true,
+  reminderMinutesBefore: 15,
+  snoozeMinutes: 15,
+  maxSnoozes: 3,
+  missedDoseReminders: true,
+  lowStockReminders: true,
+  refillReminders: true,
+  weekendReminders: true,
+}
+
+const schedule = (index: number, priority: SchedulePriority = 'normal'): MedicationSchedule => ({
+  id: `schedule_${index}`,
+  medicationId: `medication_${index}`,
+  medicationName: `Medication ${index}`,
+  dosage: '1 tablet',
+  frequency: 'daily',
+  timing: 'custom',
+  pattern: buildSchedulePattern('custom', 'daily', undefined, `0${index}:30`),
+  startDate: new Date(2026, 0, 1).toISOString(),
+  status: 'active',
+  priority,
+})
+
+const plan = (schedules: MedicationSchedule[], capacity = REMINDER_WINDOW_SIZE) =>
+  planReminders(schedules, settings, { now, capacity })
+
+describe('planReminders', () => {
+  test('plans reminders ahead of each dose in firing order', () => {
+    const reminders = plan([schedule(9), schedule(7)], 4)
+    expect(reminders.map(reminder => reminder.scheduleId)).toEqual([
+      'schedule_7', 'schedule_9', 'schedule_7', 'schedule_9',
+    ])
+    expect(reminders[0]?.scheduledTime).toBe(new Date(2026, 2, 2, 7, 15).toISOString())
+    expect(reminders[0]?.doseTime).toBe(new Date(2026, 2, 2, 7, 30).toISOString())
+  })
+
+  test('stays within the window across many schedules', () => {
+    const schedules = [1, 2, 3, 4, 5, 6, 7, 8].map(index => schedule(index))
+    expect(plan(schedules)).toHaveLength(REMINDER_WINDOW_SIZE)
+  })
+
+  test('gives the tail of a full window to high-priority doses', () => {
+    const schedules = [schedule(7, 'critical'), schedule(8), schedule(9)]
+    const reminders = plan(schedules, 8)
+    const last = reminders[reminders.length - 1]
+    expect(reminders).toHaveLength(8)
+    expect(last?.scheduleId).toBe('schedule_7')
+    expect(reminders.slice(0, 6).map(reminder => reminder.scheduleId)).toEqual([
+      'schedule_7', 'schedule_8', 'schedule_9', 'schedule_7', 'schedule_8', 'schedule_9',
+    ])
+  })
+
+  test('leaves out recorded doses and quiet hours', () => {
+    const [first] = plan([schedule(7)], 1)
+    const resolved = new Set([first ? reminderDoseId(first) : ''])
+    const [next] = planReminders([schedule(7)], settings, { now, capacity: 1, resolvedDoseIds: resolved })
+    expect(next?.doseTime).toBe(new Date(2026, 2, 3, 7, 30).toISOString())
+
+    const quiet = { ...settings, quietHoursStart: '22:00', quietHoursEnd: '07:20' }
+    expect(planReminders([schedule(7)], quiet, { now, capacity: 5 })).toHaveLength(0)
+    expect(isInQuietHours(new Date(2026, 2, 2, 23, 0), quiet)).toBe(true)
+    expect(isInQuietHours(new Date(2026, 2, 2, 12, 0), quiet)).toBe(false)
+  })
+
+  test('plans escalation follow-ups, including for a dose already due', () => {
+    const options = { now: new Date(2026, 2, 2, 7, 40), capacity: 3, policies: DEFAULT_ESCALATION_POLICIES }
+    const reminders = planReminders([schedule(7, 'high')], settings, options)
+    expect(reminders.map(reminder => reminder.escalation?.type)).toEqual(['remind', 'remind', 'critical_alert'])
+    expect(reminders[2]?.scheduledTime).toBe(new Date(2026, 2, 2, 8, 15).toISOString())
+    expect(readReminderData(reminders[2])?.escalation).toEqual({ step: 2, type: 'critical_alert' })
+
+    const off = { ...settings, missedDoseReminders: false }
+    expect(planReminders([schedule(7, 'high')], off, options)[0]?.escalation).toBeUndefined()
+  })
+
+  test('plans nothing when reminders are off', () => {
+    expect(planReminders([schedule(7)], { ...settings, enabled: false }, { now, capacity: 5 })).toHaveLength(0)
+  })
+})
+
+describe('reminder profiles', () => {
+  const quiet = { ...settings, quietHoursStart: '22:00', quietHoursEnd: '07:20' }
+  const withProfile = (profile: Partial<ReminderProfiles['priorities']['normal']>): ReminderProfiles => ({
+    ...DEFAULT_REMINDER_PROFILES,
+    medications: { medication_7: { ...DEFAULT_REMINDER_PROFILES.priorities.normal, ...profile } },
+  })
+
+  test('silences critical doses in quiet hours instead of leaving them out', () => {
+    const [reminder] = planReminders([schedule(7, 'critical')], quiet, {
+      now,
+      capacity: 1,
+      profiles: withProfile({ quietHours: 'skip' }),
+    })
+    expect(reminder?.doseTime).toBe(new Date(2026, 2, 2, 7, 30).toISOString())
+    expect(reminder?.channel).toBe('quiet-reminders')
+    expect(reminder?.sound).toBe('none')
+  })
+
+  test('lets a medication ring through quiet hours', () => {
+    const [reminder] = planReminders([schedule(7)], quiet, { now, capacity: 1, profiles: withProfile({ quietHours: 'deliver' }) })
+    expect(reminder?.channel).toBe('medication-reminders')
+    expect(reminder?.sound).toBe('medication-reminder.wav')
+  })
+
+  test('repeats unanswered reminders', () => {
+    const profiles = withProfile({ repeatUntilAcknowledged: true, repeatEveryMinutes: 5, maxRepeats: 2 })
+    const reminders = planReminders([schedule(7)], settings, { now, capacity: 3, profiles })
+    expect(reminders.map(reminder => reminder.repeat)).toEqual([undefined, 1, 2])
+    expect(reminders[2]?.scheduledTime).toBe(new Date(2026, 2, 2, 7, 25).toISOString())
+  })
+
+  test('keeps critical doses on weekends when weekend reminders are off', () => {
+    const saturday = new Date(2026, 2, 7, 6, 0)
+    const off = { ...settings, weekendReminders: false }
+    expect(planReminders([schedule(7)], off, { now: saturday, capacity: 1 })[0]?.doseTime)
+      .toBe(new Date(2026, 2, 9, 7, 30).toISOString())
+    expect(planReminders([schedule(7, 'critical')], off, { now: saturday, capacity: 1 })[0]?.doseTime)
+      .toBe(new Date(2026, 2, 7, 7, 30).toISOString())
+  })
+
+  test('never lets a stored profile skip critical doses', () => {
+    const profiles = parseReminderProfiles({
+      priorities: { critical: { ...DEFAULT_REMINDER_PROFILES.priorities.critical, quietHours: 'skip', followWeekendSetting: true } },
+    })
+    const profile = resolveReminderProfile(profiles, 'medication_1', 'critical')
+    expect(profile.quietHours).toBe('silent')
+    expect(profile.followWeekendSetting).toBe(false)
+    expect(profiles.priorities.normal).toEqual(DEFAULT_REMINDER_PROFILES.priorities.normal)
+  })
+
+  test('reports the doses quiet hours leave without a reminder', () => {
+    const skipped = findSkippedDoses([schedule(7), schedule(8, 'critical')], quiet, DEFAULT_REMINDER_PROFILES, {
+      from: now,
+      to: new Date(2026, 2, 3, 6, 0),
+    })
+    expect(skipped).toEqual([{
+      scheduleId: 'schedule_7',
+      medicationName: 'Medication 7',
+      doseTime: new Date(2026, 2, 2, 7, 30).toISOString(),
+      reason: 'quiet_hours',
+    }])
+  })
+})
+
+describe('diffReminders', () => {
+  const [a, b, c] = plan([schedule(7)], 3) as [ReminderData, ReminderData, ReminderData]
+  const snoozed: ReminderData = { ...a, scheduledTime: now.toISOString(), snoozeCount: 1 }
+
+  test('only schedules and cancels what changed', () => {
+    const moved = { ...b, scheduledTime: new Date(2026, 2, 3, 7, 20).toISOString() }
+    const pending = [
+      { identifier: 'a', reminder: a },
+      { identifier: 'a-copy', reminder: a },
+      { identifier: 'moved', reminder: moved },
+      { identifier: 'alert', reminder: null },
+    ]
+    const diff = diffReminders(pending, [a, b, c])
+    expect(diff.kept).toBe(1)
+    expect(diff.cancel).toEqual(['a-copy', 'moved'])
+    expect(diff.schedule).toEqual([b, c])
+  })
+
+  test('keeps snoozed reminders until their dose is recorded', () => {
+    const pending = [{ identifier: 'snoozed', reminder: snoozed }, { identifier: 'alert', reminder: null }]
+    expect(windowCapacity(pending)).toBe(REMINDER_WINDOW_SIZE - 2)
+    expect(diffReminders(pending, []).cancel).toEqual([])
+    expect(diffReminders(pending, [], new Set([reminderDoseId(snoozed)])).cancel).toEqual(['snoozed'])
+  })
+
+  test('holds escalation follow-ups and repeats back while the dose is snoozed', () => {
+    const followUp: ReminderData = { ...a, escalation: { step: 0, type: 'remind' } }
+    const repeat: ReminderData = { ...a, repeat: 1 }
+    const pending = [{ identifier: 'snoozed', reminder: snoozed }]
+    expect(diffReminders(pending, [followUp, repeat, b]).schedule).toEqual([b])
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  DEFAULT_ROUTINE,
+  DEFAULT_SHIFT_ROUTINES,
+  RoutineProfile,
+  parseRoutineProfile,
+  routineTimes
+} from '../types/routine'
+import { MedicationSchedule, buildSchedulePattern, timingForTime } from '../types/schedule'
+import { getDoseTimesBetween } from '../utils/scheduleUtils'
+import { applyRoutine, routineOn, shiftOn } from '../utils/routine'
+
+const early = { ...DEFAULT_ROUTINE, wake: '05:30', breakfast: '06:00', dinner: '18:30' }
+
+const profile: RoutineProfile = {
+  usual: early,
+  weekend: DEFAULT_ROUTINE,
+  // Two days, two nights, four off from Monday 2 March
+  shiftWork: {
+    startDate: '2026-03-02',
+    cycle: ['day', 'day', 'night', 'night', 'off', 'off', 'off', 'off'],
+    ...DEFAULT_SHIFT_ROUTINES,
+  },
+  configured: true,
+}
+
+const schedule: MedicationSchedule = {
+  id: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Metformin',
+  dosage: '500mg',
+  frequency: 'twice_daily',
+  timing: 'morning',
+  pattern: buildSchedulePattern('morning', 'twice_daily'),
+  startDate: new Date(2026, 2, 1).toISOString(),
+  status: 'active',
+  priority: 'normal',
+}
+
+const clockTimes = (item: MedicationSchedule, from: Date, to: Date) =>
+  getDoseTimesBetween(item, from, to).map(time => `${time.getDate()} ${time.toTimeString().slice(0, 5)}`)
+
+describe('routineTimes', () => {
+  it('reads timing slots and frequencies from the routine', () => {
+    expect(routineTimes(early, 'morning', 'daily')).toEqual(['06:00'])
+    expect(routineTimes(early, 'night', 'weekly')).toEqual(['18:30'])
+    expect(routineTimes(early, 'morning', 'three_times_daily')).toEqual(['06:00', '13:00', '18:30'])
+    expect(routineTimes(early, 'custom', 'twice_daily', '09:15')).toEqual(['09:15'])
+  })
+
+  it('matches times back to a slot in the routine', () => {
+    expect(timingForTime('06:00', early)).toEqual({ timing: 'morning' })
+    expect(timingForTime('08:00', early)).toEqual({ timing: 'custom', customTime: '08:00' })
+  })
+})
+
+describe('routineOn', () => {
+  it('follows the shift rotation, then weekends and usual days', () => {
+    expect(routineOn(profile, new Date(2026, 2, 3))).toEqual(DEFAULT_SHIFT_ROUTINES.day)
+    expect(routineOn(profile, new Date(2026, 2, 5))).toEqual(DEFAULT_SHIFT_ROUTINES.night)
+    expect(routineOn(profile, new Date(2026, 2, 6))).toEqual(early)
+    expect(routineOn(profile, new Date(2026, 2, 7))).toEqual(DEFAULT_ROUTINE)
+  })
+
+  it('counts the rotation back before its start', () => {
+    const { shiftWork } = profile
+    expect(shiftWork && shiftOn(shiftWork, new Date(2026, 2, 1))).toBe('off')
+    expect(shiftWork && shiftOn(shiftWork, new Date(2026, 1, 23))).toBe('day')
+  })
+})
+
+describe('applyRoutine', () => {
+  it('moves slot schedules to each day of the routine', () => {
+    const applied = applyRoutine(schedule, profile)
+
+    expect(applied.pattern.times).toEqual(['06:00', '18:30'])
+    expect(clockTimes(applied, new Date(2026, 2, 4), new Date(2026, 2, 7))).toEqual([
+      '4 02:00',
+      '4 15:00',
+      '5 02:00',
+      '5 15:00',
+      '6 06:00',
+      '6 18:30',
+    ])
+  })
+
+  it('leaves custom times and recurrence rules alone', () => {
+    const custom = { ...schedule, timing: 'custom' as const }
+    const rules = { ...schedule, pattern: { ...schedule.pattern, type: 'rrule' as const, rrules: ['FREQ=DAILY'] } }
+
+    expect(applyRoutine(custom, profile)).toEqual(custom)
+    expect(applyRoutine(rules, profile)).toEqual(rules)
+  })
+
+  it('reads stored profiles', () => {
+    expect(parseRoutineProfile(JSON.parse(JSON.stringify(profile)))).toEqual(profile)
+  })
+})
@@ -0,0 +1,69 @@
+import { DomainParseError } from '../types/parse'
+import { MedicationSchedule, buildSchedulePattern, parseSchedulePhases } from '../types/schedule'
+import {
+  createScheduledDose,
+  getActivePhase,
+  getDoseTimesBetween,
+  getDoseTimesOn,
+  getScheduledDosagesBetween,
+} from '../utils/scheduleUtils'
+
+const taper: MedicationSchedule = {
+  id: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Prednisone',
+  dosage: '40 mg',
+  frequency: 'daily',
+  timing: 'morning',
+  pattern: buildSchedulePattern('morning', 'daily'),
+  phases: [
+    { dosage: '40 mg', durationDays: 7, times: ['08:00', '20:00'] },
+    { dosage: '20 mg', durationDays: 7, times: [] },
+    { dosage: '10 mg', durationDays: 3, times: [] },
+  ],
+  startDate: new Date(2026, 0, 5).toISOString(),
+  status: 'active',
+  priority: 'normal',
+}
+
+describe('dose phases', () => {
+  test('finds the phase in effect on a day', () => {
+    expect(getActivePhase(taper, new Date(2026, 0, 11, 23))?.index).toBe(0)
+    expect(getActivePhase(taper, new Date(2026, 0, 12))?.index).toBe(1)
+    expect(getActivePhase(taper, new Date(2026, 0, 22))).toBeNull()
+  })
+
+  test('uses each phase\'s times and dosage', () => {
+    expect(getDoseTimesOn(taper, new Date(2026, 0, 11))).toHaveLength(2)
+    expect(getDoseTimesOn(taper, new Date(2026, 0, 12))).toHaveLength(1)
+
+    const [dose] = getDoseTimesOn(taper, new Date(2026, 0, 19))
+    expect(dose && createScheduledDose(taper, dose).dosage).toBe('10 mg')
+  })
+
+  test('ends the schedule after the last phase', () => {
+    const times = getDoseTimesBetween(taper, new Date(2026, 0, 1), new Date(2026, 1, 1))
+
+    expect(times).toHaveLength(14 + 7 + 3)
+    expect(times[times.length - 1]?.getDate()).toBe(21)
+  })
+
+  test('projects the dosage due at every dose', () => {
+    const dosages = getScheduledDosagesBetween(taper, new Date(2026, 0, 11), new Date(2026, 0, 13))
+
+    expect(dosages.map(({ dosage }) => dosage)).toEqual(['40 mg', '40 mg', '20 mg'])
+  })
+
+  test('keeps an open-ended last phase going', () => {
+    const titration = { ...taper, phases: [{ dosage: '25 mg', durationDays: 14, times: [] }, { dosage: '50 mg', times: [] }] }
+
+    expect(getActivePhase(titration, new Date(2027, 0, 1))?.phase.dosage).toBe('50 mg')
+  })
+
+  test('only allows the last phase to be open-ended', () => {
+    expect(() => parseSchedulePhases([{ dosage: '25 mg', times: [] }, { dosage: '50 mg', durationDays: 7 }])).toThrow(
+      DomainParseError
+    )
+    expect(() => parseSchedulePhases([{ dosage: '', durationDays: 7 }])).toThrow(DomainParseError)
+  })
+})
@@ -0,0 +1,97 @@
+import { DEFAULT_ROUTINE } from '../types/routine'
+import { parseSig } from '../utils/sigParser'
+
+describe('parseSig', () => {
+  test('reads Latin abbreviations with a meal relation', () => {
+    const sig = parseSig('1 tab t.d.s. p.c.')
+    expect(sig).toMatchObject({
+      dose: { amount: 1, unit: 'tablet' },
+      dosage: '1 tablet',
+      route: 'oral',
+      frequency: 'three_times_daily',
+      timing: 'morning',
+      foodRequirement: 'with_food',
+      timingConstraints: [{ type: 'meal', relation: 'after_meal' }],
+      confidence: 1
+    })
+    expect(sig.pattern?.times).toEqual(['08:00', '13:00', '20:00'])
+  })
+
+  test('reads as-needed doses with their limits', () => {
+    expect(parseSig('2 puffs prn')).toMatchObject({
+      dose: { amount: 2, unit: 'puff' },
+      route: 'inhaled',
+      frequency: 'as_needed',
+      ambiguities: []
+    })
+    expect(parseSig('1-2 tabs q4-6h prn for pain max 8 per day')).toMatchObject({
+      dose: { amount: 1, maxAmount: 2, unit: 'tablet' },
+      dosage: '1-2 tablets',
+      prnLimits: { minIntervalMinutes: 240, maxDosesPer24h: 8 }
+    })
+    expect(parseSig('1 tab prn max 8 tabs/24h')).toMatchObject({
+      prnLimits: { maxDosesPer24h: 8 },
+      ambiguities: []
+    })
+  })
+
+  test('assumes tablets for a bare amount and lowers the confidence', () => {
+    const sig = parseSig('½ mane')
+    expect(sig).toMatchObject({ dose: { amount: 0.5, unit: 'tablet' }, dosage: '½ tablet', frequency: 'daily', timing: 'morning' })
+    expect(sig.ambiguities).toEqual([{ type: 'unit_assumed' }])
+    expect(sig.confidence).toBeLessThan(1)
+  })
+
+  test('reads units and the injection route', () => {
+    const sig = parseSig('10 u sc nocte')
+    expect(sig).toMatchObject({ dose: { amount: 10, unit: 'unit' }, dosage: '10 units', route: 'subcutaneous', timing: 'night' })
+    expect(sig.pattern?.times).toEqual([DEFAULT_ROUTINE.dinner])
+  })
+
+  test('reads ear abbreviations only where they mean the ear', () => {
+    expect(parseSig('1 tab daily as directed').route).toBe('oral')
+    expect(parseSig('apply ad lib').route).toBe('topical')
+    expect(parseSig('2 gtts a.s. b.d.').route).toBe('ear')
+    expect(parseSig('3 drops AU tds')).toMatchObject({ route: 'ear', frequency: 'three_times_daily' })
+  })
+
+  test('reads Afrikaans instructions', () => {
+    expect(parseSig('Neem een tablet twee keer per dag na ete')).toMatchObject({
+      dose: { amount: 1, unit: 'tablet' },
+      frequency: 'twice_daily',
+      timingConstraints: [{ type: 'meal', relation: 'after_meal' }],
+      ambiguities: []
+    })
+    expect(parseSig('5 ml elke 8 uur vir 5 dae')).toMatchObject({
+      dose: { amount: 5, unit: 'ml' },
+      timing: 'custom',
+      durationDays: 5,
+      pattern: { times: ['00:00', '08:00', '16:00'], duration: 5 }
+    })
+  })
+
+  test('spreads four daily doses over the routine and follows it', () => {
+    const routine = { ...DEFAULT_ROUTINE, breakfast: '06:30' }
+    expect(parseSig('1 cap qid x 7/7', { routine }).pattern).toMatchObject({
+      times: ['06:30', '13:00', '20:00', '22:00'],
+      duration: 7
+    })
+  })
+
+  test('flags what it cannot be sure of', () => {
+    expect(parseSig('1 drop od').ambiguities).toContainEqual({ type: 'od_eye_or_daily', text: 'od' })
+    expect(parseSig('2 tabs bd tds').ambiguities).toContainEqual({ type: 'conflicting_frequency', text: '2 / 3' })
+    const unclear = parseSig('take as directed')
+    expect(unclear).toMatchObject({ dose: null, frequency: null, pattern: null })
+    expect(unclear.ambiguities.map((ambiguity) => ambiguity.type)).toEqual(['no_dose', 'no_frequency', 'unrecognised'])
+    expect(unclear.confidence).toBeLessThan(0.5)
+  })
+
+  test('puts weekly and alternate-day doses on the right days', () => {
+    const weekly = parseSig('70 mg weekly', { startDate: new Date(2026, 9, 14) })
+    expect(weekly.pattern?.daysOfWeek).toEqual([false, false, false, true, false, false, false])
+    const friday = parseSig('1 tab weekly', { startDate: new Date(2026, 9, 16) })
+    expect(friday.pattern?.daysOfWeek).toEqual([false, false, false, false, false, true, false])
+    expect(parseSig('1 tab eod').pattern?.rrules).toEqual(['FREQ=DAILY;INTERVAL=2'])
+  })
+})
@@ -1,24 +1,26 @@
+import { DoseEvent } from '../types/dose'
+import { MedicationSchedule } from '../types/schedule'
 import { SmartMedicationScheduler } from '../utils/smartScheduler'
 
 describe('SmartMedicationScheduler.optimizeDosingTimes', () => {
-  test('once daily defaults to breakfast (07:00)', () => {
+  test('once daily defaults to breakfast (08:00)', () => {
     const times = SmartMedicationScheduler.optimizeDosingTimes('once_daily')
-    expect(times).toEqual(['07:00'])
+    expect(times).toEqual(['08:00'])
   })
 
   test('twice daily maps to breakfast and dinner', () => {
     const times = SmartMedicationScheduler.optimizeDosingTimes('twice_daily')
-    expect(times).toEqual(['07:00', '19:00'])
+    expect(times).toEqual(['08:00', '20:00'])
   })
 
   test('three times daily aligns to meals', () => {
     const times = SmartMedicationScheduler.optimizeDosingTimes('three_times_daily')
-    expect(times).toEqual(['07:00', '13:00', '19:00'])
+    expect(times).toEqual(['08:00', '13:00', '20:00'])
   })
 
   test('four times daily includes midpoint and bedtime', () => {
     const times = SmartMedicationScheduler.optimizeDosingTimes('four_times_daily')
-    expect(times).toEqual(['07:00', '10:00', '19:00', '21:00'])
+    expect(times).toEqual(['08:00', '10:30', '20:00', '22:00'])
   })
 })
 
@@ -60,3 +62,88 @@ describe('SmartMedicationScheduler.detectScheduleConflicts', () => {
 })
 
 
+
+describe('SmartMedicationScheduler.suggestDoseTimes', () => {
+  const schedule: MedicationSchedule = {
+    id: 'schedule_1',
+    medicationId: 'medication_1',
+    medicationName: 'Amlodipine',
+    dosage: '5mg',
+    frequency: 'twice_daily',
+    timing: 'custom',
+    pattern: { type: 'daily', times: ['08:00', '20:00'] },
+    startDate: '2026-02-01T00:00:00.000Z',
+    status: 'active',
+    priority: 'normal',
+    timeZone: 'Africa/Johannesburg',
+  }
+
+  // Taken `delays[i]` minutes late on 2 March 2026 (a Monday) and the days after
+  const events = (time: string, delays: number[]): DoseEvent[] =>
+    delays.map((delay, day) => {
+      const scheduled = new Date(Date.parse(`2026-03-0${day + 2}T${time}:00+02:00`))
+      return {
+        id: `schedule_1-${day}-${time}`,
+        scheduleId: 'schedule_1',
+        medicationId: 'medication_1',
+        medicationName: 'Amlodipine',
+        dosage: '5mg',
+        scheduledTime: scheduled.toISOString(),
+        status: delay > 30 ? 'late' : 'taken',
+        actualTime: new Date(scheduled.getTime() + delay * 60000).toISOString(),
+        transitions: [],
+        createdAt: scheduled.toISOString(),
+        updatedAt: scheduled.toISOString(),
+      }
+    })
+
+  test('moves a dose time taken late every day', () => {
+    const [suggestion] = SmartMedicationScheduler.suggestDoseTimes(schedule, events('08:00', [55, 60, 65, 60, 70, 50, 60]))
+
+    expect(suggestion?.pattern.days).toBe('all')
+    expect(suggestion?.suggestedTime).toBe('09:00')
+    expect(suggestion?.schedulePattern).toEqual({ type: 'daily', times: ['09:00', '20:00'] })
+  })
+
+  test('moves weekend doses on their own with weekly rules', () => {
+    // Monday to Sunday: on time on weekdays, 90 minutes late at the weekend
+    const history = [...events('08:00', [0, 5, 0, 10, 0, 90, 95]), ...events('08:00', [0, 0, 0, 0, 0, 85, 90]).map((event) => ({
+      ...event,
+      id: `${event.id}-next`,
+      scheduledTime: new Date(Date.parse(event.scheduledTime) + 7 * 86400000).toISOString(),
+      actualTime: new Date(Date.parse(event.actualTime ?? '') + 7 * 86400000).toISOString(),
+    }))]
+
+    const [suggestion] = SmartMedicationScheduler.suggestDoseTimes(schedule, history)
+
+    expect(suggestion?.pattern.days).toBe('weekends')
+    expect(suggestion?.suggestedTime).toBe('09:30')
+    expect(suggestion?.schedulePattern.rrules).toEqual([
+      'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=8;BYMINUTE=0',
+      'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=20;BYMINUTE=0',
+      'FREQ=WEEKLY;BYDAY=SU,SA;BYHOUR=9;BYMINUTE=30',
+      'FREQ=WEEKLY;BYDAY=SU,SA;BYHOUR=20;BYMINUTE=0',
+    ])
+  })
+
+  test('ignores doses taken at scattered times', () => {
+    expect(SmartMedicationScheduler.suggestDoseTimes(schedule, events('08:00', [0, 120, 15, 90, 200, 45, 0]))).toEqual([])
+  })
+
+  test('stops short of an empty-stomach dose meeting breakfast', () => {
+    const fasting: MedicationSchedule = { ...schedule, pattern: { type: 'daily', times: ['06:30'] }, foodRequirement: 'empty_stomach' }
+
+    const [suggestion] = SmartMedicationScheduler.suggestDoseTimes(fasting, events('06:30', [90, 90, 95, 85, 90]))
+
+    expect(suggestion?.suggestedTime).toBe('07:30')
+    expect(suggestion?.limitedBy).toBe('meal')
+  })
+
+  test('keeps the spacing between the doses of a schedule', () => {
+    const closeTogether: MedicationSchedule = { ...schedule, pattern: { type: 'daily', times: ['08:00', '12:00'] } }
+
+    const [suggestion] = SmartMedicationScheduler.suggestDoseTimes(closeTogether, events('08:00', [120, 120, 120, 120]))
+
+    expect(suggestion).toBeUndefined()
+  })
+})
@@ -0,0 +1,131 @@
+import { toApiRecord } from '../types/api'
+import { PendingChange } from '../types/sync'
+import {
+  hasLocalReferences,
+  remapDoseId,
+  remapImportStep,
+  remapPendingChanges,
+  remapReferences,
+  settleSentChange,
+} from '../utils/sync'
+
+const queuedAt = '2026-03-10T08:00:00.000Z'
+
+const change = (extra: Pick<PendingChange, 'entity' | 'operation' | 'recordId'> & Partial<PendingChange>): PendingChange => ({
+  id: `change_${extra.recordId}`,
+  queuedAt,
+  attempts: 0,
+  ...extra,
+})
+
+// A medication and its schedule added offline, then a dose taken
+const offlineQueue = (): PendingChange[] => [
+  change({ entity: 'medications', operation: 'create', recordId: 'local_med', payload: { name: 'Metformin' } }),
+  change({
+    entity: 'schedules',
+    operation: 'create',
+    recordId: 'local_schedule',
+    payload: { medicationId: 'local_med', timing: 'morning' },
+  }),
+  change({
+    entity: 'logs',
+    operation: 'create',
+    recordId: 'local_log',
+    payload: { medicationId: 'local_med', scheduleId: 'local_schedule', status: 'taken' },
+  }),
+  change({ entity: 'medications', operation: 'update', recordId: 'local_med', payload: { pillCount: 29 } }),
+]
+
+describe('remapPendingChanges', () => {
+  it('points a queued schedule at its medication once the server assigns an id', () => {
+    const [schedule, log, update] = remapPendingChanges(offlineQueue().slice(1), 'medications', 'local_med', '42')
+
+    expect(schedule?.payload).toMatchObject({ medicationId: '42' })
+    expect(toApiRecord('schedules', schedule!.payload!)).toMatchObject({ medication: 42 })
+    expect(log?.payload).toMatchObject({ medicationId: '42', scheduleId: 'local_schedule' })
+    expect(update?.recordId).toBe('42')
+  })
+
+  it('follows each create in turn so the dose log reaches the server fully linked', () => {
+    const afterMedication = remapPendingChanges(offlineQueue().slice(1), 'medications', 'local_med', '42')
+    const [, log] = remapPendingChanges(afterMedication, 'schedules', 'local_schedule', '7')
+
+    expect(log?.payload).toMatchObject({ medicationId: '42', scheduleId: '7' })
+    expect(toApiRecord('logs', log!.payload!)).toMatchObject({ medication: 42, schedule: 7 })
+  })
+
+  it('leaves unrelated changes untouched', () => {
+    const other = change({ entity: 'schedules', operation: 'update', recordId: '9', payload: { medicationId: '3' } })
+    expect(remapPendingChanges([other], 'medications', 'local_med', '42')[0]).toBe(other)
+  })
+})
+
+describe('remapReferences', () => {
+  it('rewrites ids inside list fields', () => {
+    const prescription = { id: '5', medicationIds: ['1', 'local_med'] }
+    expect(remapReferences('prescriptions', prescription, 'medications', 'local_med', '42').medicationIds).toEqual(['1', '42'])
+  })
+})
+
+describe('hasLocalReferences', () => {
+  it('spots payloads pointing at records not yet on the server', () => {
+    expect(hasLocalReferences('schedules', { medicationId: 'local_med' })).toBe(true)
+    expect(hasLocalReferences('schedules', { medicationId: '42' })).toBe(false)
+    expect(hasLocalReferences('prescriptions', { medicationIds: ['1', 'local_med'] })).toBe(true)
+    expect(hasLocalReferences('medications', { name: 'Metformin' })).toBe(false)
+  })
+})
+
+describe('remapDoseId', () => {
+  it('moves doses of the remapped schedule only', () => {
+    expect(remapDoseId('local_schedule-2026-03-10-08-00', 'local_schedule', '7')).toBe('7-2026-03-10-08-00')
+    expect(remapDoseId('local_schedule_2-2026-03-10-08-00', 'local_schedule', '7')).toBe('local_schedule_2-2026-03-10-08-00')
+  })
+})
+
+describe('settleSentChange', () => {
+  it('drops the sent change and keeps what was tracked meanwhile', () => {
+    const [medication, ...later] = offlineQueue()
+    const dose = change({ entity: 'logs', operation: 'create', recordId: 'local_log_2', payload: { status: 'taken' } })
+    const settled = settleSentChange([medication!, ...later, dose], medication!, '42')
+
+    expect(settled.map(item => item.recordId)).toEqual(['local_schedule', 'local_log', '42', 'local_log_2'])
+    expect(settled[0]?.payload).toMatchObject({ medicationId: '42' })
+  })
+
+  it('turns a create edited on its way into an update of the new record', () => {
+    const [medication] = offlineQueue()
+    const edited = { ...medication!, payload: { name: 'Metformin XR' } }
+    const [next] = settleSentChange([edited], medication!, '42')
+
+    expect(next).toMatchObject({ operation: 'update', recordId: '42', payload: { name: 'Metformin XR' } })
+  })
+
+  it('keeps a delete made while the create was on its way', () => {
+    const [medication] = offlineQueue()
+    const deleted = change({ id: medication!.id, entity: 'medications', operation: 'delete', recordId: 'local_med' })
+    expect(settleSentChange([deleted], medication!, '42')[0]).toMatchObject({ operation: 'delete', recordId: '42' })
+  })
+})
+
+describe('remapImportStep', () => {
+  it('follows the records an import created so undo can delete them', () => {
+    expect(remapImportStep({ type: 'medication_created', id: 'local_med' }, 'medications', 'local_med', '42'))
+      .toEqual({ type: 'medication_created', id: '42' })
+    expect(remapImportStep({ type: 'schedule_created', id: 'local_med' }, 'medications', 'local_med', '42'))
+      .toEqual({ type: 'schedule_created', id: 'local_med' })
+  })
+
+  it('rewrites medications named in a script snapshot', () => {
+    const step = {
+      type: 'prescription_updated' as const,
+      id: '5',
+      previous: { medicationIds: ['1', 'local_med'], repeatsRemaining: 2 },
+    }
+    expect(remapImportStep(step, 'medications', 'local_med', '42')).toMatchObject({
+      id: '5',
+      previous: { medicationIds: ['1', '42'] },
+    })
+    expect(remapImportStep(step, 'schedules', 'local_med', '42')).toBe(step)
+  })
+})
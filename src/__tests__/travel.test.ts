@@ -0,0 +1,105 @@
+import { MedicationSchedule } from '../types/schedule'
+import { TravelSettings, defaultTravelSettings, parseTravelSettings } from '../types/travel'
+import { doseIdFor, getDoseTimesBetween } from '../utils/scheduleUtils'
+import { applyTravel, isTimeCritical, proposeShiftPlan } from '../utils/travel'
+
+const schedule: MedicationSchedule = {
+  id: 'schedule_1',
+  medicationId: 'medication_1',
+  medicationName: 'Insulin glargine',
+  dosage: '10 units',
+  frequency: 'daily',
+  timing: 'morning',
+  pattern: { type: 'daily', times: ['08:00'] },
+  startDate: '2026-01-01T00:00:00.000Z',
+  status: 'active',
+  priority: 'high',
+  timeZone: 'Africa/Johannesburg',
+}
+
+const times = (item: MedicationSchedule, from: string, to: string) =>
+  getDoseTimesBetween(item, new Date(from), new Date(to)).map(time => time.toISOString())
+
+// Landed in London on the evening of 10 January
+const leg = { timeZone: 'Europe/London', since: '2026-01-10T18:00:00.000Z' }
+
+describe('schedule time zones', () => {
+  it('reads times in the schedule zone whatever the device zone', () => {
+    expect(times(schedule, '2026-01-10T00:00:00.000Z', '2026-01-12T00:00:00.000Z')).toEqual([
+      '2026-01-10T06:00:00.000Z',
+      '2026-01-11T06:00:00.000Z',
+    ])
+  })
+
+  it('makes dose ids from the wall-clock time in the schedule zone', () => {
+    expect(doseIdFor('schedule_1', new Date('2026-01-10T06:00:00.000Z'), 'Africa/Johannesburg')).toBe('schedule_1-2026-01-10-08-00')
+  })
+})
+
+describe('travelling on local time', () => {
+  it('moves doses from the start of the leg to local clock times', () => {
+    const travelling = { ...schedule, travel: leg }
+
+    expect(times(travelling, '2026-01-10T00:00:00.000Z', '2026-01-13T00:00:00.000Z')).toEqual([
+      '2026-01-10T06:00:00.000Z',
+      '2026-01-11T08:00:00.000Z',
+      '2026-01-12T08:00:00.000Z',
+    ])
+  })
+
+  it('moves gradual schedules a step a day', () => {
+    const travelling = { ...schedule, travel: { ...leg, stepMinutes: 60 } }
+
+    expect(times(travelling, '2026-01-11T00:00:00.000Z', '2026-01-14T00:00:00.000Z')).toEqual([
+      '2026-01-11T07:00:00.000Z',
+      '2026-01-12T08:00:00.000Z',
+      '2026-01-13T08:00:00.000Z',
+    ])
+  })
+
+  it('moves back home gradually from where the previous leg left off', () => {
+    const home = { fromTimeZone: 'Europe/London', timeZone: 'Africa/Johannesburg', since: '2026-01-20T12:00:00.000Z' }
+    const travelling = { ...schedule, travel: { ...home, stepMinutes: 60 } }
+
+    expect(times(travelling, '2026-01-21T00:00:00.000Z', '2026-01-23T00:00:00.000Z')).toEqual([
+      '2026-01-21T07:00:00.000Z',
+      '2026-01-22T06:00:00.000Z',
+    ])
+  })
+
+  it('proposes the days a gradual move takes', () => {
+    const plan = proposeShiftPlan(schedule, leg, 60)
+
+    expect(plan).toHaveLength(1)
+    expect(plan[0]?.times.map(time => time.toISOString())).toEqual(['2026-01-11T07:00:00.000Z'])
+    expect(proposeShiftPlan(schedule, leg, 180)).toEqual([])
+  })
+})
+
+describe('applyTravel', () => {
+  const settings: TravelSettings = { ...defaultTravelSettings('Africa/Johannesburg'), mode: 'local', leg, gradualScheduleIds: ['schedule_1'] }
+
+  it('gives schedules saved without a zone the home zone', () => {
+    const { timeZone, ...legacy } = schedule
+
+    expect(applyTravel(legacy, { ...settings, mode: 'home' })).toEqual({ ...legacy, timeZone: 'Africa/Johannesburg' })
+  })
+
+  it('applies the leg, with a step for gradual schedules', () => {
+    expect(applyTravel(schedule, settings).travel).toEqual({ ...leg, stepMinutes: 60 })
+    expect(applyTravel({ ...schedule, id: 'schedule_2' }, settings).travel).toEqual(leg)
+  })
+
+  it('reads stored settings', () => {
+    expect(parseTravelSettings(JSON.parse(JSON.stringify(settings)))).toEqual(settings)
+  })
+})
+
+describe('isTimeCritical', () => {
+  it('picks out insulins, contraceptives and critical schedules', () => {
+    expect(isTimeCritical(schedule)).toBe(true)
+    expect(isTimeCritical({ priority: 'normal', medicationName: 'Microval (levonorgestrel)' })).toBe(true)
+    expect(isTimeCritical({ priority: 'critical', medicationName: 'Warfarin' })).toBe(true)
+    expect(isTimeCritical({ priority: 'high', medicationName: 'Amlodipine' })).toBe(false)
+  })
+})
@@ -16,29 +16,15 @@ import {
 import { formatMedicationDate } from '../../utils/dateUtils';
 import { MedGuardColors } from '../../theme/colors';
 import i18n from '../../i18n';
+import PhotoThumbnail from './PhotoThumbnail';
 
 // Types
-interface Medication {
-  id: number;
-  name: string;
-  genericName?: string;
-  strength: string;
-  medicationType: string;
-  prescriptionType: string;
-  pillCount: number;
-  lowStockThreshold: number;
-  description?: string;
-  manufacturer?: string;
-  medicationImage?: string;
-  expirationDate?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { Medication } from '../../types/medication';
 
 interface MedicationCardProps {
   medication: Medication;
   index?: number;
-  onPress: (medicationId: number) => void;
+  onPress: (medicationId: string) => void;
 }
 
 /**
@@ -100,9 +86,17 @@ const MedicationCard: React.FC<MedicationCardProps> = memo(({
       title={medication.name}
       description={statusText}
       accessoryLeft={() => (
-        <Avatar
-          source={medication.medicationImage ? { uri: medication.medicationImage } : undefined}
-          style={[styles.medicationAvatar, { backgroundColor: statusColor }]}
+        // The user's own pill photo, ringed in the status colour
+        <PhotoThumbnail
+          medicationId={medication.id}
+          size={48}
+          style={[styles.photoThumbnail, { borderColor: statusColor }]}
+          fallback={
+            <Avatar
+              source={medication.medicationImage ? { uri: medication.medicationImage } : undefined}
+              style={[styles.medicationAvatar, { backgroundColor: statusColor }]}
+            />
+          }
         />
       )}
       accessoryRight={() => (
@@ -136,6 +130,9 @@ const styles = StyleSheet.create({
     height: 48,
     borderRadius: 24,
   },
+  photoThumbnail: {
+    borderWidth: 3,
+  },
   medicationMeta: {
     flexDirection: 'row',
     alignItems: 'center',
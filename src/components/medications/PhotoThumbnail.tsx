@@ -0,0 +1,45 @@
+/**
+ * MedGuard SA - Medication photo thumbnail
+ * Shows a medication's own pill photo on list cards so similar tablets can
+ * be told apart at a glance. Falls back to `fallback` until a photo exists.
+ */
+
+import React, { memo, useEffect, useState } from 'react';
+import { Image, StyleProp, ImageStyle } from 'react-native';
+
+import photoService from '../../services/photoService';
+
+interface PhotoThumbnailProps {
+  medicationId: string;
+  size: number;
+  style?: StyleProp<ImageStyle>;
+  fallback?: React.ReactElement | null;
+}
+
+const PhotoThumbnail: React.FC<PhotoThumbnailProps> = memo(({ medicationId, size, style, fallback = null }) => {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      photoService.getThumbnail(medicationId).then(thumbnail => {
+        if (active) setUri(thumbnail);
+      });
+    };
+    load();
+    const unsubscribe = photoService.subscribe(changed => {
+      if (changed === medicationId) load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [medicationId]);
+
+  if (!uri) return fallback;
+  return <Image source={{ uri }} style={[{ width: size, height: size, borderRadius: size / 2 }, style]} />;
+});
+
+PhotoThumbnail.displayName = 'PhotoThumbnail';
+
+export default PhotoThumbnail;
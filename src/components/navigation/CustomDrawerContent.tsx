@@ -5,16 +5,23 @@ import { DrawerContentComponentProps } from '@react-navigation/drawer';
 import { Layout, Text, Avatar, Divider } from '@ui-kitten/components';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocalization } from '@/contexts/LocalizationContext';
+import { useMedications } from '@/contexts/MedicationContext';
 
 const CustomDrawerContent: React.FC<DrawerContentComponentProps> = (props) => {
   const { user, logout } = useAuth();
   const { t } = useLocalization();
+  const { profile, dependants, switchProfile } = useMedications();
 
   const handleLogout = async () => {
     await logout();
     // Navigation will be handled by the auth state change
   };
 
+  const handleSwitchProfile = async (patientId: number | null) => {
+    await switchProfile(patientId);
+    props.navigation.navigate('Main');
+  };
+
   return (
     <Layout style={styles.container}>
       <DrawerContentScrollView {...props}>
@@ -29,10 +36,41 @@ const CustomDrawerContent: React.FC<DrawerContentComponentProps> = (props) => {
           <Text category="c1" style={styles.userEmail}>
             {user?.email || 'guest@example.com'}
           </Text>
+          {profile && (
+            <Text category="s2" status="primary" style={styles.activeProfile}>
+              {t('linkedProfiles.showing', { name: profile.name })}
+            </Text>
+          )}
         </View>
 
         <Divider style={styles.divider} />
 
+        {dependants.length > 0 && (
+          <>
+            <Text category="label" style={styles.sectionLabel}>
+              {t('linkedProfiles.title')}
+            </Text>
+            <DrawerItem
+              label={t('linkedProfiles.myProfile')}
+              focused={!profile}
+              onPress={() => handleSwitchProfile(null)}
+              icon={() => null}
+            />
+            {dependants.map(dependant => (
+              <DrawerItem
+                key={dependant.patientId}
+                label={dependant.role === 'view'
+                  ? t('linkedProfiles.viewOnly', { name: dependant.name })
+                  : dependant.name}
+                focused={profile?.patientId === dependant.patientId}
+                onPress={() => handleSwitchProfile(dependant.patientId)}
+                icon={() => null}
+              />
+            ))}
+            <Divider style={styles.divider} />
+          </>
+        )}
+
         <DrawerItem
           label={t('navigation.dashboard')}
           onPress={() => props.navigation.navigate('Main')}
@@ -102,6 +140,14 @@ const styles = StyleSheet.create({
   userEmail: {
     opacity: 0.7,
   },
+  activeProfile: {
+    marginTop: 8,
+  },
+  sectionLabel: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    opacity: 0.7,
+  },
   divider: {
     marginVertical: 8,
   },
@@ -0,0 +1,141 @@
+/**
+ * MedGuard SA - Reminder profile editor
+ * Channel, sound, repeat and quiet-hours choices of a reminder profile,
+ * shared by the priority profiles in settings and a medication's own
+ * profile on its detail screen.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Input, Text, Toggle } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { Spacing } from '../../theme/typography';
+import { REMINDER_CHANNELS, REMINDER_SOUNDS, ReminderSound } from '../../types/reminder';
+import { QUIET_HOURS_RULES, ReminderProfile } from '../../types/reminderProfile';
+
+// Sound file names can't be translation keys
+const SOUND_LABELS: Record<ReminderSound, string> = {
+  'medication-reminder.wav': 'reminder_tone',
+  'urgent-alert.wav': 'urgent_tone',
+  default: 'system',
+  none: 'none',
+};
+
+const toCount = (text: string, minimum: number): number => Math.max(minimum, parseInt(text, 10) || minimum);
+
+interface ReminderProfileFieldsProps {
+  profile: ReminderProfile;
+  onChange: (profile: ReminderProfile) => void;
+  /** Critical doses are never left out, so those choices are not offered */
+  critical?: boolean;
+}
+
+export const ReminderProfileFields: React.FC<ReminderProfileFieldsProps> = ({ profile, onChange, critical = false }) => (
+  <View>
+    <Text category="s1" style={styles.label}>{i18n.t('reminder_profiles.channel')}</Text>
+    <View style={styles.options}>
+      {REMINDER_CHANNELS.map(channel => (
+        <Button
+          key={channel}
+          size="small"
+          appearance={profile.channel === channel ? 'filled' : 'outline'}
+          onPress={() => onChange({ ...profile, channel })}
+        >
+          {i18n.t(`reminder_profiles.channels.${channel}`)}
+        </Button>
+      ))}
+    </View>
+
+    <Text category="s1" style={styles.label}>{i18n.t('reminder_profiles.sound')}</Text>
+    <View style={styles.options}>
+      {REMINDER_SOUNDS.map(sound => (
+        <Button
+          key={sound}
+          size="small"
+          appearance={profile.sound === sound ? 'filled' : 'outline'}
+          onPress={() => onChange({ ...profile, sound })}
+        >
+          {i18n.t(`reminder_profiles.sounds.${SOUND_LABELS[sound]}`)}
+        </Button>
+      ))}
+    </View>
+
+    <Toggle
+      checked={profile.repeatUntilAcknowledged}
+      onChange={repeatUntilAcknowledged => onChange({ ...profile, repeatUntilAcknowledged })}
+      style={styles.label}
+    >
+      {i18n.t('reminder_profiles.repeat')}
+    </Toggle>
+    {profile.repeatUntilAcknowledged && (
+      <View style={styles.inputs}>
+        <Input
+          label={i18n.t('reminder_profiles.repeat_every')}
+          value={String(profile.repeatEveryMinutes)}
+          onChangeText={text => onChange({ ...profile, repeatEveryMinutes: toCount(text, 1) })}
+          keyboardType="number-pad"
+          style={styles.input}
+        />
+        <Input
+          label={i18n.t('reminder_profiles.max_repeats')}
+          value={String(profile.maxRepeats)}
+          onChangeText={text => onChange({ ...profile, maxRepeats: toCount(text, 1) })}
+          keyboardType="number-pad"
+          style={styles.input}
+        />
+      </View>
+    )}
+
+    <Text category="s1" style={styles.label}>{i18n.t('reminder_profiles.quiet_hours')}</Text>
+    <View style={styles.options}>
+      {QUIET_HOURS_RULES.map(rule => (
+        <Button
+          key={rule}
+          size="small"
+          appearance={profile.quietHours === rule ? 'filled' : 'outline'}
+          disabled={critical && rule === 'skip'}
+          onPress={() => onChange({ ...profile, quietHours: rule })}
+        >
+          {i18n.t(`reminder_profiles.quiet_hours_rules.${rule}`)}
+        </Button>
+      ))}
+    </View>
+
+    {critical ? (
+      <Text category="c1" appearance="hint" style={styles.label}>
+        {i18n.t('reminder_profiles.critical_never_skipped')}
+      </Text>
+    ) : (
+      <Toggle
+        checked={profile.followWeekendSetting}
+        onChange={followWeekendSetting => onChange({ ...profile, followWeekendSetting })}
+        style={styles.label}
+      >
+        {i18n.t('reminder_profiles.follow_weekend')}
+      </Toggle>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  label: {
+    marginTop: Spacing.md,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  inputs: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+  },
+  input: {
+    width: '48%',
+  },
+});
+
+export default ReminderProfileFields;
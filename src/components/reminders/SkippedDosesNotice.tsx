@@ -0,0 +1,58 @@
+/**
+ * MedGuard SA - Skipped doses notice
+ * Tells the user which upcoming doses quiet hours or the weekend setting
+ * leave without a reminder.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { SkippedDose } from '../../utils/reminderPlanner';
+
+const SHOWN_DOSES = 3;
+
+interface SkippedDosesNoticeProps {
+  doses: SkippedDose[];
+}
+
+export const SkippedDosesNotice: React.FC<SkippedDosesNoticeProps> = ({ doses }) => {
+  if (doses.length === 0) return null;
+
+  return (
+    <View style={styles.notice}>
+      <Text category="s2" style={styles.title}>{i18n.t('reminder_profiles.skipped_title')}</Text>
+      {doses.slice(0, SHOWN_DOSES).map(dose => (
+        <Text key={`${dose.scheduleId}:${dose.doseTime}`} category="c1">
+          {i18n.t(`reminder_profiles.skipped_${dose.reason}`, {
+            medication: dose.medicationName,
+            time: `${i18n.formatDate(new Date(dose.doseTime), 'short')} ${i18n.formatTime(new Date(dose.doseTime))}`,
+          })}
+        </Text>
+      ))}
+      {doses.length > SHOWN_DOSES && (
+        <Text category="c1" appearance="hint">
+          {i18n.t('reminder_profiles.skipped_more', { count: doses.length - SHOWN_DOSES })}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  notice: {
+    marginTop: Spacing.md,
+    padding: Spacing.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: MedGuardColors.alerts.warningAmber,
+  },
+  title: {
+    color: MedGuardColors.alerts.warningAmber,
+    marginBottom: Spacing.xs,
+  },
+});
+
+export default SkippedDosesNotice;
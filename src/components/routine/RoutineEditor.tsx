@@ -0,0 +1,184 @@
+/**
+ * MedGuard SA - Daily routine editor
+ * Wake, meal and bed times of the usual day, the weekend and the shifts of
+ * a shift-work rotation. Used by onboarding and settings; times are checked
+ * with parseRoutineProfile when saved.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Datepicker, Input, Text, Toggle } from '@ui-kitten/components';
+import { format, parseISO } from 'date-fns';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import {
+  DEFAULT_SHIFT_ROUTINES,
+  DailyRoutine,
+  ROUTINE_EVENTS,
+  RoutineProfile,
+  SHIFT_KINDS,
+  ShiftKind,
+  ShiftWork,
+} from '../../types/routine';
+
+/** Three day shifts, two nights and two days off, to adjust from */
+const STARTING_CYCLE: ShiftKind[] = ['day', 'day', 'day', 'night', 'night', 'off', 'off'];
+
+const nextKind = (kind: ShiftKind): ShiftKind =>
+  SHIFT_KINDS[(SHIFT_KINDS.indexOf(kind) + 1) % SHIFT_KINDS.length] ?? 'off';
+
+interface DailyRoutineFieldsProps {
+  title: string;
+  routine: DailyRoutine;
+  onChange: (routine: DailyRoutine) => void;
+}
+
+const DailyRoutineFields: React.FC<DailyRoutineFieldsProps> = ({ title, routine, onChange }) => (
+  <View style={styles.section}>
+    <Text category="s1">{title}</Text>
+    <View style={styles.times}>
+      {ROUTINE_EVENTS.map(event => (
+        <Input
+          key={event}
+          label={i18n.t(`routine.events.${event}`)}
+          value={routine[event]}
+          placeholder="08:00"
+          onChangeText={time => onChange({ ...routine, [event]: time })}
+          style={styles.time}
+        />
+      ))}
+    </View>
+  </View>
+);
+
+interface RoutineEditorProps {
+  profile: RoutineProfile;
+  onChange: (profile: RoutineProfile) => void;
+}
+
+export const RoutineEditor: React.FC<RoutineEditorProps> = ({ profile, onChange }) => {
+  const { weekend, shiftWork, ...rest } = profile;
+
+  const setWeekend = (different: boolean) =>
+    onChange(different ? { ...profile, weekend: profile.usual } : { ...rest, ...(shiftWork && { shiftWork }) });
+
+  const setShifts = (shifts: boolean) =>
+    onChange(shifts
+      ? {
+        ...profile,
+        shiftWork: { startDate: format(new Date(), 'yyyy-MM-dd'), cycle: STARTING_CYCLE, ...DEFAULT_SHIFT_ROUTINES },
+      }
+      : { ...rest, ...(weekend && { weekend }) });
+
+  const changeShiftWork = (changes: Partial<ShiftWork>) => {
+    if (shiftWork) onChange({ ...profile, shiftWork: { ...shiftWork, ...changes } });
+  };
+
+  return (
+    <View>
+      <DailyRoutineFields
+        title={i18n.t('routine.usual')}
+        routine={profile.usual}
+        onChange={usual => onChange({ ...profile, usual })}
+      />
+
+      <Toggle checked={Boolean(weekend)} onChange={setWeekend} style={styles.toggle}>
+        {i18n.t('routine.different_weekends')}
+      </Toggle>
+      {weekend && (
+        <DailyRoutineFields
+          title={i18n.t('routine.weekend')}
+          routine={weekend}
+          onChange={next => onChange({ ...profile, weekend: next })}
+        />
+      )}
+
+      <Toggle checked={Boolean(shiftWork)} onChange={setShifts} style={styles.toggle}>
+        {i18n.t('routine.shift_work')}
+      </Toggle>
+      {shiftWork && (
+        <View style={styles.section}>
+          <Text category="c1" appearance="hint">{i18n.t('routine.cycle_hint')}</Text>
+          <View style={styles.cycle}>
+            {shiftWork.cycle.map((kind, index) => (
+              <Button
+                key={index}
+                size="tiny"
+                appearance={kind === 'off' ? 'outline' : 'filled'}
+                status={kind === 'night' ? 'info' : 'primary'}
+                onPress={() =>
+                  changeShiftWork({ cycle: shiftWork.cycle.map((item, i) => (i === index ? nextKind(item) : item)) })
+                }
+              >
+                {i18n.t(`routine.shift_short.${kind}`)}
+              </Button>
+            ))}
+            <Button
+              size="tiny"
+              appearance="ghost"
+              onPress={() => changeShiftWork({ cycle: [...shiftWork.cycle, 'off'] })}
+            >
+              +
+            </Button>
+            <Button
+              size="tiny"
+              appearance="ghost"
+              disabled={shiftWork.cycle.length <= 1}
+              onPress={() => changeShiftWork({ cycle: shiftWork.cycle.slice(0, -1) })}
+            >
+              −
+            </Button>
+          </View>
+          <Datepicker
+            label={i18n.t('routine.cycle_start')}
+            date={parseISO(shiftWork.startDate)}
+            onSelect={date => changeShiftWork({ startDate: format(date, 'yyyy-MM-dd') })}
+            style={styles.toggle}
+          />
+          <DailyRoutineFields
+            title={i18n.t('routine.day_shift')}
+            routine={shiftWork.day}
+            onChange={day => changeShiftWork({ day })}
+          />
+          <DailyRoutineFields
+            title={i18n.t('routine.night_shift')}
+            routine={shiftWork.night}
+            onChange={night => changeShiftWork({ night })}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: Spacing.md,
+    paddingLeft: Spacing.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: MedGuardColors.extended.lightGray,
+  },
+  times: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  time: {
+    width: 96,
+  },
+  toggle: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.md,
+  },
+  cycle: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+});
+
+export default RoutineEditor;
@@ -0,0 +1,139 @@
+/**
+ * MedGuard SA - Daily plan
+ * The day's timetable from the constraint solver: each dose at the time
+ * that keeps its meal and spacing rules, or the rules that can't all be kept
+ * when no such timetable exists.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Card, Text } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { DailyPlan, PlanRule, PlannedDose } from '../../utils/dailyPlan';
+
+interface DailyPlanCardProps {
+  plan: DailyPlan;
+}
+
+const describeRule = (rule: PlanRule, doses: PlannedDose[]): string => {
+  const dose = (id: string) => doses.find(d => d.id === id);
+  const label = (id: string) => {
+    const found = dose(id);
+    return found ? `${found.medicationName} (${found.time})` : id;
+  };
+  const hours = (minutes: number) => Math.round((minutes / 60) * 10) / 10;
+
+  switch (rule.type) {
+    case 'meal': {
+      const { relation, meal, minutes } = rule.constraint;
+      const key = relation === 'empty_stomach' && meal ? 'empty_stomach_meal' : relation;
+      return i18n.t(`daily_plan.rules.${key}`, {
+        medication: label(rule.doseId),
+        meal: i18n.t(`daily_plan.meals.${meal ?? 'any'}`),
+        minutes: minutes ?? 30,
+      });
+    }
+    case 'apart':
+      return i18n.t(`daily_plan.rules.apart_${rule.reason}`, {
+        first: label(rule.doseIds[0]),
+        second: rule.reason === 'constraint' ? rule.detail : label(rule.doseIds[1]),
+        other: label(rule.doseIds[1]),
+        hours: hours(rule.minutes),
+      });
+    case 'sequence':
+      return i18n.t('daily_plan.rules.sequence', {
+        medication: dose(rule.doseIds[0])?.medicationName ?? rule.doseIds[0],
+        first: dose(rule.doseIds[0])?.time ?? '',
+        second: dose(rule.doseIds[1])?.time ?? '',
+        hours: hours(rule.minutes),
+      });
+  }
+};
+
+export const DailyPlanCard: React.FC<DailyPlanCardProps> = ({ plan }) => {
+  if (plan.doses.length === 0) return null;
+
+  return (
+    <Card style={styles.card}>
+      <Text category="h6" style={styles.title}>
+        {i18n.t('daily_plan.title')}
+      </Text>
+      {plan.feasible ? (
+        <>
+          <Text category="c1" appearance="hint" style={styles.hint}>
+            {i18n.t('daily_plan.hint')}
+          </Text>
+          {plan.doses.map(dose => (
+            <View key={dose.id} style={styles.row}>
+              <Text category="s1" style={styles.time}>
+                {dose.plannedTime}
+              </Text>
+              <View style={styles.details}>
+                <Text category="p2">{`${dose.medicationName} - ${dose.dosage}`}</Text>
+                {dose.shiftMinutes !== 0 && (
+                  <Text category="c1" style={styles.moved}>
+                    {i18n.t('daily_plan.moved', { time: dose.time })}
+                  </Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </>
+      ) : (
+        <>
+          <Text category="p2" style={styles.infeasible}>
+            {i18n.t('daily_plan.infeasible')}
+          </Text>
+          {plan.conflicts.map((rule, index) => (
+            <Text key={index} category="p2" style={styles.conflict}>
+              {`• ${describeRule(rule, plan.doses)}`}
+            </Text>
+          ))}
+          <Text category="c1" appearance="hint" style={styles.hint}>
+            {i18n.t('daily_plan.infeasible_hint')}
+          </Text>
+        </>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: Spacing.xs,
+  },
+  time: {
+    width: 56,
+  },
+  details: {
+    flex: 1,
+  },
+  moved: {
+    color: MedGuardColors.primary.trustBlue,
+  },
+  infeasible: {
+    color: MedGuardColors.alerts.warningAmber,
+    marginBottom: Spacing.sm,
+  },
+  conflict: {
+    marginBottom: Spacing.xs,
+  },
+});
+
+export default DailyPlanCard;
@@ -0,0 +1,95 @@
+/**
+ * MedGuard SA - Dose time suggestions
+ * Explains when the user actually takes a dose and offers to move its time
+ * there, noting what kept the suggestion short of it.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Card, Text } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { DoseTimeSuggestion } from '../../utils/smartScheduler';
+
+interface DoseTimeSuggestionsProps {
+  suggestions: DoseTimeSuggestion[];
+  applying: boolean;
+  onApply: (suggestion: DoseTimeSuggestion) => void;
+}
+
+const formatDelay = (minutes: number): string => {
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  if (hours === 0) return i18n.t('dose_suggestions.minutes', { minutes: rest });
+  if (rest === 0) return i18n.t('dose_suggestions.hours', { hours });
+  return i18n.t('dose_suggestions.hours_minutes', { hours, minutes: rest });
+};
+
+export const DoseTimeSuggestions: React.FC<DoseTimeSuggestionsProps> = ({ suggestions, applying, onApply }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Card style={styles.card}>
+      <Text category="h6" style={styles.title}>
+        {i18n.t('dose_suggestions.title')}
+      </Text>
+      {suggestions.map(suggestion => {
+        const { pattern, suggestedTime, limitedBy } = suggestion;
+        return (
+          <View key={`${pattern.time}-${pattern.days}`} style={styles.suggestion}>
+            <Text category="p2">
+              {i18n.t(`dose_suggestions.${pattern.delayMinutes > 0 ? 'late' : 'early'}_${pattern.days}`, {
+                time: pattern.time,
+                delay: formatDelay(pattern.delayMinutes),
+                matching: pattern.matching,
+                samples: pattern.samples,
+              })}
+            </Text>
+            {limitedBy && (
+              <Text category="c1" appearance="hint" style={styles.limit}>
+                {i18n.t(`dose_suggestions.limited_${limitedBy}`)}
+              </Text>
+            )}
+            <Button
+              size="small"
+              appearance="outline"
+              disabled={applying}
+              onPress={() => onApply(suggestion)}
+              style={styles.apply}
+            >
+              {i18n.t(`dose_suggestions.move_${pattern.days}`, { time: suggestedTime })}
+            </Button>
+          </View>
+        );
+      })}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: Spacing.md,
+  },
+  title: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.sm,
+  },
+  suggestion: {
+    paddingVertical: Spacing.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: MedGuardColors.primary.trustBlue,
+    paddingLeft: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  limit: {
+    marginTop: Spacing.xs,
+  },
+  apply: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.sm,
+  },
+});
+
+export default DoseTimeSuggestions;
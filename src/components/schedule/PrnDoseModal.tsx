@@ -0,0 +1,226 @@
+/**
+ * MedGuard SA - As-needed dose modal
+ * Take-now flow for PRN schedules: shows use in the last 24 hours, warns
+ * before a spacing or daily limit is reached, and asks for the reason.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Dimensions, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  Divider,
+  IndexPath,
+  Modal,
+  Select,
+  SelectItem,
+  Text,
+} from '@ui-kitten/components';
+import { format } from 'date-fns';
+import { enZA, af } from 'date-fns/locale';
+import * as Haptics from 'expo-haptics';
+
+import { useMedications } from '../../contexts/MedicationContext';
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { PRN_REASONS, PrnWarning, PrnWarningType } from '../../types/prn';
+import { MedicationSchedule } from '../../types/schedule';
+import { checkPrnDose, isPrnLog } from '../../utils/prn';
+import { getDosageAt } from '../../utils/scheduleUtils';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const HISTORY_SIZE = 5;
+const BLOCKING_WARNINGS: PrnWarningType[] = ['too_soon', 'max_doses', 'max_amount'];
+
+interface PrnDoseModalProps {
+  schedule: MedicationSchedule | null;
+  onClose: () => void;
+}
+
+export const PrnDoseModal: React.FC<PrnDoseModalProps> = ({ schedule, onClose }) => {
+  const { getMedication, getMedicationLogs, logMedicationTaken } = useMedications();
+  const [reasonIndex, setReasonIndex] = useState<IndexPath>(new IndexPath(0));
+  const [saving, setSaving] = useState(false);
+
+  const locale = i18n.getCurrentLanguage() === 'af' ? af : enZA;
+
+  useEffect(() => {
+    setReasonIndex(new IndexPath(0));
+  }, [schedule?.id]);
+
+  const dosage = schedule ? getDosageAt(schedule, new Date()) : '';
+  const logs = schedule ? getMedicationLogs(schedule.medicationId) : [];
+  const strength = schedule ? getMedication(schedule.medicationId)?.strength : undefined;
+
+  const check = checkPrnDose(logs, schedule?.prnLimits, { dosage, ...(strength && { strength }) });
+  const history = logs.filter(isPrnLog).slice(0, HISTORY_SIZE);
+
+  const timeText = (iso: string) => format(new Date(iso), 'EEE HH:mm', { locale });
+
+  const warningText = (warning: PrnWarning): string =>
+    i18n.t(`prn.warnings.${warning.type}`, {
+      value: warning.value,
+      limit: warning.limit,
+      time: warning.availableAt ? timeText(warning.availableAt) : '',
+    });
+
+  const recordDose = async () => {
+    if (!schedule) return;
+    setSaving(true);
+    try {
+      await logMedicationTaken(schedule.medicationId, dosage, undefined, {
+        prn: true,
+        prnReason: PRN_REASONS[reasonIndex.row] ?? 'other',
+        scheduleId: schedule.id,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(i18n.t('common.success'), i18n.t('prn.dose_logged'));
+      onClose();
+    } catch (error) {
+      console.error('Log PRN dose error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Going over a limit needs a second, explicit confirmation
+  const confirmDose = () => {
+    if (!schedule) return;
+    if (check.withinLimits) {
+      recordDose();
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert(
+      i18n.t('prn.exceed_title'),
+      i18n.t('prn.exceed_message', { medication: schedule.medicationName }),
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        { text: i18n.t('prn.take_anyway'), style: 'destructive', onPress: recordDose },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={schedule !== null} backdropStyle={styles.backdrop} onBackdropPress={onClose}>
+      <Card disabled={true} style={styles.modal}>
+        <Text category="h6" style={styles.spaced}>
+          {i18n.t('prn.title')}
+        </Text>
+        {schedule && (
+          <Text category="s1" appearance="hint" style={styles.spaced}>
+            {`${schedule.medicationName} - ${dosage}`}
+          </Text>
+        )}
+
+        <Text category="p2">
+          {i18n.t('prn.usage_24h', { count: check.dosesIn24h })}
+          {check.amountIn24hMg !== null && check.amountIn24hMg > 0
+            ? ` (${i18n.t('prn.amount_mg', { amount: Math.round(check.amountIn24hMg) })})`
+            : ''}
+        </Text>
+        {check.lastDoseAt && (
+          <Text category="p2" appearance="hint">
+            {i18n.t('prn.last_dose', { time: timeText(check.lastDoseAt) })}
+          </Text>
+        )}
+
+        {check.warnings.map(warning => (
+          <Text
+            key={warning.type}
+            category="p2"
+            style={[styles.warning, BLOCKING_WARNINGS.includes(warning.type) && styles.blocking]}
+          >
+            {warningText(warning)}
+          </Text>
+        ))}
+        {check.nextAllowedAt && (
+          <Text category="s2" style={styles.blocking}>
+            {i18n.t('prn.next_allowed', { time: timeText(check.nextAllowedAt) })}
+          </Text>
+        )}
+
+        <Select
+          label={i18n.t('prn.reason')}
+          style={styles.reason}
+          selectedIndex={reasonIndex}
+          value={i18n.t(`prn.reasons.${PRN_REASONS[reasonIndex.row] ?? 'other'}`)}
+          onSelect={(index) => setReasonIndex(index as IndexPath)}
+        >
+          {PRN_REASONS.map(reason => (
+            <SelectItem key={reason} title={i18n.t(`prn.reasons.${reason}`)} />
+          ))}
+        </Select>
+
+        {history.length > 0 && (
+          <View style={styles.history}>
+            <Text category="s2" style={styles.spaced}>
+              {i18n.t('prn.history')}
+            </Text>
+            {history.map((log, index) => (
+              <View key={log.id}>
+                {index > 0 && <Divider />}
+                <View style={styles.historyRow}>
+                  <Text category="c1">{timeText(log.actualTime ?? log.createdAt)}</Text>
+                  <Text category="c1" appearance="hint">
+                    {`${log.dosage ?? ''} · ${i18n.t(`prn.reasons.${log.prnReason ?? 'other'}`)}`}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          <Button appearance="ghost" onPress={onClose}>
+            {i18n.t('common.cancel')}
+          </Button>
+          <Button status={check.withinLimits ? 'success' : 'danger'} disabled={saving} onPress={confirmDose}>
+            {i18n.t(check.withinLimits ? 'reminders.take_now' : 'prn.take_anyway')}
+          </Button>
+        </View>
+      </Card>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modal: {
+    width: screenWidth * 0.9,
+  },
+  spaced: {
+    marginBottom: Spacing.sm,
+  },
+  warning: {
+    marginTop: Spacing.sm,
+    color: MedGuardColors.alerts.warningAmber,
+  },
+  blocking: {
+    color: MedGuardColors.alerts.criticalRed,
+  },
+  reason: {
+    marginTop: Spacing.md,
+  },
+  history: {
+    marginTop: Spacing.md,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+});
+
+export default PrnDoseModal;
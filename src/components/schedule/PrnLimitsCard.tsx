@@ -0,0 +1,98 @@
+/**
+ * MedGuard SA - As-needed limits editor
+ * Spacing and 24-hour limits for PRN schedules, shared by the add and edit
+ * schedule screens.
+ */
+
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Card, Input, Text } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { PrnLimits, parsePrnLimits } from '../../types/prn';
+
+// Limit fields as typed; validated with parsePrnLimits on save
+export interface PrnLimitsDraft {
+  minIntervalHours: string;
+  maxDosesPer24h: string;
+  maxAmountPer24hMg: string;
+}
+
+export const EMPTY_PRN_LIMITS_DRAFT: PrnLimitsDraft = {
+  minIntervalHours: '',
+  maxDosesPer24h: '',
+  maxAmountPer24hMg: '',
+};
+
+export const toPrnLimitsDraft = (limits: PrnLimits | undefined): PrnLimitsDraft => ({
+  minIntervalHours: limits?.minIntervalMinutes ? String(limits.minIntervalMinutes / 60) : '',
+  maxDosesPer24h: limits?.maxDosesPer24h?.toString() ?? '',
+  maxAmountPer24hMg: limits?.maxAmountPer24hMg?.toString() ?? '',
+});
+
+export const fromPrnLimitsDraft = (draft: PrnLimitsDraft): PrnLimits => {
+  const hours = draft.minIntervalHours.trim().replace(',', '.');
+  return parsePrnLimits({
+    minIntervalMinutes: hours ? Number(hours) * 60 : undefined,
+    maxDosesPer24h: draft.maxDosesPer24h.trim(),
+    maxAmountPer24hMg: draft.maxAmountPer24hMg.trim().replace(',', '.'),
+  });
+};
+
+interface PrnLimitsCardProps {
+  draft: PrnLimitsDraft;
+  onChange: (draft: PrnLimitsDraft) => void;
+}
+
+export const PrnLimitsCard: React.FC<PrnLimitsCardProps> = ({ draft, onChange }) => (
+  <Card style={styles.card}>
+    <Text category="h6" style={styles.sectionTitle}>
+      {i18n.t('prn.limits')}
+    </Text>
+    <Text category="c1" appearance="hint" style={styles.input}>
+      {i18n.t('prn.limits_hint')}
+    </Text>
+
+    <Input
+      label={i18n.t('prn.min_interval_hours')}
+      placeholder="4"
+      value={draft.minIntervalHours}
+      onChangeText={minIntervalHours => onChange({ ...draft, minIntervalHours })}
+      keyboardType="decimal-pad"
+      style={styles.input}
+    />
+    <Input
+      label={i18n.t('prn.max_doses_24h')}
+      placeholder="4"
+      value={draft.maxDosesPer24h}
+      onChangeText={maxDosesPer24h => onChange({ ...draft, maxDosesPer24h })}
+      keyboardType="number-pad"
+      style={styles.input}
+    />
+    <Input
+      label={i18n.t('prn.max_amount_24h')}
+      placeholder="4000"
+      value={draft.maxAmountPer24hMg}
+      onChangeText={maxAmountPer24hMg => onChange({ ...draft, maxAmountPer24hMg })}
+      keyboardType="decimal-pad"
+      style={styles.input}
+    />
+  </Card>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    marginBottom: Spacing.md,
+  },
+});
+
+export default PrnLimitsCard;
@@ -18,24 +18,30 @@ import { enZA, af } from 'date-fns/locale';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
 import i18n from '../../i18n';
+import PhotoThumbnail from '../medications/PhotoThumbnail';
 
 // Types
-import { MedicationSchedule, ScheduledDose } from '../../types/schedule';
+import { ALL_DAYS, MedicationSchedule, ScheduledDose, isAsNeededSchedule } from '../../types/schedule';
+import { getActivePhase } from '../../utils/scheduleUtils';
 
 interface ScheduleCardProps {
   item: MedicationSchedule;
   index?: number;
-  onPress: (scheduleId: number) => void;
+  onPress: (scheduleId: string) => void;
+  /** Offered on active as-needed schedules */
+  onTakeNow?: (schedule: MedicationSchedule) => void;
 }
 
 interface DoseCardProps {
   item: ScheduledDose;
   index?: number;
   onMarkTaken: (dose: ScheduledDose) => Promise<void>;
+  onSkip?: (dose: ScheduledDose) => void;
 }
 
 const EditIcon = (props: any) => <Icon {...props} name='edit-outline' />;
 const CheckIcon = (props: any) => <Icon {...props} name='checkmark-circle-2-outline' />;
+const SkipIcon = (props: any) => <Icon {...props} name='skip-forward-outline' />;
 
 /**
  * Memoized schedule card component for optimized FlatList rendering
@@ -43,21 +49,29 @@ const CheckIcon = (props: any) => <Icon {...props} name='checkmark-circle-2-outl
 export const ScheduleCard: React.FC<ScheduleCardProps> = memo(({ 
   item, 
   index, 
-  onPress 
+  onPress,
+  onTakeNow,
 }) => {
   // Memoize active days calculation
   const activeDays = useMemo(() => {
-    const days = [
-      item.monday && 'Mon',
-      item.tuesday && 'Tue', 
-      item.wednesday && 'Wed',
-      item.thursday && 'Thu',
-      item.friday && 'Fri',
-      item.saturday && 'Sat',
-      item.sunday && 'Sun',
-    ].filter(Boolean);
+    const flags = item.pattern.daysOfWeek ?? ALL_DAYS;
+    // Week starts on Monday for display; flags are indexed Sun..Sat
+    const days = [1, 2, 3, 4, 5, 6, 0]
+      .filter(day => flags[day])
+      .map(day => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day]);
     return days.join(', ');
-  }, [item.monday, item.tuesday, item.wednesday, item.thursday, item.friday, item.saturday, item.sunday]);
+  }, [item.pattern.daysOfWeek]);
+
+  // Tapering schedules show the dosage of the phase in effect today
+  const dosageText = useMemo(() => {
+    const active = getActivePhase(item, new Date());
+    if (!active) return item.dosage;
+    const progress = i18n.t('schedule.phase_progress', {
+      current: active.index + 1,
+      total: item.phases?.length ?? 1,
+    });
+    return `${active.phase.dosage} (${progress})`;
+  }, [item]);
 
   const statusColor = useMemo(() => 
     item.status === 'active' 
@@ -71,23 +85,45 @@ export const ScheduleCard: React.FC<ScheduleCardProps> = memo(({
     [item.id, onPress]
   );
 
+  const handleTakeNow = useMemo(() => 
+    () => onTakeNow?.(item), 
+    [item, onTakeNow]
+  );
+
+  const canTakeNow = Boolean(onTakeNow) && item.status === 'active' && isAsNeededSchedule(item);
+
   return (
     <ListItem
-      title={item.medication.name}
-      description={`${item.dosageAmount} - ${item.frequency}\n${activeDays}`}
+      title={item.medicationName}
+      description={`${dosageText} - ${i18n.t(`schedule.${item.frequency}`)}\n${activeDays}`}
       accessoryLeft={() => (
-        <View style={[
-          styles.statusIndicator,
-          { backgroundColor: statusColor }
-        ]} />
+        <View style={styles.scheduleLeft}>
+          <View style={[
+            styles.statusIndicator,
+            { backgroundColor: statusColor }
+          ]} />
+          <PhotoThumbnail medicationId={item.medicationId} size={40} />
+        </View>
       )}
       accessoryRight={() => (
-        <Button
-          size="tiny"
-          appearance="ghost"
-          accessoryLeft={EditIcon}
-          onPress={handlePress}
-        />
+        <View style={styles.doseActions}>
+          {canTakeNow && (
+            <Button
+              size="small"
+              status="success"
+              accessoryLeft={CheckIcon}
+              onPress={handleTakeNow}
+            >
+              {i18n.t('reminders.take_now')}
+            </Button>
+          )}
+          <Button
+            size="tiny"
+            appearance="ghost"
+            accessoryLeft={EditIcon}
+            onPress={handlePress}
+          />
+        </View>
       )}
       onPress={handlePress}
       style={styles.scheduleItem}
@@ -101,29 +137,33 @@ export const ScheduleCard: React.FC<ScheduleCardProps> = memo(({
 export const DoseCard: React.FC<DoseCardProps> = memo(({ 
   item, 
   index, 
-  onMarkTaken 
+  onMarkTaken,
+  onSkip,
 }) => {
   const locale = i18n.getCurrentLanguage() === 'af' ? af : enZA;
 
   const statusColor = useMemo(() => {
     switch (item.status) {
-      case 'taken': return MedGuardColors.alerts.successGreen;
-      case 'upcoming': return MedGuardColors.primary.trustBlue;
-      case 'overdue': return MedGuardColors.alerts.criticalRed;
-      case 'missed': return MedGuardColors.alerts.warningAmber;
+      case 'taken':
+      case 'late': return MedGuardColors.alerts.successGreen;
+      case 'pending': return item.isOverdue ? MedGuardColors.alerts.criticalRed : MedGuardColors.primary.trustBlue;
+      case 'missed':
+      case 'partial': return MedGuardColors.alerts.warningAmber;
       default: return MedGuardColors.extended.mediumGray;
     }
-  }, [item.status]);
+  }, [item.status, item.isOverdue]);
 
   const statusText = useMemo(() => {
     switch (item.status) {
       case 'taken': return i18n.t('schedule.taken_today');
-      case 'upcoming': return i18n.t('schedule.upcoming_doses');
-      case 'overdue': return i18n.t('reminders.overdue_medication');
+      case 'pending': return item.isOverdue ? i18n.t('reminders.overdue_medication') : i18n.t('schedule.upcoming_doses');
       case 'missed': return i18n.t('schedule.missed_doses');
+      case 'late': return i18n.t('reminders.taken_late');
+      case 'partial': return i18n.t('reminders.taken_partial');
+      case 'skipped': return i18n.t('reminders.dose_skipped');
       default: return '';
     }
-  }, [item.status]);
+  }, [item.status, item.isOverdue]);
 
   const timeText = useMemo(() => 
     format(item.scheduledTime, 'HH:mm', { locale }), 
@@ -131,8 +171,8 @@ export const DoseCard: React.FC<DoseCardProps> = memo(({
   );
 
   const description = useMemo(() => 
-    `${item.dosageAmount} at ${timeText}${item.instructions ? `\n${item.instructions}` : ''}`,
-    [item.dosageAmount, timeText, item.instructions]
+    `${item.dosage} at ${timeText}${item.instructions ? `\n${item.instructions}` : ''}`,
+    [item.dosage, timeText, item.instructions]
   );
 
   const handleMarkTaken = useMemo(() => 
@@ -140,6 +180,14 @@ export const DoseCard: React.FC<DoseCardProps> = memo(({
     [item, onMarkTaken]
   );
 
+  const handleSkip = useMemo(() => 
+    () => onSkip?.(item), 
+    [item, onSkip]
+  );
+
+  // Missed doses can still be taken late
+  const canRecord = item.status === 'pending' || item.status === 'missed';
+
   return (
     <ListItem
       title={item.medicationName}
@@ -147,22 +195,34 @@ export const DoseCard: React.FC<DoseCardProps> = memo(({
       accessoryLeft={() => (
         <View style={[styles.doseStatusIndicator, { backgroundColor: statusColor }]}>
           <Icon
-            name={item.status === 'taken' ? 'checkmark' : 'clock'}
+            name={item.status === 'taken' || item.status === 'late' || item.status === 'partial' ? 'checkmark' : 'clock'}
             style={styles.doseStatusIcon}
             fill={MedGuardColors.primary.cleanWhite}
           />
         </View>
       )}
       accessoryRight={() => (
-        item.status === 'upcoming' || item.status === 'overdue' ? (
-          <Button
-            size="small"
-            status="success"
-            accessoryLeft={CheckIcon}
-            onPress={handleMarkTaken}
-          >
-            {i18n.t('reminders.take_now')}
-          </Button>
+        canRecord ? (
+          <View style={styles.doseActions}>
+            {onSkip && (
+              <Button
+                size="small"
+                appearance="ghost"
+                status="basic"
+                accessoryLeft={SkipIcon}
+                accessibilityLabel={i18n.t('reminders.skip_dose')}
+                onPress={handleSkip}
+              />
+            )}
+            <Button
+              size="small"
+              status="success"
+              accessoryLeft={CheckIcon}
+              onPress={handleMarkTaken}
+            >
+              {i18n.t(item.status === 'missed' ? 'reminders.take_late' : 'reminders.take_now')}
+            </Button>
+          </View>
         ) : (
           <Text 
             category="caption1" 
@@ -186,6 +246,11 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.md,
     paddingHorizontal: Spacing.md,
   },
+  scheduleLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: Spacing.sm,
+  },
   statusIndicator: {
     width: 12,
     height: 12,
@@ -208,6 +273,10 @@ const styles = StyleSheet.create({
     width: 20,
     height: 20,
   },
+  doseActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
 });
 
 export default ScheduleCard;
@@ -0,0 +1,140 @@
+/**
+ * MedGuard SA - Paste instructions
+ * Reads dosing instructions copied from a label or script ("1 tab tds pc")
+ * with the sig parser and hands the result to the schedule form, showing
+ * how sure the parser was and what it couldn't read.
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Card, Input, Text } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { DailyRoutine } from '../../types/routine';
+import { REVIEW_CONFIDENCE } from '../../utils/prescriptionOcr';
+import { ParsedSig, parseSig } from '../../utils/sigParser';
+
+type DescribedSchedule = Pick<ParsedSig, 'dosage' | 'timing' | 'foodRequirement' | 'timingConstraints'> & {
+  frequency: NonNullable<ParsedSig['frequency']>;
+  pattern: NonNullable<ParsedSig['pattern']>;
+};
+
+/** One line for a schedule read from a sig, e.g. "1 tablet · Twice Daily · after meals" */
+export const describeSigSchedule = (schedule: DescribedSchedule): string => {
+  const { pattern } = schedule;
+  const meal = schedule.timingConstraints?.find(constraint => constraint.type === 'meal');
+  const everyDays = /FREQ=DAILY;INTERVAL=(\d+)/.exec(pattern.rrules?.[0] ?? '')?.[1];
+  const frequency = everyDays
+    ? i18n.t('sig_parser.every_days', { count: Number(everyDays) })
+    : schedule.frequency !== 'as_needed' && pattern.times.length > 3
+      ? i18n.t('sig_parser.times_a_day', { count: pattern.times.length })
+      : i18n.t(`schedule.${schedule.frequency}`);
+  const when =
+    schedule.frequency === 'as_needed'
+      ? ''
+      : schedule.timing === 'custom'
+        ? pattern.times.join(', ')
+        : schedule.frequency === 'daily' || schedule.frequency === 'weekly'
+          ? i18n.t(`schedule.${schedule.timing}`)
+          : '';
+  return [
+    schedule.dosage,
+    frequency,
+    when,
+    meal?.type === 'meal' ? i18n.t(`prescription_import.meal.${meal.relation}`) : '',
+    !meal && schedule.foodRequirement ? i18n.t(`sig_parser.food.${schedule.foodRequirement}`) : '',
+    pattern.duration ? i18n.t('sig_parser.for_days', { count: pattern.duration }) : '',
+  ].filter(Boolean).join(' · ');
+};
+
+/** What the parser couldn't be sure of, one line each */
+export const describeSigAmbiguities = (sig: Pick<ParsedSig, 'ambiguities'>): string[] =>
+  sig.ambiguities.map(ambiguity => i18n.t(`sig_parser.ambiguities.${ambiguity.type}`, { text: ambiguity.text ?? '' }));
+
+interface SigPasteCardProps {
+  routine: DailyRoutine;
+  startDate: Date;
+  onApply: (sig: ParsedSig, text: string) => void;
+}
+
+export const SigPasteCard: React.FC<SigPasteCardProps> = ({ routine, startDate, onApply }) => {
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedSig | null>(null);
+
+  const read = () => {
+    const sig = parseSig(text, { routine, startDate });
+    setParsed(sig);
+    onApply(sig, text.trim());
+  };
+
+  const unsure = parsed !== null && parsed.confidence < REVIEW_CONFIDENCE;
+
+  return (
+    <Card style={styles.card}>
+      <Text category="h6" style={styles.sectionTitle}>
+        {i18n.t('sig_parser.title')}
+      </Text>
+      <Text category="c1" appearance="hint" style={styles.input}>
+        {i18n.t('sig_parser.hint')}
+      </Text>
+
+      <Input
+        placeholder={i18n.t('sig_parser.placeholder')}
+        value={text}
+        onChangeText={setText}
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        style={styles.input}
+      />
+      <Button size="small" appearance="outline" onPress={read} disabled={!text.trim()}>
+        {i18n.t('sig_parser.read')}
+      </Button>
+
+      {parsed && (
+        <View style={styles.result}>
+          <Text category="s2">
+            {parsed.frequency && parsed.pattern
+              ? describeSigSchedule({ ...parsed, frequency: parsed.frequency, pattern: parsed.pattern })
+              : i18n.t('sig_parser.no_schedule')}
+          </Text>
+          <Text
+            category="c1"
+            style={[styles.confidence, { color: unsure ? MedGuardColors.alerts.warningAmber : MedGuardColors.alerts.successGreen }]}
+          >
+            {i18n.t(unsure ? 'sig_parser.check' : 'sig_parser.confident', {
+              confidence: Math.round(parsed.confidence * 100),
+            })}
+          </Text>
+          {describeSigAmbiguities(parsed).map((line, index) => (
+            <Text key={index} category="c1" appearance="hint">
+              • {line}
+            </Text>
+          ))}
+        </View>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    marginBottom: Spacing.md,
+  },
+  result: {
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  confidence: {
+    marginBottom: Spacing.xs,
+  },
+});
@@ -0,0 +1,54 @@
+/**
+ * MedGuard SA - Gradual time shift proposal
+ * Shows how a time-critical medication's doses would move to local time a
+ * step a day, and lets the user choose that over moving in one go.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text, Toggle } from '@ui-kitten/components';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { ShiftPlanDay } from '../../utils/travel';
+
+interface ShiftPlanProposalProps {
+  medicationName: string;
+  plan: ShiftPlanDay[];
+  accepted: boolean;
+  onChange: (accepted: boolean) => void;
+}
+
+export const ShiftPlanProposal: React.FC<ShiftPlanProposalProps> = ({ medicationName, plan, accepted, onChange }) => (
+  <View style={styles.proposal}>
+    <Text category="s1">{medicationName}</Text>
+    <Text category="c1" appearance="hint">{i18n.t('travel.shift_days', { count: plan.length })}</Text>
+    {plan.map(({ day, times }) => (
+      <Text key={day.toISOString()} category="c1">
+        {i18n.t('travel.shift_day', {
+          date: i18n.formatDate(day, 'short'),
+          times: times.map(time => i18n.formatTime(time)).join(', '),
+        })}
+      </Text>
+    ))}
+    <Toggle checked={accepted} onChange={onChange} style={styles.toggle}>
+      {i18n.t('travel.shift_gradually')}
+    </Toggle>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  proposal: {
+    marginTop: Spacing.md,
+    padding: Spacing.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: MedGuardColors.alerts.warningAmber,
+  },
+  toggle: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.sm,
+  },
+});
+
+export default ShiftPlanProposal;
@@ -84,6 +84,12 @@ const defaultTranslations = {
       support: 'Support',
       about: 'About',
     },
+    linkedProfiles: {
+      title: 'Profiles',
+      myProfile: 'My medication',
+      viewOnly: '{{name}} (view only)',
+      showing: 'Showing medication for {{name}}',
+    },
     auth: {
       welcome: 'Welcome to MedGuard SA',
       loginTitle: 'Sign In',
@@ -280,6 +286,12 @@ const defaultTranslations = {
       support: 'Ondersteuning',
       about: 'Aangaande',
     },
+    linkedProfiles: {
+      title: 'Profiele',
+      myProfile: 'My medikasie',
+      viewOnly: '{{name}} (slegs lees)',
+      showing: 'Wys medikasie vir {{name}}',
+    },
     auth: {
       welcome: 'Welkom by MedGuard SA',
       loginTitle: 'Teken in',
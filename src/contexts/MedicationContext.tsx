@@ -1,55 +1,43 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-export interface Medication {
-  id: string;
-  name: string;
-  genericName?: string;
-  dosage: string;
-  frequency: string;
-  instructions: string;
-  startDate: string;
-  endDate?: string;
-  status: 'active' | 'inactive' | 'completed' | 'discontinued';
-  prescribedBy?: string;
-  pharmacy?: string;
-  prescriptionImage?: string;
-  sideEffects?: string[];
-  interactions?: string[];
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface MedicationReminder {
-  id: string;
-  medicationId: string;
-  time: string; // HH:mm format
-  days: string[]; // ['monday', 'tuesday', etc.]
-  enabled: boolean;
-  notificationId?: string;
-  createdAt: string;
-}
-
-export interface MedicationLog {
-  id: string;
-  medicationId: string;
-  takenAt: string;
-  dosage: string;
-  notes?: string;
-  createdAt: string;
-}
+import { DoseLog, Medication, MedicationInput, MedicationReminder } from '../types/medication';
+import { DrugInteraction } from '../types/interaction';
+import { PrnReason } from '../types/prn';
+import { LinkedProfile, canManageProfile } from '../types/profile';
+import { SyncEntity, SyncJournalEntry } from '../types/sync';
+import apiService from '../services/apiService';
+import interactionService from '../services/interactionService';
+import inventoryService from '../services/inventoryService';
+import profileService from '../services/profileService';
+import syncService from '../services/syncService';
+
+export type { DoseLog, Medication, MedicationReminder } from '../types/medication';
 
 export interface MedicationState {
   medications: Medication[];
   reminders: MedicationReminder[];
-  logs: MedicationLog[];
+  logs: DoseLog[];
   isLoading: boolean;
   error: string | null;
+  lastSync: SyncJournalEntry | null;
+  /** Dependant whose medication is shown; null for the user's own */
+  profile: LinkedProfile | null;
+  dependants: LinkedProfile[];
+}
+
+/** Extra detail for doses logged outside a schedule slot */
+export interface LogDoseOptions {
+  /** Taken as needed rather than at a scheduled time */
+  prn?: boolean;
+  prnReason?: PrnReason;
+  scheduleId?: string;
 }
 
 export interface MedicationContextType extends MedicationState {
-  addMedication: (medication: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string>;
+  /** False while a dependant is shown with view-only access */
+  canEdit: boolean;
+  switchProfile: (patientId: number | null) => Promise<void>;
+  addMedication: (medication: MedicationInput) => Promise<string>;
   updateMedication: (id: string, updates: Partial<Medication>) => Promise<void>;
   deleteMedication: (id: string) => Promise<void>;
   getMedication: (id: string) => Medication | undefined;
@@ -58,13 +46,31 @@ export interface MedicationContextType extends MedicationState {
   updateReminder: (id: string, updates: Partial<MedicationReminder>) => Promise<void>;
   deleteReminder: (id: string) => Promise<void>;
   getRemindersForMedication: (medicationId: string) => MedicationReminder[];
-  logMedicationTaken: (medicationId: string, dosage: string, notes?: string) => Promise<string>;
-  getMedicationLogs: (medicationId: string, days?: number) => MedicationLog[];
-  checkDrugInteractions: (medicationIds: string[]) => Promise<string[]>;
-  syncWithBackend: () => Promise<void>;
+  logMedicationTaken: (medicationId: string, dosage: string, notes?: string, options?: LogDoseOptions) => Promise<string>;
+  getMedicationLogs: (medicationId: string, days?: number) => DoseLog[];
+  checkDrugInteractions: (medicationIds: string[]) => Promise<DrugInteraction[]>;
+  syncWithBackend: () => Promise<SyncJournalEntry | null>;
   clearAllData: () => Promise<void>;
 }
 
+// Keys used before the local store was shared with ApiService, and the
+// user's own keys they moved to
+const LEGACY_KEYS: [string, string][] = [
+  ['medications', apiService.getStorageKey('medications', null)],
+  ['medication_logs', apiService.getStorageKey('logs', null)],
+];
+
+// Shared with ApiService and the sync engine so all three see one replica;
+// looked up on each write as they change with the profile shown
+const storageKey = (entity: SyncEntity): string => apiService.getStorageKey(entity);
+
+const assertCanEdit = (): void => {
+  const profile = profileService.getActiveProfile();
+  if (!canManageProfile(profile)) {
+    throw new Error(`View-only access to ${profile?.name}`);
+  }
+};
+
 const MedicationContext = createContext<MedicationContextType | undefined>(undefined);
 
 interface MedicationProviderProps {
@@ -78,27 +84,43 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
     logs: [],
     isLoading: true,
     error: null,
+    lastSync: null,
+    profile: profileService.getActiveProfile(),
+    dependants: [],
   });
 
   useEffect(() => {
     loadStoredData();
+    profileService.refreshLinkedAccounts().then(accounts => {
+      setState(prev => ({ ...prev, dependants: accounts.dependants }));
+    });
+
+    // Everything shown belongs to the active profile, so reload on a switch
+    return profileService.subscribe(profile => {
+      setState(prev => ({ ...prev, profile }));
+      syncWithBackend();
+    });
   }, []);
 
   const loadStoredData = async () => {
     try {
       setState(prev => ({ ...prev, isLoading: true }));
 
-      const [medications, reminders, logs] = await Promise.all([
-        AsyncStorage.getItem('medications'),
-        AsyncStorage.getItem('medication_reminders'),
-        AsyncStorage.getItem('medication_logs'),
+      await migrateLegacyStorage();
+
+      const [medications, reminders, logs, journal] = await Promise.all([
+        syncService.loadRecords('medications'),
+        syncService.loadRecords('reminders'),
+        syncService.loadRecords('logs'),
+        syncService.getJournal(),
       ]);
 
       setState(prev => ({
         ...prev,
-        medications: medications ? JSON.parse(medications) : [],
-        reminders: reminders ? JSON.parse(reminders) : [],
-        logs: logs ? JSON.parse(logs) : [],
+        medications: medications as Medication[],
+        reminders: reminders as MedicationReminder[],
+        logs: logs as DoseLog[],
+        lastSync: journal[0] ?? null,
         isLoading: false,
       }));
     } catch (error) {
@@ -111,10 +133,20 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
     }
   };
 
-  const addMedication = async (
-    medication: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<string> => {
+  const migrateLegacyStorage = async (): Promise<void> => {
+    for (const [legacyKey, key] of LEGACY_KEYS) {
+      const legacy = await AsyncStorage.getItem(legacyKey);
+      if (legacy === null) continue;
+      if ((await AsyncStorage.getItem(key)) === null) {
+        await AsyncStorage.setItem(key, legacy);
+      }
+      await AsyncStorage.removeItem(legacyKey);
+    }
+  };
+
+  const addMedication = async (medication: MedicationInput): Promise<string> => {
     try {
+      assertCanEdit();
       const id = `medication_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const now = new Date().toISOString();
 
@@ -133,7 +165,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         error: null,
       }));
 
-      await AsyncStorage.setItem('medications', JSON.stringify(updatedMedications));
+      await AsyncStorage.setItem(storageKey('medications'), JSON.stringify(updatedMedications));
+      await syncService.trackChange('medications', 'create', id, newMedication);
 
       return id;
     } catch (error) {
@@ -148,6 +181,7 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
 
   const updateMedication = async (id: string, updates: Partial<Medication>): Promise<void> => {
     try {
+      assertCanEdit();
       const updatedMedications = state.medications.map(medication =>
         medication.id === id
           ? { ...medication, ...updates, updatedAt: new Date().toISOString() }
@@ -160,7 +194,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         error: null,
       }));
 
-      await AsyncStorage.setItem('medications', JSON.stringify(updatedMedications));
+      await AsyncStorage.setItem(storageKey('medications'), JSON.stringify(updatedMedications));
+      await syncService.trackChange('medications', 'update', id, updates);
     } catch (error) {
       console.error('Error updating medication:', error);
       setState(prev => ({
@@ -172,6 +207,7 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
 
   const deleteMedication = async (id: string): Promise<void> => {
     try {
+      assertCanEdit();
       // Remove medication
       const updatedMedications = state.medications.filter(medication => medication.id !== id);
       
@@ -190,10 +226,12 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
       }));
 
       await Promise.all([
-        AsyncStorage.setItem('medications', JSON.stringify(updatedMedications)),
-        AsyncStorage.setItem('medication_reminders', JSON.stringify(updatedReminders)),
-        AsyncStorage.setItem('medication_logs', JSON.stringify(updatedLogs)),
+        AsyncStorage.setItem(storageKey('medications'), JSON.stringify(updatedMedications)),
+        AsyncStorage.setItem(storageKey('reminders'), JSON.stringify(updatedReminders)),
+        AsyncStorage.setItem(storageKey('logs'), JSON.stringify(updatedLogs)),
       ]);
+      // The server removes dependent reminders and logs with the medication
+      await syncService.trackChange('medications', 'delete', id);
     } catch (error) {
       console.error('Error deleting medication:', error);
       setState(prev => ({
@@ -215,6 +253,7 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
     reminder: Omit<MedicationReminder, 'id' | 'createdAt'>
   ): Promise<string> => {
     try {
+      assertCanEdit();
       const id = `reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const now = new Date().toISOString();
 
@@ -232,7 +271,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         error: null,
       }));
 
-      await AsyncStorage.setItem('medication_reminders', JSON.stringify(updatedReminders));
+      await AsyncStorage.setItem(storageKey('reminders'), JSON.stringify(updatedReminders));
+      await syncService.trackChange('reminders', 'create', id, newReminder);
 
       return id;
     } catch (error) {
@@ -247,8 +287,9 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
 
   const updateReminder = async (id: string, updates: Partial<MedicationReminder>): Promise<void> => {
     try {
+      assertCanEdit();
       const updatedReminders = state.reminders.map(reminder =>
-        reminder.id === id ? { ...reminder, ...updates } : reminder
+        reminder.id === id ? { ...reminder, ...updates, updatedAt: new Date().toISOString() } : reminder
       );
 
       setState(prev => ({
@@ -257,7 +298,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         error: null,
       }));
 
-      await AsyncStorage.setItem('medication_reminders', JSON.stringify(updatedReminders));
+      await AsyncStorage.setItem(storageKey('reminders'), JSON.stringify(updatedReminders));
+      await syncService.trackChange('reminders', 'update', id, updates);
     } catch (error) {
       console.error('Error updating reminder:', error);
       setState(prev => ({
@@ -269,6 +311,7 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
 
   const deleteReminder = async (id: string): Promise<void> => {
     try {
+      assertCanEdit();
       const updatedReminders = state.reminders.filter(reminder => reminder.id !== id);
 
       setState(prev => ({
@@ -277,7 +320,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         error: null,
       }));
 
-      await AsyncStorage.setItem('medication_reminders', JSON.stringify(updatedReminders));
+      await AsyncStorage.setItem(storageKey('reminders'), JSON.stringify(updatedReminders));
+      await syncService.trackChange('reminders', 'delete', id);
     } catch (error) {
       console.error('Error deleting reminder:', error);
       setState(prev => ({
@@ -294,30 +338,41 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
   const logMedicationTaken = async (
     medicationId: string,
     dosage: string,
-    notes?: string
+    notes?: string,
+    options: LogDoseOptions = {}
   ): Promise<string> => {
     try {
-      const id = `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
-
-      const newLog: MedicationLog = {
-        id,
+      assertCanEdit();
+      // Through ApiService, which adds the log to the stored replica as it
+      // is now rather than as this render last saw it
+      const result = await apiService.createLog({
         medicationId,
-        takenAt: now,
+        ...(options.scheduleId && { scheduleId: options.scheduleId }),
+        actualTime: new Date().toISOString(),
+        status: 'taken',
         dosage,
+        ...(options.prn && { prn: true }),
+        ...(options.prn && options.prnReason && { prnReason: options.prnReason }),
         ...(notes && { notes }),
-        createdAt: now,
-      };
+      });
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      const { id } = result.data;
 
-      const updatedLogs = [...state.logs, newLog];
-      
       setState(prev => ({
         ...prev,
-        logs: updatedLogs,
+        logs: [...prev.logs, result.data],
         error: null,
       }));
 
-      await AsyncStorage.setItem('medication_logs', JSON.stringify(updatedLogs));
+      const updated = await inventoryService.recordDose(medicationId, id, dosage);
+      if (updated) {
+        setState(prev => ({
+          ...prev,
+          medications: prev.medications.map(medication => (medication.id === medicationId ? updated : medication)),
+        }));
+      }
 
       return id;
     } catch (error) {
@@ -330,53 +385,38 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
     }
   };
 
-  const getMedicationLogs = (medicationId: string, days?: number): MedicationLog[] => {
+  const getMedicationLogs = (medicationId: string, days?: number): DoseLog[] => {
+    const logTime = (log: DoseLog) => new Date(log.actualTime ?? log.scheduledTime ?? log.createdAt).getTime();
     let filteredLogs = state.logs.filter(log => log.medicationId === medicationId);
 
     if (days) {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - days);
-      filteredLogs = filteredLogs.filter(log => new Date(log.takenAt) >= cutoffDate);
+      filteredLogs = filteredLogs.filter(log => logTime(log) >= cutoffDate.getTime());
     }
 
-    return filteredLogs.sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
+    return filteredLogs.sort((a, b) => logTime(b) - logTime(a));
   };
 
-  const checkDrugInteractions = async (medicationIds: string[]): Promise<string[]> => {
-    try {
-      // TODO: Implement actual drug interaction checking with backend API
-      // For now, return mock interactions
-      const interactions: string[] = [];
-      
-      if (medicationIds.length > 1) {
-        interactions.push('Potential interaction detected between selected medications');
-        interactions.push('Consult your healthcare provider for guidance');
-      }
-
-      return interactions;
-    } catch (error) {
-      console.error('Error checking drug interactions:', error);
-      return ['Error checking drug interactions'];
-    }
+  const checkDrugInteractions = async (medicationIds: string[]): Promise<DrugInteraction[]> => {
+    const selected = state.medications.filter(medication => medicationIds.includes(medication.id));
+    return interactionService.checkAll(selected);
   };
 
-  const syncWithBackend = async (): Promise<void> => {
+  const syncWithBackend = async (): Promise<SyncJournalEntry | null> => {
     try {
       setState(prev => ({ ...prev, isLoading: true }));
 
-      // TODO: Implement actual backend sync
-      // This would typically involve:
-      // 1. Fetching updated medication data from backend
-      // 2. Sending local changes to backend
-      // 3. Resolving conflicts
-      // 4. Updating local storage
-
-      console.log('Syncing with backend...');
-      
-      // Simulate sync delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Push tracked changes, pull deltas and merge into the shared store
+      const entry = await syncService.sync();
+      await loadStoredData();
 
-      setState(prev => ({ ...prev, isLoading: false, error: null }));
+      setState(prev => ({
+        ...prev,
+        lastSync: entry,
+        error: entry.status === 'failed' ? 'Failed to sync with backend' : null,
+      }));
+      return entry;
     } catch (error) {
       console.error('Error syncing with backend:', error);
       setState(prev => ({
@@ -384,23 +424,38 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
         isLoading: false,
         error: 'Failed to sync with backend',
       }));
+      return null;
+    }
+  };
+
+  const switchProfile = async (patientId: number | null): Promise<void> => {
+    try {
+      await profileService.switchProfile(patientId);
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      setState(prev => ({
+        ...prev,
+        error: 'Failed to switch profile',
+      }));
     }
   };
 
   const clearAllData = async (): Promise<void> => {
     try {
-      setState({
+      setState(prev => ({
+        ...prev,
         medications: [],
         reminders: [],
         logs: [],
         isLoading: false,
         error: null,
-      });
+        lastSync: null,
+      }));
 
       await Promise.all([
-        AsyncStorage.removeItem('medications'),
-        AsyncStorage.removeItem('medication_reminders'),
-        AsyncStorage.removeItem('medication_logs'),
+        AsyncStorage.removeItem(storageKey('medications')),
+        AsyncStorage.removeItem(storageKey('reminders')),
+        AsyncStorage.removeItem(storageKey('logs')),
       ]);
     } catch (error) {
       console.error('Error clearing medication data:', error);
@@ -413,6 +468,8 @@ export const MedicationProvider: React.FC<MedicationProviderProps> = ({ children
 
   const value: MedicationContextType = {
     ...state,
+    canEdit: canManageProfile(state.profile),
+    switchProfile,
     addMedication,
     updateMedication,
     deleteMedication,
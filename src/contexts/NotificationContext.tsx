@@ -3,6 +3,8 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import inboxService from '../services/inboxService';
+import { InboxItem } from '../types/inbox';
 
 export interface NotificationData {
   id: string;
@@ -31,7 +33,8 @@ export interface NotificationSettings {
 }
 
 export interface NotificationState {
-  notifications: NotificationData[];
+  /** Delivered notifications, from the inbox */
+  notifications: InboxItem[];
   settings: NotificationSettings;
   expoPushToken: string | null;
   isLoading: boolean;
@@ -89,6 +92,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   useEffect(() => {
     initializeNotifications();
+    return inboxService.subscribe(notifications => setState(prev => ({ ...prev, notifications })));
   }, []);
 
   const initializeNotifications = async () => {
@@ -111,15 +115,12 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const loadStoredData = async () => {
     try {
-      const [storedNotifications, storedSettings] = await Promise.all([
-        AsyncStorage.getItem('notifications'),
+      const [notifications, storedSettings] = await Promise.all([
+        inboxService.getItems(),
         AsyncStorage.getItem('notification_settings'),
       ]);
 
-      if (storedNotifications) {
-        const notifications = JSON.parse(storedNotifications);
-        setState(prev => ({ ...prev, notifications }));
-      }
+      setState(prev => ({ ...prev, notifications }));
 
       if (storedSettings) {
         const settings = JSON.parse(storedSettings);
@@ -131,33 +132,14 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   };
 
   const setupNotificationListeners = () => {
-    // Handle notification received while app is running
-    const notificationListener = Notifications.addNotificationReceivedListener(notification => {
-      const notificationData: NotificationData = {
-        id: notification.request.identifier,
-        title: notification.request.content.title || '',
-        body: notification.request.content.body || '',
-        data: notification.request.content.data,
-        type: (notification.request.content.data?.type as any) || 'general',
-        priority: (notification.request.content.data?.priority as any) || 'default',
-        read: false,
-        createdAt: new Date(),
-      };
-
-      setState(prev => ({
-        ...prev,
-        notifications: [notificationData, ...prev.notifications],
-      }));
-
+    // Handle notification received while app is running; InboxService records it
+    const notificationListener = Notifications.addNotificationReceivedListener(() => {
       // Trigger haptic feedback
       triggerHapticFeedback('light');
     });
 
     // Handle notification response (user tapped notification)
     const responseListener = Notifications.addNotificationResponseReceivedListener(response => {
-      const notificationId = response.notification.request.identifier;
-      markAsRead(notificationId);
-      
       // Handle navigation based on notification data
       const data = response.notification.request.content.data;
       if (data?.screen) {
@@ -234,27 +216,13 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
         } as Notifications.NotificationTriggerInput;
       }
 
+      // Reaches the inbox once delivered
       await Notifications.scheduleNotificationAsync({
         identifier: id,
         content: notificationContent,
         trigger,
       });
 
-      const notificationData: NotificationData = {
-        ...notification,
-        id,
-        read: false,
-        createdAt: new Date(),
-      };
-
-      setState(prev => ({
-        ...prev,
-        notifications: [notificationData, ...prev.notifications],
-      }));
-
-      // Store in AsyncStorage
-      await AsyncStorage.setItem('notifications', JSON.stringify([notificationData, ...state.notifications]));
-
       return id;
     } catch (error) {
       console.error('Error scheduling notification:', error);
@@ -265,15 +233,6 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   const cancelNotification = async (id: string): Promise<void> => {
     try {
       await Notifications.cancelScheduledNotificationAsync(id);
-      
-      setState(prev => ({
-        ...prev,
-        notifications: prev.notifications.filter(n => n.id !== id),
-      }));
-
-      // Update AsyncStorage
-      const updatedNotifications = state.notifications.filter(n => n.id !== id);
-      await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
     } catch (error) {
       console.error('Error canceling notification:', error);
     }
@@ -281,18 +240,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const markAsRead = async (id: string): Promise<void> => {
     try {
-      setState(prev => ({
-        ...prev,
-        notifications: prev.notifications.map(n =>
-          n.id === id ? { ...n, read: true } : n
-        ),
-      }));
-
-      // Update AsyncStorage
-      const updatedNotifications = state.notifications.map(n =>
-        n.id === id ? { ...n, read: true } : n
-      );
-      await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
+      await inboxService.markRead([id]);
     } catch (error) {
       console.error('Error marking notification as read:', error);
     }
@@ -300,14 +248,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const markAllAsRead = async (): Promise<void> => {
     try {
-      setState(prev => ({
-        ...prev,
-        notifications: prev.notifications.map(n => ({ ...n, read: true })),
-      }));
-
-      // Update AsyncStorage
-      const updatedNotifications = state.notifications.map(n => ({ ...n, read: true }));
-      await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
+      await inboxService.markAllRead();
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
     }
@@ -315,16 +256,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const deleteNotification = async (id: string): Promise<void> => {
     try {
-      await cancelNotification(id);
-      
-      setState(prev => ({
-        ...prev,
-        notifications: prev.notifications.filter(n => n.id !== id),
-      }));
-
-      // Update AsyncStorage
-      const updatedNotifications = state.notifications.filter(n => n.id !== id);
-      await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
+      await inboxService.remove(id);
     } catch (error) {
       console.error('Error deleting notification:', error);
     }
@@ -332,14 +264,8 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const clearAllNotifications = async (): Promise<void> => {
     try {
-      await Notifications.cancelAllScheduledNotificationsAsync();
-      
-      setState(prev => ({
-        ...prev,
-        notifications: [],
-      }));
-
-      await AsyncStorage.removeItem('notifications');
+      // Only the inbox; scheduled reminders stay
+      await inboxService.clear();
     } catch (error) {
       console.error('Error clearing all notifications:', error);
     }
@@ -5,58 +5,26 @@
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { addDays, addWeeks, addMonths, format, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
+import { addDays, addWeeks, addMonths, format, isAfter, isBefore, startOfDay, endOfDay, parseISO } from 'date-fns';
 import { useMedications } from '../contexts/MedicationContext';
-import { SmartMedicationScheduler, type ScheduleLike } from '../utils/smartScheduler';
+import { DoseEvent, SkipReason } from '../types/dose';
+import { MedicationSchedule, ScheduledDose } from '../types/schedule';
+import { calculateAdherence, doseAdherenceScore } from '../utils/doseLedger';
+import { applyDoseEvent, createScheduledDose, getDoseTimesBetween } from '../utils/scheduleUtils';
+import { SmartMedicationScheduler } from '../utils/smartScheduler';
 import { useNotifications } from '../contexts/NotificationContext';
 import notificationService from '../services/notificationService';
 import medicalAnalyticsService from '../services/analyticsService';
+import doseLedgerService from '../services/doseLedgerService';
 import popiaComplianceService from '../services/privacyService';
 
-export interface SchedulePattern {
-  type: 'daily' | 'weekly' | 'monthly' | 'interval' | 'as_needed';
-  interval?: number; // For interval type (e.g., every 8 hours)
-  daysOfWeek?: boolean[]; // [Sun, Mon, Tue, Wed, Thu, Fri, Sat]
-  daysOfMonth?: number[]; // [1, 15] for 1st and 15th
-  times: string[]; // ["08:00", "12:00", "20:00"]
-  duration?: number; // Duration in days
-  endDate?: Date;
-}
-
-export interface MedicationSchedule {
-  id: string;
-  medicationId: string;
-  medicationName: string;
-  dosage: string;
-  pattern: SchedulePattern;
-  startDate: Date;
-  endDate?: Date;
-  isActive: boolean;
-  priority: 'low' | 'normal' | 'high' | 'critical';
-  instructions?: string;
-  foodRequirement?: 'with_food' | 'without_food' | 'empty_stomach' | 'any';
-  specialInstructions?: string[];
-}
-
-export interface ScheduledDose {
-  id: string;
-  scheduleId: string;
-  medicationId: string;
-  medicationName: string;
-  dosage: string;
-  scheduledTime: Date;
-  actualTime?: Date;
-  status: 'pending' | 'taken' | 'missed' | 'skipped';
-  notes?: string;
-  snoozeCount: number;
-  remindersSent: number;
-  isOverdue: boolean;
-  priority: 'low' | 'normal' | 'high' | 'critical';
-}
+export type { MedicationSchedule, SchedulePattern, ScheduledDose } from '../types/schedule';
 
 export interface AdherenceStats {
   totalScheduledDoses: number;
-  takenDoses: number;
+  takenDoses: number; // Includes late doses
+  lateDoses: number;
+  partialDoses: number;
   missedDoses: number;
   skippedDoses: number;
   adherenceRate: number;
@@ -94,6 +62,8 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
   const [adherenceStats, setAdherenceStats] = useState<AdherenceStats>({
     totalScheduledDoses: 0,
     takenDoses: 0,
+    lateDoses: 0,
+    partialDoses: 0,
     missedDoses: 0,
     skippedDoses: 0,
     adherenceRate: 0,
@@ -111,75 +81,16 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     endDate: Date
   ): ScheduledDose[] => {
     const doses: ScheduledDose[] = [];
-    const { pattern } = schedule;
+    const now = new Date();
     
-    let currentDate = startOfDay(startDate);
-    const finalEndDate = endOfDay(schedule.endDate || endDate);
+    const finalEndDate = endOfDay(schedule.endDate ? parseISO(schedule.endDate) : endDate);
 
-    while (currentDate <= finalEndDate) {
-      let shouldSchedule = false;
-      
-      switch (pattern.type) {
-        case 'daily':
-          shouldSchedule = true;
-          break;
-          
-        case 'weekly':
-          if (pattern.daysOfWeek) {
-            const dayOfWeek = currentDate.getDay();
-            shouldSchedule = pattern.daysOfWeek[dayOfWeek];
-          }
-          break;
-          
-        case 'monthly':
-          if (pattern.daysOfMonth) {
-            const dayOfMonth = currentDate.getDate();
-            shouldSchedule = pattern.daysOfMonth.includes(dayOfMonth);
-          }
-          break;
-          
-        case 'interval':
-          if (pattern.interval) {
-            const daysSinceStart = Math.floor(
-              (currentDate.getTime() - startOfDay(schedule.startDate).getTime()) / (1000 * 60 * 60 * 24)
-            );
-            shouldSchedule = daysSinceStart % pattern.interval === 0;
-          }
-          break;
-          
-        case 'as_needed':
-          // As-needed medications are not automatically scheduled
-          shouldSchedule = false;
-          break;
+    getDoseTimesBetween(schedule, startOfDay(startDate), finalEndDate).forEach(scheduledTime => {
+      // Skip past times
+      if (scheduledTime > now) {
+        doses.push(createScheduledDose(schedule, scheduledTime));
       }
-
-      if (shouldSchedule) {
-        pattern.times.forEach((timeStr, timeIndex) => {
-          const [hours, minutes] = timeStr.split(':').map(Number);
-          const scheduledTime = new Date(currentDate);
-          scheduledTime.setHours(hours, minutes, 0, 0);
-
-          // Skip past times
-          if (scheduledTime > new Date()) {
-            doses.push({
-              id: `${schedule.id}-${format(scheduledTime, 'yyyy-MM-dd-HH-mm')}`,
-              scheduleId: schedule.id,
-              medicationId: schedule.medicationId,
-              medicationName: schedule.medicationName,
-              dosage: schedule.dosage,
-              scheduledTime,
-              status: 'pending',
-              snoozeCount: 0,
-              remindersSent: 0,
-              isOverdue: false,
-              priority: schedule.priority,
-            });
-          }
-        });
-      }
-
-      currentDate = addDays(currentDate, 1);
-    }
+    });
 
     return doses.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
   }, []);
@@ -209,7 +120,7 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     
     // Generate upcoming doses
     const endDate = addDays(new Date(), finalConfig.lookAheadDays);
-    const doses = generateScheduledDoses(newSchedule, schedule.startDate, endDate);
+    const doses = generateScheduledDoses(newSchedule, parseISO(schedule.startDate), endDate);
     
     setUpcomingDoses(prev => {
       const filtered = prev.filter(dose => dose.scheduleId !== id);
@@ -239,7 +150,7 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
       const endDate = addDays(new Date(), finalConfig.lookAheadDays);
       const newDoses = generateScheduledDoses(
         { ...updatedSchedule, ...updates },
-        updatedSchedule.startDate,
+        parseISO(updatedSchedule.startDate),
         endDate
       );
       
@@ -303,56 +214,66 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     }
   }, [finalConfig.reminderIntervals, scheduleNotification]);
 
-  // Mark a dose as taken
+  // Report a recorded dose to anonymised analytics (consent required)
+  const trackDoseEvent = useCallback(async (event: DoseEvent): Promise<void> => {
+    if (finalConfig.adherenceTracking && (await popiaComplianceService.isConsentAccepted())) {
+      medicalAnalyticsService.trackDoseEvent(event).catch(() => {});
+    }
+  }, [finalConfig.adherenceTracking]);
+
+  // Record a transition in the dose ledger and mirror it into state
+  const recordDose = useCallback(async (
+    doseId: string,
+    record: (dose: ScheduledDose) => Promise<DoseEvent>
+  ): Promise<void> => {
+    const dose = upcomingDoses.find(d => d.id === doseId);
+    if (!dose) return;
+
+    const event = await record(dose);
+    setUpcomingDoses(prev => prev.map(d => (d.id === doseId ? applyDoseEvent(d, event) : d)));
+    await trackDoseEvent(event);
+  }, [upcomingDoses, trackDoseEvent]);
+
+  // Mark a dose as taken (stored as late after the on-time window)
   const markDoseTaken = useCallback(async (
     doseId: string,
     actualTime: Date = new Date(),
     notes?: string
   ): Promise<void> => {
-    setUpcomingDoses(prev => prev.map(dose =>
-      dose.id === doseId
-        ? { ...dose, status: 'taken', actualTime, notes }
-        : dose
-    ));
-    
-    // Update adherence stats
-    calculateAdherenceStats();
-    // Track adherence event (100% for taken)
-    const updated = upcomingDoses.find(d => d.id === doseId)
-    if (updated && (await popiaComplianceService.isConsentAccepted())) {
-      medicalAnalyticsService.trackAdherence(Number(updated.medicationId), 100).catch(() => {})
-    }
-  }, []);
+    await recordDose(doseId, dose =>
+      doseLedgerService.recordTaken(dose, { actualTime, ...(notes !== undefined && { notes }) })
+    );
+  }, [recordDose]);
+
+  // Mark part of a dose as taken
+  const markDosePartial = useCallback(async (
+    doseId: string,
+    dosageTaken: string,
+    notes?: string
+  ): Promise<void> => {
+    await recordDose(doseId, dose =>
+      doseLedgerService.recordPartial(dose, dosageTaken, { ...(notes !== undefined && { notes }) })
+    );
+  }, [recordDose]);
 
   // Mark a dose as missed
   const markDoseMissed = useCallback(async (doseId: string, notes?: string): Promise<void> => {
-    setUpcomingDoses(prev => prev.map(dose =>
-      dose.id === doseId
-        ? { ...dose, status: 'missed', notes }
-        : dose
-    ));
-    
-    calculateAdherenceStats();
-    const updated = upcomingDoses.find(d => d.id === doseId)
-    if (updated && (await popiaComplianceService.isConsentAccepted())) {
-      medicalAnalyticsService.trackAdherence(Number(updated.medicationId), 0).catch(() => {})
-    }
-  }, []);
+    await recordDose(doseId, dose => doseLedgerService.recordMissed(dose, notes));
+  }, [recordDose]);
 
-  // Mark a dose as skipped
-  const markDoseSkipped = useCallback(async (doseId: string, notes?: string): Promise<void> => {
-    setUpcomingDoses(prev => prev.map(dose =>
-      dose.id === doseId
-        ? { ...dose, status: 'skipped', notes }
-        : dose
-    ));
-    
-    calculateAdherenceStats();
-    const updated = upcomingDoses.find(d => d.id === doseId)
-    if (updated && (await popiaComplianceService.isConsentAccepted())) {
-      medicalAnalyticsService.trackAdherence(Number(updated.medicationId), 0).catch(() => {})
-    }
-  }, []);
+  // Mark a dose as skipped, with the reason
+  const markDoseSkipped = useCallback(async (
+    doseId: string,
+    reason: SkipReason = 'other',
+    notes?: string
+  ): Promise<void> => {
+    await recordDose(doseId, dose => doseLedgerService.recordSkipped(dose, reason, { ...(notes !== undefined && { notes }) }));
+  }, [recordDose]);
+
+  // Undo a recorded dose
+  const resetDose = useCallback(async (doseId: string): Promise<void> => {
+    await recordDose(doseId, dose => doseLedgerService.reset(dose));
+  }, [recordDose]);
 
   // Snooze a dose
   const snoozeDose = useCallback(async (
@@ -391,69 +312,61 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     return true;
   }, [upcomingDoses, finalConfig.maxSnoozes, scheduleNotification]);
 
-  // Calculate adherence statistics
-  const calculateAdherenceStats = useCallback(() => {
+  // Calculate adherence statistics from the dose ledger
+  const calculateAdherenceStats = useCallback(async () => {
     const now = new Date();
-    const thirtyDaysAgo = addDays(now, -30);
-    
-    const recentDoses = upcomingDoses.filter(dose => 
-      dose.scheduledTime >= thirtyDaysAgo && 
-      dose.scheduledTime <= now
-    );
-    
-    const totalScheduledDoses = recentDoses.length;
-    const takenDoses = recentDoses.filter(dose => dose.status === 'taken').length;
-    const missedDoses = recentDoses.filter(dose => dose.status === 'missed').length;
-    const skippedDoses = recentDoses.filter(dose => dose.status === 'skipped').length;
-    
-    const adherenceRate = totalScheduledDoses > 0 ? (takenDoses / totalScheduledDoses) * 100 : 0;
+    const events = await doseLedgerService.getEvents({ from: addDays(now, -30), to: now });
+    const summary = calculateAdherence(events);
     
-    // Calculate streak
+    // Calculate streaks of fully taken doses, most recent first
     let streak = 0;
     let longestStreak = 0;
     let currentStreak = 0;
+    let streakBroken = false;
     
-    const sortedDoses = recentDoses
-      .filter(dose => dose.status !== 'pending')
-      .sort((a, b) => b.scheduledTime.getTime() - a.scheduledTime.getTime());
+    const scoredEvents = events
+      .filter(event => doseAdherenceScore(event) !== null)
+      .reverse();
     
-    for (const dose of sortedDoses) {
-      if (dose.status === 'taken') {
+    for (const event of scoredEvents) {
+      if (doseAdherenceScore(event) === 100) {
         currentStreak++;
-        if (streak === 0) streak = currentStreak; // Current streak from most recent
+        if (!streakBroken) streak = currentStreak;
       } else {
-        if (currentStreak > longestStreak) longestStreak = currentStreak;
+        streakBroken = true;
+        longestStreak = Math.max(longestStreak, currentStreak);
         currentStreak = 0;
       }
     }
     
-    if (currentStreak > longestStreak) longestStreak = currentStreak;
+    longestStreak = Math.max(longestStreak, currentStreak);
     
     // Calculate weekly adherence for last 4 weeks
     const weeklyAdherence: number[] = [];
     for (let i = 0; i < 4; i++) {
       const weekStart = addWeeks(now, -(i + 1));
       const weekEnd = addWeeks(now, -i);
-      const weekDoses = recentDoses.filter(dose =>
-        dose.scheduledTime >= weekStart && dose.scheduledTime < weekEnd
-      );
-      const weekTaken = weekDoses.filter(dose => dose.status === 'taken').length;
-      const weekRate = weekDoses.length > 0 ? (weekTaken / weekDoses.length) * 100 : 0;
-      weeklyAdherence.unshift(weekRate);
+      const weekEvents = events.filter(event => {
+        const time = parseISO(event.scheduledTime);
+        return time >= weekStart && time < weekEnd;
+      });
+      weeklyAdherence.unshift(calculateAdherence(weekEvents).adherenceRate ?? 0);
     }
     
     setAdherenceStats({
-      totalScheduledDoses,
-      takenDoses,
-      missedDoses,
-      skippedDoses,
-      adherenceRate,
+      totalScheduledDoses: summary.total,
+      takenDoses: summary.taken + summary.late,
+      lateDoses: summary.late,
+      partialDoses: summary.partial,
+      missedDoses: summary.missed,
+      skippedDoses: summary.skipped,
+      adherenceRate: summary.adherenceRate ?? 0,
       streak,
       longestStreak,
       weeklyAdherence,
       monthlyAdherence: [], // Could be implemented similarly
     });
-  }, [upcomingDoses]);
+  }, []);
 
   // Get upcoming doses (next 24 hours)
   const getUpcomingDoses = useCallback((hours: number = 24): ScheduledDose[] => {
@@ -541,23 +454,29 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     return conflicts.sort((a, b) => a.time.getTime() - b.time.getTime());
   }, [upcomingDoses, schedules, finalConfig.conflictDetection]);
 
-  // Update overdue status periodically
+  // Update overdue status and mark doses past the missed window periodically
   useEffect(() => {
-    const interval = setInterval(() => {
+    const interval = setInterval(async () => {
+      const missed = await doseLedgerService.markMissed();
       const now = new Date();
-      setUpcomingDoses(prev => prev.map(dose => ({
-        ...dose,
-        isOverdue: dose.status === 'pending' && dose.scheduledTime < now,
-      })));
+      setUpcomingDoses(prev => prev.map(dose => {
+        const event = missed.find(item => item.id === dose.id);
+        return event
+          ? applyDoseEvent(dose, event, now)
+          : { ...dose, isOverdue: dose.status === 'pending' && dose.scheduledTime < now };
+      }));
     }, 60000); // Check every minute
     
     return () => clearInterval(interval);
   }, []);
 
-  // Recalculate adherence stats when doses change
+  // Recalculate adherence stats whenever the ledger changes
   useEffect(() => {
     calculateAdherenceStats();
-  }, [upcomingDoses, calculateAdherenceStats]);
+    return doseLedgerService.subscribe(() => {
+      calculateAdherenceStats();
+    });
+  }, [calculateAdherenceStats]);
 
   return {
     // State
@@ -573,8 +492,10 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
     
     // Dose management
     markDoseTaken,
+    markDosePartial,
     markDoseMissed,
     markDoseSkipped,
+    resetDose,
     snoozeDose,
     
     // Queries
@@ -587,28 +508,8 @@ export const useMedicationScheduler = (config: Partial<SchedulerConfig> = {}) =>
         timesCount <= 1 ? 'once_daily' : timesCount === 2 ? 'twice_daily' : timesCount === 3 ? 'three_times_daily' : 'four_times_daily'
       ),
     smartDetectScheduleConflicts: (candidate: MedicationSchedule) => {
-      const newEntries: ScheduleLike[] = (candidate.pattern.times || []).map((t) => ({
-        time: t,
-        medication: { name: candidate.medicationName },
-        mealRelation:
-          candidate.foodRequirement === 'with_food'
-            ? 'with_meal'
-            : candidate.foodRequirement === 'empty_stomach'
-            ? 'empty_stomach'
-            : 'any'
-      }))
-      const existingEntries: ScheduleLike[] = schedules.flatMap((s) =>
-        (s.pattern.times || []).map((t) => ({
-          time: t,
-          medication: { name: s.medicationName },
-          mealRelation:
-            s.foodRequirement === 'with_food'
-              ? 'with_meal'
-              : s.foodRequirement === 'empty_stomach'
-              ? 'empty_stomach'
-              : 'any'
-        }))
-      )
+      const newEntries = SmartMedicationScheduler.fromSchedule(candidate)
+      const existingEntries = schedules.flatMap((s) => SmartMedicationScheduler.fromSchedule(s))
       // For each new entry, find conflicts in existing entries
       const conflicts = newEntries.flatMap((n) =>
         SmartMedicationScheduler.detectScheduleConflicts(n, existingEntries).map((rel) => ({
@@ -0,0 +1,103 @@
+/**
+ * MedGuard SA - Notification List Hook
+ * Pages through the notification inbox for display, filtered by type or
+ * read state, and keeps up with notifications as they are delivered
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import inboxService from '../services/inboxService';
+import { InboxAction, InboxFilter, InboxItem } from '../types/inbox';
+import { filterInbox, pageInbox } from '../utils/inbox';
+
+const PAGE_SIZE = 20;
+
+export interface NotificationList {
+  /** The pages loaded so far */
+  items: InboxItem[];
+  filter: InboxFilter;
+  setFilter: (filter: InboxFilter) => void;
+  hasMore: boolean;
+  loadMore: () => void;
+  loading: boolean;
+  refreshing: boolean;
+  /** Sync with the backend and reload */
+  refresh: () => Promise<void>;
+  /** Across the whole inbox, whatever the filter */
+  unreadCount: number;
+  markRead: (ids: string[]) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  recordAction: (id: string, action: InboxAction) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const useNotificationList = (initialFilter: InboxFilter = {}): NotificationList => {
+  const [all, setAll] = useState<InboxItem[]>([]);
+  const [filter, setFilterState] = useState<InboxFilter>(initialFilter);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    inboxService.getItems()
+      .then(items => mounted && setAll(items))
+      .finally(() => mounted && setLoading(false));
+    const unsubscribe = inboxService.subscribe(items => setAll(items));
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const filtered = useMemo(() => filterInbox(all, filter), [all, filter]);
+  const items = useMemo(() => pageInbox(filtered, pages, PAGE_SIZE), [filtered, pages]);
+  const unreadCount = useMemo(() => all.filter(item => !item.read).length, [all]);
+  const hasMore = items.length < filtered.length;
+
+  const setFilter = useCallback((next: InboxFilter) => {
+    setFilterState(next);
+    setPages(1);
+  }, []);
+
+  const loadMore = useCallback(() => {
+    if (hasMore) setPages(current => current + 1);
+  }, [hasMore]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await inboxService.collectPresented();
+      await inboxService.sync();
+      setPages(1);
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  const markRead = useCallback((ids: string[]) => inboxService.markRead(ids), []);
+  const markAllRead = useCallback(() => inboxService.markAllRead(), []);
+  const recordAction = useCallback(
+    (id: string, action: InboxAction) => inboxService.recordAction(id, action),
+    []
+  );
+  const remove = useCallback((id: string) => inboxService.remove(id), []);
+  const clear = useCallback(() => inboxService.clear(), []);
+
+  return {
+    items,
+    filter,
+    setFilter,
+    hasMore,
+    loadMore,
+    loading,
+    refreshing,
+    refresh,
+    unreadCount,
+    markRead,
+    markAllRead,
+    recordAction,
+    remove,
+    clear,
+  };
+};
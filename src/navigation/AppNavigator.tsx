@@ -18,6 +18,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 // Services
 import authService from '../services/authService';
+import { useMedications } from '../contexts/MedicationContext';
 import i18n from '../i18n';
 import { MedGuardColors } from '../theme/colors';
 
@@ -28,6 +29,8 @@ import HomeScreen from '../screens/home/HomeScreen';
 import MedicationsScreen from '../screens/medications/MedicationsScreen';
 import ScheduleScreen from '../screens/schedule/ScheduleScreen';
 import CameraScreen from '../screens/camera/CameraScreen';
+import PrescriptionReviewScreen from '../screens/camera/PrescriptionReviewScreen';
+import ImportPrescriptionScreen from '../screens/camera/ImportPrescriptionScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import SettingsScreen from '../screens/settings/SettingsScreen';
 import EmergencyScreen from '../screens/emergency/EmergencyScreen';
@@ -36,6 +39,8 @@ import AnalyticsScreen from '../screens/analytics/AnalyticsScreen';
 import MedicationDetailScreen from '../screens/medications/MedicationDetailScreen';
 import AddMedicationScreen from '../screens/medications/AddMedicationScreen';
 import EditMedicationScreen from '../screens/medications/EditMedicationScreen';
+import MedicationPhotosScreen from '../screens/medications/MedicationPhotosScreen';
+import IdentifyPillScreen from '../screens/medications/IdentifyPillScreen';
 import AddScheduleScreen from '../screens/schedule/AddScheduleScreen';
 import EditScheduleScreen from '../screens/schedule/EditScheduleScreen'; 
 import OnboardingScreen from '../screens/onboarding/OnboardingScreen';
@@ -62,15 +67,19 @@ export type MainTabParamList = {
 
 export type MedicationsStackParamList = {
   MedicationsList: undefined;
-  MedicationDetail: { medicationId: number };
+  MedicationDetail: { medicationId: string };
   AddMedication: { ocrResult?: any };
-  EditMedication: { medicationId: number };
+  ReviewPrescription: { ocrResult: any };
+  ImportPrescription: { ocrResult: any };
+  EditMedication: { medicationId: string };
+  MedicationPhotos: { medicationId: string; medicationName?: string };
+  IdentifyPill: undefined;
 };
 
 export type ScheduleStackParamList = {
   ScheduleList: undefined;
-  AddSchedule: { medicationId?: number };
-  EditSchedule: { scheduleId: number };
+  AddSchedule: { medicationId?: string };
+  EditSchedule: { scheduleId: string };
 };
 
 export type ProfileStackParamList = {
@@ -192,11 +201,31 @@ const MedicationsNavigator = () => (
       component={AddMedicationScreen}
       options={{ title: i18n.t('medications.add_medication') }}
     />
+    <MedicationsStack.Screen
+      name="ReviewPrescription"
+      component={PrescriptionReviewScreen}
+      options={{ title: i18n.t('prescription_review.title') }}
+    />
+    <MedicationsStack.Screen
+      name="ImportPrescription"
+      component={ImportPrescriptionScreen}
+      options={{ title: i18n.t('prescription_import.title') }}
+    />
     <MedicationsStack.Screen
       name="EditMedication"
       component={EditMedicationScreen}
       options={{ title: i18n.t('medications.edit_medication') }}
     />
+    <MedicationsStack.Screen
+      name="MedicationPhotos"
+      component={MedicationPhotosScreen}
+      options={{ title: i18n.t('medication_photos.title') }}
+    />
+    <MedicationsStack.Screen
+      name="IdentifyPill"
+      component={IdentifyPillScreen}
+      options={{ title: i18n.t('pill_identify.title') }}
+    />
   </MedicationsStack.Navigator>
 );
 
@@ -274,21 +303,27 @@ const ProfileNavigator = () => (
   </ProfileStack.Navigator>
 );
 
-// Main Tab Navigator
-const MainNavigator = () => (
-  <MainTab.Navigator
-    tabBar={(props) => <BottomTabBar {...props} />}
-    screenOptions={{
-      headerShown: false,
-    }}
-  >
-    <MainTab.Screen name="Home" component={HomeScreen} />
-    <MainTab.Screen name="Medications" component={MedicationsNavigator} />
-    <MainTab.Screen name="Schedule" component={ScheduleNavigator} />
-    <MainTab.Screen name="Camera" component={CameraScreen} />
-    <MainTab.Screen name="Profile" component={ProfileNavigator} />
-  </MainTab.Navigator>
-);
+// Main Tab Navigator, remounted on a profile switch so every screen loads
+// the profile now shown
+const MainNavigator = () => {
+  const { profile } = useMedications();
+
+  return (
+    <MainTab.Navigator
+      key={profile?.patientId ?? 'own'}
+      tabBar={(props) => <BottomTabBar {...props} />}
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <MainTab.Screen name="Home" component={HomeScreen} />
+      <MainTab.Screen name="Medications" component={MedicationsNavigator} />
+      <MainTab.Screen name="Schedule" component={ScheduleNavigator} />
+      <MainTab.Screen name="Camera" component={CameraScreen} />
+      <MainTab.Screen name="Profile" component={ProfileNavigator} />
+    </MainTab.Navigator>
+  );
+};
 
 // Root App Navigator
 const AppNavigator = () => {
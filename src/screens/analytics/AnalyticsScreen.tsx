@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StyleSheet, View, ScrollView, Dimensions, RefreshControl } from 'react-native';
 import { Layout, Text, Card, Spinner, TopNavigation, TopNavigationAction } from '@ui-kitten/components';
 import { VictoryBar, VictoryChart, VictoryTheme, VictoryPie, VictoryLine, VictoryAxis } from 'victory';
@@ -8,12 +8,17 @@ import apiService from '../../services/apiService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
-import { format, subDays } from 'date-fns';
+import { format, parseISO, subDays } from 'date-fns';
 import medicalAnalyticsService from '../../services/analyticsService';
 import { enZA, af } from 'date-fns/locale';
+import { useMedications } from '../../contexts/MedicationContext';
+import { isPrnLog, summarizePrnUse } from '../../utils/prn';
 
 const screenWidth = Dimensions.get('window').width;
 
+const PRN_PERIOD_DAYS = 30;
+const PRN_HISTORY_SIZE = 5;
+
 interface AdherenceDataPoint {
   date: string;
   adherence: number;
@@ -27,8 +32,23 @@ const AnalyticsScreen: React.FC = () => {
   const [monthlyData, setMonthlyData] = useState<AdherenceDataPoint[]>([]);
   const [overallAdherence, setOverallAdherence] = useState<number>(0);
 
+  const { logs, getMedication } = useMedications();
+
   const locale = i18n.getCurrentLanguage() === 'af' ? af : enZA;
 
+  // As-needed doses are reported on their own and never count towards adherence
+  const prnUse = useMemo(() => {
+    const now = new Date();
+    return summarizePrnUse(logs, subDays(now, PRN_PERIOD_DAYS), now);
+  }, [logs]);
+  const prnHistory = useMemo(
+    () => logs
+      .filter(isPrnLog)
+      .sort((a, b) => (b.actualTime ?? b.createdAt).localeCompare(a.actualTime ?? a.createdAt))
+      .slice(0, PRN_HISTORY_SIZE),
+    [logs]
+  );
+
   useEffect(() => {
     loadAnalytics();
   }, []);
@@ -42,14 +62,14 @@ const AnalyticsScreen: React.FC = () => {
 
       // Build simple weekly/monthly arrays from last 7/30 days of events
       const today = new Date();
-      const events = await (medicalAnalyticsService as any).getAdherenceData?.();
+      const events = await medicalAnalyticsService.getAdherenceData();
       const last7: AdherenceDataPoint[] = [];
       for (let i = 6; i >= 0; i--) {
         const date = subDays(today, i);
         const dayKey = format(date, 'yyyy-MM-dd');
-        const dayEvents = (events || []).filter((e: any) => (e.timestamp || '').slice(0, 10) === dayKey);
+        const dayEvents = events.filter(e => format(parseISO(e.timestamp), 'yyyy-MM-dd') === dayKey);
         const avg = dayEvents.length
-          ? Math.round(dayEvents.reduce((s: number, e: any) => s + e.adherenceRate, 0) / dayEvents.length)
+          ? Math.round(dayEvents.reduce((s, e) => s + e.adherenceRate, 0) / dayEvents.length)
           : 0;
         last7.push({ date: format(date, 'EEE', { locale }), adherence: avg });
       }
@@ -59,9 +79,9 @@ const AnalyticsScreen: React.FC = () => {
       for (let i = 29; i >= 0; i -= 2) {
         const date = subDays(today, i);
         const dayKey = format(date, 'yyyy-MM-dd');
-        const dayEvents = (events || []).filter((e: any) => (e.timestamp || '').slice(0, 10) === dayKey);
+        const dayEvents = events.filter(e => format(parseISO(e.timestamp), 'yyyy-MM-dd') === dayKey);
         const avg = dayEvents.length
-          ? Math.round(dayEvents.reduce((s: number, e: any) => s + e.adherenceRate, 0) / dayEvents.length)
+          ? Math.round(dayEvents.reduce((s, e) => s + e.adherenceRate, 0) / dayEvents.length)
           : 0;
         last30.push({ date: format(date, 'd', { locale }), adherence: avg });
       }
@@ -157,6 +177,42 @@ const AnalyticsScreen: React.FC = () => {
             />
           </VictoryChart>
         </Card>
+
+        {/* As-needed use */}
+        <Card style={styles.card}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {i18n.t('analytics.prn_use')}
+          </Text>
+          <Text category="c1" appearance="hint">
+            {i18n.t('analytics.prn_hint', { days: PRN_PERIOD_DAYS })}
+          </Text>
+          <Text category="s1" style={styles.prnTotal}>
+            {i18n.t('analytics.prn_total', { count: prnUse.total })}
+          </Text>
+          {prnUse.byReason.map(({ reason, count }) => (
+            <View key={reason} style={styles.prnRow}>
+              <Text category="p2">{i18n.t(`prn.reasons.${reason}`)}</Text>
+              <Text category="p2">{count}</Text>
+            </View>
+          ))}
+          {prnHistory.length > 0 && (
+            <Text category="s2" style={styles.prnTotal}>
+              {i18n.t('prn.history')}
+            </Text>
+          )}
+          {prnHistory.map(log => (
+            <View key={log.id} style={styles.prnRow}>
+              <Text category="c1">
+                {`${format(parseISO(log.actualTime ?? log.createdAt), 'd MMM HH:mm', { locale })} · ${
+                  getMedication(log.medicationId)?.name ?? ''
+                }`}
+              </Text>
+              <Text category="c1" appearance="hint">
+                {i18n.t(`prn.reasons.${log.prnReason ?? 'other'}`)}
+              </Text>
+            </View>
+          ))}
+        </Card>
       </ScrollView>
     </Layout>
   );
@@ -168,6 +224,8 @@ const styles = StyleSheet.create({
   card: { marginBottom: Spacing.md },
   sectionTitle: { marginBottom: Spacing.sm, color: MedGuardColors.primary.trustBlue },
   chartCaption: { textAlign: 'center', marginTop: Spacing.sm, color: MedGuardColors.extended.mediumGray },
+  prnTotal: { marginTop: Spacing.sm, marginBottom: Spacing.xs },
+  prnRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: Spacing.xs },
 });
 
 export default AnalyticsScreen;
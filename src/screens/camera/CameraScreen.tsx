@@ -21,36 +21,22 @@ import {
   TopNavigation,
   TopNavigationAction,
 } from '@ui-kitten/components';
-import { Camera, CameraType, CameraView } from 'expo-camera';
+import { BarcodeScanningResult, Camera, CameraType, CameraView } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 
 // Services and utilities
-import apiService from '../../services/apiService';
+import ocrService from '../../services/ocrService';
+import productCatalogueService from '../../services/productCatalogueService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
 
 // Types
-interface PrescriptionOCRResult {
-  prescriptionNumber: string;
-  doctorName: string;
-  patientName: string;
-  medications: Array<{
-    name: string;
-    strength: string;
-    dosage: string;
-    frequency: string;
-    quantity: string;
-    instructions: string;
-    confidence: number;
-  }>;
-  icd10Codes: string[];
-  confidence: number;
-  processingTime: number;
-}
+import { PrescriptionOCRResult } from '../../types/api';
+import { parsePackBarcode } from '../../utils/barcode';
+import { REVIEW_CONFIDENCE } from '../../utils/prescriptionOcr';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -64,9 +50,14 @@ const CloseIcon = (props: IconProps) => <Icon {...props} name='close-outline' />
 const CheckIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back-outline' />;
 
+/** `pack` scans pill-pack barcodes instead of photographing a script */
+type ScanMode = 'prescription' | 'pack';
+
 const CameraScreen: React.FC = ({ navigation, route }: any) => {
   const insets = useSafeAreaInsets();
   const cameraRef = useRef<CameraView>(null);
+  // Barcode events keep coming while one is being looked up
+  const handlingBarcode = useRef(false);
   
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [cameraType, setCameraType] = useState<'front' | 'back'>('back');
@@ -75,11 +66,21 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [ocrResult, setOcrResult] = useState<PrescriptionOCRResult | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [scanMode, setScanMode] = useState<ScanMode>(route?.params?.mode === 'pack' ? 'pack' : 'prescription');
 
   useEffect(() => {
     requestCameraPermission();
   }, []);
 
+  useEffect(() => {
+    if (scanMode === 'pack') productCatalogueService.update();
+  }, [scanMode]);
+
+  // Scan again when coming back from the medication form
+  useEffect(() => navigation.addListener('focus', () => {
+    handlingBarcode.current = false;
+  }), [navigation]);
+
   const requestCameraPermission = async () => {
     try {
       const { status } = await Camera.requestCameraPermissionsAsync();
@@ -161,25 +162,8 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
     try {
       setIsProcessing(true);
       
-      // Compress image if too large
-      const imageInfo = await FileSystem.getInfoAsync(imageUri);
-      let processedImageUri = imageUri;
-      
-      if (imageInfo.exists && imageInfo.size > 5 * 1024 * 1024) {
-        // Image is larger than 5MB, compress it
-        const compressedImage = await ImagePicker.launchImageLibraryAsync({
-          mediaTypes: ImagePicker.MediaTypeOptions.Images,
-          allowsEditing: false,
-          quality: 0.6,
-        });
-        
-        if (!compressedImage.canceled && compressedImage.assets[0]) {
-          processedImageUri = compressedImage.assets[0].uri;
-        }
-      }
-
-      // Process OCR
-      const result = await apiService.processPrescriptionOCR(processedImageUri);
+      // Read on the device, merged with the server's reading when it can be reached
+      const result = await ocrService.scanPrescription(imageUri);
       setOcrResult(result);
       setShowResults(true);
       
@@ -200,6 +184,31 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
     }
   };
 
+  /**
+   * Look a scanned pack up in the product catalogue and open the medication
+   * form with what was found. Codes that aren't pack barcodes are ignored.
+   */
+  const handleBarcodeScanned = async ({ type, data }: BarcodeScanningResult) => {
+    if (handlingBarcode.current) return;
+    const barcode = parsePackBarcode(data, type);
+    if (!barcode) return;
+
+    handlingBarcode.current = true;
+    try {
+      const product = await productCatalogueService.findByBarcode(barcode);
+      Haptics.notificationAsync(
+        product ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+      );
+      navigation.navigate('Medications', {
+        screen: 'AddMedication',
+        params: { barcode, ...(product && { product }) },
+      });
+    } catch (error) {
+      console.error('Pack barcode error:', error);
+      handlingBarcode.current = false;
+    }
+  };
+
   const retryScan = () => {
     setCapturedImage(null);
     setOcrResult(null);
@@ -216,7 +225,7 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
     if (!ocrResult) return;
 
     navigation.navigate('Medications', {
-      screen: 'AddMedication',
+      screen: 'ReviewPrescription',
       params: { ocrResult },
     });
   };
@@ -243,7 +252,7 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
           style={styles.overlayButton}
         />
         <Text category="h6" style={styles.instructionText}>
-          {i18n.t('camera.scan_instruction')}
+          {i18n.t(scanMode === 'pack' ? 'pack_scan.instruction' : 'camera.scan_instruction')}
         </Text>
         <TopNavigationAction
           icon={flashMode ? FlashIcon : FlashOffIcon}
@@ -252,6 +261,20 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
         />
       </View>
 
+      <View style={styles.modeSwitch}>
+        {(['prescription', 'pack'] as const).map(mode => (
+          <Button
+            key={mode}
+            size="small"
+            appearance={scanMode === mode ? 'filled' : 'outline'}
+            status="control"
+            onPress={() => setScanMode(mode)}
+          >
+            {i18n.t(`pack_scan.modes.${mode}`)}
+          </Button>
+        ))}
+      </View>
+
       {/* Scanning area indicator */}
       <View style={styles.scanningArea}>
         <View style={styles.scanningFrame}>
@@ -262,8 +285,11 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
         </View>
       </View>
 
-      {/* Bottom controls */}
-      <View style={[styles.bottomControls, { paddingBottom: insets.bottom }]}>
+      {/* Bottom controls; packs are read as soon as a barcode is in view */}
+      <View
+        style={[styles.bottomControls, { paddingBottom: insets.bottom }, scanMode === 'pack' && styles.hidden]}
+        pointerEvents={scanMode === 'pack' ? 'none' : 'auto'}
+      >
         <TouchableOpacity
           style={styles.controlButton}
           onPress={pickImageFromGallery}
@@ -374,7 +400,7 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
                 <Text 
                   category="s1" 
                   style={{ 
-                    color: ocrResult.confidence > 0.8 
+                    color: ocrResult.confidence >= REVIEW_CONFIDENCE 
                       ? MedGuardColors.alerts.successGreen 
                       : MedGuardColors.alerts.warningAmber 
                   }}
@@ -401,7 +427,7 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
                         <Text 
                           category="caption1"
                           style={{
-                            color: item.confidence > 0.8
+                            color: item.confidence >= REVIEW_CONFIDENCE
                               ? MedGuardColors.alerts.successGreen
                               : MedGuardColors.alerts.warningAmber
                           }}
@@ -492,6 +518,8 @@ const CameraScreen: React.FC = ({ navigation, route }: any) => {
         facing={cameraType}
         flash={flashMode ? 'on' : 'off'}
         ratio="16:9"
+        barcodeScannerSettings={{ barcodeTypes: ['ean13', 'datamatrix'] }}
+        onBarcodeScanned={scanMode === 'pack' ? handleBarcodeScanned : undefined}
       >
         {renderCameraOverlay()}
       </CameraView>
@@ -574,6 +602,15 @@ const styles = StyleSheet.create({
     borderLeftWidth: 0,
     borderTopWidth: 0,
   },
+  modeSwitch: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  hidden: {
+    opacity: 0,
+  },
   bottomControls: {
     flexDirection: 'row',
     justifyContent: 'space-around',
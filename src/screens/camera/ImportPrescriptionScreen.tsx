@@ -0,0 +1,392 @@
+/**
+ * MedGuard SA - Script import wizard
+ * Steps through every medication on a reviewed script: what it matches
+ * among the user's medications, whether to add it, top up stock or skip it,
+ * and the schedule proposed from its sig. The last step imports everything
+ * at once, and the import can be undone straight after.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  ButtonGroup,
+  Card,
+  CheckBox,
+  Datepicker,
+  Icon,
+  IconProps,
+  Input,
+  Layout,
+  Spinner,
+  Text,
+  TopNavigation,
+  TopNavigationAction,
+} from '@ui-kitten/components';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+
+import { describeSigAmbiguities, describeSigSchedule } from '../../components/schedule/SigPasteCard';
+import apiService from '../../services/apiService';
+import importService from '../../services/importService';
+import interactionService from '../../services/interactionService';
+import prescriptionService from '../../services/prescriptionService';
+import routineService from '../../services/routineService';
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { PrescriptionOCRResult } from '../../types/api';
+import { Medication, parseCount } from '../../types/medication';
+import { DEFAULT_PRESCRIPTION_REPEATS } from '../../types/prescription';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
+import { confirmInteractions } from '../../utils/interactionUtils';
+import { ImportAction, ImportItem, medicationInputFor, planImport } from '../../utils/ocrImport';
+import { REVIEW_CONFIDENCE } from '../../utils/prescriptionOcr';
+
+const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
+const NextIcon = (props: IconProps) => <Icon {...props} name='arrow-forward-outline' />;
+const CheckIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
+
+const ImportPrescriptionScreen: React.FC = ({ navigation, route }: any) => {
+  const insets = useSafeAreaInsets();
+  const { ocrResult }: { ocrResult: PrescriptionOCRResult } = route.params;
+
+  const [items, setItems] = useState<ImportItem[] | null>(null);
+  const [step, setStep] = useState(0);
+  const [issueDate, setIssueDate] = useState(new Date());
+  const [repeats, setRepeats] = useState(String(DEFAULT_PRESCRIPTION_REPEATS));
+  const [pharmacyName, setPharmacyName] = useState('');
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const [current, prescriptions, profile] = await Promise.all([
+        apiService.readCache('medications') as Promise<Medication[]>,
+        prescriptionService.getPrescriptions(),
+        routineService.getProfile(),
+      ]);
+      setMedications(current);
+      setItems(planImport(ocrResult, current, prescriptions, { routine: profile.usual }));
+    })().catch(error => {
+      console.error('Plan import error:', error);
+      setItems([]);
+    });
+  }, [ocrResult]);
+
+  const summaryStep = items?.length ?? 0;
+  const onSummary = step >= summaryStep;
+  const item = items?.[step];
+  const toImport = useMemo(() => (items ?? []).filter(entry => entry.action !== 'skip'), [items]);
+  const hasNewMedications = toImport.some(entry => entry.action === 'create');
+
+  const updateItem = (index: number, changes: Partial<ImportItem>) => {
+    setItems(current => current?.map(entry => (entry.index === index ? { ...entry, ...changes } : entry)) ?? null);
+  };
+
+  const actionsFor = (entry: ImportItem): ImportAction[] =>
+    entry.match.medicationId ? ['create', 'refill', 'skip'] : ['create', 'skip'];
+
+  const goBack = () => {
+    if (step === 0) navigation.goBack();
+    else setStep(step - 1);
+  };
+
+  const undoImport = async (transactionId: string) => {
+    const outcome = await importService.undo(transactionId);
+    if (outcome === 'incomplete') {
+      // The steps that were refused are still on the transaction
+      Alert.alert(i18n.t('common.error'), i18n.t('prescription_import.undo_incomplete'), [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        { text: i18n.t('common.retry'), onPress: () => undoImport(transactionId) },
+      ]);
+      return;
+    }
+    Alert.alert(
+      outcome === 'undone' ? i18n.t('common.success') : i18n.t('common.error'),
+      outcome === 'undone' ? i18n.t('prescription_import.undone') : i18n.t('prescription_import.undo_failed')
+    );
+  };
+
+  const commit = async () => {
+    if (!items || toImport.length === 0) return;
+
+    // New medications against the user's active ones and each other
+    const active = medications.filter(medication => medication.status === 'active');
+    const created = toImport.filter(entry => entry.action === 'create').map(entry => medicationInputFor(entry));
+    const interactions = created.flatMap((medication, index) =>
+      interactionService.checkAgainst(medication, [...active, ...created.slice(index + 1)])
+    );
+    if (!(await confirmInteractions(interactions))) return;
+
+    try {
+      setSaving(true);
+      const result = await importService.commit(ocrResult, items, {
+        issueDate,
+        repeats: parseCount(repeats),
+        ...(pharmacyName.trim() && { pharmacyName: pharmacyName.trim() }),
+      });
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      navigation.navigate('MedicationsList');
+      Alert.alert(
+        i18n.t('common.success'),
+        i18n.t('prescription_import.imported', { count: toImport.length }),
+        [
+          { text: i18n.t('prescription_import.undo'), style: 'destructive', onPress: () => undoImport(result.data.id) },
+          { text: i18n.t('common.ok') },
+        ]
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderMatch = (entry: ImportItem) => {
+    if (entry.match.kind === 'none') return null;
+    return (
+      <Card status={entry.match.kind === 'similar' ? 'info' : 'warning'} style={styles.card}>
+        <Text category="s2">
+          {i18n.t(`prescription_import.match.${entry.match.kind}`, { name: entry.match.medicationName })}
+        </Text>
+      </Card>
+    );
+  };
+
+  const renderItem = (entry: ImportItem) => {
+    const actions = actionsFor(entry);
+    return (
+      <>
+        <Card style={styles.card}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {`${entry.source.name} ${entry.source.strength}`}
+          </Text>
+          {entry.source.instructions ? (
+            <Text category="p2" appearance="hint">
+              {entry.source.instructions}
+            </Text>
+          ) : null}
+        </Card>
+
+        {renderMatch(entry)}
+
+        <Card style={styles.card}>
+          <Text category="s1" style={styles.label}>
+            {i18n.t('prescription_import.action_label')}
+          </Text>
+          <ButtonGroup appearance="outline" size="small" style={styles.actions}>
+            {actions.map(action => (
+              <Button
+                key={action}
+                appearance={entry.action === action ? 'filled' : 'outline'}
+                onPress={() => updateItem(entry.index, { action })}
+              >
+                {i18n.t(`prescription_import.actions.${action}`)}
+              </Button>
+            ))}
+          </ButtonGroup>
+
+          {entry.action !== 'skip' && (
+            <Input
+              label={i18n.t('prescription_import.quantity')}
+              caption={
+                entry.action === 'refill'
+                  ? i18n.t('prescription_import.refill_hint', { name: entry.match.medicationName })
+                  : undefined
+              }
+              value={String(entry.quantity)}
+              onChangeText={text => updateItem(entry.index, { quantity: parseCount(text) })}
+              keyboardType="numeric"
+              style={styles.input}
+            />
+          )}
+        </Card>
+
+        {entry.action === 'create' && (
+          <Card style={styles.card}>
+            <Text category="s1" style={styles.label}>
+              {i18n.t('prescription_import.schedule')}
+            </Text>
+            {entry.schedule ? (
+              <>
+                <CheckBox
+                  checked={entry.addSchedule}
+                  onChange={addSchedule => updateItem(entry.index, { addSchedule })}
+                >
+                  {describeSigSchedule(entry.schedule)}
+                </CheckBox>
+                {entry.schedule.confidence < REVIEW_CONFIDENCE && (
+                  <Text category="c1" style={styles.unsure}>
+                    {[
+                      i18n.t('sig_parser.check', { confidence: Math.round(entry.schedule.confidence * 100) }),
+                      ...describeSigAmbiguities(entry.schedule),
+                    ].join('\n')}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <Text category="p2" appearance="hint">
+                {i18n.t('prescription_import.no_schedule')}
+              </Text>
+            )}
+          </Card>
+        )}
+      </>
+    );
+  };
+
+  const renderSummary = () => (
+    <>
+      <Card style={styles.card}>
+        <Text category="h6" style={styles.sectionTitle}>
+          {i18n.t('prescription_import.summary')}
+        </Text>
+        {(items ?? []).map(entry => (
+          <View key={entry.index} style={styles.summaryRow}>
+            <Text category="p2" style={styles.summaryName}>
+              {`${entry.source.name} ${entry.source.strength}`}
+            </Text>
+            <Text
+              category="c1"
+              style={{ color: entry.action === 'skip' ? MedGuardColors.extended.mediumGray : MedGuardColors.primary.trustBlue }}
+            >
+              {i18n.t(`prescription_import.actions.${entry.action}`)}
+            </Text>
+          </View>
+        ))}
+      </Card>
+
+      {hasNewMedications && (
+        <Card style={styles.card}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {i18n.t('prescriptions.title')}
+          </Text>
+          <Datepicker
+            label={i18n.t('prescriptions.issue_date')}
+            date={issueDate}
+            onSelect={setIssueDate}
+            max={new Date()}
+            style={styles.input}
+          />
+          <Input
+            label={i18n.t('prescriptions.repeats')}
+            caption={i18n.t('prescriptions.repeats_hint')}
+            value={repeats}
+            onChangeText={setRepeats}
+            keyboardType="numeric"
+            style={styles.input}
+          />
+          <Input
+            label={i18n.t('prescriptions.pharmacy')}
+            placeholder={i18n.t('prescriptions.pharmacy')}
+            value={pharmacyName}
+            onChangeText={setPharmacyName}
+            style={styles.input}
+          />
+        </Card>
+      )}
+    </>
+  );
+
+  return (
+    <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
+      <TopNavigation
+        title={i18n.t('prescription_import.title')}
+        subtitle={
+          items && !onSummary
+            ? i18n.t('prescription_import.progress', { current: step + 1, total: items.length })
+            : undefined
+        }
+        alignment="center"
+        accessoryLeft={() => <TopNavigationAction icon={BackIcon} onPress={goBack} />}
+      />
+
+      {items === null ? (
+        <View style={styles.centerContent}>
+          <Spinner size="large" />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.keyboardView} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+          <ScrollView style={styles.scrollView}>
+            {item && !onSummary ? renderItem(item) : renderSummary()}
+
+            <View style={styles.actionsContainer}>
+              {onSummary ? (
+                <Button
+                  size="large"
+                  accessoryLeft={CheckIcon}
+                  onPress={commit}
+                  disabled={saving || toImport.length === 0}
+                >
+                  {saving
+                    ? i18n.t('common.loading')
+                    : i18n.t('prescription_import.import', { count: toImport.length })}
+                </Button>
+              ) : (
+                <Button size="large" accessoryRight={NextIcon} onPress={() => setStep(step + 1)}>
+                  {i18n.t('prescription_import.next')}
+                </Button>
+              )}
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </Layout>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  keyboardView: { flex: 1 },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: Spacing.md,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.sm,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+  },
+  actions: {
+    marginBottom: Spacing.md,
+  },
+  input: {
+    marginBottom: Spacing.md,
+  },
+  unsure: {
+    color: MedGuardColors.alerts.warningAmber,
+    marginTop: Spacing.sm,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: MedGuardColors.extended.borderGray,
+  },
+  summaryName: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  actionsContainer: {
+    paddingVertical: Spacing.xl,
+  },
+});
+
+export default ImportPrescriptionScreen;
@@ -0,0 +1,237 @@
+/**
+ * MedGuard SA - Prescription review
+ * Every field read off a scanned script, editable, with the ones OCR was
+ * unsure of highlighted. Confirming passes the corrected result on to the
+ * import wizard.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { KeyboardAvoidingView, Platform, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  Icon,
+  IconProps,
+  Input,
+  Layout,
+  Text,
+  TopNavigation,
+  TopNavigationAction,
+} from '@ui-kitten/components';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import {
+  OCR_MEDICATION_FIELDS,
+  OCRMedication,
+  OCRMedicationField,
+  OCRPrescriptionField,
+  PrescriptionOCRResult,
+} from '../../types/api';
+import {
+  REVIEW_CONFIDENCE,
+  fieldsToReview,
+  medicationFieldConfidence,
+  prescriptionFieldConfidence,
+} from '../../utils/prescriptionOcr';
+
+const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
+const CheckIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
+
+const PRESCRIPTION_LABELS: Record<Exclude<OCRPrescriptionField, 'icd10Codes'>, string> = {
+  prescriptionNumber: 'camera.prescription_number',
+  doctorName: 'camera.doctor_name',
+  patientName: 'camera.patient_name',
+};
+
+const MEDICATION_LABELS: Record<OCRMedicationField, string> = {
+  name: 'medications.medication_name',
+  strength: 'medications.strength',
+  dosage: 'medications.dosage',
+  frequency: 'medications.frequency',
+  quantity: 'prescription_review.quantity',
+  instructions: 'medications.instructions',
+};
+
+/** A field the user has corrected or left as it was after looking at it */
+const CHECKED = 1;
+
+const PrescriptionReviewScreen: React.FC = ({ navigation, route }: any) => {
+  const insets = useSafeAreaInsets();
+  const { ocrResult }: { ocrResult: PrescriptionOCRResult } = route.params;
+  const [result, setResult] = useState<PrescriptionOCRResult>(ocrResult);
+  // As typed, so separators aren't lost while a code is being entered
+  const [icd10Text, setIcd10Text] = useState(ocrResult.icd10Codes.join(', '));
+
+  const review = useMemo(() => fieldsToReview(result), [result]);
+  const flagged = review.prescription.length + review.medications.reduce((sum, fields) => sum + fields.length, 0);
+
+  const setPrescriptionField = (field: OCRPrescriptionField, value: string) => {
+    if (field === 'icd10Codes') setIcd10Text(value);
+    setResult(current => ({
+      ...current,
+      ...(field === 'icd10Codes'
+        ? { icd10Codes: value.split(/[\s,;]+/).map(code => code.toUpperCase()).filter(Boolean) }
+        : { [field]: value }),
+      fieldConfidence: { ...current.fieldConfidence, [field]: CHECKED },
+    }));
+  };
+
+  const setMedicationField = (index: number, field: OCRMedicationField, value: string) => {
+    setResult(current => ({
+      ...current,
+      medications: current.medications.map((medication, i) =>
+        i === index
+          ? { ...medication, [field]: value, fieldConfidence: { ...medication.fieldConfidence, [field]: CHECKED } }
+          : medication
+      ),
+    }));
+  };
+
+  const removeMedication = (index: number) => {
+    setResult(current => ({
+      ...current,
+      medications: current.medications.filter((_, i) => i !== index),
+    }));
+  };
+
+  const confirm = () => {
+    navigation.replace('ImportPrescription', { ocrResult: result });
+  };
+
+  const caption = (confidence: number) =>
+    confidence < REVIEW_CONFIDENCE
+      ? i18n.t('prescription_review.check_field', { confidence: Math.round(confidence * 100) })
+      : undefined;
+
+  const renderPrescriptionField = (field: OCRPrescriptionField, label: string, value: string) => {
+    const confidence = prescriptionFieldConfidence(result, field);
+    return (
+      <Input
+        key={field}
+        label={i18n.t(label)}
+        value={value}
+        onChangeText={text => setPrescriptionField(field, text)}
+        status={confidence < REVIEW_CONFIDENCE ? 'warning' : 'basic'}
+        caption={caption(confidence)}
+        style={styles.input}
+      />
+    );
+  };
+
+  const renderMedication = (medication: OCRMedication, index: number) => (
+    <Card key={index} style={styles.card}>
+      <View style={styles.medicationHeader}>
+        <Text category="h6" style={styles.sectionTitle}>
+          {medication.name || i18n.t('prescription_review.medication', { number: index + 1 })}
+        </Text>
+        <Button size="small" appearance="ghost" status="danger" onPress={() => removeMedication(index)}>
+          {i18n.t('prescription_review.remove')}
+        </Button>
+      </View>
+      {OCR_MEDICATION_FIELDS.map(field => {
+        const confidence = medicationFieldConfidence(medication, field);
+        return (
+          <Input
+            key={field}
+            label={i18n.t(MEDICATION_LABELS[field])}
+            value={medication[field]}
+            onChangeText={text => setMedicationField(index, field, text)}
+            status={confidence < REVIEW_CONFIDENCE ? 'warning' : 'basic'}
+            caption={caption(confidence)}
+            keyboardType={field === 'quantity' ? 'numeric' : 'default'}
+            multiline={field === 'instructions'}
+            style={styles.input}
+          />
+        );
+      })}
+    </Card>
+  );
+
+  return (
+    <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
+      <TopNavigation
+        title={i18n.t('prescription_review.title')}
+        alignment="center"
+        accessoryLeft={() => <TopNavigationAction icon={BackIcon} onPress={() => navigation.goBack()} />}
+      />
+
+      <KeyboardAvoidingView style={styles.keyboardView} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+        <ScrollView style={styles.scrollView}>
+          <Card style={styles.card} status={flagged > 0 ? 'warning' : 'success'}>
+            <Text category="s1">
+              {flagged > 0
+                ? i18n.t('prescription_review.fields_to_check', { count: flagged })
+                : i18n.t('prescription_review.all_clear')}
+            </Text>
+            {result.source === 'device' && (
+              <Text category="c1" appearance="hint" style={styles.source}>
+                {i18n.t('prescription_review.read_on_device')}
+              </Text>
+            )}
+          </Card>
+
+          <Card style={styles.card}>
+            <Text category="h6" style={styles.sectionTitle}>
+              {i18n.t('camera.prescription_details')}
+            </Text>
+            {(Object.keys(PRESCRIPTION_LABELS) as Array<keyof typeof PRESCRIPTION_LABELS>).map(field =>
+              renderPrescriptionField(field, PRESCRIPTION_LABELS[field], result[field])
+            )}
+            {renderPrescriptionField('icd10Codes', 'prescription_review.icd10_codes', icd10Text)}
+          </Card>
+
+          {result.medications.length === 0 ? (
+            <Card style={styles.card}>
+              <Text category="s1" appearance="hint">
+                {i18n.t('prescription_review.no_medications')}
+              </Text>
+            </Card>
+          ) : (
+            result.medications.map(renderMedication)
+          )}
+
+          <View style={styles.actionsContainer}>
+            <Button size="large" accessoryLeft={CheckIcon} onPress={confirm}>
+              {i18n.t('prescription_review.confirm')}
+            </Button>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Layout>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  keyboardView: { flex: 1 },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: Spacing.md,
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.md,
+  },
+  medicationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  source: {
+    marginTop: Spacing.xs,
+  },
+  input: {
+    marginBottom: Spacing.md,
+  },
+  actionsContainer: {
+    paddingVertical: Spacing.xl,
+  },
+});
+
+export default PrescriptionReviewScreen;
@@ -22,34 +22,52 @@ import {
   Divider,
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { format, isToday, isTomorrow, addDays } from 'date-fns';
+import { format, isToday, isTomorrow, addDays, startOfDay, endOfDay } from 'date-fns';
 import { enZA, af } from 'date-fns/locale';
 
 // Services and utilities
 import apiService from '../../services/apiService';
+import doseLedgerService from '../../services/doseLedgerService';
+import escalationService from '../../services/escalationService';
+import inventoryService from '../../services/inventoryService';
 import offlineService from '../../services/offlineService';
 import notificationService from '../../services/notificationService';
 import authService from '../../services/authService';
+import routineService from '../../services/routineService';
+import travelService from '../../services/travelService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
 import { LargeAccessibleButton } from '../../components/accessibility/AccessibleComponents'
+import { calculateAdherence } from '../../utils/doseLedger';
+import { EscalationState, escalationChain, escalationState } from '../../utils/escalation';
 
 // Types
+import { DoseEscalation } from '../../types/escalation';
+import { StockProjection } from '../../types/inventory';
+import { Medication } from '../../types/medication';
+
+interface DashboardDose {
+  id: string;
+  scheduleId: string;
+  medicationId: string;
+  medicationName: string;
+  medicationImage?: string;
+  scheduledTime: string;
+  dosage: string;
+}
+
 interface DashboardData {
-  upcomingDoses: Array<{
-    id: number;
-    medication: any;
-    scheduledTime: string;
-    dosageAmount: string;
-  }>;
+  upcomingDoses: DashboardDose[];
+  /** Overdue doses going through the missed-dose escalation chain */
+  escalatingDoses: Array<DashboardDose & { escalation: EscalationState }>;
   todaysDoses: {
     total: number;
     taken: number;
     missed: number;
     upcoming: number;
   };
-  lowStockMedications: any[];
+  lowStockMedications: Array<Medication & { stock: StockProjection }>;
   expiringMedications: any[];
   adherenceRate: number;
 }
@@ -103,76 +121,71 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
 
   const loadDashboardData = async () => {
     try {
-      const [medications, schedules] = await Promise.all([
+      const [medications, schedules, policies] = await Promise.all([
         apiService.getMedications(),
         apiService.getMedicationSchedules(),
+        escalationService.getPolicies(),
       ]);
 
       // Calculate dashboard metrics
       const now = new Date();
       const today = format(now, 'yyyy-MM-dd');
       
-      // Filter today's doses
-      const todaysSchedules = schedules.filter(schedule => {
-        if (schedule.status !== 'active') return false;
-        
-        const dayOfWeek = now.getDay(); // 0 = Sunday
-        const dayFields = [
-          schedule.sunday, schedule.monday, schedule.tuesday,
-          schedule.wednesday, schedule.thursday, schedule.friday, schedule.saturday
-        ];
-        
-        return dayFields[dayOfWeek];
-      });
+      // Today's doses from the dose ledger
+      const activeSchedules = await travelService.applyTo(
+        await routineService.applyTo(schedules.filter(schedule => schedule.status === 'active'))
+      );
+      const todaysEvents = await doseLedgerService.materialize(activeSchedules, startOfDay(now), endOfDay(now));
+
+      const toDashboardDose = (event: typeof todaysEvents[number]): DashboardDose => {
+        const medication = medications.find(med => med.id === event.medicationId);
+        return {
+          id: event.id,
+          scheduleId: event.scheduleId,
+          medicationId: event.medicationId,
+          medicationName: event.medicationName || medication?.name || '',
+          ...(medication?.medicationImage && { medicationImage: medication.medicationImage }),
+          scheduledTime: event.scheduledTime,
+          dosage: event.dosage,
+        };
+      };
 
       // Get upcoming doses (next 6 hours)
-      const upcomingDoses = todaysSchedules
-        .map(schedule => {
-          let scheduledTime: Date;
-          
-          if (schedule.timing === 'custom' && schedule.customTime) {
-            const [hours, minutes] = schedule.customTime.split(':').map(Number);
-            scheduledTime = new Date(now);
-            scheduledTime.setHours(hours || 0, minutes || 0, 0, 0);
-          } else {
-            const timeMap = {
-              morning: { hours: 8, minutes: 0 },
-              noon: { hours: 12, minutes: 0 },
-              night: { hours: 20, minutes: 0 },
-            };
-            
-            const time = timeMap[schedule.timing as keyof typeof timeMap] || timeMap.morning;
-            scheduledTime = new Date(now);
-            scheduledTime.setHours(time.hours, time.minutes, 0, 0);
-          }
-
-          return {
-            id: schedule.id,
-            medication: schedule.medication,
-            scheduledTime: scheduledTime.toISOString(),
-            dosageAmount: schedule.dosageAmount,
-            schedule,
-          };
-        })
-        .filter(dose => {
-          const doseTime = new Date(dose.scheduledTime);
-          const sixHoursLater = new Date(now.getTime() + 6 * 60 * 60 * 1000);
-          return doseTime >= now && doseTime <= sixHoursLater;
+      const sixHoursLater = new Date(now.getTime() + 6 * 60 * 60 * 1000);
+      const upcomingDoses = todaysEvents
+        .filter(event => {
+          const doseTime = new Date(event.scheduledTime);
+          return event.status === 'pending' && doseTime >= now && doseTime <= sixHoursLater;
         })
-        .sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
+        .map(toDashboardDose);
+
+      // Overdue doses and how far their escalation has got
+      const escalatingDoses = todaysEvents.flatMap(event => {
+        const schedule = activeSchedules.find(item => item.id === event.scheduleId);
+        const outstanding = event.status === 'pending' || event.status === 'missed';
+        if (!schedule || !outstanding || new Date(event.scheduledTime) > now) return [];
+        const escalation = escalationState(event, escalationChain(policies, schedule));
+        return escalation.next || escalation.taken.some(step => step.delivered)
+          ? [{ ...toDashboardDose(event), escalation }]
+          : [];
+      });
 
-      // Calculate adherence metrics (this would come from logs in real implementation)
+      const todaysSummary = calculateAdherence(todaysEvents);
       const todaysDoses = {
-        total: todaysSchedules.length,
-        taken: Math.floor(todaysSchedules.length * 0.8), // Mock data
-        missed: Math.floor(todaysSchedules.length * 0.1), // Mock data
-        upcoming: todaysSchedules.length - Math.floor(todaysSchedules.length * 0.9),
+        total: todaysEvents.length,
+        taken: todaysSummary.taken + todaysSummary.late + todaysSummary.partial,
+        missed: todaysSummary.missed,
+        upcoming: todaysSummary.pending,
       };
 
-      // Find low stock medications
-      const lowStockMedications = medications.filter(
-        med => med.pillCount <= med.lowStockThreshold
-      );
+      // Medications projected to run out soon
+      const projections = await inventoryService.getProjections(medications, schedules, now);
+      const lowStockMedications = projections
+        .filter(projection => projection.level !== 'ok')
+        .flatMap(projection => {
+          const medication = medications.find(med => med.id === projection.medicationId);
+          return medication ? [{ ...medication, stock: projection }] : [];
+        });
 
       // Find expiring medications (within 30 days)
       const thirtyDaysFromNow = addDays(now, 30);
@@ -182,13 +195,13 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
         return expiryDate <= thirtyDaysFromNow && expiryDate >= now;
       });
 
-      // Calculate overall adherence rate
-      const adherenceRate = todaysDoses.total > 0 
-        ? Math.round((todaysDoses.taken / todaysDoses.total) * 100)
-        : 100;
+      // Overall adherence from the last 30 days of recorded doses
+      const recent = await doseLedgerService.getAdherence({ from: addDays(now, -30), to: now });
+      const adherenceRate = recent.adherenceRate === null ? 100 : Math.round(recent.adherenceRate);
 
       setDashboardData({
         upcomingDoses,
+        escalatingDoses,
         todaysDoses,
         lowStockMedications,
         expiringMedications,
@@ -214,9 +227,9 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
     setRefreshing(false);
   }, []);
 
-  const markDoseAsTaken = async (scheduleId: number) => {
+  const markDoseAsTaken = async (dose: DashboardDose) => {
     try {
-      await apiService.logMedicationTaken(scheduleId, new Date());
+      await doseLedgerService.recordTaken(dose);
       await loadDashboardData(); // Refresh dashboard
     } catch (error) {
       console.error('Mark dose taken error:', error);
@@ -256,11 +269,11 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
 
   const renderUpcomingDoseItem = ({ item }: any) => (
     <ListItem
-      title={item.medication.name}
-      description={`${item.dosageAmount} - ${formatUpcomingDoseTime(item.scheduledTime)}`}
+      title={item.medicationName}
+      description={`${item.dosage} - ${formatUpcomingDoseTime(item.scheduledTime)}`}
       accessoryLeft={() => (
         <Avatar
-          source={{ uri: item.medication.medicationImage }}
+          source={{ uri: item.medicationImage }}
           ImageComponent={MedicationIcon}
           style={styles.medicationAvatar}
         />
@@ -270,7 +283,7 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
           size="small"
           status="success"
           accessoryLeft={CheckIcon}
-          onPress={() => markDoseAsTaken(item.id)}
+          onPress={() => markDoseAsTaken(item)}
         >
           {i18n.t('reminders.take_now')}
         </Button>
@@ -279,6 +292,63 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
     />
   );
 
+  const describeEscalationStep = (step: DoseEscalation): string => {
+    const time = format(new Date(step.at), 'HH:mm');
+    if (!step.delivered) {
+      return i18n.t('escalation.not_sent', { step: i18n.t(`escalation.steps.${step.type}`) });
+    }
+    return step.type === 'caregiver' && step.channel
+      ? i18n.t('escalation.caregiver_notified', { channel: i18n.t(`escalation.channels.${step.channel}`), time })
+      : i18n.t(`escalation.sent.${step.type}`, { time });
+  };
+
+  const renderEscalations = () => {
+    if (!dashboardData?.escalatingDoses.length) return null;
+
+    return (
+      <Card style={styles.alertsCard} status="danger">
+        <View style={styles.cardHeader}>
+          <Icon
+            name="bell"
+            fill={MedGuardColors.alerts.criticalRed}
+            style={styles.cardIcon}
+          />
+          <Text category="h6">{i18n.t('escalation.title')}</Text>
+        </View>
+
+        {dashboardData.escalatingDoses.map(dose => (
+          <View key={`escalation-${dose.id}`} style={styles.alertItem}>
+            <Text category="s1">
+              {dose.medicationName} · {dose.dosage} · {format(new Date(dose.scheduledTime), 'HH:mm')}
+            </Text>
+            {dose.escalation.taken.map(step => (
+              <Text key={step.step} category="caption1" appearance="hint">
+                {describeEscalationStep(step)}
+              </Text>
+            ))}
+            {dose.escalation.next && (
+              <Text category="caption1" status="danger">
+                {i18n.t('escalation.next_step', {
+                  step: i18n.t(`escalation.steps.${dose.escalation.next.type}`),
+                  time: format(dose.escalation.next.dueAt, 'HH:mm'),
+                })}
+              </Text>
+            )}
+            <Button
+              size="small"
+              status="success"
+              accessoryLeft={CheckIcon}
+              onPress={() => markDoseAsTaken(dose)}
+              style={styles.escalationAction}
+            >
+              {i18n.t('reminders.take_now')}
+            </Button>
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
   const renderQuickStats = () => (
     <View style={styles.quickStatsContainer}>
       <Card style={styles.statCard}>
@@ -356,7 +426,12 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
               {i18n.t('alerts.medication_running_low', { medication: med.name })}
             </Text>
             <Text category="caption1" appearance="hint">
-              {i18n.t('alerts.pills_remaining', { count: med.pillCount })}
+              {med.stock.daysRemaining !== null
+                ? i18n.t(med.stock.daysRemaining === 0 ? 'alerts.runs_out_today' : 'alerts.runs_out_in_days', {
+                  medication: med.name,
+                  days: med.stock.daysRemaining,
+                })
+                : i18n.t('alerts.pills_remaining', { count: med.pillCount })}
             </Text>
           </View>
         ))}
@@ -416,6 +491,9 @@ const HomeScreen: React.FC = ({ navigation }: any) => {
         {/* Quick Stats */}
         {renderQuickStats()}
 
+        {/* Missed-dose escalation */}
+        {renderEscalations()}
+
         {/* Alerts */}
         {renderAlerts()}
 
@@ -528,6 +606,10 @@ const styles = StyleSheet.create({
     marginTop: Spacing.xs,
     paddingTop: Spacing.sm,
   },
+  escalationAction: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.xs,
+  },
   upcomingDosesCard: {
     marginBottom: Spacing.md,
   },
@@ -24,10 +24,20 @@ import {
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
+import { parseISO } from 'date-fns';
 import apiService from '../../services/apiService';
+import interactionService from '../../services/interactionService';
+import prescriptionService from '../../services/prescriptionService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
+import { PrescriptionOCRResult } from '../../types/api';
+import { Medication, MedicationInput, parseCount } from '../../types/medication';
+import { DEFAULT_PRESCRIPTION_REPEATS } from '../../types/prescription';
+import { CatalogueProduct, prescriptionTypeFor } from '../../types/productCatalogue';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
+import { PackBarcode } from '../../utils/barcode';
+import { confirmInteractions } from '../../utils/interactionUtils';
 
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
 const SaveIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
@@ -35,7 +45,11 @@ const CameraIcon = (props: IconProps) => <Icon {...props} name='camera-outline'
 
 const AddMedicationScreen: React.FC = ({ navigation, route }: any) => {
   const insets = useSafeAreaInsets();
-  const { ocrResult } = route.params || {};
+  const {
+    ocrResult,
+    product,
+    barcode,
+  }: { ocrResult?: PrescriptionOCRResult; product?: CatalogueProduct; barcode?: PackBarcode } = route.params || {};
   
   const [name, setName] = useState('');
   const [genericName, setGenericName] = useState('');
@@ -45,22 +59,43 @@ const AddMedicationScreen: React.FC = ({ navigation, route }: any) => {
   const [description, setDescription] = useState('');
   const [manufacturer, setManufacturer] = useState('');
   const [expirationDate, setExpirationDate] = useState<Date | null>(null);
+  const [batchNumber, setBatchNumber] = useState('');
   const [selectedMedicationType, setSelectedMedicationType] = useState(new IndexPath(0));
   const [selectedPrescriptionType, setSelectedPrescriptionType] = useState(new IndexPath(0));
+  const [issueDate, setIssueDate] = useState(new Date());
+  const [repeats, setRepeats] = useState(String(DEFAULT_PRESCRIPTION_REPEATS));
+  const [pharmacyName, setPharmacyName] = useState('');
   const [loading, setLoading] = useState(false);
 
   const medicationTypes = Object.keys(i18n.t('medication_types', { returnObjects: true }) as unknown as Record<string, string>);
   const prescriptionTypes = Object.keys(i18n.t('prescription_types', { returnObjects: true }) as unknown as Record<string, string>);
 
   useEffect(() => {
-    if (ocrResult && ocrResult.medications && ocrResult.medications.length > 0) {
-      const firstMed = ocrResult.medications[0];
+    const firstMed = ocrResult?.medications?.[0];
+    if (firstMed) {
       setName(firstMed.name || '');
       setStrength(firstMed.strength || '');
       setDescription(firstMed.instructions || '');
     }
   }, [ocrResult]);
 
+  // Filled in from a scanned pill pack: the catalogue product and what the code itself carries
+  useEffect(() => {
+    if (product) {
+      setName(product.name);
+      setGenericName(product.genericName ?? '');
+      setStrength(product.strength);
+      setPillCount(String(product.packSize));
+      setManufacturer(product.manufacturer ?? '');
+      const typeIndex = medicationTypes.indexOf(product.dosageForm);
+      if (typeIndex >= 0) setSelectedMedicationType(new IndexPath(typeIndex));
+      const prescriptionIndex = prescriptionTypes.indexOf(prescriptionTypeFor(product.scheduleLevel));
+      if (prescriptionIndex >= 0) setSelectedPrescriptionType(new IndexPath(prescriptionIndex));
+    }
+    if (barcode?.expiryDate) setExpirationDate(parseISO(barcode.expiryDate));
+    if (barcode?.batchNumber) setBatchNumber(barcode.batchNumber);
+  }, [product, barcode]);
+
   const handleSave = async () => {
     if (!name || !strength || !pillCount) {
       Alert.alert(i18n.t('common.error'), i18n.t('errors.validation_error'));
@@ -71,25 +106,50 @@ const AddMedicationScreen: React.FC = ({ navigation, route }: any) => {
       setLoading(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      const medicationData = {
+      const nappiCode = product?.nappiCode ?? barcode?.nappiCode;
+      const medicationData: MedicationInput = {
         name: name.trim(),
-        genericName: genericName.trim() || undefined,
+        ...(genericName.trim() && { genericName: genericName.trim() }),
         strength: strength.trim(),
-        medicationType: medicationTypes[selectedMedicationType.row],
-        prescriptionType: prescriptionTypes[selectedPrescriptionType.row],
-        pillCount: parseInt(pillCount),
-        lowStockThreshold: parseInt(lowStockThreshold),
-        description: description.trim() || undefined,
-        manufacturer: manufacturer.trim() || undefined,
-        expirationDate: expirationDate?.toISOString() || undefined,
+        medicationType: medicationTypes[selectedMedicationType.row] ?? 'other',
+        prescriptionType: prescriptionTypes[selectedPrescriptionType.row] ?? 'prescription',
+        pillCount: parseCount(pillCount),
+        lowStockThreshold: parseCount(lowStockThreshold),
+        status: 'active',
+        ...(description.trim() && { description: description.trim() }),
+        ...(manufacturer.trim() && { manufacturer: manufacturer.trim() }),
+        ...(expirationDate && { expirationDate: expirationDate.toISOString() }),
+        ...(nappiCode && { nappiCode }),
+        ...(batchNumber.trim() && { batchNumber: batchNumber.trim() }),
       };
 
-      // await apiService.createMedication(medicationData);
+      const currentMedications = (await apiService.readCache('medications') as Medication[]).filter(
+        medication => medication.status === 'active'
+      );
+      if (!(await confirmInteractions(interactionService.checkAgainst(medicationData, currentMedications)))) {
+        return;
+      }
+
+      const result = await apiService.createMedication(medicationData);
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
+
+      if (ocrResult) {
+        const linked = await prescriptionService.attachFromOCR(ocrResult, result.data.id, {
+          issueDate,
+          repeats: parseCount(repeats),
+          ...(pharmacyName.trim() && { pharmacyName: pharmacyName.trim() }),
+        });
+        if (!linked.ok) console.error('Link prescription error:', linked.error);
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('medications.medication_saved'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('medications.medication_saved'),
         [
           {
             text: i18n.t('common.ok'),
@@ -131,6 +191,16 @@ const AddMedicationScreen: React.FC = ({ navigation, route }: any) => {
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       >
         <ScrollView style={styles.scrollView}>
+          {barcode && (
+            <Card style={styles.card} status={product ? 'info' : 'warning'}>
+              <Text category="s1">
+                {product
+                  ? i18n.t('pack_scan.filled_in', { nappi: product.nappiCode })
+                  : i18n.t('pack_scan.not_in_catalogue')}
+              </Text>
+            </Card>
+          )}
+
           <Card style={styles.card}>
             <Text category="h6" style={styles.sectionTitle}>
               {i18n.t('medications.basic_information')}
@@ -220,8 +290,51 @@ const AddMedicationScreen: React.FC = ({ navigation, route }: any) => {
               onSelect={setExpirationDate}
               style={styles.input}
             />
+
+            {barcode && (
+              <Input
+                label={i18n.t('pack_scan.batch_number')}
+                value={batchNumber}
+                onChangeText={setBatchNumber}
+                autoCapitalize="characters"
+                style={styles.input}
+              />
+            )}
           </Card>
 
+          {ocrResult && (
+            <Card style={styles.card}>
+              <Text category="h6" style={styles.sectionTitle}>
+                {i18n.t('prescriptions.title')}
+              </Text>
+
+              <Datepicker
+                label={i18n.t('prescriptions.issue_date')}
+                date={issueDate}
+                onSelect={setIssueDate}
+                max={new Date()}
+                style={styles.input}
+              />
+
+              <Input
+                label={i18n.t('prescriptions.repeats')}
+                caption={i18n.t('prescriptions.repeats_hint')}
+                value={repeats}
+                onChangeText={setRepeats}
+                keyboardType="numeric"
+                style={styles.input}
+              />
+
+              <Input
+                label={i18n.t('prescriptions.pharmacy')}
+                placeholder={i18n.t('prescriptions.pharmacy')}
+                value={pharmacyName}
+                onChangeText={setPharmacyName}
+                style={styles.input}
+              />
+            </Card>
+          )}
+
           <Card style={styles.card}>
             <Text category="h6" style={styles.sectionTitle}>
               {i18n.t('medications.additional_info')}
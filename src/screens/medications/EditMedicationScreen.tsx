@@ -30,6 +30,8 @@ import * as Haptics from 'expo-haptics';
 import apiService from '../../services/apiService';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
+import { Medication, parseCount } from '../../types/medication';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
 import i18n from '../../i18n';
 
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
@@ -99,25 +101,30 @@ const EditMedicationScreen: React.FC = ({ navigation, route }: any) => {
       setSaving(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      const medicationData = {
+      const medicationData: Partial<Medication> = {
         name: name.trim(),
-        genericName: genericName.trim() || undefined,
+        ...(genericName.trim() && { genericName: genericName.trim() }),
         strength: strength.trim(),
-        medicationType: medicationTypes[selectedMedicationType.row],
-        prescriptionType: prescriptionTypes[selectedPrescriptionType.row],
-        pillCount: parseInt(pillCount),
-        lowStockThreshold: parseInt(lowStockThreshold),
-        description: description.trim() || undefined,
-        manufacturer: manufacturer.trim() || undefined,
-        expirationDate: expirationDate?.toISOString() || undefined,
+        medicationType: medicationTypes[selectedMedicationType.row] ?? 'other',
+        prescriptionType: prescriptionTypes[selectedPrescriptionType.row] ?? 'prescription',
+        pillCount: parseCount(pillCount),
+        lowStockThreshold: parseCount(lowStockThreshold),
+        ...(description.trim() && { description: description.trim() }),
+        ...(manufacturer.trim() && { manufacturer: manufacturer.trim() }),
+        ...(expirationDate && { expirationDate: expirationDate.toISOString() }),
       };
 
-      // await apiService.updateMedication(medicationId, medicationData);
+      const result = await apiService.updateMedication(medicationId, medicationData);
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('medications.medication_saved'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('medications.medication_saved'),
         [
           {
             text: i18n.t('common.ok'),
@@ -0,0 +1,241 @@
+/**
+ * MedGuard SA - What is this pill?
+ * Photographs a loose pill and compares its colour, shape and imprint with
+ * the pill photos in the user's own medication galleries, on the device.
+ * Matches are a guide; the screen says so.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Image, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  Icon,
+  IconProps,
+  Layout,
+  ListItem,
+  Spinner,
+  Text,
+  TopNavigation,
+  TopNavigationAction,
+} from '@ui-kitten/components';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import apiService from '../../services/apiService';
+import photoService, { PhotoPermissionError, PhotoSource, PillIdentification } from '../../services/photoService';
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { Medication } from '../../types/medication';
+import { PillMatch } from '../../utils/pillFeatures';
+
+const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
+const CameraIcon = (props: IconProps) => <Icon {...props} name='camera-outline' />;
+const GalleryIcon = (props: IconProps) => <Icon {...props} name='image-outline' />;
+
+const percent = (value: number): number => Math.round(value * 100);
+
+const MatchThumbnail: React.FC<{ match: PillMatch }> = ({ match }) => {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    photoService
+      .loadImage(match.photo, { thumbnail: true })
+      .then(setUri)
+      .catch(error => console.error('Load match thumbnail error:', error));
+  }, [match.photo]);
+
+  return uri ? <Image source={{ uri }} style={styles.thumbnail} /> : <View style={[styles.thumbnail, styles.placeholder]} />;
+};
+
+const IdentifyPillScreen: React.FC = ({ navigation }: any) => {
+  const insets = useSafeAreaInsets();
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [libraryCount, setLibraryCount] = useState<number | null>(null);
+  const [result, setResult] = useState<PillIdentification | null>(null);
+  const [matching, setMatching] = useState(false);
+
+  useEffect(() => {
+    apiService.getMedications().then(setMedications).catch(error => console.error('Load medications error:', error));
+    photoService.getPhotos().then(photos => setLibraryCount(photos.filter(photo => photo.features).length));
+  }, []);
+
+  const identify = async (source: PhotoSource) => {
+    try {
+      const uri = await photoService.pickImage(source);
+      if (!uri) return;
+      setMatching(true);
+      setResult(await photoService.identify(uri));
+    } catch (error) {
+      if (error instanceof PhotoPermissionError) {
+        Alert.alert(i18n.t('common.error'), i18n.t('medication_photos.permission_denied'));
+        return;
+      }
+      console.error('Identify pill error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const renderMatch = (match: PillMatch) => {
+    const medication = medications.find(candidate => candidate.id === match.medicationId);
+    const { similarity } = match;
+    const parts = [
+      i18n.t('pill_identify.colour', { percent: percent(similarity.colour) }),
+      i18n.t('pill_identify.shape', { percent: percent(similarity.shape) }),
+      similarity.imprint !== undefined ? i18n.t('pill_identify.imprint', { percent: percent(similarity.imprint) }) : '',
+    ].filter(Boolean);
+
+    return (
+      <ListItem
+        key={match.medicationId}
+        title={medication ? `${medication.name} ${medication.strength}` : i18n.t('medications.medication_not_found')}
+        description={`${i18n.t('pill_identify.alike', { percent: percent(similarity.score) })}\n${parts.join(' · ')}`}
+        accessoryLeft={() => <MatchThumbnail match={match} />}
+        onPress={() => medication && navigation.navigate('MedicationDetail', { medicationId: medication.id })}
+        style={styles.match}
+      />
+    );
+  };
+
+  const renderResult = (identification: PillIdentification) => {
+    const { features, matches } = identification;
+    if (!features) {
+      return (
+        <Card style={styles.card} status="warning">
+          <Text>{i18n.t('medication_photos.no_pill_found')}</Text>
+        </Card>
+      );
+    }
+
+    return (
+      <Card style={styles.card}>
+        <Text category="h6" style={styles.sectionTitle}>
+          {i18n.t('pill_identify.results')}
+        </Text>
+        <View style={styles.readRow}>
+          <View style={[styles.swatch, { backgroundColor: features.meanColour }]} />
+          <Text category="s2">
+            {[
+              i18n.t(`pill_identify.shapes.${features.shape}`),
+              features.imprint ? i18n.t('pill_identify.imprint_read', { imprint: features.imprint }) : '',
+            ].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+
+        {matches.length > 0 ? matches.map(renderMatch) : <Text>{i18n.t('pill_identify.no_match')}</Text>}
+
+        <Text category="c1" style={styles.caution}>
+          {i18n.t('pill_identify.caution')}
+        </Text>
+      </Card>
+    );
+  };
+
+  return (
+    <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
+      <TopNavigation
+        title={i18n.t('pill_identify.title')}
+        alignment="center"
+        accessoryLeft={() => <TopNavigationAction icon={BackIcon} onPress={() => navigation.goBack()} />}
+      />
+
+      <ScrollView style={styles.scrollView}>
+        <Card style={styles.card}>
+          <Text category="s1" style={styles.hint}>
+            {i18n.t('pill_identify.hint')}
+          </Text>
+          <Text category="c1" appearance="hint" style={styles.hint}>
+            {i18n.t('medication_photos.pill_tip')}
+          </Text>
+          {libraryCount === 0 && (
+            <Text category="c1" style={[styles.hint, styles.warning]}>
+              {i18n.t('pill_identify.no_library')}
+            </Text>
+          )}
+
+          {matching ? (
+            <View style={styles.matching}>
+              <Spinner />
+              <Text appearance="hint">{i18n.t('pill_identify.matching')}</Text>
+            </View>
+          ) : (
+            <View style={styles.actions}>
+              <Button accessoryLeft={CameraIcon} onPress={() => identify('camera')}>
+                {i18n.t('medication_photos.take_photo')}
+              </Button>
+              <Button appearance="outline" accessoryLeft={GalleryIcon} onPress={() => identify('library')}>
+                {i18n.t('medication_photos.choose_photo')}
+              </Button>
+            </View>
+          )}
+        </Card>
+
+        {result && !matching && renderResult(result)}
+      </ScrollView>
+    </Layout>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: Spacing.md,
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+  warning: {
+    color: MedGuardColors.alerts.warningAmber,
+  },
+  actions: {
+    gap: Spacing.sm,
+  },
+  matching: {
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.lg,
+  },
+  readRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  swatch: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: MedGuardColors.extended.borderGray,
+  },
+  match: {
+    paddingHorizontal: 0,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    marginRight: Spacing.sm,
+  },
+  placeholder: {
+    backgroundColor: MedGuardColors.extended.lightGray,
+  },
+  caution: {
+    color: MedGuardColors.alerts.warningAmber,
+    marginTop: Spacing.md,
+  },
+});
+
+export default IdentifyPillScreen;
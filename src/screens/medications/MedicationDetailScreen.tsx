@@ -5,6 +5,8 @@ import {
   View,
   Alert,
   Image,
+  Dimensions,
+  Share,
 } from 'react-native';
 import {
   Layout,
@@ -16,46 +18,69 @@ import {
   TopNavigation,
   TopNavigationAction,
   Divider,
+  Input,
+  Modal,
+  CheckBox,
+  Toggle,
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
-import { format, parseISO } from 'date-fns';
+import { addDays, format, parseISO } from 'date-fns';
 import { enZA, af } from 'date-fns/locale';
+import { useMedications } from '../../contexts/MedicationContext';
 import apiService from '../../services/apiService';
+import inventoryService from '../../services/inventoryService';
+import notificationService from '../../services/notificationService';
+import photoService from '../../services/photoService';
+import prescriptionService from '../../services/prescriptionService';
+import reminderPlannerService from '../../services/reminderPlannerService';
+import PhotoThumbnail from '../../components/medications/PhotoThumbnail';
+import ReminderProfileFields from '../../components/reminders/ReminderProfileFields';
+import SkippedDosesNotice from '../../components/reminders/SkippedDosesNotice';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
+import { StockMovement, StockProjection } from '../../types/inventory';
+import { Medication } from '../../types/medication';
+import { Prescription } from '../../types/prescription';
+import { ReminderSettings } from '../../types/reminder';
+import { ReminderProfile, ReminderProfiles } from '../../types/reminderProfile';
+import { MedicationSchedule, SCHEDULE_PRIORITIES, SchedulePriority } from '../../types/schedule';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
+import { prescriptionWarnings } from '../../utils/prescription';
+import { SkippedDose, findSkippedDoses } from '../../utils/reminderPlanner';
 
 const EditIcon = (props: IconProps) => <Icon {...props} name='edit-outline' />;
 const DeleteIcon = (props: IconProps) => <Icon {...props} name='trash-2-outline' />;
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
 const CalendarIcon = (props: IconProps) => <Icon {...props} name='calendar-outline' />;
 const AlertIcon = (props: IconProps) => <Icon {...props} name='alert-circle-outline' />;
+const RefillIcon = (props: IconProps) => <Icon {...props} name='shopping-bag-outline' />;
+const ShareIcon = (props: IconProps) => <Icon {...props} name='share-outline' />;
+const PhotosIcon = (props: IconProps) => <Icon {...props} name='image-outline' />;
 
-interface Medication {
-  id: number;
-  name: string;
-  genericName?: string;
-  strength: string;
-  medicationType: string;
-  prescriptionType: string;
-  pillCount: number;
-  lowStockThreshold: number;
-  description?: string;
-  manufacturer?: string;
-  medicationImage?: string;
-  expirationDate?: string;
-  activeIngredients?: string;
-  sideEffects?: string;
-  contraindications?: string;
-  storageInstructions?: string;
-}
+const { width: screenWidth } = Dimensions.get('window');
+const STOCK_HISTORY_SIZE = 5;
+const SKIPPED_DOSE_DAYS = 7;
 
 const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
   const insets = useSafeAreaInsets();
+  const { canEdit, profile: linkedProfile } = useMedications();
   const { medicationId } = route.params;
   const [medication, setMedication] = useState<Medication | null>(null);
+  const [stock, setStock] = useState<StockProjection | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [refillVisible, setRefillVisible] = useState(false);
+  const [refillQuantity, setRefillQuantity] = useState('');
+  const [refillOwed, setRefillOwed] = useState('');
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
+  const [countsAsRepeat, setCountsAsRepeat] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [schedules, setSchedules] = useState<MedicationSchedule[]>([]);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
+  const [reminderProfiles, setReminderProfiles] = useState<ReminderProfiles | null>(null);
+  // The medication's own profile as edited; null when it follows its schedules' priorities
+  const [reminderProfile, setReminderProfile] = useState<ReminderProfile | null>(null);
 
   const locale = i18n.getCurrentLanguage() === 'af' ? af : enZA;
 
@@ -70,6 +95,8 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
       const medications = await apiService.getMedications();
       const med = medications.find(m => m.id === medicationId);
       setMedication(med || null);
+      await loadStock();
+      await loadReminderProfile();
     } catch (error) {
       console.error('Load medication error:', error);
       Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
@@ -78,6 +105,108 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
     }
   };
 
+  const loadStock = async () => {
+    const [projection, history, script] = await Promise.all([
+      inventoryService.getProjection(medicationId),
+      inventoryService.getMovements(medicationId),
+      prescriptionService.getForMedication(medicationId),
+    ]);
+    setStock(projection);
+    setMovements(history.slice(0, STOCK_HISTORY_SIZE));
+    setPrescription(script ?? null);
+  };
+
+  const loadReminderProfile = async () => {
+    const [cached, settings, profiles] = await Promise.all([
+      apiService.readCache('schedules') as Promise<MedicationSchedule[]>,
+      notificationService.getReminderSettings(),
+      notificationService.getReminderProfiles(),
+    ]);
+    setSchedules(cached.filter(schedule => schedule.medicationId === medicationId));
+    setReminderSettings(settings);
+    setReminderProfiles(profiles);
+    setReminderProfile(profiles.medications[medicationId] ?? null);
+  };
+
+  // The highest priority among the medication's schedules
+  const medicationPriority: SchedulePriority = [...SCHEDULE_PRIORITIES]
+    .reverse()
+    .find(priority => schedules.some(schedule => schedule.priority === priority)) ?? 'normal';
+
+  const toggleOwnReminderProfile = (own: boolean) => {
+    if (!reminderProfiles) return;
+    // Starts from the profile its schedules follow now
+    setReminderProfile(own ? reminderProfiles.priorities[medicationPriority] : null);
+  };
+
+  const saveReminderProfile = async () => {
+    try {
+      await notificationService.setMedicationProfile(medicationId, reminderProfile);
+      await reminderPlannerService.replenish();
+      await loadReminderProfile();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Save reminder profile error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    }
+  };
+
+  const skippedDoses = ((): SkippedDose[] => {
+    if (!reminderSettings || !reminderProfiles) return [];
+    const now = new Date();
+    const { [medicationId]: _saved, ...others } = reminderProfiles.medications;
+    const profiles = { ...reminderProfiles, medications: reminderProfile ? { ...others, [medicationId]: reminderProfile } : others };
+    return findSkippedDoses(schedules, reminderSettings, profiles, { from: now, to: addDays(now, SKIPPED_DOSE_DAYS) });
+  })();
+
+  const openRefill = () => {
+    setRefillQuantity('');
+    setRefillOwed(stock?.owed ? String(stock.owed) : '');
+    // Collecting an owed balance is part of the last dispensing, not a new repeat
+    setCountsAsRepeat(Boolean(prescription) && !stock?.owed);
+    setRefillVisible(true);
+  };
+
+  // Partial dispensing: whatever the pharmacy still owes is kept as a balance
+  const saveRefill = async () => {
+    const quantity = Number(refillQuantity.replace(',', '.'));
+    const owed = refillOwed.trim() ? Number(refillOwed.replace(',', '.')) : 0;
+    if (!(quantity > 0) || !(owed >= 0)) {
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.validation_error'));
+      return;
+    }
+
+    try {
+      const updated = await inventoryService.recordRefill(medicationId, quantity, { owed });
+      if (updated) setMedication(updated);
+      const dispensed = prescription && countsAsRepeat
+        ? await prescriptionService.recordDispensing(prescription.id)
+        : undefined;
+      await loadStock();
+      setRefillVisible(false);
+      if (dispensed === null) {
+        Alert.alert(i18n.t('prescriptions.title'), i18n.t('prescriptions.not_counted'));
+      } else if (dispensed && !dispensed.ok) {
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(dispensed.error));
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Record refill error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    }
+  };
+
+  const shareRefillRequest = async () => {
+    if (!medication) return;
+    try {
+      const message = await prescriptionService.buildRefillRequest(medication);
+      await Share.share({ title: i18n.t('prescriptions.refill_request.title'), message });
+    } catch (error) {
+      console.error('Share refill request error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    }
+  };
+
   const handleEdit = () => {
     navigation.navigate('EditMedication', { medicationId });
   };
@@ -99,11 +228,17 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
 
   const deleteMedication = async () => {
     try {
-      // await apiService.deleteMedication(medicationId);
+      const result = await apiService.deleteMedication(medicationId);
+      if (!result.ok) {
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
+      await photoService.deleteForMedication(medicationId);
+      
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('medications.medication_deleted'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('medications.medication_deleted'),
         [
           {
             text: i18n.t('common.ok'),
@@ -117,6 +252,10 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
     }
   };
 
+  const openPhotos = () => {
+    navigation.navigate('MedicationPhotos', { medicationId, medicationName: medication?.name });
+  };
+
   const addSchedule = () => {
     navigation.navigate('Schedule', {
       screen: 'AddSchedule',
@@ -149,7 +288,7 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
 
   const isExpired = medication.expirationDate && 
     new Date() > parseISO(medication.expirationDate);
-  const isLowStock = medication.pillCount <= medication.lowStockThreshold;
+  const isLowStock = stock ? stock.level !== 'ok' : medication.pillCount <= medication.lowStockThreshold;
 
   return (
     <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
@@ -162,32 +301,37 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
             onPress={() => navigation.goBack()}
           />
         )}
-        accessoryRight={() => (
+        accessoryRight={() => canEdit ? (
           <View style={styles.topActions}>
             <TopNavigationAction icon={EditIcon} onPress={handleEdit} />
             <TopNavigationAction icon={DeleteIcon} onPress={handleDelete} />
           </View>
-        )}
+        ) : <></>}
       />
 
       <ScrollView style={styles.scrollView}>
         {/* Medication Image and Basic Info */}
         <Card style={styles.imageCard}>
           <View style={styles.imageContainer}>
-            {medication.medicationImage ? (
-              <Image
-                source={{ uri: medication.medicationImage }}
-                style={styles.medicationImage}
-              />
-            ) : (
-              <View style={[styles.medicationImage, styles.placeholderImage]}>
-                <Icon
-                  name="activity-outline"
-                  style={styles.placeholderIcon}
-                  fill={MedGuardColors.extended.mediumGray}
+            <PhotoThumbnail
+              medicationId={medicationId}
+              size={80}
+              style={styles.medicationImage}
+              fallback={medication.medicationImage ? (
+                <Image
+                  source={{ uri: medication.medicationImage }}
+                  style={styles.medicationImage}
                 />
-              </View>
-            )}
+              ) : (
+                <View style={[styles.medicationImage, styles.placeholderImage]}>
+                  <Icon
+                    name="activity-outline"
+                    style={styles.placeholderIcon}
+                    fill={MedGuardColors.extended.mediumGray}
+                  />
+                </View>
+              )}
+            />
             <View style={styles.basicInfo}>
               <Text category="h4">{medication.name}</Text>
               {medication.genericName && (
@@ -269,6 +413,155 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
           )}
         </Card>
 
+        {/* Stock */}
+        <Card style={styles.card}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {i18n.t('inventory.title')}
+          </Text>
+          <Divider style={styles.divider} />
+
+          <View style={styles.detailRow}>
+            <Text category="s2">{i18n.t('inventory.runs_out')}:</Text>
+            <Text category="s1">
+              {stock?.runOutDate
+                ? format(parseISO(stock.runOutDate), 'PPP', { locale })
+                : i18n.t('inventory.no_projection')}
+            </Text>
+          </View>
+
+          {stock && stock.dailyUsage > 0 && (
+            <View style={styles.detailRow}>
+              <Text category="s2">{i18n.t('inventory.daily_usage')}:</Text>
+              <Text category="s1">{i18n.formatNumber(Math.round(stock.dailyUsage * 10) / 10)}</Text>
+            </View>
+          )}
+
+          {stock && stock.owed > 0 && (
+            <View style={styles.detailRow}>
+              <Text category="s2">{i18n.t('inventory.owed')}:</Text>
+              <Text category="s1">{i18n.formatNumber(stock.owed)}</Text>
+            </View>
+          )}
+
+          {stock && stock.unknownDoses > 0 && (
+            <Text category="c1" appearance="hint" style={styles.stockNote}>
+              {i18n.t('inventory.unknown_doses')}
+            </Text>
+          )}
+
+          {movements.map(movement => (
+            <View key={movement.id} style={styles.movementRow}>
+              <Text category="c1">
+                {`${format(parseISO(movement.at), 'd MMM HH:mm', { locale })} · ${i18n.t(`inventory.movements.${movement.type}`)}`}
+              </Text>
+              <Text category="c1" appearance="hint">
+                {movement.quantity > 0 ? `+${movement.quantity}` : String(movement.quantity)}
+              </Text>
+            </View>
+          ))}
+
+          <Button
+            style={styles.refillButton}
+            appearance="outline"
+            accessoryLeft={RefillIcon}
+            onPress={openRefill}
+          >
+            {i18n.t('inventory.record_refill')}
+          </Button>
+        </Card>
+
+        {/* Prescription */}
+        <Card style={styles.card}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {i18n.t('prescriptions.title')}
+          </Text>
+          <Divider style={styles.divider} />
+
+          {prescription ? (
+            <>
+              {prescription.prescriberName && (
+                <View style={styles.detailRow}>
+                  <Text category="s2">{i18n.t('prescriptions.prescriber')}:</Text>
+                  <Text category="s1">{prescription.prescriberName}</Text>
+                </View>
+              )}
+
+              {prescription.pharmacyName && (
+                <View style={styles.detailRow}>
+                  <Text category="s2">{i18n.t('prescriptions.pharmacy')}:</Text>
+                  <Text category="s1">{prescription.pharmacyName}</Text>
+                </View>
+              )}
+
+              <View style={styles.detailRow}>
+                <Text category="s2">{i18n.t('prescriptions.valid_until')}:</Text>
+                <Text category="s1">{format(parseISO(prescription.expiryDate), 'PPP', { locale })}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text category="s2">{i18n.t('prescriptions.repeats_left')}:</Text>
+                <Text category="s1">
+                  {i18n.t('prescriptions.repeats_of', {
+                    remaining: prescription.repeatsRemaining,
+                    total: prescription.repeatsTotal,
+                  })}
+                </Text>
+              </View>
+
+              {prescriptionWarnings(prescription, new Date()).map(warning => (
+                <Text key={warning.type} category="s2" style={styles.warningText}>
+                  {i18n.t(`prescriptions.warnings.${warning.type}`, {
+                    medication: medication.name,
+                    days: warning.days ?? 0,
+                  })}
+                </Text>
+              ))}
+            </>
+          ) : (
+            <Text category="s1" appearance="hint">
+              {i18n.t('prescriptions.none_linked')}
+            </Text>
+          )}
+
+          <Button
+            style={styles.refillButton}
+            appearance="outline"
+            accessoryLeft={ShareIcon}
+            onPress={shareRefillRequest}
+          >
+            {i18n.t('prescriptions.share_refill_request')}
+          </Button>
+        </Card>
+
+        {/* Reminder profile; reminders only go out for the user's own medication */}
+        {!linkedProfile && reminderProfiles && (
+          <Card style={styles.card}>
+            <Text category="h6" style={styles.sectionTitle}>
+              {i18n.t('reminder_profiles.own_profile')}
+            </Text>
+            <Divider style={styles.divider} />
+
+            <Toggle checked={reminderProfile !== null} onChange={toggleOwnReminderProfile}>
+              {i18n.t('reminder_profiles.use_own_profile')}
+            </Toggle>
+            <Text category="c1" appearance="hint" style={styles.stockNote}>
+              {i18n.t('reminder_profiles.own_profile_hint')}
+            </Text>
+            {reminderProfile && (
+              <ReminderProfileFields
+                profile={reminderProfile}
+                critical={medicationPriority === 'critical'}
+                onChange={setReminderProfile}
+              />
+            )}
+            <SkippedDosesNotice doses={skippedDoses} />
+
+            <Button style={styles.refillButton} appearance="outline" onPress={saveReminderProfile}>
+              {i18n.t('common.save')}
+            </Button>
+          </Card>
+        )}
+
         {/* Additional Information */}
         {(medication.description || medication.activeIngredients) && (
           <Card style={styles.card}>
@@ -306,8 +599,57 @@ const MedicationDetailScreen: React.FC = ({ navigation, route }: any) => {
           >
             {i18n.t('schedule.add_schedule')}
           </Button>
+          <Button
+            style={styles.actionButton}
+            appearance="outline"
+            accessoryLeft={PhotosIcon}
+            onPress={openPhotos}
+          >
+            {i18n.t('medication_photos.title')}
+          </Button>
         </View>
       </ScrollView>
+
+      <Modal visible={refillVisible} backdropStyle={styles.backdrop} onBackdropPress={() => setRefillVisible(false)}>
+        <Card disabled={true} style={styles.refillModal}>
+          <Text category="h6" style={styles.sectionTitle}>
+            {i18n.t('inventory.record_refill')}
+          </Text>
+          <Input
+            label={i18n.t('inventory.quantity_dispensed')}
+            value={refillQuantity}
+            onChangeText={setRefillQuantity}
+            keyboardType="decimal-pad"
+            style={styles.infoSection}
+          />
+          <Input
+            label={i18n.t('inventory.still_owed')}
+            caption={i18n.t('inventory.still_owed_hint')}
+            placeholder="0"
+            value={refillOwed}
+            onChangeText={setRefillOwed}
+            keyboardType="decimal-pad"
+            style={styles.infoSection}
+          />
+          {prescription && (
+            <CheckBox
+              checked={countsAsRepeat}
+              onChange={setCountsAsRepeat}
+              style={styles.infoSection}
+            >
+              {i18n.t('prescriptions.counts_as_repeat', { count: prescription.repeatsRemaining })}
+            </CheckBox>
+          )}
+          <View style={styles.modalActions}>
+            <Button appearance="ghost" onPress={() => setRefillVisible(false)}>
+              {i18n.t('common.cancel')}
+            </Button>
+            <Button onPress={saveRefill}>
+              {i18n.t('common.save')}
+            </Button>
+          </View>
+        </Card>
+      </Modal>
     </Layout>
   );
 };
@@ -402,6 +744,32 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: Spacing.sm,
   },
+  stockNote: {
+    marginTop: Spacing.sm,
+  },
+  warningText: {
+    color: MedGuardColors.alerts.warningAmber,
+    marginTop: Spacing.sm,
+  },
+  movementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+  },
+  refillButton: {
+    marginTop: Spacing.md,
+  },
+  backdrop: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  refillModal: {
+    width: screenWidth * 0.85,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
 });
 
 export default MedicationDetailScreen;
@@ -0,0 +1,316 @@
+/**
+ * MedGuard SA - Medication photos
+ * A medication's own gallery of pill, box and leaflet photos, so similar
+ * tablets can be told apart. Photos are encrypted on the device; pill photos
+ * also feed the "what is this pill?" matcher.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Dimensions, Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  ButtonGroup,
+  Card,
+  Icon,
+  IconProps,
+  Layout,
+  Modal,
+  Spinner,
+  Text,
+  TopNavigation,
+  TopNavigationAction,
+} from '@ui-kitten/components';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+
+import { useMedications } from '../../contexts/MedicationContext';
+import photoService, { PhotoPermissionError, PhotoSource } from '../../services/photoService';
+import i18n from '../../i18n';
+import { MedGuardColors } from '../../theme/colors';
+import { Spacing } from '../../theme/typography';
+import { MedicationPhoto, PHOTO_KINDS, PhotoKind } from '../../types/medicationPhoto';
+
+const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
+const CameraIcon = (props: IconProps) => <Icon {...props} name='camera-outline' />;
+const GalleryIcon = (props: IconProps) => <Icon {...props} name='image-outline' />;
+const DeleteIcon = (props: IconProps) => <Icon {...props} name='trash-2-outline' />;
+
+const { width: screenWidth } = Dimensions.get('window');
+const THUMBNAIL_SIZE = 96;
+
+const MedicationPhotosScreen: React.FC = ({ navigation, route }: any) => {
+  const insets = useSafeAreaInsets();
+  const { canEdit } = useMedications();
+  const { medicationId, medicationName }: { medicationId: string; medicationName?: string } = route.params;
+
+  const [photos, setPhotos] = useState<MedicationPhoto[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [kind, setKind] = useState<PhotoKind>('pill');
+  const [saving, setSaving] = useState(false);
+  const [viewing, setViewing] = useState<{ photo: MedicationPhoto; uri: string | null } | null>(null);
+
+  useEffect(() => {
+    loadPhotos();
+    return photoService.subscribe(changed => {
+      if (changed === medicationId) loadPhotos();
+    });
+  }, [medicationId]);
+
+  const loadPhotos = async () => {
+    const list = await photoService.getPhotos(medicationId);
+    setPhotos(list);
+    const loaded = await Promise.all(
+      list.map(photo =>
+        photoService
+          .loadImage(photo, { thumbnail: true })
+          .then(uri => [photo.id, uri] as const)
+          .catch(error => {
+            console.error('Load photo thumbnail error:', error);
+            return null;
+          })
+      )
+    );
+    setThumbnails(Object.fromEntries(loaded.filter(entry => entry !== null)));
+  };
+
+  const addPhoto = async (source: PhotoSource) => {
+    try {
+      const uri = await photoService.pickImage(source);
+      if (!uri) return;
+      setSaving(true);
+      const photo = await photoService.addPhoto(medicationId, uri, kind);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (kind === 'pill' && !photo.features) {
+        Alert.alert(i18n.t('medication_photos.title'), i18n.t('medication_photos.no_pill_found'));
+      }
+    } catch (error) {
+      if (error instanceof PhotoPermissionError) {
+        Alert.alert(i18n.t('common.error'), i18n.t('medication_photos.permission_denied'));
+        return;
+      }
+      console.error('Add medication photo error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('medication_photos.save_error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openPhoto = async (photo: MedicationPhoto) => {
+    setViewing({ photo, uri: null });
+    try {
+      const uri = await photoService.loadImage(photo);
+      setViewing(current => (current?.photo.id === photo.id ? { photo, uri } : current));
+    } catch (error) {
+      console.error('Load medication photo error:', error);
+      setViewing(null);
+      Alert.alert(i18n.t('common.error'), i18n.t('medication_photos.load_error'));
+    }
+  };
+
+  const deletePhoto = (photo: MedicationPhoto) => {
+    Alert.alert(i18n.t('medication_photos.delete'), i18n.t('medication_photos.delete_confirm'), [
+      { text: i18n.t('common.cancel') },
+      {
+        text: i18n.t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          setViewing(null);
+          await photoService.deletePhoto(photo.id);
+        },
+      },
+    ]);
+  };
+
+  const renderKind = (photoKind: PhotoKind) => {
+    const ofKind = (photos ?? []).filter(photo => photo.kind === photoKind);
+    return (
+      <Card key={photoKind} style={styles.card}>
+        <Text category="h6" style={styles.sectionTitle}>
+          {i18n.t(`medication_photos.kinds.${photoKind}`)}
+        </Text>
+        {ofKind.length === 0 ? (
+          <Text appearance="hint">{i18n.t('medication_photos.none')}</Text>
+        ) : (
+          <View style={styles.grid}>
+            {ofKind.map(photo => (
+              <Pressable
+                key={photo.id}
+                onPress={() => openPhoto(photo)}
+                accessibilityRole="imagebutton"
+                accessibilityLabel={i18n.t(`medication_photos.kinds.${photoKind}`)}
+              >
+                {thumbnails[photo.id] ? (
+                  <Image source={{ uri: thumbnails[photo.id] }} style={styles.thumbnail} />
+                ) : (
+                  <View style={[styles.thumbnail, styles.placeholder]} />
+                )}
+                {photoKind === 'pill' && !photo.features && (
+                  <Text category="c2" style={styles.unusable}>
+                    {i18n.t('medication_photos.not_matchable')}
+                  </Text>
+                )}
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
+      <TopNavigation
+        title={i18n.t('medication_photos.title')}
+        subtitle={medicationName}
+        alignment="center"
+        accessoryLeft={() => <TopNavigationAction icon={BackIcon} onPress={() => navigation.goBack()} />}
+      />
+
+      <ScrollView style={styles.scrollView}>
+        <Card style={styles.card}>
+          <Text category="s1" style={styles.hint}>
+            {i18n.t('medication_photos.hint')}
+          </Text>
+
+          {canEdit && (
+            <>
+              <ButtonGroup appearance="outline" size="small" style={styles.kinds}>
+                {PHOTO_KINDS.map(photoKind => (
+                  <Button
+                    key={photoKind}
+                    appearance={kind === photoKind ? 'filled' : 'outline'}
+                    onPress={() => setKind(photoKind)}
+                  >
+                    {i18n.t(`medication_photos.kinds.${photoKind}`)}
+                  </Button>
+                ))}
+              </ButtonGroup>
+              {kind === 'pill' && (
+                <Text category="c1" appearance="hint" style={styles.hint}>
+                  {i18n.t('medication_photos.pill_tip')}
+                </Text>
+              )}
+              {saving ? (
+                <View style={styles.saving}>
+                  <Spinner />
+                </View>
+              ) : (
+                <View style={styles.addActions}>
+                  <Button style={styles.addButton} accessoryLeft={CameraIcon} onPress={() => addPhoto('camera')}>
+                    {i18n.t('medication_photos.take_photo')}
+                  </Button>
+                  <Button
+                    style={styles.addButton}
+                    appearance="outline"
+                    accessoryLeft={GalleryIcon}
+                    onPress={() => addPhoto('library')}
+                  >
+                    {i18n.t('medication_photos.choose_photo')}
+                  </Button>
+                </View>
+              )}
+            </>
+          )}
+        </Card>
+
+        {photos === null ? (
+          <View style={styles.saving}>
+            <Spinner size="large" />
+          </View>
+        ) : (
+          PHOTO_KINDS.map(renderKind)
+        )}
+      </ScrollView>
+
+      <Modal visible={viewing !== null} backdropStyle={styles.backdrop} onBackdropPress={() => setViewing(null)}>
+        <Card disabled={true} style={styles.viewer}>
+          {viewing?.uri ? (
+            <Image source={{ uri: viewing.uri }} style={styles.fullImage} resizeMode="contain" />
+          ) : (
+            <View style={[styles.fullImage, styles.saving]}>
+              <Spinner />
+            </View>
+          )}
+          <View style={styles.viewerActions}>
+            {canEdit && viewing && (
+              <Button appearance="ghost" status="danger" accessoryLeft={DeleteIcon} onPress={() => deletePhoto(viewing.photo)}>
+                {i18n.t('medication_photos.delete')}
+              </Button>
+            )}
+            <Button onPress={() => setViewing(null)}>{i18n.t('common.close')}</Button>
+          </View>
+        </Card>
+      </Modal>
+    </Layout>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: Spacing.md,
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    color: MedGuardColors.primary.trustBlue,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+  kinds: {
+    marginBottom: Spacing.md,
+  },
+  addActions: {
+    gap: Spacing.sm,
+  },
+  addButton: {
+    width: '100%',
+  },
+  saving: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 8,
+  },
+  placeholder: {
+    backgroundColor: MedGuardColors.extended.lightGray,
+  },
+  unusable: {
+    width: THUMBNAIL_SIZE,
+    color: MedGuardColors.alerts.warningAmber,
+    marginTop: Spacing.xs,
+  },
+  backdrop: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  viewer: {
+    width: screenWidth * 0.9,
+  },
+  fullImage: {
+    width: '100%',
+    height: screenWidth * 0.9,
+  },
+  viewerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+});
+
+export default MedicationPhotosScreen;
@@ -34,6 +34,7 @@ import { enZA, af } from 'date-fns/locale';
 import * as Haptics from 'expo-haptics';
 
 // Services and utilities
+import { useMedications } from '../../contexts/MedicationContext';
 import apiService from '../../services/apiService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
@@ -44,22 +45,7 @@ import MedicationCard from '../../components/medications/MedicationCard';
 import { LargeAccessibleButton } from '../../components/accessibility/AccessibleComponents'
 
 // Types
-interface Medication {
-  id: number;
-  name: string;
-  genericName?: string;
-  strength: string;
-  medicationType: string;
-  prescriptionType: string;
-  pillCount: number;
-  lowStockThreshold: number;
-  description?: string;
-  manufacturer?: string;
-  medicationImage?: string;
-  expirationDate?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { Medication } from '../../types/medication';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -71,12 +57,14 @@ const ScanIcon = (props: IconProps) => <Icon {...props} name='camera-outline' />
 const AlertIcon = (props: IconProps) => <Icon {...props} name='alert-circle-outline' />;
 const CheckIcon = (props: IconProps) => <Icon {...props} name='checkmark-circle-outline' />;
 const CloseIcon = (props: IconProps) => <Icon {...props} name='close-outline' />;
+const IdentifyIcon = (props: IconProps) => <Icon {...props} name='question-mark-circle-outline' />;
 
 // Performance optimization constants
 const MEDICATIONS_PER_PAGE = 20;
 
 const MedicationsScreen: React.FC = ({ navigation }: any) => {
   const insets = useSafeAreaInsets();
+  const { canEdit } = useMedications();
   const [medications, setMedications] = useState<Medication[]>([]);
   const [filteredMedications, setFilteredMedications] = useState<Medication[]>([]);
   const [loading, setLoading] = useState(true);
@@ -218,7 +206,11 @@ const MedicationsScreen: React.FC = ({ navigation }: any) => {
     navigation.navigate('Camera');
   };
 
-  const navigateToMedicationDetail = useCallback((medicationId: number) => {
+  const navigateToIdentifyPill = () => {
+    navigation.navigate('IdentifyPill');
+  };
+
+  const navigateToMedicationDetail = useCallback((medicationId: string) => {
     navigation.navigate('MedicationDetail', { medicationId });
   }, [navigation]);
 
@@ -246,14 +238,16 @@ const MedicationsScreen: React.FC = ({ navigation }: any) => {
         {i18n.t('medications.add_first_medication')}
       </Text>
       
-      <View style={styles.emptyStateActions}>
-        <LargeAccessibleButton onPress={navigateToAddMedication} accessibilityLabel={i18n.t('medications.add_medication')}>
-          {i18n.t('medications.add_medication')}
-        </LargeAccessibleButton>
-        <LargeAccessibleButton onPress={navigateToScanPrescription} accessibilityLabel={i18n.t('camera.title')}>
-          {i18n.t('camera.title')}
-        </LargeAccessibleButton>
-      </View>
+      {canEdit && (
+        <View style={styles.emptyStateActions}>
+          <LargeAccessibleButton onPress={navigateToAddMedication} accessibilityLabel={i18n.t('medications.add_medication')}>
+            {i18n.t('medications.add_medication')}
+          </LargeAccessibleButton>
+          <LargeAccessibleButton onPress={navigateToScanPrescription} accessibilityLabel={i18n.t('camera.title')}>
+            {i18n.t('camera.title')}
+          </LargeAccessibleButton>
+        </View>
+      )}
     </Layout>
   );
 
@@ -316,13 +310,22 @@ const MedicationsScreen: React.FC = ({ navigation }: any) => {
         accessoryRight={() => (
           <View style={styles.topNavActions}>
             <TopNavigationAction
-              icon={ScanIcon}
-              onPress={navigateToScanPrescription}
-            />
-            <TopNavigationAction
-              icon={AddIcon}
-              onPress={navigateToAddMedication}
+              icon={IdentifyIcon}
+              onPress={navigateToIdentifyPill}
+              accessibilityLabel={i18n.t('pill_identify.title')}
             />
+            {canEdit && (
+              <>
+                <TopNavigationAction
+                  icon={ScanIcon}
+                  onPress={navigateToScanPrescription}
+                />
+                <TopNavigationAction
+                  icon={AddIcon}
+                  onPress={navigateToAddMedication}
+                />
+              </>
+            )}
           </View>
         )}
       />
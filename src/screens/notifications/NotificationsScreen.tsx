@@ -20,14 +20,23 @@ import {
   TopNavigationAction,
   Divider,
   Toggle,
+  Select,
+  SelectItem,
+  IndexPath,
+  Spinner,
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { format, isToday, isYesterday } from 'date-fns';
 import { enZA, af } from 'date-fns/locale';
 import * as Haptics from 'expo-haptics';
 import notificationService from '../../services/notificationService';
+import reminderActionService from '../../services/reminderActionService';
+import reminderPlannerService from '../../services/reminderPlannerService';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
+import { useNotificationList } from '../../hooks/useNotificationList';
+import { INBOX_TYPES, InboxFilter, InboxItem, InboxType } from '../../types/inbox';
+import { isOpenReminder } from '../../utils/inbox';
 import i18n from '../../i18n';
 
 const BellIcon = (props: IconProps) => <Icon {...props} name='bell-outline' />;
@@ -37,73 +46,46 @@ const ClockIcon = (props: IconProps) => <Icon {...props} name='clock-outline' />
 const AlertIcon = (props: IconProps) => <Icon {...props} name='alert-circle-outline' />;
 const TrashIcon = (props: IconProps) => <Icon {...props} name='trash-2-outline' />;
 
-interface Notification {
-  id: string;
-  type: 'medication_reminder' | 'low_stock' | 'expiring_soon' | 'missed_dose' | 'general';
-  title: string;
-  body: string;
-  timestamp: Date;
-  read: boolean;
-  actionable: boolean;
-  medicationId?: number;
-  scheduleId?: number;
-}
+type FilterOption = 'all' | 'unread' | InboxType;
+const FILTER_OPTIONS: FilterOption[] = ['all', 'unread', ...INBOX_TYPES];
+
+const filterFor = (option: FilterOption): InboxFilter => {
+  if (option === 'all') return {};
+  if (option === 'unread') return { unreadOnly: true };
+  return { types: [option] };
+};
+
+const filterLabel = (option: FilterOption): string =>
+  option === 'all' || option === 'unread'
+    ? i18n.t(`notifications.${option}`)
+    : i18n.t(`notifications.types.${option}`);
 
 const NotificationsScreen: React.FC = ({ navigation }: any) => {
   const insets = useSafeAreaInsets();
-  const [notifications, setNotifications] = useState<Notification[]>([
-    {
-      id: '1',
-      type: 'medication_reminder',
-      title: '💊 Metformin',
-      body: 'Time for your 500mg dose',
-      timestamp: new Date(),
-      read: false,
-      actionable: true,
-      medicationId: 1,
-      scheduleId: 1,
-    },
-    {
-      id: '2',
-      type: 'low_stock',
-      title: '📦 Low Stock Alert',
-      body: 'Lisinopril is running low (3 pills remaining)',
-      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-      read: false,
-      actionable: false,
-      medicationId: 2,
-    },
-    {
-      id: '3',
-      type: 'missed_dose',
-      title: '⚠️ Missed Dose',
-      body: 'You missed your morning dose of Aspirin',
-      timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-      read: true,
-      actionable: false,
-      medicationId: 3,
-    },
-  ]);
-  const [refreshing, setRefreshing] = useState(false);
+  const {
+    items: notifications,
+    setFilter,
+    hasMore,
+    loadMore,
+    refreshing,
+    refresh,
+    unreadCount,
+    markRead,
+    markAllRead,
+    recordAction,
+    remove,
+    clear,
+  } = useNotificationList();
+  const [selectedFilter, setSelectedFilter] = useState<IndexPath>(new IndexPath(0));
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
 
   const locale = i18n.getCurrentLanguage() === 'af' ? af : enZA;
+  const filterOption = FILTER_OPTIONS[selectedFilter.row] ?? 'all';
 
   useEffect(() => {
-    loadNotifications();
     loadNotificationSettings();
   }, []);
 
-  const loadNotifications = async () => {
-    try {
-      // In a real app, load from API or local storage
-      // const notificationsData = await apiService.getNotifications();
-      // setNotifications(notificationsData);
-    } catch (error) {
-      console.error('Load notifications error:', error);
-    }
-  };
-
   const loadNotificationSettings = async () => {
     try {
       const settings = await notificationService.getReminderSettings();
@@ -114,42 +96,35 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
   };
 
   const onRefresh = async () => {
-    setRefreshing(true);
-    await loadNotifications();
-    setRefreshing(false);
+    await refresh();
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
-  const markAsRead = async (notificationId: string) => {
-    setNotifications(prev =>
-      prev.map(notification =>
-        notification.id === notificationId
-          ? { ...notification, read: true }
-          : notification
-      )
-    );
+  const selectFilter = (index: IndexPath) => {
+    setSelectedFilter(index);
+    setFilter(filterFor(FILTER_OPTIONS[index.row] ?? 'all'));
+  };
+
+  const markAsRead = (notificationId: string) => {
+    markRead([notificationId]).catch(error => console.error('Mark notification read error:', error));
   };
 
   const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notification => ({ ...notification, read: true }))
-    );
+    markAllRead().catch(error => console.error('Mark notifications read error:', error));
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
   const deleteNotification = (notificationId: string) => {
     Alert.alert(
       i18n.t('common.delete'),
-      'Delete this notification?',
+      i18n.t('notifications.delete_confirm'),
       [
         { text: i18n.t('common.cancel') },
         {
           text: i18n.t('common.delete'),
           style: 'destructive',
           onPress: () => {
-            setNotifications(prev =>
-              prev.filter(notification => notification.id !== notificationId)
-            );
+            remove(notificationId).catch(error => console.error('Delete notification error:', error));
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
           },
         },
@@ -160,14 +135,14 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
   const clearAllNotifications = () => {
     Alert.alert(
       i18n.t('common.delete'),
-      'Clear all notifications?',
+      i18n.t('notifications.clear_all_confirm'),
       [
         { text: i18n.t('common.cancel') },
         {
           text: i18n.t('common.delete'),
           style: 'destructive',
           onPress: () => {
-            setNotifications([]);
+            clear().catch(error => console.error('Clear notifications error:', error));
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
           },
         },
@@ -175,16 +150,16 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
     );
   };
 
-  const handleNotificationAction = async (notification: Notification) => {
-    if (notification.type === 'medication_reminder' && notification.scheduleId) {
+  const handleNotificationAction = async (notification: InboxItem) => {
+    if (notification.reminder) {
       // Mark medication as taken
       try {
-        // await apiService.logMedicationTaken(notification.scheduleId, new Date());
+        const recorded = await reminderActionService.perform('take', notification.reminder);
+        await recordAction(notification.id, 'take');
         Alert.alert(
           i18n.t('common.success'),
-          i18n.t('reminders.dose_taken')
+          recorded ? i18n.t('reminders.dose_taken') : i18n.t('connectivity.data_will_sync')
         );
-        markAsRead(notification.id);
       } catch (error) {
         console.error('Mark dose taken error:', error);
         Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
@@ -195,6 +170,7 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
   const toggleNotifications = async (enabled: boolean) => {
     try {
       await notificationService.updateReminderSettings({ enabled });
+      await reminderPlannerService.replenish();
       setNotificationsEnabled(enabled);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     } catch (error) {
@@ -202,22 +178,25 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
     }
   };
 
-  const getNotificationIcon = (type: Notification['type']) => {
+  const getNotificationIcon = (type: InboxType) => {
     switch (type) {
       case 'medication_reminder':
         return <Icon name="activity" style={styles.notificationIcon} fill={MedGuardColors.primary.trustBlue} />;
-      case 'low_stock':
-        return <Icon name="package" style={styles.notificationIcon} fill={MedGuardColors.alerts.warningAmber} />;
-      case 'expiring_soon':
-        return <Icon name="calendar" style={styles.notificationIcon} fill={MedGuardColors.alerts.warningAmber} />;
-      case 'missed_dose':
+      case 'critical_alert':
         return <Icon name="alert-circle" style={styles.notificationIcon} fill={MedGuardColors.alerts.criticalRed} />;
+      case 'caregiver_alert':
+        return <Icon name="people" style={styles.notificationIcon} fill={MedGuardColors.alerts.criticalRed} />;
+      case 'stock_alert':
+        return <Icon name="package" style={styles.notificationIcon} fill={MedGuardColors.alerts.warningAmber} />;
+      case 'prescription_alert':
+        return <Icon name="file-text" style={styles.notificationIcon} fill={MedGuardColors.alerts.warningAmber} />;
       default:
         return <Icon name="bell" style={styles.notificationIcon} fill={MedGuardColors.primary.healingGreen} />;
     }
   };
 
-  const formatNotificationTime = (timestamp: Date): string => {
+  const formatNotificationTime = (deliveredAt: string): string => {
+    const timestamp = new Date(deliveredAt);
     if (isToday(timestamp)) {
       return format(timestamp, 'HH:mm', { locale });
     } else if (isYesterday(timestamp)) {
@@ -227,14 +206,20 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
     }
   };
 
-  const renderNotificationItem = ({ item }: { item: Notification }) => (
+  const describeNotification = (item: InboxItem): string => {
+    const time = formatNotificationTime(item.deliveredAt);
+    const action = item.action && item.action !== 'opened' ? ` · ${i18n.t(`notifications.actions.${item.action}`)}` : '';
+    return `${item.body}\n${time}${action}`;
+  };
+
+  const renderNotificationItem = ({ item }: { item: InboxItem }) => (
     <ListItem
       title={item.title}
-      description={`${item.body}\n${formatNotificationTime(item.timestamp)}`}
+      description={describeNotification(item)}
       accessoryLeft={() => getNotificationIcon(item.type)}
       accessoryRight={() => (
         <View style={styles.notificationActions}>
-          {item.actionable && (
+          {isOpenReminder(item) && (
             <Button
               size="tiny"
               status="success"
@@ -260,8 +245,6 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
     />
   );
 
-  const unreadCount = notifications.filter(n => !n.read).length;
-
   return (
     <Layout style={[styles.container, { paddingTop: insets.top }]} level="2">
       <TopNavigation
@@ -299,6 +282,17 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
           />
         </View>
 
+        <Select
+          label={i18n.t('notifications.filter')}
+          selectedIndex={selectedFilter}
+          value={filterLabel(filterOption)}
+          onSelect={(index) => selectFilter(index as IndexPath)}
+        >
+          {FILTER_OPTIONS.map(option => (
+            <SelectItem key={option} title={filterLabel(option)} />
+          ))}
+        </Select>
+
         {notifications.length > 0 && (
           <Button
             appearance="ghost"
@@ -318,6 +312,9 @@ const NotificationsScreen: React.FC = ({ navigation }: any) => {
           renderItem={renderNotificationItem}
           keyExtractor={(item) => item.id}
           ItemSeparatorComponent={() => <Divider />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={hasMore ? <Spinner size="small" /> : null}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
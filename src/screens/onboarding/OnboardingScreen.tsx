@@ -6,6 +6,8 @@ import {
   Dimensions,
   FlatList,
   Image,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import {
   Layout,
@@ -20,7 +22,10 @@ import { MedGuardColors } from '../../theme/colors';
 import { Spacing , Typography} from '../../theme/typography';
 import i18n from '../../i18n';
 import popiaComplianceService from '../../services/privacyService';
+import routineService from '../../services/routineService';
 import ConsentModal from '../../components/privacy/ConsentModal';
+import RoutineEditor from '../../components/routine/RoutineEditor';
+import { DEFAULT_ROUTINE_PROFILE, RoutineProfile, parseRoutineProfile } from '../../types/routine';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -41,6 +46,7 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
   const flatListRef = useRef<FlatList>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [consentVisible, setConsentVisible] = useState(false);
+  const [routine, setRoutine] = useState<RoutineProfile>(DEFAULT_ROUTINE_PROFILE);
 
   const slides: OnboardingSlide[] = [
     {
@@ -67,6 +73,14 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
       icon: 'bell',
       color: MedGuardColors.alerts.infoBlue,
     },
+    {
+      id: 'routine',
+      title: i18n.t('onboarding.routine_title'),
+      subtitle: i18n.t('onboarding.routine_subtitle'),
+      description: i18n.t('onboarding.routine_description'),
+      icon: 'clock',
+      color: MedGuardColors.primary.healingGreen,
+    },
     {
       id: '4',
       title: i18n.t('onboarding.prescription_scanner_title'),
@@ -86,6 +100,16 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
   ];
 
   const goToNext = () => {
+    // Reminders are timed from the routine, so it has to be valid to move on
+    if (slides[currentIndex]?.id === 'routine') {
+      try {
+        parseRoutineProfile(routine);
+      } catch (error) {
+        console.error('Onboarding routine error:', error);
+        Alert.alert(i18n.t('common.error'), i18n.t('routine.invalid'));
+        return;
+      }
+    }
     if (currentIndex < slides.length - 1) {
       const nextIndex = currentIndex + 1;
       flatListRef.current?.scrollToIndex({ index: nextIndex, animated: true });
@@ -112,6 +136,11 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
 
   const onAcceptConsent = async () => {
     try { await popiaComplianceService.requestDataProcessingConsent(); } catch {}
+    try {
+      await routineService.setProfile(routine);
+    } catch (error) {
+      console.error('Save routine error:', error);
+    }
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     // Store onboarding completion status
     // AsyncStorage.setItem('onboarding_completed', 'true');
@@ -135,7 +164,22 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
     }
   };
 
-  const renderSlide = ({ item }: { item: OnboardingSlide }) => (
+  // The routine is filled in on its own slide rather than described
+  const renderRoutineSlide = (item: OnboardingSlide) => (
+    <View style={[styles.slide, { backgroundColor: item.color + '10' }]}>
+      <ScrollView style={styles.routineScroll} contentContainerStyle={styles.routineContent}>
+        <Text category="h4" style={[styles.slideTitle, { color: item.color }]}>
+          {item.title}
+        </Text>
+        <Text category="s1" style={styles.slideDescription}>
+          {item.description}
+        </Text>
+        <RoutineEditor profile={routine} onChange={setRoutine} />
+      </ScrollView>
+    </View>
+  );
+
+  const renderSlide = ({ item }: { item: OnboardingSlide }) => item.id === 'routine' ? renderRoutineSlide(item) : (
     <View style={[styles.slide, { backgroundColor: item.color + '10' }]}>
       <View style={styles.slideContent}>
         {/* Icon */}
@@ -213,6 +257,7 @@ const OnboardingScreen: React.FC = ({ navigation }: any) => {
         data={slides}
         renderItem={renderSlide}
         keyExtractor={(item) => item.id}
+        extraData={routine}
         horizontal
         pagingEnabled
         showsHorizontalScrollIndicator={false}
@@ -305,6 +350,13 @@ const styles = StyleSheet.create({
     width: 64,
     height: 64,
   },
+  routineScroll: {
+    width: screenWidth,
+  },
+  routineContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.lg,
+  },
   textContent: {
     alignItems: 'center',
     marginBottom: Spacing.xl,
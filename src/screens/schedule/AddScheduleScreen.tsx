@@ -27,19 +27,47 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import apiService from '../../services/apiService';
+import routineService from '../../services/routineService';
+import travelService from '../../services/travelService';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
 import i18n from '../../i18n';
+import { Medication } from '../../types/medication';
+import {
+  MedicationSchedule,
+  MedicationScheduleInput,
+  RECURRENCE_PRESETS,
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_PRIORITIES,
+  SCHEDULE_TIMINGS,
+  SchedulePattern,
+  applyRecurrencePreset,
+  buildSchedulePattern,
+} from '../../types/schedule';
+import {
+  EMPTY_PRN_LIMITS_DRAFT,
+  PrnLimitsCard,
+  PrnLimitsDraft,
+  fromPrnLimitsDraft,
+  toPrnLimitsDraft,
+} from '../../components/schedule/PrnLimitsCard';
+import { SigPasteCard } from '../../components/schedule/SigPasteCard';
+import { DEFAULT_ROUTINE, DailyRoutine, timingTime } from '../../types/routine';
+import { PrnLimits, hasPrnLimits } from '../../types/prn';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
+import { confirmInteractions } from '../../utils/interactionUtils';
+import { ParsedSig } from '../../utils/sigParser';
+import { SmartMedicationScheduler } from '../../utils/smartScheduler';
 
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
 const SaveIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
 const ClockIcon = (props: IconProps) => <Icon {...props} name='clock-outline' />;
 
-interface Medication {
-  id: number;
-  name: string;
-  strength: string;
-}
+const samePattern = (a: SchedulePattern, b: SchedulePattern): boolean =>
+  a.type === b.type &&
+  a.times.join() === b.times.join() &&
+  (a.daysOfWeek ?? []).join() === (b.daysOfWeek ?? []).join() &&
+  (a.rrules ?? []).join() === (b.rrules ?? []).join();
 
 const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const insets = useSafeAreaInsets();
@@ -49,11 +77,17 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const [selectedMedication, setSelectedMedication] = useState(new IndexPath(0));
   const [selectedTiming, setSelectedTiming] = useState(new IndexPath(0));
   const [selectedFrequency, setSelectedFrequency] = useState(new IndexPath(0));
+  const [selectedRepeat, setSelectedRepeat] = useState(new IndexPath(0));
+  const [selectedPriority, setSelectedPriority] = useState(new IndexPath(SCHEDULE_PRIORITIES.indexOf('normal')));
   const [customTime, setCustomTime] = useState('08:00');
+  const [routine, setRoutine] = useState<DailyRoutine>(DEFAULT_ROUTINE);
   const [dosageAmount, setDosageAmount] = useState('');
   const [instructions, setInstructions] = useState('');
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState<Date | null>(null);
+  const [prnLimitsDraft, setPrnLimitsDraft] = useState<PrnLimitsDraft>(EMPTY_PRN_LIMITS_DRAFT);
+  // Read from pasted instructions; its pattern is kept only while the form can't express it
+  const [pastedSig, setPastedSig] = useState<ParsedSig | null>(null);
   const [loading, setLoading] = useState(false);
   
   // Days of the week toggles
@@ -65,12 +99,12 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const [saturday, setSaturday] = useState(true);
   const [sunday, setSunday] = useState(true);
 
-  const timingOptions = [
-    i18n.t('schedule.morning'),
-    i18n.t('schedule.noon'),
-    i18n.t('schedule.night'),
-    i18n.t('schedule.custom'),
-  ];
+  // Named slots show the time they have in the user's routine
+  const timingOptions = SCHEDULE_TIMINGS.map(slot =>
+    slot === 'custom'
+      ? i18n.t('schedule.custom')
+      : i18n.t('routine.timing_option', { slot: i18n.t(`schedule.${slot}`), time: timingTime(routine, slot) })
+  );
 
   const frequencyOptions = [
     i18n.t('schedule.daily'),
@@ -80,6 +114,12 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
     i18n.t('schedule.as_needed'),
   ];
 
+  const priorityOptions = SCHEDULE_PRIORITIES.map(priority => i18n.t(`reminder_profiles.priorities.${priority}`));
+
+  const repeatOptions = RECURRENCE_PRESETS.map(preset => i18n.t(`schedule.repeat_presets.${preset}`));
+  const repeat = RECURRENCE_PRESETS[selectedRepeat.row] ?? 'standard';
+  const isAsNeeded = SCHEDULE_FREQUENCIES[selectedFrequency.row] === 'as_needed';
+
   useEffect(() => {
     loadMedications();
   }, []);
@@ -95,8 +135,12 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
 
   const loadMedications = async () => {
     try {
-      const medicationsData = await apiService.getMedications();
+      const [medicationsData, routineProfile] = await Promise.all([
+        apiService.getMedications(),
+        routineService.getProfile(),
+      ]);
       setMedications(medicationsData);
+      setRoutine(routineProfile.usual);
     } catch (error) {
       console.error('Load medications error:', error);
       Alert.alert(i18n.t('common.error'), i18n.t('errors.network_error'));
@@ -109,37 +153,78 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
       return;
     }
 
+    let prnLimits: PrnLimits = {};
+    try {
+      if (isAsNeeded) prnLimits = fromPrnLimitsDraft(prnLimitsDraft);
+    } catch (error) {
+      console.error('PRN limits error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('prn.invalid_limits'));
+      return;
+    }
+
     try {
       setLoading(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      const scheduleData = {
-        medication: medications[selectedMedication.row]?.id,
-        timing: selectedTiming.row === 3 ? 'custom' : 
-                selectedTiming.row === 0 ? 'morning' :
-                selectedTiming.row === 1 ? 'noon' : 'night',
-        customTime: selectedTiming.row === 3 ? customTime : undefined,
-        dosageAmount: dosageAmount.trim(),
-        frequency: frequencyOptions[selectedFrequency.row],
-        monday,
-        tuesday,
-        wednesday,
-        thursday,
-        friday,
-        saturday,
-        sunday,
+      const medication = medications[selectedMedication.row];
+      if (!medication) {
+        Alert.alert(i18n.t('common.error'), i18n.t('errors.validation_error'));
+        return;
+      }
+
+      const timing = SCHEDULE_TIMINGS[selectedTiming.row] ?? 'morning';
+      const frequency = SCHEDULE_FREQUENCIES[selectedFrequency.row] ?? 'daily';
+      const daysOfWeek = [sunday, monday, tuesday, wednesday, thursday, friday, saturday];
+
+      const scheduleData: MedicationScheduleInput = {
+        medicationId: medication.id,
+        medicationName: medication.name,
+        dosage: dosageAmount.trim(),
+        frequency,
+        timing,
+        pattern: pastedSig?.pattern ?? applyRecurrencePreset(
+          buildSchedulePattern(timing, frequency, daysOfWeek, timing === 'custom' ? customTime : undefined, routine),
+          frequency === 'as_needed' ? 'standard' : repeat
+        ),
         startDate: startDate.toISOString(),
-        endDate: endDate?.toISOString() || undefined,
+        ...(endDate && { endDate: endDate.toISOString() }),
+        ...(hasPrnLimits(prnLimits) && { prnLimits }),
         status: 'active',
-        instructions: instructions.trim() || undefined,
+        priority: SCHEDULE_PRIORITIES[selectedPriority.row] ?? 'normal',
+        ...(instructions.trim() && { instructions: instructions.trim() }),
+        ...(pastedSig?.foodRequirement && { foodRequirement: pastedSig.foodRequirement }),
+        ...(pastedSig?.timingConstraints && { timingConstraints: pastedSig.timingConstraints }),
+        timeZone: await travelService.getScheduleTimeZone(),
       };
 
-      // await apiService.createSchedule(scheduleData);
+      // Same check the scheduler uses, against other medications' active schedules
+      const existingSchedules = (await apiService.readCache('schedules') as MedicationSchedule[]).filter(
+        schedule => schedule.status === 'active' && schedule.medicationId !== medication.id
+      );
+      const interactions = SmartMedicationScheduler.findScheduleInteractions(
+        SmartMedicationScheduler.fromSchedule(scheduleData, medication),
+        existingSchedules.flatMap(schedule =>
+          SmartMedicationScheduler.fromSchedule(
+            schedule,
+            medications.find(item => item.id === schedule.medicationId)
+          )
+        )
+      );
+      if (!(await confirmInteractions(interactions))) {
+        return;
+      }
+
+      const result = await apiService.createSchedule(scheduleData);
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('schedule.schedule_saved'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('schedule.schedule_saved'),
         [
           {
             text: i18n.t('common.ok'),
@@ -156,7 +241,65 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
     }
   };
 
+  const setDays = (days: boolean[]) => {
+    const [sun, mon, tue, wed, thu, fri, sat] = days;
+    setSunday(!!sun);
+    setMonday(!!mon);
+    setTuesday(!!tue);
+    setWednesday(!!wed);
+    setThursday(!!thu);
+    setFriday(!!fri);
+    setSaturday(!!sat);
+  };
+
+  /**
+   * Fill the form from pasted instructions. When a preset rebuilds the
+   * parsed pattern the form alone describes the schedule; otherwise (e.g.
+   * four doses a day) the parsed pattern is saved until the timing is
+   * changed by hand.
+   */
+  const applySig = (sig: ParsedSig, text: string) => {
+    if (sig.dosage) setDosageAmount(sig.dosage);
+    setInstructions(text);
+    if (sig.prnLimits) setPrnLimitsDraft(toPrnLimitsDraft(sig.prnLimits));
+    if (sig.durationDays) {
+      const end = new Date(startDate);
+      end.setDate(end.getDate() + sig.durationDays - 1);
+      setEndDate(end);
+    }
+    if (!sig.frequency || !sig.pattern) {
+      setPastedSig(null);
+      return;
+    }
+
+    const { pattern } = sig;
+    const time = sig.timing === 'custom' ? pattern.times[0] ?? customTime : customTime;
+    const days = pattern.daysOfWeek ?? [true, true, true, true, true, true, true];
+    setSelectedFrequency(new IndexPath(SCHEDULE_FREQUENCIES.indexOf(sig.frequency)));
+    setSelectedTiming(new IndexPath(SCHEDULE_TIMINGS.indexOf(sig.timing)));
+    setCustomTime(time);
+    setDays(days);
+
+    const built = buildSchedulePattern(sig.timing, sig.frequency, days, time, routine);
+    const preset = RECURRENCE_PRESETS.find(candidate =>
+      samePattern(applyRecurrencePreset(built, sig.frequency === 'as_needed' ? 'standard' : candidate), pattern)
+    );
+    setSelectedRepeat(new IndexPath(RECURRENCE_PRESETS.indexOf(preset ?? 'standard')));
+    setPastedSig({ ...sig, pattern: preset ? null : pattern });
+  };
+
+  // Changing the schedule by hand drops the pasted pattern
+  const keepFormPattern = () => {
+    setPastedSig(current => (current?.pattern ? { ...current, pattern: null } : current));
+  };
+
+  const toggleDay = (setDay: (value: boolean) => void) => (value: boolean) => {
+    setDay(value);
+    keepFormPattern();
+  };
+
   const toggleAllDays = (value: boolean) => {
+    keepFormPattern();
     setMonday(value);
     setTuesday(value);
     setWednesday(value);
@@ -216,6 +359,8 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
             </Select>
           </Card>
 
+          <SigPasteCard routine={routine} startDate={startDate} onApply={applySig} />
+
           {/* Schedule Settings */}
           <Card style={styles.card}>
             <Text category="h6" style={styles.sectionTitle}>
@@ -225,7 +370,10 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
             <Select
               label={i18n.t('schedule.timing')}
               selectedIndex={selectedTiming}
-              onSelect={(index) => setSelectedTiming(index as IndexPath)}
+              onSelect={(index) => {
+                setSelectedTiming(index as IndexPath);
+                keepFormPattern();
+              }}
               value={timingOptions[selectedTiming.row]}
               style={styles.input}
             >
@@ -234,12 +382,21 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
               ))}
             </Select>
 
+            {pastedSig?.pattern && (
+              <Text category="c1" appearance="hint" style={styles.input}>
+                {i18n.t('sig_parser.pasted_times', { times: pastedSig.pattern.times.join(', ') })}
+              </Text>
+            )}
+
             {selectedTiming.row === 3 && (
               <Input
                 label={i18n.t('schedule.custom_time')}
                 placeholder="08:00"
                 value={customTime}
-                onChangeText={setCustomTime}
+                onChangeText={(time) => {
+                  setCustomTime(time);
+                  keepFormPattern();
+                }}
                 accessoryLeft={ClockIcon}
                 style={styles.input}
               />
@@ -248,7 +405,10 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
             <Select
               label={i18n.t('schedule.frequency')}
               selectedIndex={selectedFrequency}
-              onSelect={(index) => setSelectedFrequency(index as IndexPath)}
+              onSelect={(index) => {
+                setSelectedFrequency(index as IndexPath);
+                keepFormPattern();
+              }}
               value={frequencyOptions[selectedFrequency.row]}
               style={styles.input}
             >
@@ -257,6 +417,23 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
               ))}
             </Select>
 
+            {!isAsNeeded && (
+              <Select
+                label={i18n.t('schedule.repeat')}
+                selectedIndex={selectedRepeat}
+                onSelect={(index) => {
+                  setSelectedRepeat(index as IndexPath);
+                  keepFormPattern();
+                }}
+                value={repeatOptions[selectedRepeat.row]}
+                style={styles.input}
+              >
+                {repeatOptions.map((option, index) => (
+                  <SelectItem key={index} title={option} />
+                ))}
+              </Select>
+            )}
+
             <Input
               label={i18n.t('schedule.dosage_amount')}
               placeholder="1 tablet, 5ml, etc."
@@ -264,56 +441,73 @@ const AddScheduleScreen: React.FC = ({ navigation, route }: any) => {
               onChangeText={setDosageAmount}
               style={styles.input}
             />
+
+            <Select
+              label={i18n.t('schedule.priority')}
+              caption={i18n.t('schedule.priority_hint')}
+              selectedIndex={selectedPriority}
+              onSelect={(index) => setSelectedPriority(index as IndexPath)}
+              value={priorityOptions[selectedPriority.row]}
+              style={styles.input}
+            >
+              {priorityOptions.map((option, index) => (
+                <SelectItem key={index} title={option} />
+              ))}
+            </Select>
           </Card>
 
+          {isAsNeeded && <PrnLimitsCard draft={prnLimitsDraft} onChange={setPrnLimitsDraft} />}
+
           {/* Days of Week */}
-          <Card style={styles.card}>
-            <View style={styles.daysHeader}>
-              <Text category="h6" style={styles.sectionTitle}>
-                {i18n.t('schedule.days_of_week')}
-              </Text>
-              <View style={styles.toggleAllButtons}>
-                <Button
-                  size="tiny"
-                  appearance="outline"
-                  onPress={() => toggleAllDays(true)}
-                >
-                  {i18n.t('common.select_all')}
-                </Button>
-                <Button
-                  size="tiny"
-                  appearance="outline"
-                  onPress={() => toggleAllDays(false)}
-                >
-                  {i18n.t('common.clear_all')}
-                </Button>
+          {(repeat === 'standard' || isAsNeeded) && (
+            <Card style={styles.card}>
+              <View style={styles.daysHeader}>
+                <Text category="h6" style={styles.sectionTitle}>
+                  {i18n.t('schedule.days_of_week')}
+                </Text>
+                <View style={styles.toggleAllButtons}>
+                  <Button
+                    size="tiny"
+                    appearance="outline"
+                    onPress={() => toggleAllDays(true)}
+                  >
+                    {i18n.t('common.select_all')}
+                  </Button>
+                  <Button
+                    size="tiny"
+                    appearance="outline"
+                    onPress={() => toggleAllDays(false)}
+                  >
+                    {i18n.t('common.clear_all')}
+                  </Button>
+                </View>
               </View>
-            </View>
-
-            <View style={styles.daysContainer}>
-              <Toggle checked={monday} onChange={setMonday}>
-                {i18n.t('schedule.monday')}
-              </Toggle>
-              <Toggle checked={tuesday} onChange={setTuesday}>
-                {i18n.t('schedule.tuesday')}
-              </Toggle>
-              <Toggle checked={wednesday} onChange={setWednesday}>
-                {i18n.t('schedule.wednesday')}
-              </Toggle>
-              <Toggle checked={thursday} onChange={setThursday}>
-                {i18n.t('schedule.thursday')}
-              </Toggle>
-              <Toggle checked={friday} onChange={setFriday}>
-                {i18n.t('schedule.friday')}
-              </Toggle>
-              <Toggle checked={saturday} onChange={setSaturday}>
-                {i18n.t('schedule.saturday')}
-              </Toggle>
-              <Toggle checked={sunday} onChange={setSunday}>
-                {i18n.t('schedule.sunday')}
-              </Toggle>
-            </View>
-          </Card>
+
+              <View style={styles.daysContainer}>
+                <Toggle checked={monday} onChange={toggleDay(setMonday)}>
+                  {i18n.t('schedule.monday')}
+                </Toggle>
+                <Toggle checked={tuesday} onChange={toggleDay(setTuesday)}>
+                  {i18n.t('schedule.tuesday')}
+                </Toggle>
+                <Toggle checked={wednesday} onChange={toggleDay(setWednesday)}>
+                  {i18n.t('schedule.wednesday')}
+                </Toggle>
+                <Toggle checked={thursday} onChange={toggleDay(setThursday)}>
+                  {i18n.t('schedule.thursday')}
+                </Toggle>
+                <Toggle checked={friday} onChange={toggleDay(setFriday)}>
+                  {i18n.t('schedule.friday')}
+                </Toggle>
+                <Toggle checked={saturday} onChange={toggleDay(setSaturday)}>
+                  {i18n.t('schedule.saturday')}
+                </Toggle>
+                <Toggle checked={sunday} onChange={toggleDay(setSunday)}>
+                  {i18n.t('schedule.sunday')}
+                </Toggle>
+              </View>
+            </Card>
+          )}
 
           {/* Date Range */}
           <Card style={styles.card}>
@@ -26,16 +26,71 @@ import {
   Spinner,
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { parseISO } from 'date-fns';
+import { addDays, parseISO } from 'date-fns';
 import * as Haptics from 'expo-haptics';
 import apiService from '../../services/apiService';
+import doseLedgerService from '../../services/doseLedgerService';
+import reminderPlannerService from '../../services/reminderPlannerService';
+import routineService from '../../services/routineService';
+import travelService from '../../services/travelService';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
 import i18n from '../../i18n';
+import { Medication } from '../../types/medication';
+import {
+  ALL_DAYS,
+  MedicationSchedule,
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_PRIORITIES,
+  SCHEDULE_STATUSES,
+  SCHEDULE_TIMINGS,
+  SchedulePhase,
+  buildSchedulePattern,
+  parseSchedulePhases,
+} from '../../types/schedule';
+import {
+  EMPTY_PRN_LIMITS_DRAFT,
+  PrnLimitsCard,
+  PrnLimitsDraft,
+  fromPrnLimitsDraft,
+  toPrnLimitsDraft,
+} from '../../components/schedule/PrnLimitsCard';
+import { DoseTimeSuggestions } from '../../components/schedule/DoseTimeSuggestions';
+import { DEFAULT_ROUTINE, DailyRoutine, timingTime } from '../../types/routine';
+import { PrnLimits } from '../../types/prn';
+import { getApiErrorMessage } from '../../utils/apiErrorUtils';
+import { DoseTimeSuggestion, SmartMedicationScheduler } from '../../utils/smartScheduler';
 
 const BackIcon = (props: IconProps) => <Icon {...props} name='arrow-back' />;
 const SaveIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
 const ClockIcon = (props: IconProps) => <Icon {...props} name='clock-outline' />;
+const AddIcon = (props: IconProps) => <Icon {...props} name='plus-outline' />;
+const RemoveIcon = (props: IconProps) => <Icon {...props} name='trash-2-outline' />;
+
+// Phase fields as typed; validated with parseSchedulePhases on save
+interface PhaseDraft {
+  dosage: string;
+  durationDays: string;
+  times: string;
+}
+
+const toPhaseDraft = (phase: SchedulePhase): PhaseDraft => ({
+  dosage: phase.dosage,
+  durationDays: phase.durationDays?.toString() ?? '',
+  times: phase.times.join(', '),
+});
+
+const fromPhaseDrafts = (drafts: PhaseDraft[]): SchedulePhase[] =>
+  parseSchedulePhases(
+    drafts.map(draft => ({
+      dosage: draft.dosage,
+      durationDays: draft.durationDays.trim() || undefined,
+      times: draft.times.split(',').map(time => time.trim()).filter(Boolean),
+    }))
+  ) ?? [];
+
+// How far back taken doses are looked at for suggested dose times
+const SUGGESTION_HISTORY_DAYS = 28;
 
 const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const insets = useSafeAreaInsets();
@@ -43,16 +98,23 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [medications, setMedications] = useState<any[]>([]);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [schedule, setSchedule] = useState<MedicationSchedule | null>(null);
   const [selectedMedication, setSelectedMedication] = useState(new IndexPath(0));
   const [selectedTiming, setSelectedTiming] = useState(new IndexPath(0));
   const [selectedFrequency, setSelectedFrequency] = useState(new IndexPath(0));
   const [selectedStatus, setSelectedStatus] = useState(new IndexPath(0));
+  const [selectedPriority, setSelectedPriority] = useState(new IndexPath(SCHEDULE_PRIORITIES.indexOf('normal')));
   const [customTime, setCustomTime] = useState('08:00');
+  const [routine, setRoutine] = useState<DailyRoutine>(DEFAULT_ROUTINE);
   const [dosageAmount, setDosageAmount] = useState('');
   const [instructions, setInstructions] = useState('');
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState<Date | null>(null);
+  const [prnLimitsDraft, setPrnLimitsDraft] = useState<PrnLimitsDraft>(EMPTY_PRN_LIMITS_DRAFT);
+  const [phaseDrafts, setPhaseDrafts] = useState<PhaseDraft[]>([]);
+  const [suggestions, setSuggestions] = useState<DoseTimeSuggestion[]>([]);
+  const [applyingSuggestion, setApplyingSuggestion] = useState(false);
   
   // Days of the week toggles
   const [monday, setMonday] = useState(true);
@@ -63,12 +125,12 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const [saturday, setSaturday] = useState(true);
   const [sunday, setSunday] = useState(true);
 
-  const timingOptions = [
-    i18n.t('schedule.morning'),
-    i18n.t('schedule.noon'),
-    i18n.t('schedule.night'),
-    i18n.t('schedule.custom'),
-  ];
+  // Named slots show the time they have in the user's routine
+  const timingOptions = SCHEDULE_TIMINGS.map(slot =>
+    slot === 'custom'
+      ? i18n.t('schedule.custom')
+      : i18n.t('routine.timing_option', { slot: i18n.t(`schedule.${slot}`), time: timingTime(routine, slot) })
+  );
 
   const frequencyOptions = [
     i18n.t('schedule.daily'),
@@ -78,6 +140,8 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
     i18n.t('schedule.as_needed'),
   ];
 
+  const isAsNeeded = SCHEDULE_FREQUENCIES[selectedFrequency.row] === 'as_needed';
+
   const statusOptions = [
     i18n.t('schedule.active'),
     i18n.t('schedule.inactive'),
@@ -85,6 +149,8 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
     i18n.t('schedule.completed'),
   ];
 
+  const priorityOptions = SCHEDULE_PRIORITIES.map(priority => i18n.t(`reminder_profiles.priorities.${priority}`));
+
   useEffect(() => {
     loadData();
   }, []);
@@ -92,42 +158,51 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [medicationsData, schedulesData] = await Promise.all([
+      const [medicationsData, schedulesData, routineProfile] = await Promise.all([
         apiService.getMedications(),
         apiService.getMedicationSchedules(),
+        routineService.getProfile(),
       ]);
       
       setMedications(medicationsData);
+      setRoutine(routineProfile.usual);
       
       const schedule = schedulesData.find(s => s.id === scheduleId);
       if (schedule) {
+        setSchedule(schedule);
+
         // Set medication
-        const medicationIndex = medicationsData.findIndex(m => m.id === schedule.medication.id);
+        const medicationIndex = medicationsData.findIndex(m => m.id === schedule.medicationId);
         setSelectedMedication(new IndexPath(Math.max(0, medicationIndex)));
         
-        // Set timing
-        const timingMap = { morning: 0, noon: 1, night: 2, custom: 3 };
-        setSelectedTiming(new IndexPath(timingMap[schedule.timing] || 0));
+        // Set timing and frequency
+        setSelectedTiming(new IndexPath(Math.max(0, SCHEDULE_TIMINGS.indexOf(schedule.timing))));
+        setSelectedFrequency(new IndexPath(Math.max(0, SCHEDULE_FREQUENCIES.indexOf(schedule.frequency))));
         
         // Set other fields
-        setCustomTime(schedule.customTime || '08:00');
-        setDosageAmount(schedule.dosageAmount);
+        setCustomTime(schedule.pattern.times[0] || '08:00');
+        setDosageAmount(schedule.dosage);
         setInstructions(schedule.instructions || '');
         setStartDate(parseISO(schedule.startDate));
         setEndDate(schedule.endDate ? parseISO(schedule.endDate) : null);
+        setPhaseDrafts((schedule.phases ?? []).map(toPhaseDraft));
+        setPrnLimitsDraft(toPrnLimitsDraft(schedule.prnLimits));
         
-        // Set days
-        setMonday(schedule.monday);
-        setTuesday(schedule.tuesday);
-        setWednesday(schedule.wednesday);
-        setThursday(schedule.thursday);
-        setFriday(schedule.friday);
-        setSaturday(schedule.saturday);
-        setSunday(schedule.sunday);
+        // Set days (flags are indexed Sun..Sat)
+        const [sun, mon, tue, wed, thu, fri, sat] = schedule.pattern.daysOfWeek ?? ALL_DAYS;
+        setMonday(mon ?? true);
+        setTuesday(tue ?? true);
+        setWednesday(wed ?? true);
+        setThursday(thu ?? true);
+        setFriday(fri ?? true);
+        setSaturday(sat ?? true);
+        setSunday(sun ?? true);
         
         // Set status
-        const statusMap = { active: 0, inactive: 1, paused: 2, completed: 3 };
-        setSelectedStatus(new IndexPath(statusMap[schedule.status] || 0));
+        setSelectedStatus(new IndexPath(Math.max(0, SCHEDULE_STATUSES.indexOf(schedule.status))));
+        setSelectedPriority(new IndexPath(Math.max(0, SCHEDULE_PRIORITIES.indexOf(schedule.priority))));
+
+        setSuggestions(await loadSuggestions(schedule, schedulesData, medicationsData));
       }
     } catch (error) {
       console.error('Load schedule error:', error);
@@ -137,43 +212,147 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
     }
   };
 
+  // Dose times the user keeps taking late or early, checked against the other active schedules
+  const loadSuggestions = async (
+    schedule: MedicationSchedule,
+    schedules: MedicationSchedule[],
+    medications: Medication[]
+  ): Promise<DoseTimeSuggestion[]> => {
+    if (schedule.status !== 'active') return [];
+    const now = new Date();
+    const [[applied], events] = await Promise.all([
+      routineService.applyTo([schedule]).then(applied => travelService.applyTo(applied)),
+      doseLedgerService.getEvents({
+        medicationId: schedule.medicationId,
+        from: addDays(now, -SUGGESTION_HISTORY_DAYS),
+        to: now,
+      }),
+    ]);
+    if (!applied) return [];
+    const medicationFor = (item: MedicationSchedule) => medications.find(m => m.id === item.medicationId);
+    const others = schedules
+      .filter(item => item.id !== schedule.id && item.status === 'active')
+      .flatMap(item => SmartMedicationScheduler.fromSchedule(item, medicationFor(item)));
+    const medication = medicationFor(schedule);
+    return SmartMedicationScheduler.suggestDoseTimes(applied, events, others, { ...(medication && { medication }) });
+  };
+
+  const applySuggestion = async (suggestion: DoseTimeSuggestion) => {
+    try {
+      setApplyingSuggestion(true);
+      // The moved time no longer follows the routine's slot
+      const result = await apiService.updateSchedule(scheduleId, {
+        timing: 'custom',
+        pattern: suggestion.schedulePattern,
+      });
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
+      await reminderPlannerService.replenish();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        i18n.t('common.success'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('dose_suggestions.moved')
+      );
+      await loadData();
+    } catch (error) {
+      console.error('Apply dose time suggestion error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('errors.unknown_error'));
+    } finally {
+      setApplyingSuggestion(false);
+    }
+  };
+
+  const addPhase = () => {
+    const last = phaseDrafts[phaseDrafts.length - 1];
+    setPhaseDrafts([
+      // An open-ended phase can't be followed by another one
+      ...phaseDrafts.map(draft => (draft === last && !draft.durationDays.trim() ? { ...draft, durationDays: '7' } : draft)),
+      { dosage: last?.dosage ?? dosageAmount, durationDays: '7', times: last?.times ?? '' },
+    ]);
+  };
+
+  const updatePhase = (index: number, changes: Partial<PhaseDraft>) => {
+    setPhaseDrafts(phaseDrafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const removePhase = (index: number) => {
+    setPhaseDrafts(phaseDrafts.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
     if (!dosageAmount) {
       Alert.alert(i18n.t('common.error'), i18n.t('errors.validation_error'));
       return;
     }
 
+    let phases: SchedulePhase[];
+    try {
+      phases = fromPhaseDrafts(phaseDrafts);
+    } catch (error) {
+      console.error('Schedule phases error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('schedule.invalid_phases'));
+      return;
+    }
+
+    let prnLimits: PrnLimits = {};
+    try {
+      if (isAsNeeded) prnLimits = fromPrnLimitsDraft(prnLimitsDraft);
+    } catch (error) {
+      console.error('PRN limits error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('prn.invalid_limits'));
+      return;
+    }
+
     try {
       setSaving(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      const scheduleData = {
-        medication: medications[selectedMedication.row].id,
-        timing: selectedTiming.row === 3 ? 'custom' : 
-                selectedTiming.row === 0 ? 'morning' :
-                selectedTiming.row === 1 ? 'noon' : 'night',
-        customTime: selectedTiming.row === 3 ? customTime : undefined,
-        dosageAmount: dosageAmount.trim(),
-        frequency: frequencyOptions[selectedFrequency.row],
-        monday,
-        tuesday,
-        wednesday,
-        thursday,
-        friday,
-        saturday,
-        sunday,
+      const medication = medications[selectedMedication.row];
+      const timing = SCHEDULE_TIMINGS[selectedTiming.row] ?? 'morning';
+      const frequency = SCHEDULE_FREQUENCIES[selectedFrequency.row] ?? 'daily';
+      const daysOfWeek = [sunday, monday, tuesday, wednesday, thursday, friday, saturday];
+
+      const pattern = buildSchedulePattern(
+        timing,
+        frequency,
+        daysOfWeek,
+        timing === 'custom' ? customTime : undefined,
+        routine
+      );
+
+      const scheduleData: Partial<MedicationSchedule> = {
+        ...(medication && { medicationId: medication.id, medicationName: medication.name }),
+        dosage: dosageAmount.trim(),
+        frequency,
+        timing,
+        // Recurrence rules aren't editable here; keep them and only update the times
+        pattern: schedule?.pattern.type === 'rrule'
+          ? { ...schedule.pattern, times: pattern.times }
+          : { ...schedule?.pattern, ...pattern },
+        // An empty list clears the phases of a schedule that had them
+        ...((phases.length > 0 || Boolean(schedule?.phases?.length)) && { phases }),
+        ...(isAsNeeded && { prnLimits }),
         startDate: startDate.toISOString(),
-        endDate: endDate?.toISOString() || undefined,
-        status: ['active', 'inactive', 'paused', 'completed'][selectedStatus.row],
-        instructions: instructions.trim() || undefined,
+        ...(endDate && { endDate: endDate.toISOString() }),
+        status: SCHEDULE_STATUSES[selectedStatus.row] ?? 'active',
+        priority: SCHEDULE_PRIORITIES[selectedPriority.row] ?? 'normal',
+        ...(instructions.trim() && { instructions: instructions.trim() }),
       };
 
-      // await apiService.updateSchedule(scheduleId, scheduleData);
+      const result = await apiService.updateSchedule(scheduleId, scheduleData);
+      if (!result.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(i18n.t('common.error'), getApiErrorMessage(result.error));
+        return;
+      }
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('schedule.schedule_saved'),
+        result.queued ? i18n.t('connectivity.data_will_sync') : i18n.t('schedule.schedule_saved'),
         [
           {
             text: i18n.t('common.ok'),
@@ -247,8 +426,27 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
                 <SelectItem key={index} title={option} />
               ))}
             </Select>
+
+            <Select
+              label={i18n.t('schedule.priority')}
+              caption={i18n.t('schedule.priority_hint')}
+              selectedIndex={selectedPriority}
+              onSelect={(index) => setSelectedPriority(index as IndexPath)}
+              value={priorityOptions[selectedPriority.row]}
+              style={styles.input}
+            >
+              {priorityOptions.map((option, index) => (
+                <SelectItem key={index} title={option} />
+              ))}
+            </Select>
           </Card>
 
+          <DoseTimeSuggestions
+            suggestions={suggestions}
+            applying={applyingSuggestion}
+            onApply={applySuggestion}
+          />
+
           {/* Rest of the form is the same as AddScheduleScreen */}
           <Card style={styles.card}>
             <Text category="h6" style={styles.sectionTitle}>
@@ -343,6 +541,65 @@ const EditScheduleScreen: React.FC = ({ navigation, route }: any) => {
             </View>
           </Card>
 
+          {isAsNeeded && <PrnLimitsCard draft={prnLimitsDraft} onChange={setPrnLimitsDraft} />}
+
+          {/* Dose phases for tapering and titration */}
+          <Card style={styles.card}>
+            <Text category="h6" style={styles.sectionTitle}>
+              {i18n.t('schedule.phases')}
+            </Text>
+            <Text category="c1" appearance="hint" style={styles.input}>
+              {i18n.t('schedule.phases_hint')}
+            </Text>
+
+            {phaseDrafts.map((draft, index) => (
+              <View key={index} style={styles.phase}>
+                <View style={styles.phaseHeader}>
+                  <Text category="s1">{i18n.t('schedule.phase_title', { number: index + 1 })}</Text>
+                  <Button
+                    size="tiny"
+                    appearance="ghost"
+                    status="danger"
+                    accessoryLeft={RemoveIcon}
+                    onPress={() => removePhase(index)}
+                  />
+                </View>
+                <Input
+                  label={i18n.t('schedule.phase_dosage')}
+                  placeholder="1 tablet, 5ml, etc."
+                  value={draft.dosage}
+                  onChangeText={dosage => updatePhase(index, { dosage })}
+                  style={styles.input}
+                />
+                <Input
+                  label={i18n.t('schedule.phase_duration_days')}
+                  placeholder={index === phaseDrafts.length - 1 ? i18n.t('schedule.phase_open_ended') : '7'}
+                  value={draft.durationDays}
+                  onChangeText={durationDays => updatePhase(index, { durationDays })}
+                  keyboardType="number-pad"
+                  style={styles.input}
+                />
+                <Input
+                  label={i18n.t('schedule.phase_times')}
+                  placeholder={customTime}
+                  value={draft.times}
+                  onChangeText={times => updatePhase(index, { times })}
+                  accessoryLeft={ClockIcon}
+                  style={styles.input}
+                />
+              </View>
+            ))}
+
+            <Button
+              size="small"
+              appearance="outline"
+              accessoryLeft={AddIcon}
+              onPress={addPhase}
+            >
+              {i18n.t('schedule.add_phase')}
+            </Button>
+          </Card>
+
           <View style={styles.actionsContainer}>
             <Button
               style={styles.saveButton}
@@ -388,6 +645,17 @@ const styles = StyleSheet.create({
   daysContainer: {
     gap: Spacing.sm,
   },
+  phase: {
+    borderBottomWidth: 1,
+    borderBottomColor: MedGuardColors.extended.lightGray,
+    marginBottom: Spacing.md,
+  },
+  phaseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
   actionsContainer: {
     paddingVertical: Spacing.xl,
   },
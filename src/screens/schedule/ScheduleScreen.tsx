@@ -26,6 +26,7 @@ import {
   Select,
   SelectItem,
   IndexPath,
+  Modal,
   Spinner,
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -44,16 +45,27 @@ import { enZA, af } from 'date-fns/locale';
 import * as Haptics from 'expo-haptics';
 
 // Services and utilities
+import { useMedications } from '../../contexts/MedicationContext';
 import apiService from '../../services/apiService';
+import doseLedgerService from '../../services/doseLedgerService';
 import notificationService from '../../services/notificationService';
+import routineService from '../../services/routineService';
+import travelService from '../../services/travelService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Spacing } from '../../theme/typography';
+import { DailyPlan } from '../../utils/dailyPlan';
+import { routineOn } from '../../utils/routine';
+import { applyDoseEvent, createScheduledDose, getDoseTimesOn } from '../../utils/scheduleUtils';
+import { SmartMedicationScheduler } from '../../utils/smartScheduler';
 
 // Components
 import { ScheduleCard, DoseCard } from '../../components/schedule/ScheduleCard';
+import { DailyPlanCard } from '../../components/schedule/DailyPlanCard';
+import { PrnDoseModal } from '../../components/schedule/PrnDoseModal';
 
 // Types
+import { SKIP_REASONS } from '../../types/dose';
 import { MedicationSchedule, ScheduledDose } from '../../types/schedule';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -73,13 +85,18 @@ const DOSES_PER_PAGE = 20;
 
 const ScheduleScreen: React.FC = ({ navigation }: any) => {
   const insets = useSafeAreaInsets();
+  const { canEdit, medications } = useMedications();
   const [schedules, setSchedules] = useState<MedicationSchedule[]>([]);
   const [scheduledDoses, setScheduledDoses] = useState<ScheduledDose[]>([]);
+  const [dailyPlan, setDailyPlan] = useState<DailyPlan | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [viewMode, setViewMode] = useState<'calendar' | 'list'>('list');
   const [showActiveOnly, setShowActiveOnly] = useState(true);
+  const [skippingDose, setSkippingDose] = useState<ScheduledDose | null>(null);
+  const [skipReasonIndex, setSkipReasonIndex] = useState<IndexPath>(new IndexPath(0));
+  const [prnSchedule, setPrnSchedule] = useState<MedicationSchedule | null>(null);
   
   // Pagination state
   const [currentSchedulePage, setCurrentSchedulePage] = useState(1);
@@ -124,100 +141,49 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   }, []);
 
-  const generateScheduledDoses = useCallback(() => {
-    const doses: ScheduledDose[] = [];
+  const generateScheduledDoses = useCallback(async () => {
     const targetDate = selectedDate;
-    const dayOfWeek = getDay(targetDate); // 0 = Sunday, 1 = Monday, etc.
+    const now = new Date();
     
-    // Day mapping for schedule properties
-    const dayFields = [
-      'sunday', 'monday', 'tuesday', 'wednesday', 
-      'thursday', 'friday', 'saturday'
-    ];
-    
-    schedules
-      .filter(schedule => {
-        if (showActiveOnly && schedule.status !== 'active') return false;
-        
-        // Check if schedule applies to this day
-        const dayField = dayFields[dayOfWeek] as keyof MedicationSchedule;
-        if (!schedule[dayField]) return false;
-        
-        // Check date range
-        const startDate = parseISO(schedule.startDate);
-        const endDate = schedule.endDate ? parseISO(schedule.endDate) : null;
-        
-        if (targetDate < startOfDay(startDate)) return false;
-        if (endDate && targetDate > endOfDay(endDate)) return false;
-        
-        return true;
-      })
-      .forEach(schedule => {
-        let scheduledTimes: Date[] = [];
-        
-        if (schedule.timing === 'custom' && schedule.customTime) {
-          const [hours, minutes] = schedule.customTime.split(':').map(Number);
-          const scheduledTime = new Date(targetDate);
-          scheduledTime.setHours(hours || 0, minutes || 0, 0, 0);
-          scheduledTimes.push(scheduledTime);
-        } else {
-          // Handle frequency-based scheduling
-          const timingMap: Record<string, { hours: number; minutes: number }[]> = {
-            morning: [{ hours: 8, minutes: 0 }],
-            noon: [{ hours: 12, minutes: 0 }],
-            night: [{ hours: 20, minutes: 0 }],
-            daily: [{ hours: 8, minutes: 0 }],
-            twice_daily: [
-              { hours: 8, minutes: 0 },
-              { hours: 20, minutes: 0 }
-            ],
-            three_times_daily: [
-              { hours: 8, minutes: 0 },
-              { hours: 13, minutes: 0 },
-              { hours: 20, minutes: 0 }
-            ],
-          };
-          
-          const times = timingMap[schedule.frequency] || timingMap[schedule.timing] || [{ hours: 8, minutes: 0 }];
-          
-          times.forEach(time => {
-            const scheduledTime = new Date(targetDate);
-            scheduledTime.setHours(time.hours, time.minutes, 0, 0);
-            scheduledTimes.push(scheduledTime);
-          });
-        }
-        
-        scheduledTimes.forEach((scheduledTime, index) => {
-          const now = new Date();
-          let status: ScheduledDose['status'] = 'upcoming';
-          
-          if (scheduledTime < now) {
-            if (isToday(scheduledTime)) {
-              status = 'overdue'; // This would be checked against actual logs in real implementation
-            } else {
-              status = 'missed';
-            }
-          }
-          
-          doses.push({
-            id: `${schedule.id}-${index}-${format(scheduledTime, 'yyyy-MM-dd-HH-mm')}`,
-            scheduleId: schedule.id,
-            medicationId: schedule.medication.id,
-            medicationName: schedule.medication.name,
-            dosageAmount: schedule.dosageAmount,
-            scheduledTime,
-            status,
-            instructions: schedule.instructions || '',
-          });
+    try {
+      // Dose times as the routine and travel mode have them
+      const [applied, routine] = await Promise.all([
+        routineService.applyTo(schedules).then(routed => travelService.applyTo(routed)),
+        routineService.getProfile(),
+      ]);
+      const visibleSchedules = applied.filter(schedule => !showActiveOnly || schedule.status === 'active');
+      // Only active schedules open new ledger events; paused ones show what was recorded
+      const events = await doseLedgerService.materialize(
+        applied.filter(schedule => schedule.status === 'active'),
+        startOfDay(targetDate),
+        endOfDay(targetDate)
+      );
+      const eventsById = new Map(events.map(event => [event.id, event]));
+      const doses: ScheduledDose[] = [];
+      
+      visibleSchedules.forEach(schedule => {
+        getDoseTimesOn(schedule, targetDate).forEach(scheduledTime => {
+          const dose = createScheduledDose(schedule, scheduledTime);
+          const event = eventsById.get(dose.id);
+          doses.push(event ? applyDoseEvent(dose, event, now) : dose);
         });
       });
-    
-    // Sort by scheduled time
-    doses.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
-    setScheduledDoses(doses);
-    // Reset pagination when doses change
-    setCurrentDosePage(1);
-  }, [schedules, selectedDate, showActiveOnly]);
+      
+      // Sort by scheduled time
+      doses.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+      setScheduledDoses(doses);
+      // Reset pagination when doses change
+      setCurrentDosePage(1);
+      // The day's timetable around meals and interaction spacing
+      setDailyPlan(SmartMedicationScheduler.planDailyTimetable(applied, {
+        date: targetDate,
+        routine: routineOn(routine, targetDate),
+        medications,
+      }));
+    } catch (error) {
+      console.error('Generate scheduled doses error:', error);
+    }
+  }, [schedules, selectedDate, showActiveOnly, medications]);
 
   // Memoized pagination for large datasets
   const paginatedSchedules = useMemo(() => 
@@ -264,12 +230,12 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
 
   const markDoseAsTaken = useCallback(async (dose: ScheduledDose) => {
     try {
-      await apiService.logMedicationTaken(dose.scheduleId, new Date());
+      const event = await doseLedgerService.recordTaken(dose);
       
       // Update local state
       setScheduledDoses(prev => 
         prev.map(d => 
-          d.id === dose.id ? { ...d, status: 'taken' } : d
+          d.id === dose.id ? applyDoseEvent(d, event) : d
         )
       );
       
@@ -277,7 +243,7 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
       
       Alert.alert(
         i18n.t('common.success'),
-        i18n.t('reminders.dose_taken')
+        i18n.t(event.status === 'late' ? 'reminders.dose_taken_late' : 'reminders.dose_taken')
       );
     } catch (error) {
       console.error('Mark dose taken error:', error);
@@ -288,11 +254,39 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
     }
   }, []);
 
+  const startSkipDose = useCallback((dose: ScheduledDose) => {
+    setSkipReasonIndex(new IndexPath(0));
+    setSkippingDose(dose);
+  }, []);
+
+  const skipDose = useCallback(async () => {
+    if (!skippingDose) return;
+    const reason = SKIP_REASONS[skipReasonIndex.row] ?? 'other';
+    
+    try {
+      const event = await doseLedgerService.recordSkipped(skippingDose, reason);
+      setScheduledDoses(prev => 
+        prev.map(d => 
+          d.id === event.id ? applyDoseEvent(d, event) : d
+        )
+      );
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error('Skip dose error:', error);
+      Alert.alert(
+        i18n.t('common.error'),
+        i18n.t('errors.unknown_error')
+      );
+    } finally {
+      setSkippingDose(null);
+    }
+  }, [skippingDose, skipReasonIndex]);
+
   const navigateToAddSchedule = useCallback(() => {
     navigation.navigate('AddSchedule');
   }, [navigation]);
 
-  const navigateToEditSchedule = useCallback((scheduleId: number) => {
+  const navigateToEditSchedule = useCallback((scheduleId: string) => {
     navigation.navigate('EditSchedule', { scheduleId });
   }, [navigation]);
 
@@ -305,6 +299,7 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
       item={item}
       index={index}
       onPress={navigateToEditSchedule}
+      onTakeNow={setPrnSchedule}
     />
   ), [navigateToEditSchedule]);
 
@@ -315,8 +310,9 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
       item={item}
       index={index}
       onMarkTaken={markDoseAsTaken}
+      onSkip={startSkipDose}
     />
-  ), [markDoseAsTaken]);
+  ), [markDoseAsTaken, startSkipDose]);
 
   const renderCalendarView = () => (
     <View style={styles.calendarContainer}>
@@ -326,6 +322,8 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
         style={styles.calendar}
       />
       
+      {dailyPlan && <DailyPlanCard plan={dailyPlan} />}
+      
       <Card style={styles.dayScheduleCard}>
         <View style={styles.dayScheduleHeader}>
           <Text category="h6">
@@ -456,18 +454,58 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
             {i18n.t('schedule.create_first_schedule')}
           </Text>
           
-          <Button
-            style={styles.emptyStateButton}
-            accessoryLeft={AddIcon}
-            onPress={navigateToAddSchedule}
-          >
-            {i18n.t('schedule.add_schedule')}
-          </Button>
+          {canEdit && (
+            <Button
+              style={styles.emptyStateButton}
+              accessoryLeft={AddIcon}
+              onPress={navigateToAddSchedule}
+            >
+              {i18n.t('schedule.add_schedule')}
+            </Button>
+          )}
         </View>
       )}
     </View>
   );
 
+  const renderSkipModal = () => (
+    <Modal
+      visible={skippingDose !== null}
+      backdropStyle={styles.backdrop}
+      onBackdropPress={() => setSkippingDose(null)}
+    >
+      <Card disabled={true} style={styles.skipModal}>
+        <Text category="h6" style={styles.skipModalTitle}>
+          {i18n.t('reminders.skip_reason')}
+        </Text>
+        {skippingDose && (
+          <Text category="s1" appearance="hint" style={styles.skipModalTitle}>
+            {`${skippingDose.medicationName} - ${format(skippingDose.scheduledTime, 'HH:mm', { locale })}`}
+          </Text>
+        )}
+        
+        <Select
+          selectedIndex={skipReasonIndex}
+          value={i18n.t(`reminders.skip_reasons.${SKIP_REASONS[skipReasonIndex.row] ?? 'other'}`)}
+          onSelect={(index) => setSkipReasonIndex(index as IndexPath)}
+        >
+          {SKIP_REASONS.map(reason => (
+            <SelectItem key={reason} title={i18n.t(`reminders.skip_reasons.${reason}`)} />
+          ))}
+        </Select>
+        
+        <View style={styles.skipModalActions}>
+          <Button appearance="ghost" onPress={() => setSkippingDose(null)}>
+            {i18n.t('common.cancel')}
+          </Button>
+          <Button status="warning" onPress={skipDose}>
+            {i18n.t('reminders.skip_dose')}
+          </Button>
+        </View>
+      </Card>
+    </Modal>
+  );
+
   if (loading) {
     return (
       <Layout style={[styles.container, { paddingTop: insets.top }]}>
@@ -489,15 +527,21 @@ const ScheduleScreen: React.FC = ({ navigation }: any) => {
             onPress={() => setViewMode(viewMode === 'calendar' ? 'list' : 'calendar')}
           />
         )}
-        accessoryRight={() => (
+        accessoryRight={() => canEdit ? (
           <TopNavigationAction
             icon={AddIcon}
             onPress={navigateToAddSchedule}
           />
-        )}
+        ) : <></>}
       />
 
       {viewMode === 'calendar' ? renderCalendarView() : renderListView()}
+      
+      {/* Skip Reason Modal */}
+      {renderSkipModal()}
+
+      {/* As-needed dose modal */}
+      <PrnDoseModal schedule={prnSchedule} onClose={() => setPrnSchedule(null)} />
     </Layout>
   );
 };
@@ -591,6 +635,21 @@ const styles = StyleSheet.create({
   emptyStateButton: {
     minWidth: 200,
   },
+  backdrop: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  skipModal: {
+    width: screenWidth * 0.85,
+  },
+  skipModalTitle: {
+    marginBottom: Spacing.md,
+  },
+  skipModalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
 });
 
 export default ScheduleScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   View,
@@ -22,14 +22,33 @@ import {
 } from '@ui-kitten/components';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
+import { addDays, format } from 'date-fns';
+import apiService from '../../services/apiService';
 import authService from '../../services/authService';
+import escalationService from '../../services/escalationService';
 import notificationService from '../../services/notificationService';
+import reminderPlannerService from '../../services/reminderPlannerService';
+import routineService from '../../services/routineService';
+import syncService from '../../services/syncService';
+import travelService from '../../services/travelService';
 import i18n from '../../i18n';
 import { MedGuardColors } from '../../theme/colors';
 import { Typography, Spacing } from '../../theme/typography';
 import { useAccessibility } from '../../contexts/AccessibilityContext';
 import popiaComplianceService from '../../services/privacyService';
 import ConsentModal from '../../components/privacy/ConsentModal';
+import ReminderProfileFields from '../../components/reminders/ReminderProfileFields';
+import RoutineEditor from '../../components/routine/RoutineEditor';
+import SkippedDosesNotice from '../../components/reminders/SkippedDosesNotice';
+import ShiftPlanProposal from '../../components/travel/ShiftPlanProposal';
+import { CAREGIVER_CHANNELS, CaregiverContact } from '../../types/escalation';
+import { ReminderProfiles } from '../../types/reminderProfile';
+import { RoutineProfile } from '../../types/routine';
+import { MedicationSchedule, SCHEDULE_PRIORITIES, SchedulePriority } from '../../types/schedule';
+import { SyncCounts, SyncJournalEntry } from '../../types/sync';
+import { TRAVEL_MODES, TravelMode, TravelSettings } from '../../types/travel';
+import { findSkippedDoses } from '../../utils/reminderPlanner';
+import { isTimeCritical, proposeShiftPlan } from '../../utils/travel';
 
 // Icon components
 const BackupIcon = (props: IconProps) => <Icon {...props} name='download-outline' />;
@@ -39,6 +58,22 @@ const NotificationIcon = (props: IconProps) => <Icon {...props} name='bell-outli
 const LanguageIcon = (props: IconProps) => <Icon {...props} name='globe-2-outline' />;
 const CloseIcon = (props: IconProps) => <Icon {...props} name='close-outline' />;
 const SaveIcon = (props: IconProps) => <Icon {...props} name='checkmark-outline' />;
+const SyncIcon = (props: IconProps) => <Icon {...props} name='sync-outline' />;
+
+const SYNC_HISTORY_LENGTH = 5;
+// Doses checked for missing reminders
+const SKIPPED_DOSE_DAYS = 7;
+
+const totalCount = (counts: SyncCounts): number =>
+  Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+const syncStatusLabel = (entry: SyncJournalEntry): string => {
+  switch (entry.status) {
+    case 'success': return i18n.t('connectivity.sync_complete');
+    case 'partial': return i18n.t('connectivity.sync_partial');
+    default: return i18n.t('connectivity.sync_failed');
+  }
+};
 
 interface ReminderSettings {
   enabled: boolean;
@@ -60,17 +95,73 @@ const SettingsScreen: React.FC = () => {
   const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [quietHours, setQuietHours] = useState(false);
+  const [caregiver, setCaregiver] = useState<CaregiverContact>({ name: '', channel: 'sms', destination: '' });
+  const [profiles, setProfiles] = useState<ReminderProfiles | null>(null);
+  const [profilePriority, setProfilePriority] = useState<SchedulePriority>('normal');
+  const [schedules, setSchedules] = useState<MedicationSchedule[]>([]);
+  const [travel, setTravel] = useState<TravelSettings | null>(null);
+  const [routine, setRoutine] = useState<RoutineProfile | null>(null);
+  const [syncJournal, setSyncJournal] = useState<SyncJournalEntry[]>([]);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncing, setSyncing] = useState(false);
 
   useEffect(() => {
     loadSettings();
+    loadSyncState();
   }, []);
 
+  const loadSyncState = async () => {
+    const [journal, pending] = await Promise.all([
+      syncService.getJournal(),
+      syncService.getPendingChanges(),
+    ]);
+    setSyncJournal(journal.slice(0, SYNC_HISTORY_LENGTH));
+    setPendingChanges(pending.length);
+  };
+
+  const syncNow = async () => {
+    try {
+      setSyncing(true);
+      const entry = await syncService.sync();
+      Haptics.notificationAsync(
+        entry.status === 'success'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Warning
+      );
+    } catch (error) {
+      console.error('Manual sync error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('connectivity.sync_failed'));
+    } finally {
+      setSyncing(false);
+      await loadSyncState();
+    }
+  };
+
   const loadSettings = async () => {
     try {
       setLoading(true);
-      const settings = await notificationService.getReminderSettings();
+      const [
+        settings,
+        savedCaregiver,
+        savedProfiles,
+        cachedSchedules,
+        travelSettings,
+        routineProfile,
+      ] = await Promise.all([
+        notificationService.getReminderSettings(),
+        escalationService.getCaregiver(),
+        notificationService.getReminderProfiles(),
+        apiService.readCache('schedules') as Promise<MedicationSchedule[]>,
+        travelService.getSettings(),
+        routineService.getProfile(),
+      ]);
       setReminderSettings(settings);
+      setProfiles(savedProfiles);
+      setSchedules(cachedSchedules);
+      setTravel(travelSettings);
+      setRoutine(routineProfile);
       setQuietHours(!!settings.quietHoursStart);
+      if (savedCaregiver) setCaregiver(savedCaregiver);
     } catch (error) {
       console.error('Load settings error:', error);
     } finally {
@@ -82,6 +173,15 @@ const SettingsScreen: React.FC = () => {
     if (!reminderSettings) return;
     try {
       await notificationService.updateReminderSettings(reminderSettings);
+      const name = caregiver.name.trim();
+      const destination = caregiver.destination.trim();
+      await escalationService.setCaregiver(name && destination ? { ...caregiver, name, destination } : null);
+      if (profiles) {
+        for (const priority of SCHEDULE_PRIORITIES) {
+          await notificationService.updatePriorityProfile(priority, profiles.priorities[priority]);
+        }
+      }
+      await reminderPlannerService.replenish();
       Alert.alert(i18n.t('common.success'), 'Settings saved!');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (error) {
@@ -90,6 +190,59 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  // The reminder window follows the routine once saved
+  const saveRoutine = async () => {
+    if (!routine) return;
+    try {
+      setRoutine(await routineService.setProfile(routine));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Save routine error:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('routine.invalid'));
+    }
+  };
+
+  // Travel settings apply straight away; the reminder window follows them
+  const changeTravelMode = async (mode: TravelMode) => {
+    try {
+      setTravel(await travelService.setMode(mode));
+    } catch (error) {
+      console.error('Set travel mode error:', error);
+    }
+  };
+
+  const changeGradual = async (scheduleId: string, gradual: boolean) => {
+    try {
+      setTravel(await travelService.setGradual(scheduleId, gradual));
+    } catch (error) {
+      console.error('Set gradual shift error:', error);
+    }
+  };
+
+  // Time-critical schedules that would move more than a step on local time
+  const shiftPlans = useMemo(() => {
+    const leg = travel?.mode === 'local' ? travel.leg : undefined;
+    if (!travel || !leg) return [];
+    return schedules
+      .filter(schedule => schedule.status === 'active' && isTimeCritical(schedule))
+      .map(schedule => ({
+        schedule,
+        plan: proposeShiftPlan(
+          { ...schedule, timeZone: schedule.timeZone ?? travel.homeTimeZone },
+          leg,
+          travel.shiftStepMinutes
+        ),
+      }))
+      .filter(({ plan }) => plan.length > 0);
+  }, [travel, schedules]);
+
+  // Doses the settings as edited would leave without a reminder
+  const skippedDoses = useMemo(() => {
+    if (!reminderSettings || !profiles) return [];
+    const now = new Date();
+    return findSkippedDoses(schedules, reminderSettings, profiles, { from: now, to: addDays(now, SKIPPED_DOSE_DAYS) });
+  }, [schedules, reminderSettings, profiles]);
+
   if (loading || !reminderSettings) {
     return (
       <Layout style={[styles.container, { paddingTop: insets.top }]}>
@@ -157,6 +310,81 @@ const SettingsScreen: React.FC = () => {
               />
             </View>
           )}
+          <View style={styles.quietHoursRow}>
+            <Toggle
+              checked={reminderSettings.weekendReminders}
+              onChange={value => setReminderSettings({ ...reminderSettings, weekendReminders: value })}
+            >
+              {i18n.t('reminders.weekend_reminders')}
+            </Toggle>
+          </View>
+          <SkippedDosesNotice doses={skippedDoses} />
+          <View style={styles.quietHoursRow}>
+            <Toggle
+              checked={reminderSettings.missedDoseReminders}
+              onChange={value => setReminderSettings({ ...reminderSettings, missedDoseReminders: value })}
+            >
+              {i18n.t('escalation.enable')}
+            </Toggle>
+          </View>
+          {reminderSettings.missedDoseReminders && (
+            <View style={styles.caregiver}>
+              <Text category="s1">{i18n.t('escalation.caregiver')}</Text>
+              <Text category="c1" appearance="hint">{i18n.t('escalation.caregiver_hint')}</Text>
+              <Input
+                label={i18n.t('escalation.caregiver_name')}
+                value={caregiver.name}
+                onChangeText={name => setCaregiver({ ...caregiver, name })}
+                style={styles.caregiverInput}
+              />
+              <View style={styles.channels}>
+                {CAREGIVER_CHANNELS.map(channel => (
+                  <Button
+                    key={channel}
+                    size="small"
+                    appearance={caregiver.channel === channel ? 'filled' : 'outline'}
+                    onPress={() => setCaregiver({ ...caregiver, channel })}
+                  >
+                    {i18n.t(`escalation.channels.${channel}`)}
+                  </Button>
+                ))}
+              </View>
+              <Input
+                label={i18n.t(`escalation.destination.${caregiver.channel}`)}
+                value={caregiver.destination}
+                onChangeText={destination => setCaregiver({ ...caregiver, destination })}
+                keyboardType={caregiver.channel === 'sms' ? 'phone-pad' : caregiver.channel === 'email' ? 'email-address' : 'default'}
+                autoCapitalize="none"
+                style={styles.caregiverInput}
+              />
+            </View>
+          )}
+          {profiles && (
+            <View style={styles.caregiver}>
+              <Text category="s1">{i18n.t('reminder_profiles.title')}</Text>
+              <Text category="c1" appearance="hint">{i18n.t('reminder_profiles.hint')}</Text>
+              <View style={styles.channels}>
+                {SCHEDULE_PRIORITIES.map(priority => (
+                  <Button
+                    key={priority}
+                    size="small"
+                    appearance={profilePriority === priority ? 'filled' : 'outline'}
+                    onPress={() => setProfilePriority(priority)}
+                  >
+                    {i18n.t(`reminder_profiles.priorities.${priority}`)}
+                  </Button>
+                ))}
+              </View>
+              <ReminderProfileFields
+                profile={profiles.priorities[profilePriority]}
+                critical={profilePriority === 'critical'}
+                onChange={profile => setProfiles({
+                  ...profiles,
+                  priorities: { ...profiles.priorities, [profilePriority]: profile },
+                })}
+              />
+            </View>
+          )}
           <View style={styles.actions}>
             <Button accessoryLeft={SaveIcon} onPress={saveSettings}>
               {i18n.t('common.save')}
@@ -164,6 +392,93 @@ const SettingsScreen: React.FC = () => {
           </View>
         </Card>
 
+        {routine && (
+          <Card style={styles.card}>
+            <Text category="h6">{i18n.t('routine.title')}</Text>
+            <Divider style={styles.divider} />
+            <Text category="c1" appearance="hint">{i18n.t('routine.hint')}</Text>
+            <RoutineEditor profile={routine} onChange={setRoutine} />
+            <View style={styles.actions}>
+              <Button accessoryLeft={SaveIcon} onPress={saveRoutine}>
+                {i18n.t('common.save')}
+              </Button>
+            </View>
+          </Card>
+        )}
+
+        {travel && (
+          <Card style={styles.card}>
+            <Text category="h6">{i18n.t('travel.title')}</Text>
+            <Divider style={styles.divider} />
+            <Text category="c1" appearance="hint">
+              {i18n.t('travel.zones', { home: travel.homeTimeZone, current: travel.lastTimeZone })}
+            </Text>
+            <View style={styles.channels}>
+              {TRAVEL_MODES.map(mode => (
+                <Button
+                  key={mode}
+                  size="small"
+                  appearance={travel.mode === mode ? 'filled' : 'outline'}
+                  onPress={() => changeTravelMode(mode)}
+                >
+                  {i18n.t(`travel.modes.${mode}`)}
+                </Button>
+              ))}
+            </View>
+            <Text category="c1" appearance="hint" style={styles.caregiverInput}>
+              {i18n.t(`travel.mode_hints.${travel.mode}`)}
+            </Text>
+            {shiftPlans.map(({ schedule, plan }) => (
+              <ShiftPlanProposal
+                key={schedule.id}
+                medicationName={schedule.medicationName}
+                plan={plan}
+                accepted={travel.gradualScheduleIds.includes(schedule.id)}
+                onChange={gradual => changeGradual(schedule.id, gradual)}
+              />
+            ))}
+          </Card>
+        )}
+
+        <Card style={styles.card}>
+          <Text category="h6">{i18n.t('connectivity.sync_history')}</Text>
+          <Divider style={styles.divider} />
+          {syncJournal.length === 0 ? (
+            <Text appearance="hint">{i18n.t('connectivity.never_synced')}</Text>
+          ) : (
+            syncJournal.map(entry => (
+              <ListItem
+                key={entry.id}
+                title={`${syncStatusLabel(entry)} · ${format(new Date(entry.finishedAt), 'dd MMM HH:mm')}`}
+                description={[
+                  i18n.t('connectivity.sync_summary', {
+                    sent: totalCount(entry.sent),
+                    received: totalCount(entry.received),
+                    conflicts: entry.conflicts.length,
+                  }),
+                  totalCount(entry.rejected) > 0
+                    ? i18n.t('connectivity.sync_rejected', { count: totalCount(entry.rejected) })
+                    : '',
+                ].filter(Boolean).join('\n')}
+              />
+            ))
+          )}
+          {pendingChanges > 0 && (
+            <Text category="c1" style={styles.syncPending}>
+              {i18n.t('connectivity.pending_changes', { count: pendingChanges })}
+            </Text>
+          )}
+          <View style={styles.actions}>
+            <Button
+              accessoryLeft={SyncIcon}
+              disabled={syncing}
+              onPress={syncNow}
+            >
+              {syncing ? i18n.t('connectivity.sync_in_progress') : i18n.t('connectivity.sync_now')}
+            </Button>
+          </View>
+        </Card>
+
         <Card style={styles.card}>
           <Text category="h6">Accessibility</Text>
           <Divider style={styles.divider} />
@@ -215,7 +530,11 @@ const styles = StyleSheet.create({
   quietHoursRow: { marginTop: Spacing.md },
   timeInputs: { flexDirection: 'row', justifyContent: 'space-between', marginTop: Spacing.md },
   timeInput: { width: '48%' },
+  caregiver: { marginTop: Spacing.md },
+  caregiverInput: { marginTop: Spacing.sm },
+  channels: { flexDirection: 'row', justifyContent: 'space-between', marginTop: Spacing.sm },
   actions: { marginTop: Spacing.lg, alignItems: 'center' },
+  syncPending: { marginTop: Spacing.sm, color: MedGuardColors.alerts.warningAmber },
 });
 
 export default SettingsScreen;
@@ -1,9 +1,13 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import { addDays } from 'date-fns'
+import doseLedgerService from './doseLedgerService'
+import { DoseEvent } from '../types/dose'
+import { doseAdherenceScore } from '../utils/doseLedger'
 
 export interface AdherenceEvent {
-  medicationId: number
-  adherenceRate: number // 0..100
-  timestamp: string // ISO string
+  medicationId: string
+  adherenceRate: number // 0..100, the dose's adherence score
+  timestamp: string // ISO string, the dose's scheduled time
   factors: Record<string, string | number | boolean>
 }
 
@@ -34,28 +38,20 @@ export interface AdherenceReport {
  *
  * Privacy-first adherence analytics (POPIA compliant):
  * - Stores only anonymized, non-identifying aggregates remotely
- * - Keeps raw events locally for on-device insights and reports
+ * - Builds on-device insights and reports from the dose ledger
  */
 export class MedicalAnalyticsService {
-  private readonly localEventsKey = 'analytics_adherence_events_v1'
+  private readonly reportWindowDays = 90
 
   /**
-   * Track medication adherence for a given medication.
-   * Sends anonymized analytics and stores local copy for insights.
+   * Send anonymized analytics for a recorded dose. Pending doses and doses
+   * skipped on a doctor's advice carry no adherence signal and are ignored.
    */
-  async trackAdherence(medicationId: number, adherenceRate: number): Promise<void> {
-    const adherenceData: AdherenceEvent = {
-      medicationId,
-      adherenceRate,
-      timestamp: new Date().toISOString(),
-      factors: await this.analyzeAdherenceFactors(),
+  async trackDoseEvent(event: DoseEvent): Promise<void> {
+    const adherenceEvent = this.toAdherenceEvent(event)
+    if (adherenceEvent) {
+      await this.sendSecureAnalytics(adherenceEvent)
     }
-
-    // Persist locally for reports
-    await this.appendLocalEvent(adherenceData)
-
-    // Send anonymized analytics
-    await this.sendSecureAnalytics(adherenceData)
   }
 
   /**
@@ -73,10 +69,9 @@ export class MedicalAnalyticsService {
 
   // -------------------- Internals (privacy-first) --------------------
 
-  private async analyzeAdherenceFactors(): Promise<Record<string, string | number | boolean>> {
-    const now = new Date()
-    const hour = now.getHours()
-    const day = now.getDay() // 0..6
+  private analyzeAdherenceFactors(date: Date): Record<string, string | number | boolean> {
+    const hour = date.getHours()
+    const day = date.getDay() // 0..6
 
     const timeOfDay = hour < 6 ? 'night' : hour < 12 ? 'morning' : hour < 18 ? 'afternoon' : 'evening'
     const isWeekend = day === 0 || day === 6
@@ -88,22 +83,30 @@ export class MedicalAnalyticsService {
     }
   }
 
-  private async appendLocalEvent(event: AdherenceEvent): Promise<void> {
-    try {
-      const raw = await AsyncStorage.getItem(this.localEventsKey)
-      const existing: AdherenceEvent[] = raw ? JSON.parse(raw) : []
-      // Cap local storage to last 500 events
-      const next = [...existing.slice(-499), event]
-      await AsyncStorage.setItem(this.localEventsKey, JSON.stringify(next))
-    } catch {
-      // ignore storage errors
+  private toAdherenceEvent(event: DoseEvent): AdherenceEvent | null {
+    const score = doseAdherenceScore(event)
+    if (score === null) return null
+    return {
+      medicationId: event.medicationId,
+      adherenceRate: score,
+      timestamp: event.scheduledTime,
+      factors: {
+        ...this.analyzeAdherenceFactors(new Date(event.scheduledTime)),
+        status: event.status,
+      },
     }
   }
 
-  private async getAdherenceData(): Promise<AdherenceEvent[]> {
+  /**
+   * Recorded doses from the last 90 days, one adherence event per dose.
+   */
+  async getAdherenceData(): Promise<AdherenceEvent[]> {
     try {
-      const raw = await AsyncStorage.getItem(this.localEventsKey)
-      return raw ? (JSON.parse(raw) as AdherenceEvent[]) : []
+      const now = new Date()
+      const events = await doseLedgerService.getEvents({ from: addDays(now, -this.reportWindowDays), to: now })
+      return events
+        .map((event) => this.toAdherenceEvent(event))
+        .filter((event): event is AdherenceEvent => event !== null)
     } catch {
       return []
     }
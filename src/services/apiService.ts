@@ -1,79 +1,57 @@
 import authService from './authService';
+import type { QueuedAction, QueuedActionPayloads } from './offlineService';
 import { DEV_CONFIG } from '../config/development';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import {
+  DoseLog,
+  Medication,
+  MedicationInput,
+  parseDoseLog,
+  parseMedication,
+  parseMedicationReminder,
+} from '../types/medication';
+import { Prescription, PrescriptionInput, parsePrescription } from '../types/prescription';
+import { ProductCatalogue, parseProductCatalogue } from '../types/productCatalogue';
+import { MedicationSchedule, MedicationScheduleInput, parseMedicationSchedule } from '../types/schedule';
+import {
+  ApiRequestError,
+  ApiResult,
+  PrescriptionOCRResult,
+  fromApiInboxItem,
+  fromApiLinkedAccounts,
+  fromApiLog,
+  fromApiMedication,
+  fromApiRecord,
+  fromApiSchedule,
+  isRetryableError,
+  parseApiErrorBody,
+  toApiError,
+  toApiCaregiverAlert,
+  toApiId,
+  toApiRecord,
+  unwrapResults,
+} from '../types/api';
+import { CaregiverAlert } from '../types/escalation';
+import { InboxItem } from '../types/inbox';
+import { parseListLenient } from '../types/parse';
+import { LinkedAccounts, LinkedProfile, canManageProfile } from '../types/profile';
+import { ChangeOperation, SyncEntity, SyncRecord } from '../types/sync';
+import { hasLocalReferences } from '../utils/sync';
 
-interface Medication {
-  id: number;
-  name: string;
-  genericName?: string;
-  strength: string;
-  medicationType: string;
-  prescriptionType: string;
-  pillCount: number;
-  lowStockThreshold: number;
-  description?: string;
-  activeIngredients?: string;
-  manufacturer?: string;
-  sideEffects?: string;
-  contraindications?: string;
-  storageInstructions?: string;
-  medicationImage?: string;
-  expirationDate?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface MedicationSchedule {
-  id: number;
-  medication: Medication;
-  patient: number;
-  timing: 'morning' | 'noon' | 'night' | 'custom';
-  customTime?: string;
-  dosageAmount: string;
-  frequency: string;
-  monday: boolean;
-  tuesday: boolean;
-  wednesday: boolean;
-  thursday: boolean;
-  friday: boolean;
-  saturday: boolean;
-  sunday: boolean;
-  startDate: string;
-  endDate?: string;
-  status: 'active' | 'inactive' | 'paused' | 'completed';
-  instructions?: string;
-}
+export type DoseLogInput = Omit<DoseLog, 'id' | 'createdAt' | 'updatedAt'>;
 
-interface MedicationLog {
-  id: number;
-  medication: Medication;
-  schedule?: MedicationSchedule;
-  scheduledTime: string;
-  actualTime?: string;
-  status: 'taken' | 'missed' | 'skipped' | 'partial';
-  dosageTaken?: string;
-  notes?: string;
-  sideEffects?: string;
-}
+// Parsers for the records ApiService keeps in AsyncStorage
+const CACHE_PARSERS: Record<SyncEntity, (input: unknown, path: string) => SyncRecord> = {
+  medications: parseMedication,
+  schedules: parseMedicationSchedule,
+  reminders: parseMedicationReminder,
+  logs: parseDoseLog,
+  prescriptions: parsePrescription,
+};
 
-interface PrescriptionOCRResult {
-  prescriptionNumber: string;
-  doctorName: string;
-  patientName: string;
-  medications: Array<{
-    name: string;
-    strength: string;
-    dosage: string;
-    frequency: string;
-    quantity: string;
-    instructions: string;
-    confidence: number;
-  }>;
-  icd10Codes: string[];
-  confidence: number;
-  processingTime: number;
-}
+const createLocalId = (prefix: string): string =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 
 class ApiService {
   private baseUrl = __DEV__ ? DEV_CONFIG.API_BASE_URL : 'https://api.medguard-sa.com';
@@ -84,6 +62,20 @@ class ApiService {
   private static SCHEDULES_CACHE_KEY = 'cached_schedules';
   private static LOGS_CACHE_KEY = 'cached_logs';
   private static CACHE_TIMESTAMP_KEY = 'cache_timestamp';
+  private static REMINDERS_STORAGE_KEY = 'medication_reminders';
+  private static PRESCRIPTIONS_CACHE_KEY = 'cached_prescriptions';
+  
+  // REST collections used by the sync engine
+  private static SYNC_ENDPOINTS: Record<SyncEntity, string> = {
+    medications: '/api/medications/',
+    schedules: '/api/medication-schedules/',
+    reminders: '/api/medication-reminders/',
+    logs: '/api/medication-logs/',
+    prescriptions: '/api/prescriptions/',
+  };
+  
+  // Dependant whose records are read and written; null for the user's own
+  private profile: LinkedProfile | null = null;
   
   // Medication Management
   async getMedications(forceRefresh = false): Promise<Medication[]> {
@@ -95,7 +87,7 @@ class ApiService {
       }
       
       const headers = await authService.getAuthHeaders();
-      const response = await fetch(`${this.baseUrl}/api/medications/`, {
+      const response = await fetch(this.collectionUrl('/api/medications/'), {
         headers,
       });
       
@@ -104,11 +96,14 @@ class ApiService {
       }
       
       const data = await response.json();
+      const medications = unwrapResults(data).map((item, index) =>
+        fromApiMedication(item, `medications[${index}]`)
+      );
       
       // Cache the results
-      await this.cacheMedications(data.results || data);
+      await this.cacheMedications(medications);
       
-      return data.results || data;
+      return medications;
     } catch (error) {
       console.error('Get medications error:', error);
       // Return cached data if available during error
@@ -126,7 +121,7 @@ class ApiService {
       }
       
       const headers = await authService.getAuthHeaders();
-      const response = await fetch(`${this.baseUrl}/api/medication-schedules/`, {
+      const response = await fetch(this.collectionUrl('/api/medication-schedules/'), {
         headers,
       });
       
@@ -135,10 +130,13 @@ class ApiService {
       }
       
       const data = await response.json();
+      const schedules = unwrapResults(data).map((item, index) =>
+        fromApiSchedule(item, `schedules[${index}]`)
+      );
       
-      await this.cacheSchedules(data.results || data);
+      await this.cacheSchedules(schedules);
       
-      return data.results || data;
+      return schedules;
     } catch (error) {
       console.error('Get schedules error:', error);
       const cached = await this.getCachedSchedules();
@@ -147,14 +145,14 @@ class ApiService {
     }
   }
   
-  async logMedicationTaken(scheduleId: number, actualTime?: Date, notes?: string): Promise<MedicationLog> {
+  async logMedicationTaken(scheduleId: string, actualTime?: Date, notes?: string): Promise<DoseLog> {
     try {
       const headers = await authService.getAuthHeaders();
       const response = await fetch(`${this.baseUrl}/api/medication-logs/`, {
         method: 'POST',
         headers,
         body: JSON.stringify({
-          schedule: scheduleId,
+          schedule: toApiId(scheduleId),
           status: 'taken',
           actualTime: actualTime?.toISOString() || new Date().toISOString(),
           notes,
@@ -165,7 +163,7 @@ class ApiService {
         throw new Error(`Failed to log medication: ${response.status}`);
       }
       
-      const log = await response.json();
+      const log = fromApiLog(await response.json());
       
       // Update local cache
       await this.updateLogCache(log);
@@ -177,13 +175,189 @@ class ApiService {
       await this.queueOfflineAction('log_medication', {
         scheduleId,
         actualTime: actualTime?.toISOString() || new Date().toISOString(),
-        notes,
-        timestamp: new Date().toISOString(),
+        ...(notes && { notes }),
       });
       throw error;
     }
   }
   
+  // Medication, schedule, log and prescription mutations. The cache is updated first so
+  // screens reflect the change immediately; see mutate() for failure handling.
+  async createMedication(input: MedicationInput): Promise<ApiResult<Medication>> {
+    const now = new Date().toISOString();
+    const medication: Medication = { ...input, id: createLocalId('medication'), createdAt: now, updatedAt: now };
+    return this.mutate('medications', 'create', medication.id, medication, medication);
+  }
+  
+  async updateMedication(id: string, updates: Partial<Medication>): Promise<ApiResult<Medication>> {
+    return this.update('medications', id, updates);
+  }
+  
+  async deleteMedication(id: string): Promise<ApiResult<null>> {
+    return this.mutate('medications', 'delete', id, null);
+  }
+  
+  /**
+   * Medication status is client-side only; pausing a medication pauses every
+   * active schedule for it.
+   */
+  async pauseMedication(id: string): Promise<ApiResult<Medication>> {
+    return this.setMedicationActive(id, false);
+  }
+  
+  async resumeMedication(id: string): Promise<ApiResult<Medication>> {
+    return this.setMedicationActive(id, true);
+  }
+  
+  async createSchedule(input: MedicationScheduleInput): Promise<ApiResult<MedicationSchedule>> {
+    const now = new Date().toISOString();
+    const schedule: MedicationSchedule = { ...input, id: createLocalId('schedule'), createdAt: now, updatedAt: now };
+    return this.mutate('schedules', 'create', schedule.id, schedule, schedule);
+  }
+  
+  async updateSchedule(id: string, updates: Partial<MedicationSchedule>): Promise<ApiResult<MedicationSchedule>> {
+    return this.update('schedules', id, updates);
+  }
+  
+  async deleteSchedule(id: string): Promise<ApiResult<null>> {
+    return this.mutate('schedules', 'delete', id, null);
+  }
+  
+  async pauseSchedule(id: string): Promise<ApiResult<MedicationSchedule>> {
+    return this.updateSchedule(id, { status: 'paused' });
+  }
+  
+  async resumeSchedule(id: string): Promise<ApiResult<MedicationSchedule>> {
+    return this.updateSchedule(id, { status: 'active' });
+  }
+  
+  async createLog(input: DoseLogInput): Promise<ApiResult<DoseLog>> {
+    const now = new Date().toISOString();
+    const log: DoseLog = { ...input, id: createLocalId('log'), createdAt: now, updatedAt: now };
+    return this.mutate('logs', 'create', log.id, log, log);
+  }
+  
+  async updateLog(id: string, updates: Partial<DoseLog>): Promise<ApiResult<DoseLog>> {
+    return this.update('logs', id, updates);
+  }
+  
+  async deleteLog(id: string): Promise<ApiResult<null>> {
+    return this.mutate('logs', 'delete', id, null);
+  }
+  
+  async createPrescription(input: PrescriptionInput): Promise<ApiResult<Prescription>> {
+    const now = new Date().toISOString();
+    const prescription: Prescription = { ...input, id: createLocalId('prescription'), createdAt: now, updatedAt: now };
+    return this.mutate('prescriptions', 'create', prescription.id, prescription, prescription);
+  }
+  
+  async updatePrescription(id: string, updates: Partial<Prescription>): Promise<ApiResult<Prescription>> {
+    return this.update('prescriptions', id, updates);
+  }
+  
+  async deletePrescription(id: string): Promise<ApiResult<null>> {
+    return this.mutate('prescriptions', 'delete', id, null);
+  }
+  
+  private async update<T extends SyncRecord>(
+    entity: SyncEntity,
+    id: string,
+    updates: Partial<T>
+  ): Promise<ApiResult<T>> {
+    const current = (await this.readCache(entity)).find(record => record.id === id);
+    if (!current) {
+      return { ok: false, error: { kind: 'not_found', message: `No cached ${entity} record ${id}` } };
+    }
+    
+    const next = { ...current, ...updates, id, updatedAt: new Date().toISOString() } as T;
+    return this.mutate(entity, 'update', id, next, updates as Partial<SyncRecord>);
+  }
+  
+  private async setMedicationActive(id: string, active: boolean): Promise<ApiResult<Medication>> {
+    const medications = await this.readCache('medications') as Medication[];
+    const medication = medications.find(item => item.id === id);
+    if (!medication) {
+      return { ok: false, error: { kind: 'not_found', message: `No cached medication ${id}` } };
+    }
+    
+    const schedules = await this.readCache('schedules') as MedicationSchedule[];
+    const affected = schedules.filter(schedule =>
+      schedule.medicationId === id && schedule.status === (active ? 'paused' : 'active')
+    );
+    let queued = false;
+    for (const schedule of affected) {
+      const result = active ? await this.resumeSchedule(schedule.id) : await this.pauseSchedule(schedule.id);
+      if (!result.ok) return result;
+      queued = queued || result.queued;
+    }
+    
+    const updated: Medication = { ...medication, status: active ? 'active' : 'inactive', updatedAt: new Date().toISOString() };
+    await this.writeCache('medications', medications.map(item => (item.id === id ? updated : item)));
+    return { ok: true, data: updated, queued };
+  }
+  
+  /**
+   * Apply a change to the local cache, then send it. Network failures and
+   * 5xx responses keep the optimistic record and hand the change to the sync
+   * engine; any other error rolls the cache back and is returned.
+   */
+  private async mutate<T extends SyncRecord | null>(
+    entity: SyncEntity,
+    operation: ChangeOperation,
+    recordId: string,
+    next: T,
+    payload?: Partial<SyncRecord>
+  ): Promise<ApiResult<T>> {
+    if (!canManageProfile(this.profile)) {
+      return { ok: false, error: { kind: 'unauthorized', message: `View-only access to ${this.profile?.name}` } };
+    }
+    
+    const snapshot = await this.readCache(entity);
+    await this.writeCache(entity, this.replaceRecord(snapshot, recordId, next));
+    
+    // Loaded lazily: the sync engine depends on this service
+    const syncService = (await import('./syncService')).default;
+    
+    if (operation !== 'create' && toApiId(recordId) === undefined) {
+      // Not on the server yet; fold into the queued create
+      await syncService.trackChange(entity, operation, recordId, payload);
+      return { ok: true, data: next, queued: true };
+    }
+    if (payload && hasLocalReferences(entity, payload)) {
+      // Points at a record whose create is still queued; follow it there
+      await syncService.trackChange(entity, operation, recordId, payload);
+      return { ok: true, data: next, queued: true };
+    }
+    
+    try {
+      const response = await this.pushChange(entity, operation, recordId, payload && toApiRecord(entity, payload));
+      if (!response || !next) {
+        return { ok: true, data: next, queued: false };
+      }
+      
+      const saved = fromApiRecord(entity, response, `${entity}.${operation}`) as NonNullable<T>;
+      await this.writeCache(entity, this.replaceRecord(await this.readCache(entity), recordId, saved));
+      return { ok: true, data: saved, queued: false };
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (isRetryableError(apiError)) {
+        await syncService.trackChange(entity, operation, recordId, payload);
+        return { ok: true, data: next, queued: true };
+      }
+      
+      console.error(`${entity} ${operation} error:`, error);
+      await this.writeCache(entity, snapshot);
+      return { ok: false, error: apiError };
+    }
+  }
+  
+  private replaceRecord(records: SyncRecord[], id: string, record: SyncRecord | null): SyncRecord[] {
+    const index = records.findIndex(item => item.id === id);
+    if (!record) return records.filter(item => item.id !== id);
+    if (index < 0) return [...records, record];
+    return records.map((item, itemIndex) => (itemIndex === index ? record : item));
+  }
+  
   async processPrescriptionOCR(imageUri: string): Promise<PrescriptionOCRResult> {
     try {
       const headers = await authService.getAuthHeaders();
@@ -216,6 +390,111 @@ class ApiService {
     }
   }
   
+  /**
+   * Ask the backend to tell a caregiver about a missed dose by SMS, push or
+   * email. Throws when the request fails so the step can be retried.
+   */
+  async notifyCaregiver(alert: CaregiverAlert): Promise<void> {
+    const headers = await authService.getAuthHeaders();
+    const response = await fetch(`${this.baseUrl}/api/caregiver-alerts/`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(toApiCaregiverAlert(alert)),
+    });
+    
+    if (!response.ok) {
+      throw await this.requestError(response, 'Failed to notify caregiver');
+    }
+  }
+  
+  // Notification inbox
+  async fetchInbox(since?: string): Promise<InboxItem[]> {
+    const headers = await authService.getAuthHeaders();
+    const query = since ? `?updated_after=${encodeURIComponent(since)}` : '';
+    const response = await fetch(`${this.baseUrl}/api/notification-inbox/${query}`, {
+      headers,
+    });
+    
+    if (!response.ok) {
+      throw await this.requestError(response, 'Failed to fetch notifications');
+    }
+    
+    return unwrapResults(await response.json()).map((item, index) =>
+      fromApiInboxItem(item, `notificationInbox[${index}]`)
+    );
+  }
+  
+  /**
+   * Tell the backend which notifications have been read, local ones
+   * included, so other devices show them as read.
+   */
+  async markInboxRead(reads: { id: string; readAt: string }[]): Promise<void> {
+    const headers = await authService.getAuthHeaders();
+    const response = await fetch(`${this.baseUrl}/api/notification-inbox/read/`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ notifications: reads }),
+    });
+    
+    if (!response.ok) {
+      throw await this.requestError(response, 'Failed to mark notifications read');
+    }
+  }
+  
+  /**
+   * The product catalogue when the server has a newer version than
+   * `currentVersion`, otherwise null.
+   */
+  async fetchProductCatalogue(currentVersion: string): Promise<ProductCatalogue | null> {
+    const headers = await authService.getAuthHeaders();
+    const response = await fetch(
+      `${this.baseUrl}/api/product-catalogue/?since_version=${encodeURIComponent(currentVersion)}`,
+      { headers }
+    );
+    
+    if (response.status === 204 || response.status === 304) return null;
+    if (!response.ok) {
+      throw await this.requestError(response, 'Failed to fetch product catalogue');
+    }
+    
+    return parseProductCatalogue(await response.json());
+  }
+  
+  // Linked profiles
+  async getLinkedAccounts(): Promise<LinkedAccounts> {
+    const headers = await authService.getAuthHeaders();
+    const response = await fetch(`${this.baseUrl}/api/linked-accounts/`, {
+      headers,
+    });
+    
+    if (!response.ok) {
+      throw await this.requestError(response, 'Failed to fetch linked accounts');
+    }
+    
+    return fromApiLinkedAccounts(await response.json());
+  }
+  
+  getActiveProfile(): LinkedProfile | null {
+    return this.profile;
+  }
+  
+  /**
+   * Point requests and local storage at a dependant's records, or back at
+   * the user's own with null. Use ProfileService to switch so the rest of
+   * the app hears about it.
+   */
+  setActiveProfile(profile: LinkedProfile | null): void {
+    this.profile = profile;
+  }
+  
+  /**
+   * Storage key for data kept per patient. The user's own data keeps the
+   * plain key, so nothing stored before profiles existed moves.
+   */
+  scopedKey(key: string, patientId: number | null = this.profile?.patientId ?? null): string {
+    return patientId === null ? key : `${key}_patient_${patientId}`;
+  }
+  
   async getWagtailContent(contentType: string, slug?: string): Promise<any> {
     try {
       const url = slug 
@@ -311,16 +590,142 @@ class ApiService {
     }
   }
   
+  // Sync engine transport
+  async fetchChanges(entity: SyncEntity, since?: string, patientId?: number | null): Promise<unknown[]> {
+    const headers = await authService.getAuthHeaders();
+    const query = since ? { updated_after: since } : {};
+    const response = await fetch(this.collectionUrl(ApiService.SYNC_ENDPOINTS[entity], query, patientId), {
+      headers,
+    });
+    
+    if (!response.ok) {
+      throw await this.requestError(response, `Failed to fetch ${entity} changes`);
+    }
+    
+    return unwrapResults(await response.json());
+  }
+  
+  /**
+   * Send one local mutation. Returns the server's copy of the record, or null
+   * when there is nothing to merge back (deletes, or records that never
+   * reached the server). Creates go to the active profile's patient unless
+   * one is given.
+   */
+  async pushChange(
+    entity: SyncEntity,
+    operation: ChangeOperation,
+    recordId: string,
+    body?: object,
+    patientId?: number | null
+  ): Promise<unknown | null> {
+    const apiId = toApiId(recordId);
+    if (operation !== 'create' && apiId === undefined) {
+      // Local-only record; its create is still queued or was never sent
+      return null;
+    }
+    
+    const headers = await authService.getAuthHeaders();
+    const collection = `${this.baseUrl}${ApiService.SYNC_ENDPOINTS[entity]}`;
+    const method = operation === 'create' ? 'POST' : operation === 'update' ? 'PATCH' : 'DELETE';
+    const url = operation === 'create'
+      ? this.collectionUrl(ApiService.SYNC_ENDPOINTS[entity], {}, patientId)
+      : `${collection}${apiId}/`;
+    const response = await fetch(url, {
+      method,
+      headers,
+      ...(body && operation !== 'delete' && { body: JSON.stringify(body) }),
+    });
+    
+    // Deleting something the server no longer has is not an error
+    if (operation === 'delete' && response.status === 404) return null;
+    
+    if (!response.ok) {
+      throw await this.requestError(response, `Failed to ${operation} ${entity}`);
+    }
+    
+    return operation === 'delete' || response.status === 204 ? null : await response.json();
+  }
+  
+  /**
+   * Storage key of the local replica the sync engine reads and writes, for
+   * the active profile unless a patient is given (null for the user's own).
+   */
+  getStorageKey(entity: SyncEntity, patientId?: number | null): string {
+    switch (entity) {
+      case 'medications':
+        return this.scopedKey(ApiService.MEDICATIONS_CACHE_KEY, patientId);
+      case 'schedules':
+        return this.scopedKey(ApiService.SCHEDULES_CACHE_KEY, patientId);
+      case 'reminders':
+        return this.scopedKey(ApiService.REMINDERS_STORAGE_KEY, patientId);
+      case 'logs':
+        return this.scopedKey(ApiService.LOGS_CACHE_KEY, patientId);
+      case 'prescriptions':
+        return this.scopedKey(ApiService.PRESCRIPTIONS_CACHE_KEY, patientId);
+    }
+  }
+  
+  async markCacheFresh(patientId?: number | null): Promise<void> {
+    await AsyncStorage.setItem(this.scopedKey(ApiService.CACHE_TIMESTAMP_KEY, patientId), Date.now().toString());
+  }
+  
+  /**
+   * All locally stored records for an entity, regardless of cache age, for
+   * the active profile unless a patient is given.
+   */
+  async readCache(entity: SyncEntity, patientId?: number | null): Promise<SyncRecord[]> {
+    try {
+      const key = this.getStorageKey(entity, patientId);
+      const cached = await AsyncStorage.getItem(key);
+      return cached ? parseListLenient(JSON.parse(cached), key, CACHE_PARSERS[entity]) : [];
+    } catch (error) {
+      console.error('Cache read error:', error);
+      return [];
+    }
+  }
+  
+  async writeCache(entity: SyncEntity, records: SyncRecord[], patientId?: number | null): Promise<void> {
+    await AsyncStorage.setItem(this.getStorageKey(entity, patientId), JSON.stringify(records));
+    if (entity === 'medications') {
+      await this.markCacheFresh(patientId);
+    }
+  }
+  
+  /**
+   * URL of a REST collection with the given query, asking for a dependant's
+   * records: the given patient's (null for the user's own), else the active
+   * profile's.
+   */
+  private collectionUrl(path: string, query: Record<string, string> = {}, patientId?: number | null): string {
+    const patient = patientId === undefined ? this.profile?.patientId ?? null : patientId;
+    const params = Object.entries({
+      ...query,
+      ...(patient !== null && { patient: String(patient) }),
+    }).map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+    return `${this.baseUrl}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  }
+  
+  private async requestError(response: Response, action: string): Promise<ApiRequestError> {
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+    const { detail, fieldErrors } = parseApiErrorBody(body);
+    return new ApiRequestError(response.status, `${action}: ${detail ?? response.status}`, fieldErrors);
+  }
+  
   // Cache management methods
   private async cacheMedications(medications: Medication[]): Promise<void> {
-    await AsyncStorage.setItem(ApiService.MEDICATIONS_CACHE_KEY, JSON.stringify(medications));
-    await AsyncStorage.setItem(ApiService.CACHE_TIMESTAMP_KEY, Date.now().toString());
+    await AsyncStorage.setItem(this.getStorageKey('medications'), JSON.stringify(medications));
+    await this.markCacheFresh();
   }
   
   private async getCachedMedications(): Promise<Medication[] | null> {
     try {
-      const cached = await AsyncStorage.getItem(ApiService.MEDICATIONS_CACHE_KEY);
-      const timestamp = await AsyncStorage.getItem(ApiService.CACHE_TIMESTAMP_KEY);
+      const cached = await AsyncStorage.getItem(this.getStorageKey('medications'));
+      const timestamp = await AsyncStorage.getItem(this.scopedKey(ApiService.CACHE_TIMESTAMP_KEY));
       
       if (!cached || !timestamp) return null;
       
@@ -330,7 +735,7 @@ class ApiService {
       
       if (cacheAge > maxAge) return null;
       
-      return JSON.parse(cached);
+      return parseListLenient(JSON.parse(cached), 'cached_medications', parseMedication);
     } catch (error) {
       console.error('Cache read error:', error);
       return null;
@@ -338,23 +743,23 @@ class ApiService {
   }
   
   private async cacheSchedules(schedules: MedicationSchedule[]): Promise<void> {
-    await AsyncStorage.setItem(ApiService.SCHEDULES_CACHE_KEY, JSON.stringify(schedules));
+    await AsyncStorage.setItem(this.getStorageKey('schedules'), JSON.stringify(schedules));
   }
   
   private async getCachedSchedules(): Promise<MedicationSchedule[] | null> {
     try {
-      const cached = await AsyncStorage.getItem(ApiService.SCHEDULES_CACHE_KEY);
-      return cached ? JSON.parse(cached) : null;
+      const cached = await AsyncStorage.getItem(this.getStorageKey('schedules'));
+      return cached ? parseListLenient(JSON.parse(cached), 'cached_schedules', parseMedicationSchedule) : null;
     } catch (error) {
       console.error('Schedule cache read error:', error);
       return null;
     }
   }
   
-  private async updateLogCache(log: MedicationLog): Promise<void> {
+  private async updateLogCache(log: DoseLog): Promise<void> {
     try {
-      const cached = await AsyncStorage.getItem(ApiService.LOGS_CACHE_KEY);
-      const logs: MedicationLog[] = cached ? JSON.parse(cached) : [];
+      const cached = await AsyncStorage.getItem(this.getStorageKey('logs'));
+      const logs = cached ? parseListLenient(JSON.parse(cached), 'cached_logs', parseDoseLog) : [];
       
       logs.unshift(log); // Add to beginning
       
@@ -363,26 +768,17 @@ class ApiService {
         logs.splice(100);
       }
       
-      await AsyncStorage.setItem(ApiService.LOGS_CACHE_KEY, JSON.stringify(logs));
+      await AsyncStorage.setItem(this.getStorageKey('logs'), JSON.stringify(logs));
     } catch (error) {
       console.error('Log cache update error:', error);
     }
   }
   
-  private async queueOfflineAction(action: string, data: any): Promise<void> {
+  private async queueOfflineAction<A extends QueuedAction>(action: A, data: QueuedActionPayloads[A]): Promise<void> {
     try {
-      const queueKey = 'offline_action_queue';
-      const cached = await AsyncStorage.getItem(queueKey);
-      const queue = cached ? JSON.parse(cached) : [];
-      
-      queue.push({
-        action,
-        data,
-        timestamp: new Date().toISOString(),
-        id: Date.now().toString(),
-      });
-      
-      await AsyncStorage.setItem(queueKey, JSON.stringify(queue));
+      // Loaded lazily: the sync engine depends on this service
+      const syncService = (await import('./syncService')).default;
+      await syncService.trackAction(action, data);
     } catch (error) {
       console.error('Queue offline action error:', error);
     }
@@ -390,36 +786,8 @@ class ApiService {
   
   async syncOfflineActions(): Promise<void> {
     try {
-      const queueKey = 'offline_action_queue';
-      const cached = await AsyncStorage.getItem(queueKey);
-      if (!cached) return;
-      
-      const queue = JSON.parse(cached);
-      const processedIds: string[] = [];
-      
-      for (const item of queue) {
-        try {
-          switch (item.action) {
-            case 'log_medication':
-              await this.logMedicationTaken(
-                item.data.scheduleId,
-                new Date(item.data.actualTime),
-                item.data.notes
-              );
-              break;
-            // Add other offline actions here
-          }
-          processedIds.push(item.id);
-        } catch (error) {
-          console.error(`Failed to sync offline action ${item.id}:`, error);
-          // Keep failed items in queue for retry
-        }
-      }
-      
-      // Remove successfully processed items
-      const remainingQueue = queue.filter((item: any) => !processedIds.includes(item.id));
-      await AsyncStorage.setItem(queueKey, JSON.stringify(remainingQueue));
-      
+      const syncService = (await import('./syncService')).default;
+      await syncService.pushPendingChanges();
     } catch (error) {
       console.error('Sync offline actions error:', error);
     }
@@ -438,10 +806,9 @@ class ApiService {
       clearTimeout(timeoutId);
       
       if (response.ok) {
-        await this.syncOfflineActions();
-        // Refresh cache with latest data
-        await this.getMedications(true);
-        await this.getMedicationSchedules(true);
+        // Push queued changes and pull deltas into the local caches
+        const syncService = (await import('./syncService')).default;
+        await syncService.sync();
       }
     } catch (error) {
       console.log('Sync check failed - continuing offline:', (error as Error).message);
@@ -0,0 +1,464 @@
+/**
+ * MedGuard SA - Dose ledger
+ * Persistent record of every scheduled dose occurrence and the state
+ * transitions it went through. Resolved doses are mirrored to dose logs
+ * through ApiService, which queues them for the sync engine when offline;
+ * reconcile() folds logs pulled from /api/medication-logs/ back in. Doses
+ * recorded here also draw down stock through InventoryService. Each linked
+ * profile has its own ledger.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays } from 'date-fns';
+import apiService, { DoseLogInput } from './apiService';
+import inventoryService from './inventoryService';
+import travelService from './travelService';
+import {
+  AdherenceSummary,
+  DEFAULT_DOSE_WINDOWS,
+  DoseEvent,
+  DoseOccurrence,
+  DoseWindows,
+  SkipReason,
+  parseDoseEvent,
+} from '../types/dose';
+import { DoseEscalation } from '../types/escalation';
+import { DoseLog } from '../types/medication';
+import { compact, parseListLenient } from '../types/parse';
+import { canManageProfile } from '../types/profile';
+import { MedicationSchedule } from '../types/schedule';
+import {
+  calculateAdherence,
+  classifyTakenTime,
+  doseStateFromLog,
+  isPastMissedWindow,
+  isSkipReason,
+  toDoseLogStatus,
+  transitionDose,
+} from '../utils/doseLedger';
+import { dosageConsumed } from '../utils/inventory';
+import { doseIdFor, getDosageAt, getDoseTimesBetween, occurrenceIdFor } from '../utils/scheduleUtils';
+import { remapDoseId } from '../utils/sync';
+
+export interface DoseEventFilter {
+  from?: Date;
+  to?: Date;
+  medicationId?: string;
+}
+
+export interface LedgerScope {
+  /** Whose ledger to read or write: null for the user's own. The active profile's when left out */
+  patientId?: number | null;
+}
+
+export type DoseLedgerListener = () => void;
+
+class DoseLedgerService {
+  private static LEDGER_KEY = 'dose_ledger';
+  private static RETENTION_DAYS = 180;
+
+  private windows: DoseWindows = DEFAULT_DOSE_WINDOWS;
+  private listeners = new Set<DoseLedgerListener>();
+  // Serialises read-modify-write cycles on the stored ledger
+  private writes: Promise<unknown> = Promise.resolve();
+
+  getWindows(): DoseWindows {
+    return this.windows;
+  }
+
+  setWindows(windows: Partial<DoseWindows>): void {
+    this.windows = { ...this.windows, ...windows };
+  }
+
+  subscribe(listener: DoseLedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // -------------------- Queries --------------------
+
+  /**
+   * Events in scheduled order, optionally limited to a time range and one
+   * medication.
+   */
+  async getEvents(filter: DoseEventFilter & LedgerScope = {}): Promise<DoseEvent[]> {
+    const events = await this.load(filter.patientId);
+    return events
+      .filter(event => {
+        const time = new Date(event.scheduledTime);
+        return (!filter.from || time >= filter.from)
+          && (!filter.to || time <= filter.to)
+          && (!filter.medicationId || event.medicationId === filter.medicationId);
+      })
+      .sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+  }
+
+  async getEvent(id: string): Promise<DoseEvent | undefined> {
+    return (await this.load()).find(event => event.id === id);
+  }
+
+  async getAdherence(filter: DoseEventFilter = {}): Promise<AdherenceSummary> {
+    return calculateAdherence(await this.getEvents(filter));
+  }
+
+  /**
+   * Open pending events for every occurrence of the schedules between `from`
+   * and `to`, mark overdue ones missed and return the events in that range.
+   * Pending events left over from an earlier version of a schedule are
+   * dropped.
+   */
+  async materialize(schedules: MedicationSchedule[], from: Date, to: Date): Promise<DoseEvent[]> {
+    const now = new Date().toISOString();
+    await this.update(events => {
+      const expected = new Map<string, DoseEvent>();
+      schedules.forEach(schedule => {
+        getDoseTimesBetween(schedule, from, new Date(to.getTime() + 1)).forEach(time => {
+          const event = this.openEvent({
+            id: doseIdFor(schedule.id, time, schedule.timeZone),
+            scheduleId: schedule.id,
+            medicationId: schedule.medicationId,
+            medicationName: schedule.medicationName,
+            dosage: getDosageAt(schedule, time),
+            scheduledTime: time,
+          }, now);
+          expected.set(event.id, event);
+        });
+      });
+
+      const scheduleIds = new Set(schedules.map(schedule => schedule.id));
+      const kept = events.filter(event => {
+        const time = new Date(event.scheduledTime);
+        const stale = event.status === 'pending'
+          && scheduleIds.has(event.scheduleId)
+          && time >= from && time <= to
+          && !expected.has(event.id);
+        expected.delete(event.id);
+        return !stale;
+      });
+      return [...kept, ...expected.values()];
+    });
+
+    await this.markMissed();
+    return this.getEvents({ from, to });
+  }
+
+  // -------------------- Transitions --------------------
+
+  /**
+   * Record a dose as taken; it is stored as late when taken after the
+   * on-time window.
+   */
+  async recordTaken(dose: DoseOccurrence, options: { actualTime?: Date; notes?: string } & LedgerScope = {}): Promise<DoseEvent> {
+    const { patientId, ...transition } = options;
+    const actualTime = transition.actualTime ?? new Date();
+    return this.record(
+      dose,
+      event => transitionDose(event, classifyTakenTime(event.scheduledTime, actualTime, this.windows), { ...transition, actualTime }),
+      patientId
+    );
+  }
+
+  async recordPartial(
+    dose: DoseOccurrence,
+    dosageTaken: string,
+    options: { actualTime?: Date; notes?: string } = {}
+  ): Promise<DoseEvent> {
+    return this.record(dose, event => transitionDose(event, 'partial', { ...options, dosageTaken }));
+  }
+
+  async recordSkipped(dose: DoseOccurrence, reason: SkipReason, options: { notes?: string } & LedgerScope = {}): Promise<DoseEvent> {
+    const { notes, patientId } = options;
+    return this.record(
+      dose,
+      event => transitionDose(event, 'skipped', { skipReason: reason, ...(notes !== undefined && { notes }) }),
+      patientId
+    );
+  }
+
+  async recordMissed(dose: DoseOccurrence, notes?: string): Promise<DoseEvent> {
+    return this.record(dose, event => transitionDose(event, 'missed', { ...(notes !== undefined && { notes }) }));
+  }
+
+  /**
+   * Undo a recorded dose; its dose log is deleted.
+   */
+  async reset(dose: DoseOccurrence): Promise<DoseEvent> {
+    return this.record(dose, event => transitionDose(event, 'pending'));
+  }
+
+  /**
+   * Move pending doses past the missed window to missed.
+   */
+  async markMissed(now = new Date()): Promise<DoseEvent[]> {
+    const missed: DoseEvent[] = [];
+    await this.update(events =>
+      events.map(event => {
+        if (!isPastMissedWindow(event, now, this.windows)) return event;
+        const next = transitionDose(event, 'missed', { at: now, source: 'auto' });
+        missed.push(next);
+        return next;
+      })
+    );
+
+    for (const event of missed) {
+      await this.mirror(event);
+    }
+    return missed;
+  }
+
+  /**
+   * Record escalation steps taken for a dose. They don't change its state
+   * and stay on this device.
+   */
+  async recordEscalations(eventId: string, escalations: DoseEscalation[], { patientId }: LedgerScope = {}): Promise<void> {
+    if (escalations.length === 0) return;
+    const at = new Date().toISOString();
+    await this.update(
+      events =>
+        events.map(event =>
+          event.id === eventId
+            ? { ...event, escalations: [...(event.escalations ?? []), ...escalations], updatedAt: at }
+            : event
+        ),
+      patientId
+    );
+  }
+
+  // -------------------- Server reconciliation --------------------
+
+  /**
+   * Fold the dose logs in the local replica into the ledger. Logs recorded
+   * on another device open or update events, temporary log ids are replaced
+   * once the sync engine has pushed them, and resolved events whose log
+   * could not be written are retried.
+   */
+  async reconcile(): Promise<void> {
+    const logs = (await apiService.readCache('logs')) as DoseLog[];
+    const schedules = await travelService.applyTo((await apiService.readCache('schedules')) as MedicationSchedule[]);
+    const now = new Date().toISOString();
+
+    const events = await this.update(current => {
+      const byId = new Map(current.map(event => [event.id, event]));
+
+      logs.forEach(log => {
+        if (!log.scheduleId || !log.scheduledTime) return;
+        const schedule = schedules.find(item => item.id === log.scheduleId);
+        const id = doseIdFor(log.scheduleId, new Date(log.scheduledTime), schedule?.timeZone);
+        const event = byId.get(id) ?? this.openEvent({
+          id,
+          scheduleId: log.scheduleId,
+          medicationId: log.medicationId,
+          medicationName: schedule?.medicationName ?? '',
+          dosage: (schedule && getDosageAt(schedule, new Date(log.scheduledTime))) ?? log.dosage ?? '',
+          scheduledTime: log.scheduledTime,
+        }, log.createdAt);
+
+        const serverIsNewer = !byId.has(id) || log.updatedAt > event.updatedAt;
+        byId.set(id, serverIsNewer ? this.applyLog(event, log, now) : { ...event, logId: log.id });
+      });
+
+      return Array.from(byId.values());
+    });
+
+    // Includes doses recorded from a reminder while another profile was shown;
+    // their stock is taken now too (recording the same dose again is a no-op)
+    const unmirrored = events.filter(event => toDoseLogStatus(event.status) && !event.logId);
+    for (const event of unmirrored) {
+      const mirrored = await this.mirror(event);
+      await inventoryService.recordDose(mirrored.medicationId, mirrored.id, dosageConsumed(mirrored));
+    }
+  }
+
+  /**
+   * Point events at a medication's or schedule's server id once the sync
+   * engine has pushed its create. Dose ids start with the schedule id, so
+   * they follow it.
+   */
+  async remapIds(
+    entity: 'medications' | 'schedules',
+    previousId: string,
+    nextId: string,
+    patientId?: number | null
+  ): Promise<void> {
+    await this.update(events =>
+      events.map(event => {
+        if (entity === 'medications') {
+          return event.medicationId === previousId ? { ...event, medicationId: nextId } : event;
+        }
+        if (event.scheduleId !== previousId) return event;
+        return { ...event, id: remapDoseId(event.id, previousId, nextId), scheduleId: nextId };
+      }),
+      patientId
+    );
+  }
+
+  // -------------------- Internals --------------------
+
+  private openEvent(dose: DoseOccurrence, now: string): DoseEvent {
+    const scheduledTime = new Date(dose.scheduledTime);
+    return {
+      id: occurrenceIdFor(dose),
+      scheduleId: dose.scheduleId,
+      medicationId: dose.medicationId,
+      medicationName: dose.medicationName ?? '',
+      dosage: dose.dosage,
+      scheduledTime: scheduledTime.toISOString(),
+      status: 'pending',
+      transitions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Take the server's state for an event. The server is the record of what
+   * happened, so this bypasses the transition rules.
+   */
+  private applyLog(event: DoseEvent, log: DoseLog, now: string): DoseEvent {
+    const status = doseStateFromLog(log, event.scheduledTime, this.windows);
+    const next: DoseEvent = { ...event, logId: log.id };
+    if (status === event.status) return next;
+
+    const skipReason = status === 'skipped' && isSkipReason(log.skipReason) ? log.skipReason : undefined;
+    delete next.actualTime;
+    delete next.dosageTaken;
+    delete next.skipReason;
+
+    return {
+      ...next,
+      ...compact<Pick<DoseEvent, 'actualTime' | 'dosageTaken' | 'skipReason' | 'notes'>>({
+        actualTime: status === 'missed' || status === 'skipped' ? undefined : log.actualTime,
+        dosageTaken: status === 'partial' ? log.dosage : undefined,
+        skipReason,
+        notes: log.notes ?? event.notes,
+      }),
+      status,
+      transitions: [
+        ...event.transitions,
+        { from: event.status, to: status, at: now, source: 'server', ...(skipReason && { reason: skipReason }) },
+      ],
+      updatedAt: log.updatedAt,
+    };
+  }
+
+  /**
+   * Apply a transition and write it through. Outside the active profile
+   * (`patientId` set to another profile) only that profile's ledger is
+   * written: ApiService and InventoryService work on the active profile, so
+   * the dose log and stock change follow from reconcile() once it is active
+   * again.
+   */
+  private async record(
+    dose: DoseOccurrence,
+    apply: (event: DoseEvent) => DoseEvent,
+    patientId?: number | null
+  ): Promise<DoseEvent> {
+    const active = apiService.getActiveProfile();
+    const elsewhere = patientId !== undefined && patientId !== (active?.patientId ?? null);
+    // The user's own ledger is always theirs to write; dependants' need manage access
+    if (!elsewhere && !canManageProfile(active)) {
+      throw new Error('Doses cannot be recorded with view-only access');
+    }
+    if (elsewhere && patientId !== null) {
+      throw new Error('Only the user\'s own doses can be recorded from another profile');
+    }
+    const id = occurrenceIdFor(dose);
+    let recorded: DoseEvent | undefined;
+
+    await this.update(events => {
+      const current = events.find(event => event.id === id) ?? this.openEvent(dose, new Date().toISOString());
+      recorded = apply(current);
+      return [...events.filter(event => event.id !== id), recorded];
+    }, patientId);
+    if (elsewhere) return recorded as DoseEvent;
+
+    const mirrored = await this.mirror(recorded as DoseEvent);
+    // Stock follows what was actually taken; undoing a dose puts it back
+    await inventoryService.recordDose(mirrored.medicationId, mirrored.id, dosageConsumed(mirrored));
+    return mirrored;
+  }
+
+  /**
+   * Create, update or delete the dose log behind an event and store the
+   * resulting log id. Writes queued while offline keep their local id until
+   * reconcile() sees the pushed log.
+   */
+  private async mirror(event: DoseEvent): Promise<DoseEvent> {
+    const status = toDoseLogStatus(event.status);
+    let logId = event.logId;
+
+    try {
+      if (!status) {
+        if (logId && (await apiService.deleteLog(logId)).ok) {
+          logId = undefined;
+        }
+      } else {
+        const log = compact<DoseLogInput>({
+          medicationId: event.medicationId,
+          scheduleId: event.scheduleId,
+          scheduledTime: event.scheduledTime,
+          actualTime: event.actualTime,
+          status,
+          dosage: status === 'partial' ? event.dosageTaken : status === 'taken' ? event.dosage : undefined,
+          skipReason: event.skipReason,
+          notes: event.notes,
+        });
+        let result = logId ? await apiService.updateLog(logId, log) : await apiService.createLog(log);
+        if (!result.ok && result.error.kind === 'not_found') {
+          // The log is gone from the replica; write it again
+          result = await apiService.createLog(log);
+        }
+        if (result.ok) {
+          logId = result.data.id;
+        } else {
+          console.error('Dose log write error:', result.error);
+        }
+      }
+    } catch (error) {
+      console.error('Dose log write error:', error);
+    }
+
+    if (logId === event.logId) return event;
+
+    const next: DoseEvent = { ...event };
+    if (logId) {
+      next.logId = logId;
+    } else {
+      delete next.logId;
+    }
+    await this.update(events => events.map(item => (item.id === next.id ? next : item)));
+    return next;
+  }
+
+  private update(mutate: (events: DoseEvent[]) => DoseEvent[], patientId?: number | null): Promise<DoseEvent[]> {
+    const run = this.writes.then(async () => {
+      const next = mutate(await this.load(patientId));
+      await this.save(next, patientId);
+      return next;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  /** The active profile's ledger unless a patient is given (null for the user's own) */
+  private async load(patientId?: number | null): Promise<DoseEvent[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(DoseLedgerService.LEDGER_KEY, patientId));
+      return raw ? parseListLenient(JSON.parse(raw), 'doseLedger', parseDoseEvent) : [];
+    } catch (error) {
+      console.error('Load dose ledger error:', error);
+      return [];
+    }
+  }
+
+  private async save(events: DoseEvent[], patientId?: number | null): Promise<void> {
+    const cutoff = addDays(new Date(), -DoseLedgerService.RETENTION_DAYS).toISOString();
+    const retained = events.filter(event => event.scheduledTime >= cutoff);
+    await AsyncStorage.setItem(apiService.scopedKey(DoseLedgerService.LEDGER_KEY, patientId), JSON.stringify(retained));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new DoseLedgerService();
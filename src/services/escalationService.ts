@@ -0,0 +1,155 @@
+/**
+ * MedGuard SA - Missed-dose escalation
+ * Runs each schedule priority's escalation chain for doses that go
+ * unrecorded. Follow-up reminders and the critical alert are scheduled
+ * ahead of time with the reminder window so they fire even when the app
+ * isn't running; this service records them against the dose once due and
+ * sends the caregiver step through the backend, to the caregiver set up
+ * here and to linked caregivers.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays } from 'date-fns';
+import apiService from './apiService';
+import doseLedgerService from './doseLedgerService';
+import notificationService from './notificationService';
+import profileService from './profileService';
+import { DoseEvent } from '../types/dose';
+import {
+  CaregiverContact,
+  DEFAULT_ESCALATION_POLICIES,
+  DoseEscalation,
+  EscalationPolicies,
+  EscalationStep,
+  parseCaregiverContact,
+  parseEscalationPolicies,
+} from '../types/escalation';
+import { ReminderSettings } from '../types/reminder';
+import { ReminderProfile, resolveReminderProfile } from '../types/reminderProfile';
+import { MedicationSchedule, SchedulePriority } from '../types/schedule';
+import { DueEscalation, dueEscalations, escalationChain, isLocalEscalation, isStaleEscalation } from '../utils/escalation';
+import { quietHoursDelivery } from '../utils/reminderPlanner';
+
+class EscalationService {
+  private static POLICIES_KEY = 'escalation_policies';
+  private static CAREGIVER_KEY = 'escalation_caregiver';
+
+  async getPolicies(): Promise<EscalationPolicies> {
+    try {
+      const raw = await AsyncStorage.getItem(EscalationService.POLICIES_KEY);
+      return raw ? parseEscalationPolicies(JSON.parse(raw)) : DEFAULT_ESCALATION_POLICIES;
+    } catch (error) {
+      console.error('Load escalation policies error:', error);
+      return DEFAULT_ESCALATION_POLICIES;
+    }
+  }
+
+  async updatePolicy(priority: SchedulePriority, steps: EscalationStep[]): Promise<void> {
+    const policies = await this.getPolicies();
+    await AsyncStorage.setItem(
+      EscalationService.POLICIES_KEY,
+      JSON.stringify(parseEscalationPolicies({ ...policies, [priority]: steps }))
+    );
+  }
+
+  async getCaregiver(): Promise<CaregiverContact | null> {
+    try {
+      const raw = await AsyncStorage.getItem(EscalationService.CAREGIVER_KEY);
+      return raw ? parseCaregiverContact(JSON.parse(raw)) : null;
+    } catch (error) {
+      console.error('Load caregiver error:', error);
+      return null;
+    }
+  }
+
+  async setCaregiver(caregiver: CaregiverContact | null): Promise<void> {
+    if (caregiver) {
+      await AsyncStorage.setItem(EscalationService.CAREGIVER_KEY, JSON.stringify(caregiver));
+    } else {
+      await AsyncStorage.removeItem(EscalationService.CAREGIVER_KEY);
+    }
+  }
+
+  /**
+   * Record every step that has come due for doses of the last day, sending
+   * the caregiver step. A caregiver step that can't reach the backend is
+   * left for the next run.
+   */
+  async run(now = new Date()): Promise<DoseEscalation[]> {
+    try {
+      const settings = await notificationService.getReminderSettings();
+      if (!settings.enabled || !settings.missedDoseReminders) return [];
+
+      const [policies, profiles, caregiver, linkedCaregivers, schedules, events] = await Promise.all([
+        this.getPolicies(),
+        notificationService.getReminderProfiles(),
+        this.getCaregiver(),
+        profileService.getCaregiverContacts(),
+        // Only the user's own doses escalate from this device, whichever profile is shown
+        apiService.readCache('schedules', null) as Promise<MedicationSchedule[]>,
+        doseLedgerService.getEvents({ from: addDays(now, -1), to: now, patientId: null }),
+      ]);
+      const caregivers = [...(caregiver ? [caregiver] : []), ...linkedCaregivers];
+      const byId = new Map(schedules.map(schedule => [schedule.id, schedule]));
+      const recorded: DoseEscalation[] = [];
+
+      for (const event of events) {
+        const schedule = byId.get(event.scheduleId);
+        if (!schedule) continue;
+
+        const profile = resolveReminderProfile(profiles, schedule.medicationId, schedule.priority);
+        const escalations: DoseEscalation[] = [];
+        for (const due of dueEscalations(event, escalationChain(policies, schedule), now)) {
+          const escalation = await this.escalate(event, due, { settings, profile, caregivers, now });
+          if (escalation) escalations.push(escalation);
+        }
+        await doseLedgerService.recordEscalations(event.id, escalations, { patientId: null });
+        recorded.push(...escalations);
+      }
+      return recorded;
+    } catch (error) {
+      console.error('Run escalation error:', error);
+      return [];
+    }
+  }
+
+  private async escalate(
+    event: DoseEvent,
+    due: DueEscalation,
+    {
+      settings,
+      profile,
+      caregivers,
+      now,
+    }: { settings: ReminderSettings; profile: ReminderProfile; caregivers: CaregiverContact[]; now: Date }
+  ): Promise<DoseEscalation | null> {
+    const base = { step: due.step, type: due.type, at: due.dueAt.toISOString() };
+
+    // Local steps were scheduled with the reminder window unless quiet hours left them out
+    if (isLocalEscalation(due.type)) {
+      return { ...base, delivered: quietHoursDelivery(due.dueAt, settings, profile) !== 'skip' };
+    }
+    if (isStaleEscalation(due, now)) return { ...base, delivered: false };
+
+    const notified: CaregiverContact[] = [];
+    for (const caregiver of caregivers) {
+      try {
+        await apiService.notifyCaregiver({
+          caregiver,
+          medicationId: event.medicationId,
+          medicationName: event.medicationName,
+          dosage: event.dosage,
+          scheduledTime: event.scheduledTime,
+        });
+        notified.push(caregiver);
+      } catch (error) {
+        console.error('Notify caregiver error:', error);
+      }
+    }
+    // Recorded once anyone has been told; otherwise retried on the next run
+    const first = notified[0];
+    return first ? { ...base, at: now.toISOString(), delivered: true, channel: first.channel } : null;
+  }
+}
+
+export default new EscalationService();
@@ -0,0 +1,228 @@
+/**
+ * MedGuard SA - Script import
+ * Commits an import planned from a scanned script as one transaction: new
+ * medications with their proposed schedules, stock top-ups for repeats and
+ * the script itself. A failed step rolls back the ones before it; a
+ * committed import can be undone from the list of recent imports.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './apiService';
+import inventoryService from './inventoryService';
+import travelService from './travelService';
+import { ApiError, ApiResult, PrescriptionOCRResult, toApiError } from '../types/api';
+import {
+  ImportStep,
+  ImportTransaction,
+  ImportUndoResult,
+  PrescriptionSnapshot,
+  parseImportTransaction,
+} from '../types/importTransaction';
+import { parseListLenient } from '../types/parse';
+import { Prescription } from '../types/prescription';
+import { SyncEntity } from '../types/sync';
+import { ImportItem, medicationInputFor, scheduleInputFor } from '../utils/ocrImport';
+import { PrescriptionDetails, dispenseRepeat, prescriptionFromOCR } from '../utils/prescription';
+import { remapImportStep } from '../utils/sync';
+
+/** A step ApiService refused; carries its error through the rollback */
+class ImportStepError extends Error {
+  constructor(readonly apiError: ApiError) {
+    super(apiError.message);
+    this.name = 'ImportStepError';
+  }
+}
+
+class ImportService {
+  private static TRANSACTIONS_KEY = 'import_transactions';
+  private static MAX_TRANSACTIONS = 10;
+
+  async getTransactions(patientId?: number | null): Promise<ImportTransaction[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(ImportService.TRANSACTIONS_KEY, patientId));
+      return raw ? parseListLenient(JSON.parse(raw), 'importTransactions', parseImportTransaction) : [];
+    } catch (error) {
+      console.error('Load import transactions error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Apply every item that isn't skipped, then link the new medications to
+   * the script (created the first time it is imported). Nothing is kept
+   * when a step fails.
+   */
+  async commit(
+    result: PrescriptionOCRResult,
+    items: ImportItem[],
+    details: Omit<PrescriptionDetails, 'medicationIds'> = {}
+  ): Promise<ApiResult<ImportTransaction>> {
+    const steps: ImportStep[] = [];
+    const now = new Date();
+
+    try {
+      const [timeZone, prescriptions] = await Promise.all([
+        travelService.getScheduleTimeZone(),
+        apiService.readCache('prescriptions') as Promise<Prescription[]>,
+      ]);
+      const created: string[] = [];
+
+      for (const item of items) {
+        if (item.action === 'create') {
+          const medication = this.expect(
+            await apiService.createMedication(medicationInputFor(item, result.doctorName || undefined))
+          );
+          steps.push({ type: 'medication_created', id: medication.id });
+          created.push(medication.id);
+
+          const schedule = item.addSchedule
+            ? scheduleInputFor(item, medication, { startDate: now, timeZone })
+            : null;
+          if (schedule) {
+            const saved = this.expect(await apiService.createSchedule(schedule));
+            steps.push({ type: 'schedule_created', id: saved.id });
+          }
+        } else if (item.action === 'refill' && item.match.medicationId) {
+          if (item.quantity > 0) {
+            if (!(await inventoryService.recordRefill(item.match.medicationId, item.quantity))) {
+              throw new Error(`Refill failed for ${item.match.medicationId}`);
+            }
+            steps.push({ type: 'stock_refilled', medicationId: item.match.medicationId, quantity: item.quantity });
+          }
+          const script = prescriptions.find(prescription => prescription.id === item.match.prescriptionId);
+          const dispensed = script && dispenseRepeat(script, now);
+          if (script && dispensed) {
+            this.expect(await apiService.updatePrescription(script.id, dispensed));
+            steps.push({ type: 'prescription_updated', id: script.id, previous: this.snapshot(script) });
+            // Later items on the same script see this dispensing
+            Object.assign(script, dispensed);
+          }
+        }
+      }
+
+      if (created.length > 0) {
+        const existing = result.prescriptionNumber
+          ? prescriptions.find(prescription =>
+            prescription.status === 'active' && prescription.prescriptionNumber === result.prescriptionNumber
+          )
+          : undefined;
+        if (existing) {
+          this.expect(await apiService.updatePrescription(existing.id, {
+            medicationIds: [...existing.medicationIds, ...created],
+          }));
+          steps.push({ type: 'prescription_updated', id: existing.id, previous: this.snapshot(existing) });
+        } else {
+          const script = this.expect(
+            await apiService.createPrescription(prescriptionFromOCR(result, { ...details, medicationIds: created }))
+          );
+          steps.push({ type: 'prescription_created', id: script.id });
+        }
+      }
+    } catch (error) {
+      console.error('Import prescription error:', error);
+      await this.revert(steps);
+      return { ok: false, error: error instanceof ImportStepError ? error.apiError : toApiError(error) };
+    }
+
+    const transaction: ImportTransaction = {
+      id: `import_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      ...(result.prescriptionNumber && { prescriptionNumber: result.prescriptionNumber }),
+      steps,
+      committedAt: now.toISOString(),
+    };
+    await this.save([transaction, ...(await this.getTransactions())].slice(0, ImportService.MAX_TRANSACTIONS));
+    return { ok: true, data: transaction, queued: false };
+  }
+
+  /**
+   * Undo a committed import. It only counts as undone once every step has
+   * been put back; steps that were refused stay on the transaction so
+   * undoing again retries just those. Unavailable when it was already
+   * undone or is no longer in the list of recent imports.
+   */
+  async undo(transactionId: string): Promise<ImportUndoResult> {
+    const transaction = (await this.getTransactions()).find(item => item.id === transactionId);
+    if (!transaction || transaction.undoneAt) return 'unavailable';
+
+    const failed = await this.revert(transaction.steps);
+    const undone: ImportTransaction = failed.length === 0
+      ? { ...transaction, undoneAt: new Date().toISOString() }
+      : { ...transaction, steps: failed };
+    // Re-read: the sync engine may have remapped ids while the steps ran
+    await this.save((await this.getTransactions()).map(item => (item.id === transactionId ? undone : item)));
+    return failed.length === 0 ? 'undone' : 'incomplete';
+  }
+
+  /**
+   * Point the steps of recent imports at a record's server id once its
+   * create has synced, so an undo afterwards reaches the record.
+   */
+  async remapIds(entity: SyncEntity, previousId: string, nextId: string, patientId?: number | null): Promise<void> {
+    const transactions = await this.getTransactions(patientId);
+    const remapped = transactions.map(transaction => {
+      const steps = transaction.steps.map(step => remapImportStep(step, entity, previousId, nextId));
+      return steps.some((step, index) => step !== transaction.steps[index]) ? { ...transaction, steps } : transaction;
+    });
+    if (remapped.some((transaction, index) => transaction !== transactions[index])) {
+      await this.save(remapped, patientId);
+    }
+  }
+
+  private expect<T>(result: ApiResult<T>): T {
+    if (!result.ok) throw new ImportStepError(result.error);
+    return result.data;
+  }
+
+  private snapshot(prescription: Prescription): PrescriptionSnapshot {
+    return {
+      medicationIds: [...prescription.medicationIds],
+      repeatsRemaining: prescription.repeatsRemaining,
+      ...(prescription.lastDispensedAt && { lastDispensedAt: prescription.lastDispensedAt }),
+    };
+  }
+
+  /**
+   * Undo applied steps, last first. Keeps going past a step that fails so
+   * as much as possible is put back. Returns the steps that failed, in the
+   * order they were applied.
+   */
+  private async revert(steps: ImportStep[]): Promise<ImportStep[]> {
+    const failed: ImportStep[] = [];
+    for (const step of [...steps].reverse()) {
+      try {
+        if (!(await this.revertStep(step))) {
+          console.error('Revert import step refused:', step.type);
+          failed.unshift(step);
+        }
+      } catch (error) {
+        console.error('Revert import step error:', step.type, error);
+        failed.unshift(step);
+      }
+    }
+    return failed;
+  }
+
+  private async revertStep(step: ImportStep): Promise<boolean> {
+    switch (step.type) {
+      case 'medication_created':
+        return (await apiService.deleteMedication(step.id)).ok;
+      case 'schedule_created':
+        return (await apiService.deleteSchedule(step.id)).ok;
+      case 'stock_refilled':
+        return (await inventoryService.undoRefill(step.medicationId, step.quantity)) !== null;
+      case 'prescription_created':
+        return (await apiService.deletePrescription(step.id)).ok;
+      case 'prescription_updated':
+        return (await apiService.updatePrescription(step.id, step.previous)).ok;
+    }
+  }
+
+  private async save(transactions: ImportTransaction[], patientId?: number | null): Promise<void> {
+    await AsyncStorage.setItem(
+      apiService.scopedKey(ImportService.TRANSACTIONS_KEY, patientId),
+      JSON.stringify(transactions)
+    );
+  }
+}
+
+export default new ImportService();
@@ -0,0 +1,208 @@
+/**
+ * MedGuard SA - Notification inbox
+ * Keeps every notification the app delivers, local reminders and alerts as
+ * well as pushes from the backend: those that arrive while the app is open,
+ * those that are tapped and those still in the notification tray when the
+ * app starts. Read marks are sent to the backend, and pushes read or
+ * received on other devices are pulled in on sync. Reminder button presses
+ * are recorded by ReminderActionService.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import apiService from './apiService';
+import { InboxAction, InboxFilter, InboxItem, inboxItemFrom, parseInboxItem } from '../types/inbox';
+import { parseListLenient } from '../types/parse';
+import { filterInbox, markRead, mergeInbox, recordAction } from '../utils/inbox';
+
+export type InboxListener = (items: InboxItem[]) => void;
+
+interface UnsyncedRead {
+  id: string;
+  readAt: string;
+}
+
+const isPush = (trigger: Notifications.NotificationTrigger): boolean =>
+  trigger !== null && 'type' in trigger && trigger.type === 'push';
+
+const toInboxItem = (notification: Notifications.Notification): InboxItem =>
+  inboxItemFrom(
+    {
+      identifier: notification.request.identifier,
+      title: notification.request.content.title,
+      body: notification.request.content.body,
+      data: notification.request.content.data,
+      date: notification.date,
+    },
+    isPush(notification.request.trigger) ? 'push' : 'local'
+  );
+
+class InboxService {
+  private static INBOX_KEY = 'notification_inbox';
+  private static UNSYNCED_READS_KEY = 'notification_inbox_unsynced_reads';
+  private static CURSOR_KEY = 'notification_inbox_cursor';
+
+  private listeners = new Set<InboxListener>();
+  // Serialises read-modify-write cycles on the stored inbox
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Record notifications as they are delivered and tapped, and pick up
+   * those left in the tray. Returns the unsubscribe function.
+   */
+  listen(): () => void {
+    const received = Notifications.addNotificationReceivedListener(notification => {
+      this.record([notification]).catch(error => console.error('Record notification error:', error));
+    });
+    const responses = Notifications.addNotificationResponseReceivedListener(response => {
+      if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+      this.recordAction(response.notification.request.identifier, 'opened', response.notification)
+        .catch(error => console.error('Record notification error:', error));
+    });
+    this.collectPresented();
+    return () => {
+      received.remove();
+      responses.remove();
+    };
+  }
+
+  /**
+   * Record the notifications in the tray, which were delivered while the
+   * app was in the background or not running.
+   */
+  async collectPresented(): Promise<void> {
+    try {
+      await this.record(await Notifications.getPresentedNotificationsAsync());
+    } catch (error) {
+      console.error('Record presented notifications error:', error);
+    }
+  }
+
+  async getItems(filter: InboxFilter = {}): Promise<InboxItem[]> {
+    return filterInbox(await this.load(), filter);
+  }
+
+  async getUnreadCount(): Promise<number> {
+    return (await this.getItems({ unreadOnly: true })).length;
+  }
+
+  async record(notifications: Notifications.Notification[]): Promise<void> {
+    if (notifications.length === 0) return;
+    await this.update(items => mergeInbox(items, notifications.map(toInboxItem)));
+  }
+
+  /**
+   * Record what the user did with a notification, adding it to the inbox
+   * first when it is passed and not there yet.
+   */
+  async recordAction(id: string, action: InboxAction, notification?: Notifications.Notification): Promise<void> {
+    const now = new Date();
+    await this.update(items =>
+      recordAction(notification ? mergeInbox(items, [toInboxItem(notification)]) : items, id, action, now)
+    );
+  }
+
+  async markRead(ids: string[]): Promise<void> {
+    const now = new Date();
+    await this.update(items => markRead(items, new Set(ids), now));
+  }
+
+  async markAllRead(): Promise<void> {
+    const now = new Date();
+    await this.update(items => markRead(items, new Set(items.map(item => item.id)), now));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.update(items => items.filter(item => item.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    await this.update(() => []);
+  }
+
+  /**
+   * Send read marks made since the last sync, then pull pushes the backend
+   * has sent or seen read since then. Unsent marks are kept for next time.
+   */
+  async sync(): Promise<void> {
+    try {
+      const reads = await this.getUnsyncedReads();
+      if (reads.length > 0) {
+        await apiService.markInboxRead(reads);
+        const sent = new Set(reads.map(read => read.id));
+        await this.saveUnsyncedReads((await this.getUnsyncedReads()).filter(read => !sent.has(read.id)));
+      }
+
+      const startedAt = new Date().toISOString();
+      const since = await AsyncStorage.getItem(InboxService.CURSOR_KEY);
+      const pulled = await apiService.fetchInbox(since ?? undefined);
+      await this.update(items => mergeInbox(items, pulled), false);
+      await AsyncStorage.setItem(InboxService.CURSOR_KEY, startedAt);
+    } catch (error) {
+      console.error('Sync notification inbox error:', error);
+    }
+  }
+
+  /**
+   * Subscribe to inbox changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: InboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Apply a change to the stored inbox. Items it marks read are queued for
+   * the backend unless the read came from there.
+   */
+  private update(mutate: (items: InboxItem[]) => InboxItem[], trackReads = true): Promise<InboxItem[]> {
+    const run = this.writes.then(async () => {
+      const current = await this.load();
+      const next = mutate(current);
+      await AsyncStorage.setItem(InboxService.INBOX_KEY, JSON.stringify(next));
+
+      if (trackReads) {
+        const unread = new Set(current.filter(item => !item.read).map(item => item.id));
+        const reads = next.flatMap(item =>
+          unread.has(item.id) && item.read ? [{ id: item.id, readAt: item.readAt ?? new Date().toISOString() }] : []
+        );
+        if (reads.length > 0) {
+          await this.saveUnsyncedReads([...(await this.getUnsyncedReads()), ...reads]);
+        }
+      }
+
+      this.listeners.forEach(listener => listener(next));
+      return next;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<InboxItem[]> {
+    try {
+      const raw = await AsyncStorage.getItem(InboxService.INBOX_KEY);
+      return raw ? parseListLenient(JSON.parse(raw), 'notificationInbox', parseInboxItem) : [];
+    } catch (error) {
+      console.error('Load notification inbox error:', error);
+      return [];
+    }
+  }
+
+  private async getUnsyncedReads(): Promise<UnsyncedRead[]> {
+    try {
+      const raw = await AsyncStorage.getItem(InboxService.UNSYNCED_READS_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Load unsynced reads error:', error);
+      return [];
+    }
+  }
+
+  private async saveUnsyncedReads(reads: UnsyncedRead[]): Promise<void> {
+    await AsyncStorage.setItem(InboxService.UNSYNCED_READS_KEY, JSON.stringify(reads));
+  }
+}
+
+export default new InboxService();
@@ -0,0 +1,188 @@
+/**
+ * MedGuard SA - Drug interaction engine
+ * Checks medications against pluggable interaction sources. The bundled,
+ * versioned dataset (data/drugInteractions.json) works fully offline;
+ * interactions declared on a product's own information are used as a fallback.
+ */
+
+import bundledDataset from '../data/drugInteractions.json';
+import {
+  DrugInteraction,
+  InteractionDataset,
+  InteractionRule,
+  InteractionSubject,
+  compareSeverity,
+  parseInteractionDataset,
+} from '../types/interaction';
+
+export interface InteractionSource {
+  id: string;
+  version: string;
+  /** Rules that apply to the pair, in either order */
+  findRules(a: InteractionSubject, b: InteractionSubject): InteractionRule[];
+  /** Whether a subject is the drug or class a name or id stands for */
+  matches?(subject: InteractionSubject, term: string): boolean;
+}
+
+const normalize = (text: string): string =>
+  ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const subjectText = (subject: InteractionSubject): string =>
+  normalize([subject.name, subject.genericName, subject.activeIngredients].filter(Boolean).join(' '));
+
+export const displayName = (subject: InteractionSubject): string =>
+  subject.name ?? subject.genericName ?? subject.activeIngredients ?? '';
+
+/**
+ * Source backed by an interaction dataset. A subject matches a drug when any
+ * of the drug's names appears as whole words in its name, generic name or
+ * active ingredients; it then also belongs to every class listing that drug.
+ */
+export const createDatasetSource = (dataset: InteractionDataset, id = 'bundled'): InteractionSource => {
+  const drugNames = Object.entries(dataset.drugs).map(
+    ([drugId, names]) => [drugId, names.map(normalize)] as const
+  );
+
+  const termsFor = (subject: InteractionSubject): Set<string> => {
+    const text = subjectText(subject);
+    const terms = new Set<string>();
+    drugNames.forEach(([drugId, names]) => {
+      if (names.some(name => text.includes(name))) {
+        terms.add(drugId);
+      }
+    });
+    Object.entries(dataset.classes).forEach(([classId, members]) => {
+      if (members.some(member => terms.has(member))) {
+        terms.add(classId);
+      }
+    });
+    return terms;
+  };
+
+  return {
+    id,
+    version: dataset.version,
+    findRules(a, b) {
+      const termsA = termsFor(a);
+      const termsB = termsFor(b);
+      if (termsA.size === 0 || termsB.size === 0) return [];
+
+      return dataset.interactions.filter(({ between: [x, y] }) =>
+        (termsA.has(x) && termsB.has(y)) || (termsA.has(y) && termsB.has(x))
+      );
+    },
+    // A drug named by the term, not every drug of its classes, so "calcium" leaves out iron
+    matches(subject, term) {
+      const terms = termsFor(subject);
+      if (terms.has(term.trim().toLowerCase())) return true;
+      const named = normalize(term);
+      return drugNames.some(([drugId, names]) => terms.has(drugId) && names.some(name => named.includes(name)));
+    },
+  };
+};
+
+/**
+ * Interactions listed on the product itself (Medication.interactions).
+ */
+const declaredSource: InteractionSource = {
+  id: 'declared',
+  version: '1',
+  findRules(a, b) {
+    const lists = (subject: InteractionSubject, other: InteractionSubject): boolean => {
+      const otherText = subjectText(other);
+      return (subject.interactions ?? []).some(entry => {
+        const name = normalize(entry);
+        return name.trim() !== '' && otherText.includes(name);
+      });
+    };
+    if (!lists(a, b) && !lists(b, a)) return [];
+
+    return [{
+      id: `declared:${normalize(displayName(a)).trim()}:${normalize(displayName(b)).trim()}`,
+      between: [displayName(a), displayName(b)],
+      severity: 'moderate',
+      mechanism: 'Listed as an interaction in the product information.',
+      recommendation: 'Check with your pharmacist or doctor before taking these together.',
+      evidence: { source: 'Product information', level: 'probable' },
+    }];
+  },
+};
+
+class InteractionService {
+  private sources: InteractionSource[] = [
+    createDatasetSource(parseInteractionDataset(bundledDataset)),
+    declaredSource,
+  ];
+
+  /**
+   * Add a source, or replace one with the same id (e.g. a newer dataset
+   * downloaded from the server). Earlier sources take precedence.
+   */
+  registerSource(source: InteractionSource, options: { prepend?: boolean } = {}): void {
+    const others = this.sources.filter(existing => existing.id !== source.id);
+    this.sources = options.prepend ? [source, ...others] : [...others, source];
+  }
+
+  getSources(): Array<{ id: string; version: string }> {
+    return this.sources.map(({ id, version }) => ({ id, version }));
+  }
+
+  /**
+   * All interactions between two medications, most severe first. Product
+   * declared interactions are only reported when no dataset rule matched.
+   */
+  checkPair(a: InteractionSubject, b: InteractionSubject): DrugInteraction[] {
+    const results: DrugInteraction[] = [];
+    const seen = new Set<string>();
+
+    for (const source of this.sources) {
+      if (source === declaredSource && results.length > 0) continue;
+      source.findRules(a, b).forEach(rule => {
+        if (seen.has(rule.id)) return;
+        seen.add(rule.id);
+        results.push({
+          ruleId: rule.id,
+          medications: [displayName(a), displayName(b)],
+          severity: rule.severity,
+          mechanism: rule.mechanism,
+          recommendation: rule.recommendation,
+          ...(rule.spacingHours !== undefined && { spacingHours: rule.spacingHours }),
+          evidence: rule.evidence,
+          source: `${source.id}@${source.version}`,
+        });
+      });
+    }
+
+    return results.sort((x, y) => compareSeverity(y.severity, x.severity));
+  }
+
+  /**
+   * Whether a medication is the one a name or dataset id refers to, e.g.
+   * "antacid" for Gaviscon.
+   */
+  refersTo(subject: InteractionSubject, term: string): boolean {
+    const named = normalize(term);
+    if (named.trim() === '') return false;
+    return subjectText(subject).includes(named) || this.sources.some(source => source.matches?.(subject, term));
+  }
+
+  /**
+   * Interactions between a new medication and a list of existing ones.
+   */
+  checkAgainst(candidate: InteractionSubject, others: InteractionSubject[]): DrugInteraction[] {
+    return others
+      .flatMap(other => this.checkPair(candidate, other))
+      .sort((x, y) => compareSeverity(y.severity, x.severity));
+  }
+
+  /**
+   * Interactions between every pair in a list.
+   */
+  checkAll(subjects: InteractionSubject[]): DrugInteraction[] {
+    return subjects
+      .flatMap((subject, index) => this.checkAgainst(subject, subjects.slice(index + 1)))
+      .sort((x, y) => compareSeverity(y.severity, x.severity));
+  }
+}
+
+export default new InteractionService();
@@ -0,0 +1,299 @@
+/**
+ * MedGuard SA - Inventory
+ * Keeps `Medication.pillCount` in step with recorded doses, refills and
+ * manual corrections, and sends stock alerts from the run-out projection.
+ * Counts are written through ApiService, so they sync like any other
+ * medication change; the movement history stays on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays } from 'date-fns';
+import apiService from './apiService';
+import notificationService from './notificationService';
+import { StockMovement, StockProjection, parseStockMovement } from '../types/inventory';
+import { DoseLog, Medication } from '../types/medication';
+import { parseListLenient } from '../types/parse';
+import { MedicationSchedule } from '../types/schedule';
+import { doseUnits, owedUnits, projectStock } from '../utils/inventory';
+import { remapDoseId } from '../utils/sync';
+
+export interface RefillOptions {
+  /** Units the pharmacy still owes after this dispensing */
+  owed?: number;
+  note?: string;
+}
+
+class InventoryService {
+  private static MOVEMENTS_KEY = 'stock_movements';
+  private static ALERTS_KEY = 'stock_alerts_sent';
+  private static RETENTION_DAYS = 365;
+
+  // Serialises read-modify-write cycles on the stored movements
+  private writes: Promise<unknown> = Promise.resolve();
+
+  async getMovements(medicationId?: string): Promise<StockMovement[]> {
+    const movements = await this.load();
+    return movements
+      .filter(movement => !medicationId || movement.medicationId === medicationId)
+      .sort((a, b) => b.at.localeCompare(a.at));
+  }
+
+  async getOwed(medicationId: string): Promise<number> {
+    return owedUnits(await this.getMovements(medicationId));
+  }
+
+  /**
+   * Set how much stock a dose used. Recording the same dose again applies
+   * only the difference, and a null dosage (dose undone or skipped) gives
+   * the units back. Returns the updated medication, or null when nothing
+   * changed or the dosage can't be read as stock units.
+   */
+  async recordDose(medicationId: string, sourceId: string, dosage: string | null): Promise<Medication | null> {
+    try {
+      const medication = await this.findMedication(medicationId);
+      if (!medication) return null;
+
+      const units = dosage === null ? 0 : doseUnits(dosage, medication.strength);
+      if (units === null) return null;
+
+      let delta = 0;
+      await this.update(movements => {
+        const previous = movements.find(movement => movement.type === 'dose' && movement.sourceId === sourceId);
+        delta = -units - (previous?.quantity ?? 0);
+        const rest = movements.filter(movement => movement !== previous);
+        if (units === 0) return rest;
+        return [
+          ...rest,
+          {
+            id: previous?.id ?? this.createId(),
+            medicationId,
+            type: 'dose',
+            quantity: -units,
+            sourceId,
+            at: new Date().toISOString(),
+          },
+        ];
+      });
+
+      return delta === 0 ? null : await this.changeCount(medication, delta);
+    } catch (error) {
+      console.error('Record dose stock error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add dispensed stock. For partial dispensing, `owed` is what the pharmacy
+   * still has to supply; collecting it later is another refill with the
+   * remaining balance (0 once everything has been collected).
+   */
+  async recordRefill(medicationId: string, quantity: number, options: RefillOptions = {}): Promise<Medication | null> {
+    const medication = await this.findMedication(medicationId);
+    if (!medication) return null;
+
+    await this.update(movements => [
+      ...movements,
+      {
+        id: this.createId(),
+        medicationId,
+        type: 'refill',
+        quantity,
+        owed: options.owed ?? 0,
+        ...(options.note && { note: options.note }),
+        at: new Date().toISOString(),
+      },
+    ]);
+    return this.changeCount(medication, quantity);
+  }
+
+  /**
+   * Take back the latest refill of `quantity`, e.g. when the import that
+   * recorded it is undone.
+   */
+  async undoRefill(medicationId: string, quantity: number): Promise<Medication | null> {
+    const medication = await this.findMedication(medicationId);
+    if (!medication) return null;
+
+    await this.update(movements => {
+      const index = movements.map(movement =>
+        movement.medicationId === medicationId && movement.type === 'refill' && movement.quantity === quantity
+      ).lastIndexOf(true);
+      return index < 0 ? movements : movements.filter((_, i) => i !== index);
+    });
+    return this.changeCount(medication, -quantity);
+  }
+
+  /**
+   * Correct the count after a manual stock check.
+   */
+  async setCount(medicationId: string, count: number, note?: string): Promise<Medication | null> {
+    const medication = await this.findMedication(medicationId);
+    if (!medication || medication.pillCount === count) return medication ?? null;
+
+    await this.update(movements => [
+      ...movements,
+      {
+        id: this.createId(),
+        medicationId,
+        type: 'adjustment',
+        quantity: count - medication.pillCount,
+        ...(note && { note }),
+        at: new Date().toISOString(),
+      },
+    ]);
+    return this.changeCount(medication, count - medication.pillCount);
+  }
+
+  // -------------------- Projection --------------------
+
+  async getProjections(
+    medications?: Medication[],
+    schedules?: MedicationSchedule[],
+    now = new Date()
+  ): Promise<StockProjection[]> {
+    const [medicationList, scheduleList, logs, movements] = await Promise.all([
+      medications ?? (apiService.readCache('medications') as Promise<Medication[]>),
+      schedules ?? (apiService.readCache('schedules') as Promise<MedicationSchedule[]>),
+      apiService.readCache('logs') as Promise<DoseLog[]>,
+      this.load(),
+    ]);
+
+    return medicationList
+      .filter(medication => medication.status === 'active')
+      .map(medication => projectStock(medication, scheduleList, now, { logs, movements }));
+  }
+
+  async getProjection(medicationId: string, now = new Date()): Promise<StockProjection | null> {
+    const projections = await this.getProjections(undefined, undefined, now);
+    return projections.find(projection => projection.medicationId === medicationId) ?? null;
+  }
+
+  /**
+   * Send a stock alert for each medication that is running out. A
+   * medication is alerted once per level and run-out day, so the alert
+   * repeats only when things get worse or the projection moves.
+   */
+  async checkStockAlerts(
+    medications?: Medication[],
+    schedules?: MedicationSchedule[],
+    now = new Date()
+  ): Promise<StockProjection[]> {
+    try {
+      const [projections, sent, medicationList] = await Promise.all([
+        this.getProjections(medications, schedules, now),
+        this.loadSentAlerts(),
+        medications ?? (apiService.readCache('medications') as Promise<Medication[]>),
+      ]);
+      const alerting: StockProjection[] = [];
+      const nextSent: Record<string, string> = {};
+
+      for (const projection of projections) {
+        if (projection.level === 'ok') continue;
+        const key = `${projection.level}:${projection.runOutDate?.slice(0, 10) ?? ''}`;
+        nextSent[projection.medicationId] = key;
+        if (sent[projection.medicationId] === key) continue;
+
+        const medication = medicationList.find(item => item.id === projection.medicationId);
+        if (medication) {
+          await notificationService.sendStockAlert(medication, projection);
+          alerting.push(projection);
+        }
+      }
+
+      await AsyncStorage.setItem(apiService.scopedKey(InventoryService.ALERTS_KEY), JSON.stringify(nextSent));
+      return alerting;
+    } catch (error) {
+      console.error('Check stock alerts error:', error);
+      return [];
+    }
+  }
+
+  // -------------------- Storage --------------------
+
+  private async changeCount(medication: Medication, delta: number): Promise<Medication | null> {
+    // Re-read so concurrent dose writes don't overwrite each other's count
+    const current = (await this.findMedication(medication.id)) ?? medication;
+    const pillCount = Math.max(0, Math.round((current.pillCount + delta) * 100) / 100);
+    const result = await apiService.updateMedication(medication.id, { pillCount });
+    if (!result.ok) {
+      console.error('Update stock error:', result.error);
+      return null;
+    }
+    this.checkStockAlerts().catch(() => undefined);
+    return result.data;
+  }
+
+  /**
+   * Point movements at a medication's or schedule's server id once its
+   * create has synced. Dose movements are keyed by dose id, which starts with
+   * the schedule id.
+   */
+  async remapIds(
+    entity: 'medications' | 'schedules',
+    previousId: string,
+    nextId: string,
+    patientId?: number | null
+  ): Promise<void> {
+    await this.update(movements =>
+      movements.map(movement => {
+        if (entity === 'medications') {
+          return movement.medicationId === previousId ? { ...movement, medicationId: nextId } : movement;
+        }
+        const sourceId = movement.sourceId && remapDoseId(movement.sourceId, previousId, nextId);
+        return sourceId !== movement.sourceId ? { ...movement, ...(sourceId && { sourceId }) } : movement;
+      }),
+      patientId
+    );
+  }
+
+  private async findMedication(id: string): Promise<Medication | undefined> {
+    const medications = await apiService.readCache('medications') as Medication[];
+    return medications.find(medication => medication.id === id);
+  }
+
+  private createId(): string {
+    return `stock_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+
+  private update(
+    mutate: (movements: StockMovement[]) => StockMovement[],
+    patientId?: number | null
+  ): Promise<StockMovement[]> {
+    const run = this.writes.then(async () => {
+      const next = mutate(await this.load(patientId));
+      await this.save(next, patientId);
+      return next;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(patientId?: number | null): Promise<StockMovement[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(InventoryService.MOVEMENTS_KEY, patientId));
+      return raw ? parseListLenient(JSON.parse(raw), 'stockMovements', parseStockMovement) : [];
+    } catch (error) {
+      console.error('Load stock movements error:', error);
+      return [];
+    }
+  }
+
+  private async save(movements: StockMovement[], patientId?: number | null): Promise<void> {
+    const cutoff = addDays(new Date(), -InventoryService.RETENTION_DAYS).toISOString();
+    // Refills are kept regardless of age: the latest one holds the owed balance
+    const retained = movements.filter(movement => movement.type === 'refill' || movement.at >= cutoff);
+    await AsyncStorage.setItem(apiService.scopedKey(InventoryService.MOVEMENTS_KEY, patientId), JSON.stringify(retained));
+  }
+
+  private async loadSentAlerts(): Promise<Record<string, string>> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(InventoryService.ALERTS_KEY));
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error('Load stock alerts error:', error);
+      return {};
+    }
+  }
+}
+
+export default new InventoryService();
@@ -3,27 +3,33 @@ import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import authService from './authService';
-// Define the interface locally since it's not exported from apiService
-interface MedicationSchedule {
-  id: number;
-  medication: any;
-  patient: number;
-  timing: 'morning' | 'noon' | 'night' | 'custom';
-  customTime?: string;
-  dosageAmount: string;
-  frequency: string;
-  monday: boolean;
-  tuesday: boolean;
-  wednesday: boolean;
-  thursday: boolean;
-  friday: boolean;
-  saturday: boolean;
-  sunday: boolean;
-  startDate: string;
-  endDate?: string;
-  status: 'active' | 'inactive' | 'paused' | 'completed';
-  instructions?: string;
-}
+import i18n from '../i18n';
+import { EscalationPolicies } from '../types/escalation';
+import { StockProjection } from '../types/inventory';
+import { Medication } from '../types/medication';
+import { Prescription, PrescriptionWarning } from '../types/prescription';
+import {
+  FINAL_REMINDER_CATEGORY,
+  REMINDER_ACTIONS,
+  REMINDER_CATEGORY,
+  ReminderData,
+  ReminderSettings,
+  readReminderData,
+} from '../types/reminder';
+import {
+  DEFAULT_REMINDER_PROFILES,
+  ReminderProfile,
+  ReminderProfiles,
+  parseReminderProfiles,
+} from '../types/reminderProfile';
+import { MedicationSchedule, SchedulePriority } from '../types/schedule';
+import {
+  PendingReminder,
+  ReminderPlanDiff,
+  diffReminders,
+  planReminders,
+  windowCapacity,
+} from '../utils/reminderPlanner';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -43,40 +49,17 @@ Notifications.setNotificationHandler({
   },
 });
 
-interface NotificationSchedule {
-  id: string;
-  medicationId: number;
-  medicationName: string;
-  scheduleId: number;
-  dosage: string;
-  time: Date;
-  recurring: boolean;
-  priority: 'low' | 'normal' | 'high' | 'critical';
-}
-
-interface ReminderSettings {
-  enabled: boolean;
-  soundEnabled: boolean;
-  vibrationEnabled: boolean;
-  reminderMinutesBefore: number;
-  missedDoseReminders: boolean;
-  lowStockReminders: boolean;
-  refillReminders: boolean;
-  customSoundUri?: string;
-  quietHoursStart?: string; // "22:00"
-  quietHoursEnd?: string; // "08:00"
-  weekendReminders: boolean;
-}
-
 class NotificationService {
   private static NOTIFICATION_SETTINGS_KEY = 'notification_settings';
-  private static SCHEDULED_NOTIFICATIONS_KEY = 'scheduled_notifications';
+  private static REMINDER_PROFILES_KEY = 'reminder_profiles';
   
   private defaultSettings: ReminderSettings = {
     enabled: true,
     soundEnabled: true,
     vibrationEnabled: true,
     reminderMinutesBefore: 15,
+    snoozeMinutes: 15,
+    maxSnoozes: 3,
     missedDoseReminders: true,
     lowStockReminders: true,
     refillReminders: true,
@@ -122,6 +105,7 @@ class NotificationService {
       if (Platform.OS === 'android') {
         await this.setupNotificationChannels();
       }
+      await this.setupNotificationCategories();
       
       // Get and register push token
       const pushToken = await Notifications.getExpoPushTokenAsync({
@@ -161,6 +145,17 @@ class NotificationService {
       lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
     });
     
+    // Reminders sent during quiet hours without sound
+    await Notifications.setNotificationChannelAsync('quiet-reminders', {
+      name: 'Quiet Hours Reminders',
+      description: 'Medication reminders sent silently during quiet hours',
+      importance: Notifications.AndroidImportance.DEFAULT,
+      sound: null,
+      enableVibrate: false,
+      lightColor: '#2563EB',
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+    });
+    
     // Stock alerts channel
     await Notifications.setNotificationChannelAsync('stock-alerts', {
       name: 'Stock Level Alerts',
@@ -182,6 +177,28 @@ class NotificationService {
     });
   }
   
+  private async setupNotificationCategories(): Promise<void> {
+    // Actions run without opening the app so doses can be recorded from the lock screen
+    const take = {
+      identifier: REMINDER_ACTIONS.take,
+      buttonTitle: i18n.t('reminders.take_now'),
+      options: { opensAppToForeground: false },
+    };
+    const snooze = {
+      identifier: REMINDER_ACTIONS.snooze,
+      buttonTitle: i18n.t('reminders.snooze'),
+      options: { opensAppToForeground: false },
+    };
+    const skip = {
+      identifier: REMINDER_ACTIONS.skip,
+      buttonTitle: i18n.t('reminders.skip_dose'),
+      options: { opensAppToForeground: false, isDestructive: true },
+    };
+    
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [take, snooze, skip]);
+    await Notifications.setNotificationCategoryAsync(FINAL_REMINDER_CATEGORY, [take, skip]);
+  }
+  
   private async registerPushToken(token: string): Promise<void> {
     try {
       const headers = await authService.getAuthHeaders();
@@ -202,175 +219,85 @@ class NotificationService {
     }
   }
   
-  async scheduleMedicationReminders(schedules: MedicationSchedule[]): Promise<void> {
+  /**
+   * Bring the pending dose reminders in line with the rolling window for
+   * these schedules, including escalation follow-ups when policies are
+   * given. Reminders already pending and still wanted are left alone.
+   * Returns null when the OS calls failed.
+   */
+  async scheduleMedicationReminders(
+    schedules: MedicationSchedule[],
+    {
+      now = new Date(),
+      resolvedDoseIds,
+      policies,
+    }: { now?: Date; resolvedDoseIds?: ReadonlySet<string>; policies?: EscalationPolicies } = {}
+  ): Promise<ReminderPlanDiff | null> {
     try {
-      // Cancel existing notifications
-      await this.cancelAllScheduledNotifications();
-      
       const settings = await this.getReminderSettings();
-      if (!settings.enabled) return;
-      
-      const scheduledNotifications: NotificationSchedule[] = [];
+      const profiles = await this.getReminderProfiles();
+      const pending = await this.getPendingReminders();
+      const planned = planReminders(schedules, settings, {
+        now,
+        capacity: windowCapacity(pending),
+        profiles,
+        ...(resolvedDoseIds && { resolvedDoseIds }),
+        ...(policies && { policies }),
+      });
+      const diff = diffReminders(pending, planned, resolvedDoseIds);
       
-      for (const schedule of schedules) {
-        if (schedule.status !== 'active') continue;
-        
-        const notifications = await this.createNotificationsForSchedule(schedule, settings);
-        scheduledNotifications.push(...notifications);
+      for (const identifier of diff.cancel) {
+        await Notifications.cancelScheduledNotificationAsync(identifier);
+      }
+      for (const reminder of diff.schedule) {
+        await this.scheduleReminder(reminder, settings);
       }
       
-      // Store scheduled notifications for reference
-      await AsyncStorage.setItem(
-        NotificationService.SCHEDULED_NOTIFICATIONS_KEY,
-        JSON.stringify(scheduledNotifications)
-      );
-      
+      return diff;
     } catch (error) {
       console.error('Schedule medication reminders error:', error);
+      return null;
     }
   }
   
-  private async createNotificationsForSchedule(
-    schedule: MedicationSchedule,
-    settings: ReminderSettings
-  ): Promise<NotificationSchedule[]> {
-    const notifications: NotificationSchedule[] = [];
-    const now = new Date();
-    const endDate = schedule.endDate ? new Date(schedule.endDate) : new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000); // 1 year if no end date
-    
-    // Create recurring notifications for the next 30 days
-    const maxDate = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-    const actualEndDate = endDate < maxDate ? endDate : maxDate;
-    
-    const daysOfWeek = [
-      schedule.sunday,
-      schedule.monday,
-      schedule.tuesday, 
-      schedule.wednesday,
-      schedule.thursday,
-      schedule.friday,
-      schedule.saturday
-    ];
-    
-    for (let date = new Date(now); date <= actualEndDate; date.setDate(date.getDate() + 1)) {
-      const dayOfWeek = date.getDay();
-      
-      if (!daysOfWeek[dayOfWeek]) continue;
-      
-      // Skip weekends if disabled
-      if (!settings.weekendReminders && (dayOfWeek === 0 || dayOfWeek === 6)) continue;
-      
-      const notificationTime = this.getNotificationTime(date, schedule, settings);
-      
-      // Skip past times
-      if (notificationTime <= now) continue;
-      
-      // Check quiet hours
-      if (this.isInQuietHours(notificationTime, settings)) continue;
-      
-      const notificationId = await this.scheduleNotification({
-        time: notificationTime,
-        medication: schedule.medication,
-        schedule,
-        settings,
-      });
-      
-      if (notificationId) {
-        notifications.push({
-          id: notificationId,
-          medicationId: schedule.medication.id,
-          medicationName: schedule.medication.name,
-          scheduleId: schedule.id,
-          dosage: schedule.dosageAmount,
-          time: notificationTime,
-          recurring: true,
-          priority: 'normal',
-        });
-      }
-    }
-    
-    return notifications;
-  }
-  
-  private getNotificationTime(date: Date, schedule: MedicationSchedule, settings: ReminderSettings): Date {
-    const notificationTime = new Date(date);
-    
-    let hours: number, minutes: number;
-    
-    if (schedule.timing === 'custom' && schedule.customTime) {
-      const [timeHours, timeMinutes] = schedule.customTime.split(':').map(Number);
-      hours = timeHours || 0;
-      minutes = timeMinutes || 0;
-    } else {
-      // Default times
-      switch (schedule.timing) {
-        case 'morning':
-          hours = 8;
-          minutes = 0;
-          break;
-        case 'noon':
-          hours = 12;
-          minutes = 0;
-          break;
-        case 'night':
-          hours = 20;
-          minutes = 0;
-          break;
-        default:
-          hours = 9;
-          minutes = 0;
-      }
-    }
-    
-    notificationTime.setHours(hours, minutes - settings.reminderMinutesBefore, 0, 0);
-    return notificationTime;
+  private async getPendingReminders(): Promise<PendingReminder[]> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    return scheduled.map(request => ({
+      identifier: request.identifier,
+      reminder: readReminderData(request.content.data),
+    }));
   }
   
-  private isInQuietHours(time: Date, settings: ReminderSettings): boolean {
-    if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+  /**
+   * Remind again about a dose after a snooze. Returns false once the dose
+   * has been snoozed `maxSnoozes` times.
+   */
+  async snoozeReminder(reminder: ReminderData, now = new Date()): Promise<boolean> {
+    const settings = await this.getReminderSettings();
+    if (reminder.snoozeCount >= settings.maxSnoozes) return false;
     
-    const timeStr = time.toLocaleTimeString('en-GB', { hour12: false }).slice(0, 5);
-    const start = settings.quietHoursStart;
-    const end = settings.quietHoursEnd;
-    
-    if (start <= end) {
-      return timeStr >= start && timeStr <= end;
-    } else {
-      // Quiet hours cross midnight
-      return timeStr >= start || timeStr <= end;
-    }
+    const time = new Date(now.getTime() + settings.snoozeMinutes * 60 * 1000);
+    // A snoozed follow-up or repeat comes back as a plain reminder
+    const { escalation, repeat, ...snoozed } = reminder;
+    const identifier = await this.scheduleReminder(
+      { ...snoozed, scheduledTime: time.toISOString(), snoozeCount: reminder.snoozeCount + 1 },
+      settings
+    );
+    return identifier !== null;
   }
   
-  private async scheduleNotification({
-    time,
-    medication,
-    schedule,
-    settings,
-  }: {
-    time: Date;
-    medication: any;
-    schedule: MedicationSchedule;
-    settings: ReminderSettings;
-  }): Promise<string | null> {
+  private async scheduleReminder(reminder: ReminderData, settings: ReminderSettings): Promise<string | null> {
     try {
       const identifier = await Notifications.scheduleNotificationAsync({
         content: {
-          title: `💊 ${medication.name}`,
-          body: `Time for your ${schedule.dosageAmount} dose`,
-          data: {
-            type: 'medication_reminder',
-            medicationId: medication.id,
-            scheduleId: schedule.id,
-            scheduledTime: time.toISOString(),
-            priority: 'normal',
-          },
-          sound: settings.soundEnabled ? 'medication-reminder.wav' : false,
+          ...this.reminderContent(reminder, settings),
+          data: { ...reminder },
           badge: 1,
-          categoryIdentifier: 'medication_reminder',
+          categoryIdentifier: reminder.snoozeCount >= settings.maxSnoozes ? FINAL_REMINDER_CATEGORY : REMINDER_CATEGORY,
         },
         trigger: {
-          date: time,
-          channelId: 'medication-reminders',
+          date: new Date(reminder.scheduledTime),
+          channelId: this.reminderChannel(reminder),
         },
       });
       
@@ -381,6 +308,65 @@ class NotificationService {
     }
   }
   
+  /**
+   * The Android channel from the reminder's profile. The critical step of
+   * the escalation chain uses the critical channel unless quiet hours
+   * silenced it.
+   */
+  private reminderChannel(reminder: ReminderData): string {
+    if (reminder.channel === 'quiet-reminders') return reminder.channel;
+    if (reminder.escalation?.type === 'critical_alert') return 'critical-alerts';
+    return reminder.channel ?? 'medication-reminders';
+  }
+  
+  /**
+   * Wording and sound of a dose reminder. Escalation follow-ups say the dose
+   * is still outstanding; the critical step is styled like sendCriticalAlert.
+   */
+  private reminderContent(
+    reminder: ReminderData,
+    settings: ReminderSettings
+  ): Pick<Notifications.NotificationContentInput, 'title' | 'body' | 'sound' | 'interruptionLevel'> {
+    const params = {
+      medication: reminder.medicationName,
+      dosage: reminder.dosage,
+      time: i18n.formatTime(new Date(reminder.doseTime)),
+    };
+    const silenced = reminder.sound === 'none';
+    const sound = settings.soundEnabled && !silenced ? reminder.sound ?? 'medication-reminder.wav' : false;
+    
+    switch (reminder.escalation?.type) {
+      case 'critical_alert':
+        if (silenced) {
+          return {
+            title: `⚠️ ${i18n.t('escalation.critical_title', params)}`,
+            body: i18n.t('escalation.critical_body', params),
+            sound: false,
+          };
+        }
+        return {
+          title: `⚠️ ${i18n.t('escalation.critical_title', params)}`,
+          body: i18n.t('escalation.critical_body', params),
+          sound: 'urgent-alert.wav',
+          interruptionLevel: 'critical',
+        };
+      case 'remind':
+        return {
+          title: `💊 ${i18n.t('escalation.still_due_title', params)}`,
+          body: i18n.t('escalation.still_due_body', params),
+          sound,
+        };
+      default:
+        return {
+          title: reminder.snoozeCount > 0
+            ? `💊 ${i18n.t('reminders.snoozed_title', params)}`
+            : `💊 ${reminder.medicationName}`,
+          body: i18n.t('reminders.dose_due', params),
+          sound,
+        };
+    }
+  }
+  
   async sendCriticalAlert(title: string, body: string, data?: any): Promise<void> {
     try {
       await Notifications.scheduleNotificationAsync({
@@ -403,17 +389,34 @@ class NotificationService {
     }
   }
   
-  async sendStockAlert(medication: any): Promise<void> {
+  /**
+   * Stock alert worded from the run-out projection when there is one,
+   * otherwise from the remaining count.
+   */
+  async sendStockAlert(medication: Medication, projection?: StockProjection): Promise<void> {
+    const params = {
+      medication: medication.name,
+      count: medication.pillCount,
+      days: projection?.daysRemaining ?? 0,
+    };
+    let body = `${i18n.t('alerts.medication_running_low', params)} - ${i18n.t('alerts.pills_remaining', params)}`;
+    if (projection?.level === 'out') {
+      body = i18n.t('alerts.out_of_stock', params);
+    } else if (projection?.daysRemaining != null) {
+      body = i18n.t(projection.daysRemaining === 0 ? 'alerts.runs_out_today' : 'alerts.runs_out_in_days', params);
+    }
+
     try {
       await Notifications.scheduleNotificationAsync({
         content: {
-          title: `📦 Low Stock Alert`,
-          body: `${medication.name} is running low (${medication.pillCount} pills remaining)`,
+          title: `📦 ${i18n.t('alerts.low_stock')}`,
+          body,
           data: {
             type: 'stock_alert',
             medicationId: medication.id,
             currentStock: medication.pillCount,
-            priority: 'high',
+            ...(projection?.runOutDate && { runOutDate: projection.runOutDate }),
+            priority: projection?.level === 'critical' || projection?.level === 'out' ? 'critical' : 'high',
           },
           sound: 'default',
           badge: 1,
@@ -426,10 +429,46 @@ class NotificationService {
     }
   }
   
+  /**
+   * Pharmacy reminder for a script that needs renewing or is on its last
+   * repeat. Respects the refill reminders setting.
+   */
+  async sendPrescriptionAlert(
+    prescription: Prescription,
+    warning: PrescriptionWarning,
+    medicationNames: string[]
+  ): Promise<void> {
+    const settings = await this.getReminderSettings();
+    if (!settings.refillReminders) return;
+
+    try {
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: `📋 ${i18n.t('prescriptions.alert_title')}`,
+          body: i18n.t(`prescriptions.warnings.${warning.type}`, {
+            medication: medicationNames.join(', '),
+            days: warning.days ?? 0,
+          }),
+          data: {
+            type: 'prescription_alert',
+            prescriptionId: prescription.id,
+            ...(prescription.medicationIds[0] && { medicationId: prescription.medicationIds[0] }),
+            warning: warning.type,
+            priority: warning.type === 'expired' || warning.type === 'no_repeats' ? 'high' : 'normal',
+          },
+          sound: 'default',
+          categoryIdentifier: 'prescription_alert',
+        },
+        trigger: null, // Immediate
+      });
+    } catch (error) {
+      console.error('Send prescription alert error:', error);
+    }
+  }
+  
   async cancelAllScheduledNotifications(): Promise<void> {
     try {
       await Notifications.cancelAllScheduledNotificationsAsync();
-      await AsyncStorage.removeItem(NotificationService.SCHEDULED_NOTIFICATIONS_KEY);
     } catch (error) {
       console.error('Cancel notifications error:', error);
     }
@@ -455,14 +494,56 @@ class NotificationService {
         JSON.stringify(newSettings)
       );
       
-      // Reschedule notifications with new settings
-      // This would need to be called with current schedules
-      // await this.scheduleMedicationReminders(currentSchedules);
-      
+      // Callers replenish the reminder window so pending reminders pick up
+      // the new settings
     } catch (error) {
       console.error('Update reminder settings error:', error);
     }
   }
+  
+  async getReminderProfiles(): Promise<ReminderProfiles> {
+    try {
+      const raw = await AsyncStorage.getItem(NotificationService.REMINDER_PROFILES_KEY);
+      return raw ? parseReminderProfiles(JSON.parse(raw)) : DEFAULT_REMINDER_PROFILES;
+    } catch (error) {
+      console.error('Get reminder profiles error:', error);
+      return DEFAULT_REMINDER_PROFILES;
+    }
+  }
+  
+  async updatePriorityProfile(priority: SchedulePriority, profile: ReminderProfile): Promise<void> {
+    const profiles = await this.getReminderProfiles();
+    await this.saveReminderProfiles({ ...profiles, priorities: { ...profiles.priorities, [priority]: profile } });
+  }
+  
+  /**
+   * Give a medication its own reminder profile, or with null have it follow
+   * its schedules' priorities again.
+   */
+  async setMedicationProfile(medicationId: string, profile: ReminderProfile | null): Promise<void> {
+    const profiles = await this.getReminderProfiles();
+    const { [medicationId]: previous, ...medications } = profiles.medications;
+    await this.saveReminderProfiles({
+      ...profiles,
+      medications: profile ? { ...medications, [medicationId]: profile } : medications,
+    });
+  }
+  
+  /** Follow a medication's own profile to the id the server gave it when its create synced */
+  async remapMedicationId(previousId: string, nextId: string): Promise<void> {
+    const profiles = await this.getReminderProfiles();
+    const { [previousId]: profile, ...medications } = profiles.medications;
+    if (!profile) return;
+    await this.saveReminderProfiles({ ...profiles, medications: { ...medications, [nextId]: profile } });
+  }
+  
+  private async saveReminderProfiles(profiles: ReminderProfiles): Promise<void> {
+    // Parsed so stored profiles are always readable; callers replenish
+    await AsyncStorage.setItem(
+      NotificationService.REMINDER_PROFILES_KEY,
+      JSON.stringify(parseReminderProfiles(profiles))
+    );
+  }
 }
 
 export default new NotificationService();
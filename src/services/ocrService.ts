@@ -0,0 +1,83 @@
+/**
+ * MedGuard SA - Prescription OCR
+ * Reads a scanned script on the device so scanning works offline. The
+ * server's `/api/prescription-ocr/` is asked too when it can be reached and
+ * its reading is merged in field by field; the scan only fails when neither
+ * could read the image.
+ */
+
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { PrescriptionOCRResult } from '../types/api';
+import { mergeOCRResults, parsePrescriptionText } from '../utils/prescriptionOcr';
+import apiService from './apiService';
+
+export interface ScanOptions {
+  /** Ask the server as well; on by default */
+  useServer?: boolean;
+}
+
+class OCRService {
+  /** Longest edge a scan is sent at; text stays legible well below this */
+  private static MAX_EDGE = 2000;
+  private static JPEG_QUALITY = 0.8;
+
+  /**
+   * Downscale an image to MAX_EDGE on its longest edge and save it as JPEG.
+   * Images already small enough are only re-encoded.
+   */
+  async prepareImage(uri: string): Promise<string> {
+    const image = await ImageManipulator.manipulate(uri).renderAsync();
+    const longest = Math.max(image.width, image.height);
+    const scaled =
+      longest > OCRService.MAX_EDGE
+        ? await ImageManipulator.manipulate(image)
+            .resize(
+              image.width >= image.height
+                ? { width: OCRService.MAX_EDGE }
+                : { height: OCRService.MAX_EDGE }
+            )
+            .renderAsync()
+        : image;
+    const saved = await scaled.saveAsync({ compress: OCRService.JPEG_QUALITY, format: SaveFormat.JPEG });
+    return saved.uri;
+  }
+
+  /**
+   * Read a script with on-device text recognition only.
+   */
+  async recognizeOnDevice(uri: string): Promise<PrescriptionOCRResult> {
+    const started = Date.now();
+    const recognized = await TextRecognition.recognize(uri);
+    const lines = recognized.blocks.flatMap(block => block.lines.map(line => line.text));
+    return { ...parsePrescriptionText(lines), processingTime: Date.now() - started };
+  }
+
+  /**
+   * Read a script image: downscale it, read it on the device and, unless
+   * turned off, on the server, merging the two readings.
+   */
+  async scanPrescription(imageUri: string, options: ScanOptions = {}): Promise<PrescriptionOCRResult> {
+    const uri = await this.prepareImage(imageUri);
+    const [device, server] = await Promise.allSettled([
+      this.recognizeOnDevice(uri),
+      options.useServer === false
+        ? Promise.reject(new Error('Server OCR turned off'))
+        : apiService.processPrescriptionOCR(uri),
+    ]);
+
+    if (device.status === 'fulfilled' && server.status === 'fulfilled') {
+      return mergeOCRResults(device.value, { ...server.value, source: 'server' });
+    }
+    if (device.status === 'fulfilled') {
+      return device.value;
+    }
+    console.error('On-device OCR error:', device.reason);
+    if (server.status === 'fulfilled') {
+      return { ...server.value, source: 'server' };
+    }
+    throw device.reason;
+  }
+}
+
+export default new OCRService();
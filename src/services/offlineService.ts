@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { SkipReason } from '../types/dose'
 
 /**
  * OfflineService coordinates intelligent offline handling and sync for the app.
@@ -13,15 +14,41 @@ export interface NetworkStatus {
 
 type SyncFrequency = 'normal' | 'power_saving'
 
+/**
+ * A dose recorded while it couldn't be written to the dose ledger. The sync
+ * engine turns it into a dose log (see SyncService.trackAction).
+ */
+export interface LogMedicationPayload {
+  scheduleId: string
+  /** The dose it was for; the time taken when left out */
+  scheduledTime?: string
+  actualTime?: string
+  /** Taken when left out */
+  status?: 'taken' | 'skipped'
+  skipReason?: SkipReason
+  notes?: string
+}
+
+/** Payload of each queued action */
+export interface QueuedActionPayloads {
+  log_medication: LogMedicationPayload
+}
+
+export type QueuedAction = keyof QueuedActionPayloads
+export type QueuedActionPayload = QueuedActionPayloads[QueuedAction]
+
 interface QueueItem {
   id: string
+  /** Stored queues can hold actions from older versions, dropped by the sync engine */
   action: string
-  payload: any
+  payload: QueuedActionPayload
   queuedAt: string
 }
 
 /**
- * Simple conflict resolver implementing domain-specific priority rules.
+ * Simple conflict resolver implementing domain-specific priority rules:
+ * the newest dose log wins, the server wins for clinical data (prescriptions,
+ * medications, schedules) and local edits win for user preferences.
  */
 class ConflictResolver {
   /**
@@ -46,7 +73,24 @@ class ConflictResolver {
       result.prescriptions = localData.prescriptions
     }
 
-    // 3) User preferences (local wins)
+    // 3) Medications (server wins): name, strength and stock may have been
+    //    changed by the pharmacy or a caregiver, and a stale local copy
+    //    must not overwrite what was dispensed
+    if (serverData?.medications) {
+      result.medications = serverData.medications
+    } else if (localData?.medications) {
+      result.medications = localData.medications
+    }
+
+    // 4) Schedules (server wins): dosing times and amounts follow the
+    //    prescriber; a local edit that lost the race is made again
+    if (serverData?.schedules) {
+      result.schedules = serverData.schedules
+    } else if (localData?.schedules) {
+      result.schedules = localData.schedules
+    }
+
+    // 5) User preferences (local wins)
     if (localData?.userPreferences) {
       result.userPreferences = { ...(serverData?.userPreferences ?? {}), ...localData.userPreferences }
     }
@@ -122,50 +166,21 @@ export class OfflineService {
   }
 
   /**
-   * Execute queued sync and coordinate with ApiService's offline queue.
-   * In power_saving mode, process fewer items per tick.
+   * Hand queued actions to the sync engine and run a sync pass.
+   * In power_saving mode, push fewer changes per tick.
    */
   private async executeSync(mode: SyncFrequency): Promise<void> {
     await this.loadQueue()
 
-    // Try to sync ApiService's offline queue first to keep behaviour consistent
-    try {
-      const api = await import('./apiService')
-      await api.default.syncOfflineActions()
-    } catch (err) {
-      // no-op if apiService not available
-    }
-
-    const batchSize = mode === 'normal' ? 50 : 10
-    const processing = this.syncQueue.splice(0, batchSize)
-
-    for (const item of processing) {
-      try {
-        await this.dispatchAction(item)
-      } catch (error) {
-        // Requeue on failure for retry later
-        this.syncQueue.push(item)
-        break
-      }
+    const syncService = (await import('./syncService')).default
+    while (this.syncQueue.length > 0) {
+      const item = this.syncQueue[0] as QueueItem
+      await syncService.trackAction(item.action, item.payload)
+      this.syncQueue.shift()
     }
-
     await this.saveQueue()
-  }
 
-  /**
-   * Dispatch a queued action to the appropriate service.
-   */
-  private async dispatchAction(item: QueueItem): Promise<void> {
-    switch (item.action) {
-      case 'log_medication': {
-        const api = (await import('./apiService')).default
-        await api.logMedicationTaken(item.payload.scheduleId, new Date(item.payload.actualTime), item.payload.notes)
-        return
-      }
-      default:
-        // Unknown actions are ignored (or could be sent to a generic endpoint)
-        return
-    }
+    await syncService.sync({ batchSize: mode === 'normal' ? 50 : 10 })
   }
 
   /**
@@ -240,7 +255,7 @@ export class OfflineService {
   /**
    * Enqueue an offline action for later sync.
    */
-  async enqueue(action: string, payload: any): Promise<void> {
+  async enqueue<A extends QueuedAction>(action: A, payload: QueuedActionPayloads[A]): Promise<void> {
     await this.loadQueue()
     this.syncQueue.push({
       id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
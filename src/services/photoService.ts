@@ -0,0 +1,306 @@
+/**
+ * MedGuard SA - Medication photos
+ * Keeps photos of each medication's pills, box and leaflet on the device,
+ * encrypted with AES-256-GCM under a key held in the secure store. Pill
+ * photos are described by their colour, shape and imprint so a loose pill
+ * can be matched against the user's own library without a cloud service.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { getRandomBytes } from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import * as SecureStore from 'expo-secure-store';
+import { decode } from 'jpeg-js';
+import apiService from './apiService';
+import { MedicationPhoto, PhotoKind, PillFeatures, parseMedicationPhoto } from '../types/medicationPhoto';
+import { parseListLenient } from '../types/parse';
+import { PillMatch, extractPillFeatures, normaliseImprint, rankPillMatches } from '../utils/pillFeatures';
+
+export type PhotoListener = (medicationId: string) => void;
+
+export type PhotoSource = 'camera' | 'library';
+
+/** The camera or photo library may not be used */
+export class PhotoPermissionError extends Error {
+  constructor(readonly source: PhotoSource) {
+    super(`Permission for the ${source} was denied`);
+    this.name = 'PhotoPermissionError';
+  }
+}
+
+export interface PillIdentification {
+  /** Null when no pill stood out from the background */
+  features: PillFeatures | null;
+  matches: PillMatch[];
+}
+
+const NONCE_BYTES = 12;
+/** Characters per String.fromCharCode call, well under engine argument limits */
+const BASE64_CHUNK = 0x8000;
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + BASE64_CHUNK)));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+class PhotoService {
+  private static INDEX_KEY = 'medication_photos';
+  // One key for the device, so photos survive switching between linked profiles
+  private static ENCRYPTION_KEY = 'medication_photos_key';
+  private static DIRECTORY = `${FileSystem.documentDirectory}medication_photos/`;
+  /** Longest edge photos are kept at; enough to read a leaflet */
+  private static MAX_EDGE = 1600;
+  private static THUMBNAIL_EDGE = 160;
+  /** Pill features are read from a small copy; colour and outline survive it */
+  private static ANALYSIS_EDGE = 96;
+  private static JPEG_QUALITY = 0.8;
+
+  private key: Promise<Uint8Array> | null = null;
+  private thumbnails = new Map<string, string>();
+  private listeners = new Set<PhotoListener>();
+
+  async getPhotos(medicationId?: string): Promise<MedicationPhoto[]> {
+    const photos = await this.loadIndex();
+    return medicationId ? photos.filter(photo => photo.medicationId === medicationId) : photos;
+  }
+
+  /**
+   * Take a photo or choose one from the library. Null when the user cancels;
+   * throws PhotoPermissionError when access is denied.
+   */
+  async pickImage(source: PhotoSource): Promise<string | null> {
+    const permission =
+      source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') throw new PhotoPermissionError(source);
+
+    const options = { mediaTypes: ImagePicker.MediaTypeOptions.Images, quality: 0.9 };
+    const result =
+      source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+    return !result.canceled && result.assets[0] ? result.assets[0].uri : null;
+  }
+
+  /**
+   * Encrypt a photo into the medication's gallery. Pill photos are analysed
+   * first; `features` is missing on the result when no pill could be found.
+   * The camera's or picker's cached copy is removed so only the encrypted one
+   * remains.
+   */
+  async addPhoto(medicationId: string, uri: string, kind: PhotoKind): Promise<MedicationPhoto> {
+    const id = `photo_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    const features = kind === 'pill' ? await this.analyse(uri) : null;
+    const [full, thumbnail] = await Promise.all([
+      this.render(uri, PhotoService.MAX_EDGE),
+      this.render(uri, PhotoService.THUMBNAIL_EDGE),
+    ]);
+
+    await FileSystem.makeDirectoryAsync(PhotoService.DIRECTORY, { intermediates: true });
+    await Promise.all([
+      this.writeEncrypted(this.fileFor(id), full),
+      this.writeEncrypted(this.fileFor(id, true), thumbnail),
+    ]);
+    await this.removeCached(uri);
+
+    const photo: MedicationPhoto = {
+      id,
+      medicationId,
+      kind,
+      createdAt: new Date().toISOString(),
+      ...(features && { features }),
+    };
+    await this.saveIndex([...(await this.getPhotos()), photo]);
+    this.thumbnails.set(id, thumbnail);
+    this.notify(medicationId);
+    return photo;
+  }
+
+  /** The decrypted photo as a data URI for <Image> */
+  async loadImage(photo: MedicationPhoto, options: { thumbnail?: boolean } = {}): Promise<string> {
+    const cached = options.thumbnail ? this.thumbnails.get(photo.id) : undefined;
+    if (cached) return `data:image/jpeg;base64,${cached}`;
+
+    const sealed = await FileSystem.readAsStringAsync(this.fileFor(photo.id, options.thumbnail), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const base64 = bytesToBase64(await this.decrypt(base64ToBytes(sealed)));
+    if (options.thumbnail) this.thumbnails.set(photo.id, base64);
+    return `data:image/jpeg;base64,${base64}`;
+  }
+
+  /**
+   * A medication's thumbnail for list cards: its newest pill photo, else its
+   * newest photo of any kind. Null when it has none.
+   */
+  async getThumbnail(medicationId: string): Promise<string | null> {
+    try {
+      const photos = (await this.getPhotos(medicationId)).reverse();
+      const photo = photos.find(candidate => candidate.kind === 'pill') ?? photos[0];
+      return photo ? await this.loadImage(photo, { thumbnail: true }) : null;
+    } catch (error) {
+      console.error('Load medication thumbnail error:', error);
+      return null;
+    }
+  }
+
+  async deletePhoto(photoId: string): Promise<void> {
+    const photos = await this.getPhotos();
+    const photo = photos.find(candidate => candidate.id === photoId);
+    if (!photo) return;
+    await this.removeFiles([photo]);
+    await this.saveIndex(photos.filter(candidate => candidate.id !== photoId));
+    this.notify(photo.medicationId);
+  }
+
+  /** Remove every photo of a deleted medication */
+  async deleteForMedication(medicationId: string): Promise<void> {
+    const photos = await this.getPhotos();
+    const removed = photos.filter(photo => photo.medicationId === medicationId);
+    if (removed.length === 0) return;
+    await this.removeFiles(removed);
+    await this.saveIndex(photos.filter(photo => photo.medicationId !== medicationId));
+    this.notify(medicationId);
+  }
+
+  /** Follow a medication to the id the server gave it when its create synced */
+  async remapMedicationId(previousId: string, nextId: string, patientId?: number | null): Promise<void> {
+    const photos = await this.loadIndex(patientId);
+    if (!photos.some(photo => photo.medicationId === previousId)) return;
+    await this.saveIndex(
+      photos.map(photo => (photo.medicationId === previousId ? { ...photo, medicationId: nextId } : photo)),
+      patientId
+    );
+    this.notify(nextId);
+  }
+
+  /**
+   * "What is this pill?": compare a new photo with the pill photos in the
+   * library. The photo itself isn't kept.
+   */
+  async identify(uri: string): Promise<PillIdentification> {
+    const features = await this.analyse(uri);
+    await this.removeCached(uri);
+    if (!features) return { features: null, matches: [] };
+    return { features, matches: rankPillMatches(features, await this.getPhotos()) };
+  }
+
+  subscribe(listener: PhotoListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Colour and shape from a small decoded copy, imprint from text recognition */
+  private async analyse(uri: string): Promise<PillFeatures | null> {
+    const [small, imprint] = await Promise.all([
+      this.render(uri, PhotoService.ANALYSIS_EDGE),
+      TextRecognition.recognize(uri)
+        .then(result => normaliseImprint(result.text))
+        .catch(error => {
+          console.error('Read pill imprint error:', error);
+          return undefined;
+        }),
+    ]);
+    const { width, height, data } = decode(base64ToBytes(small), { useTArray: true, formatAsRGBA: true });
+    return extractPillFeatures(data, width, height, imprint);
+  }
+
+  /** JPEG base64 of the image scaled down to `longestEdge` */
+  private async render(uri: string, longestEdge: number): Promise<string> {
+    const image = await ImageManipulator.manipulate(uri).renderAsync();
+    const scaled =
+      Math.max(image.width, image.height) > longestEdge
+        ? await ImageManipulator.manipulate(image)
+            .resize(image.width >= image.height ? { width: longestEdge } : { height: longestEdge })
+            .renderAsync()
+        : image;
+    const saved = await scaled.saveAsync({ compress: PhotoService.JPEG_QUALITY, format: SaveFormat.JPEG, base64: true });
+    await this.removeCached(saved.uri);
+    if (!saved.base64) throw new Error('Image could not be encoded');
+    return saved.base64;
+  }
+
+  private fileFor(photoId: string, thumbnail = false): string {
+    return `${PhotoService.DIRECTORY}${photoId}${thumbnail ? '.thumb' : ''}.enc`;
+  }
+
+  private async writeEncrypted(file: string, base64: string): Promise<void> {
+    const nonce = getRandomBytes(NONCE_BYTES);
+    const sealed = gcm(await this.getKey(), nonce).encrypt(base64ToBytes(base64));
+    const contents = new Uint8Array(nonce.length + sealed.length);
+    contents.set(nonce);
+    contents.set(sealed, nonce.length);
+    await FileSystem.writeAsStringAsync(file, bytesToBase64(contents), { encoding: FileSystem.EncodingType.Base64 });
+  }
+
+  /** Throws when the file was altered or the key doesn't match */
+  private async decrypt(contents: Uint8Array): Promise<Uint8Array> {
+    const nonce = contents.subarray(0, NONCE_BYTES);
+    return gcm(await this.getKey(), nonce).decrypt(contents.subarray(NONCE_BYTES));
+  }
+
+  private getKey(): Promise<Uint8Array> {
+    this.key ??= (async () => {
+      const stored = await SecureStore.getItemAsync(PhotoService.ENCRYPTION_KEY);
+      if (stored) return hexToBytes(stored);
+      const key = getRandomBytes(32);
+      await SecureStore.setItemAsync(PhotoService.ENCRYPTION_KEY, bytesToHex(key));
+      return key;
+    })().catch(error => {
+      this.key = null;
+      throw error;
+    });
+    return this.key;
+  }
+
+  private async removeFiles(photos: MedicationPhoto[]): Promise<void> {
+    await Promise.all(
+      photos.flatMap(photo => [
+        FileSystem.deleteAsync(this.fileFor(photo.id), { idempotent: true }),
+        FileSystem.deleteAsync(this.fileFor(photo.id, true), { idempotent: true }),
+      ])
+    );
+    photos.forEach(photo => this.thumbnails.delete(photo.id));
+  }
+
+  /** Delete a file only when it is a temporary copy in the app's cache */
+  private async removeCached(uri: string): Promise<void> {
+    if (!FileSystem.cacheDirectory || !uri.startsWith(FileSystem.cacheDirectory)) return;
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(error => {
+      console.error('Remove cached photo error:', error);
+    });
+  }
+
+  private async loadIndex(patientId?: number | null): Promise<MedicationPhoto[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(PhotoService.INDEX_KEY, patientId));
+      return raw ? parseListLenient(JSON.parse(raw), PhotoService.INDEX_KEY, parseMedicationPhoto) : [];
+    } catch (error) {
+      console.error('Get medication photos error:', error);
+      return [];
+    }
+  }
+
+  private async saveIndex(photos: MedicationPhoto[], patientId?: number | null): Promise<void> {
+    await AsyncStorage.setItem(apiService.scopedKey(PhotoService.INDEX_KEY, patientId), JSON.stringify(photos));
+  }
+
+  private notify(medicationId: string): void {
+    this.listeners.forEach(listener => listener(medicationId));
+  }
+}
+
+export default new PhotoService();
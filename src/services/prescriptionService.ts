@@ -0,0 +1,168 @@
+/**
+ * MedGuard SA - Prescriptions
+ * Links scanned scripts to medications, counts down repeats as they are
+ * dispensed, reminds the user to renew expiring or used-up scripts and
+ * writes the refill request they send to their pharmacy. Prescriptions
+ * are stored and synced through ApiService.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './apiService';
+import inventoryService from './inventoryService';
+import notificationService from './notificationService';
+import i18n from '../i18n';
+import { ApiResult, PrescriptionOCRResult } from '../types/api';
+import { Medication } from '../types/medication';
+import { Prescription, PrescriptionWarning } from '../types/prescription';
+import {
+  PrescriptionDetails,
+  dispenseRepeat,
+  findPrescriptionFor,
+  prescriptionFromOCR,
+  prescriptionWarnings,
+} from '../utils/prescription';
+
+class PrescriptionService {
+  private static ALERTS_KEY = 'prescription_alerts_sent';
+
+  async getPrescriptions(): Promise<Prescription[]> {
+    return apiService.readCache('prescriptions') as Promise<Prescription[]>;
+  }
+
+  async getForMedication(medicationId: string): Promise<Prescription | undefined> {
+    return findPrescriptionFor(await this.getPrescriptions(), medicationId);
+  }
+
+  /**
+   * Link a medication added from a scanned script to that script's
+   * prescription, creating it the first time the script is used.
+   */
+  async attachFromOCR(
+    result: PrescriptionOCRResult,
+    medicationId: string,
+    details: Omit<PrescriptionDetails, 'medicationIds'> = {}
+  ): Promise<ApiResult<Prescription>> {
+    const existing = result.prescriptionNumber
+      ? (await this.getPrescriptions()).find(prescription =>
+        prescription.status === 'active' && prescription.prescriptionNumber === result.prescriptionNumber
+      )
+      : undefined;
+
+    if (existing) {
+      if (existing.medicationIds.includes(medicationId)) return { ok: true, data: existing, queued: false };
+      return apiService.updatePrescription(existing.id, {
+        medicationIds: [...existing.medicationIds, medicationId],
+      });
+    }
+    return apiService.createPrescription(prescriptionFromOCR(result, { ...details, medicationIds: [medicationId] }));
+  }
+
+  /**
+   * Record a dispensing against the script. Returns null when the script
+   * has expired or has no repeats left, so nothing was counted.
+   */
+  async recordDispensing(prescriptionId: string, at = new Date()): Promise<ApiResult<Prescription> | null> {
+    const prescription = (await this.getPrescriptions()).find(item => item.id === prescriptionId);
+    const changes = prescription && dispenseRepeat(prescription, at);
+    if (!changes) return null;
+
+    const result = await apiService.updatePrescription(prescriptionId, changes);
+    if (result.ok) this.checkPrescriptionAlerts(at).catch(() => undefined);
+    return result;
+  }
+
+  async getWarnings(now = new Date()): Promise<PrescriptionWarning[]> {
+    return (await this.getPrescriptions()).flatMap(prescription => prescriptionWarnings(prescription, now));
+  }
+
+  /**
+   * Remind the user about each script that needs attention. Each warning
+   * goes out once per prescription; renewing or replacing the script
+   * clears it.
+   */
+  async checkPrescriptionAlerts(now = new Date()): Promise<PrescriptionWarning[]> {
+    try {
+      const [prescriptions, medications, sent] = await Promise.all([
+        this.getPrescriptions(),
+        apiService.readCache('medications') as Promise<Medication[]>,
+        this.loadSentAlerts(),
+      ]);
+      const alerting: PrescriptionWarning[] = [];
+      const nextSent: Record<string, string[]> = {};
+
+      for (const prescription of prescriptions) {
+        const warnings = prescriptionWarnings(prescription, now);
+        if (warnings.length === 0) continue;
+        nextSent[prescription.id] = warnings.map(warning => warning.type);
+
+        const names = medications
+          .filter(medication => prescription.medicationIds.includes(medication.id))
+          .map(medication => medication.name);
+        for (const warning of warnings) {
+          if (sent[prescription.id]?.includes(warning.type)) continue;
+          await notificationService.sendPrescriptionAlert(prescription, warning, names);
+          alerting.push(warning);
+        }
+      }
+
+      await AsyncStorage.setItem(apiService.scopedKey(PrescriptionService.ALERTS_KEY), JSON.stringify(nextSent));
+      return alerting;
+    } catch (error) {
+      console.error('Check prescription alerts error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Plain-text refill request for the pharmacy, covering the script, the
+   * repeats left and how long current stock lasts.
+   */
+  async buildRefillRequest(medication: Medication, now = new Date()): Promise<string> {
+    const [prescription, stock] = await Promise.all([
+      this.getForMedication(medication.id),
+      inventoryService.getProjection(medication.id, now),
+    ]);
+    const t = (key: string, params?: object) => i18n.t(`prescriptions.refill_request.${key}`, params);
+    const lines = [
+      t('greeting', { pharmacy: prescription?.pharmacyName ?? i18n.t('prescriptions.pharmacy') }),
+      '',
+      t('medication', {
+        medication: [medication.name, medication.strength].filter(Boolean).join(' '),
+        dosage: medication.dosage ?? '-',
+      }),
+    ];
+
+    if (prescription) {
+      if (prescription.patientName) lines.push(t('patient', { name: prescription.patientName }));
+      if (prescription.prescriptionNumber) lines.push(t('script_number', { number: prescription.prescriptionNumber }));
+      if (prescription.prescriberName) lines.push(t('prescriber', { name: prescription.prescriberName }));
+      lines.push(t('repeats', {
+        remaining: prescription.repeatsRemaining,
+        total: prescription.repeatsTotal,
+        date: i18n.formatDate(new Date(prescription.expiryDate)),
+      }));
+    }
+
+    lines.push(t('stock', { count: medication.pillCount }));
+    if (stock?.runOutDate) lines.push(t('runs_out', { date: i18n.formatDate(new Date(stock.runOutDate)) }));
+    if (stock && stock.owed > 0) lines.push(t('owed', { count: stock.owed }));
+
+    const needsNewScript = !prescription || prescriptionWarnings(prescription, now).some(warning =>
+      warning.type === 'expired' || warning.type === 'no_repeats'
+    );
+    lines.push('', t(needsNewScript ? 'new_script' : 'next_repeat'), t('thanks'));
+    return lines.join('\n');
+  }
+
+  private async loadSentAlerts(): Promise<Record<string, string[]>> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(PrescriptionService.ALERTS_KEY));
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error('Load prescription alerts error:', error);
+      return {};
+    }
+  }
+}
+
+export default new PrescriptionService();
@@ -0,0 +1,96 @@
+/**
+ * MedGuard SA - Product catalogue
+ * Looks up scanned pill packs in the catalogue of SA-registered products.
+ * The bundled catalogue (data/productCatalogue.json) works offline; a newer
+ * one is downloaded at most once a day and kept on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import bundledCatalogue from '../data/productCatalogue.json';
+import apiService from './apiService';
+import { CatalogueProduct, ProductCatalogue, parseProductCatalogue } from '../types/productCatalogue';
+import { PackBarcode } from '../utils/barcode';
+
+const UPDATE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Dotted versions such as "2026.10.0", compared part by part */
+const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+class ProductCatalogueService {
+  // Not patient data, so not scoped to the active profile
+  private static CATALOGUE_KEY = 'product_catalogue';
+  private static CHECKED_AT_KEY = 'product_catalogue_checked_at';
+
+  private catalogue: ProductCatalogue = parseProductCatalogue(bundledCatalogue);
+  private loaded: Promise<void> | null = null;
+
+  async getVersion(): Promise<string> {
+    await this.load();
+    return this.catalogue.version;
+  }
+
+  async findByNappiCode(nappiCode: string): Promise<CatalogueProduct | null> {
+    await this.load();
+    return this.catalogue.products.find(product => product.nappiCode === nappiCode) ?? null;
+  }
+
+  /** The product a scanned pack code belongs to, by NAPPI code or GTIN */
+  async findByBarcode(barcode: PackBarcode): Promise<CatalogueProduct | null> {
+    await this.load();
+    const { nappiCode, gtin } = barcode;
+    return (
+      (nappiCode && this.catalogue.products.find(product => product.nappiCode === nappiCode)) ||
+      (gtin && this.catalogue.products.find(product => product.gtins.includes(gtin))) ||
+      null
+    );
+  }
+
+  /**
+   * Download a newer catalogue when the last check is more than a day old
+   * (or `force`). Returns true when the catalogue changed; failures leave the
+   * current one in place.
+   */
+  async update(options: { force?: boolean } = {}): Promise<boolean> {
+    await this.load();
+    try {
+      const checkedAt = Number(await AsyncStorage.getItem(ProductCatalogueService.CHECKED_AT_KEY));
+      if (!options.force && checkedAt && Date.now() - checkedAt < UPDATE_INTERVAL_MS) return false;
+
+      const latest = await apiService.fetchProductCatalogue(this.catalogue.version);
+      await AsyncStorage.setItem(ProductCatalogueService.CHECKED_AT_KEY, String(Date.now()));
+      if (!latest || compareVersions(latest.version, this.catalogue.version) <= 0) return false;
+
+      await AsyncStorage.setItem(ProductCatalogueService.CATALOGUE_KEY, JSON.stringify(latest));
+      this.catalogue = latest;
+      return true;
+    } catch (error) {
+      console.error('Update product catalogue error:', error);
+      return false;
+    }
+  }
+
+  /** Use the downloaded catalogue when it is newer than the bundled one */
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(ProductCatalogueService.CATALOGUE_KEY);
+        if (!raw) return;
+        const stored = parseProductCatalogue(JSON.parse(raw));
+        if (compareVersions(stored.version, this.catalogue.version) > 0) this.catalogue = stored;
+      } catch (error) {
+        console.error('Load product catalogue error:', error);
+      }
+    })();
+    return this.loaded;
+  }
+}
+
+export default new ProductCatalogueService();
@@ -0,0 +1,113 @@
+/**
+ * MedGuard SA - Linked profiles
+ * The dependants the user looks after, the caregivers who look after the
+ * user, and which profile the app is showing. Switching points ApiService,
+ * and with it every per-patient cache, at the chosen dependant. Reminders
+ * and missed-dose escalation belong to the user's own profile and read its
+ * caches directly, so they carry on while a dependant is shown.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './apiService';
+import syncService from './syncService';
+import { CaregiverContact } from '../types/escalation';
+import { LinkedAccounts, LinkedProfile, NO_LINKED_ACCOUNTS, parseLinkedAccounts } from '../types/profile';
+
+export type ProfileListener = (profile: LinkedProfile | null) => void;
+
+class ProfileService {
+  private static LINKED_ACCOUNTS_KEY = 'linked_accounts';
+
+  private listeners = new Set<ProfileListener>();
+
+  /** Links as last fetched */
+  async getLinkedAccounts(): Promise<LinkedAccounts> {
+    try {
+      const raw = await AsyncStorage.getItem(ProfileService.LINKED_ACCOUNTS_KEY);
+      return raw ? parseLinkedAccounts(JSON.parse(raw)) : NO_LINKED_ACCOUNTS;
+    } catch (error) {
+      console.error('Load linked accounts error:', error);
+      return NO_LINKED_ACCOUNTS;
+    }
+  }
+
+  /**
+   * Fetch the links from the server, falling back to the stored ones when
+   * offline. A dependant who is no longer linked stops being shown.
+   */
+  async refreshLinkedAccounts(): Promise<LinkedAccounts> {
+    try {
+      const accounts = await apiService.getLinkedAccounts();
+      await AsyncStorage.setItem(ProfileService.LINKED_ACCOUNTS_KEY, JSON.stringify(accounts));
+
+      const active = this.getActiveProfile();
+      if (active) {
+        const current = accounts.dependants.find(dependant => dependant.patientId === active.patientId) ?? null;
+        // The role may have changed as well
+        await this.activate(current);
+      }
+      return accounts;
+    } catch (error) {
+      console.error('Refresh linked accounts error:', error);
+      return this.getLinkedAccounts();
+    }
+  }
+
+  /** The dependant being shown, or null for the user's own profile */
+  getActiveProfile(): LinkedProfile | null {
+    return apiService.getActiveProfile();
+  }
+
+  /**
+   * Show a dependant's profile, or the user's own with null, once any sync
+   * pass for the current one has finished. Returns the profile now shown.
+   */
+  async switchProfile(patientId: number | null): Promise<LinkedProfile | null> {
+    if (patientId === (this.getActiveProfile()?.patientId ?? null)) return this.getActiveProfile();
+
+    const { dependants } = await this.getLinkedAccounts();
+    const profile = patientId === null
+      ? null
+      : dependants.find(dependant => dependant.patientId === patientId);
+    if (profile === undefined) {
+      throw new Error(`Not linked to patient ${patientId}`);
+    }
+    await this.activate(profile);
+    return profile;
+  }
+
+  /**
+   * The user's linked caregivers, to be sent the last step of the
+   * missed-dose escalation by push.
+   */
+  async getCaregiverContacts(): Promise<CaregiverContact[]> {
+    const { caregivers } = await this.getLinkedAccounts();
+    return caregivers.map((caregiver): CaregiverContact => ({
+      name: caregiver.name,
+      channel: 'push',
+      destination: caregiver.username,
+    }));
+  }
+
+  /**
+   * Subscribe to profile switches. Returns the unsubscribe function.
+   */
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async activate(profile: LinkedProfile | null): Promise<void> {
+    // A running pass keeps the profile it started with until it has finished
+    await syncService.idle();
+    const previous = this.getActiveProfile();
+    apiService.setActiveProfile(profile);
+    if (previous?.patientId !== profile?.patientId || previous?.role !== profile?.role) {
+      this.listeners.forEach(listener => listener(profile));
+    }
+  }
+}
+
+export default new ProfileService();
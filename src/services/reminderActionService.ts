@@ -0,0 +1,160 @@
+/**
+ * MedGuard SA - Reminder actions
+ * Handles the Take / Snooze / Skip buttons on dose reminders, whether the
+ * app is open, in the background or (on Android) not running. Doses are
+ * recorded in the user's own dose ledger, even while a dependant's profile
+ * is shown; if that fails the log is queued with OfflineService so it still
+ * reaches the server. The press is noted on the reminder in the notification
+ * inbox.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import apiService from './apiService';
+import doseLedgerService from './doseLedgerService';
+import inboxService from './inboxService';
+import notificationService from './notificationService';
+import offlineService from './offlineService';
+import reminderPlannerService from './reminderPlannerService';
+import { DoseOccurrence, SkipReason } from '../types/dose';
+import { ReminderAction, ReminderData, readReminderData, reminderActionFor } from '../types/reminder';
+import { MedicationSchedule } from '../types/schedule';
+import { reminderDoseId } from '../utils/reminderPlanner';
+import { getDosageAt } from '../utils/scheduleUtils';
+
+const REMINDER_ACTION_TASK = 'medguard-reminder-actions';
+
+class ReminderActionService {
+  private static HANDLED_KEY = 'handled_reminder_actions';
+  private static HANDLED_LIMIT = 50;
+
+  /**
+   * Subscribe to action presses and pick up one that launched the app.
+   * Returns the unsubscribe function.
+   */
+  listen(): () => void {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      this.handleResponse(response).catch(error => console.error('Reminder action error:', error));
+    });
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => response && this.handleResponse(response))
+      .catch(error => console.error('Reminder action error:', error));
+    return () => subscription.remove();
+  }
+
+  /**
+   * Register the background task Android uses for action presses while the
+   * app is not running.
+   */
+  async registerBackgroundTask(): Promise<void> {
+    try {
+      await Notifications.registerTaskAsync(REMINDER_ACTION_TASK);
+    } catch (error) {
+      console.error('Register reminder action task error:', error);
+    }
+  }
+
+  /**
+   * Apply an action pressed on a reminder. The same response can arrive from
+   * the listener, the launch response and the background task, so each is
+   * handled once.
+   */
+  async handleResponse(response: Notifications.NotificationResponse): Promise<void> {
+    const action = reminderActionFor(response.actionIdentifier);
+    const reminder = readReminderData(response.notification.request.content.data);
+    if (!action || !reminder) return;
+
+    const key = `${response.notification.request.identifier}:${action}`;
+    if (!(await this.markHandled(key))) return;
+
+    await this.perform(action, reminder);
+    await inboxService.recordAction(response.notification.request.identifier, action, response.notification)
+      .catch(error => console.error('Record notification error:', error));
+    await Notifications.dismissNotificationAsync(response.notification.request.identifier).catch(() => undefined);
+    // The app may not be running, so top the window up here as well
+    await reminderPlannerService.replenish();
+  }
+
+  async perform(action: ReminderAction, reminder: ReminderData, skipReason: SkipReason = 'other'): Promise<boolean> {
+    // Reminders are for the user's own doses, whichever profile is shown
+    switch (action) {
+      case 'take':
+        return this.record(reminder, dose => doseLedgerService.recordTaken(dose, { patientId: null }), {
+          status: 'taken',
+        });
+      case 'skip':
+        return this.record(reminder, dose => doseLedgerService.recordSkipped(dose, skipReason, { patientId: null }), {
+          status: 'skipped',
+          skipReason,
+        });
+      case 'snooze':
+        return notificationService.snoozeReminder(reminder);
+    }
+  }
+
+  private async record(
+    reminder: ReminderData,
+    apply: (dose: DoseOccurrence) => Promise<unknown>,
+    log: { status: 'taken' | 'skipped'; skipReason?: SkipReason }
+  ): Promise<boolean> {
+    try {
+      await apply(await this.occurrenceFor(reminder));
+      return true;
+    } catch (error) {
+      console.error('Record dose from reminder error:', error);
+      // The offline queue is the active profile's; a dependant's must not get this dose
+      if (apiService.getActiveProfile()) return false;
+      await offlineService.enqueue('log_medication', {
+        scheduleId: reminder.scheduleId,
+        scheduledTime: reminder.doseTime,
+        ...(log.status === 'taken' && { actualTime: new Date().toISOString() }),
+        ...log,
+      });
+      return false;
+    }
+  }
+
+  private async occurrenceFor(reminder: ReminderData): Promise<DoseOccurrence> {
+    let dosage = reminder.dosage;
+    if (!dosage) {
+      const schedules = await apiService.readCache('schedules', null) as MedicationSchedule[];
+      const schedule = schedules.find(item => item.id === reminder.scheduleId);
+      dosage = schedule ? getDosageAt(schedule, new Date(reminder.doseTime)) : '';
+    }
+    return {
+      id: reminderDoseId(reminder),
+      scheduleId: reminder.scheduleId,
+      medicationId: reminder.medicationId,
+      medicationName: reminder.medicationName,
+      dosage,
+      scheduledTime: reminder.doseTime,
+    };
+  }
+
+  private async markHandled(key: string): Promise<boolean> {
+    try {
+      const raw = await AsyncStorage.getItem(ReminderActionService.HANDLED_KEY);
+      const handled: string[] = raw ? JSON.parse(raw) : [];
+      if (handled.includes(key)) return false;
+      await AsyncStorage.setItem(
+        ReminderActionService.HANDLED_KEY,
+        JSON.stringify([...handled, key].slice(-ReminderActionService.HANDLED_LIMIT))
+      );
+      return true;
+    } catch (error) {
+      console.error('Reminder action bookkeeping error:', error);
+      return true;
+    }
+  }
+}
+
+const reminderActionService = new ReminderActionService();
+
+// Defined at module scope so the task exists when Android starts the app headless
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(REMINDER_ACTION_TASK, async ({ data, error }) => {
+  if (error || !data || !('actionIdentifier' in data)) return;
+  await reminderActionService.handleResponse(data);
+});
+
+export default reminderActionService;
@@ -0,0 +1,120 @@
+/**
+ * MedGuard SA - Reminder window
+ * Keeps the rolling window of dose reminders topped up: on app start and
+ * resume, from a background fetch task and whenever a dose is recorded.
+ * Which reminders go in the window is decided in utils/reminderPlanner.ts;
+ * NotificationService applies the result. Schedules are planned as travel
+ * mode and the user's routine have them. The background task also runs missed-dose escalation.
+ * Reminders are for the user's own doses, so the window is planned from
+ * the user's own schedules and ledger whichever profile is shown.
+ */
+
+import { addDays } from 'date-fns';
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import apiService from './apiService';
+import doseLedgerService from './doseLedgerService';
+import escalationService from './escalationService';
+import notificationService from './notificationService';
+import routineService from './routineService';
+import travelService from './travelService';
+import { REMINDER_HORIZON_DAYS } from '../types/reminder';
+import { MedicationSchedule } from '../types/schedule';
+import { ReminderPlanDiff } from '../utils/reminderPlanner';
+
+const REMINDER_WINDOW_TASK = 'medguard-reminder-window';
+
+class ReminderPlannerService {
+  // As often as the OS allows, so caregiver escalation isn't held up for long
+  private static FETCH_INTERVAL_SECONDS = 15 * 60;
+
+  private current: Promise<unknown> = Promise.resolve();
+  private queued: Promise<ReminderPlanDiff | null> | null = null;
+
+  /**
+   * Top up the reminder window. Runs never overlap, and calls made while
+   * one is in progress share the single run queued behind it.
+   */
+  replenish(): Promise<ReminderPlanDiff | null> {
+    if (this.queued) return this.queued;
+
+    const run = this.current.then(() => {
+      this.queued = null;
+      return this.plan(new Date());
+    });
+    this.queued = run;
+    this.current = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Replenish whenever the dose ledger changes, so a dose taken early drops
+   * its reminder, and when travel mode, the time zone or the routine
+   * changes. Returns the unsubscribe function.
+   */
+  watch(): () => void {
+    const replenish = () => {
+      this.replenish().catch(error => console.error('Replenish reminders error:', error));
+    };
+    const stopLedger = doseLedgerService.subscribe(replenish);
+    const stopTravel = travelService.subscribe(replenish);
+    const stopRoutine = routineService.subscribe(replenish);
+    return () => {
+      stopLedger();
+      stopTravel();
+      stopRoutine();
+    };
+  }
+
+  async registerBackgroundFetch(): Promise<void> {
+    try {
+      if (await TaskManager.isTaskRegisteredAsync(REMINDER_WINDOW_TASK)) return;
+      await BackgroundFetch.registerTaskAsync(REMINDER_WINDOW_TASK, {
+        minimumInterval: ReminderPlannerService.FETCH_INTERVAL_SECONDS,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+    } catch (error) {
+      console.error('Register reminder window task error:', error);
+    }
+  }
+
+  private async plan(now: Date): Promise<ReminderPlanDiff | null> {
+    try {
+      const [schedules, policies, events] = await Promise.all([
+        apiService.readCache('schedules', null) as Promise<MedicationSchedule[]>,
+        escalationService.getPolicies(),
+        // From a day back so snoozed reminders of recorded doses are caught
+        doseLedgerService.getEvents({
+          from: addDays(now, -1),
+          to: addDays(now, REMINDER_HORIZON_DAYS),
+          patientId: null,
+        }),
+      ]);
+      const resolvedDoseIds = new Set(
+        events.filter(event => event.status !== 'pending').map(event => event.id)
+      );
+      return await notificationService.scheduleMedicationReminders(
+        await travelService.applyTo(await routineService.applyTo(schedules)),
+        { now, resolvedDoseIds, policies }
+      );
+    } catch (error) {
+      console.error('Plan reminders error:', error);
+      return null;
+    }
+  }
+}
+
+const reminderPlannerService = new ReminderPlannerService();
+
+// Defined at module scope so the task exists when the OS wakes the app for a fetch
+TaskManager.defineTask(REMINDER_WINDOW_TASK, async () => {
+  await escalationService.run();
+  const diff = await reminderPlannerService.replenish();
+  if (!diff) return BackgroundFetch.BackgroundFetchResult.Failed;
+  return diff.cancel.length + diff.schedule.length > 0
+    ? BackgroundFetch.BackgroundFetchResult.NewData
+    : BackgroundFetch.BackgroundFetchResult.NoData;
+});
+
+export default reminderPlannerService;
@@ -0,0 +1,53 @@
+/**
+ * MedGuard SA - Daily routine
+ * Keeps the user's routine profile, set up during onboarding and edited in
+ * settings. Schedules on a named timing slot follow it day by day; callers
+ * re-plan reminders when it changes.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_ROUTINE_PROFILE, RoutineProfile, parseRoutineProfile } from '../types/routine';
+import { MedicationSchedule } from '../types/schedule';
+import { applyRoutine } from '../utils/routine';
+
+export type RoutineListener = (profile: RoutineProfile) => void;
+
+class RoutineService {
+  private static ROUTINE_PROFILE_KEY = 'routine_profile';
+
+  private listeners = new Set<RoutineListener>();
+
+  async getProfile(): Promise<RoutineProfile> {
+    try {
+      const raw = await AsyncStorage.getItem(RoutineService.ROUTINE_PROFILE_KEY);
+      if (raw) return parseRoutineProfile(JSON.parse(raw));
+    } catch (error) {
+      console.error('Get routine profile error:', error);
+    }
+    return DEFAULT_ROUTINE_PROFILE;
+  }
+
+  /**
+   * Schedules as they apply with the user's routine, for expanding into doses.
+   */
+  async applyTo(schedules: MedicationSchedule[]): Promise<MedicationSchedule[]> {
+    const profile = await this.getProfile();
+    return schedules.map(schedule => applyRoutine(schedule, profile));
+  }
+
+  async setProfile(profile: RoutineProfile): Promise<RoutineProfile> {
+    const next = parseRoutineProfile({ ...profile, configured: true });
+    await AsyncStorage.setItem(RoutineService.ROUTINE_PROFILE_KEY, JSON.stringify(next));
+    this.listeners.forEach(listener => listener(next));
+    return next;
+  }
+
+  subscribe(listener: RoutineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export default new RoutineService();
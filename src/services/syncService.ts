@@ -0,0 +1,589 @@
+/**
+ * MedGuard SA - Sync engine
+ * Single bidirectional sync for medications, schedules, reminders, dose
+ * logs and prescriptions. Local mutations are tracked per record, pushed in order, then deltas
+ * are pulled using per-entity `updatedAt` cursors and merged with the
+ * medical_priority conflict policy. Pulled dose logs are then reconciled
+ * into the dose ledger. Every pass is written to a journal. Each linked
+ * profile has its own queue, cursors and journal; a pass syncs the profile
+ * active when it starts, to the end, even if another is shown meanwhile.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiService from './apiService';
+import doseLedgerService from './doseLedgerService';
+import importService from './importService';
+import inventoryService from './inventoryService';
+import notificationService from './notificationService';
+import offlineService, { QueuedActionPayload } from './offlineService';
+import photoService from './photoService';
+import { fromApiRecord, isRetryableError, toApiError, toApiRecord } from '../types/api';
+import { DoseLog } from '../types/medication';
+import { isRecord, parseListLenient } from '../types/parse';
+import { MedicationSchedule } from '../types/schedule';
+import {
+  ChangeOperation,
+  PendingChange,
+  SYNC_ENTITIES,
+  SyncCursors,
+  SyncEntity,
+  SyncJournalEntry,
+  SyncRecord,
+  SyncResolution,
+  emptySyncCounts,
+} from '../types/sync';
+import { getDosageAt } from '../utils/scheduleUtils';
+import { SYNC_REFERENCES, remapReferences, settleSentChange } from '../utils/sync';
+
+const isTombstone = (raw: unknown): boolean =>
+  isRecord(raw) && (raw.isDeleted === true || raw.deleted === true);
+
+export type SyncListener = (entry: SyncJournalEntry) => void;
+
+class SyncService {
+  private static PENDING_CHANGES_KEY = 'sync_pending_changes';
+  private static CURSORS_KEY = 'sync_cursors';
+  private static JOURNAL_KEY = 'sync_journal';
+  private static REJECTED_CHANGES_KEY = 'sync_rejected_changes';
+  private static MAX_JOURNAL_ENTRIES = 50;
+  private static MAX_REJECTED_CHANGES = 100;
+
+  private inFlight: Promise<SyncJournalEntry> | null = null;
+  private listeners = new Set<SyncListener>();
+  // Serialises read-modify-write cycles on the stored queue
+  private queueWrites: Promise<unknown> = Promise.resolve();
+  // Changes being sent right now; a create among them is no longer local only
+  private sending = new Set<string>();
+
+  // -------------------- Change tracking --------------------
+
+  /**
+   * Record a local mutation. Consecutive changes to the same record are
+   * collapsed so only the latest state is pushed.
+   */
+  async trackChange(
+    entity: SyncEntity,
+    operation: ChangeOperation,
+    recordId: string,
+    payload?: Partial<SyncRecord>
+  ): Promise<void> {
+    // The queue of the profile the change was made in, however long the wait
+    const patientId = this.activePatientId();
+    await this.updateQueue(pending => {
+      const existingIndex = pending.findIndex(
+        change => change.entity === entity && change.recordId === recordId
+      );
+      const existing = existingIndex >= 0 ? pending[existingIndex] : undefined;
+
+      if (existing) {
+        pending.splice(existingIndex, 1);
+        if (existing.operation === 'create' && operation === 'delete' && !this.sending.has(existing.id)) {
+          // Never reached the server; nothing to push
+          return pending;
+        }
+      }
+
+      pending.push(this.mergeChange(existing, entity, operation, recordId, payload));
+      return pending;
+    }, patientId);
+  }
+
+  private mergeChange(
+    existing: PendingChange | undefined,
+    entity: SyncEntity,
+    operation: ChangeOperation,
+    recordId: string,
+    payload?: Partial<SyncRecord>
+  ): PendingChange {
+    const merged: PendingChange = {
+      id: existing?.id ?? `change_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      entity,
+      // A create followed by updates is still a create
+      operation: existing?.operation === 'create' && operation === 'update' ? 'create' : operation,
+      recordId,
+      queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+      attempts: 0,
+    };
+    const mergedPayload = operation === 'delete' ? undefined : { ...existing?.payload, ...payload };
+    if (mergedPayload) {
+      merged.payload = mergedPayload as Partial<SyncRecord>;
+    }
+    return merged;
+  }
+
+  /**
+   * Translate legacy queued actions (ApiService / OfflineService queues) into
+   * tracked changes.
+   */
+  async trackAction(action: string, payload: QueuedActionPayload): Promise<void> {
+    switch (action) {
+      case 'log_medication': {
+        const now = new Date().toISOString();
+        const scheduleId = String(payload?.scheduleId);
+        const schedules = await this.loadRecords('schedules') as MedicationSchedule[];
+        const schedule = schedules.find(item => item.id === scheduleId);
+        // Reminder actions also queue skips, and say which dose they were for
+        const skipped = payload?.status === 'skipped';
+        const actualTime: string = payload?.actualTime ?? now;
+        const doseTime: string = payload?.scheduledTime ?? actualTime;
+        const log: Partial<DoseLog> = {
+          id: `log_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+          scheduleId,
+          status: skipped ? 'skipped' : 'taken',
+          ...(!skipped && { actualTime }),
+          ...(payload?.scheduledTime && { scheduledTime: payload.scheduledTime }),
+          createdAt: now,
+          updatedAt: now,
+          ...(schedule && {
+            medicationId: schedule.medicationId,
+            ...(!skipped && { dosage: getDosageAt(schedule, new Date(doseTime)) }),
+          }),
+          ...(skipped && payload?.skipReason && { skipReason: payload.skipReason }),
+          ...(payload?.notes && { notes: payload.notes }),
+        };
+
+        // Show the dose locally straight away when it can be attributed
+        if (log.medicationId && log.id) {
+          const logs = await this.loadRecords('logs');
+          await this.saveRecords('logs', [log as DoseLog, ...logs]);
+        }
+        await this.trackChange('logs', 'create', log.id as string, log);
+        return;
+      }
+      default:
+        console.warn(`Dropping unknown offline action: ${action}`);
+    }
+  }
+
+  /** The active profile's queue unless a patient is given (null for the user's own) */
+  async getPendingChanges(patientId?: number | null): Promise<PendingChange[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(SyncService.PENDING_CHANGES_KEY, patientId));
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Pending changes read error:', error);
+      return [];
+    }
+  }
+
+  private async savePendingChanges(changes: PendingChange[], patientId?: number | null): Promise<void> {
+    await AsyncStorage.setItem(apiService.scopedKey(SyncService.PENDING_CHANGES_KEY, patientId), JSON.stringify(changes));
+  }
+
+  /**
+   * Read, change and write the queue with no other write in between. Every
+   * queue write goes through here, so changes tracked while a pass waits on
+   * the network are kept.
+   */
+  private updateQueue(
+    mutate: (pending: PendingChange[]) => PendingChange[],
+    patientId: number | null
+  ): Promise<PendingChange[]> {
+    const run = this.queueWrites.then(async () => {
+      const next = mutate(await this.getPendingChanges(patientId));
+      await this.savePendingChanges(next, patientId);
+      return next;
+    });
+    this.queueWrites = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Changes the server refused (e.g. failed validation), newest first. They
+   * are kept for reference but not pushed again.
+   */
+  async getRejectedChanges(patientId?: number | null): Promise<PendingChange[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(SyncService.REJECTED_CHANGES_KEY, patientId));
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Rejected changes read error:', error);
+      return [];
+    }
+  }
+
+  private async saveRejectedChanges(changes: PendingChange[], patientId: number | null): Promise<void> {
+    await AsyncStorage.setItem(
+      apiService.scopedKey(SyncService.REJECTED_CHANGES_KEY, patientId),
+      JSON.stringify(changes.slice(0, SyncService.MAX_REJECTED_CHANGES))
+    );
+  }
+
+  // -------------------- Sync pass --------------------
+
+  /**
+   * Run a full push + pull pass. Concurrent callers share the pass already
+   * in progress.
+   */
+  sync(options: { batchSize?: number } = {}): Promise<SyncJournalEntry> {
+    return this.runExclusive(() => this.runSync(options.batchSize ?? 50, true));
+  }
+
+  /**
+   * Push queued changes only (no pull). Used when the caller just needs the
+   * queue drained, e.g. after connectivity returns. Shares a pass already in
+   * progress, which pushes as well.
+   */
+  pushPendingChanges(batchSize = 50): Promise<SyncJournalEntry> {
+    return this.runExclusive(() => this.runSync(batchSize, false));
+  }
+
+  /** Resolves once no pass is running, e.g. before another profile is shown */
+  async idle(): Promise<void> {
+    await this.inFlight?.catch(() => undefined);
+  }
+
+  private runExclusive(pass: () => Promise<SyncJournalEntry>): Promise<SyncJournalEntry> {
+    if (!this.inFlight) {
+      this.inFlight = pass().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async runSync(batchSize: number, pull: boolean): Promise<SyncJournalEntry> {
+    const patientId = this.activePatientId();
+    const entry = this.createEntry();
+    await this.migrateLegacyQueue();
+    await this.push(entry, batchSize, patientId);
+    if (pull) {
+      await this.pull(entry, patientId);
+      // The ledger works on the shown profile; if that changed, the next pass reconciles
+      if (this.activePatientId() === patientId) {
+        await this.reconcileDoseLedger(entry);
+      }
+    }
+    return this.finishEntry(entry, patientId);
+  }
+
+  private activePatientId(): number | null {
+    return apiService.getActiveProfile()?.patientId ?? null;
+  }
+
+  /**
+   * Send the oldest queued changes in order. The queue isn't held while a
+   * change is on its way: each one is read again before it is sent, and the
+   * outcome is written back through updateQueue() so changes tracked in the
+   * meantime survive.
+   */
+  private async push(entry: SyncJournalEntry, batchSize: number, patientId: number | null): Promise<void> {
+    const batch = (await this.getPendingChanges(patientId)).slice(0, batchSize).map(change => change.id);
+    const rejected: PendingChange[] = [];
+
+    for (const id of batch) {
+      // May have been remapped, merged with a later change or dropped since
+      const change = (await this.getPendingChanges(patientId)).find(item => item.id === id);
+      if (!change) continue;
+
+      this.sending.add(change.id);
+      try {
+        const body = change.payload ? toApiRecord(change.entity, change.payload) : undefined;
+        const response = await apiService.pushChange(change.entity, change.operation, change.recordId, body, patientId);
+        const serverRecord = response ? fromApiRecord(change.entity, response, `${change.entity}.push`) : null;
+        const nextId = serverRecord?.id ?? change.recordId;
+
+        await this.updateQueue(pending => settleSentChange(pending, change, nextId), patientId);
+
+        if (serverRecord) {
+          await this.replaceRecord(change.entity, change.recordId, serverRecord, patientId);
+          if (nextId !== change.recordId) {
+            await this.remapLocalReferences(change.entity, change.recordId, nextId, patientId);
+          }
+        }
+        entry.sent[change.entity] += 1;
+      } catch (error) {
+        const message = (error as Error).message;
+        const failed = { ...change, attempts: change.attempts + 1, lastError: message };
+        entry.errors.push(`push ${change.entity}/${change.recordId}: ${message}`);
+        if (!isRetryableError(toApiError(error))) {
+          // The server refused it and will again; set it aside and go on
+          await this.updateQueue(pending => pending.filter(item => item.id !== change.id), patientId);
+          rejected.push(failed);
+          entry.rejected[change.entity] += 1;
+          continue;
+        }
+        // Stop on the first failure to keep changes in order; retry next pass
+        await this.updateQueue(
+          pending =>
+            pending.map(item =>
+              item.id === change.id ? { ...item, attempts: failed.attempts, lastError: message } : item
+            ),
+          patientId
+        );
+        break;
+      } finally {
+        this.sending.delete(change.id);
+      }
+    }
+
+    if (rejected.length > 0) {
+      await this.saveRejectedChanges([...rejected.reverse(), ...(await this.getRejectedChanges(patientId))], patientId);
+    }
+  }
+
+  private async pull(entry: SyncJournalEntry, patientId: number | null): Promise<void> {
+    const cursors = await this.getCursors(patientId);
+    const pending = await this.getPendingChanges(patientId);
+
+    for (const entity of SYNC_ENTITIES) {
+      try {
+        const items = await apiService.fetchChanges(entity, cursors[entity], patientId);
+        const pendingIds = new Set(
+          pending.filter(change => change.entity === entity).map(change => change.recordId)
+        );
+
+        const deletedIds = new Set(
+          items.filter(isTombstone).map(item => String((item as { id: unknown }).id))
+        );
+        const incoming = parseListLenient(
+          items.filter(item => !isTombstone(item)),
+          entity,
+          (item, path) => fromApiRecord(entity, item, path)
+        );
+
+        const local = await this.loadRecords(entity, patientId);
+        const byId = new Map(local.map(record => [record.id, record]));
+
+        deletedIds.forEach(id => {
+          if (!pendingIds.has(id) && byId.delete(id)) {
+            entry.deleted[entity] += 1;
+          }
+        });
+
+        for (const serverRecord of incoming) {
+          const localRecord = byId.get(serverRecord.id);
+          if (localRecord && pendingIds.has(serverRecord.id)) {
+            const { record, resolution } = await this.resolveConflict(entity, localRecord, serverRecord);
+            byId.set(serverRecord.id, record);
+            entry.conflicts.push({ entity, recordId: serverRecord.id, resolution });
+            if (resolution === 'server') {
+              await this.dropPendingChange(entity, serverRecord.id, patientId);
+            }
+          } else {
+            byId.set(serverRecord.id, serverRecord);
+          }
+          entry.received[entity] += 1;
+        }
+
+        await this.saveRecords(entity, Array.from(byId.values()), patientId);
+
+        const latest = incoming
+          .map(record => record.updatedAt)
+          .filter((value): value is string => Boolean(value))
+          .sort()
+          .pop();
+        if (latest) {
+          cursors[entity] = latest;
+        }
+      } catch (error) {
+        entry.errors.push(`pull ${entity}: ${(error as Error).message}`);
+      }
+    }
+
+    await AsyncStorage.setItem(apiService.scopedKey(SyncService.CURSORS_KEY, patientId), JSON.stringify(cursors));
+  }
+
+  private async reconcileDoseLedger(entry: SyncJournalEntry): Promise<void> {
+    try {
+      await doseLedgerService.reconcile();
+    } catch (error) {
+      entry.errors.push(`reconcile dose ledger: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Apply ConflictResolver's medical_priority policy to one record:
+   * dose logs keep the most recent version, medications, schedules and
+   * prescriptions are clinical data where the server wins, reminders are user preferences where
+   * local edits win.
+   */
+  private async resolveConflict(
+    entity: SyncEntity,
+    local: SyncRecord,
+    server: SyncRecord
+  ): Promise<{ record: SyncRecord; resolution: SyncResolution }> {
+    let record: SyncRecord;
+    switch (entity) {
+      case 'logs': {
+        const merged = await offlineService.resolveConflicts(
+          { medicationLogs: [local] },
+          { medicationLogs: [server] }
+        );
+        record = merged.medicationLogs.find((log: SyncRecord) => log.id === server.id) ?? server;
+        break;
+      }
+      case 'medications':
+      case 'schedules':
+      case 'prescriptions': {
+        const merged = await offlineService.resolveConflicts({ [entity]: [local] }, { [entity]: [server] });
+        record = merged[entity][0] ?? server;
+        break;
+      }
+      case 'reminders': {
+        const merged = await offlineService.resolveConflicts({ userPreferences: local }, { userPreferences: server });
+        record = merged.userPreferences ?? server;
+        break;
+      }
+    }
+
+    const resolution: SyncResolution = record === local ? 'local' : record === server ? 'server' : 'merged';
+    return { record, resolution };
+  }
+
+  private async dropPendingChange(entity: SyncEntity, recordId: string, patientId: number | null): Promise<void> {
+    await this.updateQueue(
+      pending => pending.filter(change => !(change.entity === entity && change.recordId === recordId)),
+      patientId
+    );
+  }
+
+  // -------------------- Local replica --------------------
+
+  /** The active profile's records unless a patient is given (null for the user's own) */
+  async loadRecords(entity: SyncEntity, patientId?: number | null): Promise<SyncRecord[]> {
+    return apiService.readCache(entity, patientId);
+  }
+
+  private async saveRecords(entity: SyncEntity, records: SyncRecord[], patientId?: number | null): Promise<void> {
+    await apiService.writeCache(entity, records, patientId);
+  }
+
+  private async replaceRecord(
+    entity: SyncEntity,
+    previousId: string,
+    record: SyncRecord,
+    patientId: number | null
+  ): Promise<void> {
+    const records = await this.loadRecords(entity, patientId);
+    const index = records.findIndex(item => item.id === previousId);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+    await this.saveRecords(entity, records, patientId);
+  }
+
+  /**
+   * Point everything stored on the device at a record's server id: cached
+   * records referring to it, the dose ledger, stock movements and photos.
+   */
+  private async remapLocalReferences(
+    entity: SyncEntity,
+    previousId: string,
+    nextId: string,
+    patientId: number | null
+  ): Promise<void> {
+    for (const { entity: referring } of SYNC_REFERENCES[entity]) {
+      const records = await this.loadRecords(referring, patientId);
+      const remapped = records.map(record => remapReferences(referring, record, entity, previousId, nextId));
+      if (remapped.some((record, index) => record !== records[index])) {
+        await this.saveRecords(referring, remapped, patientId);
+      }
+    }
+    if (entity === 'medications' || entity === 'schedules') {
+      await doseLedgerService.remapIds(entity, previousId, nextId, patientId);
+      await inventoryService.remapIds(entity, previousId, nextId, patientId);
+    }
+    if (entity === 'medications') {
+      await photoService.remapMedicationId(previousId, nextId, patientId);
+      await notificationService.remapMedicationId(previousId, nextId);
+    }
+    await importService.remapIds(entity, previousId, nextId, patientId);
+  }
+
+  private async getCursors(patientId: number | null): Promise<SyncCursors> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(SyncService.CURSORS_KEY, patientId));
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Move items left in ApiService's pre-sync-engine queue into tracked changes.
+   */
+  private async migrateLegacyQueue(): Promise<void> {
+    try {
+      const legacyKey = 'offline_action_queue';
+      const raw = await AsyncStorage.getItem(legacyKey);
+      if (!raw) return;
+      for (const item of JSON.parse(raw)) {
+        await this.trackAction(item.action, item.data);
+      }
+      await AsyncStorage.removeItem(legacyKey);
+    } catch (error) {
+      console.error('Legacy queue migration error:', error);
+    }
+  }
+
+  // -------------------- Journal --------------------
+
+  private createEntry(): SyncJournalEntry {
+    return {
+      id: `sync_${Date.now()}`,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      status: 'success',
+      sent: emptySyncCounts(),
+      received: emptySyncCounts(),
+      deleted: emptySyncCounts(),
+      rejected: emptySyncCounts(),
+      conflicts: [],
+      pendingAfter: 0,
+      errors: [],
+    };
+  }
+
+  private async finishEntry(entry: SyncJournalEntry, patientId: number | null): Promise<SyncJournalEntry> {
+    const transferred = [entry.sent, entry.received].some(counts =>
+      Object.values(counts).some(count => count > 0)
+    );
+    entry.finishedAt = new Date().toISOString();
+    entry.pendingAfter = (await this.getPendingChanges(patientId)).length;
+    entry.status = entry.errors.length === 0 ? 'success' : transferred ? 'partial' : 'failed';
+
+    try {
+      const journal = await this.getJournal(patientId);
+      journal.unshift(entry);
+      await AsyncStorage.setItem(
+        apiService.scopedKey(SyncService.JOURNAL_KEY, patientId),
+        JSON.stringify(journal.slice(0, SyncService.MAX_JOURNAL_ENTRIES))
+      );
+    } catch (error) {
+      console.error('Sync journal write error:', error);
+    }
+
+    this.listeners.forEach(listener => listener(entry));
+    return entry;
+  }
+
+  /**
+   * Most recent passes first.
+   */
+  async getJournal(patientId?: number | null): Promise<SyncJournalEntry[]> {
+    try {
+      const raw = await AsyncStorage.getItem(apiService.scopedKey(SyncService.JOURNAL_KEY, patientId));
+      // Entries written before rejected changes were counted have no counts
+      const entries: Array<Omit<SyncJournalEntry, 'rejected'> & Partial<SyncJournalEntry>> = raw ? JSON.parse(raw) : [];
+      return entries.map(entry => ({ ...entry, rejected: entry.rejected ?? emptySyncCounts() }));
+    } catch (error) {
+      console.error('Sync journal read error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Subscribe to completed passes. Returns an unsubscribe function.
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export default new SyncService();
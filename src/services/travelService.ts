@@ -0,0 +1,130 @@
+/**
+ * MedGuard SA - Travel mode
+ * Keeps the travel settings and notices when the device changes time zone:
+ * on local time, schedules then move to the new zone from that moment. The
+ * first zone the app sees is the home zone of schedules saved before they
+ * carried their own. Callers re-plan reminders when the zone changes.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MedicationSchedule } from '../types/schedule';
+import { TravelMode, TravelSettings, defaultTravelSettings, parseTravelSettings } from '../types/travel';
+import { deviceTimeZone } from '../utils/recurrence';
+import { applyTravel } from '../utils/travel';
+
+export type TravelListener = (settings: TravelSettings) => void;
+
+class TravelService {
+  private static TRAVEL_SETTINGS_KEY = 'travel_settings';
+
+  private listeners = new Set<TravelListener>();
+  // Serialises read-modify-write cycles on the stored settings
+  private writes: Promise<unknown> = Promise.resolve();
+
+  async getSettings(): Promise<TravelSettings> {
+    try {
+      const raw = await AsyncStorage.getItem(TravelService.TRAVEL_SETTINGS_KEY);
+      if (raw) return parseTravelSettings(JSON.parse(raw));
+    } catch (error) {
+      console.error('Get travel settings error:', error);
+    }
+    // Stored straight away so the home zone stays the one first seen
+    const settings = defaultTravelSettings(deviceTimeZone());
+    await this.save(settings);
+    return settings;
+  }
+
+  /**
+   * Schedules as they apply on this device, for expanding into doses.
+   */
+  async applyTo(schedules: MedicationSchedule[]): Promise<MedicationSchedule[]> {
+    const settings = await this.getSettings();
+    return schedules.map(schedule => applyTravel(schedule, settings));
+  }
+
+  /**
+   * Zone for a new schedule's times: the home zone, or the local one while
+   * schedules follow local time.
+   */
+  async getScheduleTimeZone(): Promise<string> {
+    const settings = await this.getSettings();
+    return settings.mode === 'local' ? deviceTimeZone() : settings.homeTimeZone;
+  }
+
+  /**
+   * Check the device's zone against the one last seen. Returns whether it
+   * changed, in which case reminders need re-planning.
+   */
+  async checkTimeZone(now: Date = new Date()): Promise<boolean> {
+    const timeZone = deviceTimeZone();
+    let changed = false;
+    await this.update(settings => {
+      if (settings.lastTimeZone === timeZone) return settings;
+      changed = true;
+      if (settings.mode === 'home') return { ...settings, lastTimeZone: timeZone };
+      return {
+        ...settings,
+        lastTimeZone: timeZone,
+        leg: {
+          ...(settings.leg && { fromTimeZone: settings.leg.timeZone }),
+          timeZone,
+          since: now.toISOString(),
+        },
+      };
+    });
+    return changed;
+  }
+
+  /**
+   * Have schedules follow home or local time from now on.
+   */
+  async setMode(mode: TravelMode, now: Date = new Date()): Promise<TravelSettings> {
+    return this.update(settings => {
+      if (settings.mode === mode) return settings;
+      const { leg, ...rest } = settings;
+      if (mode === 'home') return { ...rest, mode };
+      return { ...rest, mode, leg: { timeZone: deviceTimeZone(), since: now.toISOString() } };
+    });
+  }
+
+  /**
+   * Move a schedule to local time gradually, or in one go.
+   */
+  async setGradual(scheduleId: string, gradual: boolean): Promise<TravelSettings> {
+    return this.update(settings => {
+      const others = settings.gradualScheduleIds.filter(id => id !== scheduleId);
+      return { ...settings, gradualScheduleIds: gradual ? [...others, scheduleId] : others };
+    });
+  }
+
+  subscribe(listener: TravelListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(change: (settings: TravelSettings) => TravelSettings): Promise<TravelSettings> {
+    const run = this.writes.then(async () => {
+      const current = await this.getSettings();
+      const next = change(current);
+      if (next !== current) {
+        await this.save(next);
+        this.listeners.forEach(listener => listener(next));
+      }
+      return next;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async save(settings: TravelSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(TravelService.TRAVEL_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Save travel settings error:', error);
+    }
+  }
+}
+
+export default new TravelService();
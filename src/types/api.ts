@@ -0,0 +1,611 @@
+/**
+ * MedGuard SA - Django API wire format and adapters
+ * The only place that knows how the backend shapes medications, schedules,
+ * logs and prescriptions. ApiService converts at the boundary so the rest of the app works
+ * with the canonical domain model.
+ */
+
+import {
+  ALL_DAYS,
+  MedicationSchedule,
+  SCHEDULE_TIMINGS,
+  SchedulePriority,
+  ScheduleTiming,
+  WEEKDAY_KEYS,
+  buildSchedulePattern,
+  normalizeFrequency,
+  parseMedicationSchedule,
+  timingForTime,
+} from './schedule';
+import { CaregiverAlert, CaregiverChannel } from './escalation';
+import { DoseLog, Medication, parseDoseLog, parseMedication, parseMedicationReminder } from './medication';
+import { DomainParseError, compact, expectRecord, isRecord } from './parse';
+import { Prescription, parsePrescription } from './prescription';
+import { INBOX_TYPES, InboxItem, parseInboxItem } from './inbox';
+import { PrnLimits } from './prn';
+import { LinkedAccounts, ProfileRole, parseLinkedAccounts } from './profile';
+import { SyncEntity, SyncRecord } from './sync';
+import { TimingConstraint } from './timingConstraint';
+
+export interface ApiMedication {
+  id: number;
+  name: string;
+  genericName?: string;
+  strength: string;
+  medicationType: string;
+  prescriptionType: string;
+  pillCount: number;
+  lowStockThreshold: number;
+  description?: string;
+  activeIngredients?: string;
+  manufacturer?: string;
+  sideEffects?: string;
+  contraindications?: string;
+  storageInstructions?: string;
+  medicationImage?: string;
+  expirationDate?: string;
+  nappiCode?: string;
+  batchNumber?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiMedicationSchedule {
+  id: number;
+  medication: ApiMedication | number;
+  patient: number;
+  timing: 'morning' | 'noon' | 'night' | 'custom';
+  customTime?: string;
+  dosageAmount: string;
+  frequency: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  startDate: string;
+  endDate?: string;
+  status: 'active' | 'inactive' | 'paused' | 'completed';
+  /** Picks the reminder profile and escalation chain for missed doses */
+  priority?: SchedulePriority;
+  instructions?: string;
+  /** RFC 5545 rules; when present they replace the weekday flags */
+  recurrenceRules?: string[];
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
+  exceptionDates?: string[];
+  phases?: ApiSchedulePhase[];
+  prnMinIntervalMinutes?: number | null;
+  prnMaxDosesPer24h?: number | null;
+  prnMaxAmountPer24hMg?: number | null;
+  /** IANA zone the times are in */
+  timeZone?: string;
+  timingConstraints?: TimingConstraint[];
+}
+
+export interface ApiSchedulePhase {
+  dosageAmount: string;
+  durationDays?: number;
+  times: string[];
+}
+
+export interface ApiMedicationLog {
+  id: number;
+  medication: ApiMedication | number;
+  schedule?: ApiMedicationSchedule | number;
+  scheduledTime: string;
+  actualTime?: string;
+  status: 'taken' | 'missed' | 'skipped' | 'partial';
+  dosageTaken?: string;
+  skipReason?: string;
+  isPrn?: boolean;
+  prnReason?: string;
+  notes?: string;
+  sideEffects?: string;
+}
+
+export interface ApiPrescription {
+  id: number;
+  prescriptionNumber?: string;
+  medications: Array<ApiMedication | number>;
+  prescriberName?: string;
+  prescriberPracticeNumber?: string;
+  pharmacyName?: string;
+  pharmacyPhone?: string;
+  patientName?: string;
+  icd10Codes?: string[];
+  issueDate: string;
+  expiryDate: string;
+  repeatsTotal: number;
+  repeatsRemaining: number;
+  lastDispensedAt?: string;
+  status: 'active' | 'cancelled';
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiCaregiverAlert {
+  medication?: number;
+  medicationName: string;
+  dosage: string;
+  scheduledTime: string;
+  caregiverName: string;
+  channel: CaregiverChannel;
+  destination: string;
+}
+
+export interface ApiInboxItem {
+  /** Identifier of the push notification */
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  deliveredAt: string;
+  medication?: number | null;
+  patient?: number | null;
+  read: boolean;
+  readAt?: string | null;
+}
+
+export interface ApiLinkedDependant {
+  patient: number;
+  patientName: string;
+  role: ProfileRole;
+  relationship?: string;
+}
+
+export interface ApiLinkedCaregiver {
+  username: string;
+  name: string;
+  role: ProfileRole;
+}
+
+export interface ApiLinkedAccounts {
+  dependants: ApiLinkedDependant[];
+  caregivers: ApiLinkedCaregiver[];
+}
+
+export const OCR_MEDICATION_FIELDS = ['name', 'strength', 'dosage', 'frequency', 'quantity', 'instructions'] as const;
+export type OCRMedicationField = typeof OCR_MEDICATION_FIELDS[number];
+
+export const OCR_PRESCRIPTION_FIELDS = ['prescriptionNumber', 'doctorName', 'patientName', 'icd10Codes'] as const;
+export type OCRPrescriptionField = typeof OCR_PRESCRIPTION_FIELDS[number];
+
+export interface OCRMedication {
+  name: string;
+  strength: string;
+  dosage: string;
+  frequency: string;
+  quantity: string;
+  instructions: string;
+  confidence: number;
+  /** 0..1 per field; fields left out take the medication's confidence */
+  fieldConfidence?: Partial<Record<OCRMedicationField, number>>;
+}
+
+/**
+ * A scanned script, from the server's `/api/prescription-ocr/`, the
+ * on-device reader (utils/prescriptionOcr.ts) or both merged.
+ */
+export interface PrescriptionOCRResult {
+  prescriptionNumber: string;
+  doctorName: string;
+  patientName: string;
+  medications: OCRMedication[];
+  icd10Codes: string[];
+  confidence: number;
+  processingTime: number;
+  /** 0..1 per field; fields left out take the result's confidence */
+  fieldConfidence?: Partial<Record<OCRPrescriptionField, number>>;
+  source?: 'device' | 'server' | 'merged';
+}
+
+/**
+ * Django primary keys are integers; locally created records carry string ids
+ * until the server assigns one.
+ */
+export const toApiId = (id: string | undefined): number | undefined => {
+  if (id === undefined || !/^\d+$/.test(id)) return undefined;
+  return Number(id);
+};
+
+/**
+ * Unwraps DRF list responses, which may or may not be paginated.
+ */
+export const unwrapResults = (data: unknown): unknown[] => {
+  if (Array.isArray(data)) return data;
+  if (isRecord(data) && Array.isArray(data.results)) return data.results;
+  return [];
+};
+
+// -------------------- Medications --------------------
+
+export const fromApiMedication = (input: unknown, path = 'apiMedication'): Medication =>
+  // Wire fields are a subset of the canonical shape; status is client-side only
+  parseMedication(input, path);
+
+export const toApiMedication = (medication: Partial<Medication>): Partial<ApiMedication> =>
+  compact<Partial<ApiMedication>>({
+    id: toApiId(medication.id),
+    name: medication.name,
+    genericName: medication.genericName,
+    strength: medication.strength,
+    medicationType: medication.medicationType,
+    prescriptionType: medication.prescriptionType,
+    pillCount: medication.pillCount,
+    lowStockThreshold: medication.lowStockThreshold,
+    description: medication.description,
+    activeIngredients: medication.activeIngredients,
+    manufacturer: medication.manufacturer,
+    sideEffects: medication.sideEffects?.join(', '),
+    contraindications: medication.contraindications,
+    storageInstructions: medication.storageInstructions,
+    medicationImage: medication.medicationImage,
+    expirationDate: medication.expirationDate,
+    nappiCode: medication.nappiCode,
+    batchNumber: medication.batchNumber,
+  });
+
+// -------------------- Schedules --------------------
+
+export const fromApiSchedule = (input: unknown, path = 'apiSchedule'): MedicationSchedule => {
+  const raw = expectRecord(input, path);
+  const medication = isRecord(raw.medication) ? raw.medication : undefined;
+  const frequency = normalizeFrequency(raw.frequency);
+  const daysOfWeek = WEEKDAY_KEYS.map(day => raw[day] !== false);
+  const timing = SCHEDULE_TIMINGS.find(slot => slot === raw.timing) ?? 'morning';
+  const customTime = typeof raw.customTime === 'string' ? raw.customTime : undefined;
+
+  return parseMedicationSchedule(
+    {
+      id: raw.id,
+      medicationId: medication ? medication.id : raw.medication,
+      medicationName: medication?.name,
+      patientId: raw.patient,
+      dosage: raw.dosageAmount,
+      frequency,
+      timing,
+      pattern: {
+        ...buildSchedulePattern(timing, frequency, daysOfWeek, customTime),
+        ...(Array.isArray(raw.recurrenceRules) &&
+          raw.recurrenceRules.length > 0 && { type: 'rrule', rrules: raw.recurrenceRules }),
+        ...(raw.cycleDaysOn != null && { cycle: { onDays: raw.cycleDaysOn, offDays: raw.cycleDaysOff ?? 0 } }),
+        exdates: raw.exceptionDates,
+      },
+      phases: Array.isArray(raw.phases)
+        ? raw.phases.map(phase =>
+          isRecord(phase) ? { dosage: phase.dosageAmount, durationDays: phase.durationDays, times: phase.times } : phase
+        )
+        : undefined,
+      prnLimits: {
+        minIntervalMinutes: raw.prnMinIntervalMinutes,
+        maxDosesPer24h: raw.prnMaxDosesPer24h,
+        maxAmountPer24hMg: raw.prnMaxAmountPer24hMg,
+      },
+      startDate: raw.startDate,
+      endDate: raw.endDate,
+      status: raw.status,
+      priority: raw.priority,
+      instructions: raw.instructions,
+      timeZone: raw.timeZone,
+      timingConstraints: raw.timingConstraints,
+    },
+    path
+  );
+};
+
+/**
+ * Legacy timing slot of a schedule. Named slots are sent as such so their
+ * times keep following the routine; other times go as a custom time.
+ */
+const toApiTiming = (
+  schedule: Partial<MedicationSchedule>
+): { timing: ScheduleTiming; customTime?: string } | undefined => {
+  if (schedule.timing && schedule.timing !== 'custom') return { timing: schedule.timing };
+  if (!schedule.pattern) return undefined;
+  const time = schedule.pattern.times[0];
+  if (schedule.timing === 'custom') return { timing: 'custom', ...(time && { customTime: time }) };
+  return timingForTime(time);
+};
+
+export const toApiSchedule = (schedule: Partial<MedicationSchedule>): Partial<ApiMedicationSchedule> => {
+  const days = schedule.pattern?.daysOfWeek ?? (schedule.pattern ? ALL_DAYS : undefined);
+  const slot = toApiTiming(schedule);
+  // Send an empty list when a pattern stops using rules, so the server drops them
+  const recurrenceRules = schedule.pattern
+    ? schedule.pattern.type === 'rrule' ? schedule.pattern.rrules ?? [] : []
+    : undefined;
+  // Limits left out of a given prnLimits are sent as null so the server clears them
+  const prnLimit = (key: keyof PrnLimits) =>
+    schedule.prnLimits ? schedule.prnLimits[key] ?? null : undefined;
+  const weekdays: Partial<ApiMedicationSchedule> = {};
+  if (days) {
+    WEEKDAY_KEYS.forEach((day, index) => {
+      weekdays[day] = days[index] ?? true;
+    });
+  }
+
+  return compact<Partial<ApiMedicationSchedule>>({
+    id: toApiId(schedule.id),
+    medication: toApiId(schedule.medicationId),
+    patient: toApiId(schedule.patientId),
+    timing: slot?.timing ?? schedule.timing,
+    customTime: slot?.customTime,
+    dosageAmount: schedule.dosage,
+    frequency: schedule.frequency,
+    ...weekdays,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate,
+    status: schedule.status,
+    priority: schedule.priority,
+    instructions: schedule.instructions,
+    recurrenceRules,
+    cycleDaysOn: schedule.pattern?.cycle?.onDays,
+    cycleDaysOff: schedule.pattern?.cycle?.offDays,
+    exceptionDates: schedule.pattern?.exdates,
+    prnMinIntervalMinutes: prnLimit('minIntervalMinutes'),
+    prnMaxDosesPer24h: prnLimit('maxDosesPer24h'),
+    prnMaxAmountPer24hMg: prnLimit('maxAmountPer24hMg'),
+    phases: schedule.phases?.map(phase =>
+      compact<ApiSchedulePhase>({ dosageAmount: phase.dosage, durationDays: phase.durationDays, times: phase.times })
+    ),
+    timeZone: schedule.timeZone,
+    timingConstraints: schedule.timingConstraints,
+  });
+};
+
+// -------------------- Logs --------------------
+
+export const fromApiLog = (input: unknown, path = 'apiLog'): DoseLog => {
+  const raw = expectRecord(input, path);
+  const medication = isRecord(raw.medication) ? raw.medication.id : raw.medication;
+  const schedule = isRecord(raw.schedule) ? raw.schedule.id : raw.schedule;
+
+  return parseDoseLog(
+    {
+      ...raw,
+      medicationId: medication,
+      scheduleId: schedule,
+      dosage: raw.dosageTaken,
+      prn: raw.isPrn,
+      createdAt: raw.createdAt ?? raw.actualTime ?? raw.scheduledTime,
+    },
+    path
+  );
+};
+
+export const toApiLog = (log: Partial<DoseLog>): Partial<ApiMedicationLog> =>
+  compact<Partial<ApiMedicationLog>>({
+    id: toApiId(log.id),
+    medication: toApiId(log.medicationId),
+    schedule: toApiId(log.scheduleId),
+    scheduledTime: log.scheduledTime,
+    actualTime: log.actualTime,
+    status: log.status,
+    dosageTaken: log.dosage,
+    skipReason: log.skipReason,
+    isPrn: log.prn,
+    prnReason: log.prnReason,
+    notes: log.notes,
+    sideEffects: log.sideEffects,
+  });
+
+// -------------------- Prescriptions --------------------
+
+export const fromApiPrescription = (input: unknown, path = 'apiPrescription'): Prescription => {
+  const raw = expectRecord(input, path);
+  return parsePrescription(
+    {
+      ...raw,
+      medicationIds: Array.isArray(raw.medications)
+        ? raw.medications.map(medication => (isRecord(medication) ? medication.id : medication))
+        : undefined,
+    },
+    path
+  );
+};
+
+export const toApiPrescription = (prescription: Partial<Prescription>): Partial<ApiPrescription> =>
+  compact<Partial<ApiPrescription>>({
+    id: toApiId(prescription.id),
+    prescriptionNumber: prescription.prescriptionNumber,
+    // Medications that only exist locally have no server id to link yet
+    medications: prescription.medicationIds
+      ?.map(toApiId)
+      .filter((id): id is number => id !== undefined),
+    prescriberName: prescription.prescriberName,
+    prescriberPracticeNumber: prescription.prescriberPracticeNumber,
+    pharmacyName: prescription.pharmacyName,
+    pharmacyPhone: prescription.pharmacyPhone,
+    patientName: prescription.patientName,
+    icd10Codes: prescription.icd10Codes,
+    issueDate: prescription.issueDate,
+    expiryDate: prescription.expiryDate,
+    repeatsTotal: prescription.repeatsTotal,
+    repeatsRemaining: prescription.repeatsRemaining,
+    lastDispensedAt: prescription.lastDispensedAt,
+    status: prescription.status,
+    notes: prescription.notes,
+  });
+
+// -------------------- Caregiver alerts --------------------
+
+export const toApiCaregiverAlert = (alert: CaregiverAlert): ApiCaregiverAlert =>
+  compact<ApiCaregiverAlert>({
+    medication: toApiId(alert.medicationId),
+    medicationName: alert.medicationName,
+    dosage: alert.dosage,
+    scheduledTime: alert.scheduledTime,
+    caregiverName: alert.caregiver.name,
+    channel: alert.caregiver.channel,
+    destination: alert.caregiver.destination,
+  });
+
+// -------------------- Notification inbox --------------------
+
+/**
+ * Notifications the backend has pushed, with their read state. Types the
+ * app doesn't know yet are shown as general notifications.
+ */
+export const fromApiInboxItem = (input: unknown, path = 'apiInboxItem'): InboxItem => {
+  const raw = expectRecord(input, path);
+  return parseInboxItem(
+    {
+      id: raw.id,
+      type: INBOX_TYPES.find(type => type === raw.type) ?? 'general',
+      title: raw.title,
+      body: raw.body,
+      deliveredAt: raw.deliveredAt,
+      source: 'push',
+      medicationId: raw.medication,
+      patientId: raw.patient,
+      read: raw.read,
+      readAt: raw.readAt,
+    },
+    path
+  );
+};
+
+// -------------------- Linked accounts --------------------
+
+export const fromApiLinkedAccounts = (input: unknown, path = 'apiLinkedAccounts'): LinkedAccounts => {
+  const raw = expectRecord(input, path);
+  const dependants = Array.isArray(raw.dependants) ? raw.dependants : [];
+  return parseLinkedAccounts(
+    {
+      dependants: dependants.map(dependant =>
+        isRecord(dependant)
+          ? {
+            patientId: dependant.patient,
+            name: dependant.patientName,
+            role: dependant.role,
+            relationship: dependant.relationship ?? undefined,
+          }
+          : dependant
+      ),
+      caregivers: raw.caregivers,
+    },
+    path
+  );
+};
+
+// -------------------- Records by entity --------------------
+
+export const fromApiRecord = (entity: SyncEntity, input: unknown, path: string = entity): SyncRecord => {
+  switch (entity) {
+    case 'medications':
+      return fromApiMedication(input, path);
+    case 'schedules':
+      return fromApiSchedule(input, path);
+    case 'reminders':
+      // Reminders are stored server-side in their canonical shape
+      return parseMedicationReminder(input, path);
+    case 'logs':
+      return fromApiLog(input, path);
+    case 'prescriptions':
+      return fromApiPrescription(input, path);
+  }
+};
+
+export const toApiRecord = (entity: SyncEntity, record: Partial<SyncRecord>): object => {
+  switch (entity) {
+    case 'medications':
+      return toApiMedication(record as Partial<Medication>);
+    case 'schedules':
+      return toApiSchedule(record as Partial<MedicationSchedule>);
+    case 'reminders':
+      return record;
+    case 'logs':
+      return toApiLog(record as Partial<DoseLog>);
+    case 'prescriptions':
+      return toApiPrescription(record as Partial<Prescription>);
+  }
+};
+
+// -------------------- Errors --------------------
+
+export type ApiErrorKind = 'offline' | 'unauthorized' | 'not_found' | 'validation' | 'server' | 'invalid_response';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+  /** DRF field errors, e.g. `{ dosageAmount: ['This field is required.'] }` */
+  fieldErrors?: Record<string, string[]>;
+}
+
+/**
+ * Outcome of a mutating ApiService call. `queued` means the server could not
+ * be reached and the change is waiting in the sync engine; the returned data
+ * is the optimistic local copy.
+ */
+export type ApiResult<T> =
+  | { ok: true; data: T; queued: boolean }
+  | { ok: false; error: ApiError };
+
+/**
+ * Thrown by ApiService requests for non-2xx responses.
+ */
+export class ApiRequestError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number;
+  readonly fieldErrors: Record<string, string[]> | undefined;
+
+  constructor(status: number, message: string, fieldErrors?: Record<string, string[]>) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.kind = status === 401 || status === 403
+      ? 'unauthorized'
+      : status === 404
+        ? 'not_found'
+        : status >= 500
+          ? 'server'
+          : 'validation';
+  }
+}
+
+/**
+ * Reads DRF error bodies: `{ detail }` or a map of field -> messages.
+ */
+export const parseApiErrorBody = (body: unknown): { detail?: string; fieldErrors?: Record<string, string[]> } => {
+  if (!isRecord(body)) return {};
+  if (typeof body.detail === 'string') return { detail: body.detail };
+
+  const fieldErrors: Record<string, string[]> = {};
+  Object.entries(body).forEach(([field, messages]) => {
+    if (Array.isArray(messages)) {
+      fieldErrors[field] = messages.map(String);
+    } else if (typeof messages === 'string') {
+      fieldErrors[field] = [messages];
+    }
+  });
+  return Object.keys(fieldErrors).length > 0 ? { fieldErrors } : {};
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiRequestError) {
+    return {
+      kind: error.kind,
+      message: error.message,
+      status: error.status,
+      ...(error.fieldErrors && { fieldErrors: error.fieldErrors }),
+    };
+  }
+  if (error instanceof DomainParseError) {
+    return { kind: 'invalid_response', message: error.message };
+  }
+  // fetch rejects only when the request never completed
+  return { kind: 'offline', message: error instanceof Error ? error.message : String(error) };
+};
+
+/**
+ * Whether the change should be kept and retried by the sync engine rather
+ * than rolled back.
+ */
+export const isRetryableError = (error: ApiError): boolean =>
+  error.kind === 'offline' || error.kind === 'server';
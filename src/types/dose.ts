@@ -0,0 +1,155 @@
+/**
+ * MedGuard SA - Dose ledger model
+ * One persisted event per scheduled dose occurrence, with every state
+ * transition it went through. The state machine itself lives in
+ * utils/doseLedger.ts; persistence and server reconciliation in
+ * services/doseLedgerService.ts.
+ */
+
+import { DoseEscalation, parseDoseEscalation } from './escalation';
+import {
+  compact,
+  expectArray,
+  expectId,
+  expectIsoDate,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalArray,
+  optionalId,
+  optionalIsoDate,
+  optionalOneOf,
+  optionalString,
+} from './parse';
+
+/**
+ * `late` is a taken dose recorded after the on-time window. The server only
+ * knows taken/missed/skipped/partial; lateness is derived from actualTime.
+ */
+export const DOSE_STATES = ['pending', 'taken', 'late', 'missed', 'skipped', 'partial'] as const;
+export type DoseState = typeof DOSE_STATES[number];
+
+export const SKIP_REASONS = [
+  'side_effects',
+  'felt_better',
+  'ran_out',
+  'not_with_me',
+  'doctor_advised',
+  'other',
+] as const;
+export type SkipReason = typeof SKIP_REASONS[number];
+
+export const DOSE_TRANSITION_SOURCES = ['user', 'auto', 'server'] as const;
+export type DoseTransitionSource = typeof DOSE_TRANSITION_SOURCES[number];
+
+export interface DoseTransition {
+  from: DoseState;
+  to: DoseState;
+  at: string; // ISO timestamp of the transition itself
+  source: DoseTransitionSource;
+  reason?: SkipReason;
+}
+
+export interface DoseEvent {
+  id: string; // doseIdFor(scheduleId, scheduledTime)
+  scheduleId: string;
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  scheduledTime: string;
+  status: DoseState;
+  actualTime?: string;
+  /** Amount actually taken, for partial doses */
+  dosageTaken?: string;
+  skipReason?: SkipReason;
+  notes?: string;
+  /** DoseLog this event is mirrored to, once created */
+  logId?: string;
+  transitions: DoseTransition[];
+  /** Missed-dose escalation steps taken while the dose went unrecorded */
+  escalations?: DoseEscalation[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The parts of a scheduled occurrence needed to open a ledger event.
+ * ScheduledDose satisfies this; its id is kept when a snooze moves its time.
+ */
+export interface DoseOccurrence {
+  id?: string;
+  scheduleId: string;
+  medicationId: string;
+  medicationName?: string;
+  dosage: string;
+  scheduledTime: Date | string;
+  /** The schedule's zone, which names the dose when there is no id */
+  timeZone?: string;
+}
+
+/**
+ * Timing rules, in minutes after the scheduled time. A dose taken within
+ * `onTimeMinutes` is on time, later than that it is late. A dose still
+ * pending `missedAfterMinutes` after its time is marked missed automatically;
+ * it can still be recorded as late afterwards.
+ */
+export interface DoseWindows {
+  onTimeMinutes: number;
+  missedAfterMinutes: number;
+}
+
+export const DEFAULT_DOSE_WINDOWS: DoseWindows = {
+  onTimeMinutes: 60,
+  missedAfterMinutes: 240,
+};
+
+export interface AdherenceSummary {
+  /** Resolved doses counted towards adherence */
+  total: number;
+  taken: number;
+  late: number;
+  partial: number;
+  missed: number;
+  skipped: number;
+  /** Skipped on a doctor's advice; not counted against adherence */
+  excused: number;
+  pending: number;
+  /** 0..100, or null when no dose has been resolved yet */
+  adherenceRate: number | null;
+  /** Share of counted doses taken inside the on-time window, 0..100 */
+  onTimeRate: number | null;
+}
+
+const parseTransition = (input: unknown, path: string): DoseTransition => {
+  const raw = expectRecord(input, path);
+  return compact<DoseTransition>({
+    from: expectOneOf(raw.from, DOSE_STATES, `${path}.from`),
+    to: expectOneOf(raw.to, DOSE_STATES, `${path}.to`),
+    at: expectIsoDate(raw.at, `${path}.at`),
+    source: expectOneOf(raw.source, DOSE_TRANSITION_SOURCES, `${path}.source`),
+    reason: optionalOneOf(raw.reason, SKIP_REASONS, `${path}.reason`),
+  });
+};
+
+export const parseDoseEvent = (input: unknown, path = 'doseEvent'): DoseEvent => {
+  const raw = expectRecord(input, path);
+
+  return compact<DoseEvent>({
+    id: expectString(raw.id, `${path}.id`),
+    scheduleId: expectId(raw.scheduleId, `${path}.scheduleId`),
+    medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+    medicationName: optionalString(raw.medicationName, `${path}.medicationName`) ?? '',
+    dosage: optionalString(raw.dosage, `${path}.dosage`) ?? '',
+    scheduledTime: expectIsoDate(raw.scheduledTime, `${path}.scheduledTime`),
+    status: expectOneOf(raw.status, DOSE_STATES, `${path}.status`),
+    actualTime: optionalIsoDate(raw.actualTime, `${path}.actualTime`),
+    dosageTaken: optionalString(raw.dosageTaken, `${path}.dosageTaken`),
+    skipReason: optionalOneOf(raw.skipReason, SKIP_REASONS, `${path}.skipReason`),
+    notes: optionalString(raw.notes, `${path}.notes`),
+    logId: optionalId(raw.logId, `${path}.logId`),
+    transitions: expectArray(raw.transitions ?? [], `${path}.transitions`, parseTransition),
+    escalations: optionalArray(raw.escalations, `${path}.escalations`, parseDoseEscalation),
+    createdAt: expectIsoDate(raw.createdAt, `${path}.createdAt`),
+    updatedAt: expectIsoDate(raw.updatedAt, `${path}.updatedAt`),
+  });
+};
@@ -0,0 +1,133 @@
+/**
+ * MedGuard SA - Missed-dose escalation
+ * What happens, step by step, while a dose goes unrecorded: follow-up
+ * reminders, a critical alert and finally a message to a caregiver. Each
+ * schedule priority has its own chain. The timing rules live in
+ * utils/escalation.ts; services/escalationService.ts runs the chain.
+ */
+
+import {
+  compact,
+  expectArray,
+  expectBoolean,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalOneOf,
+} from './parse';
+// Type-only: schedule.ts imports dose.ts, which records escalations
+import type { SchedulePriority } from './schedule';
+
+/**
+ * `remind` and `critical_alert` are local notifications scheduled with the
+ * dose reminder; `caregiver` goes out through the backend.
+ */
+export const ESCALATION_STEP_TYPES = ['remind', 'critical_alert', 'caregiver'] as const;
+export type EscalationStepType = typeof ESCALATION_STEP_TYPES[number];
+
+export type LocalEscalationType = Exclude<EscalationStepType, 'caregiver'>;
+
+export const CAREGIVER_CHANNELS = ['sms', 'push', 'email'] as const;
+export type CaregiverChannel = typeof CAREGIVER_CHANNELS[number];
+
+export interface EscalationStep {
+  type: EscalationStepType;
+  /** Minutes after the scheduled dose time */
+  afterMinutes: number;
+}
+
+export type EscalationPolicies = Record<SchedulePriority, EscalationStep[]>;
+
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicies = {
+  low: [],
+  normal: [
+    { type: 'remind', afterMinutes: 15 },
+    { type: 'remind', afterMinutes: 30 },
+  ],
+  high: [
+    { type: 'remind', afterMinutes: 15 },
+    { type: 'remind', afterMinutes: 30 },
+    { type: 'critical_alert', afterMinutes: 45 },
+  ],
+  critical: [
+    { type: 'remind', afterMinutes: 15 },
+    { type: 'remind', afterMinutes: 30 },
+    { type: 'critical_alert', afterMinutes: 45 },
+    { type: 'caregiver', afterMinutes: 60 },
+  ],
+};
+
+/**
+ * The person told when a dose is still missed at the end of the chain.
+ * `destination` is a phone number for SMS, an email address for email and
+ * the caregiver's MedGuard username for push.
+ */
+export interface CaregiverContact {
+  name: string;
+  channel: CaregiverChannel;
+  destination: string;
+}
+
+/** A missed dose the backend passes on to the caregiver */
+export interface CaregiverAlert {
+  caregiver: CaregiverContact;
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  scheduledTime: string;
+}
+
+/** One escalation step taken for a dose, as recorded in the dose ledger */
+export interface DoseEscalation {
+  /** Index of the step in the schedule's policy */
+  step: number;
+  type: EscalationStepType;
+  at: string;
+  /** False when the step came due too late to be worth sending */
+  delivered: boolean;
+  channel?: CaregiverChannel;
+}
+
+export const parseEscalationStep = (input: unknown, path = 'escalationStep'): EscalationStep => {
+  const raw = expectRecord(input, path);
+  return {
+    type: expectOneOf(raw.type, ESCALATION_STEP_TYPES, `${path}.type`),
+    afterMinutes: Math.max(0, expectNumber(raw.afterMinutes, `${path}.afterMinutes`)),
+  };
+};
+
+/**
+ * Stored policies over the defaults; steps are kept in firing order.
+ */
+export const parseEscalationPolicies = (input: unknown, path = 'escalationPolicies'): EscalationPolicies => {
+  const raw = expectRecord(input, path);
+  const policies = { ...DEFAULT_ESCALATION_POLICIES };
+  (Object.keys(policies) as SchedulePriority[]).forEach(priority => {
+    if (raw[priority] === undefined) return;
+    policies[priority] = expectArray(raw[priority], `${path}.${priority}`, parseEscalationStep)
+      .sort((a, b) => a.afterMinutes - b.afterMinutes);
+  });
+  return policies;
+};
+
+export const parseCaregiverContact = (input: unknown, path = 'caregiver'): CaregiverContact => {
+  const raw = expectRecord(input, path);
+  return {
+    name: expectString(raw.name, `${path}.name`),
+    channel: expectOneOf(raw.channel, CAREGIVER_CHANNELS, `${path}.channel`),
+    destination: expectString(raw.destination, `${path}.destination`),
+  };
+};
+
+export const parseDoseEscalation = (input: unknown, path = 'escalation'): DoseEscalation => {
+  const raw = expectRecord(input, path);
+  return compact<DoseEscalation>({
+    step: expectNumber(raw.step, `${path}.step`),
+    type: expectOneOf(raw.type, ESCALATION_STEP_TYPES, `${path}.type`),
+    at: expectIsoDate(raw.at, `${path}.at`),
+    delivered: raw.delivered === undefined ? true : expectBoolean(raw.delivered, `${path}.delivered`),
+    channel: optionalOneOf(raw.channel, CAREGIVER_CHANNELS, `${path}.channel`),
+  });
+};
@@ -0,0 +1,103 @@
+/**
+ * MedGuard SA - Script import transactions
+ * What importing a scanned script changed, step by step, so the import can
+ * be rolled back when a step fails and undone afterwards. Import planning
+ * lives in utils/ocrImport.ts; committing and undoing in
+ * services/importService.ts.
+ */
+
+import {
+  compact,
+  expectArray,
+  expectId,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalArray,
+  optionalIsoDate,
+  optionalNumber,
+  optionalString,
+} from './parse';
+
+export const IMPORT_STEP_TYPES = [
+  'medication_created',
+  'schedule_created',
+  'stock_refilled',
+  'prescription_created',
+  'prescription_updated',
+] as const;
+export type ImportStepType = typeof IMPORT_STEP_TYPES[number];
+
+/** Prescription fields an import changes on an existing script */
+export interface PrescriptionSnapshot {
+  medicationIds: string[];
+  repeatsRemaining: number;
+  lastDispensedAt?: string;
+}
+
+export type ImportStep =
+  | { type: 'medication_created'; id: string }
+  | { type: 'schedule_created'; id: string }
+  | { type: 'stock_refilled'; medicationId: string; quantity: number }
+  | { type: 'prescription_created'; id: string }
+  /** `previous` is restored on undo */
+  | { type: 'prescription_updated'; id: string; previous: PrescriptionSnapshot };
+
+export interface ImportTransaction {
+  id: string;
+  prescriptionNumber?: string;
+  /** In the order they were applied; undone in reverse */
+  steps: ImportStep[];
+  committedAt: string;
+  undoneAt?: string;
+}
+
+/**
+ * How undoing an import went: every step put back, some refused (the rest
+ * stay on the transaction to try again), or nothing to undo.
+ */
+export type ImportUndoResult = 'undone' | 'incomplete' | 'unavailable';
+
+const parsePrescriptionSnapshot = (input: unknown, path: string): PrescriptionSnapshot => {
+  const raw = expectRecord(input, path);
+  return compact<PrescriptionSnapshot>({
+    medicationIds: optionalArray(raw.medicationIds, `${path}.medicationIds`, expectId) ?? [],
+    repeatsRemaining: optionalNumber(raw.repeatsRemaining, `${path}.repeatsRemaining`) ?? 0,
+    lastDispensedAt: optionalIsoDate(raw.lastDispensedAt, `${path}.lastDispensedAt`),
+  });
+};
+
+export const parseImportStep = (input: unknown, path = 'importStep'): ImportStep => {
+  const raw = expectRecord(input, path);
+  const type = expectOneOf(raw.type, IMPORT_STEP_TYPES, `${path}.type`);
+
+  switch (type) {
+    case 'stock_refilled':
+      return {
+        type,
+        medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+        quantity: expectNumber(raw.quantity, `${path}.quantity`),
+      };
+    case 'prescription_updated':
+      return {
+        type,
+        id: expectId(raw.id, `${path}.id`),
+        previous: parsePrescriptionSnapshot(raw.previous, `${path}.previous`),
+      };
+    default:
+      return { type, id: expectId(raw.id, `${path}.id`) };
+  }
+};
+
+export const parseImportTransaction = (input: unknown, path = 'importTransaction'): ImportTransaction => {
+  const raw = expectRecord(input, path);
+  return compact<ImportTransaction>({
+    id: expectString(raw.id, `${path}.id`),
+    prescriptionNumber: optionalString(raw.prescriptionNumber, `${path}.prescriptionNumber`),
+    steps: expectArray(raw.steps, `${path}.steps`, parseImportStep),
+    committedAt: expectIsoDate(raw.committedAt, `${path}.committedAt`),
+    undoneAt: optionalIsoDate(raw.undoneAt, `${path}.undoneAt`),
+  });
+};
@@ -0,0 +1,131 @@
+/**
+ * MedGuard SA - Notification inbox
+ * Every local and push notification the app has delivered, with the dose
+ * or medication it is about and what the user did with it. The read state
+ * is shared with the backend so the inbox matches across devices.
+ * services/inboxService.ts keeps the store; hooks/useNotificationList.ts
+ * pages through it.
+ */
+
+import {
+  compact,
+  expectBoolean,
+  expectId,
+  expectIsoDate,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  isRecord,
+  optionalId,
+  optionalIsoDate,
+  optionalNumber,
+  optionalOneOf,
+} from './parse';
+import { CAREGIVER_ALERT_TYPE } from './profile';
+import { ReminderAction, ReminderData, readReminderData } from './reminder';
+
+export const INBOX_TYPES = [
+  'medication_reminder',
+  'critical_alert',
+  'caregiver_alert',
+  'stock_alert',
+  'prescription_alert',
+  'general',
+] as const;
+export type InboxType = typeof INBOX_TYPES[number];
+
+export const INBOX_SOURCES = ['local', 'push'] as const;
+export type InboxSource = typeof INBOX_SOURCES[number];
+
+/** Reminder buttons, or `opened` for a tap on the notification itself */
+export type InboxAction = ReminderAction | 'opened';
+export const INBOX_ACTIONS: readonly InboxAction[] = ['take', 'snooze', 'skip', 'opened'];
+
+/** Items kept on the device, newest first */
+export const INBOX_LIMIT = 200;
+
+export interface InboxItem {
+  /** Notification request identifier */
+  id: string;
+  type: InboxType;
+  title: string;
+  body: string;
+  deliveredAt: string;
+  source: InboxSource;
+  medicationId?: string;
+  /** Dose reminders and their follow-ups */
+  reminder?: ReminderData;
+  /** Dependant a caregiver alert is about */
+  patientId?: number;
+  action?: InboxAction;
+  actedAt?: string;
+  read: boolean;
+  readAt?: string;
+}
+
+export interface InboxFilter {
+  types?: readonly InboxType[];
+  unreadOnly?: boolean;
+}
+
+/** What a delivered notification carries, from expo-notifications or the backend */
+export interface DeliveredNotification {
+  identifier: string;
+  title: string | null;
+  body: string | null;
+  data: unknown;
+  /** Milliseconds since the epoch */
+  date: number;
+}
+
+export const inboxTypeFor = (data: unknown): InboxType => {
+  if (!isRecord(data)) return 'general';
+  if (data.type === CAREGIVER_ALERT_TYPE) return 'caregiver_alert';
+  const type = INBOX_TYPES.find(item => item === data.type);
+  return type ?? 'general';
+};
+
+export const inboxItemFrom = (notification: DeliveredNotification, source: InboxSource): InboxItem => {
+  const { data } = notification;
+  const reminder = readReminderData(data) ?? undefined;
+  // Critical alerts sent by the escalation chain are dose reminders too
+  const type = reminder?.escalation?.type === 'critical_alert' ? 'critical_alert' : inboxTypeFor(data);
+  const medicationId = reminder?.medicationId
+    ?? (isRecord(data) && typeof data.medicationId === 'string' ? data.medicationId : undefined);
+  const patientId = isRecord(data) && typeof data.patientId === 'number' ? data.patientId : undefined;
+
+  return compact<InboxItem>({
+    id: notification.identifier,
+    type,
+    title: notification.title ?? '',
+    body: notification.body ?? '',
+    deliveredAt: new Date(notification.date).toISOString(),
+    source,
+    medicationId,
+    reminder,
+    patientId,
+    action: undefined,
+    actedAt: undefined,
+    read: false,
+    readAt: undefined,
+  });
+};
+
+export const parseInboxItem = (input: unknown, path = 'inboxItem'): InboxItem => {
+  const raw = expectRecord(input, path);
+  return compact<InboxItem>({
+    id: expectId(raw.id, `${path}.id`),
+    type: expectOneOf(raw.type, INBOX_TYPES, `${path}.type`),
+    title: expectString(raw.title, `${path}.title`),
+    body: expectString(raw.body, `${path}.body`),
+    deliveredAt: expectIsoDate(raw.deliveredAt, `${path}.deliveredAt`),
+    source: expectOneOf(raw.source, INBOX_SOURCES, `${path}.source`),
+    medicationId: optionalId(raw.medicationId, `${path}.medicationId`),
+    reminder: readReminderData(raw.reminder) ?? undefined,
+    patientId: optionalNumber(raw.patientId, `${path}.patientId`),
+    action: optionalOneOf(raw.action, INBOX_ACTIONS, `${path}.action`),
+    actedAt: optionalIsoDate(raw.actedAt, `${path}.actedAt`),
+    read: expectBoolean(raw.read, `${path}.read`),
+    readAt: optionalIsoDate(raw.readAt, `${path}.readAt`),
+  });
+};
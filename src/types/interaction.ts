@@ -0,0 +1,127 @@
+/**
+ * MedGuard SA - Drug interaction model
+ * Shape of the bundled interaction dataset and of the results returned by
+ * the interaction engine (services/interactionService.ts)
+ */
+
+import {
+  DomainParseError,
+  compact,
+  expectArray,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalNumber,
+} from './parse';
+
+export const INTERACTION_SEVERITIES = ['minor', 'moderate', 'major', 'contraindicated'] as const;
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+export const EVIDENCE_LEVELS = ['established', 'probable', 'theoretical'] as const;
+export type EvidenceLevel = typeof EVIDENCE_LEVELS[number];
+
+export interface InteractionEvidence {
+  source: string;
+  level: EvidenceLevel;
+}
+
+/**
+ * One dataset entry. `between` holds two drug or class ids from the dataset.
+ */
+export interface InteractionRule {
+  id: string;
+  between: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+  /** Minimum hours between doses when separating them avoids the interaction */
+  spacingHours?: number;
+  evidence: InteractionEvidence;
+}
+
+export interface InteractionDataset {
+  version: string;
+  publishedAt: string;
+  /** Drug id -> lower-case names, generic and brand, that identify it */
+  drugs: Record<string, string[]>;
+  /** Class id -> member drug ids */
+  classes: Record<string, string[]>;
+  interactions: InteractionRule[];
+}
+
+/**
+ * Anything the engine can check: a Medication, a schedule's medication or a
+ * bare name from a form.
+ */
+export interface InteractionSubject {
+  name?: string;
+  genericName?: string;
+  activeIngredients?: string;
+  /** Interactions declared on the product itself, by name */
+  interactions?: string[];
+}
+
+export interface DrugInteraction {
+  ruleId: string;
+  /** Display names of the two medications, in the order they were checked */
+  medications: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+  spacingHours?: number;
+  evidence: InteractionEvidence;
+  /** Id and version of the source that produced the result */
+  source: string;
+}
+
+export const compareSeverity = (a: InteractionSeverity, b: InteractionSeverity): number =>
+  INTERACTION_SEVERITIES.indexOf(a) - INTERACTION_SEVERITIES.indexOf(b);
+
+const parseNameList = (value: unknown, path: string): string[] =>
+  expectArray(value, path, (item, itemPath) => expectString(item, itemPath).toLowerCase());
+
+const parseIdMap = (value: unknown, path: string): Record<string, string[]> => {
+  const raw = expectRecord(value, path);
+  const result: Record<string, string[]> = {};
+  Object.entries(raw).forEach(([key, names]) => {
+    result[key] = parseNameList(names, `${path}.${key}`);
+  });
+  return result;
+};
+
+export const parseInteractionRule = (input: unknown, path = 'interaction'): InteractionRule => {
+  const raw = expectRecord(input, path);
+  const between = expectArray(raw.between, `${path}.between`, expectString);
+  if (between.length !== 2) {
+    throw new DomainParseError(`${path}.between`, 'expected exactly two ids');
+  }
+  const evidence = expectRecord(raw.evidence, `${path}.evidence`);
+
+  return compact<InteractionRule>({
+    id: expectString(raw.id, `${path}.id`),
+    between: between as [string, string],
+    severity: expectOneOf(raw.severity, INTERACTION_SEVERITIES, `${path}.severity`),
+    mechanism: expectString(raw.mechanism, `${path}.mechanism`),
+    recommendation: expectString(raw.recommendation, `${path}.recommendation`),
+    spacingHours: optionalNumber(raw.spacingHours, `${path}.spacingHours`),
+    evidence: {
+      source: expectString(evidence.source, `${path}.evidence.source`),
+      level: expectOneOf(evidence.level, EVIDENCE_LEVELS, `${path}.evidence.level`),
+    },
+  });
+};
+
+/**
+ * Strict: a malformed bundled dataset is a build error, not something to
+ * skip over at runtime.
+ */
+export const parseInteractionDataset = (input: unknown, path = 'interactionDataset'): InteractionDataset => {
+  const raw = expectRecord(input, path);
+  return {
+    version: expectString(raw.version, `${path}.version`),
+    publishedAt: expectString(raw.publishedAt, `${path}.publishedAt`),
+    drugs: parseIdMap(raw.drugs, `${path}.drugs`),
+    classes: parseIdMap(raw.classes, `${path}.classes`),
+    interactions: expectArray(raw.interactions, `${path}.interactions`, parseInteractionRule),
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * MedGuard SA - Medication inventory model
+ * Stock movements behind `Medication.pillCount` and the run-out projection
+ * made from active schedules. Projection rules live in utils/inventory.ts;
+ * persistence and stock alerts in services/inventoryService.ts.
+ */
+
+import {
+  compact,
+  expectId,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalNumber,
+  optionalString,
+} from './parse';
+
+/**
+ * `dose` movements are keyed by the dose they came from so recording the
+ * same dose again (or undoing it) only applies the difference.
+ */
+export const STOCK_MOVEMENT_TYPES = ['dose', 'refill', 'adjustment'] as const;
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+export interface StockMovement {
+  id: string;
+  medicationId: string;
+  type: StockMovementType;
+  /** Signed change in units: negative for doses, positive for refills */
+  quantity: number;
+  /** Dose ledger event or dose log the movement belongs to */
+  sourceId?: string;
+  /**
+   * Units the pharmacy still owes after this refill, for partial
+   * dispensing. The latest refill carries the current balance.
+   */
+  owed?: number;
+  note?: string;
+  at: string;
+}
+
+export const STOCK_ALERT_LEVELS = ['ok', 'low', 'critical', 'out'] as const;
+export type StockAlertLevel = typeof STOCK_ALERT_LEVELS[number];
+
+/** Days of stock left at which a refill reminder goes out */
+export const DEFAULT_REFILL_LEAD_DAYS = 7;
+export const CRITICAL_STOCK_DAYS = 3;
+
+export interface StockProjection {
+  medicationId: string;
+  currentCount: number;
+  /** Average units used per day, from schedules (or recent use for PRN) */
+  dailyUsage: number;
+  /** Whole days the stock lasts; null when it outlasts the horizon or isn't used */
+  daysRemaining: number | null;
+  /** Time of the first dose the stock can't cover (ISO) */
+  runOutDate?: string;
+  /** Scheduled doses whose dosage couldn't be read as a quantity */
+  unknownDoses: number;
+  /** Units still owed by the pharmacy */
+  owed: number;
+  level: StockAlertLevel;
+}
+
+export const parseStockMovement = (input: unknown, path = 'stockMovement'): StockMovement => {
+  const raw = expectRecord(input, path);
+  return compact<StockMovement>({
+    id: expectString(raw.id, `${path}.id`),
+    medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+    type: expectOneOf(raw.type, STOCK_MOVEMENT_TYPES, `${path}.type`),
+    quantity: expectNumber(raw.quantity, `${path}.quantity`),
+    sourceId: optionalString(raw.sourceId, `${path}.sourceId`),
+    owed: optionalNumber(raw.owed, `${path}.owed`),
+    note: optionalString(raw.note, `${path}.note`),
+    at: expectIsoDate(raw.at, `${path}.at`),
+  });
+};
@@ -0,0 +1,197 @@
+/**
+ * MedGuard SA - Canonical medication domain model
+ * Shared by services, contexts and screens. Wire formats are converted at the
+ * edges (see types/api.ts); everything inside the app uses these shapes.
+ */
+
+import {
+  compact,
+  expectId,
+  expectIsoDate,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalArray,
+  optionalId,
+  optionalIsoDate,
+  optionalNumber,
+  optionalOneOf,
+  optionalString,
+} from './parse';
+
+export const MEDICATION_STATUSES = ['active', 'inactive', 'completed', 'discontinued'] as const;
+export type MedicationStatus = typeof MEDICATION_STATUSES[number];
+
+export interface Medication {
+  id: string;
+  name: string;
+  genericName?: string;
+  strength: string;
+  dosage?: string; // e.g. "1 tablet", "5ml"
+  frequency?: string;
+  medicationType: string;
+  prescriptionType: string;
+  pillCount: number;
+  lowStockThreshold: number;
+  status: MedicationStatus;
+  instructions?: string;
+  description?: string;
+  activeIngredients?: string;
+  manufacturer?: string;
+  sideEffects?: string[];
+  contraindications?: string;
+  storageInstructions?: string;
+  interactions?: string[];
+  prescribedBy?: string;
+  pharmacy?: string;
+  medicationImage?: string;
+  prescriptionImage?: string;
+  expirationDate?: string;
+  /** From a scanned pack (see utils/barcode.ts) */
+  nappiCode?: string;
+  batchNumber?: string;
+  startDate?: string;
+  endDate?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MedicationInput = Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface MedicationReminder {
+  id: string;
+  medicationId: string;
+  time: string; // HH:mm format
+  days: string[]; // ['monday', 'tuesday', etc.]
+  enabled: boolean;
+  notificationId?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const DOSE_LOG_STATUSES = ['taken', 'missed', 'skipped', 'partial'] as const;
+export type DoseLogStatus = typeof DOSE_LOG_STATUSES[number];
+
+/**
+ * A recorded dose event. `actualTime` is set for taken/partial doses,
+ * `scheduledTime` when the dose belonged to a schedule, `skipReason` for
+ * skipped doses (see SKIP_REASONS in types/dose.ts). As-needed doses are
+ * flagged `prn`, with an optional `prnReason` (see PRN_REASONS in types/prn.ts).
+ */
+export interface DoseLog {
+  id: string;
+  medicationId: string;
+  scheduleId?: string;
+  scheduledTime?: string;
+  actualTime?: string;
+  status: DoseLogStatus;
+  dosage?: string;
+  skipReason?: string;
+  prn?: boolean;
+  prnReason?: string;
+  notes?: string;
+  sideEffects?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toStringList = (value: unknown, path: string): string[] | undefined => {
+  if (typeof value === 'string') {
+    const items = value.split(/[,\n;]/).map(item => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  }
+  return optionalArray(value, path, expectString);
+};
+
+export const parseMedication = (input: unknown, path = 'medication'): Medication => {
+  const raw = expectRecord(input, path);
+  const now = new Date().toISOString();
+
+  return compact<Medication>({
+    id: expectId(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    genericName: optionalString(raw.genericName, `${path}.genericName`),
+    strength: optionalString(raw.strength, `${path}.strength`) ?? '',
+    dosage: optionalString(raw.dosage, `${path}.dosage`),
+    frequency: optionalString(raw.frequency, `${path}.frequency`),
+    medicationType: optionalString(raw.medicationType, `${path}.medicationType`) ?? 'other',
+    prescriptionType: optionalString(raw.prescriptionType, `${path}.prescriptionType`) ?? 'prescription',
+    pillCount: optionalNumber(raw.pillCount, `${path}.pillCount`) ?? 0,
+    lowStockThreshold: optionalNumber(raw.lowStockThreshold, `${path}.lowStockThreshold`) ?? 0,
+    status: optionalOneOf(raw.status, MEDICATION_STATUSES, `${path}.status`) ?? 'active',
+    instructions: optionalString(raw.instructions, `${path}.instructions`),
+    description: optionalString(raw.description, `${path}.description`),
+    activeIngredients: optionalString(raw.activeIngredients, `${path}.activeIngredients`),
+    manufacturer: optionalString(raw.manufacturer, `${path}.manufacturer`),
+    sideEffects: toStringList(raw.sideEffects, `${path}.sideEffects`),
+    contraindications: optionalString(raw.contraindications, `${path}.contraindications`),
+    storageInstructions: optionalString(raw.storageInstructions, `${path}.storageInstructions`),
+    interactions: toStringList(raw.interactions, `${path}.interactions`),
+    prescribedBy: optionalString(raw.prescribedBy, `${path}.prescribedBy`),
+    pharmacy: optionalString(raw.pharmacy, `${path}.pharmacy`),
+    medicationImage: optionalString(raw.medicationImage, `${path}.medicationImage`),
+    prescriptionImage: optionalString(raw.prescriptionImage, `${path}.prescriptionImage`),
+    expirationDate: optionalIsoDate(raw.expirationDate, `${path}.expirationDate`),
+    nappiCode: optionalString(raw.nappiCode, `${path}.nappiCode`),
+    batchNumber: optionalString(raw.batchNumber, `${path}.batchNumber`),
+    startDate: optionalIsoDate(raw.startDate, `${path}.startDate`),
+    endDate: optionalIsoDate(raw.endDate, `${path}.endDate`),
+    notes: optionalString(raw.notes, `${path}.notes`),
+    createdAt: optionalIsoDate(raw.createdAt, `${path}.createdAt`) ?? now,
+    updatedAt: optionalIsoDate(raw.updatedAt, `${path}.updatedAt`) ?? now,
+  });
+};
+
+export const parseMedicationReminder = (input: unknown, path = 'reminder'): MedicationReminder => {
+  const raw = expectRecord(input, path);
+
+  return compact<MedicationReminder>({
+    id: expectId(raw.id, `${path}.id`),
+    medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+    time: expectString(raw.time, `${path}.time`),
+    days: optionalArray(raw.days, `${path}.days`, expectString) ?? [],
+    enabled: raw.enabled !== false,
+    notificationId: optionalString(raw.notificationId, `${path}.notificationId`),
+    createdAt: expectIsoDate(raw.createdAt, `${path}.createdAt`),
+    updatedAt: optionalIsoDate(raw.updatedAt, `${path}.updatedAt`),
+  });
+};
+
+/**
+ * Parses a dose log. Accepts the legacy local shape (`takenAt`, no status)
+ * written by earlier versions of MedicationContext.
+ */
+export const parseDoseLog = (input: unknown, path = 'doseLog'): DoseLog => {
+  const raw = expectRecord(input, path);
+  const actualTime = optionalIsoDate(raw.actualTime ?? raw.takenAt, `${path}.actualTime`);
+  const createdAt = optionalIsoDate(raw.createdAt, `${path}.createdAt`) ?? actualTime ?? new Date().toISOString();
+
+  return compact<DoseLog>({
+    id: expectId(raw.id, `${path}.id`),
+    medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+    scheduleId: optionalId(raw.scheduleId, `${path}.scheduleId`),
+    scheduledTime: optionalIsoDate(raw.scheduledTime, `${path}.scheduledTime`),
+    actualTime,
+    status: raw.status === undefined ? 'taken' : expectOneOf(raw.status, DOSE_LOG_STATUSES, `${path}.status`),
+    dosage: optionalString(raw.dosage ?? raw.dosageTaken, `${path}.dosage`),
+    skipReason: optionalString(raw.skipReason, `${path}.skipReason`),
+    prn: raw.prn === true || undefined,
+    prnReason: optionalString(raw.prnReason, `${path}.prnReason`),
+    notes: optionalString(raw.notes, `${path}.notes`),
+    sideEffects: optionalString(raw.sideEffects, `${path}.sideEffects`),
+    createdAt,
+    updatedAt: optionalIsoDate(raw.updatedAt, `${path}.updatedAt`) ?? createdAt,
+  });
+};
+
+/**
+ * Convenience for numeric fields captured from text inputs.
+ */
+export const parseCount = (value: string, fallback = 0): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const isLowStock = (medication: Pick<Medication, 'pillCount' | 'lowStockThreshold'>): boolean =>
+  medication.pillCount <= medication.lowStockThreshold;
@@ -0,0 +1,78 @@
+/**
+ * MedGuard SA - Medication photo model
+ * Photos of a medication's pills, box and leaflet, kept encrypted on the
+ * device by services/photoService.ts. Pill photos carry the features used to
+ * answer "what is this pill?" (see utils/pillFeatures.ts).
+ */
+
+import {
+  DomainParseError,
+  compact,
+  expectArray,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalString,
+} from './parse';
+
+export const PHOTO_KINDS = ['pill', 'box', 'leaflet'] as const;
+export type PhotoKind = typeof PHOTO_KINDS[number];
+
+export const PILL_SHAPES = ['round', 'oval', 'oblong'] as const;
+export type PillShape = typeof PILL_SHAPES[number];
+
+export interface PillFeatures {
+  /** Share of the pill's pixels in each of 4x4x4 RGB bins; sums to 1 */
+  colourHistogram: number[];
+  /** Average colour of the pill, #rrggbb */
+  meanColour: string;
+  /** Short axis over long axis, 1 for a round pill */
+  roundness: number;
+  shape: PillShape;
+  /** Letters and digits stamped on the pill, upper case */
+  imprint?: string;
+}
+
+export interface MedicationPhoto {
+  id: string;
+  medicationId: string;
+  kind: PhotoKind;
+  createdAt: string;
+  /** Pill photos only */
+  features?: PillFeatures;
+}
+
+export const HISTOGRAM_BINS = 64;
+
+export const parsePillFeatures = (input: unknown, path = 'pillFeatures'): PillFeatures => {
+  const raw = expectRecord(input, path);
+  const colourHistogram = expectArray(raw.colourHistogram, `${path}.colourHistogram`, expectNumber);
+  if (colourHistogram.length !== HISTOGRAM_BINS) {
+    throw new DomainParseError(`${path}.colourHistogram`, `expected ${HISTOGRAM_BINS} bins`);
+  }
+  const roundness = expectNumber(raw.roundness, `${path}.roundness`);
+  if (roundness < 0 || roundness > 1) {
+    throw new DomainParseError(`${path}.roundness`, 'expected a number from 0 to 1');
+  }
+
+  return compact<PillFeatures>({
+    colourHistogram,
+    meanColour: expectString(raw.meanColour, `${path}.meanColour`),
+    roundness,
+    shape: expectOneOf(raw.shape, PILL_SHAPES, `${path}.shape`),
+    imprint: optionalString(raw.imprint, `${path}.imprint`),
+  });
+};
+
+export const parseMedicationPhoto = (input: unknown, path = 'medicationPhoto'): MedicationPhoto => {
+  const raw = expectRecord(input, path);
+  return compact<MedicationPhoto>({
+    id: expectString(raw.id, `${path}.id`),
+    medicationId: expectString(raw.medicationId, `${path}.medicationId`),
+    kind: expectOneOf(raw.kind, PHOTO_KINDS, `${path}.kind`),
+    createdAt: expectIsoDate(raw.createdAt, `${path}.createdAt`),
+    features: raw.features === undefined ? undefined : parsePillFeatures(raw.features, `${path}.features`),
+  });
+};
@@ -0,0 +1,203 @@
+/**
+ * MedGuard SA - Runtime parsing helpers
+ * Small, dependency-free validators used by the domain parsers to turn
+ * untrusted JSON (API responses, AsyncStorage caches) into typed objects
+ */
+
+/**
+ * Raised when a value does not match the expected domain shape.
+ * `path` points at the offending field, e.g. `schedule.pattern.times[1]`.
+ */
+export class DomainParseError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'DomainParseError';
+    this.path = path;
+  }
+}
+
+export type UnknownRecord = Record<string, unknown>;
+
+type OptionalKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? K : never;
+}[keyof T];
+
+/**
+ * `T` with its optional fields widened to accept `undefined`, which is what
+ * the optional* helpers return.
+ */
+export type WithUndefined<T> = Omit<T, OptionalKeys<T>> & {
+  [K in OptionalKeys<T>]?: T[K] | undefined;
+};
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const expectRecord = (value: unknown, path: string): UnknownRecord => {
+  if (!isRecord(value)) {
+    throw new DomainParseError(path, 'expected an object');
+  }
+  return value;
+};
+
+export const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') {
+    throw new DomainParseError(path, 'expected a string');
+  }
+  return value;
+};
+
+export const optionalString = (value: unknown, path: string): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : expectString(value, path);
+
+export const expectNumber = (value: unknown, path: string): number => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new DomainParseError(path, 'expected a finite number');
+  }
+  return parsed;
+};
+
+export const optionalNumber = (value: unknown, path: string): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : expectNumber(value, path);
+
+export const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new DomainParseError(path, 'expected a boolean');
+  }
+  return value;
+};
+
+/**
+ * Identifiers are canonically strings. The Django API uses integer primary
+ * keys while locally created records use prefixed string ids.
+ */
+export const expectId = (value: unknown, path: string): string => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  throw new DomainParseError(path, 'expected a string or numeric id');
+};
+
+export const optionalId = (value: unknown, path: string): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : expectId(value, path);
+
+export const expectOneOf = <T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string
+): T => {
+  if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+    throw new DomainParseError(path, `expected one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const optionalOneOf = <T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string
+): T | undefined =>
+  value === undefined || value === null ? undefined : expectOneOf(value, allowed, path);
+
+export const expectArray = <T>(
+  value: unknown,
+  path: string,
+  parseItem: (item: unknown, itemPath: string) => T
+): T[] => {
+  if (!Array.isArray(value)) {
+    throw new DomainParseError(path, 'expected an array');
+  }
+  return value.map((item, index) => parseItem(item, `${path}[${index}]`));
+};
+
+export const optionalArray = <T>(
+  value: unknown,
+  path: string,
+  parseItem: (item: unknown, itemPath: string) => T
+): T[] | undefined =>
+  value === undefined || value === null ? undefined : expectArray(value, path, parseItem);
+
+/**
+ * ISO-8601 date or date-time string (validated with Date.parse).
+ */
+export const expectIsoDate = (value: unknown, path: string): string => {
+  const str = value instanceof Date ? value.toISOString() : expectString(value, path);
+  if (Number.isNaN(Date.parse(str))) {
+    throw new DomainParseError(path, 'expected an ISO date string');
+  }
+  return str;
+};
+
+export const optionalIsoDate = (value: unknown, path: string): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : expectIsoDate(value, path);
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * 24h wall-clock time, normalised to zero-padded HH:mm.
+ */
+export const expectTimeOfDay = (value: unknown, path: string): string => {
+  const str = expectString(value, path).trim();
+  if (!TIME_PATTERN.test(str)) {
+    throw new DomainParseError(path, 'expected a HH:mm time');
+  }
+  return str.padStart(5, '0');
+};
+
+/**
+ * IANA time zone name known to the platform (e.g. Africa/Johannesburg).
+ */
+export const expectTimeZone = (value: unknown, path: string): string => {
+  const str = expectString(value, path).trim();
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: str });
+  } catch {
+    throw new DomainParseError(path, `unknown time zone ${str}`);
+  }
+  return str;
+};
+
+export const optionalTimeZone = (value: unknown, path: string): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : expectTimeZone(value, path);
+
+/**
+ * Copy only the keys whose value is defined. Keeps domain objects compatible
+ * with `exactOptionalPropertyTypes` when built from partially filled input.
+ */
+export const compact = <T extends object>(value: WithUndefined<T>): T => {
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (entry !== undefined) {
+      result[key] = entry;
+    }
+  });
+  return result as T;
+};
+
+/**
+ * Parse a list leniently: invalid entries are dropped (and reported) instead
+ * of failing the whole collection. Used when reading caches that may contain
+ * records written by older app versions.
+ */
+export const parseListLenient = <T>(
+  value: unknown,
+  path: string,
+  parseItem: (item: unknown, itemPath: string) => T
+): T[] => {
+  if (!Array.isArray(value)) return [];
+  const result: T[] = [];
+  value.forEach((item, index) => {
+    try {
+      result.push(parseItem(item, `${path}[${index}]`));
+    } catch (error) {
+      console.warn(`Dropping invalid ${path} entry:`, (error as Error).message);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,97 @@
+/**
+ * MedGuard SA - Prescription model
+ * The script behind one or more medications: who issued it, where it is
+ * dispensed and how many repeats are left. Expiry and repeat warnings live
+ * in utils/prescription.ts.
+ */
+
+import {
+  compact,
+  expectId,
+  expectIsoDate,
+  expectRecord,
+  expectString,
+  optionalArray,
+  optionalIsoDate,
+  optionalNumber,
+  optionalOneOf,
+  optionalString,
+} from './parse';
+
+/** SA chronic scripts are valid for six months */
+export const PRESCRIPTION_VALIDITY_MONTHS = 6;
+/** Monthly repeats after the original dispensing over those six months */
+export const DEFAULT_PRESCRIPTION_REPEATS = 5;
+/** Days before expiry at which the script is flagged for renewal */
+export const PRESCRIPTION_EXPIRY_WARNING_DAYS = 30;
+
+export const PRESCRIPTION_STATUSES = ['active', 'cancelled'] as const;
+export type PrescriptionStatus = typeof PRESCRIPTION_STATUSES[number];
+
+export interface Prescription {
+  id: string;
+  prescriptionNumber?: string;
+  medicationIds: string[];
+  prescriberName?: string;
+  /** HPCSA practice number */
+  prescriberPracticeNumber?: string;
+  pharmacyName?: string;
+  pharmacyPhone?: string;
+  patientName?: string;
+  icd10Codes?: string[];
+  issueDate: string; // ISO date
+  expiryDate: string; // ISO date
+  /** Repeats written on the script, not counting the original dispensing */
+  repeatsTotal: number;
+  repeatsRemaining: number;
+  lastDispensedAt?: string;
+  status: PrescriptionStatus;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PrescriptionInput = Omit<Prescription, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const PRESCRIPTION_WARNING_TYPES = ['expired', 'expiring', 'no_repeats', 'last_repeat'] as const;
+export type PrescriptionWarningType = typeof PRESCRIPTION_WARNING_TYPES[number];
+
+export interface PrescriptionWarning {
+  type: PrescriptionWarningType;
+  prescriptionId: string;
+  /** Days until expiry, for `expiring` */
+  days?: number;
+}
+
+const toCount = (value: number | undefined): number | undefined =>
+  value === undefined ? undefined : Math.max(0, Math.floor(value));
+
+export const parsePrescription = (input: unknown, path = 'prescription'): Prescription => {
+  const raw = expectRecord(input, path);
+  const now = new Date().toISOString();
+  const repeatsTotal = toCount(optionalNumber(raw.repeatsTotal, `${path}.repeatsTotal`)) ?? 0;
+
+  return compact<Prescription>({
+    id: expectId(raw.id, `${path}.id`),
+    prescriptionNumber: optionalString(raw.prescriptionNumber, `${path}.prescriptionNumber`),
+    medicationIds: optionalArray(raw.medicationIds, `${path}.medicationIds`, expectId) ?? [],
+    prescriberName: optionalString(raw.prescriberName, `${path}.prescriberName`),
+    prescriberPracticeNumber: optionalString(raw.prescriberPracticeNumber, `${path}.prescriberPracticeNumber`),
+    pharmacyName: optionalString(raw.pharmacyName, `${path}.pharmacyName`),
+    pharmacyPhone: optionalString(raw.pharmacyPhone, `${path}.pharmacyPhone`),
+    patientName: optionalString(raw.patientName, `${path}.patientName`),
+    icd10Codes: optionalArray(raw.icd10Codes, `${path}.icd10Codes`, expectString),
+    issueDate: expectIsoDate(raw.issueDate, `${path}.issueDate`),
+    expiryDate: expectIsoDate(raw.expiryDate, `${path}.expiryDate`),
+    repeatsTotal,
+    repeatsRemaining: Math.min(
+      repeatsTotal,
+      toCount(optionalNumber(raw.repeatsRemaining, `${path}.repeatsRemaining`)) ?? repeatsTotal
+    ),
+    lastDispensedAt: optionalIsoDate(raw.lastDispensedAt, `${path}.lastDispensedAt`),
+    status: optionalOneOf(raw.status, PRESCRIPTION_STATUSES, `${path}.status`) ?? 'active',
+    notes: optionalString(raw.notes, `${path}.notes`),
+    createdAt: optionalIsoDate(raw.createdAt, `${path}.createdAt`) ?? now,
+    updatedAt: optionalIsoDate(raw.updatedAt, `${path}.updatedAt`) ?? now,
+  });
+};
@@ -0,0 +1,93 @@
+/**
+ * MedGuard SA - As-needed (PRN) dosing model
+ * Safety limits for as-needed schedules and the result of checking a dose
+ * against them. The checks live in utils/prn.ts; PRN doses are stored as
+ * DoseLogs flagged `prn`.
+ */
+
+import { DomainParseError, compact, expectRecord, optionalNumber } from './parse';
+
+export const PRN_REASONS = [
+  'pain',
+  'fever',
+  'headache',
+  'nausea',
+  'anxiety',
+  'sleep',
+  'breathlessness',
+  'allergy',
+  'other',
+] as const;
+export type PrnReason = typeof PRN_REASONS[number];
+
+/**
+ * Limits are all optional; a PRN schedule without any is only logged.
+ * Amounts are in mg so "4 g paracetamol a day" is `maxAmountPer24hMg: 4000`.
+ */
+export interface PrnLimits {
+  minIntervalMinutes?: number;
+  maxDosesPer24h?: number;
+  maxAmountPer24hMg?: number;
+}
+
+export const PRN_WARNING_TYPES = [
+  'too_soon',
+  'max_doses',
+  'max_amount',
+  'near_max_doses',
+  'near_max_amount',
+  'amount_unknown',
+] as const;
+export type PrnWarningType = typeof PRN_WARNING_TYPES[number];
+
+/** Share of a 24h limit at which a dose is flagged as getting close */
+export const PRN_NEAR_LIMIT_RATIO = 0.75;
+
+export interface PrnWarning {
+  type: PrnWarningType;
+  /** Usage in the rolling 24h window including the new dose */
+  value?: number;
+  limit?: number;
+  /** When the dose would be within limits again (ISO) */
+  availableAt?: string;
+}
+
+export interface PrnCheck {
+  /** False when taking the dose now would break a limit */
+  withinLimits: boolean;
+  warnings: PrnWarning[];
+  lastDoseAt?: string;
+  dosesIn24h: number;
+  /** Null when a dose in the window has no parseable amount */
+  amountIn24hMg: number | null;
+  /** Earliest time the dose is within every limit (ISO) */
+  nextAllowedAt?: string;
+}
+
+const positive = (value: unknown, path: string, integer = false): number | undefined => {
+  const number = optionalNumber(value, path);
+  if (number !== undefined && (!(number > 0) || (integer && !Number.isInteger(number)))) {
+    throw new DomainParseError(path, integer ? 'expected a positive whole number' : 'expected a positive number');
+  }
+  return number;
+};
+
+export const parsePrnLimits = (input: unknown, path = 'prnLimits'): PrnLimits => {
+  const raw = expectRecord(input, path);
+  return compact<PrnLimits>({
+    minIntervalMinutes: positive(raw.minIntervalMinutes, `${path}.minIntervalMinutes`),
+    maxDosesPer24h: positive(raw.maxDosesPer24h, `${path}.maxDosesPer24h`, true),
+    maxAmountPer24hMg: positive(raw.maxAmountPer24hMg, `${path}.maxAmountPer24hMg`),
+  });
+};
+
+export const hasPrnLimits = (limits: PrnLimits | undefined): limits is PrnLimits =>
+  Boolean(limits && (limits.minIntervalMinutes || limits.maxDosesPer24h || limits.maxAmountPer24hMg));
+
+/** As-needed use over a period, kept apart from scheduled adherence */
+export interface PrnUsageSummary {
+  total: number;
+  byReason: Array<{ reason: string; count: number }>;
+  byMedication: Array<{ medicationId: string; count: number }>;
+  lastTakenAt?: string;
+}
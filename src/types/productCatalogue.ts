@@ -0,0 +1,103 @@
+/**
+ * MedGuard SA - Product catalogue model
+ * SA-registered medicine packs looked up by pill-pack barcode. A bundled,
+ * versioned catalogue (data/productCatalogue.json) works offline; newer
+ * versions are downloaded by services/productCatalogueService.ts.
+ */
+
+import {
+  DomainParseError,
+  compact,
+  expectArray,
+  expectNumber,
+  expectRecord,
+  expectString,
+  optionalArray,
+  optionalString,
+} from './parse';
+
+/** Schedules of the Medicines and Related Substances Act, S0 (OTC) to S8 */
+export const SCHEDULE_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8] as const;
+export type ScheduleLevel = typeof SCHEDULE_LEVELS[number];
+
+/**
+ * One pack, keyed by its NAPPI code. `gtins` are the 14-digit GS1 numbers
+ * printed on the pack (EAN-13 barcodes with a leading zero).
+ */
+export interface CatalogueProduct {
+  nappiCode: string;
+  gtins: string[];
+  name: string;
+  genericName?: string;
+  strength: string;
+  /** A medication type key (see medication_types in the translations) */
+  dosageForm: string;
+  scheduleLevel: ScheduleLevel;
+  /** Units in the pack */
+  packSize: number;
+  manufacturer?: string;
+}
+
+export interface ProductCatalogue {
+  version: string;
+  publishedAt: string;
+  products: CatalogueProduct[];
+}
+
+const NAPPI_CODE = /^\d{6,9}$/;
+const GTIN = /^\d{14}$/;
+
+const parseScheduleLevel = (value: unknown, path: string): ScheduleLevel => {
+  const level = expectNumber(value, path);
+  if (!(SCHEDULE_LEVELS as readonly number[]).includes(level)) {
+    throw new DomainParseError(path, 'expected a schedule level from 0 to 8');
+  }
+  return level as ScheduleLevel;
+};
+
+const parseGtin = (value: unknown, path: string): string => {
+  const gtin = expectString(value, path).padStart(14, '0');
+  if (!GTIN.test(gtin)) throw new DomainParseError(path, 'expected a GTIN of up to 14 digits');
+  return gtin;
+};
+
+export const parseCatalogueProduct = (input: unknown, path = 'catalogueProduct'): CatalogueProduct => {
+  const raw = expectRecord(input, path);
+  const nappiCode = expectString(raw.nappiCode, `${path}.nappiCode`);
+  if (!NAPPI_CODE.test(nappiCode)) {
+    throw new DomainParseError(`${path}.nappiCode`, 'expected a NAPPI code of 6 to 9 digits');
+  }
+  const packSize = expectNumber(raw.packSize, `${path}.packSize`);
+  if (!Number.isInteger(packSize) || packSize < 1) {
+    throw new DomainParseError(`${path}.packSize`, 'expected a whole number, at least 1');
+  }
+
+  return compact<CatalogueProduct>({
+    nappiCode,
+    gtins: optionalArray(raw.gtins, `${path}.gtins`, parseGtin) ?? [],
+    name: expectString(raw.name, `${path}.name`),
+    genericName: optionalString(raw.genericName, `${path}.genericName`),
+    strength: expectString(raw.strength, `${path}.strength`),
+    dosageForm: optionalString(raw.dosageForm, `${path}.dosageForm`) ?? 'other',
+    scheduleLevel: parseScheduleLevel(raw.scheduleLevel, `${path}.scheduleLevel`),
+    packSize,
+    manufacturer: optionalString(raw.manufacturer, `${path}.manufacturer`),
+  });
+};
+
+export const parseProductCatalogue = (input: unknown, path = 'productCatalogue'): ProductCatalogue => {
+  const raw = expectRecord(input, path);
+  return {
+    version: expectString(raw.version, `${path}.version`),
+    publishedAt: expectString(raw.publishedAt, `${path}.publishedAt`),
+    products: expectArray(raw.products, `${path}.products`, parseCatalogueProduct),
+  };
+};
+
+/**
+ * The prescription type a schedule level is stored as (see
+ * prescription_types in the translations): S0 is over the counter, S8 has
+ * no type of its own.
+ */
+export const prescriptionTypeFor = (level: ScheduleLevel): string =>
+  level === 0 ? 'otc' : level === 8 ? 'prescription' : `schedule_${level}`;
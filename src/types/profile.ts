@@ -0,0 +1,93 @@
+/**
+ * MedGuard SA - Linked profiles
+ * Caregiver and family links between accounts. A caregiver can switch to a
+ * dependant's profile to see, and with the `manage` role edit, their
+ * medication and schedules; the dependant's linked caregivers are told when
+ * a dose is missed. services/profileService.ts keeps the links and the
+ * active profile.
+ */
+
+import {
+  compact,
+  expectArray,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  isRecord,
+  optionalString,
+} from './parse';
+
+/** `view` can see the dependant's medication; `manage` can also change it */
+export const PROFILE_ROLES = ['view', 'manage'] as const;
+export type ProfileRole = typeof PROFILE_ROLES[number];
+
+/** Push data type of a dependant's missed-dose alert */
+export const CAREGIVER_ALERT_TYPE = 'caregiver_alert';
+
+/** Someone whose medication the signed-in user looks after */
+export interface LinkedProfile {
+  /** Server id of the dependant's patient record */
+  patientId: number;
+  name: string;
+  role: ProfileRole;
+  /** e.g. "Mother", as entered when the link was made */
+  relationship?: string;
+}
+
+/** Someone who looks after the signed-in user's medication */
+export interface LinkedCaregiver {
+  username: string;
+  name: string;
+  role: ProfileRole;
+}
+
+export interface LinkedAccounts {
+  dependants: LinkedProfile[];
+  caregivers: LinkedCaregiver[];
+}
+
+export const NO_LINKED_ACCOUNTS: LinkedAccounts = { dependants: [], caregivers: [] };
+
+/**
+ * Whether the profile's medication can be changed. Null is the signed-in
+ * user's own profile.
+ */
+export const canManageProfile = (profile: LinkedProfile | null): boolean =>
+  !profile || profile.role === 'manage';
+
+export const parseLinkedProfile = (input: unknown, path = 'linkedProfile'): LinkedProfile => {
+  const raw = expectRecord(input, path);
+  return compact<LinkedProfile>({
+    patientId: expectNumber(raw.patientId, `${path}.patientId`),
+    name: expectString(raw.name, `${path}.name`),
+    role: expectOneOf(raw.role, PROFILE_ROLES, `${path}.role`),
+    relationship: optionalString(raw.relationship, `${path}.relationship`),
+  });
+};
+
+export const parseLinkedCaregiver = (input: unknown, path = 'linkedCaregiver'): LinkedCaregiver => {
+  const raw = expectRecord(input, path);
+  return {
+    username: expectString(raw.username, `${path}.username`),
+    name: expectString(raw.name, `${path}.name`),
+    role: expectOneOf(raw.role, PROFILE_ROLES, `${path}.role`),
+  };
+};
+
+export const parseLinkedAccounts = (input: unknown, path = 'linkedAccounts'): LinkedAccounts => {
+  const raw = expectRecord(input, path);
+  return {
+    dependants: expectArray(raw.dependants ?? [], `${path}.dependants`, parseLinkedProfile),
+    caregivers: expectArray(raw.caregivers ?? [], `${path}.caregivers`, parseLinkedCaregiver),
+  };
+};
+
+/**
+ * The dependant a pushed missed-dose alert is about, or null when the
+ * notification is something else.
+ */
+export const readCaregiverAlertPatient = (data: unknown): number | null => {
+  if (!isRecord(data) || data.type !== CAREGIVER_ALERT_TYPE) return null;
+  return typeof data.patientId === 'number' ? data.patientId : null;
+};
@@ -0,0 +1,227 @@
+/**
+ * MedGuard SA - Recurrence rule model
+ * RFC 5545 RRULEs as stored on `rrule` schedule patterns. A rule is kept as
+ * text (optionally with its own DTSTART line) and parsed here; expansion
+ * into dose times lives in utils/recurrence.ts.
+ */
+
+import { DomainParseError } from './parse';
+
+export const RRULE_FREQUENCIES = ['MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RRuleFrequency = typeof RRULE_FREQUENCIES[number];
+
+/** Indexed like Date.getDay(): SU = 0 */
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type RRuleWeekday = typeof RRULE_WEEKDAYS[number];
+
+export interface RRuleDay {
+  weekday: number; // 0 = Sunday
+  /** 1 = first, -1 = last in the month (or year); absent means every one */
+  ordinal?: number;
+}
+
+/**
+ * Wall-clock date-time. The UTC fields of `value` hold the local time; it
+ * is turned into an instant in the rule's time zone during expansion.
+ */
+export interface LocalDateTime {
+  value: Date;
+}
+
+export interface RRuleUntil {
+  value: Date;
+  /** UNTIL given in UTC ("Z"); otherwise it is local to the rule */
+  utc: boolean;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: RRuleUntil;
+  byDay?: RRuleDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1..12
+  byHour?: number[];
+  byMinute?: number[];
+  bySetPos?: number[];
+  weekStart: number; // 0 = Sunday
+}
+
+/**
+ * One parsed rule string. Without a DTSTART the schedule's start date and
+ * first dose time are used; without a TZID the rule follows the device's
+ * time zone.
+ */
+export interface RecurrenceRule {
+  rule: RRule;
+  start?: LocalDateTime;
+  timeZone?: string;
+}
+
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/;
+
+const parseDateTime = (value: string, path: string): { value: Date; utc: boolean } => {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new DomainParseError(path, 'expected an iCalendar date or date-time (e.g. 20260301T080000)');
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  return {
+    value: new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))),
+    utc: utc === 'Z',
+  };
+};
+
+const parseIntegerList = (value: string, path: string, min: number, max: number, allowNegative = false): number[] =>
+  value.split(',').map(item => {
+    const number = Number(item);
+    const magnitude = Math.abs(number);
+    if (!Number.isInteger(number) || magnitude < min || magnitude > max || (number < 0 && !allowNegative)) {
+      throw new DomainParseError(path, `invalid value ${item}`);
+    }
+    return number;
+  });
+
+const parseWeekday = (value: string, path: string): number => {
+  const index = (RRULE_WEEKDAYS as readonly string[]).indexOf(value);
+  if (index < 0) {
+    throw new DomainParseError(path, `invalid weekday ${value}`);
+  }
+  return index;
+};
+
+const parseByDay = (value: string, path: string): RRuleDay[] =>
+  value.split(',').map(item => {
+    const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(item);
+    if (!match) {
+      throw new DomainParseError(path, `invalid weekday ${item}`);
+    }
+    const [, ordinal, weekday = ''] = match;
+    const day: RRuleDay = { weekday: parseWeekday(weekday, path) };
+    if (ordinal) {
+      const number = Number(ordinal);
+      if (number === 0 || Math.abs(number) > 53) {
+        throw new DomainParseError(path, `invalid weekday ordinal ${ordinal}`);
+      }
+      day.ordinal = number;
+    }
+    return day;
+  });
+
+/**
+ * Parse the value of an RRULE property, e.g. "FREQ=MONTHLY;BYDAY=1MO".
+ */
+export const parseRRule = (input: string, path = 'rrule'): RRule => {
+  const parts = new Map<string, string>();
+  input.trim().split(';').filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new DomainParseError(path, `invalid rule part ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  });
+
+  const freq = parts.get('FREQ');
+  if (!freq || !(RRULE_FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new DomainParseError(`${path}.FREQ`, `expected one of ${RRULE_FREQUENCIES.join(', ')}`);
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new DomainParseError(path, 'COUNT and UNTIL cannot both be set');
+  }
+
+  const rule: RRule = {
+    freq: freq as RRuleFrequency,
+    interval: 1,
+    weekStart: 1,
+  };
+
+  parts.forEach((value, key) => {
+    const partPath = `${path}.${key}`;
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(value, partPath, 1, 10000)[0] ?? 1;
+        break;
+      case 'COUNT':
+        rule.count = parseIntegerList(value, partPath, 1, 100000)[0] ?? 1;
+        break;
+      case 'UNTIL':
+        rule.until = parseDateTime(value, partPath);
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(value, partPath);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(value, partPath, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(value, partPath, 1, 12);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegerList(value, partPath, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegerList(value, partPath, 0, 59);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(value, partPath, 1, 366, true);
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekday(value, partPath);
+        break;
+      default:
+        throw new DomainParseError(partPath, 'unsupported rule part');
+    }
+  });
+
+  return rule;
+};
+
+/**
+ * Parse a stored rule string: a bare RRULE value, an "RRULE:" line, or a
+ * DTSTART line (optionally with TZID) followed by an RRULE line.
+ */
+export const parseRecurrenceRule = (input: string, path = 'rrule'): RecurrenceRule => {
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  let rule: RRule | undefined;
+  let start: LocalDateTime | undefined;
+  let timeZone: string | undefined;
+
+  lines.forEach((line, index) => {
+    const linePath = `${path}[${index}]`;
+    const separator = line.indexOf(':');
+    const name = separator >= 0 ? line.slice(0, separator).toUpperCase() : 'RRULE';
+    const value = separator >= 0 ? line.slice(separator + 1) : line;
+
+    if (name === 'RRULE' || /^FREQ=/i.test(line)) {
+      rule = parseRRule(name === 'RRULE' ? value : line, linePath);
+    } else if (name.startsWith('DTSTART')) {
+      const tzid = /;TZID=([^;:]+)/i.exec(line.slice(0, separator))?.[1];
+      const parsed = parseDateTime(value, linePath);
+      start = { value: parsed.value };
+      if (parsed.utc) {
+        timeZone = 'UTC';
+      } else if (tzid) {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+        } catch {
+          throw new DomainParseError(linePath, `unknown time zone ${tzid}`);
+        }
+        timeZone = tzid;
+      }
+    } else {
+      throw new DomainParseError(linePath, `unsupported property ${name}`);
+    }
+  });
+
+  if (!rule) {
+    throw new DomainParseError(path, 'missing RRULE');
+  }
+  return {
+    rule,
+    ...(start && { start }),
+    ...(timeZone && { timeZone }),
+  };
+};
@@ -0,0 +1,134 @@
+/**
+ * MedGuard SA - Dose reminder payload
+ * What a dose reminder notification carries, and the lock-screen actions
+ * offered on it. Scheduling lives in services/notificationService.ts;
+ * handling the actions in services/reminderActionService.ts.
+ */
+
+import { LocalEscalationType } from './escalation';
+import { isRecord } from './parse';
+
+/** iOS keeps at most this many pending local notifications per app */
+export const PENDING_NOTIFICATION_LIMIT = 64;
+/**
+ * Dose reminders kept scheduled ahead of time. The remaining slots are left
+ * for snoozes made between replenishments.
+ */
+export const REMINDER_WINDOW_SIZE = 56;
+/** How far ahead the window looks for doses */
+export const REMINDER_HORIZON_DAYS = 14;
+
+/**
+ * Reminders that have been snoozed `maxSnoozes` times use the final
+ * category, which has no Snooze button.
+ */
+export const REMINDER_CATEGORY = 'medication_reminder';
+export const FINAL_REMINDER_CATEGORY = 'medication_reminder_final';
+
+export const REMINDER_ACTIONS = {
+  take: 'take_dose',
+  snooze: 'snooze_dose',
+  skip: 'skip_dose',
+} as const;
+export type ReminderAction = keyof typeof REMINDER_ACTIONS;
+
+/**
+ * Android notification channels dose reminders can go out on. A channel's
+ * sound is fixed when it is created; `quiet-reminders` has none.
+ */
+export const REMINDER_CHANNELS = ['medication-reminders', 'critical-alerts', 'quiet-reminders'] as const;
+export type ReminderChannel = typeof REMINDER_CHANNELS[number];
+
+/** Sounds bundled with the app, the system sound, or none */
+export const REMINDER_SOUNDS = ['medication-reminder.wav', 'urgent-alert.wav', 'default', 'none'] as const;
+export type ReminderSound = typeof REMINDER_SOUNDS[number];
+
+/**
+ * `scheduledTime` is when the reminder fires; `doseTime` is the scheduled
+ * dose it is for. Follow-ups from the dose's escalation chain carry the
+ * step they stand for, and repeats of a reminder that hasn't been answered
+ * their count. Channel and sound come from the medication's reminder
+ * profile; `timeZone` is the schedule's, which its dose ids are made in.
+ */
+export interface ReminderData {
+  type: 'medication_reminder';
+  medicationId: string;
+  medicationName: string;
+  scheduleId: string;
+  dosage: string;
+  doseTime: string;
+  scheduledTime: string;
+  snoozeCount: number;
+  priority: string;
+  escalation?: { step: number; type: LocalEscalationType };
+  repeat?: number;
+  channel?: ReminderChannel;
+  sound?: ReminderSound;
+  timeZone?: string;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  soundEnabled: boolean;
+  vibrationEnabled: boolean;
+  reminderMinutesBefore: number;
+  snoozeMinutes: number;
+  maxSnoozes: number;
+  missedDoseReminders: boolean;
+  lowStockReminders: boolean;
+  refillReminders: boolean;
+  customSoundUri?: string;
+  quietHoursStart?: string; // "22:00"
+  quietHoursEnd?: string; // "08:00"
+  weekendReminders: boolean;
+}
+
+export const reminderActionFor = (identifier: string): ReminderAction | null => {
+  const match = (Object.keys(REMINDER_ACTIONS) as ReminderAction[]).find(
+    action => REMINDER_ACTIONS[action] === identifier
+  );
+  return match ?? null;
+};
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+/**
+ * The reminder payload of a notification, or null when it isn't a dose
+ * reminder. Reminders scheduled by older versions only carry the reminder
+ * time, which is then taken as the dose time.
+ */
+export const readReminderData = (data: unknown): ReminderData | null => {
+  if (!isRecord(data) || data.type !== 'medication_reminder') return null;
+  const { medicationId, scheduleId, doseTime, scheduledTime } = data;
+  if (typeof medicationId !== 'string' || typeof scheduleId !== 'string') return null;
+
+  const time = typeof doseTime === 'string' ? doseTime : scheduledTime;
+  if (typeof time !== 'string' || Number.isNaN(Date.parse(time))) return null;
+
+  const { escalation } = data;
+  const escalationType = isRecord(escalation) ? escalation.type : undefined;
+  const step: ReminderData['escalation'] = isRecord(escalation) && typeof escalation.step === 'number'
+    && (escalationType === 'remind' || escalationType === 'critical_alert')
+    ? { step: escalation.step, type: escalationType }
+    : undefined;
+
+  const { repeat, channel, sound, timeZone } = data;
+
+  return {
+    type: 'medication_reminder',
+    medicationId,
+    medicationName: typeof data.medicationName === 'string' ? data.medicationName : '',
+    scheduleId,
+    dosage: typeof data.dosage === 'string' ? data.dosage : '',
+    doseTime: time,
+    scheduledTime: typeof scheduledTime === 'string' ? scheduledTime : time,
+    snoozeCount: typeof data.snoozeCount === 'number' ? data.snoozeCount : 0,
+    priority: typeof data.priority === 'string' ? data.priority : 'normal',
+    ...(step && { escalation: step }),
+    ...(typeof repeat === 'number' && { repeat }),
+    ...(isOneOf(channel, REMINDER_CHANNELS) && { channel }),
+    ...(isOneOf(sound, REMINDER_SOUNDS) && { sound }),
+    ...(typeof timeZone === 'string' && { timeZone }),
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * MedGuard SA - Reminder profiles
+ * How a medication's dose reminders behave: the Android channel and sound
+ * they use, whether they repeat until answered, and whether quiet hours and
+ * the weekend setting apply to them. Each schedule priority has a profile,
+ * which a medication can replace with its own. The rules live in
+ * utils/reminderPlanner.ts.
+ */
+
+import { expectBoolean, expectNumber, expectOneOf, expectRecord } from './parse';
+import { REMINDER_CHANNELS, REMINDER_SOUNDS, ReminderChannel, ReminderSound } from './reminder';
+import { SCHEDULE_PRIORITIES, SchedulePriority } from './schedule';
+
+/**
+ * What happens to a reminder that falls in quiet hours: left out, sent
+ * without sound on the quiet channel, or sent as usual.
+ */
+export const QUIET_HOURS_RULES = ['skip', 'silent', 'deliver'] as const;
+export type QuietHoursRule = typeof QUIET_HOURS_RULES[number];
+
+export interface ReminderProfile {
+  channel: ReminderChannel;
+  sound: ReminderSound;
+  /** Keep reminding until Take, Snooze or Skip is pressed */
+  repeatUntilAcknowledged: boolean;
+  repeatEveryMinutes: number;
+  /** Repeats per dose, so one dose can't fill the reminder window */
+  maxRepeats: number;
+  quietHours: QuietHoursRule;
+  /** Whether turning weekend reminders off applies */
+  followWeekendSetting: boolean;
+}
+
+export interface ReminderProfiles {
+  priorities: Record<SchedulePriority, ReminderProfile>;
+  /** Profiles of medications with their own, by medication id */
+  medications: Record<string, ReminderProfile>;
+}
+
+const STANDARD_PROFILE: ReminderProfile = {
+  channel: 'medication-reminders',
+  sound: 'medication-reminder.wav',
+  repeatUntilAcknowledged: false,
+  repeatEveryMinutes: 5,
+  maxRepeats: 3,
+  quietHours: 'skip',
+  followWeekendSetting: true,
+};
+
+export const DEFAULT_REMINDER_PROFILES: ReminderProfiles = {
+  priorities: {
+    low: STANDARD_PROFILE,
+    normal: STANDARD_PROFILE,
+    high: { ...STANDARD_PROFILE, quietHours: 'silent' },
+    critical: {
+      ...STANDARD_PROFILE,
+      channel: 'critical-alerts',
+      sound: 'urgent-alert.wav',
+      quietHours: 'deliver',
+      followWeekendSetting: false,
+    },
+  },
+  medications: {},
+};
+
+/**
+ * The profile a schedule's reminders follow. Critical doses are never left
+ * out: quiet hours at most silence them and the weekend setting doesn't
+ * apply.
+ */
+export const resolveReminderProfile = (
+  profiles: ReminderProfiles,
+  medicationId: string,
+  priority: SchedulePriority
+): ReminderProfile => {
+  const profile = profiles.medications[medicationId] ?? profiles.priorities[priority];
+  if (priority !== 'critical') return profile;
+  return {
+    ...profile,
+    quietHours: profile.quietHours === 'skip' ? 'silent' : profile.quietHours,
+    followWeekendSetting: false,
+  };
+};
+
+export const parseReminderProfile = (input: unknown, path = 'reminderProfile'): ReminderProfile => {
+  const raw = expectRecord(input, path);
+  return {
+    channel: expectOneOf(raw.channel, REMINDER_CHANNELS, `${path}.channel`),
+    sound: expectOneOf(raw.sound, REMINDER_SOUNDS, `${path}.sound`),
+    repeatUntilAcknowledged: expectBoolean(raw.repeatUntilAcknowledged, `${path}.repeatUntilAcknowledged`),
+    repeatEveryMinutes: Math.max(1, expectNumber(raw.repeatEveryMinutes, `${path}.repeatEveryMinutes`)),
+    maxRepeats: Math.max(0, Math.round(expectNumber(raw.maxRepeats, `${path}.maxRepeats`))),
+    quietHours: expectOneOf(raw.quietHours, QUIET_HOURS_RULES, `${path}.quietHours`),
+    followWeekendSetting: expectBoolean(raw.followWeekendSetting, `${path}.followWeekendSetting`),
+  };
+};
+
+/**
+ * Stored profiles over the defaults.
+ */
+export const parseReminderProfiles = (input: unknown, path = 'reminderProfiles'): ReminderProfiles => {
+  const raw = expectRecord(input, path);
+  const stored = raw.priorities === undefined ? {} : expectRecord(raw.priorities, `${path}.priorities`);
+  const priorities = { ...DEFAULT_REMINDER_PROFILES.priorities };
+  SCHEDULE_PRIORITIES.forEach(priority => {
+    if (stored[priority] === undefined) return;
+    priorities[priority] = parseReminderProfile(stored[priority], `${path}.priorities.${priority}`);
+  });
+
+  const medications = raw.medications === undefined ? {} : expectRecord(raw.medications, `${path}.medications`);
+  return {
+    priorities,
+    medications: Object.fromEntries(
+      Object.entries(medications).map(([medicationId, profile]) => [
+        medicationId,
+        parseReminderProfile(profile, `${path}.medications.${medicationId}`),
+      ])
+    ),
+  };
+};
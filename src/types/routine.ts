@@ -0,0 +1,139 @@
+/**
+ * MedGuard SA - Daily routine
+ * When the user wakes, eats and goes to bed, on usual days, at weekends and
+ * on the shifts of a shift-work rotation. The named timing slots and the
+ * default times of multi-dose frequencies are read from the routine, so
+ * "morning" means the user's breakfast wherever a time is resolved. Which
+ * routine applies on a given day is worked out in utils/routine.ts.
+ */
+
+import type { ScheduleFrequency, ScheduleTiming } from './schedule';
+import {
+  DomainParseError,
+  compact,
+  expectArray,
+  expectBoolean,
+  expectIsoDate,
+  expectOneOf,
+  expectRecord,
+  expectTimeOfDay,
+} from './parse';
+
+export const ROUTINE_EVENTS = ['wake', 'breakfast', 'lunch', 'dinner', 'bed'] as const;
+export type RoutineEvent = typeof ROUTINE_EVENTS[number];
+
+/** HH:mm time of each event of a day */
+export type DailyRoutine = Record<RoutineEvent, string>;
+
+export const SHIFT_KINDS = ['off', 'day', 'night'] as const;
+export type ShiftKind = typeof SHIFT_KINDS[number];
+
+/**
+ * A repeating rotation of shifts (e.g. two days, two nights, four off).
+ * Off days follow the usual or weekend routine.
+ */
+export interface ShiftWork {
+  /** First day of the rotation, yyyy-MM-dd */
+  startDate: string;
+  cycle: ShiftKind[];
+  day: DailyRoutine;
+  night: DailyRoutine;
+}
+
+export interface RoutineProfile {
+  usual: DailyRoutine;
+  /** Saturdays and Sundays; the usual routine when absent */
+  weekend?: DailyRoutine;
+  shiftWork?: ShiftWork;
+  /** Whether the user has been through setting it up */
+  configured: boolean;
+}
+
+/** South African typical day */
+export const DEFAULT_ROUTINE: DailyRoutine = {
+  wake: '07:00',
+  breakfast: '08:00',
+  lunch: '13:00',
+  dinner: '20:00',
+  bed: '22:00',
+};
+
+export const DEFAULT_SHIFT_ROUTINES: Record<Exclude<ShiftKind, 'off'>, DailyRoutine> = {
+  day: { wake: '05:00', breakfast: '05:30', lunch: '12:00', dinner: '19:00', bed: '21:30' },
+  night: { wake: '14:00', breakfast: '15:00', lunch: '21:00', dinner: '02:00', bed: '08:00' },
+};
+
+export const DEFAULT_ROUTINE_PROFILE: RoutineProfile = {
+  usual: DEFAULT_ROUTINE,
+  configured: false,
+};
+
+/** Routine event each named timing slot follows */
+export const TIMING_EVENTS: Record<Exclude<ScheduleTiming, 'custom'>, RoutineEvent> = {
+  morning: 'breakfast',
+  noon: 'lunch',
+  night: 'dinner',
+};
+
+/** Routine events multi-dose frequencies are spread over */
+export const FREQUENCY_EVENTS: Partial<Record<ScheduleFrequency, RoutineEvent[]>> = {
+  twice_daily: ['breakfast', 'dinner'],
+  three_times_daily: ['breakfast', 'lunch', 'dinner'],
+};
+
+/**
+ * Time of a named timing slot in a routine; custom falls back to morning.
+ */
+export const timingTime = (routine: DailyRoutine, timing: ScheduleTiming): string =>
+  routine[TIMING_EVENTS[timing === 'custom' ? 'morning' : timing]];
+
+/**
+ * Dose times for a timing slot and frequency in a routine, in day order.
+ * A custom time stands on its own.
+ */
+export const routineTimes = (
+  routine: DailyRoutine,
+  timing: ScheduleTiming,
+  frequency: ScheduleFrequency,
+  customTime?: string
+): string[] => {
+  if (timing === 'custom' && customTime) return [customTime];
+  const events = FREQUENCY_EVENTS[frequency];
+  if (events) return events.map(event => routine[event]).sort();
+  return [timingTime(routine, timing)];
+};
+
+export const parseDailyRoutine = (input: unknown, path = 'routine'): DailyRoutine => {
+  const raw = expectRecord(input, path);
+  return {
+    wake: expectTimeOfDay(raw.wake, `${path}.wake`),
+    breakfast: expectTimeOfDay(raw.breakfast, `${path}.breakfast`),
+    lunch: expectTimeOfDay(raw.lunch, `${path}.lunch`),
+    dinner: expectTimeOfDay(raw.dinner, `${path}.dinner`),
+    bed: expectTimeOfDay(raw.bed, `${path}.bed`),
+  };
+};
+
+const parseShiftWork = (input: unknown, path: string): ShiftWork => {
+  const raw = expectRecord(input, path);
+  const cycle = expectArray(raw.cycle, `${path}.cycle`, (value, itemPath) => expectOneOf(value, SHIFT_KINDS, itemPath));
+  if (!cycle.some(kind => kind !== 'off')) {
+    throw new DomainParseError(`${path}.cycle`, 'expected at least one shift');
+  }
+  return {
+    startDate: expectIsoDate(raw.startDate, `${path}.startDate`).slice(0, 10),
+    cycle,
+    day: parseDailyRoutine(raw.day, `${path}.day`),
+    night: parseDailyRoutine(raw.night, `${path}.night`),
+  };
+};
+
+export const parseRoutineProfile = (input: unknown, path = 'routineProfile'): RoutineProfile => {
+  const raw = expectRecord(input, path);
+  return compact<RoutineProfile>({
+    usual: parseDailyRoutine(raw.usual, `${path}.usual`),
+    weekend: raw.weekend === undefined ? undefined : parseDailyRoutine(raw.weekend, `${path}.weekend`),
+    shiftWork: raw.shiftWork === undefined ? undefined : parseShiftWork(raw.shiftWork, `${path}.shiftWork`),
+    configured: expectBoolean(raw.configured, `${path}.configured`),
+  });
+};
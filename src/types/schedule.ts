@@ -1,36 +1,361 @@
 /**
- * MedGuard SA - Schedule-related TypeScript interfaces
- * Shared types for schedule components and screens
+ * MedGuard SA - Canonical schedule domain model
+ * One schedule shape shared by AddScheduleScreen, the scheduler hook,
+ * notificationService and SmartMedicationScheduler
  */
 
-export interface MedicationSchedule {
-  id: number;
-  medication: any;
-  patient: number;
-  timing: 'morning' | 'noon' | 'night' | 'custom';
-  customTime?: string;
-  dosageAmount: string;
-  frequency: string;
-  monday: boolean;
-  tuesday: boolean;
-  wednesday: boolean;
-  thursday: boolean;
-  friday: boolean;
-  saturday: boolean;
-  sunday: boolean;
-  startDate: string;
+import { DOSE_STATES, DoseState } from './dose';
+import { PrnLimits, hasPrnLimits, parsePrnLimits } from './prn';
+import { parseRecurrenceRule } from './recurrence';
+import { DEFAULT_ROUTINE, DailyRoutine, RoutineProfile, TIMING_EVENTS, routineTimes, timingTime } from './routine';
+import {
+  DomainParseError,
+  compact,
+  expectArray,
+  expectBoolean,
+  expectId,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  expectTimeOfDay,
+  optionalArray,
+  optionalId,
+  optionalIsoDate,
+  optionalNumber,
+  optionalOneOf,
+  optionalString,
+  optionalTimeZone,
+} from './parse';
+import { TimingConstraint, parseTimingConstraint } from './timingConstraint';
+import { ScheduleTravel } from './travel';
+
+export const SCHEDULE_STATUSES = ['active', 'inactive', 'paused', 'completed'] as const;
+export type ScheduleStatus = typeof SCHEDULE_STATUSES[number];
+
+export const SCHEDULE_PRIORITIES = ['low', 'normal', 'high', 'critical'] as const;
+export type SchedulePriority = typeof SCHEDULE_PRIORITIES[number];
+
+export const SCHEDULE_TIMINGS = ['morning', 'noon', 'night', 'custom'] as const;
+export type ScheduleTiming = typeof SCHEDULE_TIMINGS[number];
+
+export const SCHEDULE_FREQUENCIES = ['daily', 'twice_daily', 'three_times_daily', 'weekly', 'as_needed'] as const;
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number];
+
+export const FOOD_REQUIREMENTS = ['with_food', 'without_food', 'empty_stomach', 'any'] as const;
+export type FoodRequirement = typeof FOOD_REQUIREMENTS[number];
+
+export const PATTERN_TYPES = ['daily', 'weekly', 'monthly', 'interval', 'rrule', 'as_needed'] as const;
+export type SchedulePatternType = typeof PATTERN_TYPES[number];
+
+/**
+ * Days on / days off, counted from the schedule's start date
+ * (e.g. 21 on, 7 off for contraceptive or chemotherapy cycles).
+ */
+export interface ScheduleCycle {
+  onDays: number;
+  offDays: number;
+}
+
+export interface SchedulePattern {
+  type: SchedulePatternType;
+  interval?: number; // For interval type, in days
+  daysOfWeek?: boolean[]; // [Sun, Mon, Tue, Wed, Thu, Fri, Sat]
+  daysOfMonth?: number[]; // [1, 15] for 1st and 15th
+  times: string[]; // ["08:00", "12:00", "20:00"]
+  /**
+   * RFC 5545 rules for `rrule` patterns, each optionally with its own
+   * DTSTART (e.g. one rule per tapering step). See types/recurrence.ts.
+   */
+  rrules?: string[];
+  cycle?: ScheduleCycle;
+  /** Excluded days (yyyy-MM-dd) or single doses (ISO date-time) */
+  exdates?: string[];
+  duration?: number; // Duration in days
   endDate?: string;
-  status: 'active' | 'inactive' | 'paused' | 'completed';
+}
+
+/**
+ * One step of a tapering or titration plan. Phases run back to back from the
+ * schedule's start date, each replacing the schedule's dosage and times; the
+ * last phase may leave out `durationDays` to continue until the schedule ends.
+ */
+export interface SchedulePhase {
+  dosage: string;
+  durationDays?: number;
+  times: string[]; // Empty keeps the pattern's times
+}
+
+export interface MedicationSchedule {
+  id: string;
+  medicationId: string;
+  medicationName: string;
+  patientId?: string;
+  dosage: string;
+  frequency: ScheduleFrequency;
+  timing: ScheduleTiming;
+  pattern: SchedulePattern;
+  /** Ordered dose phases; empty or absent for a fixed dosage */
+  phases?: SchedulePhase[];
+  /** Safety limits for as-needed schedules */
+  prnLimits?: PrnLimits;
+  startDate: string; // ISO date
+  endDate?: string; // ISO date
+  status: ScheduleStatus;
+  priority: SchedulePriority;
   instructions?: string;
+  foodRequirement?: FoodRequirement;
+  /** Meal and spacing rules for the daily timetable; see types/timingConstraint.ts */
+  timingConstraints?: TimingConstraint[];
+  specialInstructions?: string[];
+  /**
+   * IANA zone the times are read in; dose ids and history use it. Absent on
+   * schedules saved before it existed, which follow the home zone.
+   */
+  timeZone?: string;
+  /** Set on the device while travelling on local time; never stored */
+  travel?: ScheduleTravel;
+  /**
+   * Set on the device for schedules on a named timing slot, whose times
+   * follow the routine day by day; never stored
+   */
+  routine?: RoutineProfile;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
+export type MedicationScheduleInput = Omit<MedicationSchedule, 'id' | 'travel' | 'routine' | 'createdAt' | 'updatedAt'>;
+
+// Scheduled doses carry their dose ledger state
+export const SCHEDULED_DOSE_STATUSES = DOSE_STATES;
+export type ScheduledDoseStatus = DoseState;
+
+/**
+ * A single occurrence expanded from a schedule pattern.
+ */
 export interface ScheduledDose {
   id: string;
-  scheduleId: number;
-  medicationId: number;
+  scheduleId: string;
+  medicationId: string;
   medicationName: string;
-  dosageAmount: string;
+  dosage: string;
   scheduledTime: Date;
-  status: 'upcoming' | 'taken' | 'missed' | 'overdue';
+  actualTime?: Date;
+  status: ScheduledDoseStatus;
   instructions?: string;
+  notes?: string;
+  snoozeCount: number;
+  remindersSent: number;
+  isOverdue: boolean;
+  priority: SchedulePriority;
 }
+
+export const WEEKDAY_KEYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+export type WeekdayKey = typeof WEEKDAY_KEYS[number];
+
+export const ALL_DAYS: boolean[] = [true, true, true, true, true, true, true];
+
+/**
+ * Map legacy/display frequency strings (e.g. "Twice daily", "bid") to the
+ * canonical frequency keys.
+ */
+export const normalizeFrequency = (value: unknown): ScheduleFrequency => {
+  if (typeof value !== 'string') return 'daily';
+  const f = value.toLowerCase().trim().replace(/[\s-]+/g, '_');
+  if ((SCHEDULE_FREQUENCIES as readonly string[]).includes(f)) return f as ScheduleFrequency;
+  if (f.includes('twice') || f === 'bid' || f === 'bd' || f.includes('2x') || f.includes('twee')) return 'twice_daily';
+  if (f.includes('three') || f.includes('thrice') || f === 'tid' || f === 'tds' || f.includes('3x') || f.includes('drie')) {
+    return 'three_times_daily';
+  }
+  if (f.includes('week')) return 'weekly';
+  if (f.includes('need') || f === 'prn' || f.includes('nodig')) return 'as_needed';
+  return 'daily';
+};
+
+/**
+ * Best-matching named timing slot for a wall-clock time in a routine.
+ */
+export const timingForTime = (
+  time: string | undefined,
+  routine: DailyRoutine = DEFAULT_ROUTINE
+): { timing: ScheduleTiming; customTime?: string } => {
+  if (!time) return { timing: 'morning' };
+  const match = (Object.keys(TIMING_EVENTS) as Array<Exclude<ScheduleTiming, 'custom'>>).find(
+    key => timingTime(routine, key) === time
+  );
+  return match ? { timing: match } : { timing: 'custom', customTime: time };
+};
+
+export const isDailyPattern = (daysOfWeek: boolean[] | undefined): boolean =>
+  !daysOfWeek || daysOfWeek.every(Boolean);
+
+/**
+ * Pattern for the simple slot/frequency/weekday form used by the schedule
+ * screens and the legacy API shape, with the slot's times in `routine`.
+ */
+export const buildSchedulePattern = (
+  timing: ScheduleTiming,
+  frequency: ScheduleFrequency,
+  daysOfWeek: boolean[] = ALL_DAYS,
+  customTime?: string,
+  routine: DailyRoutine = DEFAULT_ROUTINE
+): SchedulePattern => ({
+  type: frequency === 'as_needed' ? 'as_needed' : isDailyPattern(daysOfWeek) ? 'daily' : 'weekly',
+  daysOfWeek,
+  times: routineTimes(routine, timing, frequency, customTime),
+});
+
+/**
+ * Recurrence presets offered by the schedule screens on top of the simple
+ * weekday form. Anything else can be stored as raw `rrules`.
+ */
+export const RECURRENCE_PRESETS = ['standard', 'every_8_hours', 'alternate_days', 'cycle_21_7', 'first_monday'] as const;
+export type RecurrencePreset = typeof RECURRENCE_PRESETS[number];
+
+/**
+ * Apply a recurrence preset to a pattern from buildSchedulePattern. Rules
+ * without DTSTART start on the schedule's start date at its first time.
+ */
+export const applyRecurrencePreset = (pattern: SchedulePattern, preset: RecurrencePreset): SchedulePattern => {
+  const times = [...pattern.times].sort();
+  switch (preset) {
+    case 'standard':
+      return pattern;
+    case 'every_8_hours':
+      return { type: 'rrule', rrules: ['FREQ=HOURLY;INTERVAL=8'], times: times.slice(0, 1) };
+    case 'alternate_days':
+      return { type: 'rrule', rrules: ['FREQ=DAILY;INTERVAL=2'], times };
+    case 'cycle_21_7':
+      return { type: 'daily', daysOfWeek: ALL_DAYS, times, cycle: { onDays: 21, offDays: 7 } };
+    case 'first_monday':
+      return { type: 'rrule', rrules: ['FREQ=MONTHLY;BYDAY=1MO'], times };
+  }
+};
+
+const parseDaysOfWeek = (value: unknown, path: string): boolean[] | undefined => {
+  const days = optionalArray(value, path, expectBoolean);
+  if (days && days.length !== 7) {
+    throw new DomainParseError(path, 'expected 7 weekday flags (Sun..Sat)');
+  }
+  return days;
+};
+
+const parseRRuleString = (value: unknown, path: string): string => {
+  const rule = expectString(value, path);
+  parseRecurrenceRule(rule, path);
+  return rule;
+};
+
+const parseCycle = (value: unknown, path: string): ScheduleCycle | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const raw = expectRecord(value, path);
+  const onDays = expectNumber(raw.onDays, `${path}.onDays`);
+  const offDays = expectNumber(raw.offDays, `${path}.offDays`);
+  if (!Number.isInteger(onDays) || !Number.isInteger(offDays) || onDays < 1 || offDays < 0) {
+    throw new DomainParseError(path, 'expected whole onDays (at least 1) and offDays');
+  }
+  return { onDays, offDays };
+};
+
+export const parseSchedulePattern = (input: unknown, path = 'pattern'): SchedulePattern => {
+  const raw = expectRecord(input, path);
+  const type = expectOneOf(raw.type, PATTERN_TYPES, `${path}.type`);
+  const interval = optionalNumber(raw.interval, `${path}.interval`);
+  if (type === 'interval' && (!interval || interval < 1)) {
+    throw new DomainParseError(`${path}.interval`, 'interval patterns need an interval of at least 1');
+  }
+  const rrules = optionalArray(raw.rrules, `${path}.rrules`, parseRRuleString);
+  if (type === 'rrule' && (!rrules || rrules.length === 0)) {
+    throw new DomainParseError(`${path}.rrules`, 'rrule patterns need at least one rule');
+  }
+
+  return compact<SchedulePattern>({
+    type,
+    interval,
+    daysOfWeek: parseDaysOfWeek(raw.daysOfWeek, `${path}.daysOfWeek`),
+    daysOfMonth: optionalArray(raw.daysOfMonth, `${path}.daysOfMonth`, expectNumber),
+    times: expectArray(raw.times ?? [], `${path}.times`, expectTimeOfDay),
+    rrules,
+    cycle: parseCycle(raw.cycle, `${path}.cycle`),
+    exdates: optionalArray(raw.exdates, `${path}.exdates`, expectIsoDate),
+    duration: optionalNumber(raw.duration, `${path}.duration`),
+    endDate: optionalIsoDate(raw.endDate, `${path}.endDate`),
+  });
+};
+
+const parsePhase = (input: unknown, path: string): SchedulePhase => {
+  const raw = expectRecord(input, path);
+  const dosage = expectString(raw.dosage, `${path}.dosage`).trim();
+  if (!dosage) {
+    throw new DomainParseError(`${path}.dosage`, 'expected a dosage');
+  }
+  const durationDays = optionalNumber(raw.durationDays, `${path}.durationDays`);
+  if (durationDays !== undefined && (!Number.isInteger(durationDays) || durationDays < 1)) {
+    throw new DomainParseError(`${path}.durationDays`, 'expected a whole number of days, at least 1');
+  }
+  return compact<SchedulePhase>({
+    dosage,
+    durationDays,
+    times: expectArray(raw.times ?? [], `${path}.times`, expectTimeOfDay),
+  });
+};
+
+/**
+ * Ordered phases; only the last one may be open-ended.
+ */
+export const parseSchedulePhases = (value: unknown, path = 'phases'): SchedulePhase[] | undefined => {
+  const phases = optionalArray(value, path, parsePhase);
+  const openIndex = phases?.findIndex(phase => phase.durationDays === undefined) ?? -1;
+  if (phases && openIndex >= 0 && openIndex < phases.length - 1) {
+    throw new DomainParseError(`${path}[${openIndex}].durationDays`, 'only the last phase can be open-ended');
+  }
+  return phases;
+};
+
+const parseOptionalPrnLimits = (value: unknown, path: string): PrnLimits | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const limits = parsePrnLimits(value, path);
+  return hasPrnLimits(limits) ? limits : undefined;
+};
+
+export const isAsNeededSchedule = (schedule: Pick<MedicationSchedule, 'frequency' | 'pattern'>): boolean =>
+  schedule.frequency === 'as_needed' || schedule.pattern.type === 'as_needed';
+
+export const parseMedicationSchedule = (input: unknown, path = 'schedule'): MedicationSchedule => {
+  const raw = expectRecord(input, path);
+  const frequency = normalizeFrequency(raw.frequency);
+  const timing = optionalOneOf(raw.timing, SCHEDULE_TIMINGS, `${path}.timing`) ?? 'morning';
+
+  return compact<MedicationSchedule>({
+    id: expectId(raw.id, `${path}.id`),
+    medicationId: expectId(raw.medicationId, `${path}.medicationId`),
+    medicationName: optionalString(raw.medicationName, `${path}.medicationName`) ?? '',
+    patientId: optionalId(raw.patientId, `${path}.patientId`),
+    dosage: expectString(raw.dosage, `${path}.dosage`),
+    frequency,
+    timing,
+    pattern: parseSchedulePattern(raw.pattern, `${path}.pattern`),
+    phases: parseSchedulePhases(raw.phases, `${path}.phases`),
+    prnLimits: parseOptionalPrnLimits(raw.prnLimits, `${path}.prnLimits`),
+    startDate: expectIsoDate(raw.startDate, `${path}.startDate`),
+    endDate: optionalIsoDate(raw.endDate, `${path}.endDate`),
+    status: optionalOneOf(raw.status, SCHEDULE_STATUSES, `${path}.status`) ?? 'active',
+    priority: optionalOneOf(raw.priority, SCHEDULE_PRIORITIES, `${path}.priority`) ?? 'normal',
+    instructions: optionalString(raw.instructions, `${path}.instructions`),
+    foodRequirement: optionalOneOf(raw.foodRequirement, FOOD_REQUIREMENTS, `${path}.foodRequirement`),
+    timingConstraints: optionalArray(raw.timingConstraints, `${path}.timingConstraints`, parseTimingConstraint),
+    specialInstructions: optionalArray(raw.specialInstructions, `${path}.specialInstructions`, expectString),
+    timeZone: optionalTimeZone(raw.timeZone, `${path}.timeZone`),
+    createdAt: optionalIsoDate(raw.createdAt, `${path}.createdAt`),
+    updatedAt: optionalIsoDate(raw.updatedAt, `${path}.updatedAt`),
+  });
+};
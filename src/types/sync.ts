@@ -0,0 +1,69 @@
+/**
+ * MedGuard SA - Sync engine types
+ * Pending local mutations and the persisted journal written after each
+ * sync pass
+ */
+
+import { DoseLog, Medication, MedicationReminder } from './medication';
+import { Prescription } from './prescription';
+import { MedicationSchedule } from './schedule';
+
+export const SYNC_ENTITIES = ['medications', 'schedules', 'reminders', 'logs', 'prescriptions'] as const;
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+export type SyncRecord = Medication | MedicationSchedule | MedicationReminder | DoseLog | Prescription;
+
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+/**
+ * A local mutation waiting to be pushed. Multiple edits to the same record
+ * collapse into one change; `payload` holds the canonical record (or the
+ * changed fields for updates).
+ */
+export interface PendingChange {
+  id: string;
+  entity: SyncEntity;
+  operation: ChangeOperation;
+  recordId: string;
+  payload?: Partial<SyncRecord>;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SyncCursors = Partial<Record<SyncEntity, string>>;
+
+export type SyncCounts = Record<SyncEntity, number>;
+
+export type SyncResolution = 'local' | 'server' | 'merged';
+
+export interface SyncMergeRecord {
+  entity: SyncEntity;
+  recordId: string;
+  resolution: SyncResolution;
+}
+
+export type SyncStatus = 'success' | 'partial' | 'failed';
+
+export interface SyncJournalEntry {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  status: SyncStatus;
+  sent: SyncCounts;
+  received: SyncCounts;
+  deleted: SyncCounts;
+  /** Changes the server refused; moved out of the queue (see getRejectedChanges) */
+  rejected: SyncCounts;
+  conflicts: SyncMergeRecord[];
+  pendingAfter: number;
+  errors: string[];
+}
+
+export const emptySyncCounts = (): SyncCounts => ({
+  medications: 0,
+  schedules: 0,
+  reminders: 0,
+  logs: 0,
+  prescriptions: 0,
+});
@@ -0,0 +1,83 @@
+/**
+ * MedGuard SA - Dose timing constraints
+ * Rules a schedule's dose times have to keep on top of its food requirement,
+ * e.g. "empty stomach 30 min before breakfast" for levothyroxine or "not
+ * within 2h of antacids". The daily timetable solver (utils/dailyPlan.ts)
+ * combines them with meal times and interaction spacing.
+ */
+
+import {
+  DomainParseError,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalNumber,
+  optionalOneOf,
+} from './parse';
+
+export const MEALS = ['breakfast', 'lunch', 'dinner'] as const;
+export type Meal = typeof MEALS[number];
+
+export const MEAL_RELATIONS = ['before_meal', 'with_meal', 'after_meal', 'empty_stomach'] as const;
+export type MealRelation = typeof MEAL_RELATIONS[number];
+
+/**
+ * When a dose is taken relative to meals. Without `meal` any meal will do
+ * (every meal for `empty_stomach`). `minutes` is how long before the meal for
+ * `before_meal` and `empty_stomach`, how long after it for `after_meal` and
+ * how close to it for `with_meal`.
+ */
+export interface MealConstraint {
+  type: 'meal';
+  relation: MealRelation;
+  meal?: Meal;
+  minutes?: number;
+}
+
+/**
+ * Keep doses at least `hours` away from doses of another medication, named
+ * as on its label or by an interaction dataset drug or class id
+ * (e.g. `antacid`, `polyvalent_cation`).
+ */
+export interface ApartConstraint {
+  type: 'apart';
+  from: string;
+  hours: number;
+}
+
+export type TimingConstraint = MealConstraint | ApartConstraint;
+
+const nonNegative = (value: unknown, path: string): number | undefined => {
+  const number = optionalNumber(value, path);
+  if (number !== undefined && !(number >= 0)) {
+    throw new DomainParseError(path, 'expected zero or more');
+  }
+  return number;
+};
+
+export const parseTimingConstraint = (input: unknown, path = 'timingConstraint'): TimingConstraint => {
+  const raw = expectRecord(input, path);
+  const type = expectOneOf(raw.type, ['meal', 'apart'] as const, `${path}.type`);
+
+  if (type === 'apart') {
+    const from = expectString(raw.from, `${path}.from`).trim();
+    if (!from) {
+      throw new DomainParseError(`${path}.from`, 'expected a medication');
+    }
+    const hours = expectNumber(raw.hours, `${path}.hours`);
+    if (!(hours > 0) || hours >= 12) {
+      throw new DomainParseError(`${path}.hours`, 'expected more than 0 and less than 12 hours');
+    }
+    return { type, from, hours };
+  }
+
+  const meal = optionalOneOf(raw.meal, MEALS, `${path}.meal`);
+  const minutes = nonNegative(raw.minutes, `${path}.minutes`);
+  return {
+    type,
+    relation: expectOneOf(raw.relation, MEAL_RELATIONS, `${path}.relation`),
+    ...(meal && { meal }),
+    ...(minutes !== undefined && { minutes }),
+  };
+};
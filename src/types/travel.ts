@@ -0,0 +1,89 @@
+/**
+ * MedGuard SA - Travel mode
+ * Whether schedules keep to home time or move to local time when the user
+ * crosses time zones. Each schedule's times are read in its own time zone
+ * (MedicationSchedule.timeZone), which travel never changes, so dose ids,
+ * history and adherence stay put. On local time, doses from the moment the
+ * zone changed move to the same wall-clock times in the new zone; schedules
+ * the user chose to move gradually do so a limited step a day. The rules
+ * live in utils/travel.ts.
+ */
+
+import {
+  compact,
+  expectArray,
+  expectIsoDate,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  expectTimeZone,
+  optionalTimeZone,
+} from './parse';
+
+export const TRAVEL_MODES = ['home', 'local'] as const;
+export type TravelMode = typeof TRAVEL_MODES[number];
+
+/**
+ * The zone schedules follow on local time, from `since`. Doses before it
+ * followed `fromTimeZone`, or their schedule's own zone when absent.
+ */
+export interface TravelLeg {
+  fromTimeZone?: string;
+  timeZone: string;
+  since: string;
+}
+
+/**
+ * A travel leg as it applies to one schedule, with the daily step for
+ * schedules moving gradually.
+ */
+export interface ScheduleTravel extends TravelLeg {
+  stepMinutes?: number;
+}
+
+export interface TravelSettings {
+  mode: TravelMode;
+  /** Zone of schedules saved before they carried their own */
+  homeTimeZone: string;
+  /** Zone the device was last seen in */
+  lastTimeZone: string;
+  /** Set while schedules follow local time */
+  leg?: TravelLeg;
+  /** Schedules moving to local time gradually, by id */
+  gradualScheduleIds: string[];
+  /** Largest move of a gradual schedule's doses per day */
+  shiftStepMinutes: number;
+}
+
+/** Insulin and the pill should move no more than an hour or two a day */
+export const DEFAULT_SHIFT_STEP_MINUTES = 60;
+
+export const defaultTravelSettings = (timeZone: string): TravelSettings => ({
+  mode: 'home',
+  homeTimeZone: timeZone,
+  lastTimeZone: timeZone,
+  gradualScheduleIds: [],
+  shiftStepMinutes: DEFAULT_SHIFT_STEP_MINUTES,
+});
+
+const parseTravelLeg = (input: unknown, path: string): TravelLeg => {
+  const raw = expectRecord(input, path);
+  return compact<TravelLeg>({
+    fromTimeZone: optionalTimeZone(raw.fromTimeZone, `${path}.fromTimeZone`),
+    timeZone: expectTimeZone(raw.timeZone, `${path}.timeZone`),
+    since: expectIsoDate(raw.since, `${path}.since`),
+  });
+};
+
+export const parseTravelSettings = (input: unknown, path = 'travelSettings'): TravelSettings => {
+  const raw = expectRecord(input, path);
+  return compact<TravelSettings>({
+    mode: expectOneOf(raw.mode, TRAVEL_MODES, `${path}.mode`),
+    homeTimeZone: expectTimeZone(raw.homeTimeZone, `${path}.homeTimeZone`),
+    lastTimeZone: expectTimeZone(raw.lastTimeZone, `${path}.lastTimeZone`),
+    leg: raw.leg === undefined ? undefined : parseTravelLeg(raw.leg, `${path}.leg`),
+    gradualScheduleIds: expectArray(raw.gradualScheduleIds, `${path}.gradualScheduleIds`, expectString),
+    shiftStepMinutes: Math.max(15, expectNumber(raw.shiftStepMinutes, `${path}.shiftStepMinutes`)),
+  });
+};
@@ -0,0 +1,30 @@
+/**
+ * MedGuard SA - API error presentation
+ * Turns typed ApiService errors into user-facing, translated messages
+ */
+
+import i18n from '../i18n';
+import { ApiError } from '../types/api';
+
+const ERROR_KEYS: Record<ApiError['kind'], string> = {
+  offline: 'errors.network_error',
+  unauthorized: 'errors.authentication_error',
+  not_found: 'errors.not_found',
+  validation: 'errors.validation_error',
+  server: 'errors.server_error',
+  invalid_response: 'errors.server_error',
+};
+
+/**
+ * Translated message for an API error. Validation errors include the first
+ * field message returned by the server.
+ */
+export const getApiErrorMessage = (error: ApiError): string => {
+  const message = i18n.t(ERROR_KEYS[error.kind]);
+  const firstField = error.fieldErrors && Object.entries(error.fieldErrors)[0];
+  if (error.kind === 'validation' && firstField) {
+    const [field, messages] = firstField;
+    return `${message}\n${field}: ${messages.join(' ')}`;
+  }
+  return message;
+};
@@ -0,0 +1,142 @@
+/**
+ * MedGuard SA - Pill-pack barcodes
+ * Reads EAN-13 codes and GS1 DataMatrix codes (GTIN, batch, expiry and
+ * serial number) from medicine packs. Lookup of the product itself is left
+ * to services/productCatalogueService.ts.
+ */
+
+export const BARCODE_FORMATS = ['ean13', 'gs1'] as const;
+export type BarcodeFormat = typeof BARCODE_FORMATS[number];
+
+export interface PackBarcode {
+  format: BarcodeFormat;
+  /** 14 digits, EAN-13 codes with a leading zero */
+  gtin?: string;
+  /** NAPPI code, when the pack carries one as a national number */
+  nappiCode?: string;
+  batchNumber?: string;
+  /** yyyy-MM-dd; "00" days in GS1 dates are the last day of the month */
+  expiryDate?: string;
+  serialNumber?: string;
+}
+
+/** FNC1 / group separator between variable-length GS1 fields */
+const GS = '\u001d';
+
+/**
+ * GS1 application identifiers used on medicine packs, with their fixed
+ * lengths (variable-length fields end at a separator). 710-715 are national
+ * healthcare numbers; SA packs that carry one use it for the NAPPI code.
+ */
+const APPLICATION_IDENTIFIERS: Record<string, number | null> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '10': null,
+  '11': 6,
+  '15': 6,
+  '17': 6,
+  '21': null,
+  '30': null,
+  '710': null,
+  '711': null,
+  '712': null,
+  '713': null,
+  '714': null,
+  '715': null,
+};
+
+/** Whether the last digit of a GTIN (8 to 14 digits) is its check digit */
+export const isValidGtin = (digits: string): boolean => {
+  if (!/^\d{8,14}$/.test(digits)) return false;
+  const body = digits.slice(0, -1).split('').reverse();
+  const sum = body.reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * A GS1 YYMMDD date as yyyy-MM-dd. The century follows the GS1 rule: the
+ * year lies within 49 years before and 50 years after `today`.
+ */
+export const gs1Date = (yymmdd: string, today = new Date()): string | undefined => {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(yymmdd);
+  if (!match) return undefined;
+  const [, yy, mm, dd] = match.map(Number) as [number, number, number, number];
+  if (mm < 1 || mm > 12) return undefined;
+
+  const current = today.getFullYear();
+  const century = Math.floor(current / 100) * 100;
+  const difference = yy - (current % 100);
+  const year = century + yy + (difference >= 51 ? -100 : difference <= -50 ? 100 : 0);
+  const lastDay = new Date(year, mm, 0).getDate();
+  if (dd > lastDay) return undefined;
+  const day = dd === 0 ? lastDay : dd;
+  return `${year}-${String(mm).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * GS1 element string fields by application identifier. Accepts raw codes
+ * (with an optional "]d2"/"]C1" symbology prefix and separators) and the
+ * human-readable "(01)…(17)…" form. Null when the data isn't GS1.
+ */
+export const parseGs1 = (data: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+
+  const bracketed = data.trim();
+  if (bracketed.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(bracketed))) {
+      fields[match[1] ?? ''] = (match[2] ?? '').trim();
+    }
+    return Object.keys(fields).length > 0 ? fields : null;
+  }
+
+  let rest = data.replace(/^\](?:d2|C1|Q3|e0)/, '').replace(/^\u001d+/, '');
+  while (rest.length > 0) {
+    const ai = [2, 3, 4].map(length => rest.slice(0, length)).find(prefix => prefix in APPLICATION_IDENTIFIERS);
+    if (!ai) return Object.keys(fields).length > 0 ? fields : null;
+    const length = APPLICATION_IDENTIFIERS[ai];
+    rest = rest.slice(ai.length);
+
+    if (length) {
+      fields[ai] = rest.slice(0, length);
+      rest = rest.slice(length);
+    } else {
+      const end = rest.indexOf(GS);
+      fields[ai] = end >= 0 ? rest.slice(0, end) : rest;
+      rest = end >= 0 ? rest.slice(end + 1) : '';
+    }
+    rest = rest.replace(/^\u001d+/, '');
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+};
+
+/**
+ * A scanned pack code. `type` is the symbology the camera reported, when
+ * known. Null for codes that aren't pack barcodes or fail their check digit.
+ */
+export const parsePackBarcode = (data: string, type?: string, today = new Date()): PackBarcode | null => {
+  const digits = data.trim();
+  if (type !== 'datamatrix' && /^\d{13}$/.test(digits)) {
+    return isValidGtin(digits) ? { format: 'ean13', gtin: digits.padStart(14, '0') } : null;
+  }
+
+  const fields = parseGs1(data);
+  const gtin = fields?.['01'];
+  if (!fields || (gtin && !isValidGtin(gtin))) return null;
+  const nappiCode = ['710', '711', '712', '713', '714', '715']
+    .map(ai => fields[ai])
+    .find(code => code && /^\d{6,9}$/.test(code));
+  const expiryDate = fields['17'] ? gs1Date(fields['17'], today) : undefined;
+  if (!gtin && !nappiCode) return null;
+
+  return {
+    format: 'gs1',
+    ...(gtin && { gtin }),
+    ...(nappiCode && { nappiCode }),
+    ...(fields['10'] && { batchNumber: fields['10'] }),
+    ...(expiryDate && { expiryDate }),
+    ...(fields['21'] && { serialNumber: fields['21'] }),
+  };
+};
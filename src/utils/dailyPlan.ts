@@ -0,0 +1,272 @@
+/**
+ * MedGuard SA - Daily timetable solver
+ * Places every dose of the day so its meal rules, the spacing interactions
+ * ask for and the spacing of a schedule's own doses all hold, moving doses
+ * as little as possible from their scheduled times within waking hours.
+ * When no timetable exists it reports a smallest set of rules that can't all
+ * be kept. SmartMedicationScheduler.planDailyTimetable builds the rules from
+ * schedules.
+ */
+
+import { DailyRoutine } from '../types/routine';
+import { MEALS, MealConstraint } from '../types/timingConstraint';
+
+export interface PlanDose {
+  /** `${scheduleId}@${time}` */
+  id: string;
+  scheduleId: string;
+  medicationName: string;
+  dosage: string;
+  time: string; // HH:mm as scheduled
+}
+
+/**
+ * A rule of the timetable. `apart` keeps two doses of different schedules
+ * apart, either way round midnight; `sequence` keeps the second of two doses
+ * of a schedule at least `minutes` after the first in the waking day.
+ */
+export type PlanRule =
+  | { type: 'meal'; doseId: string; constraint: MealConstraint }
+  | { type: 'apart'; doseIds: [string, string]; minutes: number; reason: 'interaction' | 'constraint'; detail: string }
+  | { type: 'sequence'; doseIds: [string, string]; minutes: number };
+
+export interface PlannedDose extends PlanDose {
+  plannedTime: string; // HH:mm
+  /** Minutes moved from the scheduled time, negative when earlier */
+  shiftMinutes: number;
+}
+
+export interface DailyPlan {
+  feasible: boolean;
+  /** In planned time order; scheduled times when infeasible */
+  doses: PlannedDose[];
+  /** Rules that can't all be kept; empty when feasible */
+  conflicts: PlanRule[];
+}
+
+export interface DailyPlanOptions {
+  stepMinutes?: number;
+  /** Search budget per solve */
+  maxNodes?: number;
+}
+
+const DEFAULT_STEP_MINUTES = 15;
+const DEFAULT_MAX_NODES = 20000;
+
+/** Clear of a meal on an empty stomach: this long after it */
+const EMPTY_STOMACH_AFTER_MINUTES = 120;
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+const fromMinutes = (minutes: number): string => {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+/** Signed minutes from b to a, the shorter way round midnight */
+const offsetMinutes = (a: number, b: number): number => ((((a - b + 720) % 1440) + 1440) % 1440) - 720;
+
+const gapMinutes = (a: number, b: number): number => Math.abs(offsetMinutes(a, b));
+
+/**
+ * Whether a dose time keeps a meal rule. Before a meal defaults to 15 to 60
+ * minutes ahead, after a meal to within the hour, with a meal to within 30
+ * minutes and an empty stomach to 30 minutes before and 2 hours after meals;
+ * `minutes` moves the near edge of the window.
+ */
+export const fitsMealConstraint = (time: number, constraint: MealConstraint, routine: DailyRoutine): boolean => {
+  const offsetTo = (meal: typeof MEALS[number]) => offsetMinutes(time, toMinutes(routine[meal]));
+  const meals = constraint.meal ? [constraint.meal] : [...MEALS];
+
+  switch (constraint.relation) {
+    case 'with_meal': {
+      const within = constraint.minutes ?? 30;
+      return meals.some(meal => Math.abs(offsetTo(meal)) <= within);
+    }
+    case 'before_meal': {
+      const lead = constraint.minutes ?? 15;
+      return meals.some(meal => offsetTo(meal) <= -lead && offsetTo(meal) >= -Math.max(60, lead + 30));
+    }
+    case 'after_meal': {
+      const lag = constraint.minutes ?? 0;
+      return meals.some(meal => offsetTo(meal) >= lag && offsetTo(meal) <= lag + 60);
+    }
+    case 'empty_stomach': {
+      const lead = constraint.minutes ?? 30;
+      const clear = MEALS.every(meal => {
+        const offset = offsetTo(meal);
+        const before = constraint.meal === undefined || meal === constraint.meal ? lead : 30;
+        return offset <= -before || offset >= EMPTY_STOMACH_AFTER_MINUTES;
+      });
+      if (!clear || !constraint.meal) return clear;
+      // Named meal: shortly before it, not hours ahead
+      return offsetTo(constraint.meal) <= -lead && offsetTo(constraint.meal) >= -(lead + 30);
+    }
+  }
+};
+
+/** Position in the waking day, so doses keep their order across midnight */
+const dayPosition = (time: number, routine: DailyRoutine): number =>
+  (((time - toMinutes(routine.wake)) % 1440) + 1440) % 1440;
+
+const keeps = (rule: PlanRule, times: Map<string, number>, routine: DailyRoutine): boolean => {
+  if (rule.type === 'meal') {
+    const time = times.get(rule.doseId);
+    return time === undefined || fitsMealConstraint(time, rule.constraint, routine);
+  }
+  const a = times.get(rule.doseIds[0]);
+  const b = times.get(rule.doseIds[1]);
+  if (a === undefined || b === undefined) return true;
+  if (rule.type === 'apart') return gapMinutes(a, b) >= rule.minutes;
+  return dayPosition(b, routine) - dayPosition(a, routine) >= rule.minutes;
+};
+
+/**
+ * Candidate times of each dose: its scheduled time and every step from
+ * waking to bedtime that keeps its meal rules, nearest the scheduled time
+ * first.
+ */
+const candidateTimes = (
+  doses: PlanDose[],
+  rules: PlanRule[],
+  routine: DailyRoutine,
+  step: number
+): Map<string, number[]> => {
+  const wake = toMinutes(routine.wake);
+  const awake = dayPosition(toMinutes(routine.bed), routine);
+  const domains = new Map<string, number[]>();
+
+  doses.forEach(dose => {
+    const scheduled = toMinutes(dose.time);
+    const mealRules = rules.filter(rule => rule.type === 'meal' && rule.doseId === dose.id);
+    const steps = Array.from({ length: Math.floor(awake / step) + 1 }, (_, i) => (wake + i * step) % 1440);
+    const candidates = Array.from(new Set([scheduled, ...steps]))
+      .filter(time => mealRules.every(rule => keeps(rule, new Map([[dose.id, time]]), routine)))
+      .sort((a, b) => gapMinutes(a, scheduled) - gapMinutes(b, scheduled) || a - b);
+    domains.set(dose.id, candidates);
+  });
+  return domains;
+};
+
+interface SearchResult {
+  times: Map<string, number> | null;
+  /** False when the budget ran out before the search finished */
+  complete: boolean;
+}
+
+/**
+ * Branch and bound over the candidate times, fewest candidates first. With
+ * `firstOnly` any timetable will do.
+ */
+const search = (
+  doses: PlanDose[],
+  rules: PlanRule[],
+  routine: DailyRoutine,
+  step: number,
+  maxNodes: number,
+  firstOnly: boolean
+): SearchResult => {
+  const domains = candidateTimes(doses, rules, routine, step);
+  // Rules between doses, checked as the second of their doses is placed
+  const binaryByDose = new Map<string, PlanRule[]>();
+  rules.forEach(rule => {
+    if (rule.type === 'meal') return;
+    rule.doseIds.forEach(id => binaryByDose.set(id, [...(binaryByDose.get(id) ?? []), rule]));
+  });
+  const scheduled = new Map(doses.map(dose => [dose.id, toMinutes(dose.time)]));
+  const order = [...doses].sort(
+    (a, b) => (domains.get(a.id)?.length ?? 0) - (domains.get(b.id)?.length ?? 0)
+  );
+  const costOf = (id: string, time: number) => gapMinutes(time, scheduled.get(id) ?? time);
+  // Cheapest each remaining dose could still be
+  const floor = order.map(dose => {
+    const first = domains.get(dose.id)?.[0];
+    return first === undefined ? Infinity : costOf(dose.id, first);
+  });
+  const remainingFloor = floor.map((_, i) => floor.slice(i).reduce((sum, cost) => sum + cost, 0));
+
+  let best: Map<string, number> | null = null;
+  let bestCost = Infinity;
+  let nodes = 0;
+  const times = new Map<string, number>();
+
+  const visit = (index: number, cost: number): boolean => {
+    if (index === order.length) {
+      best = new Map(times);
+      bestCost = cost;
+      return firstOnly;
+    }
+    const dose = order[index] as PlanDose;
+    for (const time of domains.get(dose.id) ?? []) {
+      if (nodes++ >= maxNodes) return true;
+      const next = cost + costOf(dose.id, time);
+      if (next + (remainingFloor[index + 1] ?? 0) >= bestCost) break;
+      times.set(dose.id, time);
+      const fits = (binaryByDose.get(dose.id) ?? []).every(rule => keeps(rule, times, routine));
+      if (fits && visit(index + 1, next)) return true;
+      times.delete(dose.id);
+    }
+    return false;
+  };
+
+  visit(0, 0);
+  return { times: best, complete: nodes < maxNodes };
+};
+
+/**
+ * Drop each rule the others still can't be kept without, leaving a set that
+ * can't all be kept but would with any one of them gone.
+ */
+const findConflicts = (
+  doses: PlanDose[],
+  rules: PlanRule[],
+  routine: DailyRoutine,
+  step: number,
+  maxNodes: number
+): PlanRule[] => {
+  let core = rules;
+  rules.forEach(rule => {
+    const without = core.filter(kept => kept !== rule);
+    const result = search(doses, without, routine, step, maxNodes, true);
+    if (!result.times && result.complete) core = without;
+  });
+  return core;
+};
+
+const planned = (dose: PlanDose, time: number): PlannedDose => ({
+  ...dose,
+  plannedTime: fromMinutes(time),
+  shiftMinutes: offsetMinutes(time, toMinutes(dose.time)),
+});
+
+export const solveDailyPlan = (
+  doses: PlanDose[],
+  rules: PlanRule[],
+  routine: DailyRoutine,
+  options: DailyPlanOptions = {}
+): DailyPlan => {
+  const step = options.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const { times } = search(doses, rules, routine, step, maxNodes, false);
+
+  if (times) {
+    const solved: Map<string, number> = times;
+    const byPosition = (time: number) => dayPosition(time, routine);
+    return {
+      feasible: true,
+      doses: doses
+        .map(dose => planned(dose, solved.get(dose.id) ?? toMinutes(dose.time)))
+        .sort((a, b) => byPosition(toMinutes(a.plannedTime)) - byPosition(toMinutes(b.plannedTime))),
+      conflicts: [],
+    };
+  }
+
+  return {
+    feasible: false,
+    doses: doses.map(dose => planned(dose, toMinutes(dose.time))).sort((a, b) => a.time.localeCompare(b.time)),
+    conflicts: findConflicts(doses, rules, routine, step, maxNodes),
+  };
+};
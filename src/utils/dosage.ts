@@ -0,0 +1,122 @@
+/**
+ * MedGuard SA - Dosage amounts
+ * Reads free-text dosages ("2 tablets", "500mg", "10 ml", "½ tab") and
+ * product strengths ("500mg", "120mg/5ml") into numbers so doses can be
+ * added up against limits.
+ */
+
+export type DosageUnit = 'mg' | 'ml' | 'iu' | 'count';
+
+export interface DosageQuantity {
+  amount: number;
+  /** Null for a bare number ("2"), which is read as a count */
+  unit: DosageUnit | null;
+  /** Per-unit strength written into the dosage, e.g. "2 x 500mg" */
+  each?: DosageQuantity;
+}
+
+/** Factors to the base unit of each dimension (mg, ml) */
+const UNIT_FACTORS: Record<string, { unit: DosageUnit; factor: number }> = {
+  mcg: { unit: 'mg', factor: 0.001 },
+  ug: { unit: 'mg', factor: 0.001 },
+  µg: { unit: 'mg', factor: 0.001 },
+  mg: { unit: 'mg', factor: 1 },
+  g: { unit: 'mg', factor: 1000 },
+  gram: { unit: 'mg', factor: 1000 },
+  grams: { unit: 'mg', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 },
+  l: { unit: 'ml', factor: 1000 },
+  iu: { unit: 'iu', factor: 1 },
+  ie: { unit: 'iu', factor: 1 },
+  units: { unit: 'iu', factor: 1 },
+};
+
+/** English and Afrikaans words for countable dose forms */
+const COUNT_PATTERN =
+  /^(tab|tabs|tablet|tablets|tablette|cap|caps|capsule|capsules|kapsule|kapsules|pill|pills|pil|pille|puff|puffs|drop|drops|druppel|druppels|sachet|sachets|patch|patches|pleister|dose|doses|dosis|lozenge|lozenges|suppository|suppositories)$/;
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75 };
+
+const NUMBER = String.raw`(\d+\s+\d+\s*\/\s*\d+|\d+\s*\/\s*\d+|\d+(?:[.,]\d+)?\s*[½¼¾]?|[½¼¾])`;
+const QUANTITY_PATTERN = new RegExp(String.raw`^${NUMBER}\s*([a-zµ]+)?`, 'i');
+
+const parseNumber = (value: string): number | null => {
+  const fractionMatch = /^(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/.exec(value.trim());
+  if (fractionMatch) {
+    const [, whole = '0', numerator, denominator] = fractionMatch;
+    return Number(denominator) ? Number(whole) + Number(numerator) / Number(denominator) : null;
+  }
+  const text = value.replace(/\s+/g, '');
+  const fraction = Object.keys(FRACTIONS).find(symbol => text.endsWith(symbol));
+  if (fraction) {
+    const whole = text.slice(0, -fraction.length);
+    return (whole ? Number(whole) : 0) + (FRACTIONS[fraction] ?? 0);
+  }
+  const number = Number(text.replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+};
+
+const parseQuantity = (text: string): DosageQuantity | null => {
+  const match = QUANTITY_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const amount = parseNumber(match[1] ?? '');
+  if (amount === null || !(amount > 0)) return null;
+
+  const word = match[2]?.toLowerCase();
+  if (!word || word === 'x') return { amount, unit: null };
+  if (COUNT_PATTERN.test(word)) return { amount, unit: 'count' };
+  const known = UNIT_FACTORS[word];
+  return known ? { amount: amount * known.factor, unit: known.unit } : null;
+};
+
+/**
+ * Parse a dosage into an amount in mg, ml, IU or a count of dose units.
+ * Returns null when the text doesn't start with an amount.
+ */
+export const parseDosage = (dosage: string): DosageQuantity | null => {
+  const [count, each] = dosage.toLowerCase().split(/\s*[x×]\s*(?=\d)/);
+  const quantity = parseQuantity(count ?? '');
+  if (!quantity) return null;
+  if (each !== undefined && (quantity.unit === null || quantity.unit === 'count')) {
+    const perUnit = parseQuantity(each);
+    if (perUnit) return { amount: quantity.amount, unit: 'count', each: perUnit };
+  }
+  return quantity;
+};
+
+export interface Strength {
+  mg: number;
+  /** Volume the mg are in, for liquids ("120mg/5ml") */
+  perMl?: number;
+}
+
+export const parseStrengthMg = (strength: string | undefined): Strength | null => {
+  if (!strength) return null;
+  const [amount, volume] = strength.split('/');
+  const mass = parseQuantity(amount ?? '');
+  if (!mass || mass.unit !== 'mg') return null;
+  if (volume === undefined) return { mg: mass.amount };
+  const liquid = parseQuantity(/^\s*\d/.test(volume) ? volume : `1${volume}`);
+  return liquid?.unit === 'ml' ? { mg: mass.amount, perMl: liquid.amount } : null;
+};
+
+/**
+ * Milligrams in a dose: mass dosages directly, counts times the strength,
+ * volumes times the concentration. Null when it can't be worked out.
+ */
+export const doseAmountMg = (dosage: string, strength?: string): number | null => {
+  const quantity = parseDosage(dosage);
+  if (!quantity) return null;
+  if (quantity.unit === 'mg') return quantity.amount;
+
+  if (quantity.each?.unit === 'mg') return quantity.amount * quantity.each.amount;
+  const product = parseStrengthMg(strength);
+  if (!product) return null;
+  if (quantity.unit === 'ml') {
+    return product.perMl ? (quantity.amount / product.perMl) * product.mg : null;
+  }
+  if (quantity.unit === 'count' || quantity.unit === null) {
+    return product.perMl ? null : quantity.amount * product.mg;
+  }
+  return null;
+};
@@ -0,0 +1,186 @@
+/**
+ * MedGuard SA - Dose state machine
+ * Pure transition rules for dose ledger events, late/missed windows, the
+ * mapping to server dose log statuses and adherence from recorded events.
+ */
+
+import { DoseLog, DoseLogStatus } from '../types/medication';
+import {
+  AdherenceSummary,
+  DEFAULT_DOSE_WINDOWS,
+  DoseEvent,
+  DoseState,
+  DoseTransitionSource,
+  DoseWindows,
+  SKIP_REASONS,
+  SkipReason,
+} from '../types/dose';
+
+/**
+ * Allowed transitions. Every recorded state can be undone back to pending;
+ * a missed dose can still be taken (usually late), a partial dose completed.
+ */
+export const DOSE_TRANSITIONS: Record<DoseState, readonly DoseState[]> = {
+  pending: ['taken', 'late', 'missed', 'skipped', 'partial'],
+  taken: ['pending'],
+  late: ['pending'],
+  missed: ['taken', 'late', 'partial', 'skipped', 'pending'],
+  skipped: ['pending'],
+  partial: ['taken', 'late', 'pending'],
+};
+
+export class DoseTransitionError extends Error {
+  constructor(readonly doseId: string, readonly from: DoseState, readonly to: DoseState) {
+    super(`Dose ${doseId} cannot go from ${from} to ${to}`);
+    this.name = 'DoseTransitionError';
+  }
+}
+
+export const canTransition = (from: DoseState, to: DoseState): boolean =>
+  DOSE_TRANSITIONS[from].includes(to);
+
+const minutesAfter = (scheduledTime: string, time: Date): number =>
+  (time.getTime() - new Date(scheduledTime).getTime()) / 60000;
+
+/**
+ * Taken state for a dose taken at `actualTime`: on time inside the window
+ * (early doses included), late after it.
+ */
+export const classifyTakenTime = (
+  scheduledTime: string,
+  actualTime: Date,
+  windows: DoseWindows = DEFAULT_DOSE_WINDOWS
+): 'taken' | 'late' =>
+  minutesAfter(scheduledTime, actualTime) > windows.onTimeMinutes ? 'late' : 'taken';
+
+/**
+ * Pending doses past the missed window.
+ */
+export const isPastMissedWindow = (
+  event: Pick<DoseEvent, 'scheduledTime' | 'status'>,
+  now: Date,
+  windows: DoseWindows = DEFAULT_DOSE_WINDOWS
+): boolean => event.status === 'pending' && minutesAfter(event.scheduledTime, now) > windows.missedAfterMinutes;
+
+export interface DoseTransitionOptions {
+  at?: Date;
+  source?: DoseTransitionSource;
+  actualTime?: Date;
+  dosageTaken?: string;
+  skipReason?: SkipReason;
+  notes?: string;
+}
+
+/**
+ * Move an event to a new state, appending the transition to its history.
+ * Fields that don't apply to the new state are cleared.
+ */
+export const transitionDose = (
+  event: DoseEvent,
+  to: DoseState,
+  options: DoseTransitionOptions = {}
+): DoseEvent => {
+  if (!canTransition(event.status, to)) {
+    throw new DoseTransitionError(event.id, event.status, to);
+  }
+
+  const at = (options.at ?? new Date()).toISOString();
+  const taken = to === 'taken' || to === 'late' || to === 'partial';
+  const reason = to === 'skipped' ? options.skipReason ?? 'other' : undefined;
+
+  const next: DoseEvent = {
+    ...event,
+    status: to,
+    ...(options.notes !== undefined && { notes: options.notes }),
+    transitions: [
+      ...event.transitions,
+      { from: event.status, to, at, source: options.source ?? 'user', ...(reason && { reason }) },
+    ],
+    updatedAt: at,
+  };
+  delete next.actualTime;
+  delete next.dosageTaken;
+  delete next.skipReason;
+
+  if (taken) next.actualTime = (options.actualTime ?? options.at ?? new Date()).toISOString();
+  if (to === 'partial' && options.dosageTaken) next.dosageTaken = options.dosageTaken;
+  if (reason) next.skipReason = reason;
+  return next;
+};
+
+// -------------------- Server dose logs --------------------
+
+/**
+ * Server status for a ledger state; pending doses have no log.
+ */
+export const toDoseLogStatus = (state: DoseState): DoseLogStatus | null => {
+  switch (state) {
+    case 'pending':
+      return null;
+    case 'late':
+      return 'taken';
+    default:
+      return state;
+  }
+};
+
+/**
+ * Ledger state for a server log, deriving lateness from its actual time.
+ */
+export const doseStateFromLog = (
+  log: Pick<DoseLog, 'status' | 'actualTime'>,
+  scheduledTime: string,
+  windows: DoseWindows = DEFAULT_DOSE_WINDOWS
+): DoseState =>
+  log.status === 'taken'
+    ? classifyTakenTime(scheduledTime, new Date(log.actualTime ?? scheduledTime), windows)
+    : log.status;
+
+export const isSkipReason = (value: unknown): value is SkipReason =>
+  typeof value === 'string' && (SKIP_REASONS as readonly string[]).includes(value);
+
+// -------------------- Adherence --------------------
+
+/**
+ * Adherence score for a single dose, 0..100. Null for doses that don't
+ * count: still pending, or skipped on a doctor's advice.
+ */
+export const doseAdherenceScore = (event: Pick<DoseEvent, 'status' | 'skipReason'>): number | null => {
+  switch (event.status) {
+    case 'pending':
+      return null;
+    case 'taken':
+    case 'late':
+      return 100;
+    case 'partial':
+      return 50;
+    case 'missed':
+      return 0;
+    case 'skipped':
+      return event.skipReason === 'doctor_advised' ? null : 0;
+  }
+};
+
+const percent = (value: number, total: number): number | null =>
+  total > 0 ? Math.round((value / total) * 1000) / 10 : null;
+
+export const calculateAdherence = (events: Array<Pick<DoseEvent, 'status' | 'skipReason'>>): AdherenceSummary => {
+  const count = (state: DoseState) => events.filter(event => event.status === state).length;
+  const scores = events
+    .map(doseAdherenceScore)
+    .filter((score): score is number => score !== null);
+  const taken = count('taken');
+
+  return {
+    total: scores.length,
+    taken,
+    late: count('late'),
+    partial: count('partial'),
+    missed: count('missed'),
+    skipped: count('skipped'),
+    excused: events.filter(event => event.status === 'skipped' && doseAdherenceScore(event) === null).length,
+    pending: count('pending'),
+    adherenceRate: percent(scores.reduce((sum, score) => sum + score, 0) / 100, scores.length),
+    onTimeRate: percent(taken, scores.length),
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * MedGuard SA - Escalation rules
+ * When each step of a missed-dose escalation chain is due, which steps a
+ * dose still has to go through and how far along the chain it is.
+ */
+
+import { DoseEvent, DoseState } from '../types/dose';
+import {
+  DoseEscalation,
+  EscalationPolicies,
+  EscalationStep,
+  EscalationStepType,
+  LocalEscalationType,
+} from '../types/escalation';
+import { MedicationSchedule } from '../types/schedule';
+
+/** Steps that come due more than this long ago are recorded as undelivered */
+export const ESCALATION_GRACE_MINUTES = 12 * 60;
+
+// A dose escalates until it is recorded; missed doses still reach the caregiver
+const ESCALATING_STATES: readonly DoseState[] = ['pending', 'missed'];
+
+export interface DueEscalation {
+  step: number;
+  type: EscalationStepType;
+  dueAt: Date;
+}
+
+export interface EscalationState {
+  /** Steps taken so far, in order */
+  taken: DoseEscalation[];
+  /** The next step and when it is due, while the dose still escalates */
+  next?: DueEscalation;
+}
+
+export const escalationDueAt = (scheduledTime: Date | string, step: EscalationStep): Date =>
+  new Date(new Date(scheduledTime).getTime() + step.afterMinutes * 60 * 1000);
+
+/** The chain a schedule's missed doses go through, picked by its priority */
+export const escalationChain = (
+  policies: EscalationPolicies,
+  schedule: Pick<MedicationSchedule, 'priority'>
+): EscalationStep[] => policies[schedule.priority];
+
+export const isLocalEscalation = (type: EscalationStepType): type is LocalEscalationType =>
+  type !== 'caregiver';
+
+const isEscalating = (event: Pick<DoseEvent, 'status'>): boolean => ESCALATING_STATES.includes(event.status);
+
+const pendingSteps = (event: DoseEvent, steps: EscalationStep[]): DueEscalation[] => {
+  const recorded = new Set((event.escalations ?? []).map(escalation => escalation.step));
+  return steps.flatMap((step, index) =>
+    recorded.has(index) ? [] : [{ step: index, type: step.type, dueAt: escalationDueAt(event.scheduledTime, step) }]
+  );
+};
+
+/**
+ * Steps of the chain that have come due for a dose and are not yet
+ * recorded. Nothing is due once the dose has been taken or skipped.
+ */
+export const dueEscalations = (event: DoseEvent, steps: EscalationStep[], now: Date): DueEscalation[] =>
+  isEscalating(event) ? pendingSteps(event, steps).filter(due => due.dueAt <= now) : [];
+
+/**
+ * Whether a due step is too late to be worth sending, e.g. a caregiver
+ * message for a dose missed yesterday morning.
+ */
+export const isStaleEscalation = (due: DueEscalation, now: Date): boolean =>
+  now.getTime() - due.dueAt.getTime() > ESCALATION_GRACE_MINUTES * 60 * 1000;
+
+export const escalationState = (event: DoseEvent, steps: EscalationStep[]): EscalationState => {
+  const next = isEscalating(event) ? pendingSteps(event, steps)[0] : undefined;
+  return {
+    taken: [...(event.escalations ?? [])].sort((a, b) => a.step - b.step),
+    ...(next && { next }),
+  };
+};
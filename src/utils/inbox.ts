@@ -0,0 +1,69 @@
+/**
+ * MedGuard SA - Inbox rules
+ * Merging newly delivered and server copies of notifications into the
+ * inbox, and filtering and paging it for display.
+ */
+
+import { INBOX_LIMIT, InboxAction, InboxFilter, InboxItem } from '../types/inbox';
+
+const newestFirst = (a: InboxItem, b: InboxItem): number => b.deliveredAt.localeCompare(a.deliveredAt);
+
+const earliest = (a?: string, b?: string): string | undefined => (a && b ? (a < b ? a : b) : a ?? b);
+
+/**
+ * Two copies of the same notification. Once read anywhere it stays read,
+ * and the first action taken on it is kept.
+ */
+const mergeItem = (current: InboxItem, incoming: InboxItem): InboxItem => {
+  const readAt = earliest(current.readAt, incoming.readAt);
+  const action = current.action ?? incoming.action;
+  const actedAt = current.action ? current.actedAt : incoming.actedAt;
+  return {
+    ...current,
+    read: current.read || incoming.read,
+    ...(readAt && { readAt }),
+    ...(action && { action }),
+    ...(actedAt && { actedAt }),
+  };
+};
+
+/**
+ * Fold delivered or pulled notifications into the inbox, newest first and
+ * trimmed to INBOX_LIMIT. Notifications already in the inbox keep their
+ * content.
+ */
+export const mergeInbox = (items: InboxItem[], incoming: InboxItem[]): InboxItem[] => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  incoming.forEach(item => {
+    const current = byId.get(item.id);
+    byId.set(item.id, current ? mergeItem(current, item) : item);
+  });
+  return [...byId.values()].sort(newestFirst).slice(0, INBOX_LIMIT);
+};
+
+export const markRead = (items: InboxItem[], ids: ReadonlySet<string>, at: Date): InboxItem[] =>
+  items.map(item => (ids.has(item.id) && !item.read ? { ...item, read: true, readAt: at.toISOString() } : item));
+
+/**
+ * Record what the user did with a notification. Acting on it also reads it.
+ */
+export const recordAction = (items: InboxItem[], id: string, action: InboxAction, at: Date): InboxItem[] =>
+  items.map(item => {
+    if (item.id !== id) return item;
+    const acted = { ...item, action, actedAt: at.toISOString() };
+    return item.read ? acted : { ...acted, read: true, readAt: at.toISOString() };
+  });
+
+export const filterInbox = (items: InboxItem[], { types, unreadOnly = false }: InboxFilter = {}): InboxItem[] =>
+  items.filter(item => (!types || types.length === 0 || types.includes(item.type)) && (!unreadOnly || !item.read));
+
+/** The first `pages` pages of a filtered inbox */
+export const pageInbox = (items: InboxItem[], pages: number, pageSize: number): InboxItem[] =>
+  items.slice(0, Math.max(0, pages) * pageSize);
+
+/**
+ * Whether a dose reminder can still be answered from the inbox: Take,
+ * Snooze or Skip hasn't been pressed on it yet.
+ */
+export const isOpenReminder = (item: InboxItem): boolean =>
+  item.reminder !== undefined && (item.action === undefined || item.action === 'opened');
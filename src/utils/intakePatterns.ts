@@ -0,0 +1,123 @@
+/**
+ * MedGuard SA - Intake patterns
+ * Learns from the dose ledger when the user actually takes each dose. A dose
+ * time taken consistently late (or early), every day or only on weekdays or
+ * weekends, is a pattern SmartMedicationScheduler can suggest moving the dose
+ * time for.
+ */
+
+import { DoseEvent, DoseState } from '../types/dose';
+import { MedicationSchedule } from '../types/schedule';
+import { toWallTime } from './recurrence';
+
+export const INTAKE_DAY_GROUPS = ['all', 'weekdays', 'weekends'] as const;
+export type IntakeDayGroup = typeof INTAKE_DAY_GROUPS[number];
+
+export interface IntakePattern {
+  /** HH:mm dose time the pattern is for */
+  time: string;
+  days: IntakeDayGroup;
+  /** Median minutes the dose is taken after its time; negative when early */
+  delayMinutes: number;
+  samples: number;
+  /** Samples within the tolerance of the median */
+  matching: number;
+}
+
+export interface IntakePatternOptions {
+  /** Doses needed in a group before it can show a pattern */
+  minSamples?: number;
+  /** Smaller median delays are taken as on time */
+  minDelayMinutes?: number;
+  /** How close to the median a dose must be to count as matching */
+  toleranceMinutes?: number;
+  /** Share of matching doses needed */
+  minConsistency?: number;
+}
+
+const DEFAULT_OPTIONS: Required<IntakePatternOptions> = {
+  minSamples: 4,
+  minDelayMinutes: 30,
+  toleranceMinutes: 30,
+  minConsistency: 0.75,
+};
+
+const TAKEN_STATES: DoseState[] = ['taken', 'late', 'partial'];
+
+interface IntakeSample {
+  time: string;
+  weekend: boolean;
+  delay: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : Math.round(((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2);
+};
+
+/**
+ * Taken doses of a schedule, by their dose time in the schedule's zone.
+ * Doses at times the schedule no longer has are left out.
+ */
+const samplesFor = (schedule: MedicationSchedule, events: DoseEvent[]): IntakeSample[] =>
+  events.flatMap(event => {
+    if (event.scheduleId !== schedule.id || !event.actualTime || !TAKEN_STATES.includes(event.status)) return [];
+    const wall = toWallTime(new Date(event.scheduledTime), schedule.timeZone).value;
+    const time = wall.toISOString().slice(11, 16);
+    if (!schedule.pattern.times.includes(time)) return [];
+    return [{
+      time,
+      weekend: wall.getUTCDay() === 0 || wall.getUTCDay() === 6,
+      delay: Math.round((Date.parse(event.actualTime) - Date.parse(event.scheduledTime)) / 60000),
+    }];
+  });
+
+const patternOf = (
+  time: string,
+  days: IntakeDayGroup,
+  samples: IntakeSample[],
+  options: Required<IntakePatternOptions>
+): IntakePattern | null => {
+  if (samples.length < options.minSamples) return null;
+  const delayMinutes = median(samples.map(sample => sample.delay));
+  if (Math.abs(delayMinutes) < options.minDelayMinutes) return null;
+
+  const matching = samples.filter(sample => Math.abs(sample.delay - delayMinutes) <= options.toleranceMinutes).length;
+  if (matching / samples.length < options.minConsistency) return null;
+  return { time, days, delayMinutes, samples: samples.length, matching };
+};
+
+/**
+ * Consistent lateness or earliness per dose time of a schedule. Weekdays and
+ * weekends are looked at apart once each has enough doses; when they agree,
+ * or one is short of doses, the dose time gets one pattern for every day.
+ */
+export const findIntakePatterns = (
+  schedule: MedicationSchedule,
+  events: DoseEvent[],
+  options: IntakePatternOptions = {}
+): IntakePattern[] => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const samples = samplesFor(schedule, events);
+
+  return [...new Set(samples.map(sample => sample.time))].sort().flatMap(time => {
+    const atTime = samples.filter(sample => sample.time === time);
+    const weekdaySamples = atTime.filter(sample => !sample.weekend);
+    const weekendSamples = atTime.filter(sample => sample.weekend);
+    const all = () => {
+      const pattern = patternOf(time, 'all', atTime, settings);
+      return pattern ? [pattern] : [];
+    };
+    if (weekdaySamples.length < settings.minSamples || weekendSamples.length < settings.minSamples) return all();
+
+    const weekdays = patternOf(time, 'weekdays', weekdaySamples, settings);
+    const weekends = patternOf(time, 'weekends', weekendSamples, settings);
+    if (weekdays && weekends && Math.abs(weekdays.delayMinutes - weekends.delayMinutes) <= settings.toleranceMinutes) {
+      return all();
+    }
+    return [weekdays, weekends].filter((pattern): pattern is IntakePattern => pattern !== null);
+  });
+};
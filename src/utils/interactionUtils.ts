@@ -0,0 +1,61 @@
+/**
+ * MedGuard SA - Drug interaction presentation
+ * Formats interaction engine results and asks the user to confirm before
+ * saving a medication or schedule that interacts with their current ones
+ */
+
+import { Alert } from 'react-native';
+import i18n from '../i18n';
+import { DrugInteraction, InteractionSeverity } from '../types/interaction';
+
+const SEVERITY_KEYS: Record<InteractionSeverity, string> = {
+  minor: 'drug_interactions.mild_interaction',
+  moderate: 'drug_interactions.moderate_interaction',
+  major: 'drug_interactions.severe_interaction',
+  contraindicated: 'drug_interactions.contraindicated_interaction',
+};
+
+export const getSeverityLabel = (severity: InteractionSeverity): string => i18n.t(SEVERITY_KEYS[severity]);
+
+/**
+ * Multi-line summary: severity and medications, mechanism, advice, spacing
+ * and evidence source.
+ */
+export const formatInteraction = (interaction: DrugInteraction): string =>
+  [
+    `${getSeverityLabel(interaction.severity)}: ${interaction.medications.join(' + ')}`,
+    interaction.mechanism,
+    interaction.recommendation,
+    interaction.spacingHours !== undefined
+      ? i18n.t('drug_interactions.separate_doses', { hours: interaction.spacingHours })
+      : undefined,
+    i18n.t('drug_interactions.evidence_source', { source: interaction.evidence.source }),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Resolves true when there is nothing to confirm or the user chooses to
+ * save anyway.
+ */
+export const confirmInteractions = (interactions: DrugInteraction[]): Promise<boolean> => {
+  if (interactions.length === 0) return Promise.resolve(true);
+
+  const message = [
+    i18n.t('drug_interactions.interactions_found', { count: interactions.length }),
+    ...interactions.map(formatInteraction),
+    i18n.t('drug_interactions.consult_doctor'),
+  ].join('\n\n');
+
+  return new Promise(resolve => {
+    Alert.alert(
+      i18n.t('drug_interactions.interaction_warning'),
+      message,
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel', onPress: () => resolve(false) },
+        { text: i18n.t('drug_interactions.save_anyway'), style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
@@ -0,0 +1,157 @@
+/**
+ * MedGuard SA - Stock projection
+ * Units a dose uses up, and when a medication's stock runs out at the rate
+ * its active schedules (or, for as-needed use, recent doses) consume it.
+ */
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { DoseEvent } from '../types/dose';
+import {
+  CRITICAL_STOCK_DAYS,
+  DEFAULT_REFILL_LEAD_DAYS,
+  StockAlertLevel,
+  StockMovement,
+  StockProjection,
+} from '../types/inventory';
+import { DoseLog, Medication } from '../types/medication';
+import { MedicationSchedule } from '../types/schedule';
+import { parseDosage, parseStrengthMg } from './dosage';
+import { getScheduledDosagesBetween } from './scheduleUtils';
+
+/** Days of usage averaged into the daily rate; four weeks covers weekly patterns */
+const USAGE_WINDOW_DAYS = 28;
+const DEFAULT_HORIZON_DAYS = 180;
+
+/**
+ * Stock units (tablets, capsules, ml...) one dose uses. Counted dosages map
+ * directly; mass dosages are divided by the product strength. Null when the
+ * dosage can't be matched to the stock unit.
+ */
+export const doseUnits = (dosage: string, strength?: string): number | null => {
+  const quantity = parseDosage(dosage);
+  if (!quantity) return null;
+  if (quantity.unit === 'count' || quantity.unit === null) return quantity.amount;
+
+  const product = parseStrengthMg(strength);
+  if (quantity.unit === 'ml') return product?.perMl ? quantity.amount : null;
+  if (quantity.unit === 'mg' && product && !product.perMl) return quantity.amount / product.mg;
+  return null;
+};
+
+/**
+ * Dosage a ledger event has used from stock, or null when none was taken.
+ */
+export const dosageConsumed = (event: Pick<DoseEvent, 'status' | 'dosage' | 'dosageTaken'>): string | null => {
+  switch (event.status) {
+    case 'taken':
+    case 'late':
+      return event.dosage;
+    case 'partial':
+      return event.dosageTaken ?? event.dosage;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Units still owed by the pharmacy: the balance on the latest refill.
+ */
+export const owedUnits = (movements: StockMovement[]): number => {
+  const refills = movements.filter(movement => movement.type === 'refill').sort((a, b) => a.at.localeCompare(b.at));
+  return refills[refills.length - 1]?.owed ?? 0;
+};
+
+export const stockAlertLevel = (
+  medication: Pick<Medication, 'pillCount' | 'lowStockThreshold'>,
+  daysRemaining: number | null,
+  dailyUsage: number,
+  leadDays = DEFAULT_REFILL_LEAD_DAYS
+): StockAlertLevel => {
+  if (medication.pillCount <= 0) return 'out';
+  if (daysRemaining !== null) {
+    if (daysRemaining <= CRITICAL_STOCK_DAYS) return 'critical';
+    return daysRemaining <= leadDays ? 'low' : 'ok';
+  }
+  // Nothing to project from; fall back to the medication's own threshold
+  if (dailyUsage === 0 && medication.pillCount <= medication.lowStockThreshold) return 'low';
+  return 'ok';
+};
+
+export interface StockProjectionOptions {
+  horizonDays?: number;
+  leadDays?: number;
+  /** Recent dose logs, used for medications without scheduled doses */
+  logs?: DoseLog[];
+  movements?: StockMovement[];
+}
+
+/**
+ * Walk the medication's scheduled doses from `from`, using up stock, and
+ * find the first dose it can't cover.
+ */
+export const projectStock = (
+  medication: Medication,
+  schedules: MedicationSchedule[],
+  from: Date,
+  options: StockProjectionOptions = {}
+): StockProjection => {
+  const horizon = addDays(from, options.horizonDays ?? DEFAULT_HORIZON_DAYS);
+  const usageEnd = addDays(from, USAGE_WINDOW_DAYS);
+  const doses = schedules
+    .filter(schedule => schedule.medicationId === medication.id && schedule.status === 'active')
+    .flatMap(schedule => getScheduledDosagesBetween(schedule, from, horizon))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  let remaining = medication.pillCount;
+  let runOut: Date | undefined;
+  let used = 0;
+  let unknownDoses = 0;
+
+  doses.forEach(({ time, dosage }) => {
+    const units = doseUnits(dosage, medication.strength);
+    if (units === null) {
+      unknownDoses += 1;
+      return;
+    }
+    if (time < usageEnd) used += units;
+    if (runOut) return;
+    if (units > remaining + 1e-9) {
+      runOut = time;
+    } else {
+      remaining -= units;
+    }
+  });
+
+  let dailyUsage = used / USAGE_WINDOW_DAYS;
+
+  // As-needed only: project from what was taken over the last four weeks
+  if (doses.length === 0 && options.logs) {
+    const since = addDays(from, -USAGE_WINDOW_DAYS).getTime();
+    const taken = options.logs.filter(log =>
+      log.medicationId === medication.id &&
+      (log.status === 'taken' || log.status === 'partial') &&
+      new Date(log.actualTime ?? log.createdAt).getTime() >= since
+    );
+    const units = taken.reduce((sum, log) => sum + (doseUnits(log.dosage ?? '', medication.strength) ?? 0), 0);
+    dailyUsage = units / USAGE_WINDOW_DAYS;
+    if (dailyUsage > 0) {
+      const days = medication.pillCount / dailyUsage;
+      if (from.getTime() + days * 86400000 < horizon.getTime()) {
+        runOut = new Date(from.getTime() + days * 86400000);
+      }
+    }
+  }
+
+  const daysRemaining = runOut ? Math.max(0, differenceInCalendarDays(runOut, from)) : null;
+
+  return {
+    medicationId: medication.id,
+    currentCount: medication.pillCount,
+    dailyUsage,
+    daysRemaining,
+    ...(runOut && { runOutDate: runOut.toISOString() }),
+    unknownDoses,
+    owed: owedUnits((options.movements ?? []).filter(movement => movement.medicationId === medication.id)),
+    level: stockAlertLevel(medication, daysRemaining, dailyUsage, options.leadDays),
+  };
+};
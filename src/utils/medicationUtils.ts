@@ -5,6 +5,9 @@
  */
 
 import { format, addDays, differenceInDays, isAfter, isBefore } from 'date-fns';
+import interactionService from '../services/interactionService';
+import { MedicationSchedule } from '../types/schedule';
+import { getDoseTimesOn } from './scheduleUtils';
 
 export interface MedicationDose {
   amount: number;
@@ -19,17 +22,6 @@ export interface MedicationStock {
   lowStockThreshold: number;
 }
 
-export interface MedicationSchedule {
-  id: number;
-  medicationId: number;
-  timing: 'morning' | 'noon' | 'evening' | 'night' | 'custom';
-  customTime?: string;
-  daysOfWeek: boolean[];
-  startDate: Date;
-  endDate?: Date;
-  dose: MedicationDose;
-}
-
 /**
  * Calculate daily medication intake amount
  */
@@ -150,63 +142,15 @@ export const calculateNextDoseTime = (schedule: MedicationSchedule): Date | null
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   
   // Check if schedule is active
-  if (schedule.endDate && isAfter(now, schedule.endDate)) {
-    return null; // Schedule has ended
-  }
-  
-  if (isBefore(now, schedule.startDate)) {
-    return null; // Schedule hasn't started yet
-  }
-  
-  // Get time for dose
-  let doseTime: Date;
-  if (schedule.timing === 'custom' && schedule.customTime) {
-    const [hours, minutes] = schedule.customTime.split(':').map(Number);
-    doseTime = new Date(today.getTime());
-    doseTime.setHours(hours, minutes, 0, 0);
-  } else {
-    const defaultTimes = {
-      morning: { hours: 8, minutes: 0 },
-      noon: { hours: 12, minutes: 0 },
-      evening: { hours: 17, minutes: 0 },
-      night: { hours: 20, minutes: 0 },
-    };
-    const time = defaultTimes[schedule.timing] || defaultTimes.morning;
-    doseTime = new Date(today.getTime());
-    doseTime.setHours(time.hours, time.minutes, 0, 0);
+  if (schedule.status !== 'active') {
+    return null;
   }
   
-  // Check if today's dose time has passed
-  const todayDayIndex = now.getDay();
-  if (schedule.daysOfWeek[todayDayIndex] && isAfter(doseTime, now)) {
-    return doseTime; // Today's dose is still upcoming
-  }
-  
-  // Find next scheduled day
-  for (let i = 1; i <= 7; i++) {
-    const nextDate = addDays(today, i);
-    const nextDayIndex = nextDate.getDay();
-    
-    if (schedule.daysOfWeek[nextDayIndex]) {
-      const nextDoseTime = new Date(nextDate.getTime());
-      if (schedule.timing === 'custom' && schedule.customTime) {
-        const [hours, minutes] = schedule.customTime.split(':').map(Number);
-        nextDoseTime.setHours(hours, minutes, 0, 0);
-      } else {
-        const defaultTimes = {
-          morning: { hours: 8, minutes: 0 },
-          noon: { hours: 12, minutes: 0 },
-          evening: { hours: 17, minutes: 0 },
-          night: { hours: 20, minutes: 0 },
-        };
-        const time = defaultTimes[schedule.timing] || defaultTimes.morning;
-        nextDoseTime.setHours(time.hours, time.minutes, 0, 0);
-      }
-      
-      // Check if within schedule end date
-      if (!schedule.endDate || isBefore(nextDoseTime, schedule.endDate)) {
-        return nextDoseTime;
-      }
+  // Look far enough ahead to cover monthly patterns
+  for (let i = 0; i <= 31; i++) {
+    const nextDoseTime = getDoseTimesOn(schedule, addDays(today, i)).find(time => isAfter(time, now));
+    if (nextDoseTime) {
+      return nextDoseTime;
     }
   }
   
@@ -344,24 +288,17 @@ export const calculateDailyCost = (
 export const getMedicationInteractionRisk = (
   medications: Array<{ activeIngredients: string[]; category: string }>
 ): 'low' | 'medium' | 'high' => {
-  // This is a simplified risk assessment
-  // In a real app, this would use a comprehensive drug interaction database
-  
-  const highRiskCombinations = [
-    ['warfarin', 'aspirin'],
-    ['digoxin', 'furosemide'],
-    ['metformin', 'contrast'],
-  ];
-  
-  const allIngredients = medications.flatMap(med => 
-    med.activeIngredients.map(ingredient => ingredient.toLowerCase())
+  const interactions = interactionService.checkAll(
+    medications.map(med => ({ activeIngredients: med.activeIngredients.join(', ') }))
   );
   
-  // Check for high-risk combinations
-  for (const combo of highRiskCombinations) {
-    if (combo.every(ingredient => allIngredients.includes(ingredient))) {
-      return 'high';
-    }
+  // Results are sorted most severe first
+  const worst = interactions[0]?.severity;
+  if (worst === 'major' || worst === 'contraindicated') {
+    return 'high';
+  }
+  if (worst === 'moderate') {
+    return 'medium';
   }
   
   // Check for medium risk (multiple medications in same category)
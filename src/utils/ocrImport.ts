@@ -0,0 +1,237 @@
+/**
+ * MedGuard SA - Script import planning
+ * Turns every medication on a reviewed script into an import item: matched
+ * against the user's medications so a repeat of the same script tops up
+ * stock instead of adding the drug twice, with a schedule read from its
+ * sig by utils/sigParser.ts. services/importService.ts commits the items
+ * as one undoable transaction.
+ */
+
+import { OCRMedication, PrescriptionOCRResult } from '../types/api';
+import { Medication, MedicationInput, parseCount } from '../types/medication';
+import { Prescription } from '../types/prescription';
+import { PrnLimits } from '../types/prn';
+import { DailyRoutine } from '../types/routine';
+import {
+  ALL_DAYS,
+  FoodRequirement,
+  MedicationScheduleInput,
+  SchedulePattern,
+  ScheduleFrequency,
+  ScheduleTiming,
+} from '../types/schedule';
+import { TimingConstraint } from '../types/timingConstraint';
+import { isSameDrug } from './prescriptionOcr';
+import { SigAmbiguity, parseSig } from './sigParser';
+
+/**
+ * `repeat`: the drug is already on this script (the same script scanned
+ * again for a repeat); `duplicate`: the user already takes the drug at this
+ * strength; `similar`: they take it at another strength.
+ */
+export const IMPORT_MATCH_KINDS = ['none', 'similar', 'duplicate', 'repeat'] as const;
+export type ImportMatchKind = typeof IMPORT_MATCH_KINDS[number];
+
+export interface ImportMatch {
+  kind: ImportMatchKind;
+  medicationId?: string;
+  medicationName?: string;
+  /** The script the medication is already on, for `repeat` */
+  prescriptionId?: string;
+}
+
+/**
+ * `refill` adds the dispensed quantity to the matched medication's stock
+ * and counts a repeat on its script.
+ */
+export const IMPORT_ACTIONS = ['create', 'refill', 'skip'] as const;
+export type ImportAction = typeof IMPORT_ACTIONS[number];
+
+export interface ProposedSchedule {
+  dosage: string;
+  frequency: ScheduleFrequency;
+  timing: ScheduleTiming;
+  pattern: SchedulePattern;
+  foodRequirement?: FoodRequirement;
+  timingConstraints?: TimingConstraint[];
+  prnLimits?: PrnLimits;
+  /** How sure the sig parser is of the schedule, 0..1 */
+  confidence: number;
+  ambiguities: SigAmbiguity[];
+}
+
+export interface ImportItem {
+  /** Position on the script */
+  index: number;
+  source: OCRMedication;
+  match: ImportMatch;
+  action: ImportAction;
+  /** Units dispensed, from the script's quantity */
+  quantity: number;
+  /** Null when the sig couldn't be read as a schedule */
+  schedule: ProposedSchedule | null;
+  /** Create the proposed schedule along with a new medication */
+  addSchedule: boolean;
+}
+
+const normalizeStrength = (strength: string | undefined): string =>
+  (strength ?? '').toLowerCase().replace(/\s+/g, '').replace(',', '.');
+
+/**
+ * A schedule from a medication's sig, e.g. "1 tab bd pc" as twice daily
+ * after meals. The instructions are read first, then the dosage and
+ * frequency fields together. Null when neither gives a schedule.
+ */
+export const proposeSchedule = (
+  medication: OCRMedication,
+  options: { routine?: DailyRoutine; startDate?: Date } = {}
+): ProposedSchedule | null => {
+  const sigs = [medication.instructions, `${medication.dosage} ${medication.frequency} ${medication.instructions}`];
+  const sig = sigs.map(text => parseSig(text, options)).find(parsed => parsed.pattern && parsed.frequency);
+  if (!sig?.pattern || !sig.frequency) return null;
+
+  return {
+    dosage: sig.dosage || medication.dosage || '1',
+    frequency: sig.frequency,
+    timing: sig.timing,
+    pattern: sig.pattern,
+    ...(sig.foodRequirement && { foodRequirement: sig.foodRequirement }),
+    ...(sig.timingConstraints && { timingConstraints: sig.timingConstraints }),
+    ...(sig.prnLimits && { prnLimits: sig.prnLimits }),
+    confidence: sig.confidence,
+    ambiguities: sig.ambiguities,
+  };
+};
+
+/**
+ * The user's medication a scanned one matches, if any. Only active
+ * medications count; a drug on the same script number is a repeat.
+ */
+export const matchMedication = (
+  medication: OCRMedication,
+  prescriptionNumber: string,
+  medications: Medication[],
+  prescriptions: Prescription[]
+): ImportMatch => {
+  const candidates = medications.filter(
+    existing => existing.status === 'active' && isSameDrug(existing.name, medication.name)
+  );
+  const sameStrength = candidates.filter(
+    existing => normalizeStrength(existing.strength) === normalizeStrength(medication.strength)
+  );
+
+  if (prescriptionNumber) {
+    for (const existing of sameStrength) {
+      const script = prescriptions.find(
+        prescription =>
+          prescription.status === 'active' &&
+          prescription.prescriptionNumber === prescriptionNumber &&
+          prescription.medicationIds.includes(existing.id)
+      );
+      if (script) {
+        return { kind: 'repeat', medicationId: existing.id, medicationName: existing.name, prescriptionId: script.id };
+      }
+    }
+  }
+  const [duplicate] = sameStrength;
+  if (duplicate) return { kind: 'duplicate', medicationId: duplicate.id, medicationName: duplicate.name };
+  const [similar] = candidates;
+  if (similar) return { kind: 'similar', medicationId: similar.id, medicationName: similar.name };
+  return { kind: 'none' };
+};
+
+const DEFAULT_ACTIONS: Record<ImportMatchKind, ImportAction> = {
+  none: 'create',
+  similar: 'create',
+  duplicate: 'skip',
+  repeat: 'refill',
+};
+
+/**
+ * One item per medication on the script, with the action suggested by its
+ * match: new and changed-strength drugs are created, repeats top up stock
+ * and drugs the user already has are skipped.
+ */
+export const planImport = (
+  result: PrescriptionOCRResult,
+  medications: Medication[],
+  prescriptions: Prescription[],
+  options: { routine?: DailyRoutine } = {}
+): ImportItem[] =>
+  result.medications.map((source, index) => {
+    const match = matchMedication(source, result.prescriptionNumber, medications, prescriptions);
+    const schedule = proposeSchedule(source, options);
+    return {
+      index,
+      source,
+      match,
+      action: DEFAULT_ACTIONS[match.kind],
+      quantity: parseCount(source.quantity),
+      schedule,
+      addSchedule: schedule !== null,
+    };
+  });
+
+const MEDICATION_TYPES: Array<[RegExp, string]> = [
+  [/\b(?:caps?|capsules?|kapsules?)\b/i, 'capsule'],
+  [/\b(?:puffs?|inh)\b/i, 'inhaler'],
+  [/\b(?:drops?|gtt|druppels?)\b/i, 'drops'],
+  [/\b(?:ml|syrup|susp)\b/i, 'liquid'],
+  [/\b(?:units?|u|inj|sc|im)\b/i, 'injection'],
+];
+
+/** Medication type from the dose unit of the sig; tablets unless it says otherwise */
+const medicationTypeFor = (source: OCRMedication): string =>
+  MEDICATION_TYPES.find(([pattern]) => pattern.test(`${source.dosage} ${source.instructions}`))?.[1] ?? 'tablet';
+
+export const medicationInputFor = (item: ImportItem, prescribedBy?: string): MedicationInput => {
+  const { source } = item;
+  return {
+    name: source.name.trim(),
+    strength: source.strength.trim(),
+    ...(source.dosage && { dosage: source.dosage }),
+    ...(source.frequency && { frequency: source.frequency }),
+    medicationType: medicationTypeFor(source),
+    prescriptionType: 'prescription',
+    pillCount: item.quantity,
+    lowStockThreshold: 5,
+    status: 'active',
+    ...(source.instructions && { instructions: source.instructions }),
+    ...(prescribedBy && { prescribedBy }),
+  };
+};
+
+/**
+ * The proposed schedule of an item for a medication created from it. A
+ * weekly schedule falls on the start date's weekday.
+ */
+export const scheduleInputFor = (
+  item: ImportItem,
+  medication: Pick<Medication, 'id' | 'name'>,
+  options: { startDate?: Date; timeZone?: string } = {}
+): MedicationScheduleInput | null => {
+  const { schedule } = item;
+  if (!schedule) return null;
+  const startDate = options.startDate ?? new Date();
+  const pattern =
+    schedule.pattern.type === 'weekly'
+      ? { ...schedule.pattern, daysOfWeek: ALL_DAYS.map((_, day) => day === startDate.getDay()) }
+      : schedule.pattern;
+
+  return {
+    medicationId: medication.id,
+    medicationName: medication.name,
+    dosage: schedule.dosage,
+    frequency: schedule.frequency,
+    timing: schedule.timing,
+    pattern,
+    startDate: startDate.toISOString(),
+    status: 'active',
+    priority: 'normal',
+    ...(item.source.instructions && { instructions: item.source.instructions }),
+    ...(schedule.foodRequirement && { foodRequirement: schedule.foodRequirement }),
+    ...(schedule.timingConstraints && { timingConstraints: schedule.timingConstraints }),
+    ...(schedule.prnLimits && { prnLimits: schedule.prnLimits }),
+    ...(options.timeZone && { timeZone: options.timeZone }),
+  };
+};
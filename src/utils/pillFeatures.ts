@@ -0,0 +1,182 @@
+/**
+ * MedGuard SA - Pill features
+ * Describes a pill photo by its colour, shape and imprint, and compares a
+ * new photo against the user's own pill photos. Everything runs on the
+ * device from decoded pixels; no image leaves the phone.
+ */
+
+import { HISTOGRAM_BINS, MedicationPhoto, PillFeatures, PillShape } from '../types/medicationPhoto';
+import { editDistance } from './prescriptionOcr';
+
+/** Levels per colour channel in the histogram (4x4x4 = HISTOGRAM_BINS) */
+const CHANNEL_LEVELS = 4;
+/** Least colour distance from the background for a pixel to count as pill */
+const MIN_CONTRAST = 40;
+/** Share of the photo the pill may cover; outside this it wasn't found */
+const MIN_PILL_SHARE = 0.01;
+const MAX_PILL_SHARE = 0.9;
+/** Mean colours further apart than this don't look alike at all */
+const MAX_MEAN_DISTANCE = 120;
+/** Difference in roundness at which shapes stop looking alike */
+const MAX_ROUNDNESS_DIFFERENCE = 0.4;
+const LONGEST_IMPRINT = 12;
+
+const WEIGHTS = { colour: 0.5, shape: 0.2, imprint: 0.3 };
+
+/** Matches scoring below this aren't shown */
+export const MATCH_THRESHOLD = 0.6;
+
+type Rgb = [number, number, number];
+
+const distance = (a: Rgb, b: Rgb): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const toHex = (rgb: Rgb): string =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const shapeFor = (roundness: number): PillShape =>
+  roundness >= 0.85 ? 'round' : roundness >= 0.55 ? 'oval' : 'oblong';
+
+/**
+ * Letters and digits read off a pill, upper case. Longer readings are taken
+ * to be text behind the pill rather than an imprint.
+ */
+export const normaliseImprint = (text: string): string | undefined => {
+  const imprint = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return imprint && imprint.length <= LONGEST_IMPRINT ? imprint : undefined;
+};
+
+/**
+ * Features of a pill photographed on a plain background. `pixels` are RGBA
+ * rows. The background colour is taken from the photo's edges and every
+ * pixel clearly different from it is pill. Null when no pill stands out, e.g.
+ * a white pill on white paper.
+ */
+export const extractPillFeatures = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  imprint?: string
+): PillFeatures | null => {
+  const rgbAt = (x: number, y: number): Rgb => {
+    const offset = (y * width + x) * 4;
+    return [pixels[offset] ?? 0, pixels[offset + 1] ?? 0, pixels[offset + 2] ?? 0];
+  };
+
+  const edge: Rgb[] = [];
+  for (let x = 0; x < width; x++) edge.push(rgbAt(x, 0), rgbAt(x, height - 1));
+  for (let y = 1; y < height - 1; y++) edge.push(rgbAt(0, y), rgbAt(width - 1, y));
+  if (edge.length === 0) return null;
+
+  const background = edge
+    .reduce<Rgb>((sum, rgb) => [sum[0] + rgb[0], sum[1] + rgb[1], sum[2] + rgb[2]], [0, 0, 0])
+    .map(total => total / edge.length) as Rgb;
+  const spread = Math.sqrt(edge.reduce((sum, rgb) => sum + distance(rgb, background) ** 2, 0) / edge.length);
+  const threshold = Math.max(MIN_CONTRAST, 3 * spread);
+
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const colour: Rgb = [0, 0, 0];
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const rgb = rgbAt(x, y);
+      if (distance(rgb, background) <= threshold) continue;
+
+      const [r, g, b] = rgb.map(channel => Math.min(CHANNEL_LEVELS - 1, Math.floor((channel * CHANNEL_LEVELS) / 256)));
+      const bin = ((r ?? 0) * CHANNEL_LEVELS + (g ?? 0)) * CHANNEL_LEVELS + (b ?? 0);
+      histogram[bin] = (histogram[bin] ?? 0) + 1;
+      colour[0] += rgb[0];
+      colour[1] += rgb[1];
+      colour[2] += rgb[2];
+      count++;
+      sumX += x;
+      sumY += y;
+      sumXX += x * x;
+      sumYY += y * y;
+      sumXY += x * y;
+    }
+  }
+
+  const share = count / (width * height);
+  if (share < MIN_PILL_SHARE || share > MAX_PILL_SHARE) return null;
+
+  // The outline's spread along its long and short axes, from the
+  // eigenvalues of the pixel positions' covariance
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  const varX = sumXX / count - meanX * meanX;
+  const varY = sumYY / count - meanY * meanY;
+  const covXY = sumXY / count - meanX * meanY;
+  const half = (varX + varY) / 2;
+  const root = Math.sqrt(Math.max(0, half * half - (varX * varY - covXY * covXY)));
+  const long = half + root;
+  const short = Math.max(0, half - root);
+  const roundness = long > 0 ? Math.min(1, Math.sqrt(short / long)) : 1;
+  const normalisedImprint = imprint ? normaliseImprint(imprint) : undefined;
+
+  return {
+    colourHistogram: histogram.map(total => total / count),
+    meanColour: toHex(colour.map(total => total / count) as Rgb),
+    roundness: Math.round(roundness * 1000) / 1000,
+    shape: shapeFor(roundness),
+    ...(normalisedImprint && { imprint: normalisedImprint }),
+  };
+};
+
+export interface PillSimilarity {
+  /** 0 to 1, weighted over the parts below */
+  score: number;
+  colour: number;
+  shape: number;
+  /** Only when both pills have an imprint; a pill seen from its blank side has none */
+  imprint?: number;
+}
+
+export const comparePillFeatures = (a: PillFeatures, b: PillFeatures): PillSimilarity => {
+  const overlap = a.colourHistogram.reduce((sum, share, bin) => sum + Math.min(share, b.colourHistogram[bin] ?? 0), 0);
+  const closeness = 1 - Math.min(1, distance(fromHex(a.meanColour), fromHex(b.meanColour)) / MAX_MEAN_DISTANCE);
+  const colour = (overlap + closeness) / 2;
+  const shape = 1 - Math.min(1, Math.abs(a.roundness - b.roundness) / MAX_ROUNDNESS_DIFFERENCE);
+
+  if (!a.imprint || !b.imprint) {
+    const score = (colour * WEIGHTS.colour + shape * WEIGHTS.shape) / (WEIGHTS.colour + WEIGHTS.shape);
+    return { score, colour, shape };
+  }
+  const imprint = 1 - editDistance(a.imprint, b.imprint) / Math.max(a.imprint.length, b.imprint.length);
+  const score = colour * WEIGHTS.colour + shape * WEIGHTS.shape + imprint * WEIGHTS.imprint;
+  return { score, colour, shape, imprint };
+};
+
+export interface PillMatch {
+  medicationId: string;
+  /** The library photo that matched best */
+  photo: MedicationPhoto;
+  similarity: PillSimilarity;
+}
+
+/**
+ * The medications a pill most likely belongs to, best first: each
+ * medication's closest pill photo, keeping those above MATCH_THRESHOLD.
+ */
+export const rankPillMatches = (features: PillFeatures, library: MedicationPhoto[], limit = 3): PillMatch[] => {
+  const best = new Map<string, PillMatch>();
+  for (const photo of library) {
+    if (!photo.features) continue;
+    const similarity = comparePillFeatures(features, photo.features);
+    const current = best.get(photo.medicationId);
+    if (similarity.score >= MATCH_THRESHOLD && (!current || similarity.score > current.similarity.score)) {
+      best.set(photo.medicationId, { medicationId: photo.medicationId, photo, similarity });
+    }
+  }
+  return [...best.values()].sort((a, b) => b.similarity.score - a.similarity.score).slice(0, limit);
+};
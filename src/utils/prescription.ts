@@ -0,0 +1,100 @@
+/**
+ * MedGuard SA - Prescription rules
+ * Validity, repeat countdown and renewal warnings for prescriptions, and
+ * building one from a scanned script.
+ */
+
+import { addMonths, differenceInCalendarDays, parseISO } from 'date-fns';
+import { PrescriptionOCRResult } from '../types/api';
+import {
+  DEFAULT_PRESCRIPTION_REPEATS,
+  PRESCRIPTION_EXPIRY_WARNING_DAYS,
+  PRESCRIPTION_VALIDITY_MONTHS,
+  Prescription,
+  PrescriptionInput,
+  PrescriptionWarning,
+} from '../types/prescription';
+
+export const prescriptionExpiry = (issueDate: Date): Date =>
+  addMonths(issueDate, PRESCRIPTION_VALIDITY_MONTHS);
+
+export interface PrescriptionDetails {
+  medicationIds: string[];
+  issueDate?: Date;
+  repeats?: number;
+  pharmacyName?: string;
+}
+
+/**
+ * Prescription for a scanned script. The scan doesn't carry the issue date
+ * or repeats, so those come from the user (defaulting to today and a
+ * standard six-month chronic script).
+ */
+export const prescriptionFromOCR = (
+  result: PrescriptionOCRResult,
+  details: PrescriptionDetails
+): PrescriptionInput => {
+  const issueDate = details.issueDate ?? new Date();
+  const repeats = Math.max(0, Math.floor(details.repeats ?? DEFAULT_PRESCRIPTION_REPEATS));
+  return {
+    ...(result.prescriptionNumber && { prescriptionNumber: result.prescriptionNumber }),
+    medicationIds: details.medicationIds,
+    ...(result.doctorName && { prescriberName: result.doctorName }),
+    ...(details.pharmacyName && { pharmacyName: details.pharmacyName }),
+    ...(result.patientName && { patientName: result.patientName }),
+    ...(result.icd10Codes.length > 0 && { icd10Codes: result.icd10Codes }),
+    issueDate: issueDate.toISOString(),
+    expiryDate: prescriptionExpiry(issueDate).toISOString(),
+    repeatsTotal: repeats,
+    repeatsRemaining: repeats,
+    status: 'active',
+  };
+};
+
+export const isPrescriptionValid = (prescription: Prescription, now: Date): boolean =>
+  prescription.status === 'active' && parseISO(prescription.expiryDate) > now;
+
+/**
+ * Changes for one dispensing against the script: the first dispensing is the
+ * original, every later one uses up a repeat. Null when the script is no
+ * longer valid or has no repeats left.
+ */
+export const dispenseRepeat = (
+  prescription: Prescription,
+  at: Date
+): Pick<Prescription, 'repeatsRemaining' | 'lastDispensedAt'> | null => {
+  if (!isPrescriptionValid(prescription, at)) return null;
+  if (!prescription.lastDispensedAt) {
+    return { repeatsRemaining: prescription.repeatsRemaining, lastDispensedAt: at.toISOString() };
+  }
+  if (prescription.repeatsRemaining <= 0) return null;
+  return { repeatsRemaining: prescription.repeatsRemaining - 1, lastDispensedAt: at.toISOString() };
+};
+
+export const prescriptionWarnings = (prescription: Prescription, now: Date): PrescriptionWarning[] => {
+  if (prescription.status !== 'active') return [];
+  const base = { prescriptionId: prescription.id };
+  const days = differenceInCalendarDays(parseISO(prescription.expiryDate), now);
+  if (days <= 0) return [{ ...base, type: 'expired' }];
+
+  const warnings: PrescriptionWarning[] = [];
+  if (days <= PRESCRIPTION_EXPIRY_WARNING_DAYS) warnings.push({ ...base, type: 'expiring', days });
+  // Before the original is dispensed every repeat is still ahead
+  if (prescription.lastDispensedAt) {
+    if (prescription.repeatsRemaining === 0) warnings.push({ ...base, type: 'no_repeats' });
+    else if (prescription.repeatsRemaining === 1) warnings.push({ ...base, type: 'last_repeat' });
+  }
+  return warnings;
+};
+
+/**
+ * The script a medication is currently dispensed on: the most recently
+ * issued active prescription that lists it.
+ */
+export const findPrescriptionFor = (
+  prescriptions: Prescription[],
+  medicationId: string
+): Prescription | undefined =>
+  prescriptions
+    .filter(prescription => prescription.status === 'active' && prescription.medicationIds.includes(medicationId))
+    .sort((a, b) => b.issueDate.localeCompare(a.issueDate))[0];
@@ -0,0 +1,327 @@
+/**
+ * MedGuard SA - Prescription text reader
+ * Turns the lines read off a script by on-device OCR into a
+ * PrescriptionOCRResult with a confidence for every field, and merges that
+ * with the server's reading of the same image when there is one. Fields
+ * below REVIEW_CONFIDENCE are highlighted for the user to check.
+ */
+
+import {
+  OCR_MEDICATION_FIELDS,
+  OCR_PRESCRIPTION_FIELDS,
+  OCRMedication,
+  OCRMedicationField,
+  OCRPrescriptionField,
+  PrescriptionOCRResult,
+} from '../types/api';
+
+/** Fields less certain than this are highlighted for review */
+export const REVIEW_CONFIDENCE = 0.8;
+
+const STRENGTH = /(\d+(?:[.,]\d+)?)\s?(mg|mcg|µg|ug|g|ml|iu|u|%)(?:\s?\/\s?(\d+(?:[.,]\d+)?)?\s?(ml|g|dose))?\b/i;
+const ICD10 = /\b[A-TV-Z]\d{2}(?:\.[0-9A-Z]{1,4})?\b/g;
+const SIG_DOSE =
+  /\b(\d+(?:[.,]\d+)?|½|¼|one|two|three|een|twee|drie)\s*(tabs?|tablets?|caps?|capsules?|puffs?|drops?|ml|u|units?|sachets?|supps?|pille?s?|tablette?s?)\b/i;
+const SIG_FREQUENCY =
+  /\b(od|bd|bid|tds|tid|qid|qds|mane|nocte|daily|prn|stat|weekly|q\d{1,2}h|once daily|twice daily|three times daily|four times daily|daagliks|soggens|saans)\b/i;
+const QUANTITY = /\b(?:qty|quantity|mitte|disp(?:ense)?|hoeveelheid)\s*[:.]?\s*#?\s*(\d+)\b|(?:^|\s)#\s*(\d+)\b|\bx\s*(\d+)\b/i;
+const PRESCRIBER = /^(?:prescriber|doctor|dokter|voorskrywer)\s*[:-]\s*(.+)$/i;
+const DOCTOR = /^dr\.?\s+[A-Z]/i;
+const PATIENT = /^(?:patient|pasi[eë]nt)(?:\s*(?:name|naam))?\s*[:-]\s*(.+)$/i;
+const SCRIPT_NUMBER = /\b(?:rx|script|prescription|voorskrif)\s*(?:no|nr|number)?\.?\s*[:#]?\s*([A-Z0-9/-]*\d[A-Z0-9/-]*)/i;
+/** Practice number and qualifications after a prescriber's name */
+const PRESCRIBER_SUFFIX = /\s*(?:\b(?:pr\.?\s*no|mp)\b|\b(?:mbchb|mbbch|mmed|fcp|fcfp|md)\b).*$/i;
+const ICD_LABEL = /\b(?:icd|icd-?10|diagnosis|diagnose)\b/i;
+
+type MedicationConfidence = Partial<Record<OCRMedicationField, number>>;
+
+interface DraftMedication {
+  medication: OCRMedication;
+  confidence: MedicationConfidence;
+  sig: string[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * How much a name reads like a name: mostly letters, no digits or stray
+ * symbols that OCR leaves behind.
+ */
+const nameConfidence = (name: string): number => {
+  if (name.replace(/[^a-z]/gi, '').length < 3) return 0.4;
+  const clean = name.replace(/[^a-z\s.'-]/gi, '').length / name.length;
+  return round(0.45 + 0.45 * clean - (/\d/.test(name) ? 0.3 : 0));
+};
+
+const strengthConfidence = (value: number, unit: string): number => {
+  // A gram strength above 10 is usually a misread mg
+  if (unit.toLowerCase() === 'g' && value > 10) return 0.5;
+  // "u" and "iu" are easily misread
+  return /^i?u$/i.test(unit) ? 0.75 : 0.9;
+};
+
+const cleanName = (text: string): string =>
+  text
+    .replace(/^\s*(?:\d+[.)]|rx|[-•*])\s*/i, '')
+    .replace(/[\s,:;-]+$/, '')
+    .trim();
+
+const normalizeStrength = (match: RegExpMatchArray): string => {
+  const [, amount = '', unit = '', perAmount, perUnit] = match;
+  const per = perUnit ? `/${perAmount ?? ''}${perUnit.toLowerCase()}` : '';
+  return `${amount.replace(',', '.')}${unit.toLowerCase().replace('ug', 'mcg')}${per}`;
+};
+
+/**
+ * Dosage, frequency, quantity and instructions from a medication's sig text.
+ */
+const readSig = (draft: DraftMedication): void => {
+  const text = draft.sig.join(' ').replace(/\s+/g, ' ').trim();
+  const { medication, confidence } = draft;
+  if (!text) return;
+
+  const quantity = text.match(QUANTITY);
+  const count = quantity?.[1] ?? quantity?.[2] ?? quantity?.[3];
+  if (count) {
+    medication.quantity = count;
+    confidence.quantity = quantity?.[3] ? 0.7 : 0.85;
+  }
+  const instructions = text.replace(QUANTITY, '').replace(/\s+/g, ' ').trim();
+  const dose = instructions.match(SIG_DOSE);
+  if (dose) {
+    medication.dosage = dose[0];
+    confidence.dosage = 0.85;
+  }
+  const frequency = instructions.match(SIG_FREQUENCY);
+  if (frequency) {
+    medication.frequency = frequency[0].toLowerCase();
+    confidence.frequency = 0.85;
+  }
+  if (instructions) {
+    medication.instructions = instructions;
+    confidence.instructions = dose || frequency ? 0.85 : 0.5;
+  }
+};
+
+const finishMedication = (draft: DraftMedication): OCRMedication => {
+  readSig(draft);
+  const fieldConfidence: MedicationConfidence = {
+    name: 0,
+    strength: 0,
+    dosage: 0,
+    frequency: 0,
+    quantity: 0,
+    instructions: 0,
+    ...draft.confidence,
+  };
+  // Quantity and instructions are often left off; they don't count towards the whole
+  const core = (['name', 'strength', 'dosage', 'frequency'] as const).map(field => fieldConfidence[field] ?? 0);
+  return { ...draft.medication, confidence: round(mean(core)), fieldConfidence };
+};
+
+const overallConfidence = (
+  medications: OCRMedication[],
+  fieldConfidence: Partial<Record<OCRPrescriptionField, number>>
+): number => round(mean([...medications.map(medication => medication.confidence), fieldConfidence.doctorName ?? 0]));
+
+/**
+ * Read a script from OCR text, one entry per line as read. A line with a
+ * strength starts a medication; the lines after it until the next one are
+ * its sig (e.g. "1 tab bd pc", "Mitte 60").
+ */
+export const parsePrescriptionText = (lines: string[]): PrescriptionOCRResult => {
+  const result: PrescriptionOCRResult = {
+    prescriptionNumber: '',
+    doctorName: '',
+    patientName: '',
+    medications: [],
+    icd10Codes: [],
+    confidence: 0,
+    processingTime: 0,
+    source: 'device',
+  };
+  const fieldConfidence: Partial<Record<OCRPrescriptionField, number>> = {
+    prescriptionNumber: 0,
+    doctorName: 0,
+    patientName: 0,
+    icd10Codes: 0,
+  };
+  let current: DraftMedication | null = null;
+  const finish = () => {
+    if (current) result.medications.push(finishMedication(current));
+    current = null;
+  };
+
+  lines.map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).forEach(line => {
+    const patient = line.match(PATIENT);
+    const prescriber = line.match(PRESCRIBER);
+    const scriptNumber = line.match(SCRIPT_NUMBER);
+    const strength = line.match(STRENGTH);
+
+    if (scriptNumber?.[1] && scriptNumber[1].length >= 4 && !result.prescriptionNumber) {
+      result.prescriptionNumber = scriptNumber[1];
+      fieldConfidence.prescriptionNumber = 0.85;
+    }
+    if (patient?.[1]) {
+      if (!result.patientName) {
+        result.patientName = patient[1].trim();
+        fieldConfidence.patientName = nameConfidence(result.patientName);
+      }
+      return;
+    }
+    if (prescriber?.[1] || DOCTOR.test(line)) {
+      if (!result.doctorName) {
+        result.doctorName = (prescriber?.[1] ?? line).replace(PRESCRIBER_SUFFIX, '').trim();
+        fieldConfidence.doctorName = Math.min(0.9, nameConfidence(result.doctorName.replace(/^dr\.?\s*/i, '')) + 0.05);
+      }
+      return;
+    }
+
+    const labelled = ICD_LABEL.test(line);
+    if (labelled || !strength) {
+      const codes = (line.match(ICD10) ?? []).filter(code => !result.icd10Codes.includes(code));
+      if (codes.length > 0 && (labelled || !current)) {
+        result.icd10Codes.push(...codes);
+        fieldConfidence.icd10Codes = Math.max(fieldConfidence.icd10Codes ?? 0, labelled ? 0.95 : 0.6);
+        return;
+      }
+    }
+
+    if (strength && strength.index !== undefined) {
+      const name = cleanName(line.slice(0, strength.index));
+      if (name.replace(/[^a-z]/gi, '').length >= 3) {
+        finish();
+        const draft: DraftMedication = {
+          medication: { name, strength: normalizeStrength(strength), dosage: '', frequency: '', quantity: '', instructions: '', confidence: 0 },
+          confidence: {
+            name: nameConfidence(name),
+            strength: strengthConfidence(Number((strength[1] ?? '').replace(',', '.')), strength[2] ?? ''),
+          },
+          sig: [line.slice(strength.index + strength[0].length)],
+        };
+        current = draft;
+        return;
+      }
+    }
+
+    const draft = current as DraftMedication | null;
+    if (draft && (SIG_DOSE.test(line) || SIG_FREQUENCY.test(line) || QUANTITY.test(line))) {
+      draft.sig.push(line);
+    }
+  });
+  finish();
+
+  result.fieldConfidence = fieldConfidence;
+  result.confidence = overallConfidence(result.medications, fieldConfidence);
+  return result;
+};
+
+export const medicationFieldConfidence = (medication: OCRMedication, field: OCRMedicationField): number =>
+  medication.fieldConfidence?.[field] ?? medication.confidence;
+
+export const prescriptionFieldConfidence = (result: PrescriptionOCRResult, field: OCRPrescriptionField): number =>
+  result.fieldConfidence?.[field] ?? result.confidence;
+
+/** Digits OCR reads in place of letters */
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'l', '5': 's', '8': 'b' };
+
+/** First word of a name, with lookalike digits read as letters */
+const drugKey = (name: string): string =>
+  name.toLowerCase().replace(/[0158]/g, digit => LOOKALIKES[digit] ?? digit).match(/[a-z]+/)?.[0] ?? '';
+
+/** Levenshtein distance: letters inserted, removed or changed to turn a into b */
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min((previous[j] ?? 0) + 1, (row[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length] ?? 0;
+};
+
+/** Same drug when the first words of the names differ by a misread letter or so */
+export const isSameDrug = (a: string, b: string): boolean => {
+  const [keyA, keyB] = [drugKey(a), drugKey(b)];
+  if (!keyA || !keyB) return false;
+  return editDistance(keyA, keyB) <= Math.floor(Math.min(keyA.length, keyB.length) / 6);
+};
+
+const mergeMedication = (device: OCRMedication, server: OCRMedication): OCRMedication => {
+  const merged: OCRMedication = { ...device };
+  const fieldConfidence: MedicationConfidence = {};
+  OCR_MEDICATION_FIELDS.forEach(field => {
+    const deviceConfidence = device[field] ? medicationFieldConfidence(device, field) : 0;
+    const serverConfidence = server[field] ? medicationFieldConfidence(server, field) : 0;
+    const useServer = serverConfidence > deviceConfidence;
+    merged[field] = useServer ? server[field] : device[field];
+    fieldConfidence[field] = Math.max(deviceConfidence, serverConfidence);
+  });
+  return { ...merged, confidence: Math.max(device.confidence, server.confidence), fieldConfidence };
+};
+
+/**
+ * Combine the device's and the server's reading of the same script, taking
+ * each field from whichever is surer of it. Medications only one of them
+ * found are kept.
+ */
+export const mergeOCRResults = (
+  device: PrescriptionOCRResult,
+  server: PrescriptionOCRResult
+): PrescriptionOCRResult => {
+  const fieldConfidence: Partial<Record<OCRPrescriptionField, number>> = {};
+  const pick = (field: 'prescriptionNumber' | 'doctorName' | 'patientName'): string => {
+    const deviceConfidence = device[field] ? prescriptionFieldConfidence(device, field) : 0;
+    const serverConfidence = server[field] ? prescriptionFieldConfidence(server, field) : 0;
+    fieldConfidence[field] = Math.max(deviceConfidence, serverConfidence);
+    return serverConfidence > deviceConfidence ? server[field] : device[field];
+  };
+
+  const unmatched = [...server.medications];
+  const medications = device.medications.map(medication => {
+    const index = unmatched.findIndex(other => isSameDrug(other.name, medication.name));
+    if (index < 0) return medication;
+    const [match] = unmatched.splice(index, 1);
+    return match ? mergeMedication(medication, match) : medication;
+  });
+
+  const icd10Codes = Array.from(new Set([...server.icd10Codes, ...device.icd10Codes]));
+  fieldConfidence.icd10Codes = Math.max(
+    device.icd10Codes.length > 0 ? prescriptionFieldConfidence(device, 'icd10Codes') : 0,
+    server.icd10Codes.length > 0 ? prescriptionFieldConfidence(server, 'icd10Codes') : 0
+  );
+
+  const merged: PrescriptionOCRResult = {
+    prescriptionNumber: pick('prescriptionNumber'),
+    doctorName: pick('doctorName'),
+    patientName: pick('patientName'),
+    medications: [...medications, ...unmatched],
+    icd10Codes,
+    confidence: 0,
+    processingTime: Math.max(device.processingTime, server.processingTime),
+    fieldConfidence,
+    source: 'merged',
+  };
+  return { ...merged, confidence: overallConfidence(merged.medications, fieldConfidence) };
+};
+
+/**
+ * Fields of a result to check before it is used, by medication index.
+ */
+export const fieldsToReview = (
+  result: PrescriptionOCRResult
+): { prescription: OCRPrescriptionField[]; medications: OCRMedicationField[][] } => ({
+  prescription: OCR_PRESCRIPTION_FIELDS.filter(
+    field => prescriptionFieldConfidence(result, field) < REVIEW_CONFIDENCE
+  ),
+  medications: result.medications.map(medication =>
+    OCR_MEDICATION_FIELDS.filter(
+      field => medicationFieldConfidence(medication, field) < REVIEW_CONFIDENCE
+    )
+  ),
+});
@@ -0,0 +1,144 @@
+/**
+ * MedGuard SA - As-needed (PRN) dose checks
+ * Checks a dose about to be taken against the schedule's spacing and rolling
+ * 24-hour limits, and summarises as-needed use for analytics.
+ */
+
+import { DoseLog } from '../types/medication';
+import {
+  PRN_NEAR_LIMIT_RATIO,
+  PrnCheck,
+  PrnLimits,
+  PrnUsageSummary,
+  PrnWarning,
+} from '../types/prn';
+import { doseAmountMg } from './dosage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isPrnLog = (log: Pick<DoseLog, 'prn'>): boolean => log.prn === true;
+
+const takenAt = (log: DoseLog): number | null => {
+  if (log.status !== 'taken' && log.status !== 'partial') return null;
+  const time = new Date(log.actualTime ?? log.createdAt).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+export interface PrnDose {
+  dosage: string;
+  /** Product strength, used to turn "2 tablets" into mg */
+  strength?: string;
+}
+
+/**
+ * Check taking `dose` at `now`. `logs` are the medication's dose logs;
+ * scheduled doses count towards the 24h limits as well, so a regular dose
+ * of paracetamol plus as-needed extras can't pass 4 g together.
+ */
+export const checkPrnDose = (
+  logs: DoseLog[],
+  limits: PrnLimits | undefined,
+  dose: PrnDose,
+  now: Date = new Date()
+): PrnCheck => {
+  const windowStart = now.getTime() - DAY_MS;
+  const recent = logs
+    .map(log => ({ log, time: takenAt(log) }))
+    .filter((entry): entry is { log: DoseLog; time: number } =>
+      entry.time !== null && entry.time > windowStart && entry.time <= now.getTime()
+    )
+    .sort((a, b) => a.time - b.time);
+
+  const amounts = recent.map(({ log }) => doseAmountMg(log.dosage ?? dose.dosage, dose.strength));
+  const amountIn24hMg = amounts.every((amount): amount is number => amount !== null)
+    ? amounts.reduce((sum, amount) => sum + amount, 0)
+    : null;
+  const doseMg = doseAmountMg(dose.dosage, dose.strength);
+  const last = recent[recent.length - 1];
+  const warnings: PrnWarning[] = [];
+  const iso = (time: number) => new Date(time).toISOString();
+
+  if (last && limits?.minIntervalMinutes) {
+    const availableAt = last.time + limits.minIntervalMinutes * 60000;
+    if (availableAt > now.getTime()) {
+      warnings.push({ type: 'too_soon', limit: limits.minIntervalMinutes, availableAt: iso(availableAt) });
+    }
+  }
+
+  if (limits?.maxDosesPer24h) {
+    const value = recent.length + 1;
+    const limit = limits.maxDosesPer24h;
+    if (value > limit) {
+      // Enough of the oldest doses have to leave the window to make room
+      const freeing = recent[recent.length - limit];
+      warnings.push({ type: 'max_doses', value, limit, ...(freeing && { availableAt: iso(freeing.time + DAY_MS) }) });
+    } else if (value >= limit * PRN_NEAR_LIMIT_RATIO) {
+      warnings.push({ type: 'near_max_doses', value, limit });
+    }
+  }
+
+  if (limits?.maxAmountPer24hMg) {
+    const limit = limits.maxAmountPer24hMg;
+    if (amountIn24hMg === null || doseMg === null) {
+      warnings.push({ type: 'amount_unknown', limit });
+    } else {
+      const value = amountIn24hMg + doseMg;
+      if (value > limit) {
+        let remaining = value;
+        const freeing = doseMg > limit
+          ? undefined
+          : recent.find((entry, index) => {
+            remaining -= amounts[index] ?? 0;
+            return remaining <= limit;
+          });
+        warnings.push({ type: 'max_amount', value, limit, ...(freeing && { availableAt: iso(freeing.time + DAY_MS) }) });
+      } else if (value >= limit * PRN_NEAR_LIMIT_RATIO) {
+        warnings.push({ type: 'near_max_amount', value, limit });
+      }
+    }
+  }
+
+  const blocking = warnings.filter(
+    warning => warning.type === 'too_soon' || warning.type === 'max_doses' || warning.type === 'max_amount'
+  );
+  const nextAllowedAt = blocking.length > 0 && blocking.every(warning => warning.availableAt)
+    ? blocking.map(warning => warning.availableAt as string).sort().pop()
+    : undefined;
+
+  return {
+    withinLimits: blocking.length === 0,
+    warnings,
+    dosesIn24h: recent.length,
+    amountIn24hMg,
+    ...(last && { lastDoseAt: iso(last.time) }),
+    ...(nextAllowedAt && { nextAllowedAt }),
+  };
+};
+
+const tally = (values: string[]): Array<[string, number]> => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1]);
+};
+
+/**
+ * As-needed doses taken in [from, to), by reason and by medication.
+ */
+export const summarizePrnUse = (logs: DoseLog[], from: Date, to: Date): PrnUsageSummary => {
+  const taken = logs
+    .filter(isPrnLog)
+    .map(log => ({ log, time: takenAt(log) }))
+    .filter(({ time }) => time !== null && time >= from.getTime() && time < to.getTime())
+    .sort((a, b) => (b.time ?? 0) - (a.time ?? 0));
+  const latest = taken[0];
+
+  return {
+    total: taken.length,
+    byReason: tally(taken.map(({ log }) => log.prnReason ?? 'other')).map(([reason, count]) => ({ reason, count })),
+    byMedication: tally(taken.map(({ log }) => log.medicationId)).map(([medicationId, count]) => ({
+      medicationId,
+      count,
+    })),
+    ...(latest?.time != null && { lastTakenAt: new Date(latest.time).toISOString() }),
+  };
+};
@@ -0,0 +1,374 @@
+/**
+ * MedGuard SA - Recurrence rule expansion
+ * Expands parsed RRULEs into dose instants. Day-based frequencies (DAILY and
+ * up) are evaluated in wall-clock time, so an 08:00 dose stays at 08:00 across
+ * DST changes; HOURLY/MINUTELY rules step in elapsed time, so "every 8 hours"
+ * stays 8 hours apart. Rules without a TZID follow the device's time zone.
+ */
+
+import { LocalDateTime, RRule, RRuleDay, RecurrenceRule } from '../types/recurrence';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Upper bound on periods walked per expansion, for malformed or sparse rules */
+const MAX_ITERATIONS = 50000;
+
+// -------------------- Wall-clock time --------------------
+
+const wall = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date =>
+  new Date(Date.UTC(year, month, day, hour, minute, second));
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * The device's current IANA time zone.
+ */
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Wall-clock time of an instant in a time zone (device zone when absent).
+ */
+export const toWallTime = (instant: Date, timeZone?: string): LocalDateTime => {
+  if (!timeZone) {
+    return {
+      value: wall(
+        instant.getFullYear(),
+        instant.getMonth(),
+        instant.getDate(),
+        instant.getHours(),
+        instant.getMinutes(),
+        instant.getSeconds()
+      ),
+    };
+  }
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return {
+    value: wall(
+      parts.year ?? 1970,
+      (parts.month ?? 1) - 1,
+      parts.day ?? 1,
+      parts.hour ?? 0,
+      parts.minute ?? 0,
+      parts.second ?? 0
+    ),
+  };
+};
+
+const offsetAt = (instantMs: number, timeZone: string): number =>
+  toWallTime(new Date(instantMs), timeZone).value.getTime() - instantMs;
+
+/**
+ * Instant of a wall-clock time in a time zone (device zone when absent).
+ * Times repeated when clocks go back resolve to the first occurrence; times
+ * skipped when clocks go forward move forward by the size of the gap.
+ */
+export const toInstant = (local: LocalDateTime, timeZone?: string): Date => {
+  const value = local.value;
+  if (!timeZone) {
+    return new Date(
+      value.getUTCFullYear(),
+      value.getUTCMonth(),
+      value.getUTCDate(),
+      value.getUTCHours(),
+      value.getUTCMinutes(),
+      value.getUTCSeconds()
+    );
+  }
+  const wallMs = value.getTime();
+  const before = offsetAt(wallMs - DAY_MS, timeZone);
+  const after = offsetAt(wallMs + DAY_MS, timeZone);
+  const valid = [wallMs - before, wallMs - after].filter(ms => offsetAt(ms, timeZone) === wallMs - ms);
+  return new Date(valid.length > 0 ? Math.min(...valid) : wallMs - before);
+};
+
+// -------------------- Calendar helpers --------------------
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const dayOfMonthFor = (value: number, length: number): number | null => {
+  const day = value > 0 ? value : length + value + 1;
+  return day >= 1 && day <= length ? day : null;
+};
+
+/**
+ * Days of a span (a month or a year) matching BYDAY. Ordinals count
+ * within the span: 1MO is the first Monday, -1FR the last Friday.
+ */
+const daysMatchingByDay = (spanStart: Date, spanLength: number, byDay: RRuleDay[]): Date[] => {
+  const days = Array.from({ length: spanLength }, (_, index) => new Date(spanStart.getTime() + index * DAY_MS));
+  const result = new Set<number>();
+  byDay.forEach(({ weekday, ordinal }) => {
+    const matching = days.filter(day => day.getUTCDay() === weekday);
+    if (ordinal === undefined) {
+      matching.forEach(day => result.add(day.getTime()));
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day) result.add(day.getTime());
+    }
+  });
+  return [...result].sort((a, b) => a - b).map(ms => new Date(ms));
+};
+
+const daysMatchingByMonthDay = (monthStart: Date, byMonthDay: number[]): Date[] => {
+  const length = daysInMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth());
+  return [...new Set(byMonthDay.map(value => dayOfMonthFor(value, length)))]
+    .filter((day): day is number => day !== null)
+    .sort((a, b) => a - b)
+    .map(day => wall(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), day));
+};
+
+/**
+ * Candidate days of one month for MONTHLY/YEARLY rules.
+ */
+const daysInMonthFor = (rule: RRule, year: number, month: number, start: Date): Date[] => {
+  const monthStart = wall(year, month, 1);
+  const length = daysInMonth(year, month);
+  if (rule.byMonthDay) {
+    const days = daysMatchingByMonthDay(monthStart, rule.byMonthDay);
+    return rule.byDay ? days.filter(day => rule.byDay?.some(entry => entry.weekday === day.getUTCDay())) : days;
+  }
+  if (rule.byDay) {
+    return daysMatchingByDay(monthStart, length, rule.byDay);
+  }
+  const day = start.getUTCDate();
+  return day <= length ? [wall(year, month, day)] : [];
+};
+
+/**
+ * First day of the n-th period after the rule start.
+ */
+const periodStart = (rule: RRule, start: Date, period: number): Date => {
+  const step = period * rule.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  switch (rule.freq) {
+    case 'WEEKLY':
+      return wall(year, month, start.getUTCDate() - ((start.getUTCDay() - rule.weekStart + 7) % 7) + step * 7);
+    case 'MONTHLY':
+      return wall(year, month + step, 1);
+    case 'YEARLY':
+      return wall(year + step, 0, 1);
+    default:
+      return wall(year, month, start.getUTCDate() + step);
+  }
+};
+
+/**
+ * Candidate days of the period starting on `first`.
+ */
+const periodDays = (rule: RRule, start: Date, first: Date): Date[] => {
+  const year = first.getUTCFullYear();
+
+  switch (rule.freq) {
+    case 'WEEKLY': {
+      const weekdays = rule.byDay ? rule.byDay.map(entry => entry.weekday) : [start.getUTCDay()];
+      return Array.from({ length: 7 }, (_, index) => new Date(first.getTime() + index * DAY_MS)).filter(day =>
+        weekdays.includes(day.getUTCDay())
+      );
+    }
+    case 'MONTHLY':
+      return daysInMonthFor(rule, year, first.getUTCMonth(), start);
+    case 'YEARLY': {
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        const length = Math.round((wall(year + 1, 0, 1).getTime() - first.getTime()) / DAY_MS);
+        return daysMatchingByDay(first, length, rule.byDay);
+      }
+      const months = rule.byMonth ? rule.byMonth.map(value => value - 1) : [start.getUTCMonth()];
+      return [...months].sort((a, b) => a - b).flatMap(month => daysInMonthFor(rule, year, month, start));
+    }
+    default: {
+      const weekdayMatches = !rule.byDay || rule.byDay.some(entry => entry.weekday === first.getUTCDay());
+      const length = daysInMonth(year, first.getUTCMonth());
+      const monthDayMatches =
+        !rule.byMonthDay || rule.byMonthDay.some(value => dayOfMonthFor(value, length) === first.getUTCDate());
+      return weekdayMatches && monthDayMatches ? [first] : [];
+    }
+  }
+};
+
+/**
+ * Whole periods between the rule start and `target`, used to skip ahead
+ * when the rule has no COUNT.
+ */
+const periodsUntil = (rule: RRule, start: Date, target: Date): number => {
+  const days = Math.floor((target.getTime() - start.getTime()) / DAY_MS);
+  const months =
+    (target.getUTCFullYear() - start.getUTCFullYear()) * 12 + (target.getUTCMonth() - start.getUTCMonth());
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.floor(days / rule.interval);
+    case 'WEEKLY':
+      return Math.floor(days / 7 / rule.interval);
+    case 'MONTHLY':
+      return Math.floor(months / rule.interval);
+    case 'YEARLY':
+      return Math.floor(months / 12 / rule.interval);
+    default:
+      return 0;
+  }
+};
+
+const applySetPos = <T>(items: T[], bySetPos: number[] | undefined): T[] => {
+  if (!bySetPos) return items;
+  return bySetPos
+    .map(position => (position > 0 ? items[position - 1] : items[items.length + position]))
+    .filter((item): item is T => item !== undefined);
+};
+
+// -------------------- Expansion --------------------
+
+export interface RecurrenceDefaults {
+  /** Start used when the rule has no DTSTART (wall-clock) */
+  start: LocalDateTime;
+  /** HH:mm dose times for day-based rules without DTSTART or BYHOUR */
+  times?: string[];
+}
+
+const minutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Times of day (in minutes) each matching day expands to.
+ */
+const timesOfDay = (recurrence: RecurrenceRule, start: Date, defaults: RecurrenceDefaults): number[] => {
+  const { rule } = recurrence;
+  if (rule.byHour) {
+    const minutes = rule.byMinute ?? [start.getUTCMinutes()];
+    return rule.byHour.flatMap(hour => minutes.map(minute => hour * 60 + minute)).sort((a, b) => a - b);
+  }
+  if (!recurrence.start && defaults.times && defaults.times.length > 0) {
+    return [...new Set(defaults.times.map(minutesOfDay))].sort((a, b) => a - b);
+  }
+  const hour = start.getUTCHours();
+  const minutes = rule.byMinute ?? [start.getUTCMinutes()];
+  return minutes.map(minute => hour * 60 + minute).sort((a, b) => a - b);
+};
+
+const isBeforeUntil = (recurrence: RecurrenceRule, local: Date, instant: Date): boolean => {
+  const { until } = recurrence.rule;
+  if (!until) return true;
+  return until.utc ? instant.getTime() <= until.value.getTime() : local.getTime() <= until.value.getTime();
+};
+
+/**
+ * HOURLY/MINUTELY rules: fixed elapsed steps from the start instant,
+ * limited by the BY* parts against the wall-clock time of each step.
+ */
+const expandElapsed = (recurrence: RecurrenceRule, startInstant: Date, from: Date, to: Date): Date[] => {
+  const { rule, timeZone } = recurrence;
+  const stepMs = rule.interval * (rule.freq === 'HOURLY' ? 60 : 1) * MINUTE_MS;
+  const results: Date[] = [];
+  let step = rule.count ? 0 : Math.max(0, Math.floor((from.getTime() - startInstant.getTime()) / stepMs));
+  let matched = 0;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++, step++) {
+    const instant = new Date(startInstant.getTime() + step * stepMs);
+    if (instant >= to) break;
+    const local = toWallTime(instant, timeZone).value;
+    if (!isBeforeUntil(recurrence, local, instant)) break;
+
+    const matches =
+      (!rule.byMonth || rule.byMonth.includes(local.getUTCMonth() + 1)) &&
+      (!rule.byDay || rule.byDay.some(entry => entry.weekday === local.getUTCDay())) &&
+      (!rule.byMonthDay ||
+        rule.byMonthDay.some(
+          value => dayOfMonthFor(value, daysInMonth(local.getUTCFullYear(), local.getUTCMonth())) === local.getUTCDate()
+        )) &&
+      (!rule.byHour || rule.byHour.includes(local.getUTCHours())) &&
+      (!rule.byMinute || rule.byMinute.includes(local.getUTCMinutes()));
+    if (!matches) continue;
+
+    matched += 1;
+    if (instant >= from) results.push(instant);
+    if (rule.count && matched >= rule.count) break;
+  }
+  return results;
+};
+
+/**
+ * DAILY and longer rules: candidate days per period, each at the rule's
+ * times of day in wall-clock time.
+ */
+const expandCalendar = (
+  recurrence: RecurrenceRule,
+  start: Date,
+  defaults: RecurrenceDefaults,
+  from: Date,
+  to: Date
+): Date[] => {
+  const { rule, timeZone } = recurrence;
+  const startInstant = toInstant({ value: start }, timeZone);
+  const times = timesOfDay(recurrence, start, defaults);
+  // Wall-clock bound well past `to` in any zone, to know when to stop
+  const lastDay = to.getTime() + 2 * DAY_MS;
+  const results: Date[] = [];
+  let period = rule.count ? 0 : Math.max(0, periodsUntil(rule, start, new Date(from.getTime() - 2 * DAY_MS)) - 1);
+  let matched = 0;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++, period++) {
+    const first = periodStart(rule, start, period);
+    if (first.getTime() > lastDay) break;
+
+    const days = periodDays(rule, start, first).filter(
+      day => !rule.byMonth || rule.byMonth.includes(day.getUTCMonth() + 1)
+    );
+    const candidates = applySetPos(
+      days.flatMap(day => times.map(minutes => new Date(day.getTime() + minutes * MINUTE_MS))),
+      rule.bySetPos
+    ).sort((a, b) => a.getTime() - b.getTime());
+
+    for (const local of candidates) {
+      const instant = toInstant({ value: local }, timeZone);
+      if (instant < startInstant) continue;
+      if (!isBeforeUntil(recurrence, local, instant) || instant >= to) return results;
+      matched += 1;
+      if (instant >= from) results.push(instant);
+      if (rule.count && matched >= rule.count) return results;
+    }
+  }
+  return results;
+};
+
+/**
+ * Dose instants of one rule in [from, to), in chronological order.
+ */
+export const expandRecurrence = (
+  recurrence: RecurrenceRule,
+  defaults: RecurrenceDefaults,
+  from: Date,
+  to: Date
+): Date[] => {
+  if (from >= to) return [];
+  const start = (recurrence.start ?? defaults.start).value;
+  const { rule } = recurrence;
+
+  if (rule.freq === 'HOURLY' || rule.freq === 'MINUTELY') {
+    const startInstant = toInstant({ value: start }, recurrence.timeZone);
+    return expandElapsed(recurrence, startInstant, from, to);
+  }
+  return expandCalendar(recurrence, start, defaults, from, to);
+};
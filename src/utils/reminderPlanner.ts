@@ -0,0 +1,299 @@
+/**
+ * MedGuard SA - Reminder planner
+ * Chooses which dose reminders are scheduled with the OS. Only a rolling
+ * window of the next reminders across all schedules is kept pending, and
+ * it is diffed against what is already pending so unchanged reminders are
+ * left alone. Follow-ups from the missed-dose escalation chain and repeats
+ * of unanswered reminders are planned alongside each dose's reminder. Each
+ * medication's reminder profile decides whether quiet hours and the weekend
+ * setting leave its reminders out.
+ */
+
+import { addDays, format } from 'date-fns';
+import { EscalationPolicies } from '../types/escalation';
+import {
+  REMINDER_HORIZON_DAYS,
+  REMINDER_WINDOW_SIZE,
+  ReminderData,
+  ReminderSettings,
+} from '../types/reminder';
+import {
+  DEFAULT_REMINDER_PROFILES,
+  QuietHoursRule,
+  ReminderProfile,
+  ReminderProfiles,
+  resolveReminderProfile,
+} from '../types/reminderProfile';
+import { MedicationSchedule, SCHEDULE_PRIORITIES, SchedulePriority } from '../types/schedule';
+import { escalationChain, escalationDueAt, isLocalEscalation } from './escalation';
+import { doseIdFor, getDosageAt, getDoseTimesBetween } from './scheduleUtils';
+
+/** Share of a full window given to the most important of the later doses */
+const PRIORITY_SHARE = 0.25;
+
+export interface PendingReminder {
+  identifier: string;
+  /** Null for pending notifications that aren't dose reminders */
+  reminder: ReminderData | null;
+}
+
+export interface ReminderPlanOptions {
+  now: Date;
+  /** Number of reminders that fit in the window */
+  capacity: number;
+  /** Ledger ids of doses that are already taken, skipped or missed */
+  resolvedDoseIds?: ReadonlySet<string>;
+  /** Escalation chains whose local steps are planned as follow-ups */
+  policies?: EscalationPolicies;
+  profiles?: ReminderProfiles;
+}
+
+/** A dose that gets no reminder, which the user should know about */
+export interface SkippedDose {
+  scheduleId: string;
+  medicationName: string;
+  doseTime: string;
+  reason: 'quiet_hours' | 'weekend';
+}
+
+export interface ReminderPlanDiff {
+  /** Identifiers of pending reminders to cancel */
+  cancel: string[];
+  schedule: ReminderData[];
+  /** Pending reminders left as they are */
+  kept: number;
+}
+
+// Unknown priorities from older reminders rank below 'low'
+const priorityRank = (priority: string): number =>
+  SCHEDULE_PRIORITIES.indexOf(priority as SchedulePriority);
+
+const byTime = (a: ReminderData, b: ReminderData): number =>
+  a.scheduledTime.localeCompare(b.scheduledTime) || priorityRank(b.priority) - priorityRank(a.priority);
+
+const byPriority = (a: ReminderData, b: ReminderData): number =>
+  priorityRank(b.priority) - priorityRank(a.priority) || a.scheduledTime.localeCompare(b.scheduledTime);
+
+// Everything the notification shows or is scheduled by; a change to any of
+// them replaces the pending reminder
+const reminderKey = (reminder: ReminderData): string => [
+  reminder.scheduleId,
+  reminder.doseTime,
+  reminder.scheduledTime,
+  reminder.medicationName,
+  reminder.dosage,
+  reminder.priority,
+  reminder.snoozeCount,
+  reminder.escalation?.step ?? '',
+  reminder.repeat ?? '',
+  reminder.channel ?? '',
+  reminder.sound ?? '',
+].join('|');
+
+export const reminderDoseId = (reminder: ReminderData): string =>
+  doseIdFor(reminder.scheduleId, new Date(reminder.doseTime), reminder.timeZone);
+
+export const isInQuietHours = (
+  time: Date,
+  settings: Pick<ReminderSettings, 'quietHoursStart' | 'quietHoursEnd'>
+): boolean => {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (!start || !end) return false;
+
+  const timeStr = format(time, 'HH:mm');
+  // Quiet hours may cross midnight
+  return start <= end
+    ? timeStr >= start && timeStr <= end
+    : timeStr >= start || timeStr <= end;
+};
+
+/** How a reminder at this time goes out under the profile's quiet-hours rule */
+export const quietHoursDelivery = (
+  time: Date,
+  settings: Pick<ReminderSettings, 'quietHoursStart' | 'quietHoursEnd'>,
+  profile: Pick<ReminderProfile, 'quietHours'>
+): QuietHoursRule => (isInQuietHours(time, settings) ? profile.quietHours : 'deliver');
+
+type DoseRuleSettings = Pick<
+  ReminderSettings,
+  'enabled' | 'reminderMinutesBefore' | 'weekendReminders' | 'quietHoursStart' | 'quietHoursEnd'
+>;
+
+const skipsWeekend = (doseTime: Date, settings: DoseRuleSettings, profile: ReminderProfile): boolean => {
+  const dayOfWeek = doseTime.getDay();
+  return !settings.weekendReminders && profile.followWeekendSetting && (dayOfWeek === 0 || dayOfWeek === 6);
+};
+
+const reminderLead = (settings: DoseRuleSettings): number => settings.reminderMinutesBefore * 60 * 1000;
+
+/**
+ * Slots left for planned reminders once snoozed reminders and other pending
+ * notifications are counted.
+ */
+export const windowCapacity = (pending: PendingReminder[]): number =>
+  Math.max(0, REMINDER_WINDOW_SIZE - pending.filter(({ reminder }) => !reminder || reminder.snoozeCount > 0).length);
+
+/**
+ * The reminders that should be pending, in firing order. When more are due
+ * than fit, the first slots follow time order and the rest go to the most
+ * important of the later ones, so high-priority medication keeps reminding
+ * longest if the app isn't opened.
+ */
+export const planReminders = (
+  schedules: MedicationSchedule[],
+  settings: ReminderSettings,
+  {
+    now,
+    capacity,
+    resolvedDoseIds = new Set<string>(),
+    policies,
+    profiles = DEFAULT_REMINDER_PROFILES,
+  }: ReminderPlanOptions
+): ReminderData[] => {
+  if (!settings.enabled || capacity <= 0) return [];
+
+  const lead = reminderLead(settings);
+  const horizon = addDays(now, REMINDER_HORIZON_DAYS);
+  const candidates: ReminderData[] = [];
+
+  for (const schedule of schedules) {
+    if (schedule.status !== 'active') continue;
+    const profile = resolveReminderProfile(profiles, schedule.medicationId, schedule.priority);
+    const repeats = profile.repeatUntilAcknowledged
+      ? Array.from({ length: profile.maxRepeats }, (_, index) => index + 1)
+      : [];
+
+    const followUps = settings.missedDoseReminders && policies
+      ? escalationChain(policies, schedule).flatMap((step, index) =>
+        isLocalEscalation(step.type) ? [{ step: index, type: step.type, afterMinutes: step.afterMinutes }] : []
+      )
+      : [];
+    // Doses from before now can still have follow-ups and repeats to come
+    const lookBack = Math.max(
+      0,
+      ...followUps.map(followUp => followUp.afterMinutes),
+      repeats.length * profile.repeatEveryMinutes
+    ) * 60 * 1000;
+
+    for (const doseTime of getDoseTimesBetween(schedule, new Date(now.getTime() - lookBack), horizon)) {
+      if (skipsWeekend(doseTime, settings, profile)) continue;
+      if (resolvedDoseIds.has(doseIdFor(schedule.id, doseTime, schedule.timeZone))) continue;
+
+      const remindAt = doseTime.getTime() - lead;
+      const reminder: ReminderData = {
+        type: 'medication_reminder',
+        medicationId: schedule.medicationId,
+        medicationName: schedule.medicationName,
+        scheduleId: schedule.id,
+        // Tapering schedules change dosage from phase to phase
+        dosage: getDosageAt(schedule, doseTime),
+        doseTime: doseTime.toISOString(),
+        scheduledTime: new Date(remindAt).toISOString(),
+        snoozeCount: 0,
+        priority: schedule.priority,
+        channel: profile.channel,
+        sound: profile.sound,
+        ...(schedule.timeZone && { timeZone: schedule.timeZone }),
+      };
+      const reminders: ReminderData[] = [
+        reminder,
+        ...repeats.map(repeat => ({
+          ...reminder,
+          scheduledTime: new Date(remindAt + repeat * profile.repeatEveryMinutes * 60 * 1000).toISOString(),
+          repeat,
+        })),
+        ...followUps.map(({ step, type, afterMinutes }) => ({
+          ...reminder,
+          scheduledTime: escalationDueAt(doseTime, { type, afterMinutes }).toISOString(),
+          escalation: { step, type },
+        })),
+      ];
+
+      for (const item of reminders) {
+        const time = new Date(item.scheduledTime);
+        if (time <= now) continue;
+        switch (quietHoursDelivery(time, settings, profile)) {
+          case 'skip':
+            break;
+          case 'silent':
+            candidates.push({ ...item, channel: 'quiet-reminders', sound: 'none' });
+            break;
+          case 'deliver':
+            candidates.push(item);
+        }
+      }
+    }
+  }
+
+  candidates.sort(byTime);
+  if (candidates.length <= capacity) return candidates;
+
+  const inOrder = capacity - Math.floor(capacity * PRIORITY_SHARE);
+  const later = candidates.slice(inOrder).sort(byPriority).slice(0, capacity - inOrder);
+  return [...candidates.slice(0, inOrder), ...later].sort(byTime);
+};
+
+/**
+ * Doses between `from` and `to` whose reminder is left out by quiet hours
+ * or the weekend setting. Critical doses never are.
+ */
+export const findSkippedDoses = (
+  schedules: MedicationSchedule[],
+  settings: DoseRuleSettings,
+  profiles: ReminderProfiles,
+  { from, to }: { from: Date; to: Date }
+): SkippedDose[] => {
+  if (!settings.enabled) return [];
+
+  const lead = reminderLead(settings);
+  return schedules.flatMap(schedule => {
+    if (schedule.status !== 'active') return [];
+    const profile = resolveReminderProfile(profiles, schedule.medicationId, schedule.priority);
+
+    return getDoseTimesBetween(schedule, from, to).flatMap((doseTime): SkippedDose[] => {
+      const skipped = { scheduleId: schedule.id, medicationName: schedule.medicationName, doseTime: doseTime.toISOString() };
+      if (skipsWeekend(doseTime, settings, profile)) return [{ ...skipped, reason: 'weekend' }];
+      const remindAt = new Date(doseTime.getTime() - lead);
+      return quietHoursDelivery(remindAt, settings, profile) === 'skip' ? [{ ...skipped, reason: 'quiet_hours' }] : [];
+    });
+  }).sort((a, b) => a.doseTime.localeCompare(b.doseTime));
+};
+
+/**
+ * What to cancel and schedule so the pending reminders match the plan.
+ * Snoozed reminders are the user's own follow-ups and stay until they fire,
+ * unless their dose has since been recorded; escalation follow-ups and
+ * repeats of a snoozed dose wait for the snooze.
+ */
+export const diffReminders = (
+  pending: PendingReminder[],
+  planned: ReminderData[],
+  resolvedDoseIds: ReadonlySet<string> = new Set<string>()
+): ReminderPlanDiff => {
+  const snoozedDoseIds = new Set(pending.flatMap(({ reminder }) =>
+    reminder && reminder.snoozeCount > 0 ? [reminderDoseId(reminder)] : []
+  ));
+  const wanted = new Map(planned
+    .filter(reminder =>
+      (!reminder.escalation && !reminder.repeat) || !snoozedDoseIds.has(reminderDoseId(reminder))
+    )
+    .map(reminder => [reminderKey(reminder), reminder]));
+  const cancel: string[] = [];
+  let kept = 0;
+
+  for (const { identifier, reminder } of pending) {
+    if (!reminder) continue;
+    if (reminder.snoozeCount > 0) {
+      if (resolvedDoseIds.has(reminderDoseId(reminder))) cancel.push(identifier);
+      continue;
+    }
+    // A second pending copy of the same reminder finds its key taken
+    if (wanted.delete(reminderKey(reminder))) {
+      kept += 1;
+    } else {
+      cancel.push(identifier);
+    }
+  }
+
+  return { cancel, schedule: [...wanted.values()], kept };
+};
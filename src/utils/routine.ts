@@ -0,0 +1,60 @@
+/**
+ * MedGuard SA - Routine rules
+ * Picks the routine that applies on a day, from the shift rotation, the
+ * weekend or the usual day, and applies the routine profile to schedules on
+ * a named timing slot. Where their doses then fall is worked out in
+ * utils/scheduleUtils.ts.
+ */
+
+import { differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { DailyRoutine, RoutineProfile, ShiftKind, ShiftWork, routineTimes } from '../types/routine';
+import { MedicationSchedule } from '../types/schedule';
+
+/**
+ * Shift worked on a day of the rotation; days before it started count back
+ * through the cycle.
+ */
+export const shiftOn = (shiftWork: ShiftWork, date: Date): ShiftKind => {
+  const length = shiftWork.cycle.length;
+  const elapsed = differenceInCalendarDays(startOfDay(date), parseISO(shiftWork.startDate));
+  return shiftWork.cycle[((elapsed % length) + length) % length] ?? 'off';
+};
+
+/**
+ * The routine on a day: its shift's, or the weekend or usual one on days off.
+ */
+export const routineOn = (profile: RoutineProfile, date: Date): DailyRoutine => {
+  const shift = profile.shiftWork ? shiftOn(profile.shiftWork, date) : 'off';
+  if (profile.shiftWork && shift !== 'off') return profile.shiftWork[shift];
+  const weekend = date.getDay() === 0 || date.getDay() === 6;
+  return weekend && profile.weekend ? profile.weekend : profile.usual;
+};
+
+/**
+ * Whether a schedule's times come from the routine: it is on a named timing
+ * slot and its pattern doesn't set its own times through recurrence rules.
+ */
+export const followsRoutine = (schedule: Pick<MedicationSchedule, 'timing' | 'pattern'>): boolean =>
+  schedule.timing !== 'custom' && schedule.pattern.type !== 'rrule' && schedule.pattern.type !== 'as_needed';
+
+/**
+ * Dose times of a schedule on a day, following the routine when it does.
+ */
+export const routineTimesOn = (schedule: MedicationSchedule, date: Date): string[] =>
+  schedule.routine
+    ? routineTimes(routineOn(schedule.routine, date), schedule.timing, schedule.frequency)
+    : schedule.pattern.times;
+
+/**
+ * The schedule as it applies on this device: a schedule following the
+ * routine gets its usual-day times and the profile to resolve each day with.
+ */
+export const applyRoutine = (schedule: MedicationSchedule, profile: RoutineProfile): MedicationSchedule => {
+  const { routine, ...rest } = schedule;
+  if (!followsRoutine(rest)) return rest;
+  return {
+    ...rest,
+    pattern: { ...rest.pattern, times: routineTimes(profile.usual, rest.timing, rest.frequency) },
+    routine: profile,
+  };
+};
@@ -0,0 +1,336 @@
+/**
+ * MedGuard SA - Schedule expansion helpers
+ * Turns canonical MedicationSchedule patterns into concrete dose times.
+ * Shared by the scheduler hook, notificationService and the schedule screens
+ * so every part of the app agrees on when a dose is due. Patterns are
+ * evaluated in device time; schedules in another zone, and schedules moved
+ * to local time while travelling, are expanded there and moved across.
+ * Schedules on a named timing slot take each day's times from the routine.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { DoseEvent, DoseOccurrence } from '../types/dose';
+import { parseRecurrenceRule } from '../types/recurrence';
+import { MedicationSchedule, ScheduledDose, SchedulePhase } from '../types/schedule';
+import { ScheduleTravel } from '../types/travel';
+import { deviceTimeZone, expandRecurrence, toInstant, toWallTime } from './recurrence';
+import { routineTimesOn } from './routine';
+
+/**
+ * Set a HH:mm wall-clock time on a copy of `date`.
+ */
+export const atTimeOfDay = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+};
+
+// -------------------- Dose phases --------------------
+
+export interface PhaseWindow {
+  phase: SchedulePhase;
+  index: number;
+  start: Date; // Start of the phase's first day
+  end: Date | null; // Start of the day after its last day; null when open-ended
+}
+
+/**
+ * Consecutive day windows of a schedule's phases, from its start date.
+ */
+export const getPhaseWindows = (schedule: MedicationSchedule): PhaseWindow[] => {
+  let start = startOfDay(parseISO(schedule.startDate));
+  return (schedule.phases ?? []).map((phase, index) => {
+    const end = phase.durationDays !== undefined ? addDays(start, phase.durationDays) : null;
+    const window = { phase, index, start, end };
+    if (end) start = end;
+    return window;
+  });
+};
+
+/**
+ * Phase in effect at a time; null for schedules without phases and outside
+ * the plan.
+ */
+export const getActivePhase = (schedule: MedicationSchedule, date: Date): PhaseWindow | null =>
+  getPhaseWindows(schedule).find(window => date >= window.start && (!window.end || date < window.end)) ?? null;
+
+/**
+ * The schedule as it applies during one phase: the phase's dosage and times.
+ */
+const withPhase = (schedule: MedicationSchedule, phase: SchedulePhase): MedicationSchedule => {
+  const result: MedicationSchedule = {
+    ...schedule,
+    dosage: phase.dosage,
+    pattern: { ...schedule.pattern, times: phase.times.length > 0 ? phase.times : schedule.pattern.times },
+  };
+  delete result.phases;
+  // A phase's own times don't follow the routine
+  if (phase.times.length > 0) delete result.routine;
+  return result;
+};
+
+const hasPhases = (schedule: MedicationSchedule): boolean => (schedule.phases ?? []).length > 0;
+
+// -------------------- Time zones --------------------
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Days either side of a range expanded before doses are moved across zones */
+const ZONE_PADDING_DAYS = 2;
+
+/**
+ * The schedule's zone when it isn't the device's.
+ */
+const foreignZone = (schedule: MedicationSchedule): string | undefined =>
+  schedule.timeZone && schedule.timeZone !== deviceTimeZone() ? schedule.timeZone : undefined;
+
+/**
+ * Device time showing the wall-clock time an instant has in `timeZone`.
+ */
+const toDeviceTime = (time: Date, timeZone: string): Date => toInstant(toWallTime(time, timeZone));
+
+/**
+ * Instant of a device time's wall-clock time in `timeZone`.
+ */
+const fromDeviceTime = (time: Date, timeZone: string): Date => toInstant(toWallTime(time), timeZone);
+
+/**
+ * How far the same wall-clock time in `toZone` is from `time` in `fromZone`.
+ */
+const zoneShift = (time: Date, fromZone: string | undefined, toZone: string | undefined): number =>
+  toInstant(toWallTime(time, fromZone), toZone).getTime() - time.getTime();
+
+/**
+ * When a dose due at `time` in its schedule's zone falls while travelling.
+ * Doses before the leg keep their time. Later ones move to the same
+ * wall-clock time in the leg's zone, gradual schedules at most one step
+ * further for each day since the leg started, from where the previous leg
+ * left them.
+ */
+const travelledTime = (time: Date, timeZone: string | undefined, travel: ScheduleTravel): Date => {
+  const since = new Date(travel.since);
+  if (time < since) return time;
+
+  const target = zoneShift(time, timeZone, travel.timeZone);
+  if (!travel.stepMinutes) return new Date(time.getTime() + target);
+
+  const start = travel.fromTimeZone ? zoneShift(time, timeZone, travel.fromTimeZone) : 0;
+  const days = Math.max(1, Math.ceil((time.getTime() - since.getTime()) / DAY_MS));
+  const limit = days * travel.stepMinutes * MINUTE_MS;
+  return new Date(time.getTime() + start + Math.max(-limit, Math.min(limit, target - start)));
+};
+
+const within = (times: Date[], from: Date, to: Date): Date[] =>
+  times.filter(time => time >= from && time < to).sort((a, b) => a.getTime() - b.getTime());
+
+/**
+ * Dosage due at a time, following the active phase.
+ */
+export const getDosageAt = (schedule: MedicationSchedule, time: Date): string =>
+  getActivePhase(schedule, time)?.phase.dosage ?? schedule.dosage;
+
+/**
+ * Date range, duration, on/off cycle and excluded days; shared by every
+ * pattern type.
+ */
+const isActiveDay = (schedule: MedicationSchedule, date: Date): boolean => {
+  const day = startOfDay(date);
+  const start = startOfDay(parseISO(schedule.startDate));
+  if (day < start) return false;
+
+  const endDate = schedule.endDate ?? schedule.pattern.endDate;
+  if (endDate && day > startOfDay(parseISO(endDate))) return false;
+
+  const { pattern } = schedule;
+  const elapsedDays = differenceInCalendarDays(day, start);
+  if (pattern.duration && elapsedDays >= pattern.duration) return false;
+  if (pattern.cycle && elapsedDays % (pattern.cycle.onDays + pattern.cycle.offDays) >= pattern.cycle.onDays) {
+    return false;
+  }
+  return !(pattern.exdates ?? []).includes(format(day, 'yyyy-MM-dd'));
+};
+
+/**
+ * Single doses excluded by date-time entries in `exdates`.
+ */
+const isExcludedTime = (schedule: MedicationSchedule, time: Date): boolean =>
+  (schedule.pattern.exdates ?? []).some(
+    exdate => exdate.length > 10 && Math.floor(parseISO(exdate).getTime() / 60000) === Math.floor(time.getTime() / 60000)
+  );
+
+/**
+ * Whether the schedule's date range and pattern include the given day.
+ */
+export const isScheduledOn = (schedule: MedicationSchedule, date: Date): boolean => {
+  const day = startOfDay(date);
+  if (!isActiveDay(schedule, day)) return false;
+
+  const { pattern } = schedule;
+  switch (pattern.type) {
+    case 'daily':
+      return pattern.daysOfWeek ? Boolean(pattern.daysOfWeek[day.getDay()]) : true;
+    case 'weekly':
+      return Boolean(pattern.daysOfWeek?.[day.getDay()]);
+    case 'monthly':
+      return (pattern.daysOfMonth ?? []).includes(day.getDate());
+    case 'interval':
+      return pattern.interval
+        ? differenceInCalendarDays(day, startOfDay(parseISO(schedule.startDate))) % pattern.interval === 0
+        : false;
+    case 'rrule':
+      return getDoseTimesOn(schedule, day).length > 0;
+    case 'as_needed':
+      // As-needed medications are not automatically scheduled
+      return false;
+  }
+};
+
+/**
+ * Dose times from a schedule's recurrence rules in [from, to). Rules
+ * without a DTSTART start on the schedule's start date at its first time.
+ */
+const expandScheduleRules = (schedule: MedicationSchedule, from: Date, to: Date): Date[] => {
+  const times = [...schedule.pattern.times].sort();
+  const start = toWallTime(atTimeOfDay(parseISO(schedule.startDate), times[0] ?? '08:00'));
+  const instants = new Set<number>();
+
+  (schedule.pattern.rrules ?? []).forEach(rule => {
+    try {
+      // Rules without a TZID follow the schedule's zone
+      const recurrence = parseRecurrenceRule(rule);
+      const zoned = recurrence.timeZone || !schedule.timeZone
+        ? recurrence
+        : { ...recurrence, timeZone: schedule.timeZone };
+      expandRecurrence(zoned, { start, times }, from, to).forEach(time => instants.add(time.getTime()));
+    } catch (error) {
+      console.error('Expand recurrence rule error:', error);
+    }
+  });
+  return [...instants].sort((a, b) => a - b).map(time => new Date(time));
+};
+
+/**
+ * Dose times for a schedule on a single day, in chronological order.
+ */
+export const getDoseTimesOn = (schedule: MedicationSchedule, date: Date): Date[] => {
+  const day = startOfDay(date);
+  if (schedule.travel || foreignZone(schedule)) {
+    return getDoseTimesBetween(schedule, day, addDays(day, 1));
+  }
+  if (hasPhases(schedule)) {
+    const active = getActivePhase(schedule, day);
+    return active ? getDoseTimesOn(withPhase(schedule, active.phase), day) : [];
+  }
+  if (schedule.pattern.type === 'rrule') {
+    return getDoseTimesBetween(schedule, day, addDays(day, 1));
+  }
+  if (!isScheduledOn(schedule, day)) return [];
+  return [...routineTimesOn(schedule, day)]
+    .sort()
+    .map(time => atTimeOfDay(day, time))
+    .filter(time => !isExcludedTime(schedule, time));
+};
+
+/**
+ * Dose times for a schedule in [from, to), in chronological order. Wall-clock
+ * times stay put across DST changes; see utils/recurrence.ts for rules.
+ */
+export const getDoseTimesBetween = (schedule: MedicationSchedule, from: Date, to: Date): Date[] => {
+  const { travel, ...home } = schedule;
+  if (travel) {
+    const times = getDoseTimesBetween(home, addDays(from, -ZONE_PADDING_DAYS), addDays(to, ZONE_PADDING_DAYS));
+    return within(times.map(time => travelledTime(time, home.timeZone, travel)), from, to);
+  }
+  if (hasPhases(schedule)) {
+    return getPhaseWindows(schedule).flatMap(({ phase, start, end }) =>
+      getDoseTimesBetween(
+        withPhase(schedule, phase),
+        start > from ? start : from,
+        end && end < to ? end : to
+      )
+    );
+  }
+  const zone = foreignZone(schedule);
+  if (schedule.pattern.type === 'rrule') {
+    return expandScheduleRules(schedule, from, to).filter(time => {
+      const deviceTime = zone ? toDeviceTime(time, zone) : time;
+      return isActiveDay(schedule, deviceTime) && !isExcludedTime(schedule, deviceTime);
+    });
+  }
+  if (zone) {
+    const { timeZone, ...device } = schedule;
+    const times = getDoseTimesBetween(device, addDays(from, -ZONE_PADDING_DAYS), addDays(to, ZONE_PADDING_DAYS));
+    return within(times.map(time => fromDeviceTime(time, zone)), from, to);
+  }
+
+  const times: Date[] = [];
+  for (let day = startOfDay(from); day < to; day = addDays(day, 1)) {
+    times.push(...getDoseTimesOn(schedule, day).filter(time => time >= from && time < to));
+  }
+  return times;
+};
+
+/**
+ * Dose times in [from, to) with the dosage due at each, for projections
+ * that have to follow tapering phases (e.g. stock usage).
+ */
+export const getScheduledDosagesBetween = (
+  schedule: MedicationSchedule,
+  from: Date,
+  to: Date
+): Array<{ time: Date; dosage: string }> =>
+  getDoseTimesBetween(schedule, from, to).map(time => ({ time, dosage: getDosageAt(schedule, time) }));
+
+/**
+ * Stable identifier for one occurrence of a schedule, from its wall-clock
+ * time in the schedule's zone so it doesn't change with the device's.
+ */
+export const doseIdFor = (scheduleId: string, scheduledTime: Date, timeZone?: string): string =>
+  `${scheduleId}-${toWallTime(scheduledTime, timeZone).value.toISOString().slice(0, 16).replace(/[T:]/g, '-')}`;
+
+/**
+ * Id of a dose given to the ledger: its own id, else one named after its
+ * wall-clock time in the schedule's zone like every other dose id.
+ */
+export const occurrenceIdFor = (dose: DoseOccurrence): string =>
+  dose.id ?? doseIdFor(dose.scheduleId, new Date(dose.scheduledTime), dose.timeZone);
+
+/**
+ * Build a pending dose for a schedule occurrence.
+ */
+export const createScheduledDose = (schedule: MedicationSchedule, scheduledTime: Date): ScheduledDose => {
+  const dose: ScheduledDose = {
+    id: doseIdFor(schedule.id, scheduledTime, schedule.timeZone),
+    scheduleId: schedule.id,
+    medicationId: schedule.medicationId,
+    medicationName: schedule.medicationName,
+    dosage: getDosageAt(schedule, scheduledTime),
+    scheduledTime,
+    status: 'pending',
+    snoozeCount: 0,
+    remindersSent: 0,
+    isOverdue: false,
+    priority: schedule.priority,
+  };
+  if (schedule.instructions) {
+    dose.instructions = schedule.instructions;
+  }
+  return dose;
+};
+
+/**
+ * Copy a dose ledger event's state onto a scheduled dose.
+ */
+export const applyDoseEvent = (dose: ScheduledDose, event: DoseEvent, now: Date = new Date()): ScheduledDose => {
+  const next: ScheduledDose = {
+    ...dose,
+    status: event.status,
+    isOverdue: event.status === 'pending' && dose.scheduledTime < now,
+  };
+  delete next.actualTime;
+  if (event.actualTime) next.actualTime = parseISO(event.actualTime);
+  if (event.notes) next.notes = event.notes;
+  return next;
+};
@@ -0,0 +1,590 @@
+/**
+ * MedGuard SA - Sig parser
+ * Reads the dosing instructions on a script or label ("1 tab tds pc",
+ * "2 puffs prn", "½ mane", "10 u sc nocte", "neem een tablet twee keer per
+ * dag na etes") into a dose, a route and a schedule pattern on the user's
+ * routine. English, Afrikaans and the usual Latin abbreviations are
+ * understood; whatever can't be read with certainty is listed as an
+ * ambiguity and lowers the confidence.
+ */
+
+import { PrnLimits } from '../types/prn';
+import { DEFAULT_ROUTINE, DailyRoutine, RoutineEvent } from '../types/routine';
+import {
+  ALL_DAYS,
+  FoodRequirement,
+  SchedulePattern,
+  ScheduleFrequency,
+  ScheduleTiming,
+  applyRecurrencePreset,
+  buildSchedulePattern,
+} from '../types/schedule';
+import { Meal, MealConstraint, TimingConstraint } from '../types/timingConstraint';
+
+export const SIG_UNITS = [
+  'tablet',
+  'capsule',
+  'puff',
+  'drop',
+  'ml',
+  'unit',
+  'mg',
+  'mcg',
+  'g',
+  'sachet',
+  'suppository',
+  'patch',
+  'spray',
+  'application',
+] as const;
+export type SigUnit = typeof SIG_UNITS[number];
+
+export const SIG_ROUTES = [
+  'oral',
+  'sublingual',
+  'inhaled',
+  'subcutaneous',
+  'intramuscular',
+  'intravenous',
+  'topical',
+  'eye',
+  'ear',
+  'nasal',
+  'rectal',
+  'vaginal',
+  'transdermal',
+] as const;
+export type SigRoute = typeof SIG_ROUTES[number];
+
+/**
+ * `unit_assumed`: a bare amount ("½ mane") read as tablets;
+ * `od_eye_or_daily`: "od" with drops may mean the right eye rather than
+ * once daily; `unrecognised` lists the words that weren't understood.
+ */
+export const SIG_AMBIGUITIES = [
+  'no_dose',
+  'unit_assumed',
+  'dose_range',
+  'no_frequency',
+  'conflicting_frequency',
+  'interval_range',
+  'od_eye_or_daily',
+  'single_dose',
+  'unrecognised',
+] as const;
+export type SigAmbiguityType = typeof SIG_AMBIGUITIES[number];
+
+export interface SigAmbiguity {
+  type: SigAmbiguityType;
+  /** The text concerned, e.g. the unrecognised words */
+  text?: string;
+}
+
+export interface SigDose {
+  amount: number;
+  /** Upper end of a range such as "1-2 tabs" */
+  maxAmount?: number;
+  unit: SigUnit;
+}
+
+export interface ParsedSig {
+  dose: SigDose | null;
+  /** The dose as a schedule dosage, e.g. "½ tablet"; empty without a dose */
+  dosage: string;
+  route?: SigRoute;
+  /**
+   * Nearest frequency the schedule form offers; the pattern holds the actual
+   * times (e.g. four for "qid"). Null when no frequency could be read.
+   */
+  frequency: ScheduleFrequency | null;
+  timing: ScheduleTiming;
+  pattern: SchedulePattern | null;
+  foodRequirement?: FoodRequirement;
+  timingConstraints?: TimingConstraint[];
+  prnLimits?: PrnLimits;
+  durationDays?: number;
+  /** 0..1 */
+  confidence: number;
+  ambiguities: SigAmbiguity[];
+}
+
+export interface SigParseOptions {
+  routine?: DailyRoutine;
+  /** Weekday of weekly schedules */
+  startDate?: Date;
+}
+
+type Slot = 'morning' | 'noon' | 'night' | 'bedtime';
+
+/** Routine event each slot's dose is taken at */
+const SLOT_EVENTS: Record<Slot, RoutineEvent> = {
+  morning: 'breakfast',
+  noon: 'lunch',
+  night: 'dinner',
+  bedtime: 'bed',
+};
+
+const AMBIGUITY_PENALTIES: Record<SigAmbiguityType, number> = {
+  no_dose: 0.3,
+  unit_assumed: 0.1,
+  dose_range: 0.1,
+  no_frequency: 0.4,
+  conflicting_frequency: 0.3,
+  interval_range: 0.1,
+  od_eye_or_daily: 0.2,
+  single_dose: 0.2,
+  unrecognised: 0.1,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  half: 0.5,
+  halwe: 0.5,
+  'n halwe': 0.5,
+  one: 1,
+  een: 1,
+  two: 2,
+  twee: 2,
+  three: 3,
+  drie: 3,
+  four: 4,
+  vier: 4,
+  once: 1,
+  twice: 2,
+};
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75 };
+
+const UNIT_WORDS: Array<[RegExp, SigUnit]> = [
+  [/^(?:tabs?|tablets?|tablette?|pills?|pille?)$/, 'tablet'],
+  [/^(?:caps?|capsules?|kapsules?)$/, 'capsule'],
+  [/^(?:puffs?|inhalations?|inasemings?|skote?)$/, 'puff'],
+  [/^(?:drops?|gtts?|druppels?)$/, 'drop'],
+  [/^(?:ml|mls|millilit(?:er|re)s?)$/, 'ml'],
+  [/^(?:u|units?|iu|ie|eenhede)$/, 'unit'],
+  [/^mg$/, 'mg'],
+  [/^(?:mcg|ug|µg)$/, 'mcg'],
+  [/^g$/, 'g'],
+  [/^(?:sachets?|sakkies?)$/, 'sachet'],
+  [/^(?:supps?|suppositor(?:y|ies)|setpille?)$/, 'suppository'],
+  [/^(?:patch(?:es)?|pleisters?)$/, 'patch'],
+  [/^(?:sprays?|spuite?)$/, 'spray'],
+  [/^(?:applications?|applic)$/, 'application'],
+];
+
+const UNIT_LABELS: Record<SigUnit, [string, string]> = {
+  tablet: ['tablet', 'tablets'],
+  capsule: ['capsule', 'capsules'],
+  puff: ['puff', 'puffs'],
+  drop: ['drop', 'drops'],
+  ml: ['ml', 'ml'],
+  unit: ['unit', 'units'],
+  mg: ['mg', 'mg'],
+  mcg: ['mcg', 'mcg'],
+  g: ['g', 'g'],
+  sachet: ['sachet', 'sachets'],
+  suppository: ['suppository', 'suppositories'],
+  patch: ['patch', 'patches'],
+  spray: ['spray', 'sprays'],
+  application: ['application', 'applications'],
+};
+
+/** Routes implied by a dose unit when none is written */
+const UNIT_ROUTES: Partial<Record<SigUnit, SigRoute>> = {
+  tablet: 'oral',
+  capsule: 'oral',
+  puff: 'inhaled',
+  suppository: 'rectal',
+  patch: 'transdermal',
+};
+
+const ROUTE_PATTERNS: Array<[RegExp, SigRoute]> = [
+  [/\b(?:po|per os|orally|oral|by mouth|per mond|mondeliks)\b/, 'oral'],
+  [/\b(?:sl|sublingual(?:ly)?|under the tongue|onder die tong)\b/, 'sublingual'],
+  [/\b(?:inh|inhaled?|inhaleer)\b/, 'inhaled'],
+  [/\b(?:sc|sq|subcut(?:aneous(?:ly)?)?|onderhuids)\b/, 'subcutaneous'],
+  [/\b(?:im|intramuscular(?:ly)?|binnespiers)\b/, 'intramuscular'],
+  [/\b(?:iv|intravenous(?:ly)?|binneaars)\b/, 'intravenous'],
+  [/\b(?:ou|os|both eyes|left eye|right eye|into the eyes?|in (?:die|albei) o[eë]|oog|o[eë])\b/, 'eye'],
+  [/\b(?:aural|(?:in(?:to)? )?(?:the |both )?ears?|in die ore?|ore?)\b/, 'ear'],
+  [/\b(?:nasal(?:ly)?|each nostril|nostrils?|in die neus|neus)\b/, 'nasal'],
+  [/\b(?:pr|per rectum|rectal(?:ly)?|rektaal)\b/, 'rectal'],
+  [/\b(?:pv|per vaginam|vaginal(?:ly)?|vaginaal)\b/, 'vaginal'],
+  [/\b(?:td|transdermal(?:ly)?)\b/, 'transdermal'],
+  [/\b(?:top|topical(?:ly)?|apply|smeer(?: aan)?|aanwend)\b/, 'topical'],
+];
+
+const MEAL_WORDS: Record<string, Meal | undefined> = {
+  breakfast: 'breakfast',
+  ontbyt: 'breakfast',
+  lunch: 'lunch',
+  middagete: 'lunch',
+  dinner: 'dinner',
+  supper: 'dinner',
+  aandete: 'dinner',
+};
+
+const STOPWORDS = new Set([
+  'take', 'neem', 'give', 'gee', 'use', 'gebruik', 'inject', 'spuit', 'instil', 'insert', 'place', 'plaas',
+  'of', 'the', 'a', 'an', 'and', 'en', 'n', 'to', 'by', 'per', 'at', 'om', 'in', 'on', 'op', 'x', 'then',
+  'daarna', 'each', 'elke', 'dose', 'dosis', 'times', 'keer', 'once', 'oral',
+]);
+
+const NUMBER = String.raw`(\d+\s*[½¼¾]|\d+(?:[.,]\d+)?|\d+\s*\/\s*\d+|[½¼¾]|half|halwe|'n halwe|one|een|two|twee|three|drie|four|vier)`;
+
+const readNumber = (text: string): number | null => {
+  const value = text.trim();
+  if (value in NUMBER_WORDS) return NUMBER_WORDS[value] ?? null;
+  const fraction = /^(\d+)\s*\/\s*(\d+)$/.exec(value);
+  if (fraction) return Number(fraction[2]) ? Number(fraction[1]) / Number(fraction[2]) : null;
+  const symbol = Object.keys(FRACTIONS).find(key => value.endsWith(key));
+  if (symbol) {
+    const whole = value.slice(0, -symbol.length).trim();
+    return (whole ? Number(whole) : 0) + (FRACTIONS[symbol] ?? 0);
+  }
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+};
+
+const readUnit = (word: string | undefined): SigUnit | undefined =>
+  word ? UNIT_WORDS.find(([pattern]) => pattern.test(word))?.[1] : undefined;
+
+const formatAmount = (amount: number): string => {
+  const whole = Math.floor(amount);
+  const symbol = Object.keys(FRACTIONS).find(key => Math.abs((FRACTIONS[key] ?? 0) - (amount - whole)) < 0.001);
+  if (symbol) return `${whole || ''}${symbol}`;
+  return String(Math.round(amount * 100) / 100);
+};
+
+/** The dose as a schedule dosage, e.g. "½ tablet", "1-2 tablets", "10 units" */
+export const formatSigDose = (dose: SigDose): string => {
+  const top = dose.maxAmount ?? dose.amount;
+  const [singular, plural] = UNIT_LABELS[dose.unit];
+  const amount = dose.maxAmount ? `${formatAmount(dose.amount)}-${formatAmount(dose.maxAmount)}` : formatAmount(dose.amount);
+  return `${amount} ${top > 1 ? plural : singular}`;
+};
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+const fromMinutes = (minutes: number): string => {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+const frequencyFor = (perDay: number): ScheduleFrequency =>
+  perDay <= 1 ? 'daily' : perDay === 2 ? 'twice_daily' : 'three_times_daily';
+
+interface SigState {
+  text: string;
+  dose?: SigDose;
+  unitAssumed?: boolean;
+  route?: SigRoute;
+  perDay: number[];
+  slots: Slot[];
+  intervalHours?: number;
+  alternateDays?: boolean;
+  weekly?: boolean;
+  asNeeded?: boolean;
+  stat?: boolean;
+  maxPerDay?: number;
+  durationDays?: number;
+  food?: FoodRequirement;
+  meal?: MealConstraint;
+  ambiguities: SigAmbiguity[];
+}
+
+type Rule = [RegExp, (match: RegExpExecArray, state: SigState) => void];
+
+const DURATION_UNITS: Array<[RegExp, number]> = [
+  [/^(?:days?|dae|dag)$/, 1],
+  [/^(?:weeks?|weke)$/, 7],
+  [/^(?:months?|maande?)$/, 30],
+];
+
+const TIMES_PER_DAY = String.raw`(\d|once|twice|een|twee|drie|vier|one|two|three|four)\s*(?:x|times|keer|maal)?\s*(?:a|per|\/|'n)?\s*(?:day|daily|dag|daagliks|d)`;
+
+/**
+ * Phrases, most specific first. Each one's text is taken out of the sig
+ * before the next runs, so "every 8 hours" isn't read again as a dose.
+ */
+const RULES: Rule[] = [
+  // Duration: "x 5/7" (days), "x 2/52" (weeks), "x 1/12" (months), "for 5 days"
+  [/\b(?:x|for|vir)\s*(\d+)\s*\/\s*(7|52|12)\b/g, (m, s) => {
+    s.durationDays = Number(m[1]) * (m[2] === '7' ? 1 : m[2] === '52' ? 7 : 30);
+  }],
+  [/\b(?:x|for|vir)\s*(\d+)\s*(days?|dae|dag|weeks?|weke|months?|maande?)\b/g, (m, s) => {
+    const factor = DURATION_UNITS.find(([pattern]) => pattern.test(m[2] ?? ''))?.[1] ?? 1;
+    s.durationDays = Number(m[1]) * factor;
+  }],
+  // Limits: "max 8 per day", "max 8 tabs/24h"
+  [/\bmax(?:imum)?\.?\s*(\d+)\s*(?:[a-z]+\s*)?(?:per|in|\/|a|'n)\s*(?:day|dag|24\s*(?:h|hrs?|hours?|uur))\b/g, (m, s) => {
+    s.maxPerDay = Number(m[1]);
+  }],
+  // Intervals: "q8h", "q4-6h", "every 6 hours", "elke 8 uur"
+  [/\b(?:q|every|elke)\s*(\d+)\s*(?:-\s*(\d+)\s*)?(?:h|hrs?|hours?|hourly|uur|ure)\b/g, (m, s) => {
+    s.intervalHours = Number(m[1]);
+    if (m[2]) s.ambiguities.push({ type: 'interval_range', text: m[0] });
+  }],
+  [/\b(?:eod|qod|alt(?:ernate)? days?|every other day|om die ander dag|elke tweede dag)\b/g, (_, s) => {
+    s.alternateDays = true;
+  }],
+  [/\b(?:weekly|once a week|weekliks|(?:een|1)\s*(?:x|keer)\s*(?:a|per|'n)\s*week)\b/g, (_, s) => {
+    s.weekly = true;
+  }],
+  [new RegExp(String.raw`\b${TIMES_PER_DAY}\b`, 'g'), (m, s) => {
+    const count = readNumber(m[1] ?? '');
+    if (count) s.perDay.push(count);
+  }],
+  [/\b(?:od|qd|daily|dly|daagliks)\b/g, (_, s) => s.perDay.push(1)],
+  [/\b(?:bd|bid)\b/g, (_, s) => s.perDay.push(2)],
+  [/\b(?:tds|tid)\b/g, (_, s) => s.perDay.push(3)],
+  [/\b(?:qid|qds)\b/g, (_, s) => s.perDay.push(4)],
+  [/\b(?:prn|as needed|as required|when needed|when required|if needed|if required|indien nodig|soos nodig|wanneer nodig)(?:\s+(?:for|vir|teen)\s+[a-z]+)?\b/g, (_, s) => {
+    s.asNeeded = true;
+  }],
+  [/\bstat\b/g, (_, s) => {
+    s.stat = true;
+  }],
+  // Meals: "30 min before breakfast", "voor ontbyt", "ac", "pc", "cc"
+  [/\b(?:(\d+)\s*(?:min(?:ute)?s?|minute)\s+)?(before|after|voor|na)\s+(breakfast|lunch|dinner|supper|ontbyt|middagete|aandete)\b/g, (m, s) => {
+    const meal = MEAL_WORDS[m[3] ?? ''];
+    const before = m[2] === 'before' || m[2] === 'voor';
+    s.meal = {
+      type: 'meal',
+      relation: before ? 'before_meal' : 'after_meal',
+      ...(meal && { meal }),
+      ...(m[1] && { minutes: Number(m[1]) }),
+    };
+    if (meal === 'breakfast') s.slots.push('morning');
+    if (meal === 'lunch') s.slots.push('noon');
+    if (meal === 'dinner') s.slots.push('night');
+  }],
+  [/\b(?:empty stomach|on an empty stomach|le[eë] maag|op 'n le[eë] maag)\b/g, (_, s) => {
+    s.food = 'empty_stomach';
+  }],
+  [/\b(?:ac|before (?:meals|food)|voor (?:etes?|kos))\b/g, (_, s) => {
+    s.meal = { type: 'meal', relation: 'before_meal' };
+  }],
+  [/\b(?:pc|after (?:meals|food)|na (?:etes?|kos))\b/g, (_, s) => {
+    s.meal = { type: 'meal', relation: 'after_meal' };
+    s.food = 'with_food';
+  }],
+  [/\b(?:cc|with (?:meals|food)|(?:saam )?met (?:etes?|kos))\b/g, (_, s) => {
+    s.food = 'with_food';
+  }],
+  // Times of day
+  [/\b(?:hs|at bedtime|before bed|voor slaaptyd|slaaptyd|voor jy gaan slaap)\b/g, (_, s) => s.slots.push('bedtime')],
+  [/\b(?:mane|in the morning|mornings?|soggens|smorens|smôrens|oggend)\b/g, (_, s) => s.slots.push('morning')],
+  [/\b(?:midday|noon|at lunch(?:time)?|middag|smiddags)\b/g, (_, s) => s.slots.push('noon')],
+  [/\b(?:nocte|at night|in the evening|evenings?|nightly|saans|in die aand|aand)\b/g, (_, s) => s.slots.push('night')],
+];
+
+const applyRoutes = (state: SigState): void => {
+  for (const [pattern, route] of ROUTE_PATTERNS) {
+    const global = new RegExp(pattern.source, 'g');
+    if (global.test(state.text)) {
+      state.route = state.route ?? route;
+      state.text = state.text.replace(global, ' ');
+    }
+  }
+};
+
+/**
+ * The dose: an amount, optionally a range, and its unit ("1-2 tabs",
+ * "½", "10 u", "een tablet").
+ */
+const applyDose = (state: SigState): void => {
+  const pattern = new RegExp(String.raw`(?:^|\s)${NUMBER}(?:\s*(?:-|to|tot)\s*${NUMBER})?\s*([a-zµ]+)?(?=\s|$)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(state.text))) {
+    const amount = readNumber(match[1] ?? '');
+    const maxAmount = match[2] ? readNumber(match[2]) : null;
+    const unit = readUnit(match[3]);
+    if (!amount || (match[3] && !unit && !STOPWORDS.has(match[3]))) continue;
+
+    state.dose = { amount, unit: unit ?? 'tablet', ...(maxAmount && maxAmount > amount && { maxAmount }) };
+    state.unitAssumed = !unit;
+    if (state.dose.maxAmount) state.ambiguities.push({ type: 'dose_range', text: match[0].trim() });
+    const keepWord = match[3] && !unit ? ` ${match[3]}` : '';
+    state.text = `${state.text.slice(0, match.index)} ${keepWord} ${state.text.slice(match.index + match[0].length)}`;
+    return;
+  }
+};
+
+const slotTimes = (slots: Slot[], routine: DailyRoutine): string[] =>
+  Array.from(new Set(slots.map(slot => routine[SLOT_EVENTS[slot]]))).sort();
+
+/**
+ * Frequency, timing and pattern from what was read. Named slots keep a
+ * named timing so the schedule follows the routine; anything else gets
+ * fixed times.
+ */
+const schedule = (
+  state: SigState,
+  routine: DailyRoutine,
+  startDate: Date
+): Pick<ParsedSig, 'frequency' | 'timing' | 'pattern' | 'prnLimits'> => {
+  const slots = Array.from(new Set(state.slots));
+  const named = slots.filter((slot): slot is Exclude<Slot, 'bedtime'> => slot !== 'bedtime');
+  const perDay = state.perDay[0];
+
+  if (state.asNeeded) {
+    const prnLimits: PrnLimits = {
+      ...(state.intervalHours && { minIntervalMinutes: state.intervalHours * 60 }),
+      ...((state.maxPerDay ?? perDay) && { maxDosesPer24h: state.maxPerDay ?? perDay }),
+    };
+    return {
+      frequency: 'as_needed',
+      timing: 'morning',
+      pattern: buildSchedulePattern('morning', 'as_needed', ALL_DAYS, undefined, routine),
+      ...(Object.keys(prnLimits).length > 0 && { prnLimits }),
+    };
+  }
+
+  if (state.intervalHours && state.intervalHours < 24 && 24 % state.intervalHours === 0) {
+    const count = 24 / state.intervalHours;
+    const first = toMinutes(routine.breakfast);
+    const times = Array.from({ length: count }, (_, i) => fromMinutes(first + i * state.intervalHours! * 60)).sort();
+    return { frequency: frequencyFor(count), timing: 'custom', pattern: { type: 'daily', daysOfWeek: ALL_DAYS, times } };
+  }
+  const everyDays = state.intervalHours && state.intervalHours % 24 === 0 ? state.intervalHours / 24 : undefined;
+
+  const timing: ScheduleTiming = named.length === 1 && slots.length === 1 ? named[0] ?? 'morning' : 'morning';
+  const single = (): SchedulePattern =>
+    slots.length === 1 && slots[0] === 'bedtime'
+      ? { type: 'daily', daysOfWeek: ALL_DAYS, times: [routine.bed] }
+      : buildSchedulePattern(timing, 'daily', ALL_DAYS, undefined, routine);
+  const singleTiming: ScheduleTiming = slots.length === 1 && slots[0] === 'bedtime' ? 'custom' : timing;
+
+  if (state.weekly || everyDays === 7) {
+    const daysOfWeek = ALL_DAYS.map((_, day) => day === startDate.getDay());
+    return {
+      frequency: 'weekly',
+      timing: singleTiming,
+      pattern: { ...single(), type: 'weekly', daysOfWeek },
+    };
+  }
+  if (state.alternateDays || (everyDays && everyDays > 1)) {
+    const days = everyDays ?? 2;
+    const pattern = days === 2
+      ? applyRecurrencePreset(single(), 'alternate_days')
+      : { type: 'rrule' as const, rrules: [`FREQ=DAILY;INTERVAL=${days}`], times: single().times };
+    return { frequency: 'daily', timing: singleTiming, pattern };
+  }
+
+  // Slots written out ("1 mane 1 nocte") say when each dose is
+  if (slots.length > 0 && (perDay === undefined || perDay === slots.length || everyDays === 1)) {
+    const count = slots.length;
+    if (count === 1 && named.length === 1) {
+      return { frequency: 'daily', timing, pattern: buildSchedulePattern(timing, 'daily', ALL_DAYS, undefined, routine) };
+    }
+    const standard = count === 2 ? ['morning', 'night'] : count === 3 ? ['morning', 'noon', 'night'] : null;
+    if (standard && standard.every(slot => named.includes(slot as Exclude<Slot, 'bedtime'>))) {
+      const frequency = frequencyFor(count);
+      return { frequency, timing: 'morning', pattern: buildSchedulePattern('morning', frequency, ALL_DAYS, undefined, routine) };
+    }
+    return {
+      frequency: frequencyFor(count),
+      timing: 'custom',
+      pattern: { type: 'daily', daysOfWeek: ALL_DAYS, times: slotTimes(slots, routine) },
+    };
+  }
+
+  const count = perDay ?? (everyDays === 1 ? 1 : undefined);
+  if (count === undefined) return { frequency: null, timing: 'morning', pattern: null };
+  if (count === 1) return { frequency: 'daily', timing: singleTiming, pattern: single() };
+  if (count === 2 || count === 3) {
+    const frequency = frequencyFor(count);
+    return { frequency, timing: 'morning', pattern: buildSchedulePattern('morning', frequency, ALL_DAYS, undefined, routine) };
+  }
+  // Four or more doses spread from waking to bedtime
+  const events: RoutineEvent[] = count === 4 ? ['breakfast', 'lunch', 'dinner', 'bed'] : [];
+  const times = events.length > 0
+    ? events.map(event => routine[event]).sort()
+    : Array.from({ length: count }, (_, i) => {
+      const wake = toMinutes(routine.wake);
+      const span = (toMinutes(routine.bed) - wake + 1440) % 1440;
+      return fromMinutes(wake + Math.round((span * i) / (count - 1) / 15) * 15);
+    }).sort();
+  return { frequency: frequencyFor(count), timing: 'custom', pattern: { type: 'daily', daysOfWeek: ALL_DAYS, times } };
+};
+
+const normalize = (sig: string): string =>
+  ` ${sig
+    .toLowerCase()
+    .replace(/[‐-―]/g, '-')
+    // "a.s.", "a.d.", "a.u." name the ear; undotted they are everyday words ("as directed")
+    .replace(/\ba\.[sdu]\./g, ' aural ')
+    // "b.d.", "p.c.", "t.d.s." -> "bd", "pc", "tds"
+    .replace(/\b(?:[a-z]\.){2,}(?=\s|$|[^a-z])/g, match => match.replace(/\./g, ''))
+    .replace(/(\d)([a-zµ])/g, '$1 $2')
+    .replace(/\bq\s+(\d)/g, 'q$1')
+    .replace(/\b(q|every|elke)\s*(\d+)\s+h\b/g, '$1$2h')
+    .replace(/[;:,()[\]]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    // Undotted, only straight after drops: "2 gtts as"
+    .replace(/\b(drops?|gtts?|druppels?) (?:as|ad|au)\b/g, '$1 aural')
+    .trim()} `;
+
+/**
+ * Read a sig. Always returns a result; check `confidence` and
+ * `ambiguities` before using it without the user confirming it.
+ */
+export const parseSig = (sig: string, options: SigParseOptions = {}): ParsedSig => {
+  const routine = options.routine ?? DEFAULT_ROUTINE;
+  const state: SigState = { text: normalize(sig), perDay: [], slots: [], ambiguities: [] };
+  const hadOd = /\bod\b/.test(state.text);
+
+  RULES.forEach(([pattern, apply]) => {
+    state.text = state.text.replace(pattern, (...args) => {
+      const match = Object.assign([...args.slice(0, -2)], { index: args[args.length - 2] }) as unknown as RegExpExecArray;
+      apply(match, state);
+      return ' ';
+    });
+  });
+  applyRoutes(state);
+  applyDose(state);
+
+  const { dose } = state;
+  if (!dose) state.ambiguities.push({ type: 'no_dose' });
+  else if (state.unitAssumed) state.ambiguities.push({ type: 'unit_assumed' });
+  const impliedRoute = dose && UNIT_ROUTES[dose.unit];
+  if (!state.route && impliedRoute) state.route = impliedRoute;
+  if (hadOd && dose?.unit === 'drop' && (!state.route || state.route === 'eye')) {
+    state.ambiguities.push({ type: 'od_eye_or_daily', text: 'od' });
+  }
+  if (new Set(state.perDay).size > 1) {
+    state.ambiguities.push({ type: 'conflicting_frequency', text: state.perDay.join(' / ') });
+  }
+
+  const planned = schedule(state, routine, options.startDate ?? new Date());
+  if (!planned.pattern) {
+    state.ambiguities.push(state.stat ? { type: 'single_dose', text: 'stat' } : { type: 'no_frequency' });
+  }
+
+  const unknown = state.text.split(' ').filter(word => word && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  if (unknown.length > 0) state.ambiguities.push({ type: 'unrecognised', text: unknown.join(' ') });
+
+  const penalty = state.ambiguities.reduce(
+    (sum, ambiguity) =>
+      sum + AMBIGUITY_PENALTIES[ambiguity.type] * (ambiguity.type === 'unrecognised' ? Math.min(3, unknown.length) : 1),
+    0
+  );
+  const timingConstraints = state.meal ? [state.meal] : undefined;
+
+  return {
+    dose: dose ?? null,
+    dosage: dose ? formatSigDose(dose) : '',
+    ...(state.route && { route: state.route }),
+    ...planned,
+    ...(planned.pattern && state.durationDays && { pattern: { ...planned.pattern, duration: state.durationDays } }),
+    ...(state.food && { foodRequirement: state.food }),
+    ...(timingConstraints && { timingConstraints }),
+    ...(state.durationDays && { durationDays: state.durationDays }),
+    confidence: Math.round(Math.max(0, 1 - penalty) * 100) / 100,
+    ambiguities: state.ambiguities,
+  };
+};
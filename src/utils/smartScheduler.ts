@@ -1,11 +1,20 @@
 import { format, isWithinInterval } from 'date-fns'
+import interactionService from '../services/interactionService'
+import type { DoseEvent } from '../types/dose'
+import type { DrugInteraction, InteractionSeverity, InteractionSubject } from '../types/interaction'
+import { DEFAULT_ROUTINE } from '../types/routine'
+import type { DailyRoutine } from '../types/routine'
+import { ALL_DAYS, isAsNeededSchedule } from '../types/schedule'
+import type { FoodRequirement, MedicationSchedule, MedicationScheduleInput, SchedulePattern } from '../types/schedule'
+import type { MealConstraint } from '../types/timingConstraint'
+import { DailyPlan, DailyPlanOptions, PlanDose, PlanRule, solveDailyPlan } from './dailyPlan'
+import { IntakePattern, IntakePatternOptions, findIntakePatterns } from './intakePatterns'
+import { getDoseTimesOn } from './scheduleUtils'
 
 /**
- * Minimal medication shape used for interaction heuristics.
+ * Minimal medication shape checked by the interaction engine.
  */
-export interface MedicationLike {
-  name?: string
-  interactions?: string[]
+export interface MedicationLike extends InteractionSubject {
   enrichedData?: {
     interactions?: Array<{ medications: string[] }>
   }
@@ -23,11 +32,7 @@ export interface ScheduleLike {
   mealRelation?: 'before_meal' | 'with_meal' | 'after_meal' | 'empty_stomach' | 'any'
 }
 
-export interface MealTimes {
-  breakfast: string // HH:MM
-  lunch: string // HH:MM
-  dinner: string // HH:MM
-}
+export type MealTimes = Pick<DailyRoutine, 'breakfast' | 'lunch' | 'dinner'>
 
 /**
  * Minimal conflict entry for quick UI surfacing.
@@ -37,17 +42,56 @@ export interface SmartScheduleConflict {
   severity: 'low' | 'medium' | 'high' | 'critical'
   description: string
   relatedSchedule: ScheduleLike
+  interaction?: DrugInteraction
 }
 
 /**
- * South African typical meal times used as defaults where none are provided.
+ * What kept a suggested dose time short of when the user usually takes it.
+ */
+export type SuggestionLimit = 'meal' | 'interval' | 'interaction'
+
+/**
+ * A dose time the user consistently takes late or early, moved towards
+ * when they actually take it.
  */
-const DEFAULT_MEAL_TIMES: MealTimes = {
-  breakfast: '07:00',
-  lunch: '13:00',
-  dinner: '19:00'
+export interface DoseTimeSuggestion {
+  pattern: IntakePattern
+  suggestedTime: string // HH:MM
+  /** The schedule's pattern with the move applied */
+  schedulePattern: SchedulePattern
+  limitedBy?: SuggestionLimit
+}
+
+export interface DoseTimeSuggestionOptions extends IntakePatternOptions {
+  medication?: MedicationLike
+  mealTimes?: Partial<MealTimes>
+}
+
+export interface DailyTimetableOptions extends DailyPlanOptions {
+  /** Day to plan, following the routine and travel; the pattern's times when absent */
+  date?: Date
+  routine?: Partial<DailyRoutine>
+  medications?: Array<MedicationLike & { id: string }>
 }
 
+const CONFLICT_SEVERITY: Record<InteractionSeverity, SmartScheduleConflict['severity']> = {
+  minor: 'low',
+  moderate: 'medium',
+  major: 'high',
+  contraindicated: 'critical'
+}
+
+/** Share of the gap between a schedule's doses the timetable keeps */
+const MIN_DOSE_GAP_RATIO = 2 / 3
+
+/** Suggested dose times move in steps of this many minutes */
+const SUGGESTION_STEP_MINUTES = 15
+
+/** Closest a suggestion brings two doses of a schedule, unless they already are closer */
+const MIN_DOSE_INTERVAL_MINUTES = 4 * 60
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
 function toToday(timeHHmm: string): Date {
   if (!timeHHmm || !/^\d{1,2}:\d{2}$/.test(timeHHmm)) {
     return new Date(NaN)
@@ -62,6 +106,17 @@ function toToday(timeHHmm: string): Date {
   return d
 }
 
+function toMealRelation(requirement?: FoodRequirement): NonNullable<ScheduleLike['mealRelation']> {
+  switch (requirement) {
+    case 'with_food':
+      return 'with_meal'
+    case 'empty_stomach':
+      return 'empty_stomach'
+    default:
+      return 'any'
+  }
+}
+
 function diffMinutes(a: Date, b: Date): number {
   return Math.abs(Math.round((a.getTime() - b.getTime()) / 60000))
 }
@@ -70,6 +125,107 @@ function getScheduleTime(s: ScheduleLike): string | undefined {
   return s.time || s.scheduledTime
 }
 
+/**
+ * Minutes between two daily times, taking the shorter way round midnight.
+ */
+function dailyGapMinutes(a: Date, b: Date): number {
+  const diff = diffMinutes(a, b) % 1440
+  return Math.min(diff, 1440 - diff)
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+function fromMinutes(minutes: number): string {
+  const m = ((minutes % 1440) + 1440) % 1440
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`
+}
+
+function timeGapMinutes(a: string, b: string): number {
+  const diff = Math.abs(toMinutes(a) - toMinutes(b)) % 1440
+  return Math.min(diff, 1440 - diff)
+}
+
+/**
+ * Whether a dose time suits its meal relation: with a meal within 30 minutes
+ * of one, before a meal 15 to 60 minutes ahead of one, after a meal within an
+ * hour of one, and on an empty stomach at least 30 minutes before and 2 hours
+ * after every meal.
+ */
+function fitsMealRelation(time: string, relation: ScheduleLike['mealRelation'], meals: MealTimes): boolean {
+  // Minutes after each meal, the shorter way round midnight
+  const offsets = [meals.breakfast, meals.lunch, meals.dinner].map(
+    (meal) => ((((toMinutes(time) - toMinutes(meal) + 720) % 1440) + 1440) % 1440) - 720
+  )
+  switch (relation) {
+    case 'with_meal':
+      return offsets.some((offset) => Math.abs(offset) <= 30)
+    case 'before_meal':
+      return offsets.some((offset) => offset >= -60 && offset <= -15)
+    case 'after_meal':
+      return offsets.some((offset) => offset >= 0 && offset <= 60)
+    case 'empty_stomach':
+      return offsets.every((offset) => offset <= -30 || offset >= 120)
+    default:
+      return true
+  }
+}
+
+/**
+ * Meal rule a food requirement stands for, when it has one.
+ */
+function mealConstraintFor(requirement?: FoodRequirement): MealConstraint | null {
+  switch (requirement) {
+    case 'with_food':
+      return { type: 'meal', relation: 'with_meal' }
+    case 'empty_stomach':
+      return { type: 'meal', relation: 'empty_stomach' }
+    default:
+      return null
+  }
+}
+
+function weeklyRules(days: number[], times: string[]): string[] {
+  if (days.length === 0) return []
+  const byDay = days.map((day) => RRULE_WEEKDAYS[day]).join(',')
+  return times.map((time) => {
+    const [h, m] = time.split(':').map(Number)
+    return `FREQ=WEEKLY;BYDAY=${byDay};BYHOUR=${h};BYMINUTE=${m}`
+  })
+}
+
+/**
+ * A schedule pattern with one dose time moved. Moves for weekdays or
+ * weekends only turn daily and weekly patterns into one weekly rule per
+ * dose time; patterns that can't take the move give null.
+ */
+function movePatternTime(pattern: SchedulePattern, intake: IntakePattern, time: string): SchedulePattern | null {
+  if ((pattern.rrules || []).some((rule) => /BYHOUR/i.test(rule))) return null
+  const times = pattern.times.map((t) => (t === intake.time ? time : t)).sort()
+  if (intake.days === 'all') return { ...pattern, times }
+
+  if ((pattern.type !== 'daily' && pattern.type !== 'weekly') || pattern.cycle) return null
+  const { daysOfWeek = ALL_DAYS, ...rest } = pattern
+  const days = daysOfWeek.flatMap((on, day) => (on ? [day] : []))
+  const moved = days.filter((day) => (day === 0 || day === 6) === (intake.days === 'weekends'))
+  if (moved.length === 0) return null
+  const kept = days.filter((day) => !moved.includes(day))
+
+  return {
+    ...rest,
+    type: 'rrule',
+    rrules: [...weeklyRules(kept, pattern.times), ...weeklyRules(moved, times)],
+    times: pattern.times
+  }
+}
+
+function toSubject(medication: MedicationLike): InteractionSubject {
+  const enriched = (medication.enrichedData?.interactions || []).flatMap((i) => i.medications)
+  return { ...medication, interactions: [...(medication.interactions || []), ...enriched] }
+}
+
 function isWithinMinutesOf(a: Date, b: Date, minutes: number): boolean {
   return diffMinutes(a, b) <= minutes
 }
@@ -91,75 +247,264 @@ export class SmartMedicationScheduler {
    * Returns the subset of existing schedules that conflict.
    */
   static detectScheduleConflicts(newSchedule: ScheduleLike, existingSchedules: ScheduleLike[]): ScheduleLike[] {
-    return existingSchedules.filter((schedule) => {
-      // Drug interaction heuristic
-      if (this.hasInteraction(newSchedule.medication, schedule.medication)) {
-        return true
-      }
+    return existingSchedules.filter((schedule) => this.conflictsBetween(newSchedule, schedule).length > 0)
+  }
+
+  /**
+   * Same check as detectScheduleConflicts, with the reason for each conflict.
+   */
+  static describeScheduleConflicts(newSchedule: ScheduleLike, existingSchedules: ScheduleLike[]): SmartScheduleConflict[] {
+    return existingSchedules.flatMap((schedule) => this.conflictsBetween(newSchedule, schedule))
+  }
 
-      // Timing/meal conflicts
-      return this.hasTimingConflict(newSchedule, schedule)
+  /**
+   * Interactions a new schedule introduces against existing ones that dose
+   * timing does not avoid, one entry per rule and medication pair.
+   */
+  static findScheduleInteractions(newEntries: ScheduleLike[], existingEntries: ScheduleLike[]): DrugInteraction[] {
+    const byKey = new Map<string, DrugInteraction>()
+    newEntries.forEach((entry) => {
+      this.describeScheduleConflicts(entry, existingEntries).forEach(({ interaction }) => {
+        if (interaction) {
+          byKey.set(`${interaction.ruleId}|${interaction.medications.join('|')}`, interaction)
+        }
+      })
     })
+    return Array.from(byKey.values())
+  }
+
+  /**
+   * Expand a canonical schedule into one ScheduleLike entry per dose time.
+   * Unsaved schedules (no id yet) are accepted so they can be checked first.
+   */
+  static fromSchedule(
+    schedule: MedicationScheduleInput & Partial<Pick<MedicationSchedule, 'id'>>,
+    medication?: MedicationLike
+  ): ScheduleLike[] {
+    return schedule.pattern.times.map((time) => ({
+      ...(schedule.id !== undefined && { id: schedule.id }),
+      medicationId: schedule.medicationId,
+      medication: medication ?? { name: schedule.medicationName },
+      time,
+      mealRelation: toMealRelation(schedule.foodRequirement)
+    }))
   }
 
   /**
-   * Suggest optimal dosing times based on frequency and typical SA meal times.
+   * Suggest optimal dosing times based on frequency and the user's routine,
+   * a typical SA day where none is given.
    * Frequencies supported: once_daily, twice_daily, three_times_daily|thrice_daily, four_times_daily.
    */
-  static optimizeDosingTimes(frequency: string, mealTimes?: Partial<MealTimes>): string[] {
-    const meals: MealTimes = { ...DEFAULT_MEAL_TIMES, ...(mealTimes || {}) }
-    return this.calculateOptimalTimes(frequency, meals)
+  static optimizeDosingTimes(frequency: string, routine?: Partial<DailyRoutine>): string[] {
+    return this.calculateOptimalTimes(frequency, { ...DEFAULT_ROUTINE, ...(routine || {}) })
   }
 
   /**
-   * Very lightweight interaction heuristic using available fields.
+   * Suggest moving dose times the user consistently takes late or early, as
+   * learnt from their dose history. Each move goes as far towards the usual
+   * intake time as the dose's meal relation, the spacing of the schedule's
+   * doses and interactions with other schedules allow. A rule the current
+   * time already breaks only keeps a move from making things worse.
    */
-  private static hasInteraction(a?: MedicationLike, b?: MedicationLike): boolean {
-    if (!a || !b) return false
-    const aName = (a.name || '').toLowerCase().trim()
-    const bName = (b.name || '').toLowerCase().trim()
+  static suggestDoseTimes(
+    schedule: MedicationSchedule,
+    events: DoseEvent[],
+    otherSchedules: ScheduleLike[] = [],
+    options: DoseTimeSuggestionOptions = {}
+  ): DoseTimeSuggestion[] {
+    // Phases replace the pattern's times
+    if ((schedule.phases || []).length > 0) return []
+    const { medication, mealTimes, ...patternOptions } = options
+    const meals: MealTimes = { ...DEFAULT_ROUTINE, ...(mealTimes || {}) }
+    const entries = this.fromSchedule(schedule, medication)
+
+    return findIntakePatterns(schedule, events, patternOptions).flatMap((intake) => {
+      const entry = entries.find((e) => e.time === intake.time)
+      if (!entry) return []
+      const siblings = schedule.pattern.times.filter((t) => t !== intake.time)
+      const minInterval = Math.min(MIN_DOSE_INTERVAL_MINUTES, ...siblings.map((t) => timeGapMinutes(t, intake.time)))
+      const fitsMeal = fitsMealRelation(intake.time, entry.mealRelation, meals)
+      const clashes = this.countClashes(entry, otherSchedules)
+
+      const limitOf = (time: string): SuggestionLimit | null => {
+        if (siblings.some((t) => timeGapMinutes(t, time) < minInterval)) return 'interval'
+        if (fitsMeal && !fitsMealRelation(time, entry.mealRelation, meals)) return 'meal'
+        if (this.countClashes({ ...entry, time }, otherSchedules) > clashes) return 'interaction'
+        return null
+      }
 
-    if (!aName || !bName) return false
+      const shift = Math.round(intake.delayMinutes / SUGGESTION_STEP_MINUTES) * SUGGESTION_STEP_MINUTES
+      const step = Math.sign(shift) * SUGGESTION_STEP_MINUTES
+      let limitedBy: SuggestionLimit | undefined
+      for (let moved = shift; moved !== 0; moved -= step) {
+        const time = fromMinutes(toMinutes(intake.time) + moved)
+        const limit = limitOf(time)
+        if (limit) {
+          limitedBy = limitedBy ?? limit
+          continue
+        }
+        const schedulePattern = movePatternTime(schedule.pattern, intake, time)
+        if (!schedulePattern) return []
+        return [{ pattern: intake, suggestedTime: time, schedulePattern, ...(limitedBy && { limitedBy }) }]
+      }
+      return []
+    })
+  }
 
-    // If either medication lists the other by name in interactions
-    const aInteracts = (a.interactions || []).some((n) => n.toLowerCase().includes(bName))
-    const bInteracts = (b.interactions || []).some((n) => n.toLowerCase().includes(aName))
+  /**
+   * A conflict-free timetable for a day's doses of the active, scheduled
+   * (not as-needed) schedules: meal rules from each schedule's food
+   * requirement or its own timing constraints, spacing from interactions and
+   * "apart from" constraints, and a schedule's doses kept in order and most
+   * of their gap apart. Where none exists, the plan lists the rules that
+   * can't all be kept.
+   */
+  static planDailyTimetable(schedules: MedicationSchedule[], options: DailyTimetableOptions = {}): DailyPlan {
+    const { date, routine, medications = [], ...planOptions } = options
+    const day: DailyRoutine = { ...DEFAULT_ROUTINE, ...(routine || {}) }
+    const planned = schedules.filter((schedule) => schedule.status === 'active' && !isAsNeededSchedule(schedule))
+    // Doses of a schedule in waking-day order, so night doses come last
+    const wakingMinutes = (time: string) => (toMinutes(time) - toMinutes(day.wake) + 1440) % 1440
+    const subjectOf = (schedule: MedicationSchedule): InteractionSubject =>
+      toSubject(medications.find((m) => m.id === schedule.medicationId) ?? { name: schedule.medicationName })
+
+    const dosesOf = new Map<string, PlanDose[]>()
+    planned.forEach((schedule) => {
+      const times = date ? getDoseTimesOn(schedule, date).map((time) => format(time, 'HH:mm')) : schedule.pattern.times
+      const unique = Array.from(new Set(times)).sort((a, b) => wakingMinutes(a) - wakingMinutes(b))
+      if (unique.length === 0) return
+      dosesOf.set(
+        schedule.id,
+        unique.map((time) => ({
+          id: `${schedule.id}@${time}`,
+          scheduleId: schedule.id,
+          medicationName: schedule.medicationName,
+          dosage: schedule.dosage,
+          time
+        }))
+      )
+    })
+    const active = planned.filter((schedule) => dosesOf.has(schedule.id))
+
+    const rules: PlanRule[] = []
+    active.forEach((schedule, index) => {
+      const doses = dosesOf.get(schedule.id) || []
+      const constraints = schedule.timingConstraints || []
+      const ownMeal = constraints.filter((c): c is MealConstraint => c.type === 'meal')
+      const fallback = mealConstraintFor(schedule.foodRequirement)
+      const meals = ownMeal.length > 0 ? ownMeal : fallback ? [fallback] : []
+      doses.forEach((dose, i) => {
+        meals.forEach((constraint) => rules.push({ type: 'meal', doseId: dose.id, constraint }))
+        const next = doses[i + 1]
+        if (next) {
+          const gap = (toMinutes(next.time) - toMinutes(dose.time) + 1440) % 1440
+          rules.push({ type: 'sequence', doseIds: [dose.id, next.id], minutes: Math.floor(gap * MIN_DOSE_GAP_RATIO) })
+        }
+      })
+
+      active.forEach((other, otherIndex) => {
+        if (other === schedule) return
+        const otherDoses = dosesOf.get(other.id) || []
+        const apart = (minutes: number, reason: 'interaction' | 'constraint', detail: string) =>
+          doses.forEach((dose) =>
+            otherDoses.forEach((otherDose) =>
+              rules.push({ type: 'apart', doseIds: [dose.id, otherDose.id], minutes, reason, detail })
+            )
+          )
+        constraints.forEach((constraint) => {
+          if (constraint.type === 'apart' && interactionService.refersTo(subjectOf(other), constraint.from)) {
+            apart(constraint.hours * 60, 'constraint', constraint.from)
+          }
+        })
+        // Each pair of schedules once for interactions
+        if (otherIndex < index) return
+        interactionService.checkPair(subjectOf(schedule), subjectOf(other)).forEach((interaction) => {
+          if (interaction.spacingHours !== undefined) apart(interaction.spacingHours * 60, 'interaction', interaction.ruleId)
+        })
+      })
+    })
 
-    // If enriched data exists, check interaction medication lists
-    const aEnrichedInteracts = (a.enrichedData?.interactions || []).some((i) =>
-      i.medications.some((n) => n.toLowerCase().includes(bName))
-    )
-    const bEnrichedInteracts = (b.enrichedData?.interactions || []).some((i) =>
-      i.medications.some((n) => n.toLowerCase().includes(aName))
+    return solveDailyPlan(
+      active.flatMap((schedule) => dosesOf.get(schedule.id) || []),
+      rules,
+      day,
+      planOptions
     )
+  }
+
+  /**
+   * Interactions and meal clashes with other schedules; doses close together
+   * are fine to take together.
+   */
+  private static countClashes(entry: ScheduleLike, others: ScheduleLike[]): number {
+    return this.describeScheduleConflicts(entry, others).filter((conflict) => conflict.type !== 'timing_overlap').length
+  }
+
+  private static conflictsBetween(a: ScheduleLike, b: ScheduleLike): SmartScheduleConflict[] {
+    const conflicts: SmartScheduleConflict[] = this.findInteractions(a, b).map((interaction) => ({
+      type: 'interaction',
+      severity: CONFLICT_SEVERITY[interaction.severity],
+      description: `${interaction.medications.join(' + ')}: ${interaction.mechanism}`,
+      relatedSchedule: b,
+      interaction
+    }))
+
+    const timing = this.hasTimingConflict(a, b)
+    if (timing) {
+      conflicts.push({
+        type: timing,
+        severity: timing === 'meal_conflict' ? 'medium' : 'low',
+        description: timing === 'meal_conflict' ? 'Meal requirements clash' : 'Doses within 30 minutes of each other',
+        relatedSchedule: b
+      })
+    }
+    return conflicts
+  }
+
+  /**
+   * Interactions from the interaction engine that spacing the two doses
+   * does not already avoid.
+   */
+  private static findInteractions(a: ScheduleLike, b: ScheduleLike): DrugInteraction[] {
+    if (!a.medication || !b.medication) return []
+    const interactions = interactionService.checkPair(toSubject(a.medication), toSubject(b.medication))
 
-    return aInteracts || bInteracts || aEnrichedInteracts || bEnrichedInteracts
+    const tA = getScheduleTime(a)
+    const tB = getScheduleTime(b)
+    const dA = tA ? toToday(tA) : new Date(NaN)
+    const dB = tB ? toToday(tB) : new Date(NaN)
+    if (Number.isNaN(dA.getTime()) || Number.isNaN(dB.getTime())) {
+      return interactions
+    }
+
+    const gap = dailyGapMinutes(dA, dB)
+    return interactions.filter((i) => i.spacingHours === undefined || gap < i.spacingHours * 60)
   }
 
   /**
    * Detect timing conflicts based on proximity and meal relations.
    */
-  private static hasTimingConflict(a: ScheduleLike, b: ScheduleLike): boolean {
+  private static hasTimingConflict(a: ScheduleLike, b: ScheduleLike): 'timing_overlap' | 'meal_conflict' | null {
     const tA = getScheduleTime(a)
     const tB = getScheduleTime(b)
-    if (!tA || !tB) return false
+    if (!tA || !tB) return null
 
     const dA = toToday(tA)
     const dB = toToday(tB)
 
     if (Number.isNaN(dA.getTime()) || Number.isNaN(dB.getTime())) {
-      return false
+      return null
     }
 
     // Overlap threshold: 30 minutes proximity = conflict
-    if (isWithinMinutesOf(dA, dB, 30)) return true
+    if (isWithinMinutesOf(dA, dB, 30)) return 'timing_overlap'
 
     // Meal relation conflicts
     const ar = a.mealRelation || 'any'
     const br = b.mealRelation || 'any'
 
     // Empty stomach vs with/after meal within ±2h window of meal is conflicting
-    const meals = DEFAULT_MEAL_TIMES
+    const meals = DEFAULT_ROUTINE
     const mealWindows = [
       mealWindow(meals.breakfast, 120, 60),
       mealWindow(meals.lunch, 120, 60),
@@ -170,7 +515,7 @@ export class SmartMedicationScheduler {
     const bInMealWindow = mealWindows.some((w) => isWithinInterval(dB, w))
 
     if ((ar === 'empty_stomach' && bInMealWindow) || (br === 'empty_stomach' && aInMealWindow)) {
-      return true
+      return 'meal_conflict'
     }
 
     // Before_meal should not collide with with_meal/after_meal within 60 minutes
@@ -178,22 +523,22 @@ export class SmartMedicationScheduler {
       (ar === 'before_meal' && (br === 'with_meal' || br === 'after_meal') && isWithinMinutesOf(dA, dB, 60)) ||
       (br === 'before_meal' && (ar === 'with_meal' || ar === 'after_meal') && isWithinMinutesOf(dA, dB, 60))
     ) {
-      return true
+      return 'meal_conflict'
     }
 
-    return false
+    return null
   }
 
   /**
    * Internal: determine optimal times for common dosing frequencies.
    */
-  private static calculateOptimalTimes(frequency: string, mealTimes: MealTimes): string[] {
+  private static calculateOptimalTimes(frequency: string, routine: DailyRoutine): string[] {
     const f = frequency.toLowerCase().replace(/\s+/g, '_')
 
-    const breakfast = mealTimes.breakfast
-    const lunch = mealTimes.lunch
-    const dinner = mealTimes.dinner
-    const bedtime = '21:00'
+    const breakfast = routine.breakfast
+    const lunch = routine.lunch
+    const dinner = routine.dinner
+    const bedtime = routine.bed
 
     if (f.includes('once') || f.includes('once_daily') || f === 'qd' || f === 'od' || f === 'daily') {
       return [breakfast]
@@ -0,0 +1,140 @@
+/**
+ * MedGuard SA - Sync id remapping
+ * Records created offline carry a local id ("local_…") until the server
+ * assigns one. Other records may already point at them: a schedule at its
+ * medication, a dose log at its schedule. Once the server id is known these
+ * references are rewritten everywhere, or the referring records would be
+ * pushed without a server id to link to.
+ */
+
+import { toApiId } from '../types/api';
+import { ImportStep } from '../types/importTransaction';
+import { PendingChange, SYNC_ENTITIES, SyncEntity } from '../types/sync';
+
+/** Fields of each entity holding the id of another entity */
+export const SYNC_REFERENCES: Record<SyncEntity, Array<{ entity: SyncEntity; field: string }>> = {
+  medications: [
+    { entity: 'schedules', field: 'medicationId' },
+    { entity: 'reminders', field: 'medicationId' },
+    { entity: 'logs', field: 'medicationId' },
+    { entity: 'prescriptions', field: 'medicationIds' },
+  ],
+  schedules: [{ entity: 'logs', field: 'scheduleId' }],
+  reminders: [],
+  logs: [],
+  prescriptions: [],
+};
+
+/**
+ * A record (or partial payload) of `entity` with references to the
+ * `referenced` record moved from `previousId` to `nextId`. The same object
+ * comes back when nothing pointed at it.
+ */
+export const remapReferences = <T extends object>(
+  entity: SyncEntity,
+  record: T,
+  referenced: SyncEntity,
+  previousId: string,
+  nextId: string
+): T => {
+  let next = record;
+  SYNC_REFERENCES[referenced]
+    .filter(reference => reference.entity === entity)
+    .forEach(({ field }) => {
+      const value = (next as Record<string, unknown>)[field];
+      if (value === previousId) {
+        next = { ...next, [field]: nextId };
+      } else if (Array.isArray(value) && value.includes(previousId)) {
+        next = { ...next, [field]: value.map(id => (id === previousId ? nextId : id)) };
+      }
+    });
+  return next;
+};
+
+/**
+ * Whether a record (or payload) of `entity` points at a record that only
+ * exists locally. Sending it now would lose the link, so it waits in the
+ * queue behind the create of the record it points at.
+ */
+export const hasLocalReferences = (entity: SyncEntity, record: object): boolean =>
+  SYNC_ENTITIES.some(referenced =>
+    SYNC_REFERENCES[referenced]
+      .filter(reference => reference.entity === entity)
+      .some(({ field }) => {
+        const value = (record as Record<string, unknown>)[field];
+        const ids = Array.isArray(value) ? value : [value];
+        return ids.some(id => typeof id === 'string' && toApiId(id) === undefined);
+      })
+  );
+
+/**
+ * Queued changes after a create of `entity` came back with a server id:
+ * later changes to the record itself and every payload referring to it use
+ * the new id.
+ */
+export const remapPendingChanges = (
+  changes: PendingChange[],
+  entity: SyncEntity,
+  previousId: string,
+  nextId: string
+): PendingChange[] =>
+  changes.map(change => {
+    const recordId = change.entity === entity && change.recordId === previousId ? nextId : change.recordId;
+    const payload = change.payload && remapReferences(change.entity, change.payload, entity, previousId, nextId);
+    if (recordId === change.recordId && payload === change.payload) return change;
+    return { ...change, recordId, ...(payload && { payload }) };
+  });
+
+/**
+ * A dose id (see doseIdFor) after its schedule's id changed. Dose ids start
+ * with the schedule id, so other schedules' doses are left alone.
+ */
+export const remapDoseId = (doseId: string, previousScheduleId: string, nextScheduleId: string): string =>
+  doseId.startsWith(`${previousScheduleId}-`) ? `${nextScheduleId}${doseId.slice(previousScheduleId.length)}` : doseId;
+
+/**
+ * The queue once `sent` has reached the server, where the record now has
+ * `nextId`. The change leaves the queue unless it was edited while on its
+ * way; then what is left is an edit of the sent record, pushed next. Later
+ * changes follow the record to its new id.
+ */
+export const settleSentChange = (pending: PendingChange[], sent: PendingChange, nextId: string): PendingChange[] => {
+  const stored = pending.find(change => change.id === sent.id);
+  const rest = pending.filter(change => change !== stored);
+  const next =
+    stored && JSON.stringify(stored) !== JSON.stringify(sent)
+      ? [{ ...stored, operation: stored.operation === 'create' ? 'update' as const : stored.operation, attempts: 0 }, ...rest]
+      : rest;
+  return nextId === sent.recordId ? next : remapPendingChanges(next, sent.entity, sent.recordId, nextId);
+};
+
+/**
+ * An import step (see importService) after a record of `entity` it names
+ * got its server id, so undoing the import deletes or restores that record
+ * rather than its old local id. The same step comes back when it names
+ * nothing of the kind.
+ */
+export const remapImportStep = (
+  step: ImportStep,
+  entity: SyncEntity,
+  previousId: string,
+  nextId: string
+): ImportStep => {
+  const remap = (id: string) => (id === previousId ? nextId : id);
+  switch (step.type) {
+    case 'medication_created':
+      return entity === 'medications' && step.id === previousId ? { ...step, id: nextId } : step;
+    case 'schedule_created':
+      return entity === 'schedules' && step.id === previousId ? { ...step, id: nextId } : step;
+    case 'prescription_created':
+      return entity === 'prescriptions' && step.id === previousId ? { ...step, id: nextId } : step;
+    case 'stock_refilled':
+      return entity === 'medications' && step.medicationId === previousId ? { ...step, medicationId: nextId } : step;
+    case 'prescription_updated':
+      if (entity === 'prescriptions' && step.id === previousId) return { ...step, id: nextId };
+      if (entity === 'medications' && step.previous.medicationIds.includes(previousId)) {
+        return { ...step, previous: { ...step.previous, medicationIds: step.previous.medicationIds.map(remap) } };
+      }
+      return step;
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * MedGuard SA - Travel mode rules
+ * Applies the travel settings to schedules, picks out the time-critical ones
+ * and proposes the day-by-day plan for moving one to local time gradually.
+ * Where the doses then fall is worked out in utils/scheduleUtils.ts.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import { MedicationSchedule } from '../types/schedule';
+import { TravelLeg, TravelSettings } from '../types/travel';
+import { getDoseTimesBetween } from './scheduleUtils';
+
+/** Days a proposed plan runs for at most */
+const MAX_PLAN_DAYS = 14;
+
+/** Insulins and hormonal contraceptives, whose timing matters whatever their priority */
+const TIME_CRITICAL_NAMES =
+  /insulin|lantus|levemir|tresiba|humulin|novorapid|apidra|contracept|levonorgestrel|desogestrel|norethisterone|ethinylestradiol/i;
+
+export const isTimeCritical = (schedule: Pick<MedicationSchedule, 'priority' | 'medicationName'>): boolean =>
+  schedule.priority === 'critical' || TIME_CRITICAL_NAMES.test(schedule.medicationName);
+
+/**
+ * The schedule as it applies on this device: in the home zone when saved
+ * without one, and moved to local time while travelling on it.
+ */
+export const applyTravel = (schedule: MedicationSchedule, settings: TravelSettings): MedicationSchedule => {
+  const { travel, ...rest } = schedule;
+  const timeZone = schedule.timeZone ?? settings.homeTimeZone;
+  if (settings.mode === 'home' || !settings.leg) return { ...rest, timeZone };
+
+  const gradual = settings.gradualScheduleIds.includes(schedule.id);
+  return {
+    ...rest,
+    timeZone,
+    travel: { ...settings.leg, ...(gradual && { stepMinutes: settings.shiftStepMinutes }) },
+  };
+};
+
+export interface ShiftPlanDay {
+  day: Date;
+  times: Date[];
+}
+
+const sameTimes = (a: Date[], b: Date[]): boolean =>
+  a.length === b.length && a.every((time, index) => time.getTime() === b[index]?.getTime());
+
+/**
+ * Dose times, day by day from the start of the leg, of a schedule moving to
+ * the leg's zone at most `stepMinutes` a day, until they reach local time.
+ * Empty when the doses get there in a single step.
+ */
+export const proposeShiftPlan = (
+  schedule: MedicationSchedule,
+  leg: TravelLeg,
+  stepMinutes: number
+): ShiftPlanDay[] => {
+  const gradual: MedicationSchedule = { ...schedule, travel: { ...leg, stepMinutes } };
+  const direct: MedicationSchedule = { ...schedule, travel: leg };
+  const since = new Date(leg.since);
+  const plan: ShiftPlanDay[] = [];
+
+  let day = startOfDay(since);
+  for (let index = 0; index < MAX_PLAN_DAYS; index++, day = addDays(day, 1)) {
+    const from = day > since ? day : since;
+    const times = getDoseTimesBetween(gradual, from, addDays(day, 1));
+    if (times.length === 0) continue;
+    if (sameTimes(times, getDoseTimesBetween(direct, from, addDays(day, 1)))) break;
+    plan.push({ day, times });
+  }
+  return plan;
+};